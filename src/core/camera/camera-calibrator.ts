@@ -0,0 +1,457 @@
+/**
+ * Camera Calibrator
+ * Estimates pinhole intrinsics and lens distortion from views of a planar
+ * calibration board (ChArUco, chessboard or marker grid)
+ *
+ * - Initialization: Zhang's closed form from per-view homographies (zero
+ *   skew), board poses from the homographies
+ * - Refinement: Levenberg-Marquardt over focal lengths, principal point,
+ *   Brown-Conrady distortion (k1, k2, p1, p2, k3) and every board pose
+ *
+ * Capture 10-20 views with the board tilted in different directions and
+ * covering the whole image.
+ */
+
+import { Vector3 } from '../math/vector';
+import { Quaternion } from '../math/quaternion';
+import { Matrix } from '../math/matrix-ops';
+import { Homography } from '../math/homography';
+import type { DetectedMarker } from '../detection/marker-detector';
+import {
+  interpolateCharucoCorners,
+  matchBoardMarkers,
+  type MarkerBoard,
+} from '../detection/marker-board';
+import type { CameraIntrinsics } from './camera-intrinsics';
+
+export interface CameraCalibratorConfig {
+  // Minimum views needed to calibrate
+  minViews?: number;
+
+  // Minimum board points per accepted view
+  minPointsPerView?: number;
+
+  // Levenberg-Marquardt iterations
+  maxIterations?: number;
+
+  // Estimate tangential distortion (p1, p2)
+  estimateTangential?: boolean;
+
+  // Estimate the sixth-order radial term (k3); needs wide-angle coverage
+  estimateK3?: boolean;
+}
+
+/**
+ * Board points observed in one image
+ */
+export interface CalibrationView {
+  objectPoints: Vector3[]; // Board points in the z = 0 plane (meters)
+  imagePoints: Array<[number, number]>; // Pixel coordinates
+}
+
+export interface CameraCalibrationResult {
+  intrinsics: CameraIntrinsics; // distortion: [k1, k2, p1, p2, k3]
+  imageWidth: number;
+  imageHeight: number;
+  rmsError: number; // RMS reprojection error (pixels)
+  perViewErrors: number[]; // RMS reprojection error per view (pixels)
+  numViews: number;
+  numPoints: number;
+  views: Array<{ rotation: Quaternion; position: Vector3 }>; // Board-to-camera poses
+}
+
+/** Parameter layout: [fx, fy, cx, cy, k1, k2, p1, p2, k3, (rx, ry, rz, tx, ty, tz) per view] */
+const NUM_INTRINSIC_PARAMS = 9;
+const NUM_VIEW_PARAMS = 6;
+
+export class CameraCalibrator {
+  private config: Required<CameraCalibratorConfig>;
+  private width: number;
+  private height: number;
+  private views: CalibrationView[] = [];
+
+  constructor(width: number, height: number, config: CameraCalibratorConfig = {}) {
+    this.width = width;
+    this.height = height;
+    this.config = {
+      minViews: config.minViews ?? 3,
+      minPointsPerView: config.minPointsPerView ?? 8,
+      maxIterations: config.maxIterations ?? 50,
+      estimateTangential: config.estimateTangential ?? true,
+      estimateK3: config.estimateK3 ?? false,
+    };
+  }
+
+  /**
+   * Add board points observed in one image
+   * @returns false if the view has too few points
+   */
+  addView(objectPoints: Vector3[], imagePoints: Array<[number, number]>): boolean {
+    if (objectPoints.length !== imagePoints.length) {
+      throw new Error('Object and image point counts differ');
+    }
+    if (objectPoints.some(p => Math.abs(p.z) > 1e-9)) {
+      throw new Error('Calibration board points must lie in the z = 0 plane');
+    }
+    if (objectPoints.length < this.config.minPointsPerView) {
+      return false;
+    }
+
+    this.views.push({
+      objectPoints: objectPoints.map(p => p.clone()),
+      imagePoints: imagePoints.map(([x, y]) => [x, y]),
+    });
+    return true;
+  }
+
+  /**
+   * Add a view from markers detected on a calibration board
+   * ChArUco boards contribute their chessboard corners, other boards their
+   * marker corners.
+   */
+  addBoardView(board: MarkerBoard, detected: DetectedMarker[]): boolean {
+    const objectPoints: Vector3[] = [];
+    const imagePoints: Array<[number, number]> = [];
+
+    if (board.type === 'charuco') {
+      // Corners between two detected markers interpolate more accurately
+      for (const corner of interpolateCharucoCorners(board, detected, 2)) {
+        objectPoints.push(board.chessboardCorners[corner.id]);
+        imagePoints.push(corner.position);
+      }
+    } else {
+      for (const { layout, detection } of matchBoardMarkers(board, detected)) {
+        const { topLeft, topRight, bottomRight, bottomLeft } = detection.corners;
+        objectPoints.push(...layout.corners);
+        imagePoints.push(topLeft, topRight, bottomRight, bottomLeft);
+      }
+    }
+
+    return this.addView(objectPoints, imagePoints);
+  }
+
+  /**
+   * Number of accepted views
+   */
+  getViewCount(): number {
+    return this.views.length;
+  }
+
+  /**
+   * Calibrate from the accepted views
+   * Returns null if there are too few views or they do not constrain the camera.
+   */
+  calibrate(): CameraCalibrationResult | null {
+    if (this.views.length < this.config.minViews) {
+      console.warn(`[CameraCalibrator] Need ${this.config.minViews} views, have ${this.views.length}`);
+      return null;
+    }
+
+    const homographies = this.views.map(view =>
+      Homography.fit(
+        view.objectPoints.map(p => ({ x: p.x, y: p.y })),
+        view.imagePoints.map(([x, y]) => ({ x, y }))
+      )
+    );
+    if (homographies.some(H => !H)) {
+      console.warn('[CameraCalibrator] Degenerate view');
+      return null;
+    }
+
+    const K = this.initializeIntrinsics(homographies as number[][]);
+    if (!K) {
+      console.warn('[CameraCalibrator] Views do not constrain the intrinsics (add more tilted views)');
+      return null;
+    }
+
+    const params = [K.fx, K.fy, K.cx, K.cy, 0, 0, 0, 0, 0];
+    for (const H of homographies as number[][]) {
+      params.push(...this.initializeView(H, K));
+    }
+
+    const refined = this.refine(params);
+    const perViewErrors = this.views.map((view, v) => {
+      const residuals = this.viewResiduals(refined, v);
+      return Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / view.objectPoints.length);
+    });
+
+    const numPoints = this.views.reduce((s, view) => s + view.objectPoints.length, 0);
+    const rmsError = Math.sqrt(
+      this.views.reduce((s, view, v) => s + perViewErrors[v] ** 2 * view.objectPoints.length, 0) / numPoints
+    );
+
+    console.log(
+      `[CameraCalibrator] RMS reprojection error ${rmsError.toFixed(3)} px over ${this.views.length} views`
+    );
+
+    const [fx, fy, cx, cy, k1, k2, p1, p2, k3] = refined;
+    return {
+      intrinsics: { fx, fy, cx, cy, distortion: [k1, k2, p1, p2, k3], distortionModel: 'brown-conrady' },
+      imageWidth: this.width,
+      imageHeight: this.height,
+      rmsError,
+      perViewErrors,
+      numViews: this.views.length,
+      numPoints,
+      views: this.views.map((_, v) => {
+        const o = NUM_INTRINSIC_PARAMS + v * NUM_VIEW_PARAMS;
+        return {
+          rotation: Quaternion.fromRotationVector(new Vector3(refined[o], refined[o + 1], refined[o + 2])),
+          position: new Vector3(refined[o + 3], refined[o + 4], refined[o + 5]),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Discard all views
+   */
+  reset(): void {
+    this.views = [];
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Zhang's closed-form intrinsics (zero skew)
+   * Homographies are expressed in normalized pixel coordinates for conditioning.
+   */
+  private initializeIntrinsics(homographies: number[][]): { fx: number; fy: number; cx: number; cy: number } | null {
+    const scale = Math.max(this.width, this.height) / 2;
+    const ox = this.width / 2;
+    const oy = this.height / 2;
+
+    // With B12 = 0: b = [B11, B22, B13, B23, B33]
+    const rows: number[][] = [];
+    for (const H of homographies) {
+      const h = (r: number, c: number) => (r === 0 ? (H[c] - ox * H[6 + c]) / scale : r === 1 ? (H[3 + c] - oy * H[6 + c]) / scale : H[6 + c]);
+      const v = (i: number, j: number) => [
+        h(0, i) * h(0, j),
+        h(1, i) * h(1, j),
+        h(2, i) * h(0, j) + h(0, i) * h(2, j),
+        h(2, i) * h(1, j) + h(1, i) * h(2, j),
+        h(2, i) * h(2, j),
+      ];
+
+      rows.push(v(0, 1));
+      const v11 = v(0, 0);
+      const v22 = v(1, 1);
+      rows.push(v11.map((value, k) => value - v22[k]));
+    }
+
+    let [B11, B22, B13, B23, B33] = Matrix.nullVector(rows);
+    if (B11 < 0) {
+      [B11, B22, B13, B23, B33] = [-B11, -B22, -B13, -B23, -B33];
+    }
+    if (B11 <= 0 || B22 <= 0) {return null;}
+
+    const v0 = -B23 / B22;
+    const lambda = B33 - B13 * B13 / B11 + v0 * B23;
+    if (lambda <= 0) {return null;}
+
+    const alpha = Math.sqrt(lambda / B11);
+    const beta = Math.sqrt(lambda / B22);
+    const u0 = -B13 * alpha * alpha / lambda;
+
+    const result = { fx: alpha * scale, fy: beta * scale, cx: u0 * scale + ox, cy: v0 * scale + oy };
+    return Object.values(result).every(Number.isFinite) ? result : null;
+  }
+
+  /**
+   * Board pose [rotation vector, translation] from a homography: H ~ K [r1 r2 t]
+   */
+  private initializeView(H: number[], K: { fx: number; fy: number; cx: number; cy: number }): number[] {
+    const column = (c: number) => [
+      (H[c] - K.cx * H[6 + c]) / K.fx,
+      (H[3 + c] - K.cy * H[6 + c]) / K.fy,
+      H[6 + c],
+    ];
+    let [r1, r2, t] = [column(0), column(1), column(2)];
+
+    // Scale so |r1| = 1 with the board in front of the camera
+    let s = 1 / Math.hypot(...r1);
+    if (t[2] * s < 0) {s = -s;}
+    [r1, r2, t] = [r1, r2, t].map(c => c.map(x => x * s));
+
+    const r3 = new Vector3(r1[0], r1[1], r1[2]).cross(new Vector3(r2[0], r2[1], r2[2])).toArray();
+    const Q = [0, 1, 2].map(r => [r1[r], r2[r], r3[r]]);
+
+    // Closest rotation
+    const { U, V } = Matrix.svd(Q);
+    const d = Math.sign(Matrix.determinant(Matrix.multiply(U, Matrix.transpose(V)))) || 1;
+    const R = Matrix.multiply(Matrix.multiply(U, Matrix.diagonal([1, 1, d])), Matrix.transpose(V));
+    const rotation = Quaternion.fromRotationMatrix(R.flat()).normalize().toRotationVector();
+
+    return [rotation.x, rotation.y, rotation.z, t[0], t[1], t[2]];
+  }
+
+  /**
+   * Levenberg-Marquardt over all parameters
+   * Jacobians by central differences; each view only touches its own pose.
+   */
+  private refine(initial: number[]): number[] {
+    const numParams = initial.length;
+    const fixed = new Set<number>();
+    if (!this.config.estimateTangential) {
+      fixed.add(6);
+      fixed.add(7);
+    }
+    if (!this.config.estimateK3) {
+      fixed.add(8);
+    }
+
+    let params = [...initial];
+    let cost = this.totalCost(params);
+    let damping = 1e-3;
+
+    for (let iter = 0; iter < this.config.maxIterations; iter++) {
+      const JtJ = Matrix.zeros(numParams, numParams);
+      const Jtr = new Array(numParams).fill(0);
+
+      for (let v = 0; v < this.views.length; v++) {
+        const indices = [
+          ...Array.from({ length: NUM_INTRINSIC_PARAMS }, (_, i) => i),
+          ...Array.from({ length: NUM_VIEW_PARAMS }, (_, i) => NUM_INTRINSIC_PARAMS + v * NUM_VIEW_PARAMS + i),
+        ];
+        const residuals = this.viewResiduals(params, v);
+        const columns = indices.map(index => this.differentiate(params, v, index));
+
+        for (let a = 0; a < indices.length; a++) {
+          let g = 0;
+          for (let k = 0; k < residuals.length; k++) {
+            g += columns[a][k] * residuals[k];
+          }
+          Jtr[indices[a]] += g;
+
+          for (let b = a; b < indices.length; b++) {
+            let sum = 0;
+            for (let k = 0; k < residuals.length; k++) {
+              sum += columns[a][k] * columns[b][k];
+            }
+            JtJ[indices[a]][indices[b]] += sum;
+            if (a !== b) {
+              JtJ[indices[b]][indices[a]] += sum;
+            }
+          }
+        }
+      }
+
+      for (const index of fixed) {
+        for (let k = 0; k < numParams; k++) {
+          JtJ[index][k] = 0;
+          JtJ[k][index] = 0;
+        }
+        JtJ[index][index] = 1;
+        Jtr[index] = 0;
+      }
+
+      // Try increasing damping until the cost decreases
+      let improved = false;
+      for (let attempt = 0; attempt < 10 && !improved; attempt++) {
+        const A = JtJ.map((row, r) => row.map((value, c) => (r === c ? value + damping * Math.max(value, 1e-9) : value)));
+
+        let step: number[];
+        try {
+          step = Matrix.solveCholesky(A, Jtr);
+        } catch {
+          damping *= 10;
+          continue;
+        }
+
+        const candidate = params.map((p, i) => p - step[i]);
+        const candidateCost = this.totalCost(candidate);
+        if (candidateCost < cost) {
+          improved = true;
+          const relativeDecrease = (cost - candidateCost) / Math.max(cost, 1e-300);
+          params = candidate;
+          cost = candidateCost;
+          damping = Math.max(damping / 10, 1e-12);
+          if (relativeDecrease < 1e-12) {return params;}
+        } else {
+          damping *= 10;
+        }
+      }
+
+      if (!improved) {break;}
+    }
+
+    return params;
+  }
+
+  /**
+   * Residual derivative of one view with respect to one parameter
+   */
+  private differentiate(params: number[], view: number, index: number): number[] {
+    const h = 1e-7 * Math.max(1, Math.abs(params[index]));
+    const plus = [...params];
+    const minus = [...params];
+    plus[index] += h;
+    minus[index] -= h;
+
+    const rPlus = this.viewResiduals(plus, view);
+    const rMinus = this.viewResiduals(minus, view);
+    return rPlus.map((value, k) => (value - rMinus[k]) / (2 * h));
+  }
+
+  private totalCost(params: number[]): number {
+    let cost = 0;
+    for (let v = 0; v < this.views.length; v++) {
+      for (const r of this.viewResiduals(params, v)) {
+        cost += r * r;
+      }
+    }
+    return Number.isFinite(cost) ? cost : Infinity;
+  }
+
+  /**
+   * Reprojection residuals [du0, dv0, du1, dv1, ...] of one view (pixels)
+   */
+  private viewResiduals(params: number[], view: number): number[] {
+    const [fx, fy, cx, cy, k1, k2, p1, p2, k3] = params;
+    const o = NUM_INTRINSIC_PARAMS + view * NUM_VIEW_PARAMS;
+    const R = Quaternion.fromRotationVector(new Vector3(params[o], params[o + 1], params[o + 2])).toRotationMatrix();
+    const { objectPoints, imagePoints } = this.views[view];
+    const residuals: number[] = [];
+
+    for (let i = 0; i < objectPoints.length; i++) {
+      const { x: X, y: Y } = objectPoints[i];
+      const px = R[0] * X + R[1] * Y + params[o + 3];
+      const py = R[3] * X + R[4] * Y + params[o + 4];
+      const pz = R[6] * X + R[7] * Y + params[o + 5];
+
+      const x = px / pz;
+      const y = py / pz;
+      const r2 = x * x + y * y;
+      const radial = 1 + k1 * r2 + k2 * r2 * r2 + k3 * r2 * r2 * r2;
+      const xd = x * radial + 2 * p1 * x * y + p2 * (r2 + 2 * x * x);
+      const yd = y * radial + p1 * (r2 + 2 * y * y) + 2 * p2 * x * y;
+
+      residuals.push(fx * xd + cx - imagePoints[i][0], fy * yd + cy - imagePoints[i][1]);
+    }
+
+    return residuals;
+  }
+}
+
+/**
+ * Intrinsics of a calibration rescaled to another capture resolution
+ * (assumes the same sensor area is used, e.g. 1920×1080 → 1280×720)
+ */
+export function scaleCalibratedIntrinsics(
+  calibration: CameraCalibrationResult,
+  width: number,
+  height: number
+): CameraIntrinsics {
+  const sx = width / calibration.imageWidth;
+  const sy = height / calibration.imageHeight;
+  const { fx, fy, cx, cy, distortion, distortionModel } = calibration.intrinsics;
+
+  return {
+    fx: fx * sx,
+    fy: fy * sy,
+    cx: cx * sx,
+    cy: cy * sy,
+    distortion: distortion ? [...distortion] : undefined,
+    distortionModel,
+  };
+}
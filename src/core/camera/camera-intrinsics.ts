@@ -0,0 +1,204 @@
+/**
+ * Camera Intrinsics
+ * Shared pinhole camera model with optional lens distortion
+ *
+ * Distortion models (applied to normalized image coordinates):
+ * - Brown-Conrady: radial k1, k2, k3 and tangential p1, p2
+ *   Coefficients [k1, k2, p1, p2, k3] (OpenCV order, trailing terms optional)
+ * - Fisheye (Kannala-Brandt equidistant): θd = θ (1 + k1θ² + k2θ⁴ + k3θ⁶ + k4θ⁸)
+ *   Coefficients [k1, k2, k3, k4]
+ *
+ * Undistorting corners and keypoints first lets every pinhole algorithm
+ * (EPnP, homographies, triangulation) run unchanged.
+ */
+
+import type { Vector3 } from '../math/vector';
+import type { MarkerCorners } from '../detection/marker-detector';
+
+export type DistortionModel = 'brown-conrady' | 'fisheye';
+
+export interface CameraIntrinsics {
+  fx: number; // Focal length X
+  fy: number; // Focal length Y
+  cx: number; // Principal point X
+  cy: number; // Principal point Y
+  distortion?: number[]; // Distortion coefficients (layout depends on distortionModel)
+  distortionModel?: DistortionModel; // Default: 'brown-conrady'
+}
+
+/** Newton iterations for inverting the distortion */
+const UNDISTORT_ITERATIONS = 20;
+
+/**
+ * True if the intrinsics carry non-zero distortion coefficients
+ */
+export function hasDistortion(intrinsics: CameraIntrinsics): boolean {
+  return !!intrinsics.distortion && intrinsics.distortion.some(k => k !== 0);
+}
+
+/**
+ * Same camera without distortion (for data that has been undistorted)
+ */
+export function withoutDistortion<T extends CameraIntrinsics>(intrinsics: T): T {
+  const pinhole = { ...intrinsics };
+  delete pinhole.distortion;
+  delete pinhole.distortionModel;
+  return pinhole;
+}
+
+/**
+ * Apply lens distortion to ideal normalized coordinates
+ */
+export function distortNormalized(intrinsics: CameraIntrinsics, x: number, y: number): [number, number] {
+  const d = intrinsics.distortion;
+  if (!d || d.length === 0) {
+    return [x, y];
+  }
+
+  if (intrinsics.distortionModel === 'fisheye') {
+    const [k1 = 0, k2 = 0, k3 = 0, k4 = 0] = d;
+    const r = Math.hypot(x, y);
+    if (r < 1e-12) {return [x, y];}
+
+    const theta = Math.atan(r);
+    const t2 = theta * theta;
+    const thetaD = theta * (1 + t2 * (k1 + t2 * (k2 + t2 * (k3 + t2 * k4))));
+    return [(x * thetaD) / r, (y * thetaD) / r];
+  }
+
+  const [k1 = 0, k2 = 0, p1 = 0, p2 = 0, k3 = 0] = d;
+  const r2 = x * x + y * y;
+  const radial = 1 + r2 * (k1 + r2 * (k2 + r2 * k3));
+  return [
+    x * radial + 2 * p1 * x * y + p2 * (r2 + 2 * x * x),
+    y * radial + p1 * (r2 + 2 * y * y) + 2 * p2 * x * y,
+  ];
+}
+
+/**
+ * Remove lens distortion from distorted normalized coordinates
+ */
+export function undistortNormalized(intrinsics: CameraIntrinsics, xd: number, yd: number): [number, number] {
+  if (!hasDistortion(intrinsics)) {
+    return [xd, yd];
+  }
+
+  if (intrinsics.distortionModel === 'fisheye') {
+    return undistortFisheye(intrinsics.distortion!, xd, yd);
+  }
+
+  // Newton's method on distort(x, y) = (xd, yd), numeric 2×2 Jacobian
+  let x = xd;
+  let y = yd;
+  const h = 1e-7;
+
+  for (let iter = 0; iter < UNDISTORT_ITERATIONS; iter++) {
+    const [fx, fy] = distortNormalized(intrinsics, x, y);
+    const ex = fx - xd;
+    const ey = fy - yd;
+    if (ex * ex + ey * ey < 1e-24) {break;}
+
+    const [ax, ay] = distortNormalized(intrinsics, x + h, y);
+    const [bx, by] = distortNormalized(intrinsics, x, y + h);
+    const j00 = (ax - fx) / h;
+    const j10 = (ay - fy) / h;
+    const j01 = (bx - fx) / h;
+    const j11 = (by - fy) / h;
+
+    const det = j00 * j11 - j01 * j10;
+    if (Math.abs(det) < 1e-12) {break;}
+
+    x -= (j11 * ex - j01 * ey) / det;
+    y -= (j00 * ey - j10 * ex) / det;
+  }
+
+  return [x, y];
+}
+
+/**
+ * Undistorted normalized coordinates of a pixel
+ */
+export function pixelToNormalized(intrinsics: CameraIntrinsics, pixel: [number, number]): [number, number] {
+  return undistortNormalized(
+    intrinsics,
+    (pixel[0] - intrinsics.cx) / intrinsics.fx,
+    (pixel[1] - intrinsics.cy) / intrinsics.fy
+  );
+}
+
+/**
+ * Project a camera-frame point to (distorted) pixel coordinates
+ * Returns null for points behind the camera.
+ */
+export function projectToPixel(intrinsics: CameraIntrinsics, point: Vector3): [number, number] | null {
+  if (point.z <= 0) {
+    return null;
+  }
+
+  const [x, y] = distortNormalized(intrinsics, point.x / point.z, point.y / point.z);
+  return [x * intrinsics.fx + intrinsics.cx, y * intrinsics.fy + intrinsics.cy];
+}
+
+/**
+ * Pixel position the point would have in an ideal pinhole camera
+ */
+export function undistortPixel(intrinsics: CameraIntrinsics, pixel: [number, number]): [number, number] {
+  if (!hasDistortion(intrinsics)) {
+    return pixel;
+  }
+
+  const [x, y] = pixelToNormalized(intrinsics, pixel);
+  return [x * intrinsics.fx + intrinsics.cx, y * intrinsics.fy + intrinsics.cy];
+}
+
+/**
+ * Undistort detected marker corners
+ */
+export function undistortMarkerCorners(intrinsics: CameraIntrinsics, corners: MarkerCorners): MarkerCorners {
+  return {
+    topLeft: undistortPixel(intrinsics, corners.topLeft),
+    topRight: undistortPixel(intrinsics, corners.topRight),
+    bottomRight: undistortPixel(intrinsics, corners.bottomRight),
+    bottomLeft: undistortPixel(intrinsics, corners.bottomLeft),
+  };
+}
+
+/**
+ * Undistort keypoint positions (other fields are kept)
+ */
+export function undistortKeypoints<T extends { x: number; y: number }>(intrinsics: CameraIntrinsics, keypoints: T[]): T[] {
+  if (!hasDistortion(intrinsics)) {
+    return keypoints;
+  }
+
+  return keypoints.map(kp => {
+    const [x, y] = undistortPixel(intrinsics, [kp.x, kp.y]);
+    return { ...kp, x, y };
+  });
+}
+
+/**
+ * Invert θd(θ) with Newton's method, then r = tan θ
+ */
+function undistortFisheye(coefficients: number[], xd: number, yd: number): [number, number] {
+  const [k1 = 0, k2 = 0, k3 = 0, k4 = 0] = coefficients;
+  const thetaD = Math.hypot(xd, yd);
+  if (thetaD < 1e-12) {
+    return [xd, yd];
+  }
+
+  let theta = Math.min(thetaD, Math.PI / 2 - 1e-6);
+  for (let iter = 0; iter < UNDISTORT_ITERATIONS; iter++) {
+    const t2 = theta * theta;
+    const f = theta * (1 + t2 * (k1 + t2 * (k2 + t2 * (k3 + t2 * k4)))) - thetaD;
+    const df = 1 + t2 * (3 * k1 + t2 * (5 * k2 + t2 * (7 * k3 + 9 * t2 * k4)));
+    if (Math.abs(df) < 1e-12) {break;}
+
+    const step = f / df;
+    theta = Math.min(Math.max(theta - step, 0), Math.PI / 2 - 1e-6);
+    if (Math.abs(step) < 1e-14) {break;}
+  }
+
+  const scale = Math.tan(theta) / thetaD;
+  return [xd * scale, yd * scale];
+}
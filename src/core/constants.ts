@@ -38,6 +38,9 @@ export const IMU_BUFFER_TIME_WINDOW_MS = 1000;
 /** Maximum time delta for IMU integration (seconds) */
 export const IMU_MAX_TIME_DELTA_SEC = 1.0;
 
+/** Recent keyframes considered for visual-inertial initialization */
+export const INERTIAL_INIT_KEYFRAMES = 20;
+
 // ============================================================================
 // SLAM Configuration Defaults
 // ============================================================================
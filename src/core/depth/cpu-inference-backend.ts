@@ -0,0 +1,335 @@
+/**
+ * CPU Inference Backend
+ * Pure TypeScript reference interpreter for small ONNX graphs
+ *
+ * Supports the operators needed by tests and tiny models; far too slow for
+ * real depth networks. Unsupported operators fail at session creation.
+ */
+
+import type { ModelInfo } from './model-loader';
+import type { InferenceBackend, ONNXSession } from './inference-backend';
+import { resolveInputDims } from './inference-backend';
+import { parseOnnxModel, type OnnxGraph, type OnnxNode, type OnnxTensor } from './onnx-model';
+
+type Operator = (node: OnnxNode, inputs: Array<OnnxTensor | null>, graph: OnnxGraph) => OnnxTensor[];
+
+/**
+ * Reference backend running ONNX graphs on the CPU
+ */
+export class CPUInferenceBackend implements InferenceBackend {
+  readonly name = 'cpu';
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async createSession(model: Uint8Array, info: ModelInfo): Promise<ONNXSession> {
+    const graph = parseOnnxModel(model);
+
+    for (const node of graph.nodes) {
+      if (!OPERATORS[node.opType]) {
+        throw new Error(`CPU backend does not support operator ${node.opType}`);
+      }
+    }
+
+    const inputDims = new Map(graph.inputs.map(input => [input.name, resolveInputDims(input, info)]));
+
+    return {
+      inputNames: graph.inputs.map(input => input.name),
+      outputNames: graph.outputs.map(output => output.name),
+      inputs: graph.inputs,
+      outputs: graph.outputs,
+      backend: this.name,
+      run: async (feeds: Record<string, Float32Array>) => {
+        const values = new Map<string, OnnxTensor>(graph.initializers);
+
+        for (const [name, dims] of inputDims) {
+          const data = feeds[name];
+          if (!data) {
+            throw new Error(`Missing input ${name}`);
+          }
+          if (data.length !== size(dims)) {
+            throw new Error(`Input ${name} has ${data.length} values, expected [${dims.join(', ')}]`);
+          }
+          values.set(name, { dims, data });
+        }
+
+        for (const node of graph.nodes) {
+          const inputs = node.inputs.map(name => (name ? values.get(name) ?? null : null));
+          const outputs = OPERATORS[node.opType](node, inputs, graph);
+          node.outputs.forEach((name, i) => {
+            if (outputs[i]) {
+              values.set(name, outputs[i]);
+            }
+          });
+        }
+
+        const result: Record<string, Float32Array> = {};
+        for (const output of graph.outputs) {
+          const value = values.get(output.name);
+          if (!value) {
+            throw new Error(`Graph output ${output.name} was not computed`);
+          }
+          result[output.name] = value.data;
+        }
+        return result;
+      },
+      release: async () => {},
+    };
+  }
+}
+
+// ==================== Operators ====================
+
+const OPERATORS: Record<string, Operator> = {
+  Identity: (_node, [x]) => [required(x)],
+  Constant: node => [attributeTensor(node, 'value')],
+  Add: (_node, [a, b]) => [broadcast(required(a), required(b), (x, y) => x + y)],
+  Sub: (_node, [a, b]) => [broadcast(required(a), required(b), (x, y) => x - y)],
+  Mul: (_node, [a, b]) => [broadcast(required(a), required(b), (x, y) => x * y)],
+  Div: (_node, [a, b]) => [broadcast(required(a), required(b), (x, y) => x / y)],
+  Relu: (_node, [x]) => [map(required(x), v => Math.max(0, v))],
+  Sigmoid: (_node, [x]) => [map(required(x), v => 1 / (1 + Math.exp(-v)))],
+  Conv: (node, [x, w, b]) => [conv(node, required(x), required(w), b)],
+  ReduceMean: (node, [x, axesInput], graph) => [reduceMean(node, required(x), axesInput, graph)],
+  Reshape: (_node, [x, shape]) => [reshape(required(x), required(shape))],
+  Squeeze: (node, [x, axesInput]) => [squeeze(required(x), readAxes(node, axesInput))],
+  Unsqueeze: (node, [x, axesInput]) => [unsqueeze(required(x), readAxes(node, axesInput) ?? [])],
+  Transpose: (node, [x]) => [transpose(required(x), node.attributes.get('perm') as number[] | undefined)],
+};
+
+function required(tensor: OnnxTensor | null | undefined): OnnxTensor {
+  if (!tensor) {
+    throw new Error('Missing operator input');
+  }
+  return tensor;
+}
+
+function attributeTensor(node: OnnxNode, name: string): OnnxTensor {
+  const value = node.attributes.get(name);
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${node.opType} requires a tensor attribute ${name}`);
+  }
+  return value;
+}
+
+function size(dims: number[]): number {
+  return dims.reduce((product, dim) => product * dim, 1);
+}
+
+function strides(dims: number[]): number[] {
+  const result = new Array<number>(dims.length);
+  let stride = 1;
+  for (let i = dims.length - 1; i >= 0; i--) {
+    result[i] = stride;
+    stride *= dims[i];
+  }
+  return result;
+}
+
+function map(x: OnnxTensor, fn: (value: number) => number): OnnxTensor {
+  return { dims: x.dims, data: x.data.map(fn) };
+}
+
+/**
+ * Elementwise binary operation with NumPy broadcasting
+ */
+function broadcast(a: OnnxTensor, b: OnnxTensor, fn: (x: number, y: number) => number): OnnxTensor {
+  const rank = Math.max(a.dims.length, b.dims.length);
+  const aDims = [...new Array(rank - a.dims.length).fill(1), ...a.dims];
+  const bDims = [...new Array(rank - b.dims.length).fill(1), ...b.dims];
+  const dims = aDims.map((dim, i) => {
+    if (dim !== bDims[i] && dim !== 1 && bDims[i] !== 1) {
+      throw new Error(`Cannot broadcast [${a.dims.join(', ')}] with [${b.dims.join(', ')}]`);
+    }
+    return Math.max(dim, bDims[i]);
+  });
+
+  const aStrides = strides(aDims).map((stride, i) => (aDims[i] === 1 ? 0 : stride));
+  const bStrides = strides(bDims).map((stride, i) => (bDims[i] === 1 ? 0 : stride));
+  const outStrides = strides(dims);
+  const data = new Float32Array(size(dims));
+
+  for (let i = 0; i < data.length; i++) {
+    let aIndex = 0;
+    let bIndex = 0;
+    let rest = i;
+    for (let axis = 0; axis < rank; axis++) {
+      const coord = Math.floor(rest / outStrides[axis]);
+      rest -= coord * outStrides[axis];
+      aIndex += coord * aStrides[axis];
+      bIndex += coord * bStrides[axis];
+    }
+    data[i] = fn(a.data[aIndex], b.data[bIndex]);
+  }
+
+  return { dims, data };
+}
+
+/**
+ * 2D convolution, NCHW input and [M, C/group, kH, kW] weights
+ */
+function conv(node: OnnxNode, x: OnnxTensor, w: OnnxTensor, bias: OnnxTensor | null): OnnxTensor {
+  if (x.dims.length !== 4) {
+    throw new Error('CPU backend only supports 2D Conv');
+  }
+
+  const [batch, channels, height, width] = x.dims;
+  const [outChannels, groupChannels, kernelH, kernelW] = w.dims;
+  const group = (node.attributes.get('group') as number | undefined) ?? 1;
+  const [strideY, strideX] = (node.attributes.get('strides') as number[] | undefined) ?? [1, 1];
+  const [dilationY, dilationX] = (node.attributes.get('dilations') as number[] | undefined) ?? [1, 1];
+  const autoPad = (node.attributes.get('auto_pad') as string | undefined) ?? 'NOTSET';
+
+  let [padTop, padLeft, padBottom, padRight] = (node.attributes.get('pads') as number[] | undefined) ?? [0, 0, 0, 0];
+  if (autoPad === 'SAME_UPPER' || autoPad === 'SAME_LOWER') {
+    [padTop, padBottom] = samePadding(height, strideY, (kernelH - 1) * dilationY + 1, autoPad);
+    [padLeft, padRight] = samePadding(width, strideX, (kernelW - 1) * dilationX + 1, autoPad);
+  } else if (autoPad === 'VALID') {
+    padTop = padLeft = padBottom = padRight = 0;
+  }
+
+  if (groupChannels * group !== channels) {
+    throw new Error(`Conv weights expect ${groupChannels * group} channels, got ${channels}`);
+  }
+
+  const outH = Math.floor((height + padTop + padBottom - (kernelH - 1) * dilationY - 1) / strideY) + 1;
+  const outW = Math.floor((width + padLeft + padRight - (kernelW - 1) * dilationX - 1) / strideX) + 1;
+  const outPerGroup = outChannels / group;
+  const data = new Float32Array(batch * outChannels * outH * outW);
+
+  for (let n = 0; n < batch; n++) {
+    for (let m = 0; m < outChannels; m++) {
+      const firstChannel = Math.floor(m / outPerGroup) * groupChannels;
+      const offset = bias ? bias.data[m] : 0;
+
+      for (let oy = 0; oy < outH; oy++) {
+        for (let ox = 0; ox < outW; ox++) {
+          let sum = offset;
+          for (let c = 0; c < groupChannels; c++) {
+            const inputBase = (n * channels + firstChannel + c) * height * width;
+            const weightBase = (m * groupChannels + c) * kernelH * kernelW;
+            for (let ky = 0; ky < kernelH; ky++) {
+              const iy = oy * strideY - padTop + ky * dilationY;
+              if (iy < 0 || iy >= height) {continue;}
+              for (let kx = 0; kx < kernelW; kx++) {
+                const ix = ox * strideX - padLeft + kx * dilationX;
+                if (ix < 0 || ix >= width) {continue;}
+                sum += x.data[inputBase + iy * width + ix] * w.data[weightBase + ky * kernelW + kx];
+              }
+            }
+          }
+          data[((n * outChannels + m) * outH + oy) * outW + ox] = sum;
+        }
+      }
+    }
+  }
+
+  return { dims: [batch, outChannels, outH, outW], data };
+}
+
+function samePadding(inputSize: number, stride: number, kernel: number, mode: string): [number, number] {
+  const outSize = Math.ceil(inputSize / stride);
+  const total = Math.max(0, (outSize - 1) * stride + kernel - inputSize);
+  const small = Math.floor(total / 2);
+  return mode === 'SAME_UPPER' ? [small, total - small] : [total - small, small];
+}
+
+/**
+ * Axes from the attribute (older opsets) or the second input (newer opsets)
+ */
+function readAxes(node: OnnxNode, axesInput: OnnxTensor | null): number[] | undefined {
+  if (axesInput) {
+    return Array.from(axesInput.data);
+  }
+  return node.attributes.get('axes') as number[] | undefined;
+}
+
+function normalizeAxes(axes: number[], rank: number): number[] {
+  return axes.map(axis => (axis < 0 ? axis + rank : axis));
+}
+
+function reduceMean(node: OnnxNode, x: OnnxTensor, axesInput: OnnxTensor | null, graph: OnnxGraph): OnnxTensor {
+  const keepDims = ((node.attributes.get('keepdims') as number | undefined) ?? 1) !== 0;
+  const noopWithEmptyAxes = graph.opsetVersion >= 18 && node.attributes.get('noop_with_empty_axes') === 1;
+  const requested = readAxes(node, axesInput);
+
+  if (!requested?.length && noopWithEmptyAxes) {
+    return x;
+  }
+
+  const rank = x.dims.length;
+  const axes = new Set(requested?.length ? normalizeAxes(requested, rank) : x.dims.map((_, i) => i));
+  const reducedDims = x.dims.map((dim, i) => (axes.has(i) ? 1 : dim));
+  const inStrides = strides(x.dims);
+  const outStrides = strides(reducedDims);
+  const sums = new Float32Array(size(reducedDims));
+
+  for (let i = 0; i < x.data.length; i++) {
+    let outIndex = 0;
+    let rest = i;
+    for (let axis = 0; axis < rank; axis++) {
+      const coord = Math.floor(rest / inStrides[axis]);
+      rest -= coord * inStrides[axis];
+      if (!axes.has(axis)) {
+        outIndex += coord * outStrides[axis];
+      }
+    }
+    sums[outIndex] += x.data[i];
+  }
+
+  const count = x.data.length / sums.length;
+  const data = sums.map(sum => sum / count);
+  const dims = keepDims ? reducedDims : x.dims.filter((_, i) => !axes.has(i));
+  return { dims, data };
+}
+
+function reshape(x: OnnxTensor, shape: OnnxTensor): OnnxTensor {
+  const dims = Array.from(shape.data, (dim, i) => (dim === 0 ? x.dims[i] : dim));
+  const inferred = dims.indexOf(-1);
+  if (inferred >= 0) {
+    dims[inferred] = x.data.length / -size(dims);
+  }
+  if (size(dims) !== x.data.length) {
+    throw new Error(`Cannot reshape [${x.dims.join(', ')}] to [${dims.join(', ')}]`);
+  }
+  return { dims, data: x.data };
+}
+
+function squeeze(x: OnnxTensor, axes: number[] | undefined): OnnxTensor {
+  const remove = new Set(axes ? normalizeAxes(axes, x.dims.length) : x.dims.flatMap((dim, i) => (dim === 1 ? [i] : [])));
+  return { dims: x.dims.filter((_, i) => !remove.has(i)), data: x.data };
+}
+
+function unsqueeze(x: OnnxTensor, axes: number[]): OnnxTensor {
+  const rank = x.dims.length + axes.length;
+  const insert = new Set(normalizeAxes(axes, rank));
+  const dims: number[] = [];
+  let source = 0;
+  for (let i = 0; i < rank; i++) {
+    dims.push(insert.has(i) ? 1 : x.dims[source++]);
+  }
+  return { dims, data: x.data };
+}
+
+function transpose(x: OnnxTensor, perm: number[] | undefined): OnnxTensor {
+  const rank = x.dims.length;
+  const order = perm ?? x.dims.map((_, i) => rank - 1 - i);
+  const dims = order.map(axis => x.dims[axis]);
+  const inStrides = strides(x.dims);
+  const outStrides = strides(dims);
+  const data = new Float32Array(x.data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    let inIndex = 0;
+    let rest = i;
+    for (let axis = 0; axis < rank; axis++) {
+      const coord = Math.floor(rest / outStrides[axis]);
+      rest -= coord * outStrides[axis];
+      inIndex += coord * inStrides[order[axis]];
+    }
+    data[i] = x.data[inIndex];
+  }
+
+  return { dims, data };
+}
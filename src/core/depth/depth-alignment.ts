@@ -0,0 +1,462 @@
+/**
+ * Depth Alignment
+ * Metric scale recovery for relative (monocular) depth
+ *
+ * MiDaS-style models predict depth up to an unknown scale and shift, in
+ * inverse depth. Sparse metric depths (SLAM map points, marker poses, plane
+ * distances) pin that affine ambiguity down:
+ *
+ *   1 / Z = scale · d + shift   ('inverse', MiDaS disparity)
+ *   Z     = scale · d + shift   ('depth', affine relative depth)
+ *
+ * where d is the DepthMap value. The fit is RANSAC over two-sample models
+ * followed by weighted least squares on the inliers, minimizing relative
+ * depth error. Alignments are filtered over time so the metric scale of
+ * consecutive depth maps stays consistent.
+ */
+
+import { DepthMap } from './depth-map';
+import { Vector3 } from '../math/vector';
+import type { Matrix4 } from '../math/matrix';
+import type { Quaternion } from '../math/quaternion';
+import {
+  projectToPixel,
+  pixelToNormalized,
+  type CameraIntrinsics,
+} from '../camera/camera-intrinsics';
+import { Logger } from '../../utils/logger';
+import { createRandom } from '../../utils/random';
+
+const log = Logger.create('DepthAligner');
+
+/**
+ * Which quantity the depth map values are affine in
+ */
+export type DepthAlignmentSpace = 'inverse' | 'depth';
+
+/**
+ * Known metric depth at a depth map pixel
+ */
+export interface MetricDepthSample {
+  x: number; // Depth map pixel
+  y: number;
+  depth: number; // Meters along the optical axis
+  weight?: number; // Relative confidence (default: 1)
+}
+
+export interface DepthAlignmentConfig {
+  // What the depth map values are affine in (default: 'inverse')
+  space?: DepthAlignmentSpace;
+
+  // RANSAC iterations (default: 100)
+  ransacIterations?: number;
+
+  // Relative depth error of an inlier (default: 0.1 = 10%)
+  inlierThreshold?: number;
+
+  // Samples (and inliers) needed to fit (default: 6)
+  minSamples?: number;
+
+  // 0-1, weight of the previous alignment (default: 0.8)
+  temporalSmoothing?: number;
+
+  // Relative depth change that resets the filter instead of smoothing (default: 0.3)
+  resetThreshold?: number;
+
+  // Seed of the RANSAC sampler (default: 1)
+  seed?: number;
+}
+
+/**
+ * Scale and shift mapping a depth map to meters
+ */
+export interface DepthAlignment {
+  scale: number;
+  shift: number;
+  space: DepthAlignmentSpace;
+}
+
+/**
+ * Alignment of one frame
+ */
+export interface DepthAlignmentResult {
+  alignment: DepthAlignment; // Temporally filtered alignment, applied to the depth map
+  frameAlignment: DepthAlignment | null; // This frame's fit (null if it failed)
+  depthMap: DepthMap; // Metric depth map
+  sampleCount: number;
+  inlierCount: number;
+  residual: number; // RMS relative depth error of the applied alignment on all samples (capped at 1 per sample)
+  fitResidual: number; // RMS relative depth error of this frame's fit on its inliers
+}
+
+/**
+ * Fits depth maps to metric samples, frame after frame
+ *
+ * @example
+ * ```typescript
+ * const samples = samplesFromWorldPoints(
+ *   map.getAllMapPoints().map(point => point.position),
+ *   keyframe.pose.transform,
+ *   intrinsics,
+ *   depthMap,
+ *   { width: video.videoWidth, height: video.videoHeight }
+ * );
+ * const aligned = aligner.align(depthMap, samples);
+ * if (aligned) {
+ *   tsdf.integrate(aligned.depthMap, cameraPose, depthIntrinsics);
+ * }
+ * ```
+ */
+export class DepthAligner {
+  private config: Required<DepthAlignmentConfig>;
+  private filtered: DepthAlignment | null = null;
+  private random: () => number;
+
+  constructor(config: DepthAlignmentConfig = {}) {
+    this.config = {
+      space: config.space ?? 'inverse',
+      ransacIterations: config.ransacIterations ?? 100,
+      inlierThreshold: config.inlierThreshold ?? 0.1,
+      minSamples: config.minSamples ?? 6,
+      temporalSmoothing: config.temporalSmoothing ?? 0.8,
+      resetThreshold: config.resetThreshold ?? 0.3,
+      seed: config.seed ?? 1,
+    };
+    this.random = createRandom(this.config.seed);
+  }
+
+  /**
+   * Align a depth map to metric samples and filter the alignment over time
+   *
+   * When this frame cannot be fit (too few samples or inliers), the previous
+   * alignment is applied.
+   *
+   * @returns Aligned result, or null before the first successful fit
+   */
+  align(depthMap: DepthMap, samples: MetricDepthSample[]): DepthAlignmentResult | null {
+    const fit = this.fit(depthMap, samples);
+
+    if (fit) {
+      this.filtered = this.filter(fit.alignment, depthMap, fit.inliers);
+    }
+
+    if (!this.filtered) {
+      return null;
+    }
+
+    const inliers = fit?.inliers ?? [];
+    return {
+      alignment: this.filtered,
+      frameAlignment: fit?.alignment ?? null,
+      depthMap: this.apply(depthMap, this.filtered),
+      sampleCount: samples.length,
+      inlierCount: inliers.length,
+      residual: this.residual(this.filtered, depthMap, samples),
+      fitResidual: fit ? this.residual(fit.alignment, depthMap, inliers) : 0,
+    };
+  }
+
+  /**
+   * Robustly fit scale and shift for a single depth map (no filtering)
+   *
+   * @returns Alignment and its inlier samples, or null if it cannot be fit
+   */
+  fit(
+    depthMap: DepthMap,
+    samples: MetricDepthSample[]
+  ): { alignment: DepthAlignment; inliers: MetricDepthSample[] } | null {
+    const valid = samples.filter(sample =>
+      sample.depth > 0 && depthMap.getDepthInterpolated(sample.x, sample.y) !== null
+    );
+    if (valid.length < this.config.minSamples) {
+      return null;
+    }
+
+    const values = valid.map(sample => depthMap.getDepthInterpolated(sample.x, sample.y)!);
+
+    // RANSAC over two-sample models
+    let best: number[] = [];
+    for (let iter = 0; iter < this.config.ransacIterations; iter++) {
+      const i = Math.floor(this.random() * valid.length);
+      const j = Math.floor(this.random() * valid.length);
+      if (Math.abs(values[i] - values[j]) < 1e-6) {continue;}
+
+      const candidate = this.solve([valid[i], valid[j]], [values[i], values[j]], false);
+      if (!candidate) {continue;}
+
+      const inliers = this.inlierIndices(candidate, valid, values);
+      if (inliers.length > best.length) {
+        best = inliers;
+      }
+    }
+
+    if (best.length < this.config.minSamples) {
+      return null;
+    }
+
+    // Least-squares refit on the inliers, then on the refit's inliers
+    let alignment = this.solve(best.map(i => valid[i]), best.map(i => values[i]), true);
+    if (!alignment) {return null;}
+
+    const refined = this.inlierIndices(alignment, valid, values);
+    if (refined.length >= this.config.minSamples) {
+      best = refined;
+      alignment = this.solve(best.map(i => valid[i]), best.map(i => values[i]), true) ?? alignment;
+    }
+
+    return { alignment, inliers: best.map(i => valid[i]) };
+  }
+
+  /**
+   * Convert a depth map to metric depth with an alignment
+   * Depths are clamped to the map's [minDepth, maxDepth] range.
+   */
+  apply(depthMap: DepthMap, alignment: DepthAlignment): DepthMap {
+    const { minDepth, maxDepth } = depthMap;
+    const range = maxDepth - minDepth;
+    const data = new Float32Array(depthMap.data.length);
+
+    for (let i = 0; i < data.length; i++) {
+      const depth = toMetric(alignment, depthMap.data[i]);
+      const clamped = Number.isFinite(depth) && depth > 0
+        ? Math.min(maxDepth, Math.max(minDepth, depth))
+        : maxDepth; // At or beyond infinity
+      data[i] = (clamped - minDepth) / range;
+    }
+
+    return new DepthMap(depthMap.width, depthMap.height, data, {
+      minDepth,
+      maxDepth,
+      confidence: depthMap.confidence,
+      timestamp: depthMap.timestamp,
+    });
+  }
+
+  /**
+   * Get the current (filtered) alignment
+   */
+  getAlignment(): DepthAlignment | null {
+    return this.filtered;
+  }
+
+  /**
+   * Forget the filtered alignment (e.g. after switching models)
+   */
+  reset(): void {
+    this.filtered = null;
+    this.random = createRandom(this.config.seed);
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Weighted least squares for scale and shift
+   *
+   * Residuals are weighted to approximate relative depth error: an inverse
+   * depth error e is a relative depth error of about Z · e.
+   *
+   * @param weighted - Use sample weights (off for RANSAC minimal samples)
+   */
+  private solve(samples: MetricDepthSample[], values: number[], weighted: boolean): DepthAlignment | null {
+    const inverse = this.config.space === 'inverse';
+    let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+
+    samples.forEach((sample, i) => {
+      const target = inverse ? 1 / sample.depth : sample.depth;
+      const relative = inverse ? sample.depth * sample.depth : 1 / (sample.depth * sample.depth);
+      const w = relative * (weighted ? sample.weight ?? 1 : 1);
+      const x = values[i];
+
+      sw += w;
+      sx += w * x;
+      sy += w * target;
+      sxx += w * x * x;
+      sxy += w * x * target;
+    });
+
+    const det = sw * sxx - sx * sx;
+    if (Math.abs(det) < 1e-12 * sw * sw) {return null;}
+
+    const scale = (sw * sxy - sx * sy) / det;
+    const shift = (sy - scale * sx) / sw;
+    return { scale, shift, space: this.config.space };
+  }
+
+  private inlierIndices(alignment: DepthAlignment, samples: MetricDepthSample[], values: number[]): number[] {
+    const inliers: number[] = [];
+    samples.forEach((sample, i) => {
+      if (relativeError(alignment, values[i], sample.depth) < this.config.inlierThreshold) {
+        inliers.push(i);
+      }
+    });
+    return inliers;
+  }
+
+  /**
+   * RMS relative depth error of an alignment on samples
+   */
+  private residual(alignment: DepthAlignment, depthMap: DepthMap, samples: MetricDepthSample[]): number {
+    let sum = 0;
+    let count = 0;
+
+    for (const sample of samples) {
+      const value = depthMap.getDepthInterpolated(sample.x, sample.y);
+      if (value === null || sample.depth <= 0) {continue;}
+
+      sum += Math.min(relativeError(alignment, value, sample.depth), 1) ** 2;
+      count++;
+    }
+
+    return count > 0 ? Math.sqrt(sum / count) : 0;
+  }
+
+  /**
+   * Blend a new fit into the filtered alignment
+   *
+   * Both alignments are compared on the fit's inliers: a large disagreement
+   * (new scene, model switch, tracking reset) restarts the filter.
+   */
+  private filter(alignment: DepthAlignment, depthMap: DepthMap, inliers: MetricDepthSample[]): DepthAlignment {
+    const previous = this.filtered;
+    if (!previous || previous.space !== alignment.space) {
+      return alignment;
+    }
+
+    const change = this.residual(previous, depthMap, inliers);
+    if (change > this.config.resetThreshold) {
+      log.debug(`Depth alignment reset (relative change ${change.toFixed(2)})`);
+      return alignment;
+    }
+
+    const alpha = this.config.temporalSmoothing;
+    return {
+      scale: alpha * previous.scale + (1 - alpha) * alignment.scale,
+      shift: alpha * previous.shift + (1 - alpha) * alignment.shift,
+      space: alignment.space,
+    };
+  }
+}
+
+// ==================== Metric Samples ====================
+
+/**
+ * Size of a depth map or camera image
+ */
+interface DepthMapTarget {
+  width: number;
+  height: number;
+}
+
+/**
+ * Metric samples from points in the camera frame
+ *
+ * @param intrinsics - Intrinsics of the camera image
+ * @param depthMap - Depth map the samples are for
+ * @param imageSize - Camera image size, if different from the depth map's
+ */
+export function samplesFromCameraPoints(
+  points: Vector3[],
+  intrinsics: CameraIntrinsics,
+  depthMap: DepthMapTarget,
+  imageSize: DepthMapTarget = depthMap
+): MetricDepthSample[] {
+  const sx = depthMap.width / imageSize.width;
+  const sy = depthMap.height / imageSize.height;
+  const samples: MetricDepthSample[] = [];
+
+  for (const point of points) {
+    const pixel = projectToPixel(intrinsics, point);
+    if (!pixel) {continue;}
+
+    const x = pixel[0] * sx;
+    const y = pixel[1] * sy;
+    if (x < 0 || y < 0 || x > depthMap.width - 1 || y > depthMap.height - 1) {continue;}
+
+    samples.push({ x, y, depth: point.z });
+  }
+
+  return samples;
+}
+
+/**
+ * Metric samples from world points (e.g. SLAM map point positions)
+ *
+ * @param worldToCamera - Camera extrinsics (e.g. KeyframePose.transform)
+ */
+export function samplesFromWorldPoints(
+  points: Vector3[],
+  worldToCamera: Matrix4,
+  intrinsics: CameraIntrinsics,
+  depthMap: DepthMapTarget,
+  imageSize?: DepthMapTarget
+): MetricDepthSample[] {
+  return samplesFromCameraPoints(
+    points.map(point => worldToCamera.transformPoint(point)),
+    intrinsics,
+    depthMap,
+    imageSize
+  );
+}
+
+/**
+ * Metric samples from an object with a known camera pose (e.g. marker corners)
+ *
+ * @param pose - Object pose in the camera frame (e.g. from PoseEstimator)
+ * @param objectPoints - Points in the object frame (e.g. marker corners in meters)
+ */
+export function samplesFromPose(
+  pose: { position: Vector3; rotation: Quaternion },
+  objectPoints: Vector3[],
+  intrinsics: CameraIntrinsics,
+  depthMap: DepthMapTarget,
+  imageSize?: DepthMapTarget
+): MetricDepthSample[] {
+  return samplesFromCameraPoints(
+    objectPoints.map(point => pose.rotation.rotateVector(point).add(pose.position)),
+    intrinsics,
+    depthMap,
+    imageSize
+  );
+}
+
+/**
+ * Metric samples on a plane (normal · p + distance = 0, camera frame)
+ *
+ * @param pixels - Camera image pixels known to lie on the plane
+ */
+export function samplesFromPlane(
+  plane: { normal: Vector3; distance: number },
+  pixels: Array<{ x: number; y: number }>,
+  intrinsics: CameraIntrinsics,
+  depthMap: DepthMapTarget,
+  imageSize?: DepthMapTarget
+): MetricDepthSample[] {
+  const points: Vector3[] = [];
+
+  for (const pixel of pixels) {
+    const [x, y] = pixelToNormalized(intrinsics, [pixel.x, pixel.y]);
+    const ray = new Vector3(x, y, 1);
+    const denominator = plane.normal.dot(ray);
+    if (Math.abs(denominator) < 1e-9) {continue;}
+
+    const depth = -plane.distance / denominator;
+    if (depth > 0) {
+      points.push(ray.multiply(depth));
+    }
+  }
+
+  return samplesFromCameraPoints(points, intrinsics, depthMap, imageSize);
+}
+
+// ==================== Private Methods ====================
+
+function toMetric(alignment: DepthAlignment, value: number): number {
+  const mapped = alignment.scale * value + alignment.shift;
+  return alignment.space === 'inverse' ? 1 / mapped : mapped;
+}
+
+function relativeError(alignment: DepthAlignment, value: number, depth: number): number {
+  const predicted = toMetric(alignment, value);
+  if (!(predicted > 0) || !Number.isFinite(predicted)) {return Infinity;}
+  return Math.abs(predicted - depth) / depth;
+}
@@ -3,7 +3,8 @@
  * AI-powered depth estimation from RGB images
  *
  * Features:
- * - Multiple model support (MiDaS Tiny, Small, DPT)
+ * - Multiple model support (MiDaS Tiny, Small, DPT, or any model registered
+ *   with registerDepthModel, relative or metric)
  * - Adaptive quality presets (low/medium/high)
  * - Temporal smoothing
  * - Frame skipping for performance
@@ -13,7 +14,15 @@
 
 import { DepthMap } from './depth-map';
 import { ModelLoader, globalModelLoader, type DepthModel, type ModelInfo } from './model-loader';
-import { ImagePreprocessor, GPUImagePreprocessor } from './preprocessing';
+import type { ONNXSession } from './inference-backend';
+import {
+  ImagePreprocessor,
+  GPUImagePreprocessor,
+  cropDepth,
+  getSourceSize,
+  type FrameSource,
+} from './preprocessing';
+import { computeOutputCrop } from './model-spec';
 import { Logger } from '../../utils/logger';
 
 const log = Logger.create('DepthEstimator');
@@ -71,7 +80,7 @@ export class DepthEstimator {
   private gpuPreprocessor: GPUImagePreprocessor | null = null;
 
   // Model state
-  private modelSession: any = null;  // ONNXSession
+  private modelSession: ONNXSession | null = null;
   private modelInfo: ModelInfo | null = null;
   private isModelLoaded = false;
 
@@ -146,7 +155,7 @@ export class DepthEstimator {
    * Estimate depth from frame
    */
   async estimateDepth(
-    frame: VideoFrame | HTMLVideoElement | ImageBitmap | HTMLCanvasElement,
+    frame: FrameSource,
     options: {
       skipIfBusy?: boolean;
       forceUpdate?: boolean;
@@ -181,13 +190,20 @@ export class DepthEstimator {
       // Run inference
       const outputTensor = await this.runInference(inputTensor);
 
-      // Postprocess output
+      // Postprocess output, keeping the region that shows the frame
       const [outWidth, outHeight] = this.modelInfo.outputSize;
-      const depthData = this.preprocessor.postprocess(
+      const [frameWidth, frameHeight] = getSourceSize(frame);
+      const crop = computeOutputCrop(frameWidth, frameHeight, this.modelInfo);
+      const fullDepth = this.preprocessor.postprocess(
         outputTensor,
         outWidth,
-        outHeight
+        outHeight,
+        this.modelInfo,
+        this.config
       );
+      const depthData = crop.width === outWidth && crop.height === outHeight
+        ? fullDepth
+        : cropDepth(fullDepth, outWidth, crop);
 
       // Apply temporal smoothing
       let smoothedData = depthData;
@@ -201,7 +217,7 @@ export class DepthEstimator {
       }
 
       // Create depth map
-      const depthMap = new DepthMap(outWidth, outHeight, smoothedData, {
+      const depthMap = new DepthMap(crop.width, crop.height, smoothedData, {
         minDepth: this.config.minDepth,
         maxDepth: this.config.maxDepth,
         confidence: 0.85, // AI estimation confidence
@@ -0,0 +1,474 @@
+/**
+ * Depth Upsampling
+ * Edge-aware upsampling of low-resolution depth to camera resolution
+ *
+ * CPU reference for gpu-depth-upsampling.ts. The camera frame guides the
+ * upsampling so depth discontinuities snap to color edges instead of the
+ * blocky model grid:
+ * - joint-bilateral: each output pixel averages nearby depth samples
+ *   weighted by distance and by guide color similarity (Kopf et al. 2007)
+ * - guided: locally linear fit of depth to guide luminance (He et al. 2010),
+ *   with confidence as per-sample weight
+ *
+ * Low-confidence pixels are treated as holes and filled from confident
+ * neighbors before upsampling.
+ */
+
+import { DepthMap } from './depth-map';
+
+export type DepthUpsamplingMethod = 'joint-bilateral' | 'guided';
+
+export interface DepthUpsamplingConfig {
+  // Upsampling filter (default: 'joint-bilateral')
+  method?: DepthUpsamplingMethod;
+
+  // Joint bilateral window radius in depth pixels (default: 2)
+  radius?: number;
+
+  // Joint bilateral spatial sigma in depth pixels (default: 1)
+  spatialSigma?: number;
+
+  // Joint bilateral color sigma, RGB distance in 0-1 (default: 0.1)
+  colorSigma?: number;
+
+  // Guided filter window radius in output pixels (default: 4)
+  guidedRadius?: number;
+
+  // Guided filter regularization; larger values smooth across weaker edges (default: 1e-3)
+  epsilon?: number;
+
+  // Pixels below this confidence are holes (default: 0.5)
+  confidenceThreshold?: number;
+
+  // Hole filling passes, each growing filled regions by holeFillRadius (default: 4)
+  holeFillIterations?: number;
+
+  // Neighborhood radius of a hole filling pass in depth pixels (default: 2)
+  holeFillRadius?: number;
+}
+
+/**
+ * RGBA guide image, e.g. ImageData of the camera frame
+ */
+export interface GuideImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+/**
+ * Upsampled depth and confidence
+ *
+ * Unfilled holes carry no depth, so they never occlude: NaN in the
+ * normalized depth map, NO_DEPTH in metric depth (toMetricDepth and the
+ * GPUDepthUpsampler output), which OcclusionHandler treats as invalid.
+ */
+export interface DepthUpsamplingResult {
+  depth: DepthMap;          // At guide resolution; NaN where holes remain
+  confidence: Float32Array; // Per output pixel, 0 where holes remain
+}
+
+// Metric depth of pixels without depth (meters)
+export const NO_DEPTH = 0;
+
+/**
+ * Fill config defaults
+ */
+export function resolveDepthUpsamplingConfig(config: DepthUpsamplingConfig): Required<DepthUpsamplingConfig> {
+  return {
+    method: config.method ?? 'joint-bilateral',
+    radius: config.radius ?? 2,
+    spatialSigma: config.spatialSigma ?? 1,
+    colorSigma: config.colorSigma ?? 0.1,
+    guidedRadius: config.guidedRadius ?? 4,
+    epsilon: config.epsilon ?? 1e-3,
+    confidenceThreshold: config.confidenceThreshold ?? 0.5,
+    holeFillIterations: config.holeFillIterations ?? 4,
+    holeFillRadius: config.holeFillRadius ?? 2,
+  };
+}
+
+/**
+ * Per-pixel confidence with holes set to 0
+ * Non-finite depth and confidence below the threshold are holes.
+ */
+export function resolvePixelConfidence(
+  depthMap: DepthMap,
+  confidence: Float32Array | undefined,
+  threshold: number
+): Float32Array {
+  if (confidence && confidence.length !== depthMap.data.length) {
+    throw new Error(
+      `Confidence size mismatch: expected ${depthMap.data.length}, got ${confidence.length}`
+    );
+  }
+
+  const result = new Float32Array(depthMap.data.length);
+  for (let i = 0; i < result.length; i++) {
+    const c = confidence ? confidence[i] : 1;
+    result[i] = Number.isFinite(depthMap.data[i]) && c >= threshold ? Math.min(1, c) : 0;
+  }
+  return result;
+}
+
+/**
+ * Depth in meters, NO_DEPTH where the normalized depth is not finite
+ */
+export function toMetricDepth(depthMap: DepthMap): Float32Array {
+  const range = depthMap.maxDepth - depthMap.minDepth;
+  const result = new Float32Array(depthMap.data.length);
+  for (let i = 0; i < result.length; i++) {
+    const d = depthMap.data[i];
+    result[i] = Number.isFinite(d) ? depthMap.minDepth + d * range : NO_DEPTH;
+  }
+  return result;
+}
+
+/**
+ * Fill holes (confidence 0) from confident neighbors
+ *
+ * Each pass sets a hole to the confidence- and distance-weighted mean of the
+ * non-hole pixels within `radius`. The filled confidence is the weighted
+ * share of confident neighborhood, so it fades toward the hole interior.
+ */
+export function fillDepthHoles(
+  data: Float32Array,
+  confidence: Float32Array,
+  width: number,
+  height: number,
+  iterations: number,
+  radius: number
+): { data: Float32Array; confidence: Float32Array } {
+  let depth = new Float32Array(data);
+  let conf = new Float32Array(confidence);
+  const sigma = Math.max(0.5, radius / 2);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const nextDepth = new Float32Array(depth);
+    const nextConf = new Float32Array(conf);
+    let filled = 0;
+    let remaining = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        if (conf[index] > 0) {continue;}
+
+        let sum = 0;
+        let weightSum = 0;
+        let spatialSum = 0;
+
+        for (let dy = -radius; dy <= radius; dy++) {
+          for (let dx = -radius; dx <= radius; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) {continue;}
+
+            const spatial = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+            const neighbor = ny * width + nx;
+            const w = spatial * conf[neighbor];
+
+            sum += depth[neighbor] * w;
+            weightSum += w;
+            spatialSum += spatial;
+          }
+        }
+
+        if (weightSum > 0) {
+          nextDepth[index] = sum / weightSum;
+          nextConf[index] = weightSum / spatialSum;
+          filled++;
+        } else {
+          remaining++;
+        }
+      }
+    }
+
+    depth = nextDepth;
+    conf = nextConf;
+    if (filled === 0 || remaining === 0) {break;}
+  }
+
+  return { data: depth, confidence: conf };
+}
+
+/**
+ * Upsample a depth map to the guide resolution
+ *
+ * @param depthMap - Low-resolution depth (e.g. model output)
+ * @param guide - Camera frame at the target resolution
+ * @param confidence - Optional per-pixel confidence of depthMap (0-1)
+ */
+export function upsampleDepth(
+  depthMap: DepthMap,
+  guide: GuideImage,
+  config: DepthUpsamplingConfig = {},
+  confidence?: Float32Array
+): DepthUpsamplingResult {
+  const resolved = resolveDepthUpsamplingConfig(config);
+  const { width, height } = depthMap;
+
+  if (guide.data.length !== guide.width * guide.height * 4) {
+    throw new Error(
+      `Guide size mismatch: expected ${guide.width * guide.height * 4}, got ${guide.data.length}`
+    );
+  }
+
+  const filled = fillDepthHoles(
+    depthMap.data,
+    resolvePixelConfidence(depthMap, confidence, resolved.confidenceThreshold),
+    width,
+    height,
+    resolved.holeFillIterations,
+    resolved.holeFillRadius
+  );
+
+  const output = resolved.method === 'guided'
+    ? guidedUpsample(filled.data, filled.confidence, width, height, guide, resolved)
+    : jointBilateralUpsample(filled.data, filled.confidence, width, height, guide, resolved);
+
+  // Remaining holes have no depth
+  for (let i = 0; i < output.confidence.length; i++) {
+    if (output.confidence[i] <= 0) {
+      output.data[i] = NaN;
+    }
+  }
+
+  return {
+    depth: new DepthMap(guide.width, guide.height, output.data, {
+      minDepth: depthMap.minDepth,
+      maxDepth: depthMap.maxDepth,
+      confidence: depthMap.confidence,
+      timestamp: depthMap.timestamp,
+    }),
+    confidence: output.confidence,
+  };
+}
+
+// ==================== Private Methods ====================
+
+interface UpsampledData {
+  data: Float32Array;
+  confidence: Float32Array;
+}
+
+/**
+ * Source coordinate of a destination pixel center
+ */
+function mapCoordinate(x: number, from: number, to: number): number {
+  return (x + 0.5) * to / from - 0.5;
+}
+
+function jointBilateralUpsample(
+  depth: Float32Array,
+  confidence: Float32Array,
+  width: number,
+  height: number,
+  guide: GuideImage,
+  config: Required<DepthUpsamplingConfig>
+): UpsampledData {
+  const outWidth = guide.width;
+  const outHeight = guide.height;
+  const data = new Float32Array(outWidth * outHeight);
+  const outConfidence = new Float32Array(outWidth * outHeight);
+
+  const radius = config.radius;
+  const spatialDenominator = 2 * config.spatialSigma * config.spatialSigma;
+  const colorDenominator = 2 * config.colorSigma * config.colorSigma;
+  const pixels = guide.data;
+
+  for (let y = 0; y < outHeight; y++) {
+    const sy = mapCoordinate(y, outHeight, height);
+    const cy = Math.round(sy);
+
+    for (let x = 0; x < outWidth; x++) {
+      const sx = mapCoordinate(x, outWidth, width);
+      const cx = Math.round(sx);
+      const p = (y * outWidth + x) * 4;
+
+      let sum = 0;
+      let weightSum = 0;
+      let spatialSum = 0;
+      let fallbackSum = 0;
+      let fallbackWeight = 0;
+      let coverage = 0;
+
+      for (let dy = -radius; dy <= radius; dy++) {
+        const qy = cy + dy;
+        if (qy < 0 || qy >= height) {continue;}
+        const gy = clamp(Math.round(mapCoordinate(qy, height, outHeight)), 0, outHeight - 1);
+
+        for (let dx = -radius; dx <= radius; dx++) {
+          const qx = cx + dx;
+          if (qx < 0 || qx >= width) {continue;}
+
+          const ddx = qx - sx;
+          const ddy = qy - sy;
+          const spatial = Math.exp(-(ddx * ddx + ddy * ddy) / spatialDenominator);
+          const q = qy * width + qx;
+          spatialSum += spatial;
+
+          const c = confidence[q];
+          if (c <= 0) {continue;}
+          coverage += spatial * c;
+
+          // Guide color where this depth sample lands at output resolution
+          const gx = clamp(Math.round(mapCoordinate(qx, width, outWidth)), 0, outWidth - 1);
+          const g = (gy * outWidth + gx) * 4;
+          const dr = (pixels[p] - pixels[g]) / 255;
+          const dg = (pixels[p + 1] - pixels[g + 1]) / 255;
+          const db = (pixels[p + 2] - pixels[g + 2]) / 255;
+          const range = Math.exp(-(dr * dr + dg * dg + db * db) / colorDenominator);
+
+          const w = spatial * range * c;
+          sum += depth[q] * w;
+          weightSum += w;
+          fallbackSum += depth[q] * spatial * c;
+          fallbackWeight += spatial * c;
+        }
+      }
+
+      const index = y * outWidth + x;
+      if (weightSum > 1e-6) {
+        data[index] = sum / weightSum;
+      } else if (fallbackWeight > 0) {
+        // No sample shares the pixel's color: plain spatial interpolation
+        data[index] = fallbackSum / fallbackWeight;
+      }
+      outConfidence[index] = spatialSum > 0 ? coverage / spatialSum : 0;
+    }
+  }
+
+  return { data, confidence: outConfidence };
+}
+
+function guidedUpsample(
+  depth: Float32Array,
+  confidence: Float32Array,
+  width: number,
+  height: number,
+  guide: GuideImage,
+  config: Required<DepthUpsamplingConfig>
+): UpsampledData {
+  const outWidth = guide.width;
+  const outHeight = guide.height;
+  const size = outWidth * outHeight;
+
+  // Confidence-weighted bilinear depth (p) and its weight (c) at output resolution
+  const p = new Float32Array(size);
+  const c = new Float32Array(size);
+  const luma = new Float32Array(size);
+
+  for (let y = 0; y < outHeight; y++) {
+    const sy = clamp(mapCoordinate(y, outHeight, height), 0, height - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fy = sy - y0;
+
+    for (let x = 0; x < outWidth; x++) {
+      const sx = clamp(mapCoordinate(x, outWidth, width), 0, width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const fx = sx - x0;
+
+      let sum = 0;
+      let weight = 0;
+      for (const [q, b] of [
+        [y0 * width + x0, (1 - fx) * (1 - fy)],
+        [y0 * width + x1, fx * (1 - fy)],
+        [y1 * width + x0, (1 - fx) * fy],
+        [y1 * width + x1, fx * fy],
+      ]) {
+        sum += depth[q] * b * confidence[q];
+        weight += b * confidence[q];
+      }
+
+      const index = y * outWidth + x;
+      p[index] = weight > 0 ? sum / weight : 0;
+      c[index] = weight;
+
+      const g = index * 4;
+      luma[index] = (0.299 * guide.data[g] + 0.587 * guide.data[g + 1] + 0.114 * guide.data[g + 2]) / 255;
+    }
+  }
+
+  const cI = new Float32Array(size);
+  const cP = new Float32Array(size);
+  const cIP = new Float32Array(size);
+  const cII = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    cI[i] = c[i] * luma[i];
+    cP[i] = c[i] * p[i];
+    cIP[i] = c[i] * luma[i] * p[i];
+    cII[i] = c[i] * luma[i] * luma[i];
+  }
+
+  const r = config.guidedRadius;
+  const meanC = boxMean(c, outWidth, outHeight, r);
+  const meanCI = boxMean(cI, outWidth, outHeight, r);
+  const meanCP = boxMean(cP, outWidth, outHeight, r);
+  const meanCIP = boxMean(cIP, outWidth, outHeight, r);
+  const meanCII = boxMean(cII, outWidth, outHeight, r);
+
+  // Per-window linear model: depth ≈ a × luma + b
+  const a = new Float32Array(size);
+  const b = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    if (meanC[i] <= 1e-6) {
+      b[i] = p[i];
+      continue;
+    }
+    const meanI = meanCI[i] / meanC[i];
+    const meanP = meanCP[i] / meanC[i];
+    const variance = meanCII[i] / meanC[i] - meanI * meanI;
+    const covariance = meanCIP[i] / meanC[i] - meanI * meanP;
+
+    a[i] = covariance / (Math.max(0, variance) + config.epsilon);
+    b[i] = meanP - a[i] * meanI;
+  }
+
+  const meanA = boxMean(a, outWidth, outHeight, r);
+  const meanB = boxMean(b, outWidth, outHeight, r);
+  const data = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = meanA[i] * luma[i] + meanB[i];
+  }
+
+  return { data, confidence: meanC };
+}
+
+/**
+ * Mean over a (2r+1)² window clipped to the image, via an integral image
+ */
+function boxMean(src: Float32Array, width: number, height: number, r: number): Float32Array {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += src[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const result = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - r);
+    const y1 = Math.min(height, y + r + 1);
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - r);
+      const x1 = Math.min(width, x + r + 1);
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1]
+        - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      result[y * width + x] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+
+  return result;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,283 @@
+/**
+ * GPU Depth Upsampling
+ * Edge-aware depth upsampling and hole filling in WebGPU compute shaders
+ *
+ * Mirrors the CPU reference in depth-upsampling.ts. The output is an
+ * r32float texture of depth in meters at camera resolution (NO_DEPTH where
+ * holes remain), ready for OcclusionHandler.generateOcclusion().
+ *
+ * OcclusionHandler.generateOcclusionFromDepthMap() runs it before the
+ * occlusion pass; use it directly to get the metric depth texture.
+ *
+ * @example
+ * ```typescript
+ * const upsampler = new GPUDepthUpsampler(gpuContext, { method: 'guided' });
+ * await upsampler.initialize(1280, 720);
+ *
+ * const depth = upsampler.upsample(depthMap, cameraTexture);
+ * ```
+ */
+
+import type { GPUContextManager } from '../gpu/gpu-context';
+import { ComputePipeline, calculateWorkgroupCount, type BindGroupEntry } from '../gpu/compute-pipeline';
+import { depthShaders } from '../../shaders/depth-shaders';
+import type { DepthMap } from './depth-map';
+import {
+  NO_DEPTH,
+  resolveDepthUpsamplingConfig,
+  resolvePixelConfidence,
+  type DepthUpsamplingConfig,
+} from './depth-upsampling';
+
+export class GPUDepthUpsampler {
+  private gpuContext: GPUContextManager;
+  private config: Required<DepthUpsamplingConfig>;
+
+  // Pipelines
+  private holeFillPipeline: ComputePipeline | null = null;
+  private bilateralPipeline: ComputePipeline | null = null;
+  private coefficientsPipeline: ComputePipeline | null = null;
+  private applyPipeline: ComputePipeline | null = null;
+
+  // Low-resolution depth + confidence (ping-pong for hole filling)
+  private inputTextures: [GPUTexture, GPUTexture] | null = null;
+
+  // Output resolution textures
+  private outputTexture: GPUTexture | null = null;
+  private coefficientsTexture: GPUTexture | null = null;
+  private width = 0;
+  private height = 0;
+
+  // Buffers
+  private paramsBuffer: GPUBuffer | null = null;
+
+  constructor(gpuContext: GPUContextManager, config: DepthUpsamplingConfig = {}) {
+    this.gpuContext = gpuContext;
+    this.config = resolveDepthUpsamplingConfig(config);
+  }
+
+  /**
+   * Initialize pipelines and output textures
+   *
+   * @param width - Output (camera) width
+   * @param height - Output (camera) height
+   */
+  async initialize(width: number, height: number): Promise<void> {
+    const device = this.gpuContext.device;
+    const createPipeline = (label: string, entryPoint: string): ComputePipeline =>
+      new ComputePipeline(this.gpuContext, {
+        label,
+        shaderCode: depthShaders.depthUpsampling,
+        entryPoint,
+      });
+
+    this.holeFillPipeline = createPipeline('Depth Hole Fill', 'fillHoles');
+    this.bilateralPipeline = createPipeline('Joint Bilateral Upsample', 'jointBilateralUpsample');
+    this.coefficientsPipeline = createPipeline('Guided Filter Coefficients', 'guidedCoefficients');
+    this.applyPipeline = createPipeline('Guided Filter Apply', 'guidedApply');
+
+    this.width = width;
+    this.height = height;
+
+    this.outputTexture = device.createTexture({
+      label: 'Upsampled Depth',
+      size: { width, height },
+      format: 'r32float',
+      usage:
+        GPUTextureUsage.STORAGE_BINDING |
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_SRC,
+    });
+
+    this.coefficientsTexture = device.createTexture({
+      label: 'Guided Filter Coefficients',
+      size: { width, height },
+      format: 'rgba32float',
+      usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+    });
+
+    this.paramsBuffer = device.createBuffer({
+      label: 'Depth Upsampling Params',
+      size: 48,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+
+    console.log(`[GPUDepthUpsampler] Initialized (${width}x${height}, ${this.config.method})`);
+  }
+
+  /**
+   * Fill holes and upsample a depth map to camera resolution
+   *
+   * @param depthMap - Low-resolution depth (e.g. model output)
+   * @param guideTexture - Camera frame at output resolution
+   * @param confidence - Optional per-pixel confidence of depthMap (0-1)
+   * @returns Depth in meters, NO_DEPTH where holes remain
+   */
+  upsample(depthMap: DepthMap, guideTexture: GPUTexture, confidence?: Float32Array): GPUTexture {
+    if (!this.holeFillPipeline || !this.bilateralPipeline || !this.coefficientsPipeline ||
+        !this.applyPipeline || !this.outputTexture || !this.coefficientsTexture) {
+      throw new Error('Depth upsampler not initialized');
+    }
+    if (guideTexture.width !== this.width || guideTexture.height !== this.height) {
+      throw new Error(
+        `Guide size mismatch: expected ${this.width}x${this.height}, got ${guideTexture.width}x${guideTexture.height}`
+      );
+    }
+
+    const device = this.gpuContext.device;
+    const { width, height } = depthMap;
+    const inputs = this.ensureInputTextures(width, height);
+
+    // Interleave metric depth and confidence
+    const pixelConfidence = resolvePixelConfidence(depthMap, confidence, this.config.confidenceThreshold);
+    const range = depthMap.maxDepth - depthMap.minDepth;
+    const samples = new Float32Array(width * height * 2);
+    for (let i = 0; i < pixelConfidence.length; i++) {
+      samples[i * 2] = pixelConfidence[i] > 0 ? depthMap.minDepth + depthMap.data[i] * range : NO_DEPTH;
+      samples[i * 2 + 1] = pixelConfidence[i];
+    }
+    device.queue.writeTexture(
+      { texture: inputs[0] },
+      samples,
+      { bytesPerRow: width * 8 },
+      { width, height }
+    );
+    this.updateParams(width, height);
+
+    const encoder = device.createCommandEncoder({ label: 'Depth Upsampling' });
+    const params = { buffer: this.paramsBuffer! };
+
+    // Hole filling, ping-ponging between the input textures
+    let source = 0;
+    for (let i = 0; i < this.config.holeFillIterations; i++) {
+      this.encodePass(encoder, this.holeFillPipeline, [
+        { binding: 0, resource: inputs[source].createView() },
+        { binding: 2, resource: params },
+        { binding: 3, resource: inputs[1 - source].createView() },
+      ], calculateWorkgroupCount(width, height, { x: 8, y: 8 }));
+      source = 1 - source;
+    }
+
+    const depthView = inputs[source].createView();
+    const guideView = guideTexture.createView();
+    const workgroups = calculateWorkgroupCount(this.width, this.height, { x: 16, y: 16 });
+
+    if (this.config.method === 'guided') {
+      this.encodePass(encoder, this.coefficientsPipeline, [
+        { binding: 0, resource: depthView },
+        { binding: 1, resource: guideView },
+        { binding: 2, resource: params },
+        { binding: 5, resource: this.coefficientsTexture.createView() },
+      ], workgroups);
+      this.encodePass(encoder, this.applyPipeline, [
+        { binding: 1, resource: guideView },
+        { binding: 2, resource: params },
+        { binding: 4, resource: this.outputTexture.createView() },
+        { binding: 6, resource: this.coefficientsTexture.createView() },
+      ], workgroups);
+    } else {
+      this.encodePass(encoder, this.bilateralPipeline, [
+        { binding: 0, resource: depthView },
+        { binding: 1, resource: guideView },
+        { binding: 2, resource: params },
+        { binding: 4, resource: this.outputTexture.createView() },
+      ], workgroups);
+    }
+
+    device.queue.submit([encoder.finish()]);
+    return this.outputTexture;
+  }
+
+  /**
+   * Get the last upsampled depth texture
+   */
+  getOutputTexture(): GPUTexture | null {
+    return this.outputTexture;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<DepthUpsamplingConfig>): void {
+    this.config = resolveDepthUpsamplingConfig({ ...this.config, ...config });
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.inputTextures?.forEach(texture => texture.destroy());
+    this.outputTexture?.destroy();
+    this.coefficientsTexture?.destroy();
+    this.paramsBuffer?.destroy();
+
+    this.inputTextures = null;
+    this.outputTexture = null;
+    this.coefficientsTexture = null;
+    this.paramsBuffer = null;
+    this.holeFillPipeline = null;
+    this.bilateralPipeline = null;
+    this.coefficientsPipeline = null;
+    this.applyPipeline = null;
+  }
+
+  // ==================== Private Methods ====================
+
+  private encodePass(
+    encoder: GPUCommandEncoder,
+    pipeline: ComputePipeline,
+    entries: BindGroupEntry[],
+    workgroups: { x: number; y: number }
+  ): void {
+    const pass = encoder.beginComputePass();
+    pass.setPipeline(pipeline.getPipeline());
+    pass.setBindGroup(0, pipeline.createBindGroup(entries));
+    pass.dispatchWorkgroups(workgroups.x, workgroups.y);
+    pass.end();
+  }
+
+  private updateParams(inputWidth: number, inputHeight: number): void {
+    // input size, output size, radius, guidedRadius, holeFillRadius, padding,
+    // spatialSigma, colorSigma, epsilon, noDepth
+    const params = new ArrayBuffer(48);
+    const uints = new Uint32Array(params);
+    const ints = new Int32Array(params);
+    const floats = new Float32Array(params);
+    uints[0] = inputWidth;
+    uints[1] = inputHeight;
+    uints[2] = this.width;
+    uints[3] = this.height;
+    ints[4] = Math.round(this.config.radius);
+    ints[5] = Math.round(this.config.guidedRadius);
+    ints[6] = Math.round(this.config.holeFillRadius);
+    floats[8] = this.config.spatialSigma;
+    floats[9] = this.config.colorSigma;
+    floats[10] = this.config.epsilon;
+    floats[11] = NO_DEPTH;
+
+    this.gpuContext.device.queue.writeBuffer(this.paramsBuffer!, 0, params);
+  }
+
+  /**
+   * (Re)create the low-resolution textures when the depth size changes
+   */
+  private ensureInputTextures(width: number, height: number): [GPUTexture, GPUTexture] {
+    if (this.inputTextures && this.inputTextures[0].width === width && this.inputTextures[0].height === height) {
+      return this.inputTextures;
+    }
+
+    this.inputTextures?.forEach(texture => texture.destroy());
+    const createInput = (label: string): GPUTexture => this.gpuContext.device.createTexture({
+      label,
+      size: { width, height },
+      format: 'rg32float',
+      usage:
+        GPUTextureUsage.STORAGE_BINDING |
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_DST,
+    });
+
+    this.inputTextures = [createInput('Depth Upsampling Input A'), createInput('Depth Upsampling Input B')];
+    return this.inputTextures;
+  }
+}
@@ -11,11 +11,96 @@ export type {
 
 export { DepthMap } from './depth-map';
 
-export { ModelLoader, globalModelLoader, MODEL_REGISTRY } from './model-loader';
+export {
+  upsampleDepth,
+  fillDepthHoles,
+  toMetricDepth,
+  NO_DEPTH,
+  resolveDepthUpsamplingConfig,
+  resolvePixelConfidence,
+} from './depth-upsampling';
+export type {
+  DepthUpsamplingConfig,
+  DepthUpsamplingMethod,
+  DepthUpsamplingResult,
+  GuideImage,
+} from './depth-upsampling';
+export { GPUDepthUpsampler } from './gpu-depth-upsampling';
+
+export {
+  DepthAligner,
+  samplesFromCameraPoints,
+  samplesFromWorldPoints,
+  samplesFromPose,
+  samplesFromPlane,
+} from './depth-alignment';
+export type {
+  DepthAlignmentConfig,
+  DepthAlignmentSpace,
+  DepthAlignment,
+  DepthAlignmentResult,
+  MetricDepthSample,
+} from './depth-alignment';
+
+export {
+  ModelLoader,
+  globalModelLoader,
+  MODEL_REGISTRY,
+  registerDepthModel,
+  unregisterDepthModel,
+  getModelInfo,
+} from './model-loader';
 export type {
   DepthModel,
   ModelInfo,
-  ONNXSession,
+  ModelLoaderConfig,
+  ModelLoaderEvents,
+  ModelLoadProgress,
+  ModelSource,
+  ModelBundle,
 } from './model-loader';
 
-export { ImagePreprocessor, GPUImagePreprocessor } from './preprocessing';
+export { resolveInputDims } from './inference-backend';
+export type { InferenceBackend, ONNXSession } from './inference-backend';
+export { OnnxRuntimeBackend } from './onnx-runtime-backend';
+export type {
+  OnnxRuntimeBackendConfig,
+  ExecutionProvider,
+  OrtModule,
+} from './onnx-runtime-backend';
+export { CPUInferenceBackend } from './cpu-inference-backend';
+export { parseOnnxModel } from './onnx-model';
+export type {
+  TensorInfo,
+  OnnxGraph,
+  OnnxNode,
+  OnnxTensor,
+  OnnxAttribute,
+} from './onnx-model';
+
+export {
+  computeContentRect,
+  computeOutputCrop,
+  resolveModelSpec,
+  specToModelInfo,
+} from './model-spec';
+export type {
+  DepthModelSpec,
+  NormalizationSpec,
+  TensorLayout,
+  ColorOrder,
+  DepthOutputKind,
+  ResizeMode,
+  PixelRect,
+  ResolvedModelSpec,
+} from './model-spec';
+
+export {
+  ImagePreprocessor,
+  GPUImagePreprocessor,
+  getSourceSize,
+  pixelsToTensor,
+  normalizeDepthOutput,
+  cropDepth,
+} from './preprocessing';
+export type { FrameSource, DepthRange } from './preprocessing';
@@ -0,0 +1,53 @@
+/**
+ * Inference Backend
+ * Pluggable execution of ONNX depth models
+ */
+
+import type { ModelInfo } from './model-loader';
+import type { TensorInfo } from './onnx-model';
+
+/**
+ * Loaded model ready for inference
+ * Tensors are passed as flat float32 arrays; shapes come from the model graph.
+ */
+export interface ONNXSession {
+  run(inputs: Record<string, Float32Array>): Promise<Record<string, Float32Array>>;
+  inputNames: string[];
+  outputNames: string[];
+  inputs: TensorInfo[];
+  outputs: TensorInfo[];
+  backend: string; // Backend (and execution provider) running the session
+  release(): Promise<void>;
+}
+
+/**
+ * Backend creating inference sessions from ONNX model bytes
+ */
+export interface InferenceBackend {
+  readonly name: string;
+
+  /**
+   * Whether the backend can run in the current environment
+   */
+  isAvailable(): Promise<boolean>;
+
+  createSession(model: Uint8Array, info: ModelInfo): Promise<ONNXSession>;
+}
+
+/**
+ * Concrete input shape for a graph input
+ * Batch is 1; the channel axis is the one declared as 3 (NCHW if undeclared),
+ * and remaining unknown spatial dimensions come from the model's input size.
+ */
+export function resolveInputDims(input: TensorInfo, info: ModelInfo): number[] {
+  const [width, height] = info.inputSize;
+  const dims = input.dims;
+
+  if (dims.length !== 4) {
+    return dims.map(dim => (typeof dim === 'number' && dim > 0 ? dim : 1));
+  }
+
+  const channelsLast = dims[3] === 3 && dims[1] !== 3;
+  const fallback = channelsLast ? [1, height, width, 3] : [1, 3, height, width];
+  return dims.map((dim, i) => (typeof dim === 'number' && dim > 0 ? dim : fallback[i]));
+}
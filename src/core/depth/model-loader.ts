@@ -4,6 +4,19 @@
  */
 
 import { Logger } from '../../utils/logger';
+import { TypedEventEmitter } from '../events';
+import { ARError, ARErrors, type ModelLoadFailureReason } from '../errors';
+import type { InferenceBackend, ONNXSession } from './inference-backend';
+import { specToModelInfo } from './model-spec';
+import type {
+  DepthModelSpec,
+  TensorLayout,
+  ColorOrder,
+  DepthOutputKind,
+  ResizeMode,
+  PixelRect,
+} from './model-spec';
+import { OnnxRuntimeBackend } from './onnx-runtime-backend';
 
 const log = Logger.create('ModelLoader');
 
@@ -14,7 +27,8 @@ export type DepthModel =
   | 'midas-tiny'      // 20MB, fast, good quality
   | 'midas-small'     // 45MB, medium speed, better quality
   | 'dpt-hybrid'      // 470MB, slow, best quality
-  | 'custom';         // User-provided model
+  | 'custom'          // User-provided model
+  | (string & {});    // Registered with registerDepthModel()
 
 /**
  * Model metadata
@@ -27,6 +41,18 @@ export interface ModelInfo {
   outputSize: [number, number];
   mean: [number, number, number]; // Normalization mean
   std: [number, number, number];  // Normalization std
+  version?: string;      // Model revision; a change invalidates cached copies
+  sha256?: string;       // Hex digest of the model file, verified after download
+
+  // Pre/post-processing spec (see DepthModelSpec; defaults match MiDaS)
+  pixelScale?: number;
+  layout?: TensorLayout;
+  colorOrder?: ColorOrder;
+  output?: DepthOutputKind;
+  outputScale?: number;
+  resize?: ResizeMode;
+  padColor?: [number, number, number];
+  outputCrop?: 'auto' | PixelRect;
 }
 
 /**
@@ -41,6 +67,7 @@ export const MODEL_REGISTRY: Record<DepthModel, ModelInfo> = {
     outputSize: [256, 256],
     mean: [0.485, 0.456, 0.406],
     std: [0.229, 0.224, 0.225],
+    version: 'v2_1',
   },
   'midas-small': {
     name: 'midas-small',
@@ -50,6 +77,7 @@ export const MODEL_REGISTRY: Record<DepthModel, ModelInfo> = {
     outputSize: [384, 384],
     mean: [0.485, 0.456, 0.406],
     std: [0.229, 0.224, 0.225],
+    version: 'v3_0',
   },
   'dpt-hybrid': {
     name: 'dpt-hybrid',
@@ -59,6 +87,7 @@ export const MODEL_REGISTRY: Record<DepthModel, ModelInfo> = {
     outputSize: [384, 384],
     mean: [0.485, 0.456, 0.406],
     std: [0.229, 0.224, 0.225],
+    version: 'v3_0',
   },
   'custom': {
     name: 'custom',
@@ -71,31 +100,139 @@ export const MODEL_REGISTRY: Record<DepthModel, ModelInfo> = {
   },
 };
 
+const BUILTIN_MODELS = new Set(Object.keys(MODEL_REGISTRY));
+
+/**
+ * Register a depth model so it can be loaded by name
+ * Re-registering a name replaces the previous spec; built-in models cannot be replaced.
+ */
+export function registerDepthModel(spec: DepthModelSpec): ModelInfo {
+  if (BUILTIN_MODELS.has(spec.name)) {
+    throw new Error(`Cannot replace built-in depth model ${spec.name}`);
+  }
+
+  const info = specToModelInfo(spec);
+  if (MODEL_REGISTRY[info.name]) {
+    log.warn(`Replacing registered depth model ${info.name}`);
+  }
+  MODEL_REGISTRY[info.name] = info;
+  return info;
+}
+
+/**
+ * Remove a registered depth model
+ */
+export function unregisterDepthModel(name: DepthModel): boolean {
+  if (BUILTIN_MODELS.has(name) || !MODEL_REGISTRY[name]) {
+    return false;
+  }
+  delete MODEL_REGISTRY[name];
+  return true;
+}
+
+/**
+ * Model info by name
+ */
+export function getModelInfo(name: DepthModel): ModelInfo {
+  const info = MODEL_REGISTRY[name];
+  if (!info) {
+    throw new Error(`Unknown depth model: ${name}`);
+  }
+  return info;
+}
+
+/**
+ * Download progress of a model
+ */
+export interface ModelLoadProgress {
+  model: DepthModel;
+  url: string;
+  loaded: number;        // Bytes received
+  total: number;         // Bytes expected (0 if unknown)
+  progress: number;      // 0-1 (0 while the total is unknown)
+  source: ModelSource;
+  fromCache: boolean;    // Served from Cache Storage
+}
+
+/**
+ * Where model bytes came from
+ */
+export type ModelSource = 'network' | 'cache' | 'bundle';
+
+/**
+ * Offline model bundle
+ * Maps model names (or URLs) to inline bytes or a local URL; a function
+ * receives the model info and returns null for models it does not bundle.
+ */
+export type ModelBundle =
+  | Record<string, ArrayBuffer | Uint8Array | string>
+  | ((info: ModelInfo) => Promise<ArrayBuffer | Uint8Array | string | null> | ArrayBuffer | Uint8Array | string | null);
+
+/**
+ * Model loader events
+ */
+export interface ModelLoaderEvents {
+  'model:progress': [progress: ModelLoadProgress];
+  'model:loaded': [model: DepthModel, session: ONNXSession];
+
+  // Index signature for extensibility
+  [key: string]: unknown[];
+}
+
 /**
- * ONNX Runtime session wrapper
- * Note: This is a placeholder interface. In production, this would use actual ONNX Runtime Web.
+ * Model loader configuration
  */
-export interface ONNXSession {
-  run(inputs: Record<string, Float32Array>): Promise<Record<string, Float32Array>>;
-  inputNames: string[];
-  outputNames: string[];
+export interface ModelLoaderConfig {
+  // Inference backends, tried in order (default: [new OnnxRuntimeBackend()])
+  backends?: InferenceBackend[];
+  // Cache Storage bucket for downloaded models, null to disable (default: 'babylonjs-ar-models')
+  cacheName?: string | null;
+  // Cache entries from another cache version are discarded (default: '1')
+  cacheVersion?: string;
+  // Load models only from this bundle, never the network or Cache Storage (default: none)
+  bundle?: ModelBundle | null;
+  // Check models against ModelInfo.sha256 (default: true)
+  verifyIntegrity?: boolean;
+  // Fetch implementation (default: globalThis.fetch)
+  fetch?: (url: string) => Promise<Response>;
 }
 
 /**
  * Model loader and cache manager
+ *
+ * Downloads ONNX models (reusing Cache Storage across page loads), reports
+ * download progress and creates sessions on the first available backend.
+ * Models with a pinned sha256 are verified before use and before caching;
+ * in bundle mode models come only from the configured offline bundle.
  */
-export class ModelLoader {
+export class ModelLoader extends TypedEventEmitter<ModelLoaderEvents> {
+  private config: Required<ModelLoaderConfig>;
   private modelCache: Map<string, ONNXSession> = new Map();
   private loadingPromises: Map<string, Promise<ONNXSession>> = new Map();
 
+  constructor(config: ModelLoaderConfig = {}) {
+    super();
+    this.config = {
+      backends: config.backends ?? [new OnnxRuntimeBackend()],
+      cacheName: config.cacheName === undefined ? 'babylonjs-ar-models' : config.cacheName,
+      cacheVersion: config.cacheVersion ?? '1',
+      bundle: config.bundle ?? null,
+      verifyIntegrity: config.verifyIntegrity ?? true,
+      fetch: config.fetch ?? (url => fetch(url)),
+    };
+  }
+
   /**
    * Load a depth estimation model
+   *
+   * @throws ARError (MODEL_LOAD_FAILED) with context.reason 'network',
+   * 'integrity', 'unavailable' or 'backend'
    */
   async loadModel(
     modelName: DepthModel,
     customUrl?: string
   ): Promise<{ session: ONNXSession; info: ModelInfo }> {
-    const info = MODEL_REGISTRY[modelName];
+    const info = getModelInfo(modelName);
     const url = customUrl || info.url;
 
     // Check cache
@@ -114,7 +251,7 @@ export class ModelLoader {
     }
 
     // Start loading
-    const loadPromise = this.loadModelFromURL(url, info);
+    const loadPromise = this.loadModelFromURL(modelName, url, info);
     this.loadingPromises.set(url, loadPromise);
 
     try {
@@ -122,67 +259,26 @@ export class ModelLoader {
       this.modelCache.set(url, session);
       this.loadingPromises.delete(url);
 
-      log.info(`Model ${modelName} loaded successfully`);
+      log.info(`Model ${modelName} loaded successfully (${session.backend})`);
+      this.emit('model:loaded', modelName, session);
       return { session, info };
     } catch (error) {
       this.loadingPromises.delete(url);
-      throw error;
-    }
-  }
-
-  /**
-   * Load model from URL
-   * Note: This is a simplified version. Production would use actual ONNX Runtime Web.
-   */
-  private async loadModelFromURL(
-    url: string,
-    info: ModelInfo
-  ): Promise<ONNXSession> {
-    log.info(`Loading model from ${url} (${info.size}MB)`);
-
-    try {
-      // In production, this would use ONNX Runtime Web:
-      // import * as ort from 'onnxruntime-web';
-      // const session = await ort.InferenceSession.create(url, {
-      //   executionProviders: ['webgpu', 'wasm'],
-      //   graphOptimizationLevel: 'all',
-      // });
-
-      // For now, create a mock session
-      const mockSession: ONNXSession = {
-        inputNames: ['input'],
-        outputNames: ['output'],
-        run: async (inputs: Record<string, Float32Array>) => {
-          // Simulate inference delay
-          await new Promise(resolve => setTimeout(resolve, 50));
-
-          // Return mock depth map (in production, this would be real inference)
-          const inputData = inputs[mockSession.inputNames[0]];
-          const outputSize = info.outputSize[0] * info.outputSize[1];
-          const output = new Float32Array(outputSize);
-
-          // Simple mock: gradient based on input
-          for (let i = 0; i < outputSize; i++) {
-            output[i] = Math.random() * 0.3 + 0.3; // Mock depth values
-          }
-
-          return { [mockSession.outputNames[0]]: output };
-        },
-      };
-
-      return mockSession;
-    } catch (error) {
       log.error('Failed to load model', error);
-      throw new Error(`Failed to load model from ${url}: ${error}`);
+      throw modelError(modelName, 'network', error);
     }
   }
 
   /**
    * Unload model from cache
    */
-  unloadModel(modelName: DepthModel): void {
-    const info = MODEL_REGISTRY[modelName];
-    this.modelCache.delete(info.url);
+  unloadModel(modelName: DepthModel, customUrl?: string): void {
+    const url = customUrl || MODEL_REGISTRY[modelName]?.url;
+    const session = this.modelCache.get(url);
+    if (!session) {return;}
+
+    this.modelCache.delete(url);
+    this.releaseSession(session);
     log.info(`Model ${modelName} unloaded from cache`);
   }
 
@@ -190,10 +286,23 @@ export class ModelLoader {
    * Clear all cached models
    */
   clearCache(): void {
+    for (const session of this.modelCache.values()) {
+      this.releaseSession(session);
+    }
     this.modelCache.clear();
     log.info('Model cache cleared');
   }
 
+  /**
+   * Remove downloaded models from Cache Storage
+   */
+  async deleteCachedModels(): Promise<boolean> {
+    if (!this.config.cacheName || typeof caches === 'undefined') {
+      return false;
+    }
+    return caches.delete(this.config.cacheName);
+  }
+
   /**
    * Get cache statistics
    */
@@ -229,10 +338,302 @@ export class ModelLoader {
   /**
    * Check if model is loaded
    */
-  isModelLoaded(modelName: DepthModel): boolean {
-    const info = MODEL_REGISTRY[modelName];
-    return this.modelCache.has(info.url);
+  isModelLoaded(modelName: DepthModel, customUrl?: string): boolean {
+    return this.modelCache.has(customUrl || MODEL_REGISTRY[modelName]?.url);
+  }
+
+  // ==================== Private Methods ====================
+
+  private async loadModelFromURL(
+    modelName: DepthModel,
+    url: string,
+    info: ModelInfo
+  ): Promise<ONNXSession> {
+    log.info(`Loading model ${modelName} (${info.size}MB)`);
+    const bytes = await this.acceptModel(modelName, url, info);
+
+    try {
+      return await this.createSession(bytes, info);
+    } catch (error) {
+      throw modelError(modelName, 'backend', error);
+    }
+  }
+
+  /**
+   * Verified model bytes from Cache Storage, the offline bundle or the network
+   * The only place models are hashed: each copy once, before use and before
+   * caching, so a bad download is never persisted.
+   */
+  private async acceptModel(modelName: DepthModel, url: string, info: ModelInfo): Promise<Uint8Array> {
+    const cache = this.config.bundle || !url ? null : await this.openCache();
+    const tag = this.cacheTag(info);
+    let cached = cache ? await this.readCache(cache, modelName, url, tag) : null;
+
+    for (;;) {
+      const bytes = cached ?? await this.readSource(modelName, url, info);
+
+      try {
+        await this.verify(modelName, bytes, info);
+      } catch (error) {
+        if (!cached || !cache) {
+          throw error;
+        }
+        log.warn(`Cached model ${modelName} is corrupted, downloading again`);
+        await cache.delete(url).catch(() => false);
+        cached = null;
+        continue;
+      }
+
+      if (cached) {
+        log.debug(`Model ${modelName} read from Cache Storage`);
+        this.emitProgress(modelName, url, bytes.length, bytes.length, 'cache');
+      } else if (cache) {
+        await this.writeCache(cache, modelName, url, tag, bytes);
+      }
+      return bytes;
+    }
+  }
+
+  /**
+   * Model bytes from the offline bundle, or downloaded with progress
+   */
+  private async readSource(modelName: DepthModel, url: string, info: ModelInfo): Promise<Uint8Array> {
+    if (this.config.bundle) {
+      return this.readBundle(modelName, url, info);
+    }
+    if (!url) {
+      throw modelError(modelName, 'unavailable', new Error(`No URL for model ${modelName}`));
+    }
+    return this.download(modelName, url, 'network');
+  }
+
+  /**
+   * Cached model bytes, evicting entries from another model version
+   */
+  private async readCache(
+    cache: Cache,
+    modelName: DepthModel,
+    url: string,
+    tag: string
+  ): Promise<Uint8Array | null> {
+    const response = await cache.match(url).catch(() => undefined);
+    if (!response) {
+      return null;
+    }
+
+    if (response.headers.get(CACHE_TAG_HEADER) !== tag) {
+      log.info(`Cached model ${modelName} is stale, downloading again`);
+      await cache.delete(url).catch(() => false);
+      return null;
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * Store verified model bytes under the model revision tag
+   */
+  private async writeCache(
+    cache: Cache,
+    modelName: DepthModel,
+    url: string,
+    tag: string,
+    bytes: Uint8Array
+  ): Promise<void> {
+    try {
+      await cache.put(url, new Response(bytes as Uint8Array<ArrayBuffer>, {
+        headers: { 'content-type': 'application/octet-stream', [CACHE_TAG_HEADER]: tag },
+      }));
+    } catch (error) {
+      // Quota exceeded or opaque response; the model still loads
+      log.warn(`Could not cache model ${modelName}`, error);
+    }
+  }
+
+  /**
+   * Model bytes from the offline bundle (inline bytes or a local URL)
+   */
+  private async readBundle(modelName: DepthModel, url: string, info: ModelInfo): Promise<Uint8Array> {
+    const bundle = this.config.bundle!;
+    const entry = typeof bundle === 'function'
+      ? await bundle({ ...info, url })
+      : bundle[modelName] ?? bundle[url];
+
+    if (entry === null || entry === undefined) {
+      throw modelError(modelName, 'unavailable', new Error(`Model ${modelName} is not in the offline bundle`));
+    }
+
+    if (typeof entry === 'string') {
+      return this.download(modelName, entry, 'bundle');
+    }
+
+    const bytes = entry instanceof Uint8Array ? entry : new Uint8Array(entry);
+    this.emitProgress(modelName, url, bytes.length, bytes.length, 'bundle');
+    return bytes;
+  }
+
+  /**
+   * Fetch a model with progress events
+   */
+  private async download(
+    modelName: DepthModel,
+    url: string,
+    source: ModelSource
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    try {
+      const response = await this.config.fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText} fetching ${url}`);
+      }
+
+      const total = Number(response.headers.get('content-length')) || 0;
+      const bytes = await this.readBody(response, loaded => {
+        this.emitProgress(modelName, url, loaded, total, source);
+      });
+      this.emitProgress(modelName, url, bytes.length, bytes.length, source);
+      return bytes;
+    } catch (error) {
+      throw modelError(modelName, 'network', error);
+    }
+  }
+
+  /**
+   * Check the model against its pinned SHA-256
+   */
+  private async verify(modelName: DepthModel, bytes: Uint8Array, info: ModelInfo): Promise<void> {
+    if (!info.sha256 || !this.config.verifyIntegrity) {
+      return;
+    }
+
+    let actual: string;
+    try {
+      actual = await sha256Hex(bytes);
+    } catch (error) {
+      throw modelError(modelName, 'integrity', error);
+    }
+
+    if (actual !== info.sha256.toLowerCase()) {
+      throw modelError(
+        modelName,
+        'integrity',
+        new Error(`SHA-256 mismatch for ${modelName}: expected ${info.sha256}, got ${actual}`)
+      );
+    }
+  }
+
+  /**
+   * Identifies the model revision stored in Cache Storage
+   */
+  private cacheTag(info: ModelInfo): string {
+    return [this.config.cacheVersion, info.version ?? '', info.sha256?.toLowerCase() ?? ''].join(':');
+  }
+
+  /**
+   * Read a response body, reporting bytes received per chunk
+   */
+  private async readBody(
+    response: Response,
+    onProgress: (loaded: number) => void
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    if (!response.body) {
+      return new Uint8Array(await response.arrayBuffer());
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {break;}
+      chunks.push(value);
+      loaded += value.length;
+      onProgress(loaded);
+    }
+
+    const bytes = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  }
+
+  private emitProgress(model: DepthModel, url: string, loaded: number, total: number, source: ModelSource): void {
+    this.emit('model:progress', {
+      model,
+      url,
+      loaded,
+      total,
+      progress: total > 0 ? Math.min(1, loaded / total) : 0,
+      source,
+      fromCache: source === 'cache',
+    });
+  }
+
+  /**
+   * Cache Storage bucket, or null when disabled or unavailable
+   * (non-secure contexts, Node/Bun, private browsing)
+   */
+  private async openCache(): Promise<Cache | null> {
+    if (!this.config.cacheName || typeof caches === 'undefined') {
+      return null;
+    }
+
+    try {
+      return await caches.open(this.config.cacheName);
+    } catch (error) {
+      log.warn('Cache Storage unavailable', error);
+      return null;
+    }
+  }
+
+  /**
+   * Session from the first available backend that accepts the model
+   */
+  private async createSession(bytes: Uint8Array, info: ModelInfo): Promise<ONNXSession> {
+    let lastError: unknown = new Error('No inference backend available');
+
+    for (const backend of this.config.backends) {
+      if (!(await backend.isAvailable())) {
+        log.debug(`Inference backend ${backend.name} not available`);
+        continue;
+      }
+
+      try {
+        return await backend.createSession(bytes, info);
+      } catch (error) {
+        log.warn(`Inference backend ${backend.name} failed`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private releaseSession(session: ONNXSession): void {
+    session.release().catch(error => log.warn('Failed to release session', error));
+  }
+}
+
+// ==================== Private Methods ====================
+
+const CACHE_TAG_HEADER = 'x-babylonjs-ar-model';
+
+function modelError(modelName: DepthModel, reason: ModelLoadFailureReason, error: unknown): ARError {
+  if (error instanceof ARError) {
+    return error;
+  }
+  return ARErrors.modelLoadFailed(modelName, error instanceof Error ? error : new Error(String(error)), reason);
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('SHA-256 unavailable: Web Crypto requires a secure context');
   }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
 /**
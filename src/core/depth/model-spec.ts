@@ -0,0 +1,211 @@
+/**
+ * Depth Model Specs
+ * Declarative description of a model's input tensor and output semantics
+ */
+
+import type { ModelInfo } from './model-loader';
+
+/**
+ * Input tensor memory layout
+ */
+export type TensorLayout = 'NCHW' | 'NHWC';
+
+/**
+ * Channel order of the input tensor
+ */
+export type ColorOrder = 'RGB' | 'BGR';
+
+/**
+ * Meaning of the model output
+ * - inverse-depth: relative inverse depth (MiDaS); larger is closer
+ * - disparity: inverse depth; metric when outputScale (focal × baseline) is known
+ * - metric-depth: depth in units of outputScale meters
+ */
+export type DepthOutputKind = 'inverse-depth' | 'disparity' | 'metric-depth';
+
+/**
+ * How the frame is fitted to the model input
+ * - stretch: resize ignoring aspect ratio
+ * - letterbox: fit inside, padding the remainder
+ * - crop: fill, cropping the frame center
+ */
+export type ResizeMode = 'stretch' | 'letterbox' | 'crop';
+
+/**
+ * Rectangle in pixels
+ */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Input normalization: (pixel × scale - mean) / std, pixel in 0-255
+ */
+export interface NormalizationSpec {
+  scale?: number;                   // Pixel multiplier (default: 1/255)
+  mean?: [number, number, number];  // Per channel, RGB order (default: ImageNet mean)
+  std?: [number, number, number];   // Per channel, RGB order (default: ImageNet std)
+}
+
+/**
+ * Registration spec for a depth model
+ *
+ * @example
+ * ```typescript
+ * registerDepthModel({
+ *   name: 'depth-anything-small',
+ *   url: '/models/depth_anything_vits14.onnx',
+ *   inputSize: [518, 518],
+ *   resize: 'letterbox',
+ *   output: 'disparity',
+ * });
+ * ```
+ */
+export interface DepthModelSpec {
+  name: string;
+  url: string;
+  size?: number;                    // File size in MB (default: 0)
+  version?: string;                 // Model revision; a change invalidates cached copies
+  sha256?: string;                  // Hex digest of the model file (default: not verified)
+  inputSize: [number, number];      // [width, height]
+  outputSize?: [number, number];    // [width, height] (default: inputSize)
+  layout?: TensorLayout;            // (default: 'NCHW')
+  colorOrder?: ColorOrder;          // (default: 'RGB')
+  normalization?: NormalizationSpec;
+  output?: DepthOutputKind;         // (default: 'inverse-depth')
+  outputScale?: number;             // Meters per unit (metric) or focal × baseline (disparity)
+  resize?: ResizeMode;              // (default: 'stretch')
+  padColor?: [number, number, number]; // Letterbox fill, RGB 0-255 (default: [0, 0, 0])
+  outputCrop?: 'auto' | PixelRect;  // Output region kept, in output pixels (default: 'auto')
+}
+
+/**
+ * ModelInfo with every spec field resolved
+ */
+export type ResolvedModelSpec =
+  Required<Omit<ModelInfo, 'outputScale' | 'version' | 'sha256'>>
+  & Pick<ModelInfo, 'outputScale' | 'version' | 'sha256'>;
+
+const IMAGENET_MEAN: [number, number, number] = [0.485, 0.456, 0.406];
+const IMAGENET_STD: [number, number, number] = [0.229, 0.224, 0.225];
+
+/**
+ * Validate a spec and flatten it into a ModelInfo
+ */
+export function specToModelInfo(spec: DepthModelSpec): ModelInfo {
+  if (!spec.name) {
+    throw new Error('Depth model spec requires a name');
+  }
+  if (!spec.url) {
+    throw new Error(`Depth model ${spec.name} requires a URL`);
+  }
+  for (const [label, size] of [['inputSize', spec.inputSize], ['outputSize', spec.outputSize]] as const) {
+    if (size && !(size[0] > 0 && size[1] > 0 && Number.isInteger(size[0]) && Number.isInteger(size[1]))) {
+      throw new Error(`Depth model ${spec.name} has an invalid ${label}`);
+    }
+  }
+  if (spec.sha256 !== undefined && !/^[0-9a-f]{64}$/i.test(spec.sha256)) {
+    throw new Error(`Depth model ${spec.name} has an invalid sha256 (expected 64 hex digits)`);
+  }
+  if (spec.outputScale !== undefined && !(spec.outputScale > 0)) {
+    throw new Error(`Depth model ${spec.name} has an invalid outputScale`);
+  }
+
+  return {
+    name: spec.name,
+    url: spec.url,
+    size: spec.size ?? 0,
+    version: spec.version,
+    sha256: spec.sha256?.toLowerCase(),
+    inputSize: spec.inputSize,
+    outputSize: spec.outputSize ?? spec.inputSize,
+    mean: spec.normalization?.mean ?? IMAGENET_MEAN,
+    std: spec.normalization?.std ?? IMAGENET_STD,
+    pixelScale: spec.normalization?.scale ?? 1 / 255,
+    layout: spec.layout ?? 'NCHW',
+    colorOrder: spec.colorOrder ?? 'RGB',
+    output: spec.output ?? 'inverse-depth',
+    outputScale: spec.outputScale,
+    resize: spec.resize ?? 'stretch',
+    padColor: spec.padColor ?? [0, 0, 0],
+    outputCrop: spec.outputCrop ?? 'auto',
+  };
+}
+
+/**
+ * Fill spec defaults for models registered without them (built-in MiDaS entries)
+ */
+export function resolveModelSpec(info: ModelInfo): ResolvedModelSpec {
+  return {
+    ...info,
+    pixelScale: info.pixelScale ?? 1 / 255,
+    layout: info.layout ?? 'NCHW',
+    colorOrder: info.colorOrder ?? 'RGB',
+    output: info.output ?? 'inverse-depth',
+    resize: info.resize ?? 'stretch',
+    padColor: info.padColor ?? [0, 0, 0],
+    outputCrop: info.outputCrop ?? 'auto',
+  };
+}
+
+/**
+ * Where the whole frame lands in model input pixels
+ * Extends past the input for 'crop', and is inset for 'letterbox'.
+ */
+export function computeContentRect(frameWidth: number, frameHeight: number, info: ModelInfo): PixelRect {
+  const [width, height] = info.inputSize;
+  const resize = info.resize ?? 'stretch';
+
+  if (resize === 'stretch' || frameWidth <= 0 || frameHeight <= 0) {
+    return { x: 0, y: 0, width, height };
+  }
+
+  const scale = resize === 'letterbox'
+    ? Math.min(width / frameWidth, height / frameHeight)
+    : Math.max(width / frameWidth, height / frameHeight);
+  const contentWidth = frameWidth * scale;
+  const contentHeight = frameHeight * scale;
+
+  return {
+    x: (width - contentWidth) / 2,
+    y: (height - contentHeight) / 2,
+    width: contentWidth,
+    height: contentHeight,
+  };
+}
+
+/**
+ * Region of the model output kept in the depth map
+ * 'auto' removes letterbox padding; explicit rectangles are clamped to the output.
+ */
+export function computeOutputCrop(frameWidth: number, frameHeight: number, info: ModelInfo): PixelRect {
+  const [outWidth, outHeight] = info.outputSize;
+  const crop = info.outputCrop ?? 'auto';
+
+  let rect: PixelRect;
+  if (crop === 'auto') {
+    const content = computeContentRect(frameWidth, frameHeight, info);
+    const scaleX = outWidth / info.inputSize[0];
+    const scaleY = outHeight / info.inputSize[1];
+    rect = {
+      x: Math.round(content.x * scaleX),
+      y: Math.round(content.y * scaleY),
+      width: Math.round(content.width * scaleX),
+      height: Math.round(content.height * scaleY),
+    };
+  } else {
+    rect = crop;
+  }
+
+  const x = Math.min(Math.max(0, Math.floor(rect.x)), outWidth - 1);
+  const y = Math.min(Math.max(0, Math.floor(rect.y)), outHeight - 1);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(outWidth - x, Math.round(rect.x + rect.width) - x)),
+    height: Math.max(1, Math.min(outHeight - y, Math.round(rect.y + rect.height) - y)),
+  };
+}
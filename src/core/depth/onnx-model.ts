@@ -0,0 +1,554 @@
+/**
+ * ONNX Model Reader
+ * Minimal protobuf decoding of ONNX models (ModelProto)
+ *
+ * Reads the graph interface (input/output names and shapes) for any model,
+ * and optionally the nodes and weights for the CPU reference backend.
+ * Only the fields used by this library are decoded; everything else is
+ * skipped by wire type.
+ */
+
+/**
+ * Name and shape of a graph input or output
+ * Dimensions are numbers, symbolic names (e.g. 'batch') or null if unknown.
+ */
+export interface TensorInfo {
+  name: string;
+  dims: Array<number | string | null>;
+}
+
+/**
+ * Dense tensor (all element types are converted to float32)
+ */
+export interface OnnxTensor {
+  dims: number[];
+  data: Float32Array;
+}
+
+export type OnnxAttribute = number | number[] | string | OnnxTensor;
+
+export interface OnnxNode {
+  name: string;
+  opType: string;
+  inputs: string[]; // Empty string for omitted optional inputs
+  outputs: string[];
+  attributes: Map<string, OnnxAttribute>;
+}
+
+export interface OnnxGraph {
+  inputs: TensorInfo[]; // Graph inputs that are not initializers
+  outputs: TensorInfo[];
+  nodes: OnnxNode[]; // Topologically sorted (required by the ONNX spec)
+  initializers: Map<string, OnnxTensor>;
+  opsetVersion: number; // Default domain
+}
+
+/**
+ * Decode an ONNX model
+ *
+ * @param options.weights - Decode nodes and initializers (default: true);
+ * without them only the graph interface is read
+ */
+export function parseOnnxModel(bytes: Uint8Array, options: { weights?: boolean } = {}): OnnxGraph {
+  const weights = options.weights ?? true;
+  const graph: OnnxGraph = {
+    inputs: [],
+    outputs: [],
+    nodes: [],
+    initializers: new Map(),
+    opsetVersion: 0,
+  };
+
+  let graphBytes: Uint8Array | null = null;
+  const model = new ProtoReader(bytes);
+  while (model.hasMore()) {
+    const [field, wireType] = model.readTag();
+    if (field === ModelField.GRAPH && wireType === WireType.BYTES) {
+      graphBytes = model.readBytes();
+    } else if (field === ModelField.OPSET_IMPORT && wireType === WireType.BYTES) {
+      const opset = readOpset(model.readBytes());
+      if (opset.domain === '' || opset.domain === 'ai.onnx') {
+        graph.opsetVersion = opset.version;
+      }
+    } else {
+      model.skip(wireType);
+    }
+  }
+
+  if (!graphBytes) {
+    throw new Error('Invalid ONNX model: missing graph');
+  }
+
+  const initializerNames = new Set<string>();
+  const inputs: TensorInfo[] = [];
+  const reader = new ProtoReader(graphBytes);
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    if (wireType !== WireType.BYTES) {
+      reader.skip(wireType);
+      continue;
+    }
+
+    switch (field) {
+      case GraphField.NODE:
+        if (weights) {
+          graph.nodes.push(readNode(reader.readBytes()));
+        } else {
+          reader.readBytes();
+        }
+        break;
+      case GraphField.INITIALIZER: {
+        const tensorBytes = reader.readBytes();
+        if (weights) {
+          const { name, tensor } = readTensor(tensorBytes);
+          graph.initializers.set(name, tensor);
+          initializerNames.add(name);
+        } else {
+          initializerNames.add(readTensorName(tensorBytes));
+        }
+        break;
+      }
+      case GraphField.INPUT:
+        inputs.push(readValueInfo(reader.readBytes()));
+        break;
+      case GraphField.OUTPUT:
+        graph.outputs.push(readValueInfo(reader.readBytes()));
+        break;
+      default:
+        reader.readBytes();
+    }
+  }
+
+  // Older exporters list initializers as graph inputs too
+  graph.inputs = inputs.filter(input => !initializerNames.has(input.name));
+  return graph;
+}
+
+// ==================== Private Methods ====================
+
+const WireType = {
+  VARINT: 0,
+  FIXED64: 1,
+  BYTES: 2,
+  FIXED32: 5,
+} as const;
+
+const ModelField = { OPSET_IMPORT: 8, GRAPH: 7 } as const;
+const GraphField = { NODE: 1, INITIALIZER: 5, INPUT: 11, OUTPUT: 12 } as const;
+const NodeField = { INPUT: 1, OUTPUT: 2, NAME: 3, OP_TYPE: 4, ATTRIBUTE: 5 } as const;
+const AttributeField = { NAME: 1, F: 2, I: 3, S: 4, T: 5, FLOATS: 7, INTS: 8, TYPE: 20 } as const;
+const TensorField = {
+  DIMS: 1,
+  DATA_TYPE: 2,
+  FLOAT_DATA: 4,
+  INT32_DATA: 5,
+  INT64_DATA: 7,
+  NAME: 8,
+  RAW_DATA: 9,
+  DOUBLE_DATA: 10,
+} as const;
+
+// TensorProto.DataType
+const DataType = { FLOAT: 1, UINT8: 2, INT8: 3, INT32: 6, INT64: 7, DOUBLE: 11 } as const;
+
+// AttributeProto.AttributeType
+const AttributeType = { FLOAT: 1, INT: 2, STRING: 3, TENSOR: 4, FLOATS: 6, INTS: 7 } as const;
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Sequential protobuf wire format reader
+ */
+class ProtoReader {
+  private pos = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  hasMore(): boolean {
+    return this.pos < this.bytes.length;
+  }
+
+  readTag(): [number, number] {
+    const tag = this.readVarint();
+    return [Math.floor(tag / 8), tag % 8];
+  }
+
+  /**
+   * Varint as a number; negative int64 values (ten-byte varints) are sign-corrected
+   */
+  readVarint(): number {
+    let low = 0;
+    let high = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      if (this.pos >= this.bytes.length) {
+        throw new Error('Invalid ONNX model: truncated varint');
+      }
+      byte = this.bytes[this.pos++];
+      if (shift < 28) {
+        low |= (byte & 0x7f) << shift;
+      } else if (shift === 28) {
+        low |= (byte & 0x0f) << 28;
+        high |= (byte & 0x7f) >> 4;
+      } else {
+        high |= (byte & 0x7f) << (shift - 32);
+      }
+      shift += 7;
+    } while (byte & 0x80);
+
+    if (high & 0x80000000) {
+      return -((~high >>> 0) * 4294967296 + (~low >>> 0) + 1);
+    }
+    return (high >>> 0) * 4294967296 + (low >>> 0);
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarint();
+    if (this.pos + length > this.bytes.length) {
+      throw new Error('Invalid ONNX model: truncated field');
+    }
+    const bytes = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  readString(): string {
+    return textDecoder.decode(this.readBytes());
+  }
+
+  readFloat(): number {
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  readDouble(): number {
+    const value = this.view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  /**
+   * Repeated varints, packed or not
+   */
+  readVarints(wireType: number, target: number[]): void {
+    if (wireType !== WireType.BYTES) {
+      target.push(this.readVarint());
+      return;
+    }
+    const packed = new ProtoReader(this.readBytes());
+    while (packed.hasMore()) {
+      target.push(packed.readVarint());
+    }
+  }
+
+  /**
+   * Repeated floats, packed or not
+   */
+  readFloats(wireType: number, target: number[]): void {
+    if (wireType !== WireType.BYTES) {
+      target.push(this.readFloat());
+      return;
+    }
+    const packed = new ProtoReader(this.readBytes());
+    while (packed.hasMore()) {
+      target.push(packed.readFloat());
+    }
+  }
+
+  readDoubles(wireType: number, target: number[]): void {
+    if (wireType !== WireType.BYTES) {
+      target.push(this.readDouble());
+      return;
+    }
+    const packed = new ProtoReader(this.readBytes());
+    while (packed.hasMore()) {
+      target.push(packed.readDouble());
+    }
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WireType.VARINT:
+        this.readVarint();
+        break;
+      case WireType.FIXED64:
+        this.pos += 8;
+        break;
+      case WireType.BYTES:
+        this.readBytes();
+        break;
+      case WireType.FIXED32:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Invalid ONNX model: unsupported wire type ${wireType}`);
+    }
+  }
+}
+
+function readOpset(bytes: Uint8Array): { domain: string; version: number } {
+  const reader = new ProtoReader(bytes);
+  let domain = '';
+  let version = 0;
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1 && wireType === WireType.BYTES) {
+      domain = reader.readString();
+    } else if (field === 2 && wireType === WireType.VARINT) {
+      version = reader.readVarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return { domain, version };
+}
+
+/**
+ * ValueInfoProto: name and TypeProto.tensor_type.shape
+ */
+function readValueInfo(bytes: Uint8Array): TensorInfo {
+  const info: TensorInfo = { name: '', dims: [] };
+  const reader = new ProtoReader(bytes);
+
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1 && wireType === WireType.BYTES) {
+      info.name = reader.readString();
+    } else if (field === 2 && wireType === WireType.BYTES) {
+      // TypeProto -> tensor_type (1) -> shape (2) -> dim (1)
+      const tensorType = findField(reader.readBytes(), 1);
+      const shape = tensorType && findField(tensorType, 2);
+      if (shape) {
+        info.dims = readDims(shape);
+      }
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return info;
+}
+
+function readDims(shape: Uint8Array): Array<number | string | null> {
+  const dims: Array<number | string | null> = [];
+  const reader = new ProtoReader(shape);
+
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    if (field !== 1 || wireType !== WireType.BYTES) {
+      reader.skip(wireType);
+      continue;
+    }
+
+    let dim: number | string | null = null;
+    const dimension = new ProtoReader(reader.readBytes());
+    while (dimension.hasMore()) {
+      const [dimField, dimWireType] = dimension.readTag();
+      if (dimField === 1 && dimWireType === WireType.VARINT) {
+        dim = dimension.readVarint();
+      } else if (dimField === 2 && dimWireType === WireType.BYTES) {
+        dim = dimension.readString();
+      } else {
+        dimension.skip(dimWireType);
+      }
+    }
+    dims.push(dim);
+  }
+
+  return dims;
+}
+
+/**
+ * First length-delimited field with a number
+ */
+function findField(bytes: Uint8Array, target: number): Uint8Array | null {
+  const reader = new ProtoReader(bytes);
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    if (field === target && wireType === WireType.BYTES) {
+      return reader.readBytes();
+    }
+    reader.skip(wireType);
+  }
+  return null;
+}
+
+function readNode(bytes: Uint8Array): OnnxNode {
+  const node: OnnxNode = { name: '', opType: '', inputs: [], outputs: [], attributes: new Map() };
+  const reader = new ProtoReader(bytes);
+
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    if (wireType !== WireType.BYTES) {
+      reader.skip(wireType);
+      continue;
+    }
+
+    switch (field) {
+      case NodeField.INPUT:
+        node.inputs.push(reader.readString());
+        break;
+      case NodeField.OUTPUT:
+        node.outputs.push(reader.readString());
+        break;
+      case NodeField.NAME:
+        node.name = reader.readString();
+        break;
+      case NodeField.OP_TYPE:
+        node.opType = reader.readString();
+        break;
+      case NodeField.ATTRIBUTE: {
+        const [name, value] = readAttribute(reader.readBytes());
+        node.attributes.set(name, value);
+        break;
+      }
+      default:
+        reader.readBytes();
+    }
+  }
+
+  return node;
+}
+
+function readAttribute(bytes: Uint8Array): [string, OnnxAttribute] {
+  const reader = new ProtoReader(bytes);
+  let name = '';
+  let type = 0;
+  let f = 0;
+  let i = 0;
+  let s = '';
+  let t: OnnxTensor | null = null;
+  const floats: number[] = [];
+  const ints: number[] = [];
+
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    switch (field) {
+      case AttributeField.NAME:
+        name = reader.readString();
+        break;
+      case AttributeField.F:
+        f = reader.readFloat();
+        type ||= AttributeType.FLOAT;
+        break;
+      case AttributeField.I:
+        i = reader.readVarint();
+        type ||= AttributeType.INT;
+        break;
+      case AttributeField.S:
+        s = reader.readString();
+        type ||= AttributeType.STRING;
+        break;
+      case AttributeField.T:
+        t = readTensor(reader.readBytes()).tensor;
+        type ||= AttributeType.TENSOR;
+        break;
+      case AttributeField.FLOATS:
+        reader.readFloats(wireType, floats);
+        type ||= AttributeType.FLOATS;
+        break;
+      case AttributeField.INTS:
+        reader.readVarints(wireType, ints);
+        type ||= AttributeType.INTS;
+        break;
+      case AttributeField.TYPE:
+        type = reader.readVarint();
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  switch (type) {
+    case AttributeType.FLOAT: return [name, f];
+    case AttributeType.INT: return [name, i];
+    case AttributeType.STRING: return [name, s];
+    case AttributeType.TENSOR: return [name, t ?? { dims: [], data: new Float32Array(0) }];
+    case AttributeType.FLOATS: return [name, floats];
+    default: return [name, ints];
+  }
+}
+
+function readTensorName(bytes: Uint8Array): string {
+  const reader = new ProtoReader(bytes);
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    if (field === TensorField.NAME && wireType === WireType.BYTES) {
+      return reader.readString();
+    }
+    reader.skip(wireType);
+  }
+  return '';
+}
+
+function readTensor(bytes: Uint8Array): { name: string; tensor: OnnxTensor } {
+  const reader = new ProtoReader(bytes);
+  let name = '';
+  let dataType: number = DataType.FLOAT;
+  let raw: Uint8Array | null = null;
+  const dims: number[] = [];
+  const values: number[] = [];
+
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readTag();
+    switch (field) {
+      case TensorField.DIMS:
+        reader.readVarints(wireType, dims);
+        break;
+      case TensorField.DATA_TYPE:
+        dataType = reader.readVarint();
+        break;
+      case TensorField.FLOAT_DATA:
+        reader.readFloats(wireType, values);
+        break;
+      case TensorField.INT32_DATA:
+      case TensorField.INT64_DATA:
+        reader.readVarints(wireType, values);
+        break;
+      case TensorField.DOUBLE_DATA:
+        reader.readDoubles(wireType, values);
+        break;
+      case TensorField.NAME:
+        name = reader.readString();
+        break;
+      case TensorField.RAW_DATA:
+        raw = reader.readBytes();
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  const data = raw ? decodeRaw(raw, dataType) : Float32Array.from(values);
+  return { name, tensor: { dims, data } };
+}
+
+/**
+ * Little-endian raw_data to float32
+ */
+function decodeRaw(raw: Uint8Array, dataType: number): Float32Array {
+  const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+
+  switch (dataType) {
+    case DataType.FLOAT:
+      return Float32Array.from({ length: raw.length / 4 }, (_, i) => view.getFloat32(i * 4, true));
+    case DataType.DOUBLE:
+      return Float32Array.from({ length: raw.length / 8 }, (_, i) => view.getFloat64(i * 8, true));
+    case DataType.INT32:
+      return Float32Array.from({ length: raw.length / 4 }, (_, i) => view.getInt32(i * 4, true));
+    case DataType.INT64:
+      return Float32Array.from({ length: raw.length / 8 }, (_, i) => Number(view.getBigInt64(i * 8, true)));
+    case DataType.UINT8:
+      return Float32Array.from(raw);
+    case DataType.INT8:
+      return Float32Array.from(new Int8Array(raw.buffer, raw.byteOffset, raw.byteLength));
+    default:
+      throw new Error(`Unsupported ONNX tensor data type: ${dataType}`);
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * ONNX Runtime Web Backend
+ * Runs depth models with onnxruntime-web (WebGPU, then WASM fallback)
+ */
+
+import { Logger } from '../../utils/logger';
+import type { ModelInfo } from './model-loader';
+import type { InferenceBackend, ONNXSession } from './inference-backend';
+import { resolveInputDims } from './inference-backend';
+import { parseOnnxModel } from './onnx-model';
+
+const log = Logger.create('OnnxRuntimeBackend');
+
+/**
+ * Execution providers supported by onnxruntime-web
+ */
+export type ExecutionProvider = 'webgpu' | 'webgl' | 'wasm';
+
+/**
+ * Subset of the onnxruntime-web module used by the backend
+ */
+export interface OrtModule {
+  InferenceSession: {
+    create(
+      model: Uint8Array,
+      options?: { executionProviders?: string[]; graphOptimizationLevel?: string }
+    ): Promise<OrtInferenceSession>;
+  };
+  Tensor: new (type: 'float32', data: Float32Array, dims: readonly number[]) => OrtTensor;
+  env: { wasm: { wasmPaths?: string | Record<string, string>; numThreads?: number } };
+}
+
+export interface OrtTensor {
+  data: unknown;
+  dims: readonly number[];
+}
+
+export interface OrtInferenceSession {
+  inputNames: readonly string[];
+  outputNames: readonly string[];
+  run(feeds: Record<string, OrtTensor>): Promise<Record<string, OrtTensor>>;
+  release(): Promise<void>;
+}
+
+export interface OnnxRuntimeBackendConfig {
+  // Execution providers, tried in order (default: ['webgpu', 'wasm'])
+  executionProviders?: ExecutionProvider[];
+  // Loads the runtime (default: global `ort` from a script tag, else import('onnxruntime-web'))
+  runtime?: () => Promise<OrtModule>;
+  // Location of the onnxruntime-web .wasm files (default: runtime default)
+  wasmPaths?: string | Record<string, string>;
+  // WASM threads, 0 for automatic (default: 0)
+  numThreads?: number;
+}
+
+/**
+ * onnxruntime-web inference backend
+ *
+ * onnxruntime-web is an optional peer dependency. To have it bundled with the
+ * application, pass the import explicitly:
+ *
+ * @example
+ * ```typescript
+ * const backend = new OnnxRuntimeBackend({
+ *   runtime: () => import('onnxruntime-web'),
+ * });
+ * const loader = new ModelLoader({ backends: [backend] });
+ * ```
+ */
+export class OnnxRuntimeBackend implements InferenceBackend {
+  readonly name = 'onnxruntime-web';
+  private config: Required<Omit<OnnxRuntimeBackendConfig, 'wasmPaths'>> & Pick<OnnxRuntimeBackendConfig, 'wasmPaths'>;
+  private runtimePromise: Promise<OrtModule> | null = null;
+
+  constructor(config: OnnxRuntimeBackendConfig = {}) {
+    this.config = {
+      executionProviders: config.executionProviders ?? ['webgpu', 'wasm'],
+      runtime: config.runtime ?? loadDefaultRuntime,
+      wasmPaths: config.wasmPaths,
+      numThreads: config.numThreads ?? 0,
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.getRuntime();
+      return true;
+    } catch (error) {
+      log.debug('onnxruntime-web not available', error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a session with the first execution provider that succeeds
+   */
+  async createSession(model: Uint8Array, info: ModelInfo): Promise<ONNXSession> {
+    const ort = await this.getRuntime();
+    const graph = parseOnnxModel(model, { weights: false });
+    let lastError: unknown = new Error('No usable execution provider');
+
+    for (const provider of this.config.executionProviders) {
+      if (provider === 'webgpu' && !hasWebGPU()) {
+        log.debug('Skipping WebGPU execution provider: WebGPU not available');
+        continue;
+      }
+
+      try {
+        const session = await ort.InferenceSession.create(model, {
+          executionProviders: [provider],
+          graphOptimizationLevel: 'all',
+        });
+        log.info(`Created ${info.name} session with ${provider} execution provider`);
+        return this.wrapSession(ort, session, provider, graph.inputs, graph.outputs, info);
+      } catch (error) {
+        log.warn(`Execution provider ${provider} failed`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  // ==================== Private Methods ====================
+
+  private getRuntime(): Promise<OrtModule> {
+    if (!this.runtimePromise) {
+      this.runtimePromise = this.config.runtime().then(ort => {
+        if (this.config.wasmPaths !== undefined) {
+          ort.env.wasm.wasmPaths = this.config.wasmPaths;
+        }
+        if (this.config.numThreads > 0) {
+          ort.env.wasm.numThreads = this.config.numThreads;
+        }
+        return ort;
+      });
+      // Allow a retry after a failed load
+      this.runtimePromise.catch(() => {
+        this.runtimePromise = null;
+      });
+    }
+    return this.runtimePromise;
+  }
+
+  private wrapSession(
+    ort: OrtModule,
+    session: OrtInferenceSession,
+    provider: ExecutionProvider,
+    inputs: ONNXSession['inputs'],
+    outputs: ONNXSession['outputs'],
+    info: ModelInfo
+  ): ONNXSession {
+    // Names come from the runtime; shapes from the graph when it declares them
+    const inputInfo = session.inputNames.map(name => inputs.find(input => input.name === name) ?? { name, dims: [] });
+    const outputInfo = session.outputNames.map(name => outputs.find(output => output.name === name) ?? { name, dims: [] });
+    const inputDims = new Map(inputInfo.map(input => [input.name, resolveInputDims(input, info)]));
+
+    return {
+      inputNames: [...session.inputNames],
+      outputNames: [...session.outputNames],
+      inputs: inputInfo,
+      outputs: outputInfo,
+      backend: `${this.name}/${provider}`,
+      run: async (feeds: Record<string, Float32Array>) => {
+        const tensors: Record<string, OrtTensor> = {};
+        for (const [name, data] of Object.entries(feeds)) {
+          tensors[name] = new ort.Tensor('float32', data, inputDims.get(name) ?? [data.length]);
+        }
+
+        const results = await session.run(tensors);
+        const output: Record<string, Float32Array> = {};
+        for (const [name, tensor] of Object.entries(results)) {
+          output[name] = tensor.data instanceof Float32Array
+            ? tensor.data
+            : Float32Array.from(tensor.data as ArrayLike<number>);
+        }
+        return output;
+      },
+      release: () => session.release(),
+    };
+  }
+}
+
+// ==================== Private Methods ====================
+
+function hasWebGPU(): boolean {
+  return typeof navigator !== 'undefined' && 'gpu' in navigator && !!navigator.gpu;
+}
+
+/**
+ * Global `ort` (CDN script build) or the onnxruntime-web package
+ */
+async function loadDefaultRuntime(): Promise<OrtModule> {
+  const global = (globalThis as { ort?: OrtModule }).ort;
+  if (global) {
+    return global;
+  }
+
+  // Specifier kept out of static analysis so builds without the optional
+  // peer dependency still succeed; pass `runtime` to bundle it instead
+  const specifier = 'onnxruntime-web';
+  return (await import(/* @vite-ignore */ specifier)) as OrtModule;
+}
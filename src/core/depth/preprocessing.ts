@@ -4,6 +4,20 @@
  */
 
 import type { ModelInfo } from './model-loader';
+import { computeContentRect, resolveModelSpec, type PixelRect } from './model-spec';
+
+/**
+ * Frame sources accepted by the preprocessors
+ */
+export type FrameSource = VideoFrame | HTMLVideoElement | ImageBitmap | HTMLCanvasElement;
+
+/**
+ * Physical depth range used to normalize metric outputs
+ */
+export interface DepthRange {
+  minDepth: number;
+  maxDepth: number;
+}
 
 /**
  * Image preprocessing utilities
@@ -19,105 +33,50 @@ export class ImagePreprocessor {
 
   /**
    * Preprocess image for model input
-   * 1. Resize to model input size
-   * 2. Normalize using model-specific mean/std
-   * 3. Convert to CHW format (channels, height, width)
+   * 1. Fit to model input size (stretch, letterbox or crop)
+   * 2. Normalize using model-specific scale/mean/std
+   * 3. Convert to the model's layout and channel order
    */
   async preprocess(
-    source: VideoFrame | HTMLVideoElement | ImageBitmap | HTMLCanvasElement,
+    source: FrameSource,
     modelInfo: ModelInfo
   ): Promise<Float32Array> {
-    const [targetWidth, targetHeight] = modelInfo.inputSize;
+    const spec = resolveModelSpec(modelInfo);
+    const [targetWidth, targetHeight] = spec.inputSize;
+    const [sourceWidth, sourceHeight] = getSourceSize(source);
+    const rect = computeContentRect(sourceWidth, sourceHeight, spec);
 
     // Resize image
     this.canvas.width = targetWidth;
     this.canvas.height = targetHeight;
 
+    // Letterbox padding shows through where the frame does not cover
+    if (spec.resize === 'letterbox') {
+      const [r, g, b] = spec.padColor;
+      this.ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+      this.ctx.fillRect(0, 0, targetWidth, targetHeight);
+    }
+
     // Draw and extract pixels
-    this.ctx.drawImage(source as any, 0, 0, targetWidth, targetHeight);
+    this.ctx.drawImage(source as any, rect.x, rect.y, rect.width, rect.height);
     const imageData = this.ctx.getImageData(0, 0, targetWidth, targetHeight);
 
-    // Normalize and convert to CHW format
-    return this.normalizeAndConvert(imageData, modelInfo);
-  }
-
-  /**
-   * Normalize pixel values and convert from HWC to CHW format
-   * HWC: [height, width, channels] - standard image format
-   * CHW: [channels, height, width] - ML model format
-   */
-  private normalizeAndConvert(
-    imageData: ImageData,
-    modelInfo: ModelInfo
-  ): Float32Array {
-    const { width, height } = imageData;
-    const pixels = imageData.data;
-    const [meanR, meanG, meanB] = modelInfo.mean;
-    const [stdR, stdG, stdB] = modelInfo.std;
-
-    // Allocate tensor (CHW format)
-    const tensor = new Float32Array(3 * width * height);
-
-    // Convert HWC → CHW and normalize
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const pixelIndex = (y * width + x) * 4;
-        const tensorIndex = y * width + x;
-
-        // Extract RGB (0-255)
-        const r = pixels[pixelIndex] / 255.0;
-        const g = pixels[pixelIndex + 1] / 255.0;
-        const b = pixels[pixelIndex + 2] / 255.0;
-
-        // Normalize: (pixel - mean) / std
-        const rNorm = (r - meanR) / stdR;
-        const gNorm = (g - meanG) / stdG;
-        const bNorm = (b - meanB) / stdB;
-
-        // Store in CHW format
-        tensor[tensorIndex] = rNorm;                          // R channel
-        tensor[width * height + tensorIndex] = gNorm;         // G channel
-        tensor[2 * width * height + tensorIndex] = bNorm;     // B channel
-      }
-    }
-
-    return tensor;
+    return pixelsToTensor(imageData.data, targetWidth, targetHeight, spec);
   }
 
   /**
    * Postprocess model output to depth map
-   * Converts raw model output to normalized depth values
+   * Converts raw model output to normalized depth values (0 = near, 1 = far);
+   * without model info the output is treated as relative inverse depth.
    */
   postprocess(
     output: Float32Array,
     width: number,
-    height: number
+    height: number,
+    modelInfo?: ModelInfo,
+    range: DepthRange = { minDepth: 0.1, maxDepth: 10.0 }
   ): Float32Array {
-    // Find min/max for normalization
-    let min = Infinity;
-    let max = -Infinity;
-
-    for (let i = 0; i < output.length; i++) {
-      const val = output[i];
-      if (val < min) {min = val;}
-      if (val > max) {max = val;}
-    }
-
-    // Normalize to [0, 1]
-    const normalized = new Float32Array(width * height);
-    const range = max - min;
-
-    if (range > 0) {
-      for (let i = 0; i < output.length; i++) {
-        // Invert depth (closer = higher value in output, but we want closer = lower value)
-        normalized[i] = 1.0 - ((output[i] - min) / range);
-      }
-    } else {
-      // Uniform depth if no variation
-      normalized.fill(0.5);
-    }
-
-    return normalized;
+    return normalizeDepthOutput(output.subarray(0, width * height), modelInfo, range);
   }
 
   /**
@@ -214,8 +173,138 @@ export class ImagePreprocessor {
   }
 }
 
+/**
+ * Width and height of a frame source
+ */
+export function getSourceSize(source: FrameSource): [number, number] {
+  if (typeof VideoFrame !== 'undefined' && source instanceof VideoFrame) {
+    return [source.displayWidth, source.displayHeight];
+  }
+  if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+    return [source.videoWidth, source.videoHeight];
+  }
+  const { width, height } = source as ImageBitmap | HTMLCanvasElement;
+  return [width, height];
+}
+
+/**
+ * Convert RGBA pixels (model input size) to a normalized input tensor
+ * Honors the model's pixel scale, mean/std, channel order and layout.
+ */
+export function pixelsToTensor(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  modelInfo: ModelInfo
+): Float32Array {
+  const spec = resolveModelSpec(modelInfo);
+  const [meanR, meanG, meanB] = spec.mean;
+  const [stdR, stdG, stdB] = spec.std;
+  const scale = spec.pixelScale;
+  const pixelCount = width * height;
+
+  // Tensor channel slot of R, G and B
+  const [slotR, slotG, slotB] = spec.colorOrder === 'BGR' ? [2, 1, 0] : [0, 1, 2];
+  const channelsLast = spec.layout === 'NHWC';
+
+  const tensor = new Float32Array(3 * pixelCount);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const pixelIndex = i * 4;
+
+    // Normalize: (pixel × scale - mean) / std
+    const r = (pixels[pixelIndex] * scale - meanR) / stdR;
+    const g = (pixels[pixelIndex + 1] * scale - meanG) / stdG;
+    const b = (pixels[pixelIndex + 2] * scale - meanB) / stdB;
+
+    if (channelsLast) {
+      tensor[i * 3 + slotR] = r;
+      tensor[i * 3 + slotG] = g;
+      tensor[i * 3 + slotB] = b;
+    } else {
+      tensor[slotR * pixelCount + i] = r;
+      tensor[slotG * pixelCount + i] = g;
+      tensor[slotB * pixelCount + i] = b;
+    }
+  }
+
+  return tensor;
+}
+
+/**
+ * Model output to normalized depth (0 = near, 1 = far)
+ * Metric outputs map onto the depth range; relative outputs are min/max normalized.
+ */
+export function normalizeDepthOutput(
+  output: Float32Array,
+  modelInfo?: ModelInfo,
+  range: DepthRange = { minDepth: 0.1, maxDepth: 10.0 }
+): Float32Array {
+  const kind = modelInfo?.output ?? 'inverse-depth';
+  const outputScale = modelInfo?.outputScale;
+  const normalized = new Float32Array(output.length);
+
+  if (kind === 'metric-depth' || (kind === 'disparity' && outputScale !== undefined)) {
+    const span = range.maxDepth - range.minDepth;
+    for (let i = 0; i < normalized.length; i++) {
+      const value = output[i];
+      let depth: number;
+      if (kind === 'metric-depth') {
+        depth = value * (outputScale ?? 1);
+      } else {
+        depth = value > 0 ? outputScale! / value : range.maxDepth;
+      }
+      normalized[i] = Math.min(1, Math.max(0, (depth - range.minDepth) / span));
+    }
+    return normalized;
+  }
+
+  // Find min/max for normalization
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (let i = 0; i < output.length; i++) {
+    const val = output[i];
+    if (val < min) {min = val;}
+    if (val > max) {max = val;}
+  }
+
+  // Normalize to [0, 1]
+  const valueRange = max - min;
+
+  if (valueRange > 0) {
+    for (let i = 0; i < output.length; i++) {
+      // Invert depth (closer = higher value in output, but we want closer = lower value)
+      normalized[i] = 1.0 - ((output[i] - min) / valueRange);
+    }
+  } else {
+    // Uniform depth if no variation
+    normalized.fill(0.5);
+  }
+
+  return normalized;
+}
+
+/**
+ * Extract a rectangle of a depth map (e.g. to drop letterbox padding)
+ */
+export function cropDepth(
+  depthData: Float32Array,
+  width: number,
+  rect: PixelRect
+): Float32Array {
+  const cropped = new Float32Array(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = (rect.y + y) * width + rect.x;
+    cropped.set(depthData.subarray(start, start + rect.width), y * rect.width);
+  }
+  return cropped;
+}
+
 /**
  * WebGPU-accelerated preprocessing (optional, for high performance)
+ * Samples the frame texture at any size, so resize, letterbox and crop
+ * happen in the same pass as normalization and layout conversion.
  */
 export class GPUImagePreprocessor {
   private device: GPUDevice | null = null;
@@ -226,38 +315,63 @@ export class GPUImagePreprocessor {
 
     // Create compute pipeline for preprocessing
     const shaderCode = `
+      struct Params {
+        mean: vec4<f32>,   // rgb, pixel scale
+        std: vec4<f32>,    // rgb, unused
+        pad: vec4<f32>,    // letterbox color (0-255), unused
+        rect: vec4<f32>,   // frame placement in input pixels: x, y, width, height
+        size: vec4<u32>,   // input width, height, layout (0 NCHW, 1 NHWC), color order (0 RGB, 1 BGR)
+      }
+
       @group(0) @binding(0) var inputTexture: texture_2d<f32>;
       @group(0) @binding(1) var<storage, read_write> outputBuffer: array<f32>;
-      @group(0) @binding(2) var<uniform> params: vec4<f32>; // mean.rgb, std.r
-      @group(0) @binding(3) var<uniform> params2: vec4<f32>; // std.gb, unused
+      @group(0) @binding(2) var<uniform> params: Params;
+
+      fn loadClamped(coord: vec2<i32>, dims: vec2<i32>) -> vec3<f32> {
+        return textureLoad(inputTexture, clamp(coord, vec2<i32>(0), dims - 1), 0).rgb;
+      }
 
       @compute @workgroup_size(8, 8)
       fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
-        let dims = textureDimensions(inputTexture);
-        if (global_id.x >= dims.x || global_id.y >= dims.y) {
+        let width = params.size.x;
+        let height = params.size.y;
+        if (global_id.x >= width || global_id.y >= height) {
           return;
         }
 
-        let pixel = textureLoad(inputTexture, vec2<u32>(global_id.xy), 0);
-        let idx = global_id.y * dims.x + global_id.x;
-
-        // Normalize: (pixel - mean) / std
-        let meanR = params.x;
-        let meanG = params.y;
-        let meanB = params.z;
-        let stdR = params.w;
-        let stdG = params2.x;
-        let stdB = params2.y;
-
-        let r = (pixel.r - meanR) / stdR;
-        let g = (pixel.g - meanG) / stdG;
-        let b = (pixel.b - meanB) / stdB;
-
-        // Store in CHW format
-        let pixelCount = dims.x * dims.y;
-        outputBuffer[idx] = r;
-        outputBuffer[pixelCount + idx] = g;
-        outputBuffer[2u * pixelCount + idx] = b;
+        // Input pixel center to frame coordinates
+        let dims = vec2<i32>(textureDimensions(inputTexture));
+        let center = vec2<f32>(global_id.xy) + 0.5;
+        let uv = (center - params.rect.xy) / params.rect.zw;
+
+        var rgb = params.pad.rgb;
+        if (all(uv >= vec2<f32>(0.0)) && all(uv < vec2<f32>(1.0))) {
+          // Bilinear sample (pixel values 0-255)
+          let pos = uv * vec2<f32>(dims) - 0.5;
+          let base = vec2<i32>(floor(pos));
+          let f = pos - floor(pos);
+          let top = mix(loadClamped(base, dims), loadClamped(base + vec2<i32>(1, 0), dims), f.x);
+          let bottom = mix(loadClamped(base + vec2<i32>(0, 1), dims), loadClamped(base + vec2<i32>(1, 1), dims), f.x);
+          rgb = mix(top, bottom, f.y) * 255.0;
+        }
+
+        // Normalize: (pixel × scale - mean) / std
+        var value = (rgb * params.mean.w - params.mean.rgb) / params.std.rgb;
+        if (params.size.w == 1u) {
+          value = value.bgr;
+        }
+
+        let idx = global_id.y * width + global_id.x;
+        let pixelCount = width * height;
+        if (params.size.z == 1u) {
+          outputBuffer[idx * 3u] = value.x;
+          outputBuffer[idx * 3u + 1u] = value.y;
+          outputBuffer[idx * 3u + 2u] = value.z;
+        } else {
+          outputBuffer[idx] = value.x;
+          outputBuffer[pixelCount + idx] = value.y;
+          outputBuffer[2u * pixelCount + idx] = value.z;
+        }
       }
     `;
 
@@ -274,6 +388,7 @@ export class GPUImagePreprocessor {
 
   /**
    * Preprocess using GPU (much faster)
+   * The texture holds the full frame; it is fitted to the model input per the spec.
    */
   async preprocessGPU(
     texture: GPUTexture,
@@ -283,8 +398,10 @@ export class GPUImagePreprocessor {
       throw new Error('GPU preprocessor not initialized');
     }
 
-    const [width, height] = modelInfo.inputSize;
+    const spec = resolveModelSpec(modelInfo);
+    const [width, height] = spec.inputSize;
     const outputSize = 3 * width * height * 4; // Float32 = 4 bytes
+    const rect = computeContentRect(texture.width, texture.height, spec);
 
     // Create output buffer
     const outputBuffer = this.device.createBuffer({
@@ -292,29 +409,26 @@ export class GPUImagePreprocessor {
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
     });
 
-    // Create uniform buffers for parameters
-    const params1 = new Float32Array([
-      ...modelInfo.mean,
-      modelInfo.std[0],
+    // Create uniform buffer for parameters (layout matches Params)
+    const params = new ArrayBuffer(80);
+    new Float32Array(params, 0, 16).set([
+      ...spec.mean, spec.pixelScale,
+      ...spec.std, 0,
+      ...spec.padColor, 0,
+      rect.x, rect.y, rect.width, rect.height,
     ]);
-    const params2 = new Float32Array([
-      modelInfo.std[1],
-      modelInfo.std[2],
-      0,
-      0,
+    new Uint32Array(params, 64, 4).set([
+      width,
+      height,
+      spec.layout === 'NHWC' ? 1 : 0,
+      spec.colorOrder === 'BGR' ? 1 : 0,
     ]);
 
-    const paramsBuffer1 = this.device.createBuffer({
-      size: params1.byteLength,
-      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-    });
-    this.device.queue.writeBuffer(paramsBuffer1, 0, params1);
-
-    const paramsBuffer2 = this.device.createBuffer({
-      size: params2.byteLength,
+    const paramsBuffer = this.device.createBuffer({
+      size: params.byteLength,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
-    this.device.queue.writeBuffer(paramsBuffer2, 0, params2);
+    this.device.queue.writeBuffer(paramsBuffer, 0, params);
 
     // Create bind group
     const bindGroup = this.device.createBindGroup({
@@ -322,8 +436,7 @@ export class GPUImagePreprocessor {
       entries: [
         { binding: 0, resource: texture.createView() },
         { binding: 1, resource: { buffer: outputBuffer } },
-        { binding: 2, resource: { buffer: paramsBuffer1 } },
-        { binding: 3, resource: { buffer: paramsBuffer2 } },
+        { binding: 2, resource: { buffer: paramsBuffer } },
       ],
     });
 
@@ -364,8 +477,7 @@ export class GPUImagePreprocessor {
     // Cleanup
     outputBuffer.destroy();
     readBuffer.destroy();
-    paramsBuffer1.destroy();
-    paramsBuffer2.destroy();
+    paramsBuffer.destroy();
 
     return copy;
   }
@@ -1,14 +1,18 @@
 /**
  * ArUco Marker Decoder
- * Decodes ArUco marker IDs from extracted marker images
+ * Decodes marker IDs from extracted marker images
  *
- * Supports complete ArUco dictionaries:
- * - 4x4: 50 markers
- * - 5x5: 100 markers
- * - 6x6: 250 markers
+ * Supports any square fiducial dictionary (see marker-dictionary.ts):
+ * - ArUco 4x4_50, 5x5_100, 6x6_250
+ * - AprilTag 16h5, 25h9, 36h11
+ * - Custom dictionaries
  */
 
-import { getArucoDictionary, getDictionarySize, validateMarkerPattern } from './aruco-dictionaries';
+import {
+  resolveMarkerDictionary,
+  type MarkerDictionary,
+  type MarkerFamily,
+} from './marker-dictionary';
 
 export type DictionarySize = 4 | 5 | 6;
 
@@ -26,10 +30,15 @@ export interface DecodedMarker {
 export class ArucoDecoder {
   private dictionary: Map<number, number[]>;
   private dictionarySize: number;
+  private markerDictionary: MarkerDictionary;
 
-  constructor(dictionarySize: DictionarySize = 4) {
-    this.dictionarySize = dictionarySize;
-    this.dictionary = this.loadDictionary(dictionarySize);
+  /**
+   * @param dictionary - ArUco size (4, 5, 6), family name, or custom dictionary
+   */
+  constructor(dictionary: DictionarySize | MarkerFamily | MarkerDictionary = 4) {
+    this.markerDictionary = resolveMarkerDictionary(dictionary);
+    this.dictionarySize = this.markerDictionary.markerSize;
+    this.dictionary = this.loadDictionary(this.markerDictionary);
   }
 
   /**
@@ -91,11 +100,8 @@ export class ArucoDecoder {
       }
     }
 
-    // Accept match if hamming distance is small enough
-    // For 4x4 markers (16 bits), allow up to 2 bit errors
-    const maxErrors = Math.floor(markerBits.size * markerBits.size * 0.125);
-
-    if (bestMatch && bestMatch.hamming <= maxErrors) {
+    // Accept match if hamming distance is within the family's correction limit
+    if (bestMatch && bestMatch.hamming <= this.markerDictionary.maxCorrectionBits) {
       return bestMatch;
     }
 
@@ -148,22 +154,25 @@ export class ArucoDecoder {
   }
 
   /**
-   * Load ArUco dictionary from complete dictionaries module
+   * Index dictionary patterns by marker ID
    */
-  private loadDictionary(size: DictionarySize): Map<number, number[]> {
+  private loadDictionary(dictionary: MarkerDictionary): Map<number, number[]> {
     const dict = new Map<number, number[]>();
-    const patterns = getArucoDictionary(size);
 
-    patterns.forEach((pattern, id) => {
-      // Validate pattern before adding
-      if (validateMarkerPattern(pattern, size)) {
-        dict.set(id, pattern);
-      }
+    dictionary.patterns.forEach((pattern, id) => {
+      dict.set(id, pattern);
     });
 
     return dict;
   }
 
+  /**
+   * Get the dictionary used for decoding
+   */
+  getDictionary(): MarkerDictionary {
+    return this.markerDictionary;
+  }
+
   /**
    * Get number of markers in current dictionary
    */
@@ -138,6 +138,18 @@ export class FeatureDetector {
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
     });
 
+    this.orientedKeypointsBuffer = device.createBuffer({
+      label: 'Oriented Keypoints',
+      size: this.config.maxKeypoints * 16, // x, y, angle, response
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+
+    this.orientationParamsBuffer = device.createBuffer({
+      label: 'Orientation Params',
+      size: 16,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+
     this.orbParamsBuffer = device.createBuffer({
       label: 'ORB Params',
       size: 16,
@@ -355,47 +367,61 @@ export class FeatureDetector {
     }
 
     const device = this.gpuContext.device;
+    const count = Math.min(keypoints.length, this.config.maxKeypoints);
 
-    // Upload keypoints to GPU
-    const keypointsData = new Float32Array(keypoints.length * 4);
-    for (let i = 0; i < keypoints.length; i++) {
+    // Upload keypoints (x, y, response, octave) for the orientation pass
+    const keypointsData = new Float32Array(count * 4);
+    for (let i = 0; i < count; i++) {
       keypointsData[i * 4 + 0] = keypoints[i].x;
       keypointsData[i * 4 + 1] = keypoints[i].y;
-      keypointsData[i * 4 + 2] = keypoints[i].angle;
-      keypointsData[i * 4 + 3] = keypoints[i].response;
+      keypointsData[i * 4 + 2] = keypoints[i].response;
+      keypointsData[i * 4 + 3] = keypoints[i].octave;
     }
     device.queue.writeBuffer(this.keypointsBuffer!, 0, keypointsData.buffer);
 
     // Update parameters
-    this.updateORBParams();
+    device.queue.writeBuffer(this.orientationParamsBuffer!, 0, new Uint32Array([count, 15, 0, 0]));
+    device.queue.writeBuffer(this.orbParamsBuffer!, 0, new Uint32Array([count, 31, 0, 0]));
 
-    // Create bind group for ORB
-    const orbBindGroup = this.orbPipeline.createBindGroup([
+    // Orientation (intensity centroid), then steered BRIEF on the oriented keypoints
+    const orientationBindGroup = this.orientationPipeline!.createBindGroup([
       { binding: 0, resource: grayscaleTexture.createView() },
       { binding: 1, resource: { buffer: this.keypointsBuffer! } },
+      { binding: 2, resource: { buffer: this.orientedKeypointsBuffer! } },
+      { binding: 3, resource: { buffer: this.orientationParamsBuffer! } },
+    ]);
+
+    const orbBindGroup = this.orbPipeline.createBindGroup([
+      { binding: 0, resource: grayscaleTexture.createView() },
+      { binding: 1, resource: { buffer: this.orientedKeypointsBuffer! } },
       { binding: 2, resource: { buffer: this.descriptorsBuffer! } },
       { binding: 3, resource: { buffer: this.patternBuffer! } },
       { binding: 4, resource: { buffer: this.orbParamsBuffer! } },
     ]);
 
-    // Dispatch ORB computation
-    const workgroups = Math.ceil(keypoints.length / 64);
-    this.orbPipeline.executeAndSubmit(orbBindGroup, { x: workgroups, y: 1, z: 1 });
+    const workgroups = Math.ceil(count / 64);
+    const encoder = device.createCommandEncoder();
+
+    const orientationPass = encoder.beginComputePass();
+    orientationPass.setPipeline(this.orientationPipeline!.getPipeline());
+    orientationPass.setBindGroup(0, orientationBindGroup);
+    orientationPass.dispatchWorkgroups(workgroups);
+    orientationPass.end();
 
-    // Read back descriptors
+    const orbPass = encoder.beginComputePass();
+    orbPass.setPipeline(this.orbPipeline.getPipeline());
+    orbPass.setBindGroup(0, orbBindGroup);
+    orbPass.dispatchWorkgroups(workgroups);
+    orbPass.end();
+
+    // Read back descriptors and orientations
     const descriptorsReadback = device.createBuffer({
-      size: keypoints.length * 32, // 8 u32s per descriptor
+      size: count * 32, // 8 u32s per descriptor
       usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
     });
 
-    const encoder = device.createCommandEncoder();
-    encoder.copyBufferToBuffer(
-      this.descriptorsBuffer!,
-      0,
-      descriptorsReadback,
-      0,
-      keypoints.length * 32
-    );
+    encoder.copyBufferToBuffer(this.descriptorsBuffer!, 0, descriptorsReadback, 0, count * 32);
+    encoder.copyBufferToBuffer(this.orientedKeypointsBuffer!, 0, this.keypointsReadbackBuffer!, 0, count * 16);
     device.queue.submit([encoder.finish()]);
 
     await descriptorsReadback.mapAsync(GPUMapMode.READ);
@@ -403,6 +429,13 @@ export class FeatureDetector {
     descriptorsReadback.unmap();
     descriptorsReadback.destroy();
 
+    await this.keypointsReadbackBuffer!.mapAsync(GPUMapMode.READ, 0, count * 16);
+    const oriented = new Float32Array(this.keypointsReadbackBuffer!.getMappedRange(0, count * 16));
+    for (let i = 0; i < count; i++) {
+      keypoints[i].angle = oriented[i * 4 + 2];
+    }
+    this.keypointsReadbackBuffer!.unmap();
+
     this.currentDescriptors = descriptors;
     return descriptors;
   }
@@ -551,6 +584,8 @@ export class FeatureDetector {
     this.fastParamsBuffer?.destroy();
     this.keypointsBuffer?.destroy();
     this.descriptorsBuffer?.destroy();
+    this.orientedKeypointsBuffer?.destroy();
+    this.orientationParamsBuffer?.destroy();
     this.orbParamsBuffer?.destroy();
     this.matchingParamsBuffer?.destroy();
     this.matchesBuffer?.destroy();
@@ -0,0 +1,288 @@
+/**
+ * Marker Boards
+ * Rigid layouts of ArUco markers with known 3D corners
+ *
+ * - Grid board: rows × columns markers separated by a fixed gap
+ * - ChArUco board: chessboard with markers in the white squares; the
+ *   chessboard corners are interpolated from nearby detected markers
+ * - Custom board: arbitrary marker IDs with user-provided 3D corners
+ *
+ * Board frame: origin at the board center, x right, y up, z out of the
+ * board (same convention as single-marker poses).
+ */
+
+import { Vector3 } from '../math/vector';
+import { Homography } from '../math/homography';
+import type { Point } from './contour-processor';
+import type { DetectedMarker } from './marker-detector';
+
+/**
+ * Marker placed on a board
+ * Corners in board coordinates (meters): TL, TR, BR, BL
+ */
+export interface BoardMarker {
+  id: number;
+  corners: [Vector3, Vector3, Vector3, Vector3];
+}
+
+export interface GridBoard {
+  type: 'grid';
+  markers: BoardMarker[];
+  columns: number;
+  rows: number;
+  markerLength: number;
+  markerSeparation: number;
+}
+
+export interface CharucoBoard {
+  type: 'charuco';
+  markers: BoardMarker[];
+  squaresX: number;
+  squaresY: number;
+  squareLength: number;
+  markerLength: number;
+
+  // Inner chessboard corners, row-major from the top left (index = corner ID)
+  chessboardCorners: Vector3[];
+}
+
+export interface CustomBoard {
+  type: 'custom';
+  markers: BoardMarker[];
+}
+
+export type MarkerBoard = GridBoard | CharucoBoard | CustomBoard;
+
+export interface GridBoardConfig {
+  columns: number;
+  rows: number;
+  markerLength: number; // Marker side length in meters
+  markerSeparation: number; // Gap between markers in meters
+  firstMarkerId?: number; // ID of the top-left marker, row-major (default: 0)
+  ids?: number[]; // Explicit marker IDs, row-major (overrides firstMarkerId)
+}
+
+export interface CharucoBoardConfig {
+  squaresX: number; // Chessboard squares per row
+  squaresY: number; // Chessboard squares per column
+  squareLength: number; // Square side length in meters
+  markerLength: number; // Marker side length in meters (< squareLength)
+  firstMarkerId?: number; // ID of the first marker, row-major (default: 0)
+  ids?: number[]; // Explicit marker IDs, row-major (overrides firstMarkerId)
+}
+
+/**
+ * Chessboard corner located in the image
+ */
+export interface CharucoCorner {
+  id: number;
+  position: [number, number]; // Pixel coordinates
+}
+
+/**
+ * Create a grid board of rows × columns markers
+ */
+export function createGridBoard(config: GridBoardConfig): GridBoard {
+  const { columns, rows, markerLength, markerSeparation } = config;
+  if (columns < 1 || rows < 1 || markerLength <= 0 || markerSeparation < 0) {
+    throw new Error('Invalid grid board dimensions');
+  }
+
+  const ids = resolveIds(columns * rows, config.firstMarkerId, config.ids);
+  const pitch = markerLength + markerSeparation;
+  const width = columns * markerLength + (columns - 1) * markerSeparation;
+  const height = rows * markerLength + (rows - 1) * markerSeparation;
+
+  const markers: BoardMarker[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      markers.push({
+        id: ids[markers.length],
+        corners: squareCorners(-width / 2 + col * pitch, height / 2 - row * pitch, markerLength),
+      });
+    }
+  }
+
+  return { type: 'grid', markers, columns, rows, markerLength, markerSeparation };
+}
+
+/**
+ * Create a ChArUco board
+ * The top-left square is black; markers fill the white squares row-major.
+ */
+export function createCharucoBoard(config: CharucoBoardConfig): CharucoBoard {
+  const { squaresX, squaresY, squareLength, markerLength } = config;
+  if (squaresX < 2 || squaresY < 2 || squareLength <= 0 || markerLength <= 0 || markerLength >= squareLength) {
+    throw new Error('Invalid ChArUco board dimensions');
+  }
+
+  const ids = resolveIds(Math.floor(squaresX * squaresY / 2), config.firstMarkerId, config.ids);
+  const width = squaresX * squareLength;
+  const height = squaresY * squareLength;
+  const inset = (squareLength - markerLength) / 2;
+
+  const markers: BoardMarker[] = [];
+  for (let row = 0; row < squaresY; row++) {
+    for (let col = 0; col < squaresX; col++) {
+      if ((row + col) % 2 === 0) {continue;}
+      markers.push({
+        id: ids[markers.length],
+        corners: squareCorners(
+          -width / 2 + col * squareLength + inset,
+          height / 2 - row * squareLength - inset,
+          markerLength
+        ),
+      });
+    }
+  }
+
+  const chessboardCorners: Vector3[] = [];
+  for (let row = 1; row < squaresY; row++) {
+    for (let col = 1; col < squaresX; col++) {
+      chessboardCorners.push(new Vector3(-width / 2 + col * squareLength, height / 2 - row * squareLength, 0));
+    }
+  }
+
+  return { type: 'charuco', markers, squaresX, squaresY, squareLength, markerLength, chessboardCorners };
+}
+
+/**
+ * Create a board from an arbitrary marker layout
+ */
+export function createCustomBoard(markers: Array<{ id: number; corners: Vector3[] }>): CustomBoard {
+  const seen = new Set<number>();
+
+  for (const marker of markers) {
+    if (marker.corners.length !== 4) {
+      throw new Error(`Board marker ${marker.id} must have 4 corners`);
+    }
+    if (seen.has(marker.id)) {
+      throw new Error(`Duplicate board marker ID ${marker.id}`);
+    }
+    seen.add(marker.id);
+  }
+
+  return {
+    type: 'custom',
+    markers: markers.map(m => ({
+      id: m.id,
+      corners: [m.corners[0].clone(), m.corners[1].clone(), m.corners[2].clone(), m.corners[3].clone()],
+    })),
+  };
+}
+
+/**
+ * Detected markers that belong to the board, paired with their layout
+ * Markers detected more than once keep the most confident detection.
+ */
+export function matchBoardMarkers(
+  board: MarkerBoard,
+  detected: DetectedMarker[]
+): Array<{ layout: BoardMarker; detection: DetectedMarker }> {
+  const best = new Map<number, DetectedMarker>();
+  for (const marker of detected) {
+    const current = best.get(marker.id);
+    if (!current || marker.confidence > current.confidence) {
+      best.set(marker.id, marker);
+    }
+  }
+
+  const matches: Array<{ layout: BoardMarker; detection: DetectedMarker }> = [];
+  for (const layout of board.markers) {
+    const detection = best.get(layout.id);
+    if (detection) {
+      matches.push({ layout, detection });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Locate ChArUco chessboard corners in the image
+ * Each corner is mapped through a homography fitted to the detected markers
+ * in the (up to two) white squares touching it.
+ *
+ * @param minAdjacentMarkers - Detected neighbours required per corner (1 or 2)
+ */
+export function interpolateCharucoCorners(
+  board: CharucoBoard,
+  detected: DetectedMarker[],
+  minAdjacentMarkers: number = 1
+): CharucoCorner[] {
+  const matches = new Map(matchBoardMarkers(board, detected).map(m => [m.layout.id, m]));
+
+  // Marker ID of each white square, indexed by row * squaresX + col
+  const squareMarkers = new Map<number, number>();
+  let index = 0;
+  for (let row = 0; row < board.squaresY; row++) {
+    for (let col = 0; col < board.squaresX; col++) {
+      if ((row + col) % 2 === 1) {
+        squareMarkers.set(row * board.squaresX + col, board.markers[index++].id);
+      }
+    }
+  }
+
+  const corners: CharucoCorner[] = [];
+  const innerColumns = board.squaresX - 1;
+
+  board.chessboardCorners.forEach((corner, id) => {
+    const row = Math.floor(id / innerColumns) + 1;
+    const col = (id % innerColumns) + 1;
+
+    const source: Point[] = [];
+    const target: Point[] = [];
+    let adjacent = 0;
+
+    for (const [r, c] of [[row - 1, col - 1], [row - 1, col], [row, col - 1], [row, col]]) {
+      const markerId = squareMarkers.get(r * board.squaresX + c);
+      const match = markerId !== undefined ? matches.get(markerId) : undefined;
+      if (!match) {continue;}
+
+      adjacent++;
+      const { topLeft, topRight, bottomRight, bottomLeft } = match.detection.corners;
+      match.layout.corners.forEach(p => source.push({ x: p.x, y: p.y }));
+      [topLeft, topRight, bottomRight, bottomLeft].forEach(([x, y]) => target.push({ x, y }));
+    }
+
+    if (adjacent < minAdjacentMarkers) {return;}
+
+    const H = Homography.fit(source, target);
+    if (!H) {return;}
+
+    const { x, y } = Homography.apply(H, corner);
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      corners.push({ id, position: [x, y] });
+    }
+  });
+
+  return corners;
+}
+
+// ==================== Private Methods ====================
+
+function resolveIds(count: number, firstMarkerId = 0, ids?: number[]): number[] {
+  if (ids) {
+    if (ids.length !== count) {
+      throw new Error(`Board needs ${count} marker IDs, got ${ids.length}`);
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new Error('Board marker IDs must be unique');
+    }
+    return [...ids];
+  }
+
+  return Array.from({ length: count }, (_, i) => firstMarkerId + i);
+}
+
+/**
+ * Corners (TL, TR, BR, BL) of an axis-aligned square given its top-left corner
+ */
+function squareCorners(left: number, top: number, size: number): [Vector3, Vector3, Vector3, Vector3] {
+  return [
+    new Vector3(left, top, 0),
+    new Vector3(left + size, top, 0),
+    new Vector3(left + size, top - size, 0),
+    new Vector3(left, top - size, 0),
+  ];
+}
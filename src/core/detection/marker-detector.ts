@@ -9,6 +9,12 @@ import { Matrix4 } from '../math/matrix';
 import { Vector3 } from '../math/vector';
 import { ContourProcessor, type Quad } from './contour-processor';
 import { ArucoDecoder } from './aruco-decoder';
+import {
+  resolveMarkerDictionary,
+  patternToCode,
+  type MarkerDictionary,
+  type MarkerFamily,
+} from './marker-dictionary';
 import { Homography } from '../math/homography';
 
 export interface MarkerCorners {
@@ -27,6 +33,7 @@ export interface DetectedMarker {
 export interface MarkerDetectorConfig {
   markerSize?: number;       // Physical marker size in meters
   dictionarySize?: 4 | 5 | 6; // ArUco dictionary (4x4, 5x5, 6x6)
+  dictionary?: MarkerFamily | MarkerDictionary; // Marker family (overrides dictionarySize)
   minMarkerPerimeter?: number;
   maxMarkerPerimeter?: number;
   adaptiveThresholdBlockSize?: number;
@@ -36,6 +43,7 @@ export interface MarkerDetectorConfig {
 export class MarkerDetector {
   private gpuContext: GPUContextManager;
   private config: Required<MarkerDetectorConfig>;
+  private dictionary: MarkerDictionary;
 
   // GPU pipelines
   private blurPipeline: ComputePipeline | null = null;
@@ -78,11 +86,13 @@ export class MarkerDetector {
     this.config = {
       markerSize: config.markerSize ?? 0.1, // 10cm default
       dictionarySize: config.dictionarySize ?? 4,
+      dictionary: config.dictionary ?? resolveMarkerDictionary(config.dictionarySize ?? 4),
       minMarkerPerimeter: config.minMarkerPerimeter ?? 80,
       maxMarkerPerimeter: config.maxMarkerPerimeter ?? 2000,
       adaptiveThresholdBlockSize: config.adaptiveThresholdBlockSize ?? 15,
       adaptiveThresholdConstant: config.adaptiveThresholdConstant ?? 7,
     };
+    this.dictionary = resolveMarkerDictionary(this.config.dictionary);
   }
 
   /**
@@ -246,7 +256,7 @@ export class MarkerDetector {
     // Decode parameters buffer
     this.decodeParamsBuffer = device.createBuffer({
       label: 'Decode Params',
-      size: 16,
+      size: 32,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
 
@@ -423,8 +433,24 @@ export class MarkerDetector {
       return [];
     }
 
-    // Step 3: Batch process all quads on GPU
-    return await this.batchDecodeMarkersGPU(quads, grayscaleTexture);
+    // Step 3: Batch process all quads on GPU (decode shader reads up to 4x4 bits)
+    if (this.dictionary.markerSize <= 4) {
+      return await this.batchDecodeMarkersGPU(quads, grayscaleTexture);
+    }
+
+    // Larger families: decode each quad on the CPU
+    const markers: DetectedMarker[] = [];
+    for (const quad of quads) {
+      const decoded = await this.decodeMarker(quad, grayscaleTexture);
+      if (decoded) {
+        markers.push({
+          id: decoded.id,
+          corners: this.quadToMarkerCorners(quad, decoded.rotation),
+          confidence: 1 - decoded.hamming / (this.dictionary.markerSize * this.dictionary.markerSize),
+        });
+      }
+    }
+    return markers;
   }
 
   /**
@@ -506,7 +532,7 @@ export class MarkerDetector {
     const warpedData = new Uint8Array(warpReadbackBuffer.getMappedRange());
 
     // Verify border
-    if (!ArucoDecoder.verifyBorder(warpedData, warpSize, this.config.dictionarySize)) {
+    if (!ArucoDecoder.verifyBorder(warpedData, warpSize, this.dictionary.markerSize)) {
       warpReadbackBuffer.unmap();
       warpedTexture.destroy();
       homographyBuffer.destroy();
@@ -515,8 +541,8 @@ export class MarkerDetector {
     }
 
     // Extract and decode bits
-    const decoder = new ArucoDecoder(this.config.dictionarySize);
-    const bits = decoder.extractBits(warpedData, warpSize, this.config.dictionarySize);
+    const decoder = new ArucoDecoder(this.dictionary);
+    const bits = decoder.extractBits(warpedData, warpSize, this.dictionary.markerSize);
     const decoded = decoder.decode(bits);
 
     // Cleanup
@@ -593,11 +619,12 @@ export class MarkerDetector {
     });
 
     // Update decode params with marker size and dictionary info
-    const decodeParams = new Uint32Array(4);
+    const decodeParams = new Uint32Array(8);
     decodeParams[0] = 0; // markerIndex (will update per marker)
-    decodeParams[1] = this.config.dictionarySize; // markerSize
+    decodeParams[1] = this.dictionary.markerSize; // markerSize
     decodeParams[2] = this.getArucoPatterns().length; // dictionarySize
     decodeParams[3] = 1; // borderBits
+    decodeParams[4] = this.dictionary.maxCorrectionBits; // maxCorrectionBits
     device.queue.writeBuffer(this.decodeParamsBuffer!, 0, decodeParams);
 
     // Batch decode all markers
@@ -689,8 +716,7 @@ export class MarkerDetector {
    * Create ArUco dictionary buffer for GPU
    */
   private createDictionaryBuffer(device: GPUDevice): GPUBuffer {
-    // ArUco 4x4_50 dictionary (50 markers, 16 bits each)
-    // In production, load full dictionary based on config.dictionarySize
+    // One u32 code per marker (families up to 4x4 fit in 16 bits)
     const dictionary = this.getArucoPatterns();
 
     const buffer = device.createBuffer({
@@ -704,25 +730,10 @@ export class MarkerDetector {
   }
 
   /**
-   * Get ArUco dictionary patterns as bit codes
+   * Get dictionary patterns as bit codes (row-major, MSB first)
    */
   private getArucoPatterns(): number[] {
-    // ArUco 4x4_50 dictionary (first 10 markers as example)
-    // Each pattern is a 16-bit code representing the marker bits
-    // Full dictionary would have 50 patterns for 4x4_50
-    return [
-      0b0001011001100100, // Marker 0
-      0b0001001101110110, // Marker 1
-      0b0011010001100100, // Marker 2
-      0b0011100011010010, // Marker 3
-      0b0010011011100010, // Marker 4
-      0b0010101001110100, // Marker 5
-      0b0100110001010110, // Marker 6
-      0b0100010011100110, // Marker 7
-      0b0110001011010100, // Marker 8
-      0b0110111001000010, // Marker 9
-      // Add remaining 40 markers in production...
-    ];
+    return this.dictionary.patterns.map(patternToCode);
   }
 
   /**
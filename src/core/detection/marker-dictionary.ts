@@ -0,0 +1,136 @@
+/**
+ * Marker Dictionaries
+ * Common description of square fiducial families (ArUco, AprilTag)
+ *
+ * A dictionary lists the inner bit pattern of every marker ID (row-major,
+ * 1 = white) inside a one-cell black border, and how many bit errors the
+ * decoder may correct. Families differ only in their codes and limits.
+ */
+
+import { ARUCO_4X4_50, ARUCO_5X5_100, ARUCO_6X6_250 } from './aruco-dictionaries';
+import { APRILTAG_16H5, APRILTAG_25H9, APRILTAG_36H11 } from './apriltag-dictionaries';
+
+export type MarkerFamily =
+  | 'ARUCO_4X4_50'
+  | 'ARUCO_5X5_100'
+  | 'ARUCO_6X6_250'
+  | 'APRILTAG_16H5'
+  | 'APRILTAG_25H9'
+  | 'APRILTAG_36H11';
+
+export interface MarkerDictionary {
+  name: string;
+  markerSize: number; // Data bits per side (border excluded)
+  patterns: number[][]; // Bit patterns indexed by marker ID
+  minHammingDistance: number; // Minimum distance between codes, over all rotations
+  maxCorrectionBits: number; // Bit errors corrected when decoding
+}
+
+export interface MarkerDictionaryConfig {
+  name: string;
+  markerSize: number;
+
+  // Bit patterns, or integer codes (row-major, MSB first)
+  codes: Array<number[] | number>;
+
+  minHammingDistance: number;
+
+  // Bit errors to correct (default: ⌊(minHammingDistance - 1) / 2⌋)
+  maxCorrectionBits?: number;
+}
+
+/**
+ * Build a dictionary from a code table
+ */
+export function createMarkerDictionary(config: MarkerDictionaryConfig): MarkerDictionary {
+  const { name, markerSize, minHammingDistance } = config;
+  if (!Number.isInteger(markerSize) || markerSize < 3 || markerSize > 7) {
+    throw new Error(`Marker size must be 3-7 bits per side, got ${markerSize}`);
+  }
+
+  const patterns = config.codes.map((code, id) => {
+    const pattern = typeof code === 'number' ? codeToPattern(code, markerSize) : [...code];
+    if (pattern.length !== markerSize * markerSize || pattern.some(bit => bit !== 0 && bit !== 1)) {
+      throw new Error(`Invalid pattern for marker ${id} in dictionary ${name}`);
+    }
+    return pattern;
+  });
+
+  return {
+    name,
+    markerSize,
+    patterns,
+    minHammingDistance,
+    maxCorrectionBits: config.maxCorrectionBits ?? Math.floor((minHammingDistance - 1) / 2),
+  };
+}
+
+/**
+ * Built-in dictionary for a marker family
+ */
+export function getMarkerDictionary(family: MarkerFamily): MarkerDictionary {
+  let dictionary = cache.get(family);
+  if (!dictionary) {
+    dictionary = createMarkerDictionary(FAMILIES[family]);
+    cache.set(family, dictionary);
+  }
+  return dictionary;
+}
+
+/**
+ * Resolve a dictionary from an ArUco size, family name or dictionary
+ */
+export function resolveMarkerDictionary(dictionary: 4 | 5 | 6 | MarkerFamily | MarkerDictionary): MarkerDictionary {
+  if (typeof dictionary === 'number') {
+    return getMarkerDictionary(ARUCO_BY_SIZE[dictionary] ?? 'ARUCO_4X4_50');
+  }
+  if (typeof dictionary === 'string') {
+    return getMarkerDictionary(dictionary);
+  }
+  return dictionary;
+}
+
+/**
+ * Unpack an integer code into a row-major bit pattern
+ */
+export function codeToPattern(code: number, markerSize: number): number[] {
+  const bits = markerSize * markerSize;
+  const pattern: number[] = [];
+
+  // Math.pow rather than bit shifts: 36-bit codes exceed 32-bit integers
+  for (let i = bits - 1; i >= 0; i--) {
+    pattern.push(Math.floor(code / Math.pow(2, i)) % 2);
+  }
+
+  return pattern;
+}
+
+/**
+ * Pack a row-major bit pattern into an integer code
+ */
+export function patternToCode(pattern: number[]): number {
+  return pattern.reduce((code, bit) => code * 2 + bit, 0);
+}
+
+// ==================== Private Methods ====================
+
+const ARUCO_BY_SIZE: Record<number, MarkerFamily> = {
+  4: 'ARUCO_4X4_50',
+  5: 'ARUCO_5X5_100',
+  6: 'ARUCO_6X6_250',
+};
+
+/**
+ * ArUco keeps the decoder's historical limit of 1/8 of the bits; AprilTag
+ * corrects ⌊(h - 1) / 2⌋ bits, capped at 3 to keep false positives low.
+ */
+const FAMILIES: Record<MarkerFamily, MarkerDictionaryConfig> = {
+  ARUCO_4X4_50: { name: 'ARUCO_4X4_50', markerSize: 4, codes: ARUCO_4X4_50, minHammingDistance: 4, maxCorrectionBits: 2 },
+  ARUCO_5X5_100: { name: 'ARUCO_5X5_100', markerSize: 5, codes: ARUCO_5X5_100, minHammingDistance: 5, maxCorrectionBits: 3 },
+  ARUCO_6X6_250: { name: 'ARUCO_6X6_250', markerSize: 6, codes: ARUCO_6X6_250, minHammingDistance: 6, maxCorrectionBits: 4 },
+  APRILTAG_16H5: { name: 'APRILTAG_16H5', markerSize: 4, codes: APRILTAG_16H5, minHammingDistance: 5, maxCorrectionBits: 2 },
+  APRILTAG_25H9: { name: 'APRILTAG_25H9', markerSize: 5, codes: APRILTAG_25H9, minHammingDistance: 9, maxCorrectionBits: 3 },
+  APRILTAG_36H11: { name: 'APRILTAG_36H11', markerSize: 6, codes: APRILTAG_36H11, minHammingDistance: 11, maxCorrectionBits: 3 },
+};
+
+const cache = new Map<MarkerFamily, MarkerDictionary>();
@@ -0,0 +1,148 @@
+/**
+ * Marker Dictionary Generator
+ * Builds custom dictionaries with large rotation-aware Hamming distances
+ *
+ * Greedy search in the spirit of ArUco's dictionary generation: random
+ * candidates are accepted when they differ by at least τ bits from every
+ * rotation of every accepted marker (and from their own rotations, so the
+ * orientation stays unambiguous). τ starts high and is lowered whenever too
+ * many candidates in a row are rejected.
+ */
+
+import { createMarkerDictionary, type MarkerDictionary } from './marker-dictionary';
+import { createRandom } from '../../utils/random';
+
+export interface MarkerGeneratorConfig {
+  markerSize: number; // Data bits per side (3-7)
+  count: number; // Number of markers to generate
+
+  // Fail instead of going below this distance (default: 1)
+  minHammingDistance?: number;
+
+  // Consecutive rejected candidates before lowering the target distance
+  maxAttempts?: number;
+
+  // Seed for reproducible dictionaries
+  seed?: number;
+
+  // Dictionary name (default: CUSTOM_<size>X<size>_<count>)
+  name?: string;
+}
+
+/**
+ * Generate a dictionary of `count` markers
+ * The resulting minHammingDistance is the smallest distance actually achieved.
+ */
+export function generateMarkerDictionary(config: MarkerGeneratorConfig): MarkerDictionary {
+  const { markerSize, count } = config;
+  const minHammingDistance = config.minHammingDistance ?? 1;
+  const maxAttempts = config.maxAttempts ?? 5000;
+  const random = createRandom(config.seed ?? Date.now());
+
+  if (!Number.isInteger(markerSize) || markerSize < 3 || markerSize > 7) {
+    throw new Error(`Marker size must be 3-7 bits per side, got ${markerSize}`);
+  }
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Marker count must be a positive integer, got ${count}`);
+  }
+
+  const bits = markerSize * markerSize;
+
+  // Start at 2/3 of the bits; large dictionaries settle well below
+  let tau = Math.max(minHammingDistance, Math.floor((bits * 2) / 3));
+  let achieved = Infinity;
+  let rejected = 0;
+
+  const patterns: number[][] = [];
+  const rotations: number[][] = [];
+
+  while (patterns.length < count) {
+    const candidate = Array.from({ length: bits }, () => (random() < 0.5 ? 0 : 1));
+    const candidateRotations = allRotations(candidate, markerSize);
+
+    const distance = Math.min(
+      selfDistance(candidateRotations),
+      minDistanceTo(candidate, rotations, tau)
+    );
+
+    if (distance >= tau) {
+      patterns.push(candidate);
+      rotations.push(...candidateRotations);
+      achieved = Math.min(achieved, distance);
+      rejected = 0;
+      continue;
+    }
+
+    if (++rejected >= maxAttempts) {
+      if (tau <= minHammingDistance) {
+        throw new Error(
+          `Could not generate ${count} markers of ${markerSize}x${markerSize} bits ` +
+          `with Hamming distance ${minHammingDistance} (got ${patterns.length})`
+        );
+      }
+      tau--;
+      rejected = 0;
+    }
+  }
+
+  return createMarkerDictionary({
+    name: config.name ?? `CUSTOM_${markerSize}X${markerSize}_${count}`,
+    markerSize,
+    codes: patterns,
+    minHammingDistance: achieved,
+  });
+}
+
+/**
+ * Rotate a row-major pattern 90° clockwise
+ */
+export function rotatePattern(pattern: number[], markerSize: number): number[] {
+  const rotated = new Array<number>(pattern.length);
+  for (let y = 0; y < markerSize; y++) {
+    for (let x = 0; x < markerSize; x++) {
+      rotated[x * markerSize + (markerSize - 1 - y)] = pattern[y * markerSize + x];
+    }
+  }
+  return rotated;
+}
+
+// ==================== Private Methods ====================
+
+function allRotations(pattern: number[], markerSize: number): number[][] {
+  const result = [pattern];
+  for (let r = 1; r < 4; r++) {
+    result.push(rotatePattern(result[r - 1], markerSize));
+  }
+  return result;
+}
+
+function hamming(a: number[], b: number[]): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {distance++;}
+  }
+  return distance;
+}
+
+/**
+ * Smallest distance between a pattern and its own rotations
+ */
+function selfDistance(rotations: number[][]): number {
+  return Math.min(
+    hamming(rotations[0], rotations[1]),
+    hamming(rotations[0], rotations[2]),
+    hamming(rotations[0], rotations[3])
+  );
+}
+
+/**
+ * Smallest distance to the accepted rotations (stops early below tau)
+ */
+function minDistanceTo(candidate: number[], accepted: number[][], tau: number): number {
+  let best = Infinity;
+  for (const other of accepted) {
+    best = Math.min(best, hamming(candidate, other));
+    if (best < tau) {break;}
+  }
+  return best;
+}
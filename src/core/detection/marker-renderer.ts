@@ -0,0 +1,139 @@
+/**
+ * Marker Renderer
+ * Printable marker images from any marker dictionary
+ *
+ * Layout (in cells): quiet zone (white) | border (black) | data bits | border | quiet zone.
+ * The detector expects a one-cell border; the quiet zone keeps the black
+ * border separable from whatever surface the marker is printed on.
+ */
+
+import type { MarkerDictionary } from './marker-dictionary';
+
+export interface MarkerRenderOptions {
+  // Pixels per cell for pixel buffers, SVG units per cell otherwise (default: 10)
+  cellSize?: number;
+
+  // Black border width in cells (default: 1)
+  borderBits?: number;
+
+  // White margin around the border in cells (default: 1)
+  quietZone?: number;
+
+  // SVG width/height attribute, e.g. '50mm' for print (default: pixel size)
+  size?: string;
+}
+
+/**
+ * RGBA pixel buffer (ImageData-compatible, ready for PNG encoding)
+ */
+export interface MarkerImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Render a marker as an SVG document
+ */
+export function renderMarkerSVG(
+  dictionary: MarkerDictionary,
+  id: number,
+  options: MarkerRenderOptions = {}
+): string {
+  const cells = markerCells(dictionary, id, options);
+  const cellSize = options.cellSize ?? 10;
+  const total = cells.length;
+  const pixels = total * cellSize;
+  const size = options.size ?? `${pixels}`;
+
+  // One black rect per horizontal run on a white background
+  const rects: string[] = [];
+  for (let y = 0; y < total; y++) {
+    let x = 0;
+    while (x < total) {
+      if (cells[y][x] === 1) {x++; continue;}
+      const start = x;
+      while (x < total && cells[y][x] === 0) {x++;}
+      rects.push(`<rect x="${start}" y="${y}" width="${x - start}" height="1"/>`);
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+      `viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">`,
+    `<title>${dictionary.name} #${id}</title>`,
+    `<rect width="${total}" height="${total}" fill="#ffffff"/>`,
+    `<g fill="#000000">${rects.join('')}</g>`,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Render a marker into an RGBA pixel buffer
+ */
+export function renderMarkerPixels(
+  dictionary: MarkerDictionary,
+  id: number,
+  options: MarkerRenderOptions = {}
+): MarkerImage {
+  const cells = markerCells(dictionary, id, options);
+  const cellSize = Math.max(1, Math.round(options.cellSize ?? 10));
+  const width = cells.length * cellSize;
+  const data = new Uint8ClampedArray(width * width * 4);
+
+  for (let y = 0; y < width; y++) {
+    const row = cells[Math.floor(y / cellSize)];
+    for (let x = 0; x < width; x++) {
+      const value = row[Math.floor(x / cellSize)] === 1 ? 255 : 0;
+      const idx = (y * width + x) * 4;
+      data[idx] = value;
+      data[idx + 1] = value;
+      data[idx + 2] = value;
+      data[idx + 3] = 255;
+    }
+  }
+
+  return { width, height: width, data };
+}
+
+// ==================== Private Methods ====================
+
+/**
+ * Cell grid of the full marker image (1 = white, 0 = black)
+ */
+function markerCells(dictionary: MarkerDictionary, id: number, options: MarkerRenderOptions): number[][] {
+  const pattern = dictionary.patterns[id];
+  if (!pattern) {
+    throw new Error(`Marker ${id} is not in dictionary ${dictionary.name}`);
+  }
+
+  const borderBits = options.borderBits ?? 1;
+  const quietZone = options.quietZone ?? 1;
+  if (borderBits < 1 || quietZone < 0) {
+    throw new Error('Border must be at least one cell and quiet zone non-negative');
+  }
+
+  const { markerSize } = dictionary;
+  const offset = quietZone + borderBits;
+  const total = markerSize + 2 * offset;
+
+  const cells: number[][] = [];
+  for (let y = 0; y < total; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < total; x++) {
+      const inQuietZone = x < quietZone || y < quietZone || x >= total - quietZone || y >= total - quietZone;
+      const inData = x >= offset && y >= offset && x < offset + markerSize && y < offset + markerSize;
+
+      if (inQuietZone) {
+        row.push(1);
+      } else if (inData) {
+        row.push(pattern[(y - offset) * markerSize + (x - offset)]);
+      } else {
+        row.push(0);
+      }
+    }
+    cells.push(row);
+  }
+
+  return cells;
+}
@@ -0,0 +1,271 @@
+/**
+ * ORB Extractor
+ * CPU reference of the FAST + ORB pipeline in FeatureDetector
+ *
+ * Follows the compute shaders step by step (FAST-12 with a four-point
+ * rejection test, 7×7 non-maximum suppression, intensity-centroid
+ * orientation, steered BRIEF on the shared pattern) so descriptors of
+ * reference images computed here match live descriptors from the GPU.
+ */
+
+import type { Keypoint } from './feature-detector';
+import type { GrayImage } from '../tracking/optical-flow';
+import { getORBPattern, type TestPair } from './orb-pattern';
+
+export interface ORBExtractorConfig {
+  // Keypoints kept after non-maximum suppression, strongest first (default: 500)
+  maxKeypoints?: number;
+
+  // FAST intensity threshold in 0-255 (default: 20)
+  fastThreshold?: number;
+}
+
+export interface ORBFeatures {
+  keypoints: Keypoint[];
+  descriptors: Uint32Array; // 8 words (256 bits) per keypoint, as read back from the GPU
+}
+
+// Bresenham circle of radius 3, same order as fast-corners.wgsl
+const CIRCLE: Array<[number, number]> = [
+  [0, 3], [1, 3], [2, 2], [3, 1], [3, 0], [3, -1], [2, -2], [1, -3],
+  [0, -3], [-1, -3], [-2, -2], [-3, -1], [-3, 0], [-3, 1], [-2, 2], [-1, 3],
+];
+
+const ORIENTATION_RADIUS = 15;
+const HALF_PATCH = 15; // 31 × 31 patch
+
+let pattern: TestPair[] | null = null;
+
+/**
+ * Convert RGBA pixels to grayscale (BT.601 luma)
+ */
+export function rgbaToGray(image: { data: ArrayLike<number>; width: number; height: number }): GrayImage {
+  const { width, height } = image;
+  const data = new Uint8Array(width * height);
+
+  for (let i = 0; i < data.length; i++) {
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    data[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * Detect FAST corners and compute oriented ORB descriptors
+ */
+export function extractORBFeatures(image: GrayImage, config: ORBExtractorConfig = {}): ORBFeatures {
+  const maxKeypoints = config.maxKeypoints ?? 500;
+  const threshold = (config.fastThreshold ?? 20) / 255;
+
+  const intensities = new Float32Array(image.data.length);
+  for (let i = 0; i < intensities.length; i++) {
+    intensities[i] = image.data[i] / 255;
+  }
+
+  const scores = computeFASTScores(intensities, image.width, image.height, threshold);
+  const keypoints = suppressNonMaxima(scores, image.width, image.height, maxKeypoints);
+  const descriptors = new Uint32Array(keypoints.length * 8);
+
+  for (let i = 0; i < keypoints.length; i++) {
+    keypoints[i].angle = computeOrientation(intensities, image.width, image.height, keypoints[i]);
+    computeDescriptor(intensities, image.width, image.height, keypoints[i], descriptors, i * 8);
+  }
+
+  return { keypoints, descriptors };
+}
+
+/**
+ * Split packed descriptors into 32-byte views for FeatureMatcher
+ */
+export function descriptorsToBytes(descriptors: Uint32Array): Uint8Array[] {
+  const bytes = new Uint8Array(descriptors.buffer, descriptors.byteOffset, descriptors.byteLength);
+  const result: Uint8Array[] = [];
+
+  for (let offset = 0; offset < bytes.length; offset += 32) {
+    result.push(bytes.subarray(offset, offset + 32));
+  }
+
+  return result;
+}
+
+// ==================== Private Methods ====================
+
+/**
+ * FAST-12 scores (sum of absolute circle differences, 0 for non-corners)
+ */
+function computeFASTScores(
+  intensities: Float32Array,
+  width: number,
+  height: number,
+  threshold: number
+): Float32Array {
+  const scores = new Float32Array(width * height);
+  const circle = new Float32Array(16);
+
+  for (let y = 3; y < height - 3; y++) {
+    for (let x = 3; x < width - 3; x++) {
+      const center = intensities[y * width + x];
+      for (let i = 0; i < 16; i++) {
+        circle[i] = intensities[(y + CIRCLE[i][1]) * width + x + CIRCLE[i][0]];
+      }
+
+      // Fast rejection: all four cardinal points brighter, or all darker
+      const cardinal = [circle[0], circle[4], circle[8], circle[12]];
+      const cardinalBrighter = cardinal.every(v => v > center + threshold);
+      const cardinalDarker = cardinal.every(v => v < center - threshold);
+      if (!cardinalBrighter && !cardinalDarker) {continue;}
+
+      // Longest contiguous arc, walking the circle twice for wrap-around
+      let brighterRun = 0;
+      let darkerRun = 0;
+      let maxBrighter = 0;
+      let maxDarker = 0;
+      for (let i = 0; i < 32; i++) {
+        const v = circle[i % 16];
+        if (v > center + threshold) {
+          brighterRun++;
+          darkerRun = 0;
+          maxBrighter = Math.max(maxBrighter, brighterRun);
+        } else if (v < center - threshold) {
+          darkerRun++;
+          brighterRun = 0;
+          maxDarker = Math.max(maxDarker, darkerRun);
+        } else {
+          brighterRun = 0;
+          darkerRun = 0;
+        }
+      }
+
+      if (maxBrighter < 12 && maxDarker < 12) {continue;}
+
+      let score = 0;
+      for (let i = 0; i < 16; i++) {
+        score += Math.abs(circle[i] - center);
+      }
+      scores[y * width + x] = score;
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Strict local maxima in a 7×7 neighborhood, strongest first
+ */
+function suppressNonMaxima(
+  scores: Float32Array,
+  width: number,
+  height: number,
+  maxKeypoints: number
+): Keypoint[] {
+  const radius = 3;
+  const keypoints: Keypoint[] = [];
+
+  for (let y = radius; y < height - radius; y++) {
+    for (let x = radius; x < width - radius; x++) {
+      const response = scores[y * width + x];
+      if (response <= 0) {continue;}
+
+      let isMax = true;
+      for (let dy = -radius; dy <= radius && isMax; dy++) {
+        for (let dx = -radius; dx <= radius && isMax; dx++) {
+          if ((dx !== 0 || dy !== 0) && scores[(y + dy) * width + x + dx] >= response) {
+            isMax = false;
+          }
+        }
+      }
+
+      if (isMax) {
+        keypoints.push({ x, y, angle: 0, response, octave: 0 });
+      }
+    }
+  }
+
+  keypoints.sort((a, b) => b.response - a.response);
+  return keypoints.slice(0, maxKeypoints);
+}
+
+/**
+ * Angle of the intensity centroid over a circular patch (0 near the border)
+ */
+function computeOrientation(
+  intensities: Float32Array,
+  width: number,
+  height: number,
+  keypoint: Keypoint
+): number {
+  const cx = Math.trunc(keypoint.x);
+  const cy = Math.trunc(keypoint.y);
+  const r = ORIENTATION_RADIUS;
+
+  if (cx < r || cx >= width - r || cy < r || cy >= height - r) {
+    return 0;
+  }
+
+  let m00 = 0;
+  let m10 = 0;
+  let m01 = 0;
+
+  for (let dy = -r; dy <= r; dy++) {
+    for (let dx = -r; dx <= r; dx++) {
+      if (dx * dx + dy * dy > r * r) {continue;}
+      const intensity = intensities[(cy + dy) * width + cx + dx];
+      m10 += dx * intensity;
+      m01 += dy * intensity;
+      m00 += intensity;
+    }
+  }
+
+  return m00 > 0 ? Math.atan2(m01 / m00, m10 / m00) : 0;
+}
+
+/**
+ * Steered BRIEF: 256 rotated intensity comparisons, bit i = I(p1) < I(p2)
+ */
+function computeDescriptor(
+  intensities: Float32Array,
+  width: number,
+  height: number,
+  keypoint: Keypoint,
+  out: Uint32Array,
+  offset: number
+): void {
+  const cx = Math.trunc(keypoint.x);
+  const cy = Math.trunc(keypoint.y);
+
+  // Keypoints too close to the border keep an all-zero descriptor
+  if (cx < HALF_PATCH || cx >= width - HALF_PATCH || cy < HALF_PATCH || cy >= height - HALF_PATCH) {
+    return;
+  }
+
+  pattern ??= getORBPattern();
+  const cos = Math.cos(keypoint.angle);
+  const sin = Math.sin(keypoint.angle);
+
+  const sample = (px: number, py: number): number => {
+    const x = Math.min(Math.max(cx + roundHalfEven(px * cos - py * sin), 0), width - 1);
+    const y = Math.min(Math.max(cy + roundHalfEven(px * sin + py * cos), 0), height - 1);
+    return intensities[y * width + x];
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const pair = pattern[i];
+    if (sample(pair.x1, pair.y1) < sample(pair.x2, pair.y2)) {
+      out[offset + (i >> 5)] |= 1 << (i & 31);
+    }
+  }
+}
+
+/**
+ * Round half to even, as WGSL round() does
+ */
+function roundHalfEven(value: number): number {
+  const floor = Math.floor(value);
+  const diff = value - floor;
+  if (diff > 0.5) {return floor + 1;}
+  if (diff < 0.5) {return floor;}
+  return floor % 2 === 0 ? floor : floor + 1;
+}
@@ -3,6 +3,8 @@
  * Precomputed test point pairs for ORB descriptor
  */
 
+import { createRandom } from '../../utils/random';
+
 export interface TestPair {
   x1: number;
   y1: number;
@@ -14,6 +16,9 @@ export interface TestPair {
  * Get ORB test pattern (256 pairs)
  * These are optimized point pairs for binary tests
  * Pattern is centered at origin, radius ~15 pixels
+ *
+ * The pattern is generated from a fixed seed: descriptors computed on the
+ * GPU, on the CPU and offline must all use the same pairs to be comparable.
  */
 export function getORBPattern(): TestPair[] {
   // Simplified ORB pattern (normally loaded from precomputed data)
@@ -21,14 +26,15 @@ export function getORBPattern(): TestPair[] {
   const pattern: TestPair[] = [];
   const numPairs = 256;
   const radius = 15;
+  const random = createRandom(0x0b5eed);
 
   for (let i = 0; i < numPairs; i++) {
     // Distribute pairs in a starburst pattern
     const angle1 = (i / numPairs) * Math.PI * 2;
-    const angle2 = angle1 + Math.PI + (Math.random() - 0.5) * 0.5;
+    const angle2 = angle1 + Math.PI + (random() - 0.5) * 0.5;
 
-    const r1 = radius * (0.3 + Math.random() * 0.7);
-    const r2 = radius * (0.3 + Math.random() * 0.7);
+    const r1 = radius * (0.3 + random() * 0.7);
+    const r2 = radius * (0.3 + random() * 0.7);
 
     pattern.push({
       x1: Math.round(Math.cos(angle1) * r1),
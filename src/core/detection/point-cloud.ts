@@ -5,7 +5,7 @@
 
 import { Vector3 } from '../math/vector';
 import type { Keypoint } from './feature-detector';
-import type { CameraIntrinsics } from '../tracking/pose-estimator';
+import { pixelToNormalized, projectToPixel, type CameraIntrinsics } from '../camera/camera-intrinsics';
 import { KDTree } from '../../utils/kdtree';
 
 export interface Point3D {
@@ -114,29 +114,21 @@ export class PointCloudGenerator {
    * Unproject 2D point with depth to 3D
    */
   private unproject(x: number, y: number, depth: number): Vector3 {
-    const { fx, fy, cx, cy } = this.intrinsics;
+    const [nx, ny] = pixelToNormalized(this.intrinsics, [x, y]);
 
-    const X = ((x - cx) * depth) / fx;
-    const Y = ((y - cy) * depth) / fy;
-    const Z = depth;
-
-    return new Vector3(X, Y, Z);
+    return new Vector3(nx * depth, ny * depth, depth);
   }
 
   /**
    * Project 3D point to 2D
    */
   project(point: Vector3): [number, number, number] {
-    const { fx, fy, cx, cy } = this.intrinsics;
-
-    if (point.z <= 0) {
+    const pixel = projectToPixel(this.intrinsics, point);
+    if (!pixel) {
       return [-1, -1, 0];
     }
 
-    const x = (point.x * fx) / point.z + cx;
-    const y = (point.y * fy) / point.z + cy;
-
-    return [x, y, point.z];
+    return [pixel[0], pixel[1], point.z];
   }
 
   /**
@@ -8,8 +8,10 @@ import { ARError, ARErrors, ErrorCodes } from './errors';
 import { PluginManager, type ARPlugin, type ARContext } from './plugin-system';
 import { GPUContextManager } from './gpu/gpu-context';
 import { CameraManager, type CameraConfig } from './camera/camera-manager';
+import { scaleCalibratedIntrinsics, type CameraCalibrationResult } from './camera/camera-calibrator';
+import { hasDistortion, withoutDistortion, type CameraIntrinsics } from './camera/camera-intrinsics';
 import { ComputePipeline, calculateWorkgroupCount } from './gpu/compute-pipeline';
-import { grayscaleShader } from '../shaders/index';
+import { grayscaleShader, undistortShader } from '../shaders/index';
 import { Logger } from '../utils/logger';
 
 const log = Logger.create('AREngine');
@@ -34,6 +36,16 @@ export interface AREngineConfig {
   gpu?: {
     powerPreference?: 'low-power' | 'high-performance';
   };
+
+  /** Camera calibration (from CameraCalibrator); rescaled to the capture resolution */
+  calibration?: CameraCalibrationResult;
+
+  /**
+   * Remap the grayscale texture to an ideal pinhole image on the GPU
+   * Only applies when the calibration has distortion; plugins then receive
+   * intrinsics without distortion coefficients.
+   */
+  undistort?: boolean;
 }
 
 /**
@@ -70,6 +82,10 @@ export class AREngine extends TypedEventEmitter<AREvents> {
   private grayscalePipeline?: ComputePipeline;
   private grayscaleTexture?: GPUTexture;
   private grayscaleBindGroup?: GPUBindGroup;
+  private undistortPipeline?: ComputePipeline;
+  private undistortTexture?: GPUTexture;
+  private undistortParams?: GPUBuffer;
+  private undistortBindGroup?: GPUBindGroup;
 
   // Frame timing
   private frameCount = 0;
@@ -152,6 +168,18 @@ export class AREngine extends TypedEventEmitter<AREvents> {
         throw new ARError('Failed to get camera resolution', ErrorCodes.INITIALIZATION_FAILED);
       }
 
+      const intrinsics = config.calibration
+        ? scaleCalibratedIntrinsics(config.calibration, resolution.width, resolution.height)
+        : { fx: 500, fy: 500, cx: resolution.width / 2, cy: resolution.height / 2 };
+
+      // Optional GPU undistortion; downstream sees a pinhole camera
+      const undistort = !!config.undistort && hasDistortion(intrinsics);
+      if (undistort) {
+        this.setupUndistortPipeline(intrinsics);
+        log.info('Undistortion pipeline created');
+      }
+      const frameIntrinsics = undistort ? withoutDistortion(intrinsics) : intrinsics;
+
       this.context = {
         gpu: this.gpuContext.device,
         gpuContext: this.gpuContext,
@@ -164,10 +192,7 @@ export class AREngine extends TypedEventEmitter<AREvents> {
             return frame.videoFrame;
           },
           getIntrinsics: () => ({
-            fx: 500,
-            fy: 500,
-            cx: resolution.width / 2,
-            cy: resolution.height / 2,
+            ...frameIntrinsics,
             width: resolution.width,
             height: resolution.height,
           }),
@@ -257,6 +282,8 @@ export class AREngine extends TypedEventEmitter<AREvents> {
 
     // Cleanup GPU resources
     this.grayscaleTexture?.destroy();
+    this.undistortTexture?.destroy();
+    this.undistortParams?.destroy();
     // Note: ComputePipeline doesn't need explicit cleanup
 
     this.isInitialized = false;
@@ -330,7 +357,9 @@ export class AREngine extends TypedEventEmitter<AREvents> {
       const cameraTexture = await this.gpuContext.importVideoFrame(cameraFrame.videoFrame);
 
       // Convert to grayscale
-      const grayscaleTexture = await this.convertToGrayscale(cameraTexture);
+      const grayscaleTexture = this.undistortPipeline
+        ? this.undistortGrayscale(await this.convertToGrayscale(cameraTexture))
+        : await this.convertToGrayscale(cameraTexture);
 
       const resolution = this.cameraManager.getResolution()!;
 
@@ -453,6 +482,61 @@ export class AREngine extends TypedEventEmitter<AREvents> {
     return this.grayscaleTexture;
   }
 
+  /**
+   * Setup lens undistortion remap pipeline
+   */
+  private setupUndistortPipeline(intrinsics: CameraIntrinsics): void {
+    const device = this.gpuContext.device;
+    const { width, height } = this.cameraManager.getResolution()!;
+
+    this.undistortTexture = device.createTexture({
+      size: [width, height, 1],
+      format: 'r8unorm',
+      usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+    });
+
+    // fx, fy, cx, cy, model, padding ×3, k[0..7]
+    const params = new ArrayBuffer(64);
+    const floats = new Float32Array(params);
+    floats.set([intrinsics.fx, intrinsics.fy, intrinsics.cx, intrinsics.cy]);
+    new Uint32Array(params)[4] = intrinsics.distortionModel === 'fisheye' ? 1 : 0;
+    floats.set((intrinsics.distortion ?? []).slice(0, 8), 8);
+
+    this.undistortParams = device.createBuffer({
+      size: params.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    device.queue.writeBuffer(this.undistortParams, 0, params);
+
+    this.undistortPipeline = new ComputePipeline(this.gpuContext, {
+      shaderCode: undistortShader,
+      label: 'Lens Undistortion',
+    });
+
+    this.undistortBindGroup = this.undistortPipeline.createBindGroup([
+      { binding: 0, resource: this.grayscaleTexture!.createView() },
+      { binding: 1, resource: this.undistortTexture.createView() },
+      { binding: 2, resource: { buffer: this.undistortParams } },
+    ]);
+  }
+
+  /**
+   * Remap the grayscale texture to an undistorted pinhole image
+   */
+  private undistortGrayscale(grayscaleTexture: GPUTexture): GPUTexture {
+    if (!this.undistortPipeline || !this.undistortBindGroup || !this.undistortTexture) {
+      return grayscaleTexture;
+    }
+
+    const { width, height } = this.cameraManager.getResolution()!;
+    this.undistortPipeline.executeAndSubmit(
+      this.undistortBindGroup,
+      calculateWorkgroupCount(width, height, { x: 8, y: 8 })
+    );
+
+    return this.undistortTexture;
+  }
+
   /**
    * Update FPS calculation
    */
@@ -159,6 +159,33 @@ export class ARError extends Error {
   }
 }
 
+/**
+ * Why a model failed to load (ARError context.reason for MODEL_LOAD_FAILED)
+ * - network: download failed or returned an HTTP error
+ * - integrity: SHA-256 of the model does not match its ModelInfo
+ * - unavailable: no URL, or not present in the offline bundle
+ * - backend: no inference backend could create a session
+ */
+export type ModelLoadFailureReason = 'network' | 'integrity' | 'unavailable' | 'backend';
+
+const MODEL_LOAD_SUGGESTIONS: Record<ModelLoadFailureReason, RecoverySuggestion[]> = {
+  network: [
+    { message: 'Check your internet connection' },
+    { message: 'Verify model URL is accessible' },
+  ],
+  integrity: [
+    { message: 'Verify the model file matches the sha256 in its ModelInfo' },
+    { message: 'Update the pinned sha256 and version after replacing a model' },
+  ],
+  unavailable: [
+    { message: 'Register the model with a URL, or add it to the offline bundle' },
+  ],
+  backend: [
+    { message: 'Install onnxruntime-web or provide another inference backend' },
+    { message: 'Check that the model only uses operators supported by the backend' },
+  ],
+};
+
 /**
  * Factory functions for common errors
  */
@@ -206,22 +233,20 @@ export const ARErrors = {
     );
   },
 
-  modelLoadFailed(modelName: string, cause?: Error): ARError {
+  modelLoadFailed(
+    modelName: string,
+    cause?: Error,
+    reason: ModelLoadFailureReason = 'network'
+  ): ARError {
     return new ARError(
       `Failed to load model: ${modelName}`,
       ErrorCodes.MODEL_LOAD_FAILED,
       {
-        recoverable: true,
-        context: { modelName },
+        // A model that fails verification will fail again
+        recoverable: reason !== 'integrity',
+        context: { modelName, reason },
         cause,
-        suggestions: [
-          {
-            message: 'Check your internet connection',
-          },
-          {
-            message: 'Verify model URL is accessible',
-          },
-        ],
+        suggestions: MODEL_LOAD_SUGGESTIONS[reason],
       }
     );
   },
@@ -5,11 +5,15 @@
 
 import type { GPUContextManager } from '../gpu/gpu-context';
 import { ComputePipeline } from '../gpu/compute-pipeline';
+import type { DepthMap } from '../depth/depth-map';
+import type { DepthUpsamplingConfig } from '../depth/depth-upsampling';
+import { GPUDepthUpsampler } from '../depth/gpu-depth-upsampling';
 
 export interface OcclusionConfig {
   resolution?: { width: number; height: number };
   depthThreshold?: number; // Minimum depth difference for occlusion (meters)
   blurRadius?: number; // Edge softening
+  upsampling?: DepthUpsamplingConfig; // Low-resolution depth to occlusion resolution
 }
 
 export class OcclusionHandler {
@@ -27,12 +31,16 @@ export class OcclusionHandler {
   // Buffers
   private paramsBuffer: GPUBuffer | null = null;
 
+  // Camera-guided upsampling of low-resolution depth
+  private upsampler: GPUDepthUpsampler | null = null;
+
   constructor(gpuContext: GPUContextManager, config: OcclusionConfig = {}) {
     this.gpuContext = gpuContext;
     this.config = {
       resolution: config.resolution ?? { width: 640, height: 480 },
       depthThreshold: config.depthThreshold ?? 0.01, // 1cm
       blurRadius: config.blurRadius ?? 2,
+      upsampling: config.upsampling ?? {},
     };
   }
 
@@ -89,6 +97,9 @@ export class OcclusionHandler {
 
     this.updateParams(width, height);
 
+    this.upsampler = new GPUDepthUpsampler(this.gpuContext, this.config.upsampling);
+    await this.upsampler.initialize(width, height);
+
     console.log('[OcclusionHandler] Initialized');
   }
 
@@ -107,6 +118,9 @@ export class OcclusionHandler {
 
   /**
    * Generate occlusion buffer from depth
+   *
+   * @param depthTexture - Depth in meters at occlusion resolution, e.g. the
+   *   edge-aware output of GPUDepthUpsampler
    */
   async generateOcclusion(depthTexture: GPUTexture): Promise<GPUTexture> {
     if (!this.occlusionPipeline || !this.blurPipeline) {
@@ -150,6 +164,29 @@ export class OcclusionHandler {
     return this.blurredOcclusionTexture!;
   }
 
+  /**
+   * Generate occlusion buffer from low-resolution depth
+   *
+   * Depth is upsampled to occlusion resolution with the camera frame as
+   * guide, so occlusion edges follow real object edges. Holes left by the
+   * upsampler have no depth and never occlude.
+   *
+   * @param depthMap - Low-resolution depth (e.g. model output)
+   * @param cameraTexture - Camera frame at occlusion resolution
+   * @param confidence - Optional per-pixel confidence of depthMap (0-1)
+   */
+  async generateOcclusionFromDepthMap(
+    depthMap: DepthMap,
+    cameraTexture: GPUTexture,
+    confidence?: Float32Array
+  ): Promise<GPUTexture> {
+    if (!this.upsampler) {
+      throw new Error('Occlusion handler not initialized');
+    }
+
+    return this.generateOcclusion(this.upsampler.upsample(depthMap, cameraTexture, confidence));
+  }
+
   /**
    * Get occlusion shader
    */
@@ -274,6 +311,10 @@ export class OcclusionHandler {
     if (config.blurRadius !== undefined) {
       this.config.blurRadius = config.blurRadius;
     }
+    if (config.upsampling !== undefined) {
+      this.config.upsampling = config.upsampling;
+      this.upsampler?.updateConfig(config.upsampling);
+    }
 
     if (this.paramsBuffer) {
       this.updateParams(this.config.resolution.width, this.config.resolution.height);
@@ -287,5 +328,7 @@ export class OcclusionHandler {
     this.occlusionTexture?.destroy();
     this.blurredOcclusionTexture?.destroy();
     this.paramsBuffer?.destroy();
+    this.upsampler?.destroy();
+    this.upsampler = null;
   }
 }
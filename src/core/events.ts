@@ -206,6 +206,11 @@ export interface AREvents {
   'marker:updated': [marker: TrackedMarker];
   'marker:lost': [id: number];
 
+  // Natural images
+  'image:found': [image: TrackedImage];
+  'image:updated': [image: TrackedImage];
+  'image:lost': [id: string];
+
   // Planes
   'plane:detected': [plane: DetectedPlane];
   'plane:updated': [plane: DetectedPlane];
@@ -246,6 +251,7 @@ export interface AREvents {
  */
 import type { ARError } from './errors';
 import type { TrackedMarker } from './tracking/tracker';
+import type { TrackedImage } from './tracking/natural-image';
 import type { DetectedPlane } from './detection/plane-detector';
 
 // Stub types for demonstration
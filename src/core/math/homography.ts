@@ -4,6 +4,7 @@
  */
 
 import type { Point } from '../detection/contour-processor';
+import { Matrix } from './matrix-ops';
 
 export class Homography {
   /**
@@ -41,6 +42,63 @@ export class Homography {
     ]);
   }
 
+  /**
+   * Least-squares homography from 4 or more correspondences (normalized DLT)
+   * Returns a row-major 3×3 matrix (9 elements), or null if degenerate.
+   */
+  static fit(src: Point[], dst: Point[]): number[] | null {
+    if (src.length < 4 || src.length !== dst.length) {
+      return null;
+    }
+
+    const Ts = this.normalization(src);
+    const Td = this.normalization(dst);
+
+    const A: number[][] = [];
+    for (let i = 0; i < src.length; i++) {
+      const x = src[i].x * Ts[0] + Ts[1];
+      const y = src[i].y * Ts[0] + Ts[2];
+      const u = dst[i].x * Td[0] + Td[1];
+      const v = dst[i].y * Td[0] + Td[2];
+      A.push([x, y, 1, 0, 0, 0, -u * x, -u * y, -u]);
+      A.push([0, 0, 0, x, y, 1, -v * x, -v * y, -v]);
+    }
+
+    const h = Matrix.nullVector(A);
+
+    // Undo normalization: H = Td⁻¹ Ĥ Ts
+    const TsMatrix = [[Ts[0], 0, Ts[1]], [0, Ts[0], Ts[2]], [0, 0, 1]];
+    const TdInverse = [[1 / Td[0], 0, -Td[1] / Td[0]], [0, 1 / Td[0], -Td[2] / Td[0]], [0, 0, 1]];
+    const H = Matrix.multiply(Matrix.multiply(TdInverse, [h.slice(0, 3), h.slice(3, 6), h.slice(6, 9)]), TsMatrix).flat();
+
+    const scale = Math.abs(H[8]) > 1e-12 ? H[8] : 1;
+    const normalized = H.map(v => v / scale);
+    return normalized.every(Number.isFinite) ? normalized : null;
+  }
+
+  /**
+   * Apply a row-major homography (as returned by fit) to a point
+   */
+  static apply(H: ArrayLike<number>, point: Point): Point {
+    const w = H[6] * point.x + H[7] * point.y + H[8];
+
+    return {
+      x: (H[0] * point.x + H[1] * point.y + H[2]) / w,
+      y: (H[3] * point.x + H[4] * point.y + H[5]) / w,
+    };
+  }
+
+  /**
+   * Similarity [scale, tx, ty] moving points to zero mean and √2 mean distance
+   */
+  private static normalization(points: Point[]): [number, number, number] {
+    const mx = points.reduce((s, p) => s + p.x, 0) / points.length;
+    const my = points.reduce((s, p) => s + p.y, 0) / points.length;
+    const meanDistance = points.reduce((s, p) => s + Math.hypot(p.x - mx, p.y - my), 0) / points.length;
+    const scale = meanDistance > 0 ? Math.SQRT2 / meanDistance : 1;
+    return [scale, -scale * mx, -scale * my];
+  }
+
   /**
    * Solve homography using direct linear transformation
    */
@@ -203,6 +203,207 @@ export class Matrix {
     return inv;
   }
 
+  /**
+   * Solve A * x = b for symmetric positive-definite A (Cholesky decomposition)
+   * Used for normal equations in Gauss-Newton / Levenberg-Marquardt
+   */
+  static solveCholesky(A: number[][], b: number[]): number[] {
+    const n = A.length;
+
+    if (n !== A[0].length || n !== b.length) {
+      throw new Error('Dimension mismatch in Cholesky solve');
+    }
+
+    // Decompose A = L * L^T
+    const L: number[][] = this.zeros(n, n);
+    for (let j = 0; j < n; j++) {
+      let sum = A[j][j];
+      const Lj = L[j];
+      for (let k = 0; k < j; k++) {
+        sum -= Lj[k] * Lj[k];
+      }
+
+      if (sum <= 1e-12) {
+        throw new Error('Matrix is not positive definite');
+      }
+
+      const diag = Math.sqrt(sum);
+      Lj[j] = diag;
+
+      for (let i = j + 1; i < n; i++) {
+        const Li = L[i];
+        let s = A[i][j];
+        for (let k = 0; k < j; k++) {
+          s -= Li[k] * Lj[k];
+        }
+        Li[j] = s / diag;
+      }
+    }
+
+    // Forward substitution: L * y = b
+    const y = new Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      let s = b[i];
+      for (let k = 0; k < i; k++) {
+        s -= L[i][k] * y[k];
+      }
+      y[i] = s / L[i][i];
+    }
+
+    // Back substitution: L^T * x = y
+    const x = new Array(n).fill(0);
+    for (let i = n - 1; i >= 0; i--) {
+      let s = y[i];
+      for (let k = i + 1; k < n; k++) {
+        s -= L[k][i] * x[k];
+      }
+      x[i] = s / L[i][i];
+    }
+
+    return x;
+  }
+
+  /**
+   * Eigen-decomposition of a symmetric matrix (cyclic Jacobi rotations)
+   * Eigenvalues are in ascending order; vectors[i] is the unit eigenvector of values[i]
+   */
+  static symmetricEigen(
+    A: number[][],
+    maxSweeps: number = 50
+  ): { values: number[]; vectors: number[][] } {
+    const n = A.length;
+    const a = A.map(row => [...row]);
+    const v = this.identity(n);
+
+    let norm = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        norm += a[i][j] * a[i][j];
+      }
+    }
+
+    for (let sweep = 0; sweep < maxSweeps; sweep++) {
+      let off = 0;
+      for (let p = 0; p < n; p++) {
+        for (let q = p + 1; q < n; q++) {
+          off += a[p][q] * a[p][q];
+        }
+      }
+      if (off <= 1e-30 * norm || off === 0) {break;}
+
+      for (let p = 0; p < n; p++) {
+        for (let q = p + 1; q < n; q++) {
+          if (a[p][q] === 0) {continue;}
+
+          // Rotation that zeroes a[p][q]
+          const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+          const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+          const c = 1 / Math.sqrt(t * t + 1);
+          const s = t * c;
+
+          for (let k = 0; k < n; k++) {
+            const akp = a[k][p];
+            const akq = a[k][q];
+            a[k][p] = c * akp - s * akq;
+            a[k][q] = s * akp + c * akq;
+          }
+          for (let k = 0; k < n; k++) {
+            const apk = a[p][k];
+            const aqk = a[q][k];
+            a[p][k] = c * apk - s * aqk;
+            a[q][k] = s * apk + c * aqk;
+          }
+          for (let k = 0; k < n; k++) {
+            const vkp = v[k][p];
+            const vkq = v[k][q];
+            v[k][p] = c * vkp - s * vkq;
+            v[k][q] = s * vkp + c * vkq;
+          }
+        }
+      }
+    }
+
+    const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[i][i] - a[j][j]);
+    return {
+      values: order.map(i => a[i][i]),
+      vectors: order.map(i => v.map(row => row[i])),
+    };
+  }
+
+  /**
+   * Singular value decomposition A = U * diag(S) * V^T for m x n matrices (m >= n)
+   * Singular values are in descending order; U (m x n) and V (n x n) hold the
+   * singular vectors as columns. Left vectors of vanishing singular values are
+   * completed to an orthonormal set.
+   */
+  static svd(A: number[][]): { U: number[][]; S: number[]; V: number[][] } {
+    const m = A.length;
+    const n = A[0].length;
+
+    if (m < n) {
+      throw new Error('SVD requires at least as many rows as columns');
+    }
+
+    const { values, vectors } = this.symmetricEigen(this.multiply(this.transpose(A), A));
+    const order = values.map((_, i) => n - 1 - i);
+    const S = order.map(i => Math.sqrt(Math.max(values[i], 0)));
+    const V = this.zeros(n, n);
+    order.forEach((i, col) => {
+      for (let k = 0; k < n; k++) {
+        V[k][col] = vectors[i][k];
+      }
+    });
+
+    // U columns: A v / sigma, or Gram-Schmidt completion for null directions.
+    // Singular values below sqrt(eps) * S[0] are not resolved through A^T A.
+    const U = this.zeros(m, n);
+    const columns: number[][] = [];
+    const tolerance = 1e-7 * Math.max(S[0], 1e-300);
+
+    const orthogonalize = (v: number[]): number[] | null => {
+      const w = [...v];
+      for (const prev of columns) {
+        const d = prev.reduce((sum, x, k) => sum + x * w[k], 0);
+        for (let k = 0; k < m; k++) {
+          w[k] -= d * prev[k];
+        }
+      }
+      const len = Math.sqrt(w.reduce((sum, x) => sum + x * x, 0));
+      return len > 1e-6 ? w.map(x => x / len) : null;
+    };
+
+    for (let col = 0; col < n; col++) {
+      let u: number[] | null = null;
+
+      if (S[col] > tolerance) {
+        const av = this.multiplyVector(A, V.map(row => row[col]));
+        u = orthogonalize(av.map(x => x / S[col]));
+      }
+
+      for (let e = 0; e < m && !u; e++) {
+        const basis = new Array(m).fill(0);
+        basis[e] = 1;
+        u = orthogonalize(basis);
+      }
+
+      columns.push(u!);
+      for (let k = 0; k < m; k++) {
+        U[k][col] = u![k];
+      }
+    }
+
+    return { U, S, V };
+  }
+
+  /**
+   * Unit vector x minimizing |A x| (right singular vector of the smallest singular value)
+   * Used for homogeneous least squares (DLT, 8-point, triangulation)
+   */
+  static nullVector(A: number[][]): number[] {
+    const { vectors } = this.symmetricEigen(this.multiply(this.transpose(A), A));
+    return vectors[0];
+  }
+
   /**
    * Matrix determinant (Laplace expansion - for small matrices)
    */
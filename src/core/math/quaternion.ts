@@ -133,6 +133,82 @@ export class Quaternion {
     );
   }
 
+  /**
+   * Rotate a vector by this quaternion (q * v * q^-1)
+   */
+  rotateVector(v: Vector3): Vector3 {
+    const qv = new Vector3(this.x, this.y, this.z);
+    const uv = qv.cross(v);
+    const uuv = qv.cross(uv);
+
+    return v.add(uv.multiply(2 * this.w)).add(uuv.multiply(2));
+  }
+
+  /**
+   * Convert to rotation vector (axis * angle, SO(3) logarithm)
+   */
+  toRotationVector(): Vector3 {
+    // Take the shorter path so the angle stays in [0, π]
+    const sign = this.w < 0 ? -1 : 1;
+    const x = this.x * sign, y = this.y * sign, z = this.z * sign, w = this.w * sign;
+
+    const sinHalf = Math.sqrt(x * x + y * y + z * z);
+    if (sinHalf < 1e-12) {
+      // First-order approximation near identity
+      return new Vector3(2 * x, 2 * y, 2 * z);
+    }
+
+    const angle = 2 * Math.atan2(sinHalf, w);
+    const k = angle / sinHalf;
+    return new Vector3(x * k, y * k, z * k);
+  }
+
+  /**
+   * Create from rotation vector (axis * angle, SO(3) exponential)
+   */
+  static fromRotationVector(v: Vector3): Quaternion {
+    const angle = v.length();
+    if (angle < 1e-12) {
+      return new Quaternion(v.x / 2, v.y / 2, v.z / 2, 1).normalize();
+    }
+
+    const s = Math.sin(angle / 2) / angle;
+    return new Quaternion(v.x * s, v.y * s, v.z * s, Math.cos(angle / 2));
+  }
+
+  /**
+   * Create from 3x3 rotation matrix (row-major)
+   */
+  static fromRotationMatrix(R: ArrayLike<number>): Quaternion {
+    const trace = R[0] + R[4] + R[8];
+
+    if (trace > 0) {
+      const s = 0.5 / Math.sqrt(trace + 1.0);
+      return new Quaternion((R[7] - R[5]) * s, (R[2] - R[6]) * s, (R[3] - R[1]) * s, 0.25 / s).normalize();
+    } else if (R[0] > R[4] && R[0] > R[8]) {
+      const s = 2.0 * Math.sqrt(1.0 + R[0] - R[4] - R[8]);
+      return new Quaternion(0.25 * s, (R[1] + R[3]) / s, (R[2] + R[6]) / s, (R[7] - R[5]) / s).normalize();
+    } else if (R[4] > R[8]) {
+      const s = 2.0 * Math.sqrt(1.0 + R[4] - R[0] - R[8]);
+      return new Quaternion((R[1] + R[3]) / s, 0.25 * s, (R[5] + R[7]) / s, (R[2] - R[6]) / s).normalize();
+    } else {
+      const s = 2.0 * Math.sqrt(1.0 + R[8] - R[0] - R[4]);
+      return new Quaternion((R[2] + R[6]) / s, (R[5] + R[7]) / s, 0.25 * s, (R[3] - R[1]) / s).normalize();
+    }
+  }
+
+  /**
+   * Convert to 3x3 rotation matrix (row-major)
+   */
+  toRotationMatrix(): number[] {
+    const x = this.x, y = this.y, z = this.z, w = this.w;
+    return [
+      1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y),
+      2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x),
+      2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y),
+    ];
+  }
+
   /**
    * Clone quaternion
    */
@@ -140,6 +216,13 @@ export class Quaternion {
     return new Quaternion(this.x, this.y, this.z, this.w);
   }
 
+  /**
+   * Exact component-wise equality
+   */
+  equals(other: Quaternion): boolean {
+    return this.x === other.x && this.y === other.y && this.z === other.z && this.w === other.w;
+  }
+
   /**
    * Convert to array
    */
@@ -0,0 +1,108 @@
+/**
+ * Sim(3) Transform Utilities
+ * Similarity transforms (rotation, translation, uniform scale) for
+ * monocular SLAM, where map scale is only known up to a factor
+ */
+
+import { Vector3 } from './vector';
+import { Quaternion } from './quaternion';
+import { Matrix4 } from './matrix';
+
+export class Sim3 {
+  /**
+   * Transform acting on a point as: x' = scale * R * x + translation
+   */
+  constructor(
+    public rotation: Quaternion = Quaternion.identity(),
+    public translation: Vector3 = new Vector3(0, 0, 0),
+    public scale: number = 1
+  ) {}
+
+  /**
+   * Create identity transform
+   */
+  static identity(): Sim3 {
+    return new Sim3();
+  }
+
+  /**
+   * Create rigid transform from a pose (camera-to-world)
+   */
+  static fromPose(position: Vector3, rotation: Quaternion): Sim3 {
+    return new Sim3(rotation.clone(), position.clone(), 1);
+  }
+
+  /**
+   * Compose transforms: (this * other)(x) = this(other(x))
+   */
+  multiply(other: Sim3): Sim3 {
+    return new Sim3(
+      this.rotation.multiply(other.rotation).normalize(),
+      this.rotation.rotateVector(other.translation).multiply(this.scale).add(this.translation),
+      this.scale * other.scale
+    );
+  }
+
+  /**
+   * Inverse transform
+   */
+  inverse(): Sim3 {
+    const invRotation = this.rotation.conjugate();
+    const invScale = 1 / this.scale;
+
+    return new Sim3(
+      invRotation,
+      invRotation.rotateVector(this.translation).multiply(-invScale),
+      invScale
+    );
+  }
+
+  /**
+   * Transform a 3D point
+   */
+  transformPoint(point: Vector3): Vector3 {
+    return this.rotation.rotateVector(point).multiply(this.scale).add(this.translation);
+  }
+
+  /**
+   * Convert to 4x4 matrix (column-major)
+   */
+  toMatrix4(): Matrix4 {
+    return Matrix4.compose(
+      this.translation,
+      this.rotation,
+      new Vector3(this.scale, this.scale, this.scale)
+    );
+  }
+
+  /**
+   * Clone transform
+   */
+  clone(): Sim3 {
+    return new Sim3(this.rotation.clone(), this.translation.clone(), this.scale);
+  }
+
+  /**
+   * Exponential map from tangent vector [ωx, ωy, ωz, tx, ty, tz, σ]
+   * Uses the decoupled parameterization (rotation, translation, log-scale),
+   * which is sufficient for small optimization increments
+   */
+  static exp(tangent: ArrayLike<number>): Sim3 {
+    return new Sim3(
+      Quaternion.fromRotationVector(new Vector3(tangent[0], tangent[1], tangent[2])),
+      new Vector3(tangent[3], tangent[4], tangent[5]),
+      Math.exp(tangent[6] ?? 0)
+    );
+  }
+
+  /**
+   * Logarithm map to tangent vector [ωx, ωy, ωz, tx, ty, tz, σ]
+   * Inverse of {@link Sim3.exp}
+   */
+  static log(transform: Sim3): number[] {
+    const omega = transform.rotation.toRotationVector();
+    const t = transform.translation;
+
+    return [omega.x, omega.y, omega.z, t.x, t.y, t.z, Math.log(transform.scale)];
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Skyline Matrix
+ * Symmetric matrix in variable-band (skyline) storage with Cholesky solve
+ *
+ * Each row stores the lower triangle from its first nonzero column to the
+ * diagonal. Cholesky fill-in never leaves that envelope, so sparse normal
+ * equations (pose graphs, chains with a few long-range edges) factor in time
+ * proportional to the envelope instead of cubic in the matrix size.
+ */
+
+export class SkylineMatrix {
+  readonly size: number;
+  private firstColumn: Int32Array;
+  private rows: Float64Array[];
+
+  /**
+   * @param firstColumn - Per row, the smallest column with a nonzero entry (≤ row)
+   */
+  constructor(firstColumn: ArrayLike<number>) {
+    this.size = firstColumn.length;
+    this.firstColumn = Int32Array.from(firstColumn, (f, i) => Math.max(0, Math.min(f, i)));
+    this.rows = Array.from(this.firstColumn, (f, i) => new Float64Array(i - f + 1));
+  }
+
+  /**
+   * Add to entry (i, j); entries are mirrored, so either triangle may be given
+   */
+  add(i: number, j: number, value: number): void {
+    if (j > i) {
+      [i, j] = [j, i];
+    }
+    const offset = j - this.firstColumn[i];
+    if (offset < 0) {
+      throw new Error(`Entry (${i}, ${j}) is outside the skyline envelope`);
+    }
+    this.rows[i][offset] += value;
+  }
+
+  /**
+   * Get entry (i, j)
+   */
+  get(i: number, j: number): number {
+    if (j > i) {
+      [i, j] = [j, i];
+    }
+    const offset = j - this.firstColumn[i];
+    return offset < 0 ? 0 : this.rows[i][offset];
+  }
+
+  /**
+   * Diagonal entry of row i
+   */
+  diagonal(i: number): number {
+    return this.rows[i][i - this.firstColumn[i]];
+  }
+
+  /**
+   * Set diagonal entry of row i
+   */
+  setDiagonal(i: number, value: number): void {
+    this.rows[i][i - this.firstColumn[i]] = value;
+  }
+
+  /**
+   * Deep copy
+   */
+  clone(): SkylineMatrix {
+    const copy = new SkylineMatrix(this.firstColumn);
+    this.rows.forEach((row, i) => copy.rows[i].set(row));
+    return copy;
+  }
+
+  /**
+   * Solve A * x = b for symmetric positive-definite A
+   * Factorizes a copy; the matrix itself is left unchanged.
+   */
+  solveCholesky(b: ArrayLike<number>): number[] {
+    const n = this.size;
+    if (b.length !== n) {
+      throw new Error('Dimension mismatch in Cholesky solve');
+    }
+
+    // Decompose A = L * L^T, row by row inside the envelope
+    const first = this.firstColumn;
+    const L = this.rows.map(row => Float64Array.from(row));
+
+    for (let i = 0; i < n; i++) {
+      const Li = L[i];
+      const fi = first[i];
+
+      for (let j = fi; j < i; j++) {
+        const Lj = L[j];
+        const fj = first[j];
+        let sum = Li[j - fi];
+        for (let k = Math.max(fi, fj); k < j; k++) {
+          sum -= Li[k - fi] * Lj[k - fj];
+        }
+        Li[j - fi] = sum / Lj[j - fj];
+      }
+
+      let diag = Li[i - fi];
+      for (let k = fi; k < i; k++) {
+        diag -= Li[k - fi] * Li[k - fi];
+      }
+      if (diag <= 1e-12) {
+        throw new Error('Matrix is not positive definite');
+      }
+      Li[i - fi] = Math.sqrt(diag);
+    }
+
+    // Forward substitution: L * y = b
+    const y = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+      const fi = first[i];
+      let sum = b[i];
+      for (let k = fi; k < i; k++) {
+        sum -= L[i][k - fi] * y[k];
+      }
+      y[i] = sum / L[i][i - fi];
+    }
+
+    // Back substitution: L^T * x = y, column-wise over the envelope
+    const x = y;
+    for (let i = n - 1; i >= 0; i--) {
+      const fi = first[i];
+      x[i] /= L[i][i - fi];
+      for (let k = fi; k < i; k++) {
+        x[k] -= L[i][k - fi] * x[i];
+      }
+    }
+
+    return x;
+  }
+}
@@ -100,6 +100,13 @@ export class Vector3 {
     return new Vector3(this.x, this.y, this.z);
   }
 
+  /**
+   * Exact component-wise equality
+   */
+  equals(other: Vector3): boolean {
+    return this.x === other.x && this.y === other.y && this.z === other.z;
+  }
+
   /**
    * Convert to array
    */
@@ -6,6 +6,7 @@
 import { TypedEventEmitter } from './events';
 import { ARError, ErrorCodes } from './errors';
 import type { ARFrame } from './engine';
+import type { CameraIntrinsics as LensIntrinsics } from './camera/camera-intrinsics';
 
 /**
  * AR Context provided to plugins
@@ -34,13 +35,9 @@ export interface ARContext {
 }
 
 /**
- * Camera intrinsics
+ * Camera intrinsics at the capture resolution
  */
-export interface CameraIntrinsics {
-  fx: number;
-  fy: number;
-  cx: number;
-  cy: number;
+export interface CameraIntrinsics extends LensIntrinsics {
   width: number;
   height: number;
 }
@@ -0,0 +1,332 @@
+/**
+ * Anchor Manager
+ * Shareable anchors (cloud-anchor style) attached to the SLAM map
+ *
+ * - An anchor is a pose attached to its nearest keyframe; loop closures and
+ *   map merges move it along with that keyframe
+ * - Hosting serializes the anchor with a compact map fragment: the reference
+ *   keyframe, its nearest covisible keyframes and the points they observe,
+ *   expressed in the anchor's frame
+ * - Resolving relocalizes live keyframes against a hosted fragment; the
+ *   Sim(3) alignment gives the anchor's pose in the live map
+ */
+
+import type {
+  Keyframe,
+  SLAMAnchor,
+  HostedAnchor,
+  SLAMEvents,
+  LoopClosureCorrection,
+} from './types';
+import { SLAMMapManager } from './slam-map';
+import { LoopClosureDetector } from './loop-closure';
+import { MapMerger } from './map-merger';
+import { encodeMap, decodeMap } from './map-codec';
+import { TypedEventEmitter } from '../events';
+import { Sim3 } from '../math/sim3';
+import type { Vector3 } from '../math/vector';
+import type { Quaternion } from '../math/quaternion';
+import { generateId } from '../../utils/id-generator';
+
+export interface AnchorManagerConfig {
+  // Keyframes in a hosted map fragment (reference keyframe included)
+  maxFragmentKeyframes?: number;
+
+  // Minimum Sim(3) inliers to resolve an anchor
+  minInliers?: number;
+
+  // BoW similarity threshold for fragment keyframe candidates
+  similarityThreshold?: number;
+}
+
+/**
+ * Converts hosted anchors to bytes for sharing
+ */
+export interface AnchorSerializer {
+  serialize(anchor: HostedAnchor): Promise<Uint8Array>;
+  deserialize(data: Uint8Array): Promise<HostedAnchor>;
+}
+
+/**
+ * Binary anchor serializer
+ * The fragment is stored in the binary map format with the anchor ID as map ID.
+ */
+export const binaryAnchorSerializer: AnchorSerializer = {
+  serialize: (anchor) =>
+    encodeMap({ ...anchor.fragment, map: { ...anchor.fragment.map, id: anchor.id } }),
+  deserialize: async (data) => {
+    const fragment = await decodeMap(data);
+    return { id: fragment.map.id, fragment };
+  },
+};
+
+/**
+ * Hosted anchor waiting for a live keyframe to relocalize against it
+ */
+interface PendingResolve {
+  fragment: SLAMMapManager;
+  database: LoopClosureDetector;
+}
+
+export class AnchorManager extends TypedEventEmitter<SLAMEvents> {
+  private config: Required<AnchorManagerConfig>;
+  private anchors = new Map<string, SLAMAnchor>();
+  private pending = new Map<string, PendingResolve>();
+  private merger: MapMerger;
+
+  constructor(
+    private map: SLAMMapManager,
+    config: AnchorManagerConfig = {}
+  ) {
+    super();
+    this.config = {
+      maxFragmentKeyframes: config.maxFragmentKeyframes ?? 5,
+      minInliers: config.minInliers ?? 20,
+      similarityThreshold: config.similarityThreshold ?? 0.7,
+    };
+    this.merger = new MapMerger({ minInliers: this.config.minInliers });
+  }
+
+  /**
+   * Create an anchor at a world pose
+   * The anchor is attached to the nearest keyframe.
+   */
+  createAnchor(position: Vector3, rotation: Quaternion): SLAMAnchor {
+    const keyframe = this.findNearestKeyframe(position);
+    if (!keyframe) {
+      throw new Error('Cannot create anchor: map has no keyframes');
+    }
+
+    const anchor: SLAMAnchor = {
+      id: generateId(),
+      position: position.clone(),
+      rotation: rotation.clone().normalize(),
+      keyframeId: keyframe.id,
+      resolved: false,
+      createdAt: Date.now(),
+    };
+
+    this.anchors.set(anchor.id, anchor);
+    return anchor;
+  }
+
+  /**
+   * Serialize an anchor with the map fragment around it
+   *
+   * @param serializer Output format (binary map format by default)
+   */
+  async hostAnchor(
+    id: string,
+    serializer: AnchorSerializer = binaryAnchorSerializer
+  ): Promise<Uint8Array> {
+    const anchor = this.anchors.get(id);
+    if (!anchor) {
+      throw new Error(`Anchor not found: ${id}`);
+    }
+
+    const reference = this.getReferenceKeyframe(anchor);
+    if (!reference) {
+      throw new Error('Cannot host anchor: map has no keyframes');
+    }
+
+    // Reference keyframe plus its nearest covisible keyframes
+    const covisible = Array.from(this.map.getCovisibleKeyframes(reference.id))
+      .map(kfId => this.map.getKeyframe(kfId))
+      .filter((kf): kf is Keyframe => kf !== undefined)
+      .sort(
+        (a, b) =>
+          a.pose.position.distanceTo(reference.pose.position) -
+          b.pose.position.distanceTo(reference.pose.position)
+      )
+      .slice(0, this.config.maxFragmentKeyframes - 1);
+
+    const fragment = this.map.extract(
+      [reference.id, ...covisible.map(kf => kf.id)],
+      `Anchor ${anchor.id}`
+    );
+    if (fragment.getAllMapPoints().length === 0) {
+      throw new Error('Cannot host anchor: no map points near the anchor');
+    }
+
+    // Anchor frame: the anchor is at the origin
+    fragment.transform(Sim3.fromPose(anchor.position, anchor.rotation).inverse());
+
+    const data = await serializer.serialize({ id: anchor.id, fragment: fragment.serialize() });
+    console.log(
+      `[Anchors] Hosted anchor ${anchor.id} (${fragment.getAllKeyframes().length} keyframes, ` +
+        `${fragment.getAllMapPoints().length} map points, ${data.length} bytes)`
+    );
+    return data;
+  }
+
+  /**
+   * Start resolving a hosted anchor
+   * The anchor is resolved once a live keyframe relocalizes against its
+   * fragment (see {@link tryResolve}); 'slam:anchor-resolved' is emitted.
+   *
+   * @returns Anchor ID
+   */
+  async resolveAnchor(
+    data: Uint8Array,
+    serializer: AnchorSerializer = binaryAnchorSerializer
+  ): Promise<string> {
+    const hosted = await serializer.deserialize(data);
+    const fragment = SLAMMapManager.deserialize(hosted.fragment);
+
+    // BoW index over the fragment keyframes
+    const database = new LoopClosureDetector(fragment, {
+      similarityThreshold: this.config.similarityThreshold,
+    });
+    for (const keyframe of fragment.getAllKeyframes()) {
+      database.addKeyframe(keyframe);
+    }
+
+    this.anchors.delete(hosted.id);
+    this.pending.set(hosted.id, { fragment, database });
+
+    // Recent keyframes may already see the fragment
+    for (const keyframe of this.map.getRecentKeyframes(this.config.maxFragmentKeyframes).reverse()) {
+      if (!this.pending.has(hosted.id)) {break;}
+      this.tryResolve(keyframe);
+    }
+
+    return hosted.id;
+  }
+
+  /**
+   * Relocalize a live keyframe against the anchors being resolved
+   *
+   * @returns Anchors resolved by this keyframe
+   */
+  tryResolve(keyframe: Keyframe): SLAMAnchor[] {
+    const resolved: SLAMAnchor[] = [];
+
+    for (const [id, pending] of this.pending) {
+      const alignment = this.merger.relocalize(keyframe, this.map, pending.fragment, pending.database);
+      if (!alignment) {continue;}
+
+      // Live frame -> anchor frame; the anchor is the anchor frame's origin
+      const anchorToLive = alignment.transform.inverse();
+      const anchor: SLAMAnchor = {
+        id,
+        position: anchorToLive.translation,
+        rotation: anchorToLive.rotation,
+        keyframeId: keyframe.id,
+        resolved: true,
+        createdAt: Date.now(),
+      };
+
+      this.pending.delete(id);
+      this.anchors.set(id, anchor);
+      resolved.push(anchor);
+
+      console.log(`[Anchors] Resolved anchor ${id} (${alignment.inliers} inliers)`);
+      this.emit('slam:anchor-resolved', anchor);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Move anchors with their reference keyframes after a loop closure
+   */
+  applyLoopCorrection(correction: LoopClosureCorrection): void {
+    for (const anchor of this.anchors.values()) {
+      const reference = this.getReferenceKeyframe(anchor);
+      const transform = reference && correction.corrections.get(reference.id);
+      if (!transform) {continue;}
+
+      this.moveAnchor(anchor, transform);
+    }
+  }
+
+  /**
+   * Move all anchors after the whole map was transformed (e.g. map merge)
+   */
+  applyTransform(transform: Sim3): void {
+    for (const anchor of this.anchors.values()) {
+      this.moveAnchor(anchor, transform);
+    }
+  }
+
+  /**
+   * Get anchor by ID
+   */
+  getAnchor(id: string): SLAMAnchor | undefined {
+    return this.anchors.get(id);
+  }
+
+  /**
+   * Get all tracked anchors
+   */
+  getAnchors(): SLAMAnchor[] {
+    return Array.from(this.anchors.values());
+  }
+
+  /**
+   * Whether an anchor is waiting to be resolved
+   */
+  isResolving(id: string): boolean {
+    return this.pending.has(id);
+  }
+
+  /**
+   * Remove an anchor or stop resolving it
+   */
+  removeAnchor(id: string): void {
+    this.anchors.delete(id);
+    this.pending.delete(id);
+  }
+
+  /**
+   * Remove all anchors
+   */
+  clear(): void {
+    this.anchors.clear();
+    this.pending.clear();
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Apply a transform to an anchor pose and notify listeners
+   */
+  private moveAnchor(anchor: SLAMAnchor, transform: Sim3): void {
+    anchor.position = transform.transformPoint(anchor.position);
+    anchor.rotation = transform.rotation.multiply(anchor.rotation).normalize();
+    this.emit('slam:anchor-updated', anchor);
+  }
+
+  /**
+   * Reference keyframe of an anchor
+   * Re-attaches the anchor to the nearest keyframe if its keyframe was culled.
+   */
+  private getReferenceKeyframe(anchor: SLAMAnchor): Keyframe | undefined {
+    const keyframe = this.map.getKeyframe(anchor.keyframeId);
+    if (keyframe) {return keyframe;}
+
+    const nearest = this.findNearestKeyframe(anchor.position);
+    if (nearest) {
+      anchor.keyframeId = nearest.id;
+    }
+    return nearest;
+  }
+
+  /**
+   * Find the keyframe closest to a position
+   */
+  private findNearestKeyframe(position: Vector3): Keyframe | undefined {
+    let nearest: Keyframe | undefined;
+    let nearestDistance = Infinity;
+
+    for (const keyframe of this.map.getAllKeyframes()) {
+      const distance = keyframe.pose.position.distanceTo(position);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = keyframe;
+      }
+    }
+
+    return nearest;
+  }
+}
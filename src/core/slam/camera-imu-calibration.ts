@@ -0,0 +1,358 @@
+/**
+ * Camera-IMU Calibration
+ * Estimates the rotation between IMU and camera and the offset between
+ * their clocks from a short recording with rotational motion
+ *
+ * - Time offset: maximizes the correlation of angular rate magnitudes
+ *   (rotation invariant) between gyroscope and visual rotation
+ * - Rotation: aligns the time-matched angular rates (Kabsch); the
+ *   centroid difference gives the residual gyroscope bias
+ *
+ * Rotate the device about all three axes for a few seconds while tracking.
+ */
+
+import type { IMUMeasurement, CameraIMUCalibration } from './types';
+import { Vector3 } from '../math/vector';
+import { Quaternion } from '../math/quaternion';
+import { Matrix } from '../math/matrix-ops';
+
+export interface CameraIMUCalibratorConfig {
+  // Largest clock offset searched (ms)
+  maxTimeOffset?: number;
+
+  // Offset search resolution before refinement (ms)
+  timeOffsetStep?: number;
+
+  // Minimum time-matched angular rate samples
+  minSamples?: number;
+
+  // Mean angular rate needed for the estimate to be observable (rad/s)
+  minRotationRate?: number;
+
+  // Visual rotations further apart are not differentiated (ms)
+  maxFrameInterval?: number;
+}
+
+/**
+ * Key/value storage for persisted calibration (localStorage compatible)
+ */
+export interface CalibrationStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export const CAMERA_IMU_CALIBRATION_KEY = 'babylonjs-ar-camera-imu-calibration';
+
+/**
+ * Angular rate sample on the camera clock
+ */
+interface RateSample {
+  timestamp: number;
+  rate: Vector3;
+}
+
+export class CameraIMUCalibrator {
+  private config: Required<CameraIMUCalibratorConfig>;
+  private rotations: Array<{ timestamp: number; rotation: Quaternion }> = [];
+  private measurements: IMUMeasurement[] = [];
+
+  constructor(config: CameraIMUCalibratorConfig = {}) {
+    this.config = {
+      maxTimeOffset: config.maxTimeOffset ?? 100,
+      timeOffsetStep: config.timeOffsetStep ?? 1,
+      minSamples: config.minSamples ?? 30,
+      minRotationRate: config.minRotationRate ?? 0.3,
+      maxFrameInterval: config.maxFrameInterval ?? 100,
+    };
+  }
+
+  /**
+   * Add a tracked camera rotation (camera-to-world, camera clock in ms)
+   */
+  addVisualRotation(timestamp: number, rotation: Quaternion): void {
+    this.rotations.push({ timestamp, rotation: rotation.clone() });
+  }
+
+  /**
+   * Add a raw IMU reading (IMU frame and clock)
+   */
+  addIMUMeasurement(measurement: IMUMeasurement): void {
+    this.measurements.push(measurement);
+  }
+
+  /**
+   * Number of recorded visual rotations and IMU readings
+   */
+  getSampleCount(): { rotations: number; measurements: number } {
+    return { rotations: this.rotations.length, measurements: this.measurements.length };
+  }
+
+  /**
+   * Estimate the calibration from the recording
+   * Returns null if the motion does not constrain it.
+   */
+  calibrate(): CameraIMUCalibration | null {
+    const visual = this.computeVisualRates();
+    this.measurements.sort((a, b) => a.timestamp - b.timestamp);
+
+    if (visual.length < this.config.minSamples || this.measurements.length < 2) {
+      console.warn('[CameraIMUCalibrator] Not enough samples');
+      return null;
+    }
+
+    const meanRate = visual.reduce((sum, s) => sum + s.rate.length(), 0) / visual.length;
+    if (meanRate < this.config.minRotationRate) {
+      console.warn(`[CameraIMUCalibrator] Not enough rotation (${meanRate.toFixed(2)} rad/s)`);
+      return null;
+    }
+
+    const offset = this.estimateTimeOffset(visual);
+    if (!offset) {
+      console.warn('[CameraIMUCalibrator] Angular rates do not correlate');
+      return null;
+    }
+
+    const pairs = this.matchRates(visual, offset.timeOffset);
+    const alignment = this.estimateRotation(pairs);
+
+    console.log(
+      `[CameraIMUCalibrator] Time offset ${offset.timeOffset.toFixed(2)} ms, ` +
+        `RMS ${alignment.rmsError.toFixed(4)} rad/s over ${pairs.length} samples`
+    );
+
+    return {
+      cameraFromIMU: alignment.rotation,
+      timeOffset: offset.timeOffset,
+      gyroBias: alignment.gyroBias,
+      rmsError: alignment.rmsError,
+      correlation: offset.correlation,
+      numSamples: pairs.length,
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Clear the recording
+   */
+  reset(): void {
+    this.rotations = [];
+    this.measurements = [];
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Camera-frame angular rates between consecutive visual rotations
+   */
+  private computeVisualRates(): RateSample[] {
+    const rotations = [...this.rotations].sort((a, b) => a.timestamp - b.timestamp);
+    const samples: RateSample[] = [];
+
+    for (let k = 1; k < rotations.length; k++) {
+      const a = rotations[k - 1];
+      const b = rotations[k];
+      const dt = b.timestamp - a.timestamp;
+      if (dt <= 0 || dt > this.config.maxFrameInterval) {continue;}
+
+      const delta = a.rotation.conjugate().multiply(b.rotation).normalize().toRotationVector();
+      samples.push({
+        timestamp: (a.timestamp + b.timestamp) / 2,
+        rate: delta.multiply(1000 / dt),
+      });
+    }
+
+    return samples;
+  }
+
+  /**
+   * Search the clock offset maximizing rate magnitude correlation
+   */
+  private estimateTimeOffset(visual: RateSample[]): { timeOffset: number; correlation: number } | null {
+    const { maxTimeOffset, timeOffsetStep } = this.config;
+    const offsets: number[] = [];
+    const scores: number[] = [];
+
+    for (let offset = -maxTimeOffset; offset <= maxTimeOffset + 1e-9; offset += timeOffsetStep) {
+      offsets.push(offset);
+      scores.push(this.correlate(visual, offset));
+    }
+
+    let best = 0;
+    for (let i = 1; i < scores.length; i++) {
+      if (scores[i] > scores[best]) {best = i;}
+    }
+    if (!Number.isFinite(scores[best]) || scores[best] <= 0.5) {return null;}
+
+    // Parabolic refinement around the peak
+    let timeOffset = offsets[best];
+    if (best > 0 && best < scores.length - 1) {
+      const [l, c, r] = [scores[best - 1], scores[best], scores[best + 1]];
+      const denominator = l - 2 * c + r;
+      if (denominator < 0) {
+        timeOffset += (0.5 * (l - r) / denominator) * timeOffsetStep;
+      }
+    }
+
+    return { timeOffset, correlation: scores[best] };
+  }
+
+  /**
+   * Pearson correlation of visual and gyroscope rate magnitudes at an offset
+   */
+  private correlate(visual: RateSample[], timeOffset: number): number {
+    const pairs = this.matchRates(visual, timeOffset);
+    if (pairs.length < this.config.minSamples) {return -Infinity;}
+
+    const a = pairs.map(p => p.camera.length());
+    const b = pairs.map(p => p.imu.length());
+    const meanA = a.reduce((s, v) => s + v, 0) / a.length;
+    const meanB = b.reduce((s, v) => s + v, 0) / b.length;
+
+    let cov = 0;
+    let varA = 0;
+    let varB = 0;
+    for (let i = 0; i < a.length; i++) {
+      cov += (a[i] - meanA) * (b[i] - meanB);
+      varA += (a[i] - meanA) ** 2;
+      varB += (b[i] - meanB) ** 2;
+    }
+
+    return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : -Infinity;
+  }
+
+  /**
+   * Visual rates paired with gyroscope rates interpolated at the IMU time
+   */
+  private matchRates(visual: RateSample[], timeOffset: number): Array<{ camera: Vector3; imu: Vector3 }> {
+    const pairs: Array<{ camera: Vector3; imu: Vector3 }> = [];
+
+    for (const sample of visual) {
+      const imu = this.interpolateGyroscope(sample.timestamp + timeOffset);
+      if (imu) {
+        pairs.push({ camera: sample.rate, imu });
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Gyroscope reading at an IMU timestamp (linear interpolation)
+   */
+  private interpolateGyroscope(timestamp: number): Vector3 | null {
+    const m = this.measurements;
+    if (timestamp < m[0].timestamp || timestamp > m[m.length - 1].timestamp) {return null;}
+
+    // Last reading at or before the timestamp
+    let lo = 0;
+    let hi = m.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (m[mid].timestamp <= timestamp) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+
+    const span = m[hi].timestamp - m[lo].timestamp;
+    const t = span > 0 ? (timestamp - m[lo].timestamp) / span : 0;
+    return m[lo].gyroscope.multiply(1 - t).add(m[hi].gyroscope.multiply(t));
+  }
+
+  /**
+   * Rotation and bias with ω_camera = R (ω_imu - b), least squares (Kabsch)
+   */
+  private estimateRotation(pairs: Array<{ camera: Vector3; imu: Vector3 }>): {
+    rotation: Quaternion;
+    gyroBias: Vector3;
+    rmsError: number;
+  } {
+    const n = pairs.length;
+    const meanCamera = pairs.reduce((s, p) => s.add(p.camera), new Vector3(0, 0, 0)).multiply(1 / n);
+    const meanIMU = pairs.reduce((s, p) => s.add(p.imu), new Vector3(0, 0, 0)).multiply(1 / n);
+
+    // Cross-covariance Σ (ω_c - ω̄_c)(ω_i - ω̄_i)^T
+    const M = Matrix.zeros(3, 3);
+    for (const { camera, imu } of pairs) {
+      const c = camera.subtract(meanCamera).toArray();
+      const i = imu.subtract(meanIMU).toArray();
+      for (let r = 0; r < 3; r++) {
+        for (let k = 0; k < 3; k++) {
+          M[r][k] += c[r] * i[k];
+        }
+      }
+    }
+
+    const { U, V } = Matrix.svd(M);
+    const d = Math.sign(Matrix.determinant(Matrix.multiply(U, Matrix.transpose(V)))) || 1;
+    const R = Matrix.multiply(Matrix.multiply(U, Matrix.diagonal([1, 1, d])), Matrix.transpose(V));
+    const rotation = Quaternion.fromRotationMatrix(R.flat()).normalize();
+
+    // ω̄_c = R (ω̄_i - b)
+    const gyroBias = meanIMU.subtract(rotation.conjugate().rotateVector(meanCamera));
+
+    let sum = 0;
+    for (const { camera, imu } of pairs) {
+      const residual = camera.subtract(rotation.rotateVector(imu.subtract(gyroBias)));
+      sum += residual.dot(residual);
+    }
+
+    return { rotation, gyroBias, rmsError: Math.sqrt(sum / n) };
+  }
+}
+
+/**
+ * Persist a calibration (localStorage by default)
+ */
+export function saveCameraIMUCalibration(
+  calibration: CameraIMUCalibration,
+  storage: CalibrationStorage | undefined = getDefaultStorage()
+): void {
+  if (!storage) {
+    throw new Error('No storage available for camera-IMU calibration');
+  }
+
+  storage.setItem(
+    CAMERA_IMU_CALIBRATION_KEY,
+    JSON.stringify({
+      ...calibration,
+      cameraFromIMU: calibration.cameraFromIMU.toArray(),
+      gyroBias: calibration.gyroBias.toArray(),
+    })
+  );
+}
+
+/**
+ * Load a persisted calibration
+ * Returns null if none is stored or storage is unavailable.
+ */
+export function loadCameraIMUCalibration(
+  storage: CalibrationStorage | undefined = getDefaultStorage()
+): CameraIMUCalibration | null {
+  const json = storage?.getItem(CAMERA_IMU_CALIBRATION_KEY);
+  if (!json) {return null;}
+
+  try {
+    const data = JSON.parse(json);
+    const [qx, qy, qz, qw] = data.cameraFromIMU;
+    const [bx, by, bz] = data.gyroBias;
+    return {
+      ...data,
+      cameraFromIMU: new Quaternion(qx, qy, qz, qw),
+      gyroBias: new Vector3(bx, by, bz),
+    };
+  } catch (error) {
+    console.warn('[CameraIMUCalibrator] Ignoring invalid stored calibration:', error);
+    return null;
+  }
+}
+
+function getDefaultStorage(): CalibrationStorage | undefined {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : undefined;
+  } catch {
+    // Access can throw when storage is disabled
+    return undefined;
+  }
+}
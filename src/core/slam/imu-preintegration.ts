@@ -0,0 +1,386 @@
+/**
+ * IMU Preintegration
+ * On-manifold preintegration of gyroscope and accelerometer readings
+ * between two keyframes (Forster et al., "On-Manifold Preintegration for
+ * Real-Time Visual-Inertial Odometry", 2017)
+ *
+ * The relative motion increments (ΔR, Δv, Δp) are independent of the
+ * keyframe states, so they are integrated once. A change of the bias
+ * estimate is applied to first order through the bias Jacobians instead
+ * of re-integrating the readings.
+ *
+ * Readings are expected in the camera frame; the lever arm between IMU and
+ * camera is neglected.
+ */
+
+import type { IMUMeasurement, PreintegratedIMU } from './types';
+import { Vector3 } from '../math/vector';
+import { Quaternion } from '../math/quaternion';
+import { Matrix } from '../math/matrix-ops';
+
+export interface IMUPreintegratorConfig {
+  // Gyroscope noise density (rad/s/√Hz)
+  gyroscopeNoise?: number;
+
+  // Accelerometer noise density (m/s²/√Hz)
+  accelerometerNoise?: number;
+
+  // Longest gap between readings that is integrated (seconds)
+  maxTimeDelta?: number;
+}
+
+/**
+ * Keyframe state constrained by an inertial residual
+ */
+export interface InertialState {
+  position: Vector3;
+  rotation: Quaternion; // Camera-to-world
+  velocity: Vector3;
+  gyroBias: Vector3;
+  accelBias: Vector3;
+}
+
+/**
+ * Inertial residual and its Jacobians
+ * Residual order [r_R, r_v, r_p]. Jacobian columns follow the perturbation
+ * [δφ, δp, δv, δbg, δba] with R' = R Exp(δφ), p' = p + R δp.
+ */
+export interface InertialResidual {
+  residual: number[]; // 9
+  jacobianI: number[][]; // 9x15
+  jacobianJ: number[][]; // 9x15
+}
+
+/**
+ * Integrates IMU readings between two keyframes
+ */
+export class IMUPreintegrator {
+  private config: Required<IMUPreintegratorConfig>;
+  private dt = 0;
+  private deltaRotation = Quaternion.identity();
+  private deltaVelocity = new Vector3(0, 0, 0);
+  private deltaPosition = new Vector3(0, 0, 0);
+  private jRg = Matrix.zeros(3, 3);
+  private jVg = Matrix.zeros(3, 3);
+  private jVa = Matrix.zeros(3, 3);
+  private jPg = Matrix.zeros(3, 3);
+  private jPa = Matrix.zeros(3, 3);
+  private covariance = Matrix.zeros(9, 9);
+  private lastMeasurement: IMUMeasurement | null = null;
+  private count = 0;
+
+  constructor(
+    config: IMUPreintegratorConfig = {},
+    private gyroBias: Vector3 = new Vector3(0, 0, 0),
+    private accelBias: Vector3 = new Vector3(0, 0, 0)
+  ) {
+    this.config = {
+      gyroscopeNoise: config.gyroscopeNoise ?? 1.7e-4,
+      accelerometerNoise: config.accelerometerNoise ?? 2e-3,
+      maxTimeDelta: config.maxTimeDelta ?? 0.1,
+    };
+  }
+
+  /**
+   * Add a reading from the IMU stream
+   * The previous reading is integrated over the gap up to this one.
+   */
+  addMeasurement(measurement: IMUMeasurement): void {
+    const last = this.lastMeasurement;
+    this.lastMeasurement = measurement;
+    if (!last) {return;}
+
+    const dt = (measurement.timestamp - last.timestamp) / 1000;
+    if (dt <= 0 || dt > this.config.maxTimeDelta) {return;}
+
+    this.integrate(last.gyroscope, last.accelerometer, dt);
+  }
+
+  /**
+   * Integrate one reading held for dt seconds
+   */
+  integrate(gyroscope: Vector3, accelerometer: Vector3, dt: number): void {
+    const omega = gyroscope.subtract(this.gyroBias);
+    const accel = accelerometer.subtract(this.accelBias);
+
+    const dR = rotationMatrix(this.deltaRotation);
+    const dRaSkew = Matrix.multiply(dR, skew(accel));
+    const step = Quaternion.fromRotationVector(omega.multiply(dt));
+    const stepT = Matrix.transpose(rotationMatrix(step));
+    const jrStep = rightJacobian(omega.multiply(dt));
+    const dt2 = dt * dt;
+
+    // Noise propagation: A (9x9) on the state, B (9x6) on [η_g, η_a]
+    const A = Matrix.identity(9);
+    const B = Matrix.zeros(9, 6);
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) {
+        A[r][c] = stepT[r][c];
+        A[3 + r][c] = -dRaSkew[r][c] * dt;
+        A[6 + r][c] = -0.5 * dRaSkew[r][c] * dt2;
+        B[r][c] = jrStep[r][c] * dt;
+        B[3 + r][3 + c] = dR[r][c] * dt;
+        B[6 + r][3 + c] = 0.5 * dR[r][c] * dt2;
+      }
+      A[6 + r][3 + r] = dt;
+    }
+
+    // Discrete noise from continuous densities
+    const gyroVar = (this.config.gyroscopeNoise * this.config.gyroscopeNoise) / dt;
+    const accelVar = (this.config.accelerometerNoise * this.config.accelerometerNoise) / dt;
+    const BQBt = Matrix.multiply(
+      Matrix.multiply(B, Matrix.diagonal([gyroVar, gyroVar, gyroVar, accelVar, accelVar, accelVar])),
+      Matrix.transpose(B)
+    );
+    this.covariance = Matrix.add(
+      Matrix.multiply(Matrix.multiply(A, this.covariance), Matrix.transpose(A)),
+      BQBt
+    );
+
+    // Bias Jacobians (position first: it uses the previous velocity terms)
+    const dRaSkewJRg = Matrix.multiply(dRaSkew, this.jRg);
+    this.jPa = Matrix.subtract(
+      Matrix.add(this.jPa, Matrix.scale(this.jVa, dt)),
+      Matrix.scale(dR, 0.5 * dt2)
+    );
+    this.jPg = Matrix.subtract(
+      Matrix.add(this.jPg, Matrix.scale(this.jVg, dt)),
+      Matrix.scale(dRaSkewJRg, 0.5 * dt2)
+    );
+    this.jVa = Matrix.subtract(this.jVa, Matrix.scale(dR, dt));
+    this.jVg = Matrix.subtract(this.jVg, Matrix.scale(dRaSkewJRg, dt));
+    this.jRg = Matrix.subtract(Matrix.multiply(stepT, this.jRg), Matrix.scale(jrStep, dt));
+
+    // Motion increments
+    const accelWorld = this.deltaRotation.rotateVector(accel);
+    this.deltaPosition = this.deltaPosition
+      .add(this.deltaVelocity.multiply(dt))
+      .add(accelWorld.multiply(0.5 * dt2));
+    this.deltaVelocity = this.deltaVelocity.add(accelWorld.multiply(dt));
+    this.deltaRotation = this.deltaRotation.multiply(step).normalize();
+
+    this.dt += dt;
+    this.count++;
+  }
+
+  /**
+   * Snapshot of the preintegrated motion
+   */
+  getResult(): PreintegratedIMU {
+    return {
+      dt: this.dt,
+      deltaRotation: this.deltaRotation.clone(),
+      deltaVelocity: this.deltaVelocity.clone(),
+      deltaPosition: this.deltaPosition.clone(),
+      gyroBias: this.gyroBias.clone(),
+      accelBias: this.accelBias.clone(),
+      jacobians: {
+        rotationGyro: this.jRg.map(row => row.slice()),
+        velocityGyro: this.jVg.map(row => row.slice()),
+        velocityAccel: this.jVa.map(row => row.slice()),
+        positionGyro: this.jPg.map(row => row.slice()),
+        positionAccel: this.jPa.map(row => row.slice()),
+      },
+      covariance: this.covariance.map(row => row.slice()),
+    };
+  }
+
+  /**
+   * Number of integrated readings
+   */
+  getMeasurementCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Start a new interval
+   * The last reading is kept, so the next interval starts where this one ended.
+   */
+  reset(gyroBias: Vector3 = this.gyroBias, accelBias: Vector3 = this.accelBias): void {
+    this.gyroBias = gyroBias.clone();
+    this.accelBias = accelBias.clone();
+    this.dt = 0;
+    this.deltaRotation = Quaternion.identity();
+    this.deltaVelocity = new Vector3(0, 0, 0);
+    this.deltaPosition = new Vector3(0, 0, 0);
+    this.jRg = Matrix.zeros(3, 3);
+    this.jVg = Matrix.zeros(3, 3);
+    this.jVa = Matrix.zeros(3, 3);
+    this.jPg = Matrix.zeros(3, 3);
+    this.jPa = Matrix.zeros(3, 3);
+    this.covariance = Matrix.zeros(9, 9);
+    this.count = 0;
+  }
+}
+
+/**
+ * Motion increments corrected to first order for another bias estimate
+ */
+export function correctPreintegration(
+  preintegration: PreintegratedIMU,
+  gyroBias: Vector3,
+  accelBias: Vector3
+): { deltaRotation: Quaternion; deltaVelocity: Vector3; deltaPosition: Vector3 } {
+  const dbg = gyroBias.subtract(preintegration.gyroBias);
+  const dba = accelBias.subtract(preintegration.accelBias);
+  const { jacobians } = preintegration;
+
+  return {
+    deltaRotation: preintegration.deltaRotation
+      .multiply(Quaternion.fromRotationVector(mul3(jacobians.rotationGyro, dbg)))
+      .normalize(),
+    deltaVelocity: preintegration.deltaVelocity
+      .add(mul3(jacobians.velocityGyro, dbg))
+      .add(mul3(jacobians.velocityAccel, dba)),
+    deltaPosition: preintegration.deltaPosition
+      .add(mul3(jacobians.positionGyro, dbg))
+      .add(mul3(jacobians.positionAccel, dba)),
+  };
+}
+
+/**
+ * Inertial residual between two keyframe states
+ * The biases of state i are used for the bias correction.
+ */
+export function evaluateInertialResidual(
+  preintegration: PreintegratedIMU,
+  i: InertialState,
+  j: InertialState,
+  gravity: Vector3
+): InertialResidual {
+  const { dt, jacobians } = preintegration;
+  const corrected = correctPreintegration(preintegration, i.gyroBias, i.accelBias);
+
+  const RiT = i.rotation.conjugate();
+  const rotationError = corrected.deltaRotation.conjugate().multiply(RiT).multiply(j.rotation).normalize();
+  const rR = rotationError.toRotationVector();
+
+  // Velocity and position differences in frame i
+  const dv = RiT.rotateVector(j.velocity.subtract(i.velocity).subtract(gravity.multiply(dt)));
+  const dp = RiT.rotateVector(
+    j.position
+      .subtract(i.position)
+      .subtract(i.velocity.multiply(dt))
+      .subtract(gravity.multiply(0.5 * dt * dt))
+  );
+  const rV = dv.subtract(corrected.deltaVelocity);
+  const rP = dp.subtract(corrected.deltaPosition);
+
+  const Ri = rotationMatrix(i.rotation);
+  const RiTm = Matrix.transpose(Ri);
+  const Rj = rotationMatrix(j.rotation);
+  const jrInv = rightJacobianInverse(rR);
+  const dbg = i.gyroBias.subtract(preintegration.gyroBias);
+
+  const Ji = Matrix.zeros(9, 15);
+  const Jj = Matrix.zeros(9, 15);
+  const set = (J: number[][], row: number, col: number, block: number[][], sign = 1) => {
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) {
+        J[row + r][col + c] = sign * block[r][c];
+      }
+    }
+  };
+
+  // Rotation residual
+  set(Ji, 0, 0, Matrix.multiply(jrInv, Matrix.multiply(Matrix.transpose(Rj), Ri)), -1);
+  set(Jj, 0, 0, jrInv);
+  set(
+    Ji, 0, 9,
+    Matrix.multiply(
+      Matrix.multiply(jrInv, Matrix.transpose(rotationMatrix(rotationError))),
+      Matrix.multiply(rightJacobian(mul3(jacobians.rotationGyro, dbg)), jacobians.rotationGyro)
+    ),
+    -1
+  );
+
+  // Velocity residual
+  set(Ji, 3, 0, skew(dv));
+  set(Ji, 3, 6, RiTm, -1);
+  set(Jj, 3, 6, RiTm);
+  set(Ji, 3, 9, jacobians.velocityGyro, -1);
+  set(Ji, 3, 12, jacobians.velocityAccel, -1);
+
+  // Position residual
+  set(Ji, 6, 0, skew(dp));
+  set(Ji, 6, 3, Matrix.identity(3), -1);
+  set(Jj, 6, 3, Matrix.multiply(RiTm, Rj));
+  set(Ji, 6, 6, Matrix.scale(RiTm, dt), -1);
+  set(Ji, 6, 9, jacobians.positionGyro, -1);
+  set(Ji, 6, 12, jacobians.positionAccel, -1);
+
+  return {
+    residual: [rR.x, rR.y, rR.z, rV.x, rV.y, rV.z, rP.x, rP.y, rP.z],
+    jacobianI: Ji,
+    jacobianJ: Jj,
+  };
+}
+
+/**
+ * Information matrix (inverse covariance) of a preintegration
+ */
+export function getPreintegrationInformation(preintegration: PreintegratedIMU): number[][] {
+  // Normalize before inverting: covariances of short intervals are tiny
+  const covariance = preintegration.covariance;
+  const scale = Math.max(...covariance.map((row, i) => row[i]), 1e-30);
+  const normalized = covariance.map((row, r) =>
+    row.map((value, c) => value / scale + (r === c ? 1e-9 : 0))
+  );
+
+  return Matrix.scale(Matrix.invert(normalized), 1 / scale);
+}
+
+// ==================== SO(3) helpers ====================
+
+function skew(v: Vector3): number[][] {
+  return [
+    [0, -v.z, v.y],
+    [v.z, 0, -v.x],
+    [-v.y, v.x, 0],
+  ];
+}
+
+function rotationMatrix(q: Quaternion): number[][] {
+  const R = q.toRotationMatrix();
+  return [R.slice(0, 3), R.slice(3, 6), R.slice(6, 9)];
+}
+
+function mul3(M: number[][], v: Vector3): Vector3 {
+  return new Vector3(
+    M[0][0] * v.x + M[0][1] * v.y + M[0][2] * v.z,
+    M[1][0] * v.x + M[1][1] * v.y + M[1][2] * v.z,
+    M[2][0] * v.x + M[2][1] * v.y + M[2][2] * v.z
+  );
+}
+
+/**
+ * Right Jacobian of SO(3)
+ */
+function rightJacobian(phi: Vector3): number[][] {
+  const theta = phi.length();
+  const W = skew(phi);
+  if (theta < 1e-6) {
+    return Matrix.subtract(Matrix.identity(3), Matrix.scale(W, 0.5));
+  }
+
+  const W2 = Matrix.multiply(W, W);
+  return Matrix.add(
+    Matrix.subtract(Matrix.identity(3), Matrix.scale(W, (1 - Math.cos(theta)) / (theta * theta))),
+    Matrix.scale(W2, (theta - Math.sin(theta)) / (theta * theta * theta))
+  );
+}
+
+/**
+ * Inverse of the right Jacobian of SO(3)
+ */
+function rightJacobianInverse(phi: Vector3): number[][] {
+  const theta = phi.length();
+  const W = skew(phi);
+  if (theta < 1e-6) {
+    return Matrix.add(Matrix.identity(3), Matrix.scale(W, 0.5));
+  }
+
+  const W2 = Matrix.multiply(W, W);
+  const k = 1 / (theta * theta) - (1 + Math.cos(theta)) / (2 * theta * Math.sin(theta));
+  return Matrix.add(Matrix.add(Matrix.identity(3), Matrix.scale(W, 0.5)), Matrix.scale(W2, k));
+}
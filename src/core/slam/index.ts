@@ -9,7 +9,33 @@ export { KeyframeManager } from './keyframe-manager';
 export { ExtendedKalmanFilter } from './extended-kalman-filter';
 export { IMUManager } from './imu-manager';
 export { MapStorage } from './map-storage';
+export {
+  IndexedDBMapBackend,
+  LocalStorageMapBackend,
+  MemoryMapBackend,
+  FileSystemMapBackend,
+  HTTPMapBackend,
+} from './map-storage-backends';
+export { encodeMap, decodeMap, MAP_FORMAT_VERSION } from './map-codec';
 export { LoopClosureDetector } from './loop-closure';
+export { PoseGraphOptimizer } from './pose-graph-optimizer';
+export { LocalBundleAdjuster } from './local-bundle-adjuster';
+export {
+  IMUPreintegrator,
+  correctPreintegration,
+  evaluateInertialResidual,
+} from './imu-preintegration';
+export { InertialInitializer } from './inertial-initializer';
+export {
+  CameraIMUCalibrator,
+  saveCameraIMUCalibration,
+  loadCameraIMUCalibration,
+  CAMERA_IMU_CALIBRATION_KEY,
+} from './camera-imu-calibration';
+export { LocalMappingWorkerPool } from './local-mapping-worker-pool';
+export { MapInitializer } from './map-initializer';
+export { MapMerger } from './map-merger';
+export { AnchorManager, binaryAnchorSerializer } from './anchor-manager';
 
 // Refactored SLAM components
 export { SLAMTracker } from './slam-tracker';
@@ -32,14 +58,66 @@ export type {
   SLAMMap,
   LoopClosureCandidate,
   SerializedMap,
+  LoopClosureCorrection,
+  MapMergeResult,
+  SLAMAnchor,
+  HostedAnchor,
+  PreintegratedIMU,
+  KeyframeInertialData,
+  InertialInitializationResult,
+  CameraIMUCalibration,
+  SLAMEvents,
 } from './types';
 
 export type { KeyframeCandidate } from './keyframe-manager';
 export type { EKFState, EKFConfig } from './extended-kalman-filter';
 export type { IMUManagerConfig } from './imu-manager';
 export type { StorageConfig, StoredMap } from './map-storage';
+export type {
+  MapStorageBackend,
+  StoredMapInfo,
+  IndexedDBMapBackendConfig,
+  LocalStorageMapBackendConfig,
+  FileSystemMapBackendConfig,
+  HTTPMapBackendConfig,
+} from './map-storage-backends';
+export type { MapEncodeOptions } from './map-codec';
 export type { LoopClosureConfig } from './loop-closure';
+export type {
+  PoseGraphOptimizerConfig,
+  PoseGraph,
+  PoseGraphEdge,
+  PoseGraphResult,
+  LoopConstraint,
+} from './pose-graph-optimizer';
+export type {
+  LocalBundleAdjusterConfig,
+  BundleAdjustmentResult,
+  BundleAdjustmentProblem,
+  BundleAdjustmentSolution,
+  BundleAdjustmentInertialState,
+  BundleAdjustmentInertialEdge,
+} from './local-bundle-adjuster';
+export type {
+  IMUPreintegratorConfig,
+  InertialState,
+  InertialResidual,
+} from './imu-preintegration';
+export type { InertialInitializerConfig } from './inertial-initializer';
+export type { CameraIMUCalibratorConfig, CalibrationStorage } from './camera-imu-calibration';
+export type { LocalMappingJob, LocalMappingDelta, MappingJob, MappingDelta } from './local-mapping';
+export type { LoopClosingConfig, LoopClosingJob, LoopClosingDelta, LoopClosingResult } from './loop-closing';
+export type { LocalMappingWorkerPoolConfig } from './local-mapping-worker-pool';
+export type {
+  MapInitializerConfig,
+  InitializationFrame,
+  TwoViewReconstruction,
+  MapInitializationResult,
+} from './map-initializer';
+export type { MapMergerConfig, MapAlignment } from './map-merger';
+export type { AnchorManagerConfig, AnchorSerializer } from './anchor-manager';
 
 // Refactored component types
 export type { TrackingContext } from './slam-tracker';
 export type { KeyframeCreationContext } from './slam-mapper';
+export type { VIOManagerOptions } from './vio-manager';
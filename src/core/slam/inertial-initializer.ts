@@ -0,0 +1,262 @@
+/**
+ * Inertial Initializer
+ * Recovers gravity, metric scale, keyframe velocities and gyroscope bias
+ * from an up-to-scale visual trajectory and the IMU preintegrated between
+ * its keyframes (visual-inertial alignment, as in VINS-Mono)
+ *
+ * 1. Gyroscope bias: align preintegrated rotations with visual rotations
+ * 2. Linear alignment: solve velocities, gravity and scale jointly
+ * 3. Gravity refinement: re-solve on the tangent plane of |g| = 9.81
+ *
+ * Accelerometer bias is left at zero; it is refined later by
+ * visual-inertial bundle adjustment.
+ */
+
+import type { Keyframe, InertialInitializationResult, PreintegratedIMU } from './types';
+import { correctPreintegration } from './imu-preintegration';
+import { Vector3 } from '../math/vector';
+import { Matrix } from '../math/matrix-ops';
+
+export interface InertialInitializerConfig {
+  // Minimum keyframes with preintegrated IMU
+  minKeyframes?: number;
+
+  // Minimum time spanned by those keyframes (seconds)
+  minDuration?: number;
+
+  // Gravity magnitude (m/s²)
+  gravityMagnitude?: number;
+
+  // Tangent-plane gravity refinement iterations
+  refinementIterations?: number;
+}
+
+/**
+ * Consecutive keyframes linked by a preintegration
+ */
+interface InertialFrame {
+  keyframe: Keyframe;
+  preintegration: PreintegratedIMU; // From the previous frame
+}
+
+export class InertialInitializer {
+  private config: Required<InertialInitializerConfig>;
+
+  constructor(config: InertialInitializerConfig = {}) {
+    this.config = {
+      minKeyframes: config.minKeyframes ?? 10,
+      minDuration: config.minDuration ?? 2.0,
+      gravityMagnitude: config.gravityMagnitude ?? 9.81,
+      refinementIterations: config.refinementIterations ?? 4,
+    };
+  }
+
+  /**
+   * Try to initialize from keyframes in chronological order
+   * Returns null if there is not enough motion or the alignment fails.
+   */
+  initialize(keyframes: Keyframe[]): InertialInitializationResult | null {
+    const chain = this.collectChain(keyframes);
+    if (!chain) {return null;}
+
+    const { first, frames } = chain;
+    const duration = frames.reduce((sum, f) => sum + f.preintegration.dt, 0);
+    if (frames.length + 1 < this.config.minKeyframes || duration < this.config.minDuration) {
+      return null;
+    }
+
+    const gyroBias = this.estimateGyroBias(first, frames);
+    if (!gyroBias) {return null;}
+
+    const alignment = this.solveAlignment(first, frames, gyroBias);
+    if (!alignment || alignment.scale <= 0) {
+      console.warn('[InertialInitializer] Alignment failed');
+      return null;
+    }
+
+    const velocities = new Map<number, Vector3>();
+    [first, ...frames.map(f => f.keyframe)].forEach((kf, i) => velocities.set(kf.id, alignment.velocities[i]));
+
+    console.log(
+      `[InertialInitializer] Initialized over ${frames.length + 1} keyframes ` +
+        `(scale ${alignment.scale.toFixed(3)}, gyro bias ${gyroBias.length().toFixed(4)} rad/s)`
+    );
+
+    return {
+      gravity: alignment.gravity,
+      scale: alignment.scale,
+      gyroBias,
+      accelBias: new Vector3(0, 0, 0),
+      velocities,
+    };
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Longest tail of keyframes where each one is preintegrated from the previous
+   */
+  private collectChain(keyframes: Keyframe[]): { first: Keyframe; frames: InertialFrame[] } | null {
+    const frames: InertialFrame[] = [];
+
+    for (let i = keyframes.length - 1; i > 0; i--) {
+      const imu = keyframes[i].imu;
+      if (!imu?.preintegration || imu.previousKeyframeId !== keyframes[i - 1].id || imu.preintegration.dt <= 0) {
+        break;
+      }
+      frames.unshift({ keyframe: keyframes[i], preintegration: imu.preintegration });
+    }
+
+    if (frames.length === 0) {return null;}
+    return { first: keyframes[keyframes.length - 1 - frames.length], frames };
+  }
+
+  /**
+   * Gauss-Newton on Σ |Log(ΔR(bg)^T R_i^T R_j)|²
+   */
+  private estimateGyroBias(first: Keyframe, frames: InertialFrame[]): Vector3 | null {
+    let bias = frames[0].preintegration.gyroBias.clone();
+
+    for (let iter = 0; iter < 3; iter++) {
+      const H = Matrix.zeros(3, 3);
+      const b = [0, 0, 0];
+
+      let previous = first;
+      for (const { keyframe, preintegration } of frames) {
+        const { deltaRotation } = correctPreintegration(preintegration, bias, preintegration.accelBias);
+        const relative = previous.pose.rotation.conjugate().multiply(keyframe.pose.rotation);
+        const e = deltaRotation.conjugate().multiply(relative).normalize().toRotationVector();
+        const J = preintegration.jacobians.rotationGyro;
+
+        for (let r = 0; r < 3; r++) {
+          for (let c = 0; c < 3; c++) {
+            H[r][c] += J[0][r] * J[0][c] + J[1][r] * J[1][c] + J[2][r] * J[2][c];
+          }
+          b[r] += J[0][r] * e.x + J[1][r] * e.y + J[2][r] * e.z;
+        }
+        previous = keyframe;
+      }
+
+      let delta: number[];
+      try {
+        delta = Matrix.solveCholesky(H, b);
+      } catch {
+        return null;
+      }
+      bias = bias.add(new Vector3(delta[0], delta[1], delta[2]));
+
+      if (Math.hypot(delta[0], delta[1], delta[2]) < 1e-9) {break;}
+    }
+
+    return bias;
+  }
+
+  /**
+   * Solve keyframe velocities, gravity and scale
+   *
+   * Per preintegration between frames i and j:
+   *   s (p̄_j - p̄_i) - v_i dt - ½ g dt² = R_i Δp
+   *   v_j - v_i - g dt = R_i Δv
+   */
+  private solveAlignment(
+    first: Keyframe,
+    frames: InertialFrame[],
+    gyroBias: Vector3
+  ): { velocities: Vector3[]; gravity: Vector3; scale: number } | null {
+    const n = frames.length + 1;
+    const keyframes = [first, ...frames.map(f => f.keyframe)];
+    const increments = frames.map(({ preintegration }) =>
+      correctPreintegration(preintegration, gyroBias, preintegration.accelBias)
+    );
+
+    // Unknowns [v_0..v_{n-1}, gravity parameters, s]
+    const solve = (gravityColumns: number, gravityTerm: (dt: number) => { A: number[][]; b: Vector3 }) => {
+      const size = 3 * n + gravityColumns + 1;
+      const H = Matrix.zeros(size, size);
+      const g = new Array(size).fill(0);
+      const addRow = (row: Map<number, number>, rhs: number) => {
+        for (const [a, va] of row) {
+          for (const [c, vc] of row) {
+            H[a][c] += va * vc;
+          }
+          g[a] += va * rhs;
+        }
+      };
+
+      frames.forEach(({ preintegration }, k) => {
+        const i = k;
+        const j = k + 1;
+        const dt = preintegration.dt;
+        const Ri = keyframes[i].pose.rotation;
+        const dp = Ri.rotateVector(increments[k].deltaPosition);
+        const dv = Ri.rotateVector(increments[k].deltaVelocity);
+        const baseline = keyframes[j].pose.position.subtract(keyframes[i].pose.position).toArray();
+        const gravity = gravityTerm(dt);
+
+        for (let axis = 0; axis < 3; axis++) {
+          // Position constraint
+          const position = new Map<number, number>();
+          position.set(3 * i + axis, -dt);
+          gravity.A[axis].forEach((value, c) => position.set(3 * n + c, -0.5 * dt * value));
+          position.set(size - 1, baseline[axis]);
+          addRow(position, dp.toArray()[axis] + 0.5 * dt * gravity.b.toArray()[axis]);
+
+          // Velocity constraint
+          const velocity = new Map<number, number>();
+          velocity.set(3 * i + axis, -1);
+          velocity.set(3 * j + axis, 1);
+          gravity.A[axis].forEach((value, c) => velocity.set(3 * n + c, -value));
+          addRow(velocity, dv.toArray()[axis] + gravity.b.toArray()[axis]);
+        }
+      });
+
+      try {
+        return Matrix.solveCholesky(H, g);
+      } catch {
+        return null;
+      }
+    };
+
+    // Linear alignment with free gravity (g dt = I·g dt)
+    const linear = solve(3, dt => ({ A: Matrix.scale(Matrix.identity(3), dt), b: new Vector3(0, 0, 0) }));
+    if (!linear) {return null;}
+
+    const G = this.config.gravityMagnitude;
+    let gravity = new Vector3(linear[3 * n], linear[3 * n + 1], linear[3 * n + 2]);
+    if (gravity.length() < 1e-6) {return null;}
+    gravity = gravity.normalize().multiply(G);
+    let solution = linear;
+
+    // Refinement: g = G ĝ + B w, B spans the tangent plane of ĝ
+    for (let iter = 0; iter < this.config.refinementIterations; iter++) {
+      const direction = gravity.normalize();
+      const helper = Math.abs(direction.x) < 0.9 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0);
+      const b1 = helper.subtract(direction.multiply(direction.dot(helper))).normalize();
+      const b2 = direction.cross(b1);
+      const base = gravity;
+
+      const refined = solve(2, dt => ({
+        A: [
+          [b1.x * dt, b2.x * dt],
+          [b1.y * dt, b2.y * dt],
+          [b1.z * dt, b2.z * dt],
+        ],
+        b: base.multiply(dt),
+      }));
+      if (!refined) {return null;}
+
+      solution = refined;
+      gravity = base
+        .add(b1.multiply(refined[3 * n]))
+        .add(b2.multiply(refined[3 * n + 1]))
+        .normalize()
+        .multiply(G);
+    }
+
+    const velocities = keyframes.map(
+      (_, i) => new Vector3(solution[3 * i], solution[3 * i + 1], solution[3 * i + 2])
+    );
+
+    return { velocities, gravity, scale: solution[solution.length - 1] };
+  }
+}
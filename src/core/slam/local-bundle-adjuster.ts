@@ -0,0 +1,937 @@
+/**
+ * Local Bundle Adjustment
+ * Jointly refines recent keyframe poses and the map points they observe
+ * by minimizing reprojection error with a robust (Huber) kernel
+ *
+ * Solver: Levenberg-Marquardt with Schur complement on the point blocks
+ * (reduced camera system), as in ORB-SLAM local mapping.
+ * Keyframes outside the window that observe the same points are held fixed.
+ *
+ * Visual-inertial mode: once gravity is known, keyframes carrying IMU
+ * preintegration also optimize velocity and biases, and consecutive
+ * keyframes are linked by inertial residuals and bias random walk.
+ */
+
+import type { Keyframe, CameraIntrinsics, PreintegratedIMU } from './types';
+import type { SLAMMapManager } from './slam-map';
+import {
+  evaluateInertialResidual,
+  getPreintegrationInformation,
+  type InertialState,
+} from './imu-preintegration';
+import { Vector3 } from '../math/vector';
+import { Quaternion } from '../math/quaternion';
+import { Matrix } from '../math/matrix-ops';
+
+export interface LocalBundleAdjusterConfig {
+  // Number of recent keyframes to optimize
+  windowSize?: number;
+
+  // Maximum Levenberg-Marquardt iterations
+  maxIterations?: number;
+
+  // Huber kernel threshold (pixels)
+  huberThreshold?: number;
+
+  // Observations above this error after optimization are removed (pixels)
+  outlierThreshold?: number;
+
+  // Time budget per call (ms)
+  maxTime?: number;
+
+  // Gyroscope bias random walk (rad/s²/√Hz)
+  gyroBiasRandomWalk?: number;
+
+  // Accelerometer bias random walk (m/s³/√Hz)
+  accelBiasRandomWalk?: number;
+}
+
+export interface BundleAdjustmentResult {
+  numKeyframes: number; // Optimized keyframes
+  numFixedKeyframes: number;
+  numMapPoints: number;
+  numObservations: number;
+  iterations: number;
+  initialError: number; // RMS reprojection error (pixels)
+  finalError: number; // RMS reprojection error (pixels)
+  numOutliers: number; // Observations removed after optimization
+  numInertialEdges: number;
+  timedOut: boolean;
+  timeMs: number;
+}
+
+/**
+ * Keyframe pose in a bundle adjustment problem (camera-to-world)
+ */
+export interface BundleAdjustmentPose {
+  keyframeId: number;
+  position: Vector3;
+  rotation: Quaternion;
+  intrinsics: CameraIntrinsics;
+  fixed: boolean;
+  inertial?: BundleAdjustmentInertialState; // Visual-inertial mode only
+}
+
+/**
+ * Velocity and biases of a keyframe in visual-inertial mode
+ */
+export interface BundleAdjustmentInertialState {
+  velocity: Vector3;
+  gyroBias: Vector3;
+  accelBias: Vector3;
+}
+
+/**
+ * Preintegrated IMU between two poses (indices into the pose array)
+ */
+export interface BundleAdjustmentInertialEdge {
+  from: number;
+  to: number;
+  preintegration: PreintegratedIMU;
+}
+
+export interface BundleAdjustmentPoint {
+  mapPointId: number;
+  position: Vector3;
+}
+
+export interface BundleAdjustmentObservation {
+  pose: number; // Index into pose array
+  point: number; // Index into point array
+  x: number;
+  y: number;
+  featureIndex: number;
+}
+
+/**
+ * Self-contained snapshot of the local window, detached from the map
+ * so it can be solved off the main thread
+ */
+export interface BundleAdjustmentProblem {
+  poses: BundleAdjustmentPose[];
+  points: BundleAdjustmentPoint[];
+  observations: BundleAdjustmentObservation[];
+  inertial?: {
+    gravity: Vector3;
+    edges: BundleAdjustmentInertialEdge[];
+  };
+}
+
+export interface BundleAdjustmentSolution {
+  poses: BundleAdjustmentPose[]; // Same order as the problem
+  points: BundleAdjustmentPoint[]; // Same order as the problem
+  outliers: number[]; // Observation indices above the outlier threshold
+  result: BundleAdjustmentResult;
+}
+
+interface PoseState {
+  rotation: Quaternion; // Camera-to-world
+  position: Vector3;
+  intrinsics: CameraIntrinsics;
+  fixed: boolean;
+  inertial?: BundleAdjustmentInertialState;
+  offset: number; // Parameter offset (-1 if fixed)
+  size: number; // 6 (pose) or 15 (pose, velocity, biases)
+}
+
+// Inertial parameter layout after the pose: [δφ, δp, δv, δbg, δba]
+const POSE_SIZE = 6;
+const INERTIAL_SIZE = 15;
+
+export class LocalBundleAdjuster {
+  private config: Required<LocalBundleAdjusterConfig>;
+
+  constructor(config: LocalBundleAdjusterConfig = {}) {
+    this.config = {
+      windowSize: config.windowSize ?? 10,
+      maxIterations: config.maxIterations ?? 10,
+      huberThreshold: config.huberThreshold ?? 2.5,
+      outlierThreshold: config.outlierThreshold ?? 5.0,
+      maxTime: config.maxTime ?? 20,
+      gyroBiasRandomWalk: config.gyroBiasRandomWalk ?? 2e-5,
+      accelBiasRandomWalk: config.accelBiasRandomWalk ?? 3e-3,
+    };
+  }
+
+  /**
+   * Optimize the recent keyframe window of a map in place
+   */
+  optimize(map: SLAMMapManager, gravity?: Vector3): BundleAdjustmentResult {
+    const startTime = performance.now();
+    const problem = this.buildProblem(map, gravity);
+    const solution = this.solve(problem);
+
+    this.applySolution(map, problem, solution);
+    solution.result.timeMs = performance.now() - startTime;
+
+    return solution.result;
+  }
+
+  /**
+   * Snapshot the recent keyframe window and the map points it observes
+   *
+   * @param gravity World gravity; enables visual-inertial mode for keyframes
+   *                with preintegrated IMU
+   */
+  buildProblem(map: SLAMMapManager, gravity?: Vector3): BundleAdjustmentProblem {
+    const window = map.getRecentKeyframes(this.config.windowSize);
+
+    // Collect map points observed by the window
+    const points: BundleAdjustmentPoint[] = [];
+    const pointIndex = new Map<number, number>();
+    for (const kf of window) {
+      for (const feature of kf.features) {
+        const id = feature.mapPointId;
+        if (id === null || pointIndex.has(id)) {continue;}
+
+        const mapPoint = map.getMapPoint(id);
+        if (!mapPoint || mapPoint.trackingState === 'bad') {continue;}
+
+        pointIndex.set(id, points.length);
+        points.push({ mapPointId: id, position: mapPoint.position.clone() });
+      }
+    }
+
+    // Poses: window keyframes are free, other observers are fixed
+    const keyframes: Keyframe[] = [];
+    const poses: BundleAdjustmentPose[] = [];
+    const poseIndex = new Map<number, number>();
+    const addPose = (kf: Keyframe, fixed: boolean) => {
+      poseIndex.set(kf.id, poses.length);
+      keyframes.push(kf);
+      poses.push({
+        keyframeId: kf.id,
+        position: kf.pose.position.clone(),
+        rotation: kf.pose.rotation.clone(),
+        intrinsics: kf.intrinsics,
+        fixed,
+      });
+    };
+
+    for (const kf of window) {
+      addPose(kf, false);
+    }
+    for (const point of points) {
+      for (const kfId of map.getMapPoint(point.mapPointId)!.observations) {
+        if (poseIndex.has(kfId)) {continue;}
+        const kf = map.getKeyframe(kfId);
+        if (kf) {
+          addPose(kf, true);
+        }
+      }
+    }
+
+    // Inertial edges from each window keyframe to its predecessor
+    const edges: BundleAdjustmentInertialEdge[] = [];
+    if (gravity) {
+      for (const kf of window) {
+        const imu = kf.imu;
+        const previousId = imu?.previousKeyframeId ?? null;
+        const previous = previousId !== null ? map.getKeyframe(previousId) : undefined;
+        if (!imu?.preintegration || !previous?.imu) {continue;}
+
+        if (!poseIndex.has(previous.id)) {
+          addPose(previous, true);
+        }
+        const from = poseIndex.get(previous.id)!;
+        const to = poseIndex.get(kf.id)!;
+        for (const [index, source] of [[from, previous], [to, kf]] as const) {
+          poses[index].inertial = {
+            velocity: source.imu!.velocity.clone(),
+            gyroBias: source.imu!.gyroBias.clone(),
+            accelBias: source.imu!.accelBias.clone(),
+          };
+        }
+        edges.push({ from, to, preintegration: imu.preintegration });
+      }
+    }
+
+    // Without fixed observers, fix the oldest window keyframe (gauge freedom)
+    if (poses.length > 0 && !poses.some(p => p.fixed)) {
+      poses[0].fixed = true;
+    }
+
+    // Observations: features linked to collected map points
+    const observations: BundleAdjustmentObservation[] = [];
+    keyframes.forEach((kf, pose) => {
+      kf.features.forEach((feature, featureIndex) => {
+        if (feature.mapPointId === null) {return;}
+        const point = pointIndex.get(feature.mapPointId);
+        if (point === undefined) {return;}
+        observations.push({ pose, point, x: feature.x, y: feature.y, featureIndex });
+      });
+    });
+
+    const problem: BundleAdjustmentProblem = { poses, points, observations };
+    if (gravity && edges.length > 0) {
+      problem.inertial = { gravity: gravity.clone(), edges };
+    }
+    return problem;
+  }
+
+  /**
+   * Solve a detached problem; the map is not touched
+   */
+  solve(problem: BundleAdjustmentProblem): BundleAdjustmentSolution {
+    const startTime = performance.now();
+    const { observations } = problem;
+
+    const edges = problem.inertial?.edges ?? [];
+
+    let numParameters = 0;
+    const poses: PoseState[] = problem.poses.map(pose => {
+      const size = problem.inertial && pose.inertial ? INERTIAL_SIZE : POSE_SIZE;
+      const offset = pose.fixed ? -1 : numParameters;
+      if (!pose.fixed) {
+        numParameters += size;
+      }
+      return {
+        rotation: pose.rotation.clone(),
+        position: pose.position.clone(),
+        intrinsics: pose.intrinsics,
+        fixed: pose.fixed,
+        inertial: pose.inertial && {
+          velocity: pose.inertial.velocity.clone(),
+          gyroBias: pose.inertial.gyroBias.clone(),
+          accelBias: pose.inertial.accelBias.clone(),
+        },
+        offset,
+        size,
+      };
+    });
+    const points = problem.points.map(p => p.position.clone());
+    const numFree = poses.filter(p => !p.fixed).length;
+
+    const result: BundleAdjustmentResult = {
+      numKeyframes: numFree,
+      numFixedKeyframes: poses.length - numFree,
+      numMapPoints: points.length,
+      numObservations: observations.length,
+      iterations: 0,
+      initialError: 0,
+      finalError: 0,
+      numOutliers: 0,
+      numInertialEdges: edges.length,
+      timedOut: false,
+      timeMs: 0,
+    };
+
+    const finish = (outliers: number[]): BundleAdjustmentSolution => {
+      result.numOutliers = outliers.length;
+      result.timeMs = performance.now() - startTime;
+      return {
+        poses: problem.poses.map((pose, i) => ({
+          ...pose,
+          position: poses[i].position,
+          rotation: poses[i].rotation,
+          inertial: poses[i].inertial,
+        })),
+        points: problem.points.map((point, i) => ({ ...point, position: points[i] })),
+        outliers,
+        result,
+      };
+    };
+
+    if (observations.length === 0 || (numFree === 0 && points.length === 0)) {
+      return finish([]);
+    }
+
+    let cost = this.computeCost(poses, points, observations, problem);
+    result.initialError = this.computeRMSError(poses, points, observations);
+    let lambda = 1e-3;
+
+    for (let iter = 0; iter < this.config.maxIterations; iter++) {
+      if (performance.now() - startTime > this.config.maxTime) {
+        result.timedOut = true;
+        break;
+      }
+      result.iterations++;
+
+      const step = this.solveStep(poses, points, observations, problem, numParameters, lambda);
+      if (!step) {
+        lambda *= 10;
+        continue;
+      }
+
+      const candidatePoses = this.applyPoseUpdate(poses, step.dPoses);
+      const candidatePoints = points.map((p, i) =>
+        p.add(new Vector3(step.dPoints[i * 3], step.dPoints[i * 3 + 1], step.dPoints[i * 3 + 2]))
+      );
+      const candidateCost = this.computeCost(candidatePoses, candidatePoints, observations, problem);
+
+      if (candidateCost < cost) {
+        const relativeDecrease = (cost - candidateCost) / cost;
+        for (let i = 0; i < poses.length; i++) {
+          poses[i] = candidatePoses[i];
+        }
+        for (let i = 0; i < points.length; i++) {
+          points[i] = candidatePoints[i];
+        }
+        cost = candidateCost;
+        lambda = Math.max(lambda / 10, 1e-9);
+
+        if (relativeDecrease < 1e-6) {
+          break;
+        }
+      } else {
+        lambda *= 10;
+        if (lambda > 1e8) {
+          break;
+        }
+      }
+    }
+
+    result.finalError = this.computeRMSError(poses, points, observations);
+
+    return finish(this.findOutliers(poses, points, observations));
+  }
+
+  /**
+   * Write a solution back into the map and unlink outlier observations
+   *
+   * Keyframes and map points changed since the problem was built (e.g. by a
+   * loop closure while the solve ran elsewhere) keep their current state.
+   * Returns the number of observations unlinked.
+   */
+  applySolution(
+    map: SLAMMapManager,
+    problem: BundleAdjustmentProblem,
+    solution: BundleAdjustmentSolution
+  ): number {
+    solution.poses.forEach((pose, i) => {
+      if (pose.fixed) {return;}
+
+      const keyframe = map.getKeyframe(pose.keyframeId);
+      const original = problem.poses[i];
+      if (
+        keyframe &&
+        keyframe.pose.position.equals(original.position) &&
+        keyframe.pose.rotation.equals(original.rotation)
+      ) {
+        map.updateKeyframePose(pose.keyframeId, pose.position, pose.rotation);
+        if (pose.inertial && keyframe.imu) {
+          keyframe.imu.velocity = pose.inertial.velocity;
+          keyframe.imu.gyroBias = pose.inertial.gyroBias;
+          keyframe.imu.accelBias = pose.inertial.accelBias;
+        }
+      }
+    });
+
+    solution.points.forEach((point, i) => {
+      const mapPoint = map.getMapPoint(point.mapPointId);
+      if (mapPoint && mapPoint.position.equals(problem.points[i].position)) {
+        map.updateMapPoint(point.mapPointId, { position: point.position });
+      }
+    });
+
+    let numOutliers = 0;
+    for (const index of solution.outliers) {
+      const obs = problem.observations[index];
+      const keyframeId = problem.poses[obs.pose].keyframeId;
+      const mapPointId = problem.points[obs.point].mapPointId;
+
+      const keyframe = map.getKeyframe(keyframeId);
+      const mapPoint = map.getMapPoint(mapPointId);
+      const feature = keyframe?.features[obs.featureIndex];
+      if (!keyframe || !mapPoint || !feature || feature.mapPointId !== mapPointId) {continue;}
+
+      feature.mapPointId = null;
+      keyframe.mapPoints = keyframe.mapPoints.filter(id => id !== mapPointId);
+
+      const remaining = mapPoint.observations.filter(id => id !== keyframeId);
+      map.updateMapPoint(mapPointId, {
+        observations: remaining,
+        trackingState: remaining.length === 0 ? 'bad' : mapPoint.trackingState,
+      });
+      numOutliers++;
+    }
+
+    return numOutliers;
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Build and solve the damped normal equations via Schur complement
+   */
+  private solveStep(
+    poses: PoseState[],
+    points: Vector3[],
+    observations: BundleAdjustmentObservation[],
+    problem: BundleAdjustmentProblem,
+    poseSize: number,
+    lambda: number
+  ): { dPoses: number[]; dPoints: number[] } | null {
+    const Hpp = Matrix.zeros(poseSize, poseSize);
+    const gp = new Array(poseSize).fill(0);
+    const Hll = points.map(() => new Array(9).fill(0));
+    const gl = new Array(points.length * 3).fill(0);
+
+    // Off-diagonal blocks per observation (6x3, row-major)
+    const Hpl: Array<number[] | null> = [];
+
+    for (const obs of observations) {
+      const pose = poses[obs.pose];
+      const lin = this.linearize(pose, points[obs.point], obs, pose.intrinsics);
+      if (!lin) {
+        Hpl.push(null);
+        continue;
+      }
+
+      const { r, Jpose, Jpoint } = lin;
+      const w = this.huberWeight(Math.hypot(r[0], r[1]));
+
+      // Point block
+      const H = Hll[obs.point];
+      for (let a = 0; a < 3; a++) {
+        for (let b = 0; b < 3; b++) {
+          H[a * 3 + b] += w * (Jpoint[0][a] * Jpoint[0][b] + Jpoint[1][a] * Jpoint[1][b]);
+        }
+        gl[obs.point * 3 + a] += w * (Jpoint[0][a] * r[0] + Jpoint[1][a] * r[1]);
+      }
+
+      if (pose.fixed) {
+        Hpl.push(null);
+        continue;
+      }
+
+      // Pose block and pose-point coupling
+      const offset = pose.offset;
+      const coupling = new Array(18).fill(0);
+      for (let a = 0; a < 6; a++) {
+        for (let b = 0; b < 6; b++) {
+          Hpp[offset + a][offset + b] += w * (Jpose[0][a] * Jpose[0][b] + Jpose[1][a] * Jpose[1][b]);
+        }
+        gp[offset + a] += w * (Jpose[0][a] * r[0] + Jpose[1][a] * r[1]);
+        for (let b = 0; b < 3; b++) {
+          coupling[a * 3 + b] = w * (Jpose[0][a] * Jpoint[0][b] + Jpose[1][a] * Jpoint[1][b]);
+        }
+      }
+      Hpl.push(coupling);
+    }
+
+    if (problem.inertial) {
+      this.addInertialTerms(poses, problem, Hpp, gp);
+    }
+
+    // Damping (Levenberg-Marquardt)
+    for (let i = 0; i < poseSize; i++) {
+      Hpp[i][i] += lambda * Math.max(Hpp[i][i], 1e-6);
+    }
+    const HllInv: Array<number[] | null> = Hll.map(H => {
+      const damped = H.slice();
+      for (let a = 0; a < 3; a++) {
+        damped[a * 4] += lambda * Math.max(damped[a * 4], 1e-6);
+      }
+      return this.invert3x3(damped);
+    });
+
+    // Schur complement: S = Hpp - Σ Hpl Hll^-1 Hlp, b = -gp + Σ Hpl Hll^-1 gl
+    const S = Hpp;
+    const b = gp.map(v => -v);
+
+    // Group observations by point for the cross terms
+    const byPoint: number[][] = points.map(() => []);
+    observations.forEach((obs, i) => {
+      if (Hpl[i]) {
+        byPoint[obs.point].push(i);
+      }
+    });
+
+    for (let l = 0; l < points.length; l++) {
+      const inv = HllInv[l];
+      if (!inv) {continue;}
+      const obsList = byPoint[l];
+      const glVec = [gl[l * 3], gl[l * 3 + 1], gl[l * 3 + 2]];
+      const invGl = this.mul3x3Vec(inv, glVec);
+
+      // Precompute W_i = Hpl_i * Hll^-1 (6x3)
+      const W = obsList.map(i => this.mul6x3By3x3(Hpl[i]!, inv));
+
+      obsList.forEach((i, m) => {
+        const offI = poses[observations[i].pose].offset;
+        const Hi = Hpl[i]!;
+        for (let a = 0; a < 6; a++) {
+          b[offI + a] += Hi[a * 3] * invGl[0] + Hi[a * 3 + 1] * invGl[1] + Hi[a * 3 + 2] * invGl[2];
+        }
+
+        obsList.forEach(j => {
+          const offJ = poses[observations[j].pose].offset;
+          const Hj = Hpl[j]!;
+          for (let a = 0; a < 6; a++) {
+            for (let c = 0; c < 6; c++) {
+              S[offI + a][offJ + c] -=
+                W[m][a * 3] * Hj[c * 3] + W[m][a * 3 + 1] * Hj[c * 3 + 1] + W[m][a * 3 + 2] * Hj[c * 3 + 2];
+            }
+          }
+        });
+      });
+    }
+
+    let dPoses: number[] = [];
+    if (poseSize > 0) {
+      try {
+        dPoses = Matrix.solveCholesky(S, b);
+      } catch {
+        return null;
+      }
+    }
+
+    // Back-substitute points: dl = Hll^-1 (-gl - Hlp dp)
+    const dPoints = new Array(points.length * 3).fill(0);
+    for (let l = 0; l < points.length; l++) {
+      const inv = HllInv[l];
+      if (!inv) {continue;}
+
+      const rhs = [-gl[l * 3], -gl[l * 3 + 1], -gl[l * 3 + 2]];
+      for (const i of byPoint[l]) {
+        const off = poses[observations[i].pose].offset;
+        const Hi = Hpl[i]!;
+        for (let c = 0; c < 3; c++) {
+          for (let a = 0; a < 6; a++) {
+            rhs[c] -= Hi[a * 3 + c] * dPoses[off + a];
+          }
+        }
+      }
+
+      const d = this.mul3x3Vec(inv, rhs);
+      dPoints[l * 3] = d[0];
+      dPoints[l * 3 + 1] = d[1];
+      dPoints[l * 3 + 2] = d[2];
+    }
+
+    return { dPoses, dPoints };
+  }
+
+  /**
+   * Residual and Jacobians of one observation
+   *
+   * Camera frame: p_c = R^T (X - t), pinhole projection (z forward).
+   * Pose increment (ω, v) is right-multiplied: R' = R Exp(ω), t' = t + R v,
+   * giving ∂p_c/∂ω = [p_c]×, ∂p_c/∂v = -I, ∂p_c/∂X = R^T.
+   */
+  private linearize(
+    pose: PoseState,
+    point: Vector3,
+    obs: BundleAdjustmentObservation,
+    intrinsics: CameraIntrinsics
+  ): { r: [number, number]; Jpose: number[][]; Jpoint: number[][] } | null {
+    const Rt = pose.rotation.conjugate();
+    const pc = Rt.rotateVector(point.subtract(pose.position));
+    if (pc.z <= 1e-6) {return null;}
+
+    const { fx, fy, cx, cy } = intrinsics;
+    const invZ = 1 / pc.z;
+    const u = fx * pc.x * invZ + cx;
+    const v = fy * pc.y * invZ + cy;
+
+    // Projection Jacobian (2x3)
+    const Jproj = [
+      [fx * invZ, 0, -fx * pc.x * invZ * invZ],
+      [0, fy * invZ, -fy * pc.y * invZ * invZ],
+    ];
+
+    // [p_c]× columns
+    const skew = [
+      [0, -pc.z, pc.y],
+      [pc.z, 0, -pc.x],
+      [-pc.y, pc.x, 0],
+    ];
+
+    // R^T as a matrix (columns are R^T applied to unit vectors)
+    const ex = Rt.rotateVector(new Vector3(1, 0, 0));
+    const ey = Rt.rotateVector(new Vector3(0, 1, 0));
+    const ez = Rt.rotateVector(new Vector3(0, 0, 1));
+    const RtM = [
+      [ex.x, ey.x, ez.x],
+      [ex.y, ey.y, ez.y],
+      [ex.z, ey.z, ez.z],
+    ];
+
+    const Jpose = [new Array(6).fill(0), new Array(6).fill(0)];
+    const Jpoint = [new Array(3).fill(0), new Array(3).fill(0)];
+
+    for (let row = 0; row < 2; row++) {
+      for (let c = 0; c < 3; c++) {
+        let rot = 0;
+        let pt = 0;
+        for (let k = 0; k < 3; k++) {
+          rot += Jproj[row][k] * skew[k][c];
+          pt += Jproj[row][k] * RtM[k][c];
+        }
+        Jpose[row][c] = rot;
+        Jpose[row][3 + c] = -Jproj[row][c];
+        Jpoint[row][c] = pt;
+      }
+    }
+
+    return { r: [u - obs.x, v - obs.y], Jpose, Jpoint };
+  }
+
+  /**
+   * Project point into a pose and return residual (or null if behind camera)
+   */
+  private residual(pose: PoseState, point: Vector3, obs: BundleAdjustmentObservation): [number, number] | null {
+    const pc = pose.rotation.conjugate().rotateVector(point.subtract(pose.position));
+    if (pc.z <= 1e-6) {return null;}
+
+    const { fx, fy, cx, cy } = pose.intrinsics;
+    return [fx * pc.x / pc.z + cx - obs.x, fy * pc.y / pc.z + cy - obs.y];
+  }
+
+  /**
+   * Huber IRLS weight for a residual norm
+   */
+  private huberWeight(norm: number): number {
+    const delta = this.config.huberThreshold;
+    return norm <= delta ? 1 : delta / norm;
+  }
+
+  /**
+   * Robust cost: Σ ρ(|r|) with Huber kernel, plus inertial terms r^T Ω r
+   */
+  private computeCost(
+    poses: PoseState[],
+    points: Vector3[],
+    observations: BundleAdjustmentObservation[],
+    problem: BundleAdjustmentProblem
+  ): number {
+    const delta = this.config.huberThreshold;
+    let cost = problem.inertial ? this.computeInertialCost(poses, problem) : 0;
+
+    for (const obs of observations) {
+      const r = this.residual(poses[obs.pose], points[obs.point], obs);
+      if (!r) {
+        // Penalize points behind the camera like a large outlier
+        cost += delta * (2 * this.config.outlierThreshold * 10 - delta);
+        continue;
+      }
+      const norm = Math.hypot(r[0], r[1]);
+      cost += norm <= delta ? norm * norm : delta * (2 * norm - delta);
+    }
+
+    return cost;
+  }
+
+  /**
+   * RMS reprojection error over valid observations
+   */
+  private computeRMSError(poses: PoseState[], points: Vector3[], observations: BundleAdjustmentObservation[]): number {
+    let sum = 0;
+    let count = 0;
+    for (const obs of observations) {
+      const r = this.residual(poses[obs.pose], points[obs.point], obs);
+      if (!r) {continue;}
+      sum += r[0] * r[0] + r[1] * r[1];
+      count++;
+    }
+    return count > 0 ? Math.sqrt(sum / count) : 0;
+  }
+
+  /**
+   * Apply pose increments to free poses
+   */
+  private applyPoseUpdate(poses: PoseState[], dPoses: number[]): PoseState[] {
+    return poses.map(pose => {
+      if (pose.fixed) {return pose;}
+
+      const o = pose.offset;
+      const omega = new Vector3(dPoses[o], dPoses[o + 1], dPoses[o + 2]);
+      const v = new Vector3(dPoses[o + 3], dPoses[o + 4], dPoses[o + 5]);
+      const at = (k: number) => new Vector3(dPoses[o + k], dPoses[o + k + 1], dPoses[o + k + 2]);
+
+      return {
+        ...pose,
+        rotation: pose.rotation.multiply(Quaternion.fromRotationVector(omega)).normalize(),
+        position: pose.position.add(pose.rotation.rotateVector(v)),
+        inertial: pose.inertial && pose.size === INERTIAL_SIZE
+          ? {
+            velocity: pose.inertial.velocity.add(at(6)),
+            gyroBias: pose.inertial.gyroBias.add(at(9)),
+            accelBias: pose.inertial.accelBias.add(at(12)),
+          }
+          : pose.inertial,
+      };
+    });
+  }
+
+  /**
+   * Observations whose reprojection error stays above threshold
+   */
+  private findOutliers(
+    poses: PoseState[],
+    points: Vector3[],
+    observations: BundleAdjustmentObservation[]
+  ): number[] {
+    const outliers: number[] = [];
+
+    observations.forEach((obs, i) => {
+      const r = this.residual(poses[obs.pose], points[obs.point], obs);
+      if (!r || Math.hypot(r[0], r[1]) > this.config.outlierThreshold) {
+        outliers.push(i);
+      }
+    });
+
+    return outliers;
+  }
+
+  /**
+   * Accumulate inertial and bias random walk terms into the pose system
+   */
+  private addInertialTerms(
+    poses: PoseState[],
+    problem: BundleAdjustmentProblem,
+    H: number[][],
+    g: number[]
+  ): void {
+    const { gravity, edges } = problem.inertial!;
+
+    for (const edge of edges) {
+      const a = poses[edge.from];
+      const b = poses[edge.to];
+      if (!a.inertial || !b.inertial) {continue;}
+
+      const { residual, jacobianI, jacobianJ } = evaluateInertialResidual(
+        edge.preintegration,
+        this.toInertialState(a),
+        this.toInertialState(b),
+        gravity
+      );
+      const information = getPreintegrationInformation(edge.preintegration);
+      this.accumulate(H, g, [[a, jacobianI], [b, jacobianJ]], residual, information);
+
+      // Bias random walk: r = b_j - b_i
+      const bias = this.getBiasResidual(a, b, edge.preintegration.dt);
+      const identity = Matrix.identity(6);
+      const negative = Matrix.scale(identity, -1);
+      const select = (J: number[][]) => J.map(row => [...new Array(9).fill(0), ...row]);
+      this.accumulate(H, g, [[a, select(negative)], [b, select(identity)]], bias.residual, bias.information);
+    }
+  }
+
+  /**
+   * Add J^T Ω J and J^T Ω r of a residual shared by two poses
+   */
+  private accumulate(
+    H: number[][],
+    g: number[],
+    blocks: Array<[PoseState, number[][]]>,
+    residual: number[],
+    information: number[][]
+  ): void {
+    const free = blocks.filter(([pose]) => !pose.fixed && pose.size === INERTIAL_SIZE);
+    const weighted = free.map(([, J]) => Matrix.multiply(Matrix.transpose(J), information));
+
+    free.forEach(([poseA], m) => {
+      const WA = weighted[m];
+      for (let r = 0; r < INERTIAL_SIZE; r++) {
+        g[poseA.offset + r] += WA[r].reduce((sum, w, k) => sum + w * residual[k], 0);
+      }
+
+      free.forEach(([poseB, JB]) => {
+        const block = Matrix.multiply(WA, JB);
+        for (let r = 0; r < INERTIAL_SIZE; r++) {
+          for (let c = 0; c < INERTIAL_SIZE; c++) {
+            H[poseA.offset + r][poseB.offset + c] += block[r][c];
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Σ r^T Ω r over inertial and bias random walk residuals
+   */
+  private computeInertialCost(poses: PoseState[], problem: BundleAdjustmentProblem): number {
+    const { gravity, edges } = problem.inertial!;
+    const quadratic = (r: number[], W: number[][]) =>
+      r.reduce((sum, ri, a) => sum + ri * W[a].reduce((s, w, b) => s + w * r[b], 0), 0);
+
+    let cost = 0;
+    for (const edge of edges) {
+      const a = poses[edge.from];
+      const b = poses[edge.to];
+      if (!a.inertial || !b.inertial) {continue;}
+
+      const { residual } = evaluateInertialResidual(
+        edge.preintegration,
+        this.toInertialState(a),
+        this.toInertialState(b),
+        gravity
+      );
+      cost += quadratic(residual, getPreintegrationInformation(edge.preintegration));
+
+      const bias = this.getBiasResidual(a, b, edge.preintegration.dt);
+      cost += quadratic(bias.residual, bias.information);
+    }
+    return cost;
+  }
+
+  /**
+   * Bias random walk residual [bg_j - bg_i, ba_j - ba_i] and its information
+   */
+  private getBiasResidual(
+    a: PoseState,
+    b: PoseState,
+    dt: number
+  ): { residual: number[]; information: number[][] } {
+    const dbg = b.inertial!.gyroBias.subtract(a.inertial!.gyroBias);
+    const dba = b.inertial!.accelBias.subtract(a.inertial!.accelBias);
+    const gyro = 1 / (this.config.gyroBiasRandomWalk ** 2 * Math.max(dt, 1e-3));
+    const accel = 1 / (this.config.accelBiasRandomWalk ** 2 * Math.max(dt, 1e-3));
+
+    return {
+      residual: [dbg.x, dbg.y, dbg.z, dba.x, dba.y, dba.z],
+      information: Matrix.diagonal([gyro, gyro, gyro, accel, accel, accel]),
+    };
+  }
+
+  private toInertialState(pose: PoseState): InertialState {
+    return {
+      position: pose.position,
+      rotation: pose.rotation,
+      velocity: pose.inertial!.velocity,
+      gyroBias: pose.inertial!.gyroBias,
+      accelBias: pose.inertial!.accelBias,
+    };
+  }
+
+  private invert3x3(m: number[]): number[] | null {
+    const det =
+      m[0] * (m[4] * m[8] - m[5] * m[7]) -
+      m[1] * (m[3] * m[8] - m[5] * m[6]) +
+      m[2] * (m[3] * m[7] - m[4] * m[6]);
+    if (Math.abs(det) < 1e-12) {return null;}
+
+    const inv = 1 / det;
+    return [
+      (m[4] * m[8] - m[5] * m[7]) * inv,
+      (m[2] * m[7] - m[1] * m[8]) * inv,
+      (m[1] * m[5] - m[2] * m[4]) * inv,
+      (m[5] * m[6] - m[3] * m[8]) * inv,
+      (m[0] * m[8] - m[2] * m[6]) * inv,
+      (m[2] * m[3] - m[0] * m[5]) * inv,
+      (m[3] * m[7] - m[4] * m[6]) * inv,
+      (m[1] * m[6] - m[0] * m[7]) * inv,
+      (m[0] * m[4] - m[1] * m[3]) * inv,
+    ];
+  }
+
+  private mul3x3Vec(m: number[], v: number[]): number[] {
+    return [
+      m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+      m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+      m[6] * v[0] + m[7] * v[1] + m[8] * v[2],
+    ];
+  }
+
+  private mul6x3By3x3(a: number[], m: number[]): number[] {
+    const out = new Array(18).fill(0);
+    for (let r = 0; r < 6; r++) {
+      for (let c = 0; c < 3; c++) {
+        out[r * 3 + c] = a[r * 3] * m[c] + a[r * 3 + 1] * m[3 + c] + a[r * 3 + 2] * m[6 + c];
+      }
+    }
+    return out;
+  }
+}
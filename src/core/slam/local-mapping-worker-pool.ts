@@ -0,0 +1,237 @@
+/**
+ * Local Mapping Worker Pool
+ * Dispatches local mapping and loop closing jobs to Web Workers so tracking
+ * never waits on mapping
+ *
+ * Jobs and deltas are exchanged as transferable buffers. Without workers
+ * (threads = 0, no Worker support, or all workers crashed) jobs run in-process
+ * on a macrotask, one at a time in submission order, which keeps results
+ * deterministic for tests.
+ */
+
+import {
+  runMappingJob,
+  getJobTransferables,
+  type LocalMappingJob,
+  type LocalMappingDelta,
+  type LocalMappingRequest,
+  type LocalMappingResponse,
+  type MappingJob,
+  type MappingDelta,
+} from './local-mapping';
+import type { LoopClosingJob, LoopClosingDelta } from './loop-closing';
+import { Logger } from '../../utils/logger';
+
+export interface LocalMappingWorkerPoolConfig {
+  // Number of workers (0 = in-process)
+  threads?: number;
+
+  // Creates a worker running local-mapping-worker.ts (default: bundled worker entry)
+  workerFactory?: () => Worker;
+}
+
+interface PendingJob {
+  jobId: number;
+  job: MappingJob;
+  resolve: (delta: MappingDelta) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  job: PendingJob | null;
+}
+
+/**
+ * URL of the worker entry next to a module
+ * The worker is a separate build entry emitted next to the bundle as
+ * local-mapping-worker.js; from source it is loaded as the .ts module.
+ */
+export function resolveLocalMappingWorkerURL(moduleURL: string = import.meta.url): URL {
+  return moduleURL.endsWith('.ts')
+    ? new URL('./local-mapping-worker.ts', moduleURL)
+    : new URL('./local-mapping-worker.js', moduleURL);
+}
+
+function createDefaultWorker(): Worker {
+  return new Worker(resolveLocalMappingWorkerURL(), { type: 'module' });
+}
+
+export class LocalMappingWorkerPool {
+  private logger = Logger.create('LocalMappingPool');
+  private workers: WorkerSlot[] = [];
+  private queue: PendingJob[] = [];
+  private nextJobId = 0;
+  private runningInProcess = 0;
+  private inProcessScheduled = false;
+  private destroyed = false;
+
+  constructor(config: LocalMappingWorkerPoolConfig = {}) {
+    const threads = Math.max(0, Math.floor(config.threads ?? 0));
+    const factory =
+      config.workerFactory ?? (typeof Worker !== 'undefined' ? createDefaultWorker : null);
+
+    if (threads > 0 && factory) {
+      try {
+        for (let i = 0; i < threads; i++) {
+          this.addWorker(factory());
+        }
+        this.logger.info(`Started ${threads} local mapping worker(s)`);
+      } catch (error) {
+        this.logger.warn('Failed to start local mapping workers, running in-process', error);
+        this.terminateWorkers();
+      }
+    }
+  }
+
+  /**
+   * Queue a job; resolves with the worker's map delta
+   */
+  submit(job: LocalMappingJob): Promise<LocalMappingDelta>;
+  submit(job: LoopClosingJob): Promise<LoopClosingDelta>;
+  submit(job: MappingJob): Promise<MappingDelta> {
+    if (this.destroyed) {
+      return Promise.reject(new Error('Local mapping worker pool destroyed'));
+    }
+
+    return new Promise<MappingDelta>((resolve, reject) => {
+      this.queue.push({ jobId: this.nextJobId++, job, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Whether jobs run on workers
+   */
+  isParallel(): boolean {
+    return this.workers.length > 0;
+  }
+
+  /**
+   * Number of jobs that can run concurrently
+   */
+  getThreadCount(): number {
+    return Math.max(1, this.workers.length);
+  }
+
+  /**
+   * Queued plus running jobs
+   */
+  getPendingCount(): number {
+    const running = this.workers.filter(slot => slot.job !== null).length;
+    return this.queue.length + running + this.runningInProcess;
+  }
+
+  /**
+   * Terminate workers and reject outstanding jobs
+   */
+  destroy(): void {
+    if (this.destroyed) {return;}
+    this.destroyed = true;
+
+    const error = new Error('Local mapping worker pool destroyed');
+    for (const slot of this.workers) {
+      slot.job?.reject(error);
+    }
+    for (const pending of this.queue) {
+      pending.reject(error);
+    }
+    this.queue = [];
+    this.terminateWorkers();
+  }
+
+  // ==================== Private Methods ====================
+
+  private addWorker(worker: Worker): void {
+    const slot: WorkerSlot = { worker, job: null };
+    worker.addEventListener('message', (event: MessageEvent<LocalMappingResponse>) =>
+      this.handleMessage(slot, event.data)
+    );
+    worker.addEventListener('error', (event: ErrorEvent) => this.handleError(slot, event));
+    this.workers.push(slot);
+  }
+
+  private terminateWorkers(): void {
+    for (const slot of this.workers) {
+      slot.worker.terminate();
+    }
+    this.workers = [];
+  }
+
+  /**
+   * Hand queued jobs to idle workers
+   */
+  private dispatch(): void {
+    if (this.workers.length === 0) {
+      this.scheduleInProcess();
+      return;
+    }
+
+    for (const slot of this.workers) {
+      if (slot.job || this.queue.length === 0) {continue;}
+
+      const pending = this.queue.shift()!;
+      slot.job = pending;
+
+      const request: LocalMappingRequest = { jobId: pending.jobId, job: pending.job };
+      slot.worker.postMessage(request, getJobTransferables(pending.job));
+    }
+  }
+
+  /**
+   * Run the next queued job on a later macrotask
+   */
+  private scheduleInProcess(): void {
+    if (this.inProcessScheduled || this.queue.length === 0) {return;}
+    this.inProcessScheduled = true;
+
+    setTimeout(() => {
+      this.inProcessScheduled = false;
+      const pending = this.queue.shift();
+      if (!pending) {return;}
+
+      this.runningInProcess++;
+      try {
+        pending.resolve(runMappingJob(pending.job));
+      } catch (error) {
+        pending.reject(error instanceof Error ? error : new Error(String(error)));
+      } finally {
+        this.runningInProcess--;
+      }
+
+      this.scheduleInProcess();
+    }, 0);
+  }
+
+  private handleMessage(slot: WorkerSlot, response: LocalMappingResponse): void {
+    const pending = slot.job;
+    if (!pending || pending.jobId !== response.jobId) {return;}
+
+    slot.job = null;
+    if ('error' in response) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.delta);
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Drop a crashed worker; fall back to in-process when none are left
+   */
+  private handleError(slot: WorkerSlot, event: ErrorEvent): void {
+    this.logger.warn(`Local mapping worker failed: ${event.message}`);
+
+    slot.job?.reject(new Error(`Local mapping worker failed: ${event.message}`));
+    slot.job = null;
+    slot.worker.terminate();
+    this.workers = this.workers.filter(s => s !== slot);
+
+    if (this.workers.length === 0) {
+      this.logger.warn('No local mapping workers left, running in-process');
+    }
+
+    this.dispatch();
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Local Mapping Worker
+ * Web Worker entry point: solves local mapping jobs posted by LocalMappingWorkerPool
+ */
+
+import {
+  runMappingJob,
+  getDeltaTransferables,
+  type LocalMappingRequest,
+  type LocalMappingResponse,
+} from './local-mapping';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<LocalMappingRequest>) => void) | null;
+  postMessage(message: LocalMappingResponse, transfer?: Transferable[]): void;
+}
+
+const scope = globalThis as unknown as WorkerScope;
+
+scope.onmessage = (event) => {
+  const { jobId, job } = event.data;
+
+  try {
+    const delta = runMappingJob(job);
+    scope.postMessage({ jobId, delta }, getDeltaTransferables(delta));
+  } catch (error) {
+    scope.postMessage({ jobId, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,378 @@
+/**
+ * Local Mapping Jobs
+ * Wire format for running local bundle adjustment off the main thread
+ *
+ * A job is a detached snapshot of the local window packed into typed arrays,
+ * so it can be posted to a Web Worker with zero-copy buffer transfer.
+ * The worker answers with a map delta in the same layout. Loop closing jobs
+ * (loop-closing.ts) share the workers and message protocol.
+ */
+
+import type { CameraIntrinsics, PreintegratedIMU } from './types';
+import {
+  LocalBundleAdjuster,
+  type LocalBundleAdjusterConfig,
+  type BundleAdjustmentProblem,
+  type BundleAdjustmentSolution,
+  type BundleAdjustmentResult,
+  type BundleAdjustmentInertialState,
+} from './local-bundle-adjuster';
+import {
+  runLoopClosingJob,
+  getLoopClosingJobTransferables,
+  getLoopClosingDeltaTransferables,
+  type LoopClosingJob,
+  type LoopClosingDelta,
+} from './loop-closing';
+import { Vector3 } from '../math/vector';
+import { Quaternion } from '../math/quaternion';
+
+// [keyframeId, px, py, pz, qx, qy, qz, qw, fx, fy, cx, cy, fixed]
+const JOB_POSE_STRIDE = 13;
+// [mapPointId, x, y, z]
+const JOB_POINT_STRIDE = 4;
+// [pose, point, x, y, featureIndex]
+const JOB_OBSERVATION_STRIDE = 5;
+// [px, py, pz, qx, qy, qz, qw]
+const DELTA_POSE_STRIDE = 7;
+// [x, y, z]
+const DELTA_POINT_STRIDE = 3;
+// [hasState, vx, vy, vz, bgx, bgy, bgz, bax, bay, baz]
+const INERTIAL_STATE_STRIDE = 10;
+// [from, to, dt, ΔR (4), Δv (3), Δp (3), bg (3), ba (3), bias Jacobians (5x9), covariance (81)]
+const INERTIAL_EDGE_STRIDE = 3 + 4 + 3 + 3 + 3 + 3 + 45 + 81;
+
+export interface LocalMappingJob {
+  type: 'bundle-adjustment';
+  config: LocalBundleAdjusterConfig;
+  poses: Float64Array;
+  points: Float64Array;
+  observations: Float64Array;
+  inertial?: LocalMappingInertialData; // Visual-inertial mode only
+}
+
+export interface LocalMappingInertialData {
+  gravity: Float64Array;
+  states: Float64Array; // Per pose
+  edges: Float64Array;
+}
+
+/**
+ * Optimized window in problem order
+ */
+export interface LocalMappingDelta {
+  poses: Float64Array;
+  points: Float64Array;
+  inertialStates?: Float64Array; // Per pose, visual-inertial mode only
+  outliers: Uint32Array; // Observation indices
+  result: BundleAdjustmentResult;
+}
+
+export type MappingJob = LocalMappingJob | LoopClosingJob;
+export type MappingDelta = LocalMappingDelta | LoopClosingDelta;
+
+export interface LocalMappingRequest {
+  jobId: number;
+  job: MappingJob;
+}
+
+export type LocalMappingResponse =
+  | { jobId: number; delta: MappingDelta }
+  | { jobId: number; error: string };
+
+/**
+ * Pack a bundle adjustment problem into a job
+ */
+export function encodeLocalMappingJob(
+  problem: BundleAdjustmentProblem,
+  config: LocalBundleAdjusterConfig
+): LocalMappingJob {
+  const poses = new Float64Array(problem.poses.length * JOB_POSE_STRIDE);
+  problem.poses.forEach((pose, i) => {
+    const { fx, fy, cx, cy } = pose.intrinsics;
+    poses.set(
+      [
+        pose.keyframeId,
+        pose.position.x, pose.position.y, pose.position.z,
+        pose.rotation.x, pose.rotation.y, pose.rotation.z, pose.rotation.w,
+        fx, fy, cx, cy,
+        pose.fixed ? 1 : 0,
+      ],
+      i * JOB_POSE_STRIDE
+    );
+  });
+
+  const points = new Float64Array(problem.points.length * JOB_POINT_STRIDE);
+  problem.points.forEach((point, i) => {
+    points.set(
+      [point.mapPointId, point.position.x, point.position.y, point.position.z],
+      i * JOB_POINT_STRIDE
+    );
+  });
+
+  const observations = new Float64Array(problem.observations.length * JOB_OBSERVATION_STRIDE);
+  problem.observations.forEach((obs, i) => {
+    observations.set([obs.pose, obs.point, obs.x, obs.y, obs.featureIndex], i * JOB_OBSERVATION_STRIDE);
+  });
+
+  const job: LocalMappingJob = { type: 'bundle-adjustment', config: { ...config }, poses, points, observations };
+
+  if (problem.inertial) {
+    const { gravity, edges } = problem.inertial;
+    const packed = new Float64Array(edges.length * INERTIAL_EDGE_STRIDE);
+    edges.forEach((edge, i) => {
+      const pre = edge.preintegration;
+      const { jacobians } = pre;
+      packed.set(
+        [
+          edge.from, edge.to, pre.dt,
+          pre.deltaRotation.x, pre.deltaRotation.y, pre.deltaRotation.z, pre.deltaRotation.w,
+          ...pre.deltaVelocity.toArray(),
+          ...pre.deltaPosition.toArray(),
+          ...pre.gyroBias.toArray(),
+          ...pre.accelBias.toArray(),
+          ...[
+            jacobians.rotationGyro,
+            jacobians.velocityGyro,
+            jacobians.velocityAccel,
+            jacobians.positionGyro,
+            jacobians.positionAccel,
+          ].flatMap(m => m.flat()),
+          ...pre.covariance.flat(),
+        ],
+        i * INERTIAL_EDGE_STRIDE
+      );
+    });
+
+    job.inertial = {
+      gravity: Float64Array.from(gravity.toArray()),
+      states: encodeInertialStates(problem.poses.map(pose => pose.inertial)),
+      edges: packed,
+    };
+  }
+
+  return job;
+}
+
+/**
+ * Unpack a job into a bundle adjustment problem
+ */
+export function decodeLocalMappingJob(job: LocalMappingJob): BundleAdjustmentProblem {
+  const { poses, points, observations } = job;
+
+  const problem: BundleAdjustmentProblem = { poses: [], points: [], observations: [] };
+
+  for (let o = 0; o < poses.length; o += JOB_POSE_STRIDE) {
+    const intrinsics: CameraIntrinsics = {
+      fx: poses[o + 8],
+      fy: poses[o + 9],
+      cx: poses[o + 10],
+      cy: poses[o + 11],
+    };
+    problem.poses.push({
+      keyframeId: poses[o],
+      position: new Vector3(poses[o + 1], poses[o + 2], poses[o + 3]),
+      rotation: new Quaternion(poses[o + 4], poses[o + 5], poses[o + 6], poses[o + 7]),
+      intrinsics,
+      fixed: poses[o + 12] !== 0,
+    });
+  }
+
+  for (let o = 0; o < points.length; o += JOB_POINT_STRIDE) {
+    problem.points.push({
+      mapPointId: points[o],
+      position: new Vector3(points[o + 1], points[o + 2], points[o + 3]),
+    });
+  }
+
+  for (let o = 0; o < observations.length; o += JOB_OBSERVATION_STRIDE) {
+    problem.observations.push({
+      pose: observations[o],
+      point: observations[o + 1],
+      x: observations[o + 2],
+      y: observations[o + 3],
+      featureIndex: observations[o + 4],
+    });
+  }
+
+  if (job.inertial) {
+    const { gravity, states, edges } = job.inertial;
+    decodeInertialStates(states).forEach((state, i) => {
+      if (state) {
+        problem.poses[i].inertial = state;
+      }
+    });
+
+    problem.inertial = { gravity: new Vector3(gravity[0], gravity[1], gravity[2]), edges: [] };
+    for (let o = 0; o < edges.length; o += INERTIAL_EDGE_STRIDE) {
+      const e = edges;
+      const vec = (k: number) => new Vector3(e[o + k], e[o + k + 1], e[o + k + 2]);
+      const mat = (k: number, n: number) =>
+        Array.from({ length: n }, (_, r) => Array.from(e.subarray(o + k + r * n, o + k + (r + 1) * n)));
+      const preintegration: PreintegratedIMU = {
+        dt: e[o + 2],
+        deltaRotation: new Quaternion(e[o + 3], e[o + 4], e[o + 5], e[o + 6]),
+        deltaVelocity: vec(7),
+        deltaPosition: vec(10),
+        gyroBias: vec(13),
+        accelBias: vec(16),
+        jacobians: {
+          rotationGyro: mat(19, 3),
+          velocityGyro: mat(28, 3),
+          velocityAccel: mat(37, 3),
+          positionGyro: mat(46, 3),
+          positionAccel: mat(55, 3),
+        },
+        covariance: mat(64, 9),
+      };
+      problem.inertial.edges.push({ from: e[o], to: e[o + 1], preintegration });
+    }
+  }
+
+  return problem;
+}
+
+/**
+ * Pack a solution into a map delta
+ */
+export function encodeLocalMappingDelta(solution: BundleAdjustmentSolution): LocalMappingDelta {
+  const poses = new Float64Array(solution.poses.length * DELTA_POSE_STRIDE);
+  solution.poses.forEach((pose, i) => {
+    poses.set(
+      [
+        pose.position.x, pose.position.y, pose.position.z,
+        pose.rotation.x, pose.rotation.y, pose.rotation.z, pose.rotation.w,
+      ],
+      i * DELTA_POSE_STRIDE
+    );
+  });
+
+  const points = new Float64Array(solution.points.length * DELTA_POINT_STRIDE);
+  solution.points.forEach((point, i) => {
+    points.set([point.position.x, point.position.y, point.position.z], i * DELTA_POINT_STRIDE);
+  });
+
+  const delta: LocalMappingDelta = {
+    poses,
+    points,
+    outliers: Uint32Array.from(solution.outliers),
+    result: { ...solution.result },
+  };
+  if (solution.poses.some(pose => pose.inertial)) {
+    delta.inertialStates = encodeInertialStates(solution.poses.map(pose => pose.inertial));
+  }
+  return delta;
+}
+
+/**
+ * Unpack a map delta against the problem it was computed from
+ */
+export function decodeLocalMappingDelta(
+  problem: BundleAdjustmentProblem,
+  delta: LocalMappingDelta
+): BundleAdjustmentSolution {
+  if (
+    delta.poses.length !== problem.poses.length * DELTA_POSE_STRIDE ||
+    delta.points.length !== problem.points.length * DELTA_POINT_STRIDE
+  ) {
+    throw new Error('Local mapping delta does not match its job');
+  }
+
+  const inertialStates = delta.inertialStates ? decodeInertialStates(delta.inertialStates) : [];
+  if (delta.inertialStates && inertialStates.length !== problem.poses.length) {
+    throw new Error('Local mapping delta does not match its job');
+  }
+
+  return {
+    poses: problem.poses.map((pose, i) => {
+      const o = i * DELTA_POSE_STRIDE;
+      const p = delta.poses;
+      return {
+        ...pose,
+        position: new Vector3(p[o], p[o + 1], p[o + 2]),
+        rotation: new Quaternion(p[o + 3], p[o + 4], p[o + 5], p[o + 6]),
+        inertial: inertialStates[i] ?? pose.inertial,
+      };
+    }),
+    points: problem.points.map((point, i) => {
+      const o = i * DELTA_POINT_STRIDE;
+      return {
+        ...point,
+        position: new Vector3(delta.points[o], delta.points[o + 1], delta.points[o + 2]),
+      };
+    }),
+    outliers: Array.from(delta.outliers),
+    result: { ...delta.result },
+  };
+}
+
+/**
+ * Solve a job (worker side, or in-process fallback)
+ */
+export function runLocalMappingJob(job: LocalMappingJob): LocalMappingDelta {
+  const adjuster = new LocalBundleAdjuster(job.config);
+  const solution = adjuster.solve(decodeLocalMappingJob(job));
+  return encodeLocalMappingDelta(solution);
+}
+
+/**
+ * Run a job of either kind (worker side, or in-process fallback)
+ */
+export function runMappingJob(job: MappingJob): MappingDelta {
+  return job.type === 'loop-closing' ? runLoopClosingJob(job) : runLocalMappingJob(job);
+}
+
+/**
+ * Buffers that can be transferred instead of copied
+ */
+export function getJobTransferables(job: MappingJob): ArrayBuffer[] {
+  if (job.type === 'loop-closing') {
+    return getLoopClosingJobTransferables(job);
+  }
+
+  const buffers = [job.poses.buffer, job.points.buffer, job.observations.buffer];
+  if (job.inertial) {
+    buffers.push(job.inertial.gravity.buffer, job.inertial.states.buffer, job.inertial.edges.buffer);
+  }
+  return buffers as ArrayBuffer[];
+}
+
+export function getDeltaTransferables(delta: MappingDelta): ArrayBuffer[] {
+  if ('culled' in delta) {
+    return getLoopClosingDeltaTransferables(delta);
+  }
+
+  const buffers = [delta.poses.buffer, delta.points.buffer, delta.outliers.buffer];
+  if (delta.inertialStates) {
+    buffers.push(delta.inertialStates.buffer);
+  }
+  return buffers as ArrayBuffer[];
+}
+
+function encodeInertialStates(states: Array<BundleAdjustmentInertialState | undefined>): Float64Array {
+  const packed = new Float64Array(states.length * INERTIAL_STATE_STRIDE);
+  states.forEach((state, i) => {
+    if (!state) {return;}
+    packed.set(
+      [1, ...state.velocity.toArray(), ...state.gyroBias.toArray(), ...state.accelBias.toArray()],
+      i * INERTIAL_STATE_STRIDE
+    );
+  });
+  return packed;
+}
+
+function decodeInertialStates(packed: Float64Array): Array<BundleAdjustmentInertialState | undefined> {
+  const states: Array<BundleAdjustmentInertialState | undefined> = [];
+  for (let o = 0; o < packed.length; o += INERTIAL_STATE_STRIDE) {
+    states.push(
+      packed[o] === 0
+        ? undefined
+        : {
+          velocity: new Vector3(packed[o + 1], packed[o + 2], packed[o + 3]),
+          gyroBias: new Vector3(packed[o + 4], packed[o + 5], packed[o + 6]),
+          accelBias: new Vector3(packed[o + 7], packed[o + 8], packed[o + 9]),
+        }
+    );
+  }
+  return states;
+}
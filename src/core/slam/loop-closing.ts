@@ -0,0 +1,441 @@
+/**
+ * Loop Closing Jobs
+ * Wire format for culling, loop detection and pose graph correction off the main thread
+ *
+ * A job is a detached snapshot of the map packed into typed arrays: map
+ * points always (for culling), keyframes with features and covisibility only
+ * when a loop query is due. The worker rebuilds the map, runs the usual
+ * LoopClosureDetector and PoseGraphOptimizer on it, and answers with the
+ * culled points and every pose and point it moved, each with its snapshot
+ * value so the main thread can skip elements changed in the meantime.
+ */
+
+import type { Keyframe, KeyframeFeature, LoopClosureCorrection, MapPoint } from './types';
+import { SLAMMapManager } from './slam-map';
+import { LoopClosureDetector, type LoopClosureConfig } from './loop-closure';
+import { PoseGraphOptimizer, type PoseGraphOptimizerConfig, type LoopConstraint } from './pose-graph-optimizer';
+import { Sim3 } from '../math/sim3';
+import { Vector3 } from '../math/vector';
+import { Quaternion } from '../math/quaternion';
+import { Matrix4 } from '../math/matrix';
+import { ORB_DESCRIPTOR_BYTES } from '../constants';
+import { Logger } from '../../utils/logger';
+
+// [keyframeId, timestamp, px, py, pz, qx, qy, qz, qw, fx, fy, cx, cy, features, covisible]
+const JOB_KEYFRAME_STRIDE = 15;
+// [x, y, octave, angle, mapPointId (-1 = none)]
+const JOB_FEATURE_STRIDE = 5;
+// [mapPointId, x, y, z, nx, ny, nz, trackingState, observations]
+const JOB_POINT_STRIDE = 9;
+// [keyframeId, before (px, py, pz, qx, qy, qz, qw), after (same)]
+const DELTA_POSE_STRIDE = 15;
+// [mapPointId, before (x, y, z), after (x, y, z), normal after (x, y, z)]
+const DELTA_POINT_STRIDE = 10;
+// [keyframeId, tx, ty, tz, qx, qy, qz, qw, scale]
+const DELTA_CORRECTION_STRIDE = 9;
+
+const TRACKING_STATES: Array<MapPoint['trackingState']> = ['good', 'tentative', 'bad'];
+
+export interface LoopClosingConfig {
+  loopClosure?: LoopClosureConfig;
+  poseGraph?: PoseGraphOptimizerConfig;
+}
+
+export interface LoopClosingJob {
+  type: 'loop-closing';
+  config: LoopClosingConfig;
+  query: number | null; // Keyframe to detect loops for
+  keyframes: Float64Array;
+  features: Float64Array;
+  descriptors: Uint8Array;
+  descriptorBytes: number;
+  covisibility: Float64Array; // Keyframe IDs, per keyframe
+  points: Float64Array;
+  observations: Float64Array; // Keyframe IDs, per map point
+}
+
+/**
+ * Loop found by a job, before merging
+ */
+export interface LoopClosingSummary {
+  queryKeyframeId: number;
+  loopKeyframeId: number;
+  inliers: number; // 3D correspondences supporting the Sim(3)
+  numEdges: number;
+  iterations: number;
+  initialError: number;
+  finalError: number;
+}
+
+export interface LoopClosingDelta {
+  culled: Uint32Array; // Map point IDs
+  poses: Float64Array;
+  points: Float64Array;
+  corrections: Float64Array;
+  loop: LoopClosingSummary | null;
+}
+
+/**
+ * Result of merging a loop closing delta
+ */
+export interface LoopClosingResult {
+  numCulled: number;
+  correction: LoopClosureCorrection | null; // Restricted to what was applied
+  inliers: number;
+}
+
+/**
+ * Snapshot a map into a job
+ *
+ * @param query Keyframe to detect loops for; null to only cull
+ */
+export function encodeLoopClosingJob(
+  map: SLAMMapManager,
+  query: number | null,
+  config: LoopClosingConfig
+): LoopClosingJob {
+  const keyframes = query === null ? [] : map.getAllKeyframes();
+  const mapPoints = map.getAllMapPoints();
+
+  const numFeatures = keyframes.reduce((sum, kf) => sum + kf.features.length, 0);
+  const descriptorBytes = keyframes.find(kf => kf.features.length > 0)?.features[0].descriptor.length
+    ?? ORB_DESCRIPTOR_BYTES;
+  const covisible = keyframes.map(kf => Array.from(map.getCovisibleKeyframes(kf.id)));
+
+  const packedKeyframes = new Float64Array(keyframes.length * JOB_KEYFRAME_STRIDE);
+  const features = new Float64Array(numFeatures * JOB_FEATURE_STRIDE);
+  const descriptors = new Uint8Array(numFeatures * descriptorBytes);
+  const covisibility = new Float64Array(covisible.reduce((sum, ids) => sum + ids.length, 0));
+
+  let f = 0;
+  let c = 0;
+  keyframes.forEach((kf, i) => {
+    const { position, rotation } = kf.pose;
+    const { fx, fy, cx, cy } = kf.intrinsics;
+    packedKeyframes.set(
+      [
+        kf.id, kf.timestamp,
+        position.x, position.y, position.z,
+        rotation.x, rotation.y, rotation.z, rotation.w,
+        fx, fy, cx, cy,
+        kf.features.length, covisible[i].length,
+      ],
+      i * JOB_KEYFRAME_STRIDE
+    );
+
+    for (const feature of kf.features) {
+      features.set(
+        [feature.x, feature.y, feature.octave, feature.angle, feature.mapPointId ?? -1],
+        f * JOB_FEATURE_STRIDE
+      );
+      descriptors.set(feature.descriptor.subarray(0, descriptorBytes), f * descriptorBytes);
+      f++;
+    }
+
+    covisibility.set(covisible[i], c);
+    c += covisible[i].length;
+  });
+
+  const points = new Float64Array(mapPoints.length * JOB_POINT_STRIDE);
+  const observations = new Float64Array(mapPoints.reduce((sum, mp) => sum + mp.observations.length, 0));
+  let o = 0;
+  mapPoints.forEach((mp, i) => {
+    points.set(
+      [
+        mp.id,
+        mp.position.x, mp.position.y, mp.position.z,
+        mp.normal.x, mp.normal.y, mp.normal.z,
+        TRACKING_STATES.indexOf(mp.trackingState), mp.observations.length,
+      ],
+      i * JOB_POINT_STRIDE
+    );
+    observations.set(mp.observations, o);
+    o += mp.observations.length;
+  });
+
+  return {
+    type: 'loop-closing',
+    config: { ...config },
+    query,
+    keyframes: packedKeyframes,
+    features,
+    descriptors,
+    descriptorBytes,
+    covisibility,
+    points,
+    observations,
+  };
+}
+
+/**
+ * Rebuild the map snapshot of a job
+ */
+export function decodeLoopClosingJob(job: LoopClosingJob): SLAMMapManager {
+  const map = new SLAMMapManager('loop-closing');
+  const raw = map.getRawMap();
+  const { keyframes, features, descriptors, descriptorBytes, covisibility, points, observations } = job;
+
+  let f = 0;
+  let c = 0;
+  for (let k = 0; k < keyframes.length; k += JOB_KEYFRAME_STRIDE) {
+    const id = keyframes[k];
+    const numFeatures = keyframes[k + 13];
+    const numCovisible = keyframes[k + 14];
+
+    const keyframeFeatures: KeyframeFeature[] = [];
+    for (let i = 0; i < numFeatures; i++, f++) {
+      const o = f * JOB_FEATURE_STRIDE;
+      keyframeFeatures.push({
+        x: features[o],
+        y: features[o + 1],
+        octave: features[o + 2],
+        angle: features[o + 3],
+        descriptor: descriptors.subarray(f * descriptorBytes, (f + 1) * descriptorBytes),
+        mapPointId: features[o + 4] < 0 ? null : features[o + 4],
+      });
+    }
+
+    const keyframe: Keyframe = {
+      id,
+      timestamp: keyframes[k + 1],
+      pose: {
+        position: new Vector3(keyframes[k + 2], keyframes[k + 3], keyframes[k + 4]),
+        rotation: new Quaternion(keyframes[k + 5], keyframes[k + 6], keyframes[k + 7], keyframes[k + 8]),
+        transform: Matrix4.identity(),
+        inverse: Matrix4.identity(),
+      },
+      features: keyframeFeatures,
+      covisibleKeyframes: Array.from(covisibility.subarray(c, c + numCovisible)),
+      mapPoints: Array.from(new Set(
+        keyframeFeatures.flatMap(feature => (feature.mapPointId === null ? [] : [feature.mapPointId]))
+      )),
+      intrinsics: { fx: keyframes[k + 9], fy: keyframes[k + 10], cx: keyframes[k + 11], cy: keyframes[k + 12] },
+    };
+    c += numCovisible;
+
+    raw.keyframes.set(id, keyframe);
+    raw.covisibilityGraph.set(id, new Set(keyframe.covisibleKeyframes));
+  }
+
+  let o = 0;
+  for (let p = 0; p < points.length; p += JOB_POINT_STRIDE) {
+    const numObservations = points[p + 8];
+    raw.mapPoints.set(points[p], {
+      id: points[p],
+      position: new Vector3(points[p + 1], points[p + 2], points[p + 3]),
+      descriptor: new Uint8Array(0), // Not needed for loop closing
+      observations: Array.from(observations.subarray(o, o + numObservations)),
+      normal: new Vector3(points[p + 4], points[p + 5], points[p + 6]),
+      minDistance: 0,
+      maxDistance: Infinity,
+      trackingState: TRACKING_STATES[points[p + 7]],
+      createdAt: 0,
+    });
+    o += numObservations;
+  }
+
+  return map;
+}
+
+/**
+ * Cull, detect loops and correct the snapshot (worker side, or in-process fallback)
+ */
+export function runLoopClosingJob(job: LoopClosingJob): LoopClosingDelta {
+  const map = decodeLoopClosingJob(job);
+
+  const ids = map.getAllMapPoints().map(mp => mp.id);
+  map.cullBadMapPoints();
+  const culled = ids.filter(id => !map.getMapPoint(id));
+
+  const empty: LoopClosingDelta = {
+    culled: Uint32Array.from(culled),
+    poses: new Float64Array(0),
+    points: new Float64Array(0),
+    corrections: new Float64Array(0),
+    loop: null,
+  };
+
+  const keyframe = job.query === null ? undefined : map.getKeyframe(job.query);
+  if (!keyframe) {return empty;}
+
+  const before = {
+    poses: new Map(map.getAllKeyframes().map(kf => [kf.id, kf.pose])),
+    points: new Map(map.getAllMapPoints().map(mp => [mp.id, mp.position])),
+  };
+
+  const loop = detectLoop(map, keyframe, job.config);
+  if (!loop) {return empty;}
+
+  const { correction, inliers } = loop;
+  const poses = new Float64Array(correction.corrections.size * DELTA_POSE_STRIDE);
+  const corrections = new Float64Array(correction.corrections.size * DELTA_CORRECTION_STRIDE);
+  let i = 0;
+  for (const [id, sim3] of correction.corrections) {
+    const old = before.poses.get(id)!;
+    const now = map.getKeyframe(id)!.pose;
+    poses.set(
+      [id, ...old.position.toArray(), ...old.rotation.toArray(), ...now.position.toArray(), ...now.rotation.toArray()],
+      i * DELTA_POSE_STRIDE
+    );
+    corrections.set(
+      [id, ...sim3.translation.toArray(), ...sim3.rotation.toArray(), sim3.scale],
+      i * DELTA_CORRECTION_STRIDE
+    );
+    i++;
+  }
+
+  const moved = map.getAllMapPoints().filter(mp => !mp.position.equals(before.points.get(mp.id)!));
+  const points = new Float64Array(moved.length * DELTA_POINT_STRIDE);
+  moved.forEach((mp, j) => {
+    points.set(
+      [mp.id, ...before.points.get(mp.id)!.toArray(), ...mp.position.toArray(), ...mp.normal.toArray()],
+      j * DELTA_POINT_STRIDE
+    );
+  });
+
+  return {
+    ...empty,
+    poses,
+    points,
+    corrections,
+    loop: {
+      queryKeyframeId: correction.queryKeyframeId,
+      loopKeyframeId: correction.loopKeyframeId,
+      inliers,
+      numEdges: correction.numEdges,
+      iterations: correction.iterations,
+      initialError: correction.initialError,
+      finalError: correction.finalError,
+    },
+  };
+}
+
+/**
+ * Merge a delta into the map
+ *
+ * Points are culled only if still bad or unobserved. Keyframes and map points
+ * changed since the snapshot (e.g. by a local bundle adjustment merged in the
+ * meantime) keep their current values and are left out of the correction.
+ */
+export function applyLoopClosingDelta(map: SLAMMapManager, delta: LoopClosingDelta): LoopClosingResult {
+  const numCulled = map.removeBadMapPoints(delta.culled);
+  if (!delta.loop) {
+    return { numCulled, correction: null, inliers: 0 };
+  }
+
+  const corrections = new Map<number, Sim3>();
+  for (let o = 0; o < delta.poses.length; o += DELTA_POSE_STRIDE) {
+    const p = delta.poses;
+    const id = p[o];
+    const keyframe = map.getKeyframe(id);
+    if (
+      !keyframe ||
+      !keyframe.pose.position.equals(new Vector3(p[o + 1], p[o + 2], p[o + 3])) ||
+      !keyframe.pose.rotation.equals(new Quaternion(p[o + 4], p[o + 5], p[o + 6], p[o + 7]))
+    ) {
+      continue;
+    }
+
+    map.updateKeyframePose(
+      id,
+      new Vector3(p[o + 8], p[o + 9], p[o + 10]),
+      new Quaternion(p[o + 11], p[o + 12], p[o + 13], p[o + 14])
+    );
+
+    const k = (o / DELTA_POSE_STRIDE) * DELTA_CORRECTION_STRIDE;
+    const s = delta.corrections;
+    corrections.set(
+      id,
+      new Sim3(new Quaternion(s[k + 4], s[k + 5], s[k + 6], s[k + 7]), new Vector3(s[k + 1], s[k + 2], s[k + 3]), s[k + 8])
+    );
+  }
+
+  let numMapPointsCorrected = 0;
+  for (let o = 0; o < delta.points.length; o += DELTA_POINT_STRIDE) {
+    const p = delta.points;
+    const mapPoint = map.getMapPoint(p[o]);
+    if (!mapPoint || !mapPoint.position.equals(new Vector3(p[o + 1], p[o + 2], p[o + 3]))) {continue;}
+
+    map.updateMapPoint(p[o], {
+      position: new Vector3(p[o + 4], p[o + 5], p[o + 6]),
+      normal: new Vector3(p[o + 7], p[o + 8], p[o + 9]),
+    });
+    numMapPointsCorrected++;
+  }
+
+  const { loop } = delta;
+  return {
+    numCulled,
+    inliers: loop.inliers,
+    correction: {
+      queryKeyframeId: loop.queryKeyframeId,
+      loopKeyframeId: loop.loopKeyframeId,
+      corrections,
+      numMapPointsCorrected,
+      numEdges: loop.numEdges,
+      iterations: loop.iterations,
+      initialError: loop.initialError,
+      finalError: loop.finalError,
+    },
+  };
+}
+
+/**
+ * Buffers that can be transferred instead of copied
+ */
+export function getLoopClosingJobTransferables(job: LoopClosingJob): ArrayBuffer[] {
+  return [
+    job.keyframes.buffer,
+    job.features.buffer,
+    job.descriptors.buffer,
+    job.covisibility.buffer,
+    job.points.buffer,
+    job.observations.buffer,
+  ] as ArrayBuffer[];
+}
+
+export function getLoopClosingDeltaTransferables(delta: LoopClosingDelta): ArrayBuffer[] {
+  return [delta.culled.buffer, delta.poses.buffer, delta.points.buffer, delta.corrections.buffer] as ArrayBuffer[];
+}
+
+/**
+ * Index every keyframe, query one and correct the map for its strongest loop
+ */
+function detectLoop(
+  map: SLAMMapManager,
+  keyframe: Keyframe,
+  config: LoopClosingConfig
+): { correction: LoopClosureCorrection; inliers: number } | null {
+  const logger = Logger.create('LoopClosing');
+  const detector = new LoopClosureDetector(map, config.loopClosure);
+  for (const kf of map.getAllKeyframes()) {
+    detector.addKeyframe(kf);
+  }
+
+  const loopClosures = detector.findLoopClosures(keyframe);
+  if (loopClosures.length === 0) {return null;}
+
+  // Use the strongest verified candidate
+  const loop = loopClosures.reduce((best, c) => (c.inliers > best.inliers ? c : best));
+  const loopKeyframe = map.getKeyframe(loop.candidateKeyframeId);
+  if (!loopKeyframe) {return null;}
+
+  const sim3 = detector.computeSim3(keyframe, loopKeyframe);
+  if (!sim3) {
+    logger.warn(`Loop with keyframe ${loop.candidateKeyframeId} rejected: not enough 3D correspondences`);
+    return null;
+  }
+
+  // Loop-consistent query pose and resulting loop edge measurement
+  const queryPose = Sim3.fromPose(keyframe.pose.position, keyframe.pose.rotation);
+  const loopPose = Sim3.fromPose(loopKeyframe.pose.position, loopKeyframe.pose.rotation);
+  const constraint: LoopConstraint = {
+    queryKeyframeId: keyframe.id,
+    loopKeyframeId: loopKeyframe.id,
+    relative: loopPose.inverse().multiply(sim3.transform.multiply(queryPose)),
+  };
+
+  // Hold the query keyframe so tracking continues without a jump
+  const correction = new PoseGraphOptimizer(config.poseGraph).correctLoop(map, [constraint], keyframe.id);
+  return correction ? { correction, inliers: sim3.inliers } : null;
+}
@@ -6,6 +6,9 @@
 
 import type { Keyframe, LoopClosureCandidate } from './types';
 import { SLAMMapManager } from './slam-map';
+import { Sim3 } from '../math/sim3';
+import { Kabsch } from '../tracking/kabsch';
+import type { Vector3 } from '../math/vector';
 
 export interface LoopClosureConfig {
   // Minimum keyframe interval between loop closure checks
@@ -95,46 +98,25 @@ export class LoopClosureDetector {
     }
 
     this.lastCheckFrame = frameNumber;
+    return this.findLoopClosures(currentKeyframe);
+  }
 
+  /**
+   * Detect loop closure for a keyframe regardless of the check interval
+   */
+  findLoopClosures(currentKeyframe: Keyframe): LoopClosureCandidate[] {
     // Compute BoW vector for current keyframe
     const currentBoW = this.computeBoWVector(currentKeyframe);
 
     // Get candidate keyframes using inverted index
-    const candidates = this.getCandidateKeyframes(currentKeyframe, currentBoW);
-
-    if (candidates.length === 0) {
-      return [];
-    }
-
-    // Compute similarity scores
-    const scoredCandidates = candidates.map((candidate) => {
-      const candidateBoW = this.bowVectors.get(candidate.id)!;
-      const similarity = this.computeSimilarity(currentBoW, candidateBoW);
+    const candidates = this.getCandidateKeyframes(currentKeyframe, currentBoW, true);
 
-      return {
-        queryKeyframeId: currentKeyframe.id,
-        candidateKeyframeId: candidate.id,
-        similarity,
-        matchCount: 0, // will be computed in geometric verification
-        inliers: 0,
-      };
-    });
-
-    // Filter by similarity threshold
-    let loopCandidates = scoredCandidates.filter(
-      (c) => c.similarity >= this.config.similarityThreshold
-    );
+    let loopCandidates = this.rankCandidates(currentKeyframe, currentBoW, candidates);
 
     if (loopCandidates.length === 0) {
       return [];
     }
 
-    // Sort by similarity (descending)
-    loopCandidates.sort((a, b) => b.similarity - a.similarity);
-
-    // Take top N candidates
-    loopCandidates = loopCandidates.slice(0, this.config.numCandidates);
-
     // Geometric verification
     if (this.config.enableGeometricVerification) {
       loopCandidates = this.geometricVerification(
@@ -153,6 +135,103 @@ export class LoopClosureDetector {
     return loopCandidates;
   }
 
+  /**
+   * Find database keyframes that look like a keyframe from another map
+   *
+   * Used for relocalizing against a stored map: timestamps and keyframe IDs
+   * of the query are unrelated to the database, so there is no temporal
+   * gating. Candidates are verified by descriptor matches only; their
+   * geometry is checked with {@link computeSim3}.
+   */
+  queryDatabase(keyframe: Keyframe): LoopClosureCandidate[] {
+    const bow = this.computeBoWVector(keyframe);
+    const candidates = this.getCandidateKeyframes(keyframe, bow, false);
+
+    const verified: LoopClosureCandidate[] = [];
+    for (const candidate of this.rankCandidates(keyframe, bow, candidates)) {
+      const candidateKeyframe = this.map.getKeyframe(candidate.candidateKeyframeId)!;
+      const matchCount = this.matchFeatures(keyframe, candidateKeyframe).length;
+
+      if (matchCount >= this.config.minMatches) {
+        verified.push({ ...candidate, matchCount });
+      }
+    }
+
+    return verified;
+  }
+
+  /**
+   * Estimate the similarity transform that maps the query keyframe's
+   * map points onto the loop keyframe's map points
+   *
+   * Applying the transform to the query pose (S * T_query) gives the
+   * loop-consistent pose used as the loop edge measurement.
+   *
+   * @param queryMap Map holding the query keyframe's points (defaults to the
+   * database map; pass another map to align two maps)
+   * @returns Transform and inlier count, or null if not enough 3D matches
+   */
+  computeSim3(
+    queryKeyframe: Keyframe,
+    loopKeyframe: Keyframe,
+    queryMap: SLAMMapManager = this.map
+  ): { transform: Sim3; inliers: number } | null {
+    const matches = this.matchFeatures(queryKeyframe, loopKeyframe);
+    const sameMap = queryMap === this.map;
+
+    // Collect 3D-3D correspondences through associated map points
+    let queryPoints: Vector3[] = [];
+    let loopPoints: Vector3[] = [];
+    for (const match of matches) {
+      const queryId = queryKeyframe.features[match.idx1].mapPointId;
+      const loopId = loopKeyframe.features[match.idx2].mapPointId;
+      if (queryId === null || loopId === null || (sameMap && queryId === loopId)) {continue;}
+
+      const queryPoint = queryMap.getMapPoint(queryId);
+      const loopPoint = this.map.getMapPoint(loopId);
+      if (!queryPoint || !loopPoint) {continue;}
+
+      queryPoints.push(queryPoint.position);
+      loopPoints.push(loopPoint.position);
+    }
+
+    const minCorrespondences = Math.max(3, Math.floor(this.config.minMatches / 2));
+    if (queryPoints.length < minCorrespondences) {
+      return null;
+    }
+
+    let alignment = Kabsch.computeSimilarityTransform(queryPoints, loopPoints);
+    if (!alignment) {return null;}
+
+    // Reject outliers (> 3x RMSD) and refit once
+    const threshold = Math.max(alignment.rmsd * 3, 1e-6);
+    const transform = new Sim3(alignment.rotation, alignment.translation, alignment.scale);
+    const inlierQuery: Vector3[] = [];
+    const inlierLoop: Vector3[] = [];
+    for (let i = 0; i < queryPoints.length; i++) {
+      if (transform.transformPoint(queryPoints[i]).distanceTo(loopPoints[i]) <= threshold) {
+        inlierQuery.push(queryPoints[i]);
+        inlierLoop.push(loopPoints[i]);
+      }
+    }
+
+    if (inlierQuery.length < minCorrespondences) {
+      return null;
+    }
+
+    if (inlierQuery.length < queryPoints.length) {
+      queryPoints = inlierQuery;
+      loopPoints = inlierLoop;
+      alignment = Kabsch.computeSimilarityTransform(queryPoints, loopPoints);
+      if (!alignment) {return null;}
+    }
+
+    return {
+      transform: new Sim3(alignment.rotation, alignment.translation, alignment.scale),
+      inliers: queryPoints.length,
+    };
+  }
+
   /**
    * Get statistics
    */
@@ -232,10 +311,14 @@ export class LoopClosureDetector {
 
   /**
    * Get candidate keyframes using inverted index
+   *
+   * @param excludeRecent Skip the query itself and keyframes close in time
+   * (loop detection within one map)
    */
   private getCandidateKeyframes(
     currentKeyframe: Keyframe,
-    currentBoW: BoWVector
+    currentBoW: BoWVector,
+    excludeRecent: boolean
   ): Keyframe[] {
     // Find keyframes that share words with current keyframe
     const candidateScores = new Map<number, number>();
@@ -246,7 +329,7 @@ export class LoopClosureDetector {
 
       for (const keyframeId of keyframeIds) {
         // Skip current keyframe
-        if (keyframeId === currentKeyframe.id) {continue;}
+        if (excludeRecent && keyframeId === currentKeyframe.id) {continue;}
 
         // Skip recent keyframes (covisibility)
         const keyframe = this.map.getKeyframe(keyframeId);
@@ -255,7 +338,7 @@ export class LoopClosureDetector {
         const timeDiff = Math.abs(
           currentKeyframe.timestamp - keyframe.timestamp
         );
-        if (timeDiff < 3000) {continue;} // 3 seconds minimum
+        if (excludeRecent && timeDiff < 3000) {continue;} // 3 seconds minimum
 
         // Accumulate score
         candidateScores.set(
@@ -279,6 +362,38 @@ export class LoopClosureDetector {
     return candidates;
   }
 
+  /**
+   * Score candidates by BoW similarity and keep the best ones above threshold
+   */
+  private rankCandidates(
+    currentKeyframe: Keyframe,
+    currentBoW: BoWVector,
+    candidates: Keyframe[]
+  ): LoopClosureCandidate[] {
+    // Compute similarity scores
+    const scoredCandidates = candidates.map((candidate) => {
+      const candidateBoW = this.bowVectors.get(candidate.id)!;
+      const similarity = this.computeSimilarity(currentBoW, candidateBoW);
+
+      return {
+        queryKeyframeId: currentKeyframe.id,
+        candidateKeyframeId: candidate.id,
+        similarity,
+        matchCount: 0, // will be computed in geometric verification
+        inliers: 0,
+      };
+    });
+
+    // Filter by similarity threshold
+    const ranked = scoredCandidates.filter(
+      (c) => c.similarity >= this.config.similarityThreshold
+    );
+
+    // Sort by similarity (descending), take top N candidates
+    ranked.sort((a, b) => b.similarity - a.similarity);
+    return ranked.slice(0, this.config.numCandidates);
+  }
+
   /**
    * Compute cosine similarity between two BoW vectors
    */
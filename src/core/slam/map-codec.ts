@@ -0,0 +1,369 @@
+/**
+ * Map Codec
+ * Versioned binary encoding of serialized SLAM maps
+ *
+ * Layout (little-endian):
+ *   magic "BARM" | u16 format version | u16 flags | u32 CRC32 | u32 payload size | payload
+ *
+ * The payload is a sequence of sections (u32 tag, u32 byte length, bytes),
+ * each holding one typed array. With the deflate flag set the payload is
+ * compressed as a whole; the CRC32 always covers the uncompressed payload.
+ */
+
+import type { SerializedMap, MapPoint } from './types';
+import {
+  crc32,
+  writeSections,
+  readSections,
+  getSection,
+  transformBytes,
+} from '../../utils/binary-sections';
+
+export { crc32 };
+
+export const MAP_FORMAT_VERSION = 2;
+
+export interface MapEncodeOptions {
+  // Deflate the payload (skipped when CompressionStream is unavailable)
+  compress?: boolean;
+}
+
+const MAGIC = 0x4d524142; // "BARM"
+const HEADER_BYTES = 16;
+const FLAG_DEFLATE = 1;
+
+// Keyframe: id, timestamp, position (3), rotation (4), fx, fy, cx, cy
+const KEYFRAME_STRIDE = 13;
+// Keyframe counts: features, map points, covisible keyframes
+const KEYFRAME_COUNT_STRIDE = 3;
+// Feature: x, y, octave, angle
+const FEATURE_STRIDE = 4;
+// Map point: id, position (3), normal (3), min distance, max distance, tracking state
+const MAP_POINT_STRIDE = 10;
+
+const TRACKING_STATES: Array<MapPoint['trackingState']> = ['good', 'tentative', 'bad'];
+
+const Section = {
+  META: 'META',
+  KEYFRAMES: 'KFRM',
+  KEYFRAME_COUNTS: 'KFCT',
+  FEATURES: 'FEAT',
+  FEATURE_MAP_POINTS: 'FMPT',
+  FEATURE_DESCRIPTORS: 'FDSC',
+  KEYFRAME_MAP_POINTS: 'KFMP',
+  COVISIBILITY: 'COVI',
+  MAP_POINTS: 'MPTS',
+  MAP_POINT_OBSERVATION_COUNTS: 'MPOC',
+  MAP_POINT_OBSERVATIONS: 'MPOB',
+  MAP_POINT_DESCRIPTORS: 'MPDS',
+} as const;
+
+interface MapMeta {
+  version: string;
+  id: string;
+  name: string;
+  metadata: SerializedMap['map']['metadata'];
+  descriptorBytes: number;
+}
+
+/**
+ * Encode a serialized map into the binary format
+ */
+export async function encodeMap(
+  map: SerializedMap,
+  options: MapEncodeOptions = {}
+): Promise<Uint8Array> {
+  const { keyframes, mapPoints } = map.map;
+  const descriptorBytes =
+    keyframes[0]?.features[0]?.descriptor.length ?? mapPoints[0]?.descriptor.length ?? 32;
+
+  const copyDescriptor = (target: Uint8Array, index: number, descriptor: ArrayLike<number>) => {
+    if (descriptor.length !== descriptorBytes) {
+      throw new Error(
+        `Descriptor length mismatch: expected ${descriptorBytes} bytes, got ${descriptor.length}`
+      );
+    }
+    target.set(descriptor, index * descriptorBytes);
+  };
+
+  // Keyframes and their features
+  const numFeatures = keyframes.reduce((sum, kf) => sum + kf.features.length, 0);
+  const keyframeData = new Float64Array(keyframes.length * KEYFRAME_STRIDE);
+  const keyframeCounts = new Uint32Array(keyframes.length * KEYFRAME_COUNT_STRIDE);
+  const features = new Float32Array(numFeatures * FEATURE_STRIDE);
+  const featureMapPoints = new Int32Array(numFeatures);
+  const featureDescriptors = new Uint8Array(numFeatures * descriptorBytes);
+  const keyframeMapPoints: number[] = [];
+  const covisibility: number[] = [];
+
+  let f = 0;
+  keyframes.forEach((kf, i) => {
+    const intrinsics = kf.intrinsics;
+    keyframeData.set(
+      [
+        kf.id,
+        kf.timestamp,
+        ...kf.pose.position,
+        ...kf.pose.rotation,
+        intrinsics?.fx ?? NaN,
+        intrinsics?.fy ?? NaN,
+        intrinsics?.cx ?? NaN,
+        intrinsics?.cy ?? NaN,
+      ],
+      i * KEYFRAME_STRIDE
+    );
+    keyframeCounts.set(
+      [kf.features.length, kf.mapPoints.length, kf.covisibleKeyframes.length],
+      i * KEYFRAME_COUNT_STRIDE
+    );
+
+    for (const feature of kf.features) {
+      features.set([feature.x, feature.y, feature.octave, feature.angle], f * FEATURE_STRIDE);
+      featureMapPoints[f] = feature.mapPointId ?? -1;
+      copyDescriptor(featureDescriptors, f, feature.descriptor);
+      f++;
+    }
+
+    keyframeMapPoints.push(...kf.mapPoints);
+    covisibility.push(...kf.covisibleKeyframes);
+  });
+
+  // Map points
+  const mapPointData = new Float64Array(mapPoints.length * MAP_POINT_STRIDE);
+  const observationCounts = new Uint32Array(mapPoints.length);
+  const observations: number[] = [];
+  const mapPointDescriptors = new Uint8Array(mapPoints.length * descriptorBytes);
+
+  mapPoints.forEach((mp, i) => {
+    mapPointData.set(
+      [
+        mp.id,
+        ...mp.position,
+        ...mp.normal,
+        mp.minDistance,
+        mp.maxDistance,
+        TRACKING_STATES.indexOf(mp.trackingState),
+      ],
+      i * MAP_POINT_STRIDE
+    );
+    observationCounts[i] = mp.observations.length;
+    observations.push(...mp.observations);
+    copyDescriptor(mapPointDescriptors, i, mp.descriptor);
+  });
+
+  const meta: MapMeta = {
+    version: map.version,
+    id: map.map.id,
+    name: map.map.name,
+    metadata: map.map.metadata,
+    descriptorBytes,
+  };
+
+  const payload = writeSections([
+    [Section.META, new TextEncoder().encode(JSON.stringify(meta))],
+    [Section.KEYFRAMES, keyframeData],
+    [Section.KEYFRAME_COUNTS, keyframeCounts],
+    [Section.FEATURES, features],
+    [Section.FEATURE_MAP_POINTS, featureMapPoints],
+    [Section.FEATURE_DESCRIPTORS, featureDescriptors],
+    [Section.KEYFRAME_MAP_POINTS, Uint32Array.from(keyframeMapPoints)],
+    [Section.COVISIBILITY, Uint32Array.from(covisibility)],
+    [Section.MAP_POINTS, mapPointData],
+    [Section.MAP_POINT_OBSERVATION_COUNTS, observationCounts],
+    [Section.MAP_POINT_OBSERVATIONS, Uint32Array.from(observations)],
+    [Section.MAP_POINT_DESCRIPTORS, mapPointDescriptors],
+  ]);
+
+  const compress = (options.compress ?? true) && typeof CompressionStream !== 'undefined';
+  const body = compress ? await transformBytes(payload, new CompressionStream('deflate')) : payload;
+
+  const bytes = new Uint8Array(HEADER_BYTES + body.length);
+  const header = new DataView(bytes.buffer);
+  header.setUint32(0, MAGIC, true);
+  header.setUint16(4, MAP_FORMAT_VERSION, true);
+  header.setUint16(6, compress ? FLAG_DEFLATE : 0, true);
+  header.setUint32(8, crc32(payload), true);
+  header.setUint32(12, payload.length, true);
+  bytes.set(body, HEADER_BYTES);
+
+  return bytes;
+}
+
+/**
+ * Decode a map from the binary format
+ * Verifies the format version and checksum.
+ */
+export async function decodeMap(bytes: Uint8Array): Promise<SerializedMap> {
+  if (!isEncodedMap(bytes)) {
+    throw new Error('Invalid map data: missing header');
+  }
+
+  const header = new DataView(bytes.buffer, bytes.byteOffset, HEADER_BYTES);
+  const version = header.getUint16(4, true);
+  const flags = header.getUint16(6, true);
+  const checksum = header.getUint32(8, true);
+  const payloadBytes = header.getUint32(12, true);
+
+  if (version > MAP_FORMAT_VERSION) {
+    throw new Error(`Unsupported map format version: ${version}`);
+  }
+
+  const body = bytes.subarray(HEADER_BYTES);
+  let payload: Uint8Array;
+  if (flags & FLAG_DEFLATE) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('DecompressionStream not supported');
+    }
+    payload = await transformBytes(body, new DecompressionStream('deflate'));
+  } else {
+    payload = body;
+  }
+
+  if (payload.length !== payloadBytes || crc32(payload) !== checksum) {
+    throw new Error('Map checksum mismatch: data is corrupted');
+  }
+
+  const sections = readSections(payload, 'map');
+  const section = (tag: string) => getSection(sections, tag, 'map');
+  const meta = JSON.parse(new TextDecoder().decode(section(Section.META))) as MapMeta;
+  const descriptorBytes = meta.descriptorBytes;
+
+  const keyframeData = new Float64Array(section(Section.KEYFRAMES).buffer);
+  const keyframeCounts = new Uint32Array(section(Section.KEYFRAME_COUNTS).buffer);
+  const features = new Float32Array(section(Section.FEATURES).buffer);
+  const featureMapPoints = new Int32Array(section(Section.FEATURE_MAP_POINTS).buffer);
+  const featureDescriptors = section(Section.FEATURE_DESCRIPTORS);
+  const keyframeMapPoints = new Uint32Array(section(Section.KEYFRAME_MAP_POINTS).buffer);
+  const covisibility = new Uint32Array(section(Section.COVISIBILITY).buffer);
+
+  const keyframes: SerializedMap['map']['keyframes'] = [];
+  let f = 0;
+  let m = 0;
+  let c = 0;
+  for (let i = 0; i < keyframeData.length / KEYFRAME_STRIDE; i++) {
+    const k = keyframeData.subarray(i * KEYFRAME_STRIDE, (i + 1) * KEYFRAME_STRIDE);
+    const [numFeatures, numMapPoints, numCovisible] = keyframeCounts.subarray(
+      i * KEYFRAME_COUNT_STRIDE,
+      (i + 1) * KEYFRAME_COUNT_STRIDE
+    );
+
+    const keyframeFeatures: SerializedMap['map']['keyframes'][number]['features'] = [];
+    for (let j = 0; j < numFeatures; j++, f++) {
+      const mapPointId = featureMapPoints[f];
+      keyframeFeatures.push({
+        x: features[f * FEATURE_STRIDE],
+        y: features[f * FEATURE_STRIDE + 1],
+        octave: features[f * FEATURE_STRIDE + 2],
+        angle: features[f * FEATURE_STRIDE + 3],
+        descriptor: Array.from(
+          featureDescriptors.subarray(f * descriptorBytes, (f + 1) * descriptorBytes)
+        ),
+        mapPointId: mapPointId < 0 ? null : mapPointId,
+      });
+    }
+
+    keyframes.push({
+      id: k[0],
+      timestamp: k[1],
+      pose: {
+        position: [k[2], k[3], k[4]],
+        rotation: [k[5], k[6], k[7], k[8]],
+      },
+      ...(Number.isNaN(k[9]) ? {} : { intrinsics: { fx: k[9], fy: k[10], cx: k[11], cy: k[12] } }),
+      features: keyframeFeatures,
+      covisibleKeyframes: Array.from(covisibility.subarray(c, c + numCovisible)),
+      mapPoints: Array.from(keyframeMapPoints.subarray(m, m + numMapPoints)),
+    });
+    m += numMapPoints;
+    c += numCovisible;
+  }
+
+  const mapPointData = new Float64Array(section(Section.MAP_POINTS).buffer);
+  const observationCounts = new Uint32Array(section(Section.MAP_POINT_OBSERVATION_COUNTS).buffer);
+  const observations = new Uint32Array(section(Section.MAP_POINT_OBSERVATIONS).buffer);
+  const mapPointDescriptors = section(Section.MAP_POINT_DESCRIPTORS);
+
+  const mapPoints: SerializedMap['map']['mapPoints'] = [];
+  let o = 0;
+  for (let i = 0; i < observationCounts.length; i++) {
+    const p = mapPointData.subarray(i * MAP_POINT_STRIDE, (i + 1) * MAP_POINT_STRIDE);
+    mapPoints.push({
+      id: p[0],
+      position: [p[1], p[2], p[3]],
+      descriptor: Array.from(
+        mapPointDescriptors.subarray(i * descriptorBytes, (i + 1) * descriptorBytes)
+      ),
+      observations: Array.from(observations.subarray(o, o + observationCounts[i])),
+      normal: [p[4], p[5], p[6]],
+      minDistance: p[7],
+      maxDistance: p[8],
+      trackingState: TRACKING_STATES[p[9]] ?? 'tentative',
+    });
+    o += observationCounts[i];
+  }
+
+  return {
+    version: meta.version,
+    map: {
+      id: meta.id,
+      name: meta.name,
+      metadata: meta.metadata,
+      keyframes,
+      mapPoints,
+    },
+    compressed: (flags & FLAG_DEFLATE) !== 0,
+    checksum: checksum.toString(16).padStart(8, '0'),
+  };
+}
+
+/**
+ * Read the header of an encoded map
+ *
+ * @returns Format version, compression and checksum, or null if not an encoded map
+ */
+export function readMapHeader(
+  bytes: Uint8Array
+): { version: number; compressed: boolean; checksum: number } | null {
+  if (bytes.length < HEADER_BYTES) {return null;}
+
+  const header = new DataView(bytes.buffer, bytes.byteOffset, HEADER_BYTES);
+  if (header.getUint32(0, true) !== MAGIC) {return null;}
+
+  return {
+    version: header.getUint16(4, true),
+    compressed: (header.getUint16(6, true) & FLAG_DEFLATE) !== 0,
+    checksum: header.getUint32(8, true),
+  };
+}
+
+/**
+ * Whether bytes start with the binary map header
+ */
+export function isEncodedMap(bytes: Uint8Array): boolean {
+  return readMapHeader(bytes) !== null;
+}
+
+/**
+ * Base64-encode bytes (for string-only storage such as localStorage)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  // Chunked to stay below the argument limit of String.fromCharCode
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
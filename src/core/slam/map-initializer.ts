@@ -0,0 +1,791 @@
+/**
+ * Map Initializer
+ * Monocular two-view bootstrap (ORB-SLAM style)
+ *
+ * - Keeps a reference frame and matches later frames against it
+ * - Waits for enough image motion before attempting reconstruction
+ * - Estimates a homography and a fundamental matrix with RANSAC on shared
+ *   8-point samples and selects by score ratio R_H = S_H / (S_H + S_F)
+ * - Recovers relative pose (homography: Faugeras decomposition,
+ *   fundamental: essential matrix decomposition) and triangulates points
+ *   with cheirality, reprojection and parallax checks
+ *
+ * The reference camera defines the world frame; the map is scaled so the
+ * median scene depth equals config.medianDepth.
+ */
+
+import type { CameraIntrinsics, KeyframeFeature } from './types';
+import { FeatureMatcher, type FeatureMatch } from '../matching/feature-matcher';
+import { Matrix } from '../math/matrix-ops';
+import { Vector3 } from '../math/vector';
+import { Quaternion } from '../math/quaternion';
+import { Logger } from '../../utils/logger';
+import { createRandom } from '../../utils/random';
+
+export interface MapInitializerConfig {
+  // Minimum matches between reference and current frame
+  minMatches?: number;
+
+  // Median feature displacement (pixels) before reconstruction is attempted;
+  // only a cheap gate, parallax is checked on the reconstruction
+  minMedianFlow?: number;
+
+  // Minimum triangulation parallax (degrees)
+  minParallax?: number;
+
+  // Minimum number of triangulated points
+  minTriangulated?: number;
+
+  // Keypoint measurement noise (pixels)
+  sigma?: number;
+
+  // RANSAC iterations (shared by homography and fundamental matrix)
+  ransacIterations?: number;
+
+  // Choose the homography when R_H exceeds this ratio
+  homographyRatioThreshold?: number;
+
+  // Frames after which a reference that never initialized is replaced
+  maxReferenceAge?: number;
+
+  // Median depth of the initial map (sets the monocular scale)
+  medianDepth?: number;
+}
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+/**
+ * Frame collected during initialization
+ */
+export interface InitializationFrame {
+  timestamp: number;
+  features: KeyframeFeature[];
+}
+
+/**
+ * Relative pose and structure from two views
+ */
+export interface TwoViewReconstruction {
+  model: 'homography' | 'fundamental';
+  scoreRatio: number; // R_H = S_H / (S_H + S_F)
+  rotation: Quaternion; // Current camera-to-world (reference camera = world)
+  position: Vector3; // Current camera center in world
+  points: Array<Vector3 | null>; // Per correspondence, null if rejected
+  numTriangulated: number;
+  parallax: number; // Degrees
+}
+
+export interface MapInitializationResult extends TwoViewReconstruction {
+  reference: InitializationFrame;
+  current: InitializationFrame;
+  matches: FeatureMatch[]; // queryIdx: current feature, trainIdx: reference feature
+}
+
+type Mat3 = number[][];
+
+interface Candidate {
+  R: Mat3; // Reference-to-current rotation (X2 = R X1 + t)
+  t: number[];
+}
+
+interface CandidateCheck {
+  numGood: number;
+  points: Array<Vector3 | null>;
+  parallax: number;
+}
+
+// Chi-square thresholds at 95% (1 and 2 degrees of freedom)
+const CHI2_1DOF = 3.841;
+const CHI2_2DOF = 5.991;
+
+// Points seen under a smaller angle are kept but not triangulated
+const MIN_COS_PARALLAX = 0.99998;
+
+export class MapInitializer {
+  private logger = Logger.create('MapInitializer');
+  private config: Required<MapInitializerConfig>;
+  private matcher: FeatureMatcher;
+  private reference: InitializationFrame | null = null;
+  private referenceAge = 0;
+
+  constructor(
+    private intrinsics: CameraIntrinsics,
+    config: MapInitializerConfig = {}
+  ) {
+    this.config = {
+      minMatches: config.minMatches ?? 100,
+      minMedianFlow: config.minMedianFlow ?? 5,
+      minParallax: config.minParallax ?? 1.0,
+      minTriangulated: config.minTriangulated ?? 50,
+      sigma: config.sigma ?? 1.0,
+      ransacIterations: config.ransacIterations ?? 200,
+      homographyRatioThreshold: config.homographyRatioThreshold ?? 0.45,
+      maxReferenceAge: config.maxReferenceAge ?? 30,
+      medianDepth: config.medianDepth ?? 1.0,
+    };
+    this.matcher = new FeatureMatcher({ enableCrossCheck: true });
+  }
+
+  /**
+   * Feed a frame; returns the reconstruction once two views initialize
+   */
+  addFrame(frame: InitializationFrame): MapInitializationResult | null {
+    if (!this.reference) {
+      this.setReference(frame);
+      return null;
+    }
+
+    this.referenceAge++;
+
+    const reference = this.reference;
+    const matches = this.matcher.match(
+      frame.features.map(f => f.descriptor),
+      reference.features.map(f => f.descriptor)
+    );
+
+    // Too few matches: the view changed too much, start over from this frame
+    if (matches.length < this.config.minMatches) {
+      this.logger.debug(`Not enough matches (${matches.length}), replacing reference frame`);
+      this.setReference(frame);
+      return null;
+    }
+
+    const referencePoints = matches.map(m => reference.features[m.trainIdx]);
+    const currentPoints = matches.map(m => frame.features[m.queryIdx]);
+
+    // Wait for enough motion before trying geometry
+    if (this.medianFlow(referencePoints, currentPoints) < this.config.minMedianFlow) {
+      return null;
+    }
+
+    const reconstruction = this.initialize(referencePoints, currentPoints);
+    if (!reconstruction) {
+      if (this.referenceAge > this.config.maxReferenceAge) {
+        this.setReference(frame);
+      }
+      return null;
+    }
+
+    this.reset();
+    return { ...reconstruction, reference, current: frame, matches };
+  }
+
+  /**
+   * Reconstruct two views from matched image points
+   */
+  initialize(referencePoints: Point2D[], currentPoints: Point2D[]): TwoViewReconstruction | null {
+    const n = referencePoints.length;
+    if (n < 8 || n !== currentPoints.length) {
+      return null;
+    }
+
+    // Fixed seed so initialization is reproducible
+    const samples = this.createSampleSets(n, createRandom(12345));
+
+    const homography = this.findHomography(referencePoints, currentPoints, samples);
+    const fundamental = this.findFundamental(referencePoints, currentPoints, samples);
+    if (!homography && !fundamental) {
+      return null;
+    }
+
+    const scoreH = homography?.score ?? 0;
+    const scoreF = fundamental?.score ?? 0;
+    // Without any inlier support the ratio is undefined; use whichever model exists
+    const scoreRatio = scoreH + scoreF > 0 ? scoreH / (scoreH + scoreF) : fundamental ? 0 : 1;
+
+    const useHomography = !fundamental || (homography !== null && scoreRatio > this.config.homographyRatioThreshold);
+    const model = useHomography ? homography! : fundamental!;
+    const candidates = useHomography
+      ? this.decomposeHomography(model.matrix)
+      : this.decomposeFundamental(model.matrix);
+
+    const result = this.selectCandidate(
+      candidates,
+      referencePoints,
+      currentPoints,
+      model.inliers,
+      useHomography ? 0.75 : 0.7
+    );
+    if (!result) {
+      return null;
+    }
+
+    return this.toReconstruction(result.candidate, result.check, useHomography, scoreRatio);
+  }
+
+  /**
+   * Whether a reference frame is waiting for a partner
+   */
+  hasReference(): boolean {
+    return this.reference !== null;
+  }
+
+  /**
+   * Drop the reference frame
+   */
+  reset(): void {
+    this.reference = null;
+    this.referenceAge = 0;
+  }
+
+  /**
+   * Update intrinsics
+   */
+  updateIntrinsics(intrinsics: CameraIntrinsics): void {
+    this.intrinsics = intrinsics;
+  }
+
+  // ==================== Private Methods ====================
+
+  private setReference(frame: InitializationFrame): void {
+    this.reference = frame.features.length >= this.config.minMatches ? frame : null;
+    this.referenceAge = 0;
+  }
+
+  private medianFlow(a: Point2D[], b: Point2D[]): number {
+    const flow = a.map((p, i) => Math.hypot(p.x - b[i].x, p.y - b[i].y)).sort((x, y) => x - y);
+    return flow[Math.floor(flow.length / 2)];
+  }
+
+  /**
+   * Minimal 8-point sample sets shared by both models
+   */
+  private createSampleSets(n: number, random: () => number): number[][] {
+    const sets: number[][] = [];
+    for (let iter = 0; iter < this.config.ransacIterations; iter++) {
+      const available = Array.from({ length: n }, (_, i) => i);
+      const set: number[] = [];
+      for (let k = 0; k < 8; k++) {
+        const j = Math.floor(random() * available.length);
+        set.push(available[j]);
+        available[j] = available[available.length - 1];
+        available.pop();
+      }
+      sets.push(set);
+    }
+    return sets;
+  }
+
+  /**
+   * Hartley normalization: zero mean, unit mean absolute deviation
+   */
+  private normalize(points: Point2D[]): { points: Point2D[]; T: Mat3 } {
+    let mx = 0;
+    let my = 0;
+    for (const p of points) {
+      mx += p.x;
+      my += p.y;
+    }
+    mx /= points.length;
+    my /= points.length;
+
+    let dx = 0;
+    let dy = 0;
+    for (const p of points) {
+      dx += Math.abs(p.x - mx);
+      dy += Math.abs(p.y - my);
+    }
+    const sx = points.length / Math.max(dx, 1e-12);
+    const sy = points.length / Math.max(dy, 1e-12);
+
+    return {
+      points: points.map(p => ({ x: (p.x - mx) * sx, y: (p.y - my) * sy })),
+      T: [
+        [sx, 0, -mx * sx],
+        [0, sy, -my * sy],
+        [0, 0, 1],
+      ],
+    };
+  }
+
+  private findHomography(
+    p1: Point2D[],
+    p2: Point2D[],
+    samples: number[][]
+  ): { matrix: Mat3; score: number; inliers: boolean[] } | null {
+    const n1 = this.normalize(p1);
+    const n2 = this.normalize(p2);
+    const T2inv = Matrix.invert(n2.T);
+
+    let best: { matrix: Mat3; score: number; inliers: boolean[] } | null = null;
+
+    for (const set of samples) {
+      const Hn = this.computeH21(
+        set.map(i => n1.points[i]),
+        set.map(i => n2.points[i])
+      );
+      const H21 = Matrix.multiply(Matrix.multiply(T2inv, Hn), n1.T);
+
+      let H12: Mat3;
+      try {
+        H12 = Matrix.invert(H21);
+      } catch {
+        continue;
+      }
+
+      const { score, inliers } = this.checkHomography(H21, H12, p1, p2);
+      if (!best || score > best.score) {
+        best = { matrix: H21, score, inliers };
+      }
+    }
+
+    // Refit on all inliers of the best hypothesis
+    if (best) {
+      const ids = best.inliers.flatMap((inlier, i) => (inlier ? [i] : []));
+      if (ids.length > 8) {
+        const Hn = this.computeH21(ids.map(i => n1.points[i]), ids.map(i => n2.points[i]));
+        const H21 = Matrix.multiply(Matrix.multiply(T2inv, Hn), n1.T);
+        try {
+          const refined = this.checkHomography(H21, Matrix.invert(H21), p1, p2);
+          if (refined.score >= best.score) {
+            best = { matrix: H21, ...refined };
+          }
+        } catch {
+          // Keep the minimal-sample estimate
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private findFundamental(
+    p1: Point2D[],
+    p2: Point2D[],
+    samples: number[][]
+  ): { matrix: Mat3; score: number; inliers: boolean[] } | null {
+    const n1 = this.normalize(p1);
+    const n2 = this.normalize(p2);
+    const T2t = Matrix.transpose(n2.T);
+
+    let best: { matrix: Mat3; score: number; inliers: boolean[] } | null = null;
+
+    for (const set of samples) {
+      const Fn = this.computeF21(
+        set.map(i => n1.points[i]),
+        set.map(i => n2.points[i])
+      );
+      const F21 = Matrix.multiply(Matrix.multiply(T2t, Fn), n1.T);
+
+      const { score, inliers } = this.checkFundamental(F21, p1, p2);
+      if (!best || score > best.score) {
+        best = { matrix: F21, score, inliers };
+      }
+    }
+
+    // Refit on all inliers of the best hypothesis
+    if (best) {
+      const ids = best.inliers.flatMap((inlier, i) => (inlier ? [i] : []));
+      if (ids.length > 8) {
+        const Fn = this.computeF21(ids.map(i => n1.points[i]), ids.map(i => n2.points[i]));
+        const F21 = Matrix.multiply(Matrix.multiply(T2t, Fn), n1.T);
+        const refined = this.checkFundamental(F21, p1, p2);
+        if (refined.score >= best.score) {
+          best = { matrix: F21, ...refined };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * DLT homography (x2 = H21 x1)
+   */
+  private computeH21(p1: Point2D[], p2: Point2D[]): Mat3 {
+    const A: number[][] = [];
+    for (let i = 0; i < p1.length; i++) {
+      const { x: u1, y: v1 } = p1[i];
+      const { x: u2, y: v2 } = p2[i];
+      A.push([0, 0, 0, -u1, -v1, -1, v2 * u1, v2 * v1, v2]);
+      A.push([u1, v1, 1, 0, 0, 0, -u2 * u1, -u2 * v1, -u2]);
+    }
+
+    const h = Matrix.nullVector(A);
+    return [h.slice(0, 3), h.slice(3, 6), h.slice(6, 9)];
+  }
+
+  /**
+   * 8-point fundamental matrix (x2^T F21 x1 = 0) with rank-2 enforcement
+   */
+  private computeF21(p1: Point2D[], p2: Point2D[]): Mat3 {
+    const A: number[][] = [];
+    for (let i = 0; i < p1.length; i++) {
+      const { x: u1, y: v1 } = p1[i];
+      const { x: u2, y: v2 } = p2[i];
+      A.push([u2 * u1, u2 * v1, u2, v2 * u1, v2 * v1, v2, u1, v1, 1]);
+    }
+
+    const f = Matrix.nullVector(A);
+    const { U, S, V } = Matrix.svd([f.slice(0, 3), f.slice(3, 6), f.slice(6, 9)]);
+    return Matrix.multiply(Matrix.multiply(U, Matrix.diagonal([S[0], S[1], 0])), Matrix.transpose(V));
+  }
+
+  /**
+   * Symmetric transfer error score
+   */
+  private checkHomography(
+    H21: Mat3,
+    H12: Mat3,
+    p1: Point2D[],
+    p2: Point2D[]
+  ): { score: number; inliers: boolean[] } {
+    const invSigma2 = 1 / (this.config.sigma * this.config.sigma);
+    let score = 0;
+    const inliers: boolean[] = [];
+
+    for (let i = 0; i < p1.length; i++) {
+      let inlier = true;
+
+      const chi1 = this.transferError(H12, p2[i], p1[i]) * invSigma2;
+      if (chi1 > CHI2_2DOF) {
+        inlier = false;
+      } else {
+        score += CHI2_2DOF - chi1;
+      }
+
+      const chi2 = this.transferError(H21, p1[i], p2[i]) * invSigma2;
+      if (chi2 > CHI2_2DOF) {
+        inlier = false;
+      } else {
+        score += CHI2_2DOF - chi2;
+      }
+
+      inliers.push(inlier);
+    }
+
+    return { score, inliers };
+  }
+
+  private transferError(H: Mat3, from: Point2D, to: Point2D): number {
+    const w = H[2][0] * from.x + H[2][1] * from.y + H[2][2];
+    if (Math.abs(w) < 1e-12) {return Infinity;}
+    const u = (H[0][0] * from.x + H[0][1] * from.y + H[0][2]) / w;
+    const v = (H[1][0] * from.x + H[1][1] * from.y + H[1][2]) / w;
+    return (u - to.x) * (u - to.x) + (v - to.y) * (v - to.y);
+  }
+
+  /**
+   * Symmetric point-to-epipolar-line score
+   */
+  private checkFundamental(
+    F21: Mat3,
+    p1: Point2D[],
+    p2: Point2D[]
+  ): { score: number; inliers: boolean[] } {
+    const invSigma2 = 1 / (this.config.sigma * this.config.sigma);
+    let score = 0;
+    const inliers: boolean[] = [];
+
+    for (let i = 0; i < p1.length; i++) {
+      const { x: u1, y: v1 } = p1[i];
+      const { x: u2, y: v2 } = p2[i];
+      let inlier = true;
+
+      // Epipolar line in image 2: l2 = F21 x1
+      const a2 = F21[0][0] * u1 + F21[0][1] * v1 + F21[0][2];
+      const b2 = F21[1][0] * u1 + F21[1][1] * v1 + F21[1][2];
+      const c2 = F21[2][0] * u1 + F21[2][1] * v1 + F21[2][2];
+      const num2 = a2 * u2 + b2 * v2 + c2;
+      const chi2 = (num2 * num2) / (a2 * a2 + b2 * b2 + 1e-30) * invSigma2;
+      if (chi2 > CHI2_1DOF) {
+        inlier = false;
+      } else {
+        score += CHI2_2DOF - chi2;
+      }
+
+      // Epipolar line in image 1: l1 = x2^T F21
+      const a1 = F21[0][0] * u2 + F21[1][0] * v2 + F21[2][0];
+      const b1 = F21[0][1] * u2 + F21[1][1] * v2 + F21[2][1];
+      const c1 = F21[0][2] * u2 + F21[1][2] * v2 + F21[2][2];
+      const num1 = a1 * u1 + b1 * v1 + c1;
+      const chi1 = (num1 * num1) / (a1 * a1 + b1 * b1 + 1e-30) * invSigma2;
+      if (chi1 > CHI2_1DOF) {
+        inlier = false;
+      } else {
+        score += CHI2_2DOF - chi1;
+      }
+
+      inliers.push(inlier);
+    }
+
+    return { score, inliers };
+  }
+
+  private cameraMatrix(): Mat3 {
+    const { fx, fy, cx, cy } = this.intrinsics;
+    return [
+      [fx, 0, cx],
+      [0, fy, cy],
+      [0, 0, 1],
+    ];
+  }
+
+  /**
+   * Four (R, t) hypotheses from the essential matrix E = K^T F K
+   */
+  private decomposeFundamental(F21: Mat3): Candidate[] {
+    const K = this.cameraMatrix();
+    const E = Matrix.multiply(Matrix.multiply(Matrix.transpose(K), F21), K);
+    const { U, V } = Matrix.svd(E);
+
+    const t = [U[0][2], U[1][2], U[2][2]];
+    const norm = Math.hypot(t[0], t[1], t[2]);
+    const tn = t.map(v => v / norm);
+
+    const W: Mat3 = [
+      [0, -1, 0],
+      [1, 0, 0],
+      [0, 0, 1],
+    ];
+    const Vt = Matrix.transpose(V);
+    let R1 = Matrix.multiply(Matrix.multiply(U, W), Vt);
+    let R2 = Matrix.multiply(Matrix.multiply(U, Matrix.transpose(W)), Vt);
+    if (Matrix.determinant(R1) < 0) {R1 = Matrix.scale(R1, -1);}
+    if (Matrix.determinant(R2) < 0) {R2 = Matrix.scale(R2, -1);}
+
+    const minus = tn.map(v => -v);
+    return [
+      { R: R1, t: tn },
+      { R: R2, t: tn },
+      { R: R1, t: minus },
+      { R: R2, t: minus },
+    ];
+  }
+
+  /**
+   * Eight (R, t) hypotheses from the homography (Faugeras SVD decomposition)
+   */
+  private decomposeHomography(H21: Mat3): Candidate[] {
+    const K = this.cameraMatrix();
+    const A = Matrix.multiply(Matrix.multiply(Matrix.invert(K), H21), K);
+    const { U, S, V } = Matrix.svd(A);
+    const Vt = Matrix.transpose(V);
+    const s = Matrix.determinant(U) * Matrix.determinant(Vt);
+
+    const [d1, d2, d3] = S;
+    if (d1 / d2 < 1.00001 || d2 / d3 < 1.00001) {
+      return [];
+    }
+
+    const d1s = d1 * d1;
+    const d2s = d2 * d2;
+    const d3s = d3 * d3;
+    const aux1 = Math.sqrt((d1s - d2s) / (d1s - d3s));
+    const aux3 = Math.sqrt((d2s - d3s) / (d1s - d3s));
+    const x1 = [aux1, aux1, -aux1, -aux1];
+    const x3 = [aux3, -aux3, aux3, -aux3];
+
+    const candidates: Candidate[] = [];
+    const addCandidate = (Rp: Mat3, tp: number[]) => {
+      const R = Matrix.scale(Matrix.multiply(Matrix.multiply(U, Rp), Vt), s);
+      const t = Matrix.multiplyVector(U, tp);
+      const norm = Math.hypot(t[0], t[1], t[2]);
+      candidates.push({ R, t: t.map(v => v / norm) });
+    };
+
+    // d' = d2
+    const auxSinTheta = Math.sqrt((d1s - d2s) * (d2s - d3s)) / ((d1 + d3) * d2);
+    const cosTheta = (d2s + d1 * d3) / ((d1 + d3) * d2);
+    const sinTheta = [auxSinTheta, -auxSinTheta, -auxSinTheta, auxSinTheta];
+    for (let i = 0; i < 4; i++) {
+      addCandidate(
+        [
+          [cosTheta, 0, -sinTheta[i]],
+          [0, 1, 0],
+          [sinTheta[i], 0, cosTheta],
+        ],
+        [x1[i] * (d1 - d3), 0, -x3[i] * (d1 - d3)]
+      );
+    }
+
+    // d' = -d2
+    const auxSinPhi = Math.sqrt((d1s - d2s) * (d2s - d3s)) / ((d1 - d3) * d2);
+    const cosPhi = (d1 * d3 - d2s) / ((d1 - d3) * d2);
+    const sinPhi = [auxSinPhi, -auxSinPhi, -auxSinPhi, auxSinPhi];
+    for (let i = 0; i < 4; i++) {
+      addCandidate(
+        [
+          [cosPhi, 0, sinPhi[i]],
+          [0, -1, 0],
+          [sinPhi[i], 0, -cosPhi],
+        ],
+        [x1[i] * (d1 + d3), 0, x3[i] * (d1 + d3)]
+      );
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Pick the hypothesis that triangulates the most points in front of both cameras
+   * and is clearly better than the runner-up
+   */
+  private selectCandidate(
+    candidates: Candidate[],
+    p1: Point2D[],
+    p2: Point2D[],
+    inliers: boolean[],
+    ambiguityRatio: number
+  ): { candidate: Candidate; check: CandidateCheck } | null {
+    if (candidates.length === 0) {return null;}
+
+    const numInliers = inliers.filter(Boolean).length;
+    const checks = candidates.map(c => this.checkCandidate(c, p1, p2, inliers));
+
+    let bestIndex = 0;
+    for (let i = 1; i < checks.length; i++) {
+      if (checks[i].numGood > checks[bestIndex].numGood) {
+        bestIndex = i;
+      }
+    }
+    const best = checks[bestIndex];
+
+    // Only hypotheses that could themselves be accepted make the choice ambiguous
+    // (e.g. the mirrored homography solution with points near infinity is ignored)
+    const secondBest = Math.max(
+      0,
+      ...checks
+        .filter((c, i) => i !== bestIndex && c.parallax >= this.config.minParallax)
+        .map(c => c.numGood)
+    );
+
+    const minGood = Math.max(0.9 * numInliers, this.config.minTriangulated);
+    if (best.numGood < minGood) {
+      this.logger.debug(`Rejected: ${best.numGood} good points (need ${minGood.toFixed(0)})`);
+      return null;
+    }
+    if (secondBest > ambiguityRatio * best.numGood) {
+      this.logger.debug('Rejected: ambiguous pose hypotheses');
+      return null;
+    }
+    if (best.parallax < this.config.minParallax) {
+      this.logger.debug(`Rejected: parallax ${best.parallax.toFixed(2)}° too low`);
+      return null;
+    }
+
+    return { candidate: candidates[bestIndex], check: best };
+  }
+
+  /**
+   * Triangulate inliers and count points passing cheirality and reprojection checks
+   */
+  private checkCandidate(
+    candidate: Candidate,
+    p1: Point2D[],
+    p2: Point2D[],
+    inliers: boolean[]
+  ): CandidateCheck {
+    const { fx, fy, cx, cy } = this.intrinsics;
+    const K = this.cameraMatrix();
+    const { R, t } = candidate;
+    const th2 = 4 * this.config.sigma * this.config.sigma;
+
+    const P1 = Matrix.multiply(K, [
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+    ]);
+    const P2 = Matrix.multiply(K, [
+      [R[0][0], R[0][1], R[0][2], t[0]],
+      [R[1][0], R[1][1], R[1][2], t[1]],
+      [R[2][0], R[2][1], R[2][2], t[2]],
+    ]);
+
+    // Second camera center: O2 = -R^T t
+    const O2 = Matrix.multiplyVector(Matrix.transpose(R), t).map(v => -v);
+
+    const points: Array<Vector3 | null> = p1.map(() => null);
+    const cosParallaxes: number[] = [];
+    let numGood = 0;
+
+    for (let i = 0; i < p1.length; i++) {
+      if (!inliers[i]) {continue;}
+
+      const X = this.triangulate(p1[i], p2[i], P1, P2);
+      if (!X || !X.every(Number.isFinite)) {continue;}
+
+      const n1 = Math.hypot(X[0], X[1], X[2]);
+      const n2 = Math.hypot(X[0] - O2[0], X[1] - O2[1], X[2] - O2[2]);
+      const cosParallax =
+        (X[0] * (X[0] - O2[0]) + X[1] * (X[1] - O2[1]) + X[2] * (X[2] - O2[2])) / (n1 * n2);
+
+      // Cheirality: in front of both cameras (unless at infinity)
+      if (X[2] <= 0 && cosParallax < MIN_COS_PARALLAX) {continue;}
+      const X2 = Matrix.multiplyVector(R, X).map((v, k) => v + t[k]);
+      if (X2[2] <= 0 && cosParallax < MIN_COS_PARALLAX) {continue;}
+
+      // Reprojection error in both images
+      const u1 = fx * X[0] / X[2] + cx;
+      const v1 = fy * X[1] / X[2] + cy;
+      if ((u1 - p1[i].x) ** 2 + (v1 - p1[i].y) ** 2 > th2) {continue;}
+
+      const u2 = fx * X2[0] / X2[2] + cx;
+      const v2 = fy * X2[1] / X2[2] + cy;
+      if ((u2 - p2[i].x) ** 2 + (v2 - p2[i].y) ** 2 > th2) {continue;}
+
+      cosParallaxes.push(cosParallax);
+      numGood++;
+
+      if (cosParallax < MIN_COS_PARALLAX) {
+        points[i] = new Vector3(X[0], X[1], X[2]);
+      }
+    }
+
+    // Parallax of the 50th best point, as in ORB-SLAM
+    let parallax = 0;
+    if (cosParallaxes.length > 0) {
+      cosParallaxes.sort((a, b) => a - b);
+      const index = Math.min(50, cosParallaxes.length - 1);
+      parallax = (Math.acos(Math.min(1, cosParallaxes[index])) * 180) / Math.PI;
+    }
+
+    return { numGood, points, parallax };
+  }
+
+  /**
+   * Linear (DLT) triangulation
+   */
+  private triangulate(a: Point2D, b: Point2D, P1: number[][], P2: number[][]): number[] | null {
+    const row = (P: number[][], coord: number, r: number) => P[2].map((v, k) => coord * v - P[r][k]);
+    const A = [row(P1, a.x, 0), row(P1, a.y, 1), row(P2, b.x, 0), row(P2, b.y, 1)];
+
+    const X = Matrix.nullVector(A);
+    if (Math.abs(X[3]) < 1e-12) {return null;}
+    return [X[0] / X[3], X[1] / X[3], X[2] / X[3]];
+  }
+
+  /**
+   * Convert to world-frame camera pose and rescale to the configured median depth
+   */
+  private toReconstruction(
+    candidate: Candidate,
+    check: CandidateCheck,
+    isHomography: boolean,
+    scoreRatio: number
+  ): TwoViewReconstruction {
+    const depths = check.points
+      .filter((p): p is Vector3 => p !== null)
+      .map(p => p.z)
+      .sort((a, b) => a - b);
+    const medianDepth = depths.length > 0 ? depths[Math.floor(depths.length / 2)] : 1;
+    const scale = this.config.medianDepth / medianDepth;
+
+    // X2 = R X1 + t  ->  camera-to-world rotation R^T, center -R^T t
+    const Rt = Matrix.transpose(candidate.R);
+    const center = Matrix.multiplyVector(Rt, candidate.t).map(v => -v * scale);
+
+    return {
+      model: isHomography ? 'homography' : 'fundamental',
+      scoreRatio,
+      rotation: Quaternion.fromRotationMatrix(Rt.flat()),
+      position: new Vector3(center[0], center[1], center[2]),
+      points: check.points.map(p => (p ? p.multiply(scale) : null)),
+      numTriangulated: depths.length,
+      parallax: check.parallax,
+    };
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Map Merger
+ * Merges a stored map into the live map once the live session has
+ * relocalized against it (multi-session mapping)
+ *
+ * - Relocalize: BoW query of a live keyframe against the stored map, then a
+ *   Sim(3) from matched map points (live frame -> stored frame)
+ * - Align: the live map is re-expressed in the stored map's frame, so content
+ *   placed in the previous session keeps its coordinates
+ * - Import the stored keyframes, map points and covisibility graph
+ * - Fuse duplicates: stored points are projected into live keyframes and
+ *   replace the live points they match
+ */
+
+import type { Keyframe, MapPoint, MapMergeResult } from './types';
+import type { SLAMMapManager } from './slam-map';
+import type { LoopClosureDetector } from './loop-closure';
+
+export interface MapMergerConfig {
+  // Minimum Sim(3) inliers to accept a relocalization
+  minInliers?: number;
+
+  // Search radius when projecting stored points into live keyframes (pixels)
+  fuseRadius?: number;
+
+  // Maximum descriptor Hamming distance for fusing duplicate points
+  maxDescriptorDistance?: number;
+}
+
+/**
+ * Relocalization of the live map against a stored map
+ */
+export type MapAlignment = Pick<
+  MapMergeResult,
+  'queryKeyframeId' | 'matchedKeyframeId' | 'transform' | 'inliers'
+>;
+
+export class MapMerger {
+  private config: Required<MapMergerConfig>;
+
+  constructor(config: MapMergerConfig = {}) {
+    this.config = {
+      minInliers: config.minInliers ?? 20,
+      fuseRadius: config.fuseRadius ?? 5,
+      maxDescriptorDistance: config.maxDescriptorDistance ?? 50,
+    };
+  }
+
+  /**
+   * Relocalize a live keyframe against a stored map
+   *
+   * @param database BoW index over the stored map's keyframes
+   * @returns Alignment from the best verified candidate, or null
+   */
+  relocalize(
+    keyframe: Keyframe,
+    live: SLAMMapManager,
+    stored: SLAMMapManager,
+    database: LoopClosureDetector
+  ): MapAlignment | null {
+    let best: MapAlignment | null = null;
+
+    for (const candidate of database.queryDatabase(keyframe)) {
+      const storedKeyframe = stored.getKeyframe(candidate.candidateKeyframeId);
+      if (!storedKeyframe) {continue;}
+
+      const sim3 = database.computeSim3(keyframe, storedKeyframe, live);
+      if (!sim3 || sim3.inliers < this.config.minInliers) {continue;}
+
+      if (!best || sim3.inliers > best.inliers) {
+        best = {
+          queryKeyframeId: keyframe.id,
+          matchedKeyframeId: storedKeyframe.id,
+          transform: sim3.transform,
+          inliers: sim3.inliers,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Merge a stored map into the live map
+   * The live map is transformed into the stored map's frame in place.
+   */
+  merge(live: SLAMMapManager, stored: SLAMMapManager, alignment: MapAlignment): MapMergeResult {
+    live.transform(alignment.transform);
+
+    const liveKeyframes = live.getAllKeyframes();
+    const { keyframeIds, mapPointIds } = live.merge(stored);
+
+    const importedIds = new Set(mapPointIds.values());
+    const importedPoints = Array.from(importedIds)
+      .map(id => live.getMapPoint(id))
+      .filter((p): p is MapPoint => p !== undefined && p.trackingState !== 'bad');
+
+    // Fuse duplicates observed in both sessions
+    let numMapPointsFused = 0;
+    const affected = new Set<number>();
+    for (const keyframe of liveKeyframes) {
+      const matches = this.matchByProjection(keyframe, importedPoints);
+
+      for (const [featureIndex, mapPointId] of matches) {
+        const existing = keyframe.features[featureIndex].mapPointId;
+
+        if (existing === null) {
+          live.addObservation(keyframe.id, featureIndex, mapPointId);
+        } else if (!importedIds.has(existing) && live.fuseMapPoints(mapPointId, existing)) {
+          numMapPointsFused++;
+        } else {
+          continue;
+        }
+
+        // Fusing relinks every observer of the replaced point
+        for (const id of live.getMapPoint(mapPointId)!.observations) {
+          affected.add(id);
+        }
+      }
+    }
+
+    // Union of both covisibility graphs plus edges across the seam
+    for (const id of affected) {
+      live.refreshCovisibility(id);
+    }
+
+    return {
+      ...alignment,
+      keyframeIds,
+      numKeyframesMerged: keyframeIds.size,
+      numMapPointsMerged: mapPointIds.size,
+      numMapPointsFused,
+    };
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Match map points to keyframe features by projection and descriptor
+   *
+   * @returns Feature index -> map point ID (best descriptor distance per feature)
+   */
+  private matchByProjection(keyframe: Keyframe, points: MapPoint[]): Map<number, number> {
+    const { fx, fy, cx, cy } = keyframe.intrinsics;
+    const { position, rotation } = keyframe.pose;
+    const toCamera = rotation.conjugate();
+    const radius = this.config.fuseRadius;
+
+    // Bucket features into cells of the search radius
+    const grid = new Map<string, number[]>();
+    keyframe.features.forEach((feature, i) => {
+      const key = `${Math.floor(feature.x / radius)},${Math.floor(feature.y / radius)}`;
+      const cell = grid.get(key);
+      if (cell) {
+        cell.push(i);
+      } else {
+        grid.set(key, [i]);
+      }
+    });
+
+    const best = new Map<number, { mapPointId: number; distance: number }>();
+    for (const point of points) {
+      const pc = toCamera.rotateVector(point.position.subtract(position));
+      if (pc.z <= 0) {continue;}
+
+      const u = (fx * pc.x) / pc.z + cx;
+      const v = (fy * pc.y) / pc.z + cy;
+      const cellX = Math.floor(u / radius);
+      const cellY = Math.floor(v / radius);
+
+      let bestIndex = -1;
+      let bestDistance = this.config.maxDescriptorDistance + 1;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          for (const i of grid.get(`${cellX + dx},${cellY + dy}`) ?? []) {
+            const feature = keyframe.features[i];
+            if (Math.hypot(feature.x - u, feature.y - v) > radius) {continue;}
+
+            const distance = this.hammingDistance(feature.descriptor, point.descriptor);
+            if (distance < bestDistance) {
+              bestDistance = distance;
+              bestIndex = i;
+            }
+          }
+        }
+      }
+
+      if (bestIndex < 0) {continue;}
+
+      const current = best.get(bestIndex);
+      if (!current || bestDistance < current.distance) {
+        best.set(bestIndex, { mapPointId: point.id, distance: bestDistance });
+      }
+    }
+
+    return new Map(Array.from(best, ([i, match]) => [i, match.mapPointId]));
+  }
+
+  /**
+   * Compute Hamming distance between two descriptors
+   */
+  private hammingDistance(a: Uint8Array, b: Uint8Array): number {
+    let distance = 0;
+    const len = Math.min(a.length, b.length);
+
+    for (let i = 0; i < len; i++) {
+      let xor = a[i] ^ b[i];
+      while (xor) {
+        distance += xor & 1;
+        xor >>= 1;
+      }
+    }
+
+    return distance;
+  }
+}
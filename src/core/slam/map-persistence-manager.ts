@@ -1,13 +1,26 @@
 /**
  * Map Persistence Manager
- * Handles map saving, loading, and storage management
+ * Handles map saving, loading, storage management, and merging stored maps
+ * into the live session
  */
 
-import type { SLAMConfig } from './types';
+import type { SLAMConfig, Keyframe, MapMergeResult } from './types';
 import { SLAMMapManager } from './slam-map';
 import { MapStorage, type StoredMap } from './map-storage';
+import type { MapStorageBackend } from './map-storage-backends';
+import { LoopClosureDetector } from './loop-closure';
+import { MapMerger } from './map-merger';
 import { generateId } from '../../utils/id-generator';
 
+/**
+ * Stored map waiting for the live session to relocalize against it
+ */
+interface PendingMerge {
+  id: string | null;
+  map: SLAMMapManager;
+  database: LoopClosureDetector;
+}
+
 /**
  * Map Persistence Manager
  * Responsible for map storage and retrieval
@@ -17,14 +30,21 @@ export class MapPersistenceManager {
   private currentMapId: string | null = null;
   private lastSaveTime = 0;
   private autosaveTimer: Timer | null = null;
+  private merger = new MapMerger();
+  private pendingMerge: PendingMerge | null = null;
 
+  /**
+   * @param backend Storage backend (defaults to IndexedDB with localStorage fallback)
+   */
   constructor(
     private map: SLAMMapManager,
-    private config: Required<SLAMConfig>
+    private config: Required<SLAMConfig>,
+    backend?: MapStorageBackend
   ) {
     this.storage = new MapStorage({
       preferIndexedDB: true,
       enableCompression: true,
+      backend,
     });
   }
 
@@ -59,11 +79,11 @@ export class MapPersistenceManager {
     const mapId = id ?? this.currentMapId ?? generateId();
     const mapName = name ?? this.map.getName() ?? `Map ${new Date().toISOString()}`;
 
-    // Serialize map
-    const serialized = this.map.serialize();
+    // Serialize and encode map
+    const encoded = await this.storage.encode(this.map.serialize());
 
     // Check size limit
-    const size = new Blob([JSON.stringify(serialized)]).size;
+    const size = encoded.length;
     if (size > this.config.maxMapSize) {
       throw new Error(
         `Map size (${size} bytes) exceeds limit (${this.config.maxMapSize} bytes)`
@@ -71,7 +91,7 @@ export class MapPersistenceManager {
     }
 
     // Save to storage
-    await this.storage.save(mapId, mapName, serialized);
+    await this.storage.saveEncoded(mapId, mapName, encoded);
 
     this.currentMapId = mapId;
     this.lastSaveTime = Date.now();
@@ -101,6 +121,89 @@ export class MapPersistenceManager {
     return loadedMap;
   }
 
+  /**
+   * Load a map from storage to merge into the live map
+   * The merge happens once a live keyframe relocalizes against it
+   * (see {@link tryMergeMap}).
+   *
+   * @param id Map ID
+   */
+  async loadMapForMerge(id: string): Promise<void> {
+    const serialized = await this.storage.load(id);
+    if (!serialized) {
+      throw new Error(`Map not found: ${id}`);
+    }
+
+    this.beginMerge(SLAMMapManager.deserialize(serialized), id);
+  }
+
+  /**
+   * Start relocalizing against an already loaded map
+   *
+   * @param map Stored map
+   * @param id Storage ID; becomes the current map ID after merging
+   */
+  beginMerge(map: SLAMMapManager, id: string | null = null): void {
+    // BoW index over the stored keyframes
+    const database = new LoopClosureDetector(map, {
+      similarityThreshold: this.config.loopClosureThreshold,
+    });
+    for (const keyframe of map.getAllKeyframes()) {
+      database.addKeyframe(keyframe);
+    }
+
+    this.pendingMerge = { id, map, database };
+    console.log(
+      `[MapPersistence] Waiting to relocalize against ${map.getName()} ` +
+        `(${map.getAllKeyframes().length} keyframes)`
+    );
+  }
+
+  /**
+   * Relocalize a live keyframe against the pending stored map and merge on success
+   *
+   * The live map is transformed into the stored map's frame, the stored
+   * keyframes and map points are imported and duplicate points are fused.
+   *
+   * @param keyframe Live keyframe
+   * @returns Merge result, or null if not relocalized (or nothing pending)
+   */
+  tryMergeMap(keyframe: Keyframe): MapMergeResult | null {
+    const pending = this.pendingMerge;
+    if (!pending) {return null;}
+
+    const alignment = this.merger.relocalize(keyframe, this.map, pending.map, pending.database);
+    if (!alignment) {return null;}
+
+    const result = this.merger.merge(this.map, pending.map, alignment);
+    this.pendingMerge = null;
+
+    // Saving continues the stored session
+    if (pending.id) {
+      this.currentMapId = pending.id;
+    }
+
+    console.log(
+      `[MapPersistence] Merged ${pending.map.getName()}: ${result.numKeyframesMerged} keyframes, ` +
+        `${result.numMapPointsMerged} map points (${result.numMapPointsFused} fused, ${result.inliers} inliers)`
+    );
+    return result;
+  }
+
+  /**
+   * Whether a stored map is waiting to be merged
+   */
+  hasPendingMerge(): boolean {
+    return this.pendingMerge !== null;
+  }
+
+  /**
+   * Stop waiting for a pending merge
+   */
+  cancelMerge(): void {
+    this.pendingMerge = null;
+  }
+
   /**
    * Delete map from storage
    *
@@ -217,6 +320,7 @@ export class MapPersistenceManager {
    */
   destroy(): void {
     this.stopAutosave();
+    this.pendingMerge = null;
     console.log('[MapPersistence] Destroyed');
   }
 }
@@ -0,0 +1,506 @@
+/**
+ * Map Storage Backends
+ * Where MapStorage keeps stored maps: browser storage, memory, the local
+ * filesystem (Node/Bun) or a remote map server
+ */
+
+import type { StoredMap } from './map-storage';
+import { bytesToBase64, base64ToBytes } from './map-codec';
+
+export type StoredMapInfo = Omit<StoredMap, 'data'>;
+
+/**
+ * Storage backend for MapStorage
+ * Backends store StoredMap records as-is; encoding and migration happen in MapStorage.
+ */
+export interface MapStorageBackend {
+  // Backend name (e.g. 'indexeddb'), reported in storage statistics
+  readonly type: string;
+
+  /**
+   * Prepare the backend; throws if it is unavailable
+   */
+  initialize(): Promise<void>;
+
+  put(map: StoredMap): Promise<void>;
+  get(id: string): Promise<StoredMap | null>;
+  delete(id: string): Promise<void>;
+  list(): Promise<StoredMapInfo[]>;
+  clear(): Promise<void>;
+
+  /**
+   * Release connections
+   */
+  close?(): void;
+}
+
+function stripData(map: StoredMap): StoredMapInfo {
+  return {
+    id: map.id,
+    name: map.name,
+    timestamp: map.timestamp,
+    version: map.version,
+    size: map.size,
+    compressed: map.compressed,
+  };
+}
+
+function requireBinary(map: StoredMap, backend: string): Uint8Array {
+  if (!(map.data instanceof Uint8Array)) {
+    throw new Error(`${backend} map storage only stores binary maps`);
+  }
+  return map.data;
+}
+
+// ==================== IndexedDB ====================
+
+export interface IndexedDBMapBackendConfig {
+  // Database name
+  dbName?: string;
+
+  // Object store name
+  storeName?: string;
+}
+
+export class IndexedDBMapBackend implements MapStorageBackend {
+  readonly type = 'indexeddb';
+  private config: Required<IndexedDBMapBackendConfig>;
+  private db: IDBDatabase | null = null;
+
+  constructor(config: IndexedDBMapBackendConfig = {}) {
+    this.config = {
+      dbName: config.dbName ?? 'babylonjs-ar-maps',
+      storeName: config.storeName ?? 'maps',
+    };
+  }
+
+  initialize(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.config.dbName, 1);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        // Create object store if it doesn't exist
+        if (!db.objectStoreNames.contains(this.config.storeName)) {
+          db.createObjectStore(this.config.storeName, { keyPath: 'id' });
+        }
+      };
+    });
+  }
+
+  put(map: StoredMap): Promise<void> {
+    return this.request('readwrite', store => store.put(map)).then(() => undefined);
+  }
+
+  async get(id: string): Promise<StoredMap | null> {
+    return ((await this.request('readonly', store => store.get(id))) as StoredMap) || null;
+  }
+
+  delete(id: string): Promise<void> {
+    return this.request('readwrite', store => store.delete(id)).then(() => undefined);
+  }
+
+  async list(): Promise<StoredMapInfo[]> {
+    const keys = (await this.request('readonly', store => store.getAllKeys())) as string[];
+    const maps: StoredMapInfo[] = [];
+
+    for (const key of keys) {
+      const map = await this.get(key);
+      if (map) {
+        maps.push(stripData(map));
+      }
+    }
+
+    return maps;
+  }
+
+  clear(): Promise<void> {
+    return this.request('readwrite', store => store.clear()).then(() => undefined);
+  }
+
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  /**
+   * Run one request on the object store
+   */
+  private request(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('IndexedDB not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction([this.config.storeName], mode);
+      const request = run(transaction.objectStore(this.config.storeName));
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+}
+
+// ==================== localStorage ====================
+
+export interface LocalStorageMapBackendConfig {
+  // Key prefix of stored maps
+  keyPrefix?: string;
+
+  // Maximum size of one stored map (bytes)
+  maxSize?: number;
+}
+
+/**
+ * localStorage backend; binary maps are stored base64-encoded
+ */
+export class LocalStorageMapBackend implements MapStorageBackend {
+  readonly type = 'localstorage';
+  private config: Required<LocalStorageMapBackendConfig>;
+
+  constructor(config: LocalStorageMapBackendConfig = {}) {
+    this.config = {
+      keyPrefix: config.keyPrefix ?? 'babylonjs-ar-map-',
+      maxSize: config.maxSize ?? 5 * 1024 * 1024, // 5MB
+    };
+  }
+
+  async initialize(): Promise<void> {
+    if (typeof localStorage === 'undefined') {
+      throw new Error('localStorage not available');
+    }
+  }
+
+  async put(map: StoredMap): Promise<void> {
+    const key = this.config.keyPrefix + map.id;
+    const data = JSON.stringify(
+      map.data instanceof Uint8Array
+        ? { ...map, data: bytesToBase64(map.data), base64: true }
+        : map
+    );
+
+    if (data.length > this.config.maxSize) {
+      throw new Error(`Map too large for localStorage: ${data.length} bytes`);
+    }
+
+    try {
+      localStorage.setItem(key, data);
+    } catch (error) {
+      throw new Error(`Failed to save to localStorage: ${error}`);
+    }
+  }
+
+  async get(id: string): Promise<StoredMap | null> {
+    const data = localStorage.getItem(this.config.keyPrefix + id);
+    if (!data) {
+      return null;
+    }
+
+    try {
+      const { base64, ...map } = JSON.parse(data) as StoredMap & { base64?: boolean };
+      if (base64 && typeof map.data === 'string') {
+        map.data = base64ToBytes(map.data);
+      }
+      return map;
+    } catch (error) {
+      console.error('[MapStorage] Failed to parse localStorage data:', error);
+      return null;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    localStorage.removeItem(this.config.keyPrefix + id);
+  }
+
+  async list(): Promise<StoredMapInfo[]> {
+    const maps: StoredMapInfo[] = [];
+
+    for (const key of this.keys()) {
+      const map = await this.get(key.substring(this.config.keyPrefix.length));
+      if (map) {
+        maps.push(stripData(map));
+      }
+    }
+
+    return maps;
+  }
+
+  async clear(): Promise<void> {
+    for (const key of this.keys()) {
+      localStorage.removeItem(key);
+    }
+  }
+
+  /**
+   * Keys of stored maps
+   */
+  private keys(): string[] {
+    const keys: string[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(this.config.keyPrefix)) {
+        keys.push(key);
+      }
+    }
+
+    return keys;
+  }
+}
+
+// ==================== Memory ====================
+
+/**
+ * In-memory backend (tests, servers, short-lived sessions)
+ * Maps are copied on the way in and out.
+ */
+export class MemoryMapBackend implements MapStorageBackend {
+  readonly type = 'memory';
+  private maps = new Map<string, StoredMap>();
+
+  async initialize(): Promise<void> {}
+
+  async put(map: StoredMap): Promise<void> {
+    this.maps.set(map.id, structuredClone(map));
+  }
+
+  async get(id: string): Promise<StoredMap | null> {
+    const map = this.maps.get(id);
+    return map ? structuredClone(map) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.maps.delete(id);
+  }
+
+  async list(): Promise<StoredMapInfo[]> {
+    return Array.from(this.maps.values(), stripData);
+  }
+
+  async clear(): Promise<void> {
+    this.maps.clear();
+  }
+}
+
+// ==================== Filesystem ====================
+
+export interface FileSystemMapBackendConfig {
+  // Directory holding the maps (created if missing)
+  directory: string;
+}
+
+const MAP_DATA_SUFFIX = '.map';
+const MAP_INFO_SUFFIX = '.map.json';
+
+/**
+ * Node/Bun filesystem backend
+ * Each map is stored as `<id>.map` (binary map) plus `<id>.map.json`
+ * (metadata); other files in the directory are ignored.
+ */
+export class FileSystemMapBackend implements MapStorageBackend {
+  readonly type = 'filesystem';
+  private fs: typeof import('node:fs/promises') | null = null;
+
+  constructor(private config: FileSystemMapBackendConfig) {}
+
+  async initialize(): Promise<void> {
+    // Loaded lazily so browser bundles never resolve Node modules
+    this.fs = await import('node:fs/promises');
+    await this.fs.mkdir(this.config.directory, { recursive: true });
+  }
+
+  async put(map: StoredMap): Promise<void> {
+    const fs = this.requireFs();
+    const data = requireBinary(map, 'Filesystem');
+
+    // Data first, so a listed map always has its data
+    await fs.writeFile(this.file(map.id, MAP_DATA_SUFFIX), data);
+    await fs.writeFile(this.file(map.id, MAP_INFO_SUFFIX), JSON.stringify(stripData(map)));
+  }
+
+  async get(id: string): Promise<StoredMap | null> {
+    const fs = this.requireFs();
+
+    try {
+      const info = JSON.parse(await fs.readFile(this.file(id, MAP_INFO_SUFFIX), 'utf8')) as StoredMapInfo;
+      const data = new Uint8Array(await fs.readFile(this.file(id, MAP_DATA_SUFFIX)));
+      return { ...info, data };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const fs = this.requireFs();
+    await fs.rm(this.file(id, MAP_INFO_SUFFIX), { force: true });
+    await fs.rm(this.file(id, MAP_DATA_SUFFIX), { force: true });
+  }
+
+  async list(): Promise<StoredMapInfo[]> {
+    const fs = this.requireFs();
+    const maps: StoredMapInfo[] = [];
+
+    for (const name of await fs.readdir(this.config.directory)) {
+      if (!name.endsWith(MAP_INFO_SUFFIX)) {continue;}
+
+      const content = await fs.readFile(this.resolve(name), 'utf8');
+      maps.push(JSON.parse(content) as StoredMapInfo);
+    }
+
+    return maps;
+  }
+
+  async clear(): Promise<void> {
+    for (const map of await this.list()) {
+      await this.delete(map.id);
+    }
+  }
+
+  private requireFs(): typeof import('node:fs/promises') {
+    if (!this.fs) {
+      throw new Error('Filesystem map storage not initialized');
+    }
+    return this.fs;
+  }
+
+  private file(id: string, suffix: string): string {
+    return this.resolve(`${encodeURIComponent(id)}${suffix}`);
+  }
+
+  private resolve(name: string): string {
+    return `${this.config.directory.replace(/[\\/]+$/, '')}/${name}`;
+  }
+}
+
+// ==================== HTTP ====================
+
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface HTTPMapBackendConfig {
+  // Base URL; maps are stored at `<endpoint>/<id>`
+  endpoint: string;
+
+  // Extra request headers (e.g. Authorization)
+  headers?: Record<string, string>;
+
+  // Fetch implementation (defaults to global fetch)
+  fetch?: FetchFunction;
+}
+
+/**
+ * Remote map server backend
+ *
+ * Protocol:
+ * - PUT    <endpoint>/<id>  binary map body, metadata in X-Map-* headers
+ * - GET    <endpoint>/<id>  binary map body and X-Map-* headers (404 if missing)
+ * - DELETE <endpoint>/<id>
+ * - GET    <endpoint>       JSON array of map metadata (id, name, timestamp, version, size, compressed)
+ */
+export class HTTPMapBackend implements MapStorageBackend {
+  readonly type = 'http';
+  private endpoint: string;
+  private headers: Record<string, string>;
+  private fetch: FetchFunction;
+
+  constructor(config: HTTPMapBackendConfig) {
+    this.endpoint = config.endpoint.replace(/\/+$/, '');
+    this.headers = config.headers ?? {};
+    this.fetch = config.fetch ?? ((input, init) => globalThis.fetch(input, init));
+  }
+
+  async initialize(): Promise<void> {}
+
+  async put(map: StoredMap): Promise<void> {
+    const data = requireBinary(map, 'HTTP');
+
+    await this.request('PUT', this.url(map.id), {
+      body: new Uint8Array(data),
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Map-Name': encodeURIComponent(map.name),
+        'X-Map-Timestamp': String(map.timestamp),
+        'X-Map-Version': map.version,
+        'X-Map-Compressed': String(map.compressed),
+      },
+    });
+  }
+
+  async get(id: string): Promise<StoredMap | null> {
+    const response = await this.request('GET', this.url(id), {}, [404]);
+    if (response.status === 404) {
+      return null;
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    const header = (name: string) => response.headers.get(`X-Map-${name}`);
+
+    return {
+      id,
+      name: decodeURIComponent(header('Name') ?? id),
+      timestamp: Number(header('Timestamp') ?? 0),
+      version: header('Version') ?? '',
+      size: data.length,
+      compressed: header('Compressed') === 'true',
+      data,
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('DELETE', this.url(id), {}, [404]);
+  }
+
+  async list(): Promise<StoredMapInfo[]> {
+    const response = await this.request('GET', this.endpoint, {
+      headers: { Accept: 'application/json' },
+    });
+    return (await response.json()) as StoredMapInfo[];
+  }
+
+  async clear(): Promise<void> {
+    for (const map of await this.list()) {
+      await this.delete(map.id);
+    }
+  }
+
+  private url(id: string): string {
+    return `${this.endpoint}/${encodeURIComponent(id)}`;
+  }
+
+  /**
+   * Send a request; throws on HTTP errors other than the accepted statuses
+   */
+  private async request(
+    method: string,
+    url: string,
+    init: { body?: BodyInit; headers?: Record<string, string> },
+    acceptedStatuses: number[] = []
+  ): Promise<Response> {
+    const response = await this.fetch(url, {
+      method,
+      body: init.body,
+      headers: { ...this.headers, ...init.headers },
+    });
+
+    if (!response.ok && !acceptedStatuses.includes(response.status)) {
+      throw new Error(`Map server request failed: ${method} ${url} (${response.status})`);
+    }
+
+    return response;
+  }
+}
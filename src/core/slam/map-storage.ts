@@ -1,10 +1,21 @@
 /**
  * Map Storage
- * Handles persistence of SLAM maps to browser storage
- * Supports IndexedDB (for large maps) and localStorage (for small maps)
+ * Handles persistence of SLAM maps through a storage backend
+ * Defaults to IndexedDB (for large maps) with a localStorage fallback; any
+ * MapStorageBackend (memory, filesystem, HTTP, ...) can be supplied instead
+ *
+ * Maps are stored in the binary map format (see map-codec). Maps saved as
+ * JSON by older versions are migrated when loaded.
  */
 
 import type { SerializedMap } from './types';
+import { encodeMap, decodeMap, readMapHeader } from './map-codec';
+import {
+  IndexedDBMapBackend,
+  LocalStorageMapBackend,
+  type MapStorageBackend,
+  type StoredMapInfo,
+} from './map-storage-backends';
 
 export interface StorageConfig {
   // Preferred storage method
@@ -19,8 +30,11 @@ export interface StorageConfig {
   // Maximum size for localStorage (bytes)
   maxLocalStorageSize?: number;
 
-  // Enable compression
+  // Enable compression (deflate)
   enableCompression?: boolean;
+
+  // Storage backend (overrides the IndexedDB/localStorage options)
+  backend?: MapStorageBackend;
 }
 
 export interface StoredMap {
@@ -30,14 +44,15 @@ export interface StoredMap {
   version: string;
   size: number;
   compressed: boolean;
-  data: SerializedMap | string; // string if compressed
+  // Binary map; legacy (1.0) maps hold JSON, or gzip base64 if compressed
+  data: Uint8Array | SerializedMap | string;
 }
 
 export class MapStorage {
-  private config: Required<StorageConfig>;
-  private db: IDBDatabase | null = null;
-  private readonly STORAGE_KEY_PREFIX = 'babylonjs-ar-map-';
-  private readonly CURRENT_VERSION = '1.0';
+  private config: Required<Omit<StorageConfig, 'backend'>>;
+  private backend: MapStorageBackend;
+  private readonly CURRENT_VERSION = '2.0';
+  private readonly LEGACY_VERSION = '1.0';
 
   constructor(config: StorageConfig = {}) {
     this.config = {
@@ -47,99 +62,98 @@ export class MapStorage {
       maxLocalStorageSize: config.maxLocalStorageSize ?? 5 * 1024 * 1024, // 5MB
       enableCompression: config.enableCompression ?? true,
     };
+
+    this.backend =
+      config.backend ??
+      (this.config.preferIndexedDB
+        ? new IndexedDBMapBackend({ dbName: this.config.dbName, storeName: this.config.storeName })
+        : this.createLocalStorageBackend());
   }
 
   /**
-   * Initialize storage (opens IndexedDB if available)
+   * Initialize storage (opens the backend)
+   * The default IndexedDB backend falls back to localStorage when unavailable.
    */
   async initialize(): Promise<void> {
-    if (!this.config.preferIndexedDB) {
-      console.log('[MapStorage] Using localStorage');
-      return;
-    }
-
     try {
-      this.db = await this.openIndexedDB();
-      console.log('[MapStorage] IndexedDB initialized');
+      await this.backend.initialize();
     } catch (error) {
+      if (!(this.backend instanceof IndexedDBMapBackend)) {
+        throw error;
+      }
+
       console.warn('[MapStorage] IndexedDB unavailable, falling back to localStorage:', error);
-      this.config.preferIndexedDB = false;
+      this.backend = this.createLocalStorageBackend();
+      await this.backend.initialize();
     }
+
+    console.log(`[MapStorage] Using ${this.backend.type} storage`);
+  }
+
+  /**
+   * Storage backend in use
+   */
+  getBackend(): MapStorageBackend {
+    return this.backend;
+  }
+
+  /**
+   * Encode map in the binary map format
+   */
+  async encode(map: SerializedMap): Promise<Uint8Array> {
+    return await encodeMap(map, { compress: this.config.enableCompression });
   }
 
   /**
    * Save map to storage
+   *
+   * @returns Stored size in bytes
    */
-  async save(id: string, name: string, map: SerializedMap): Promise<void> {
-    // Prepare stored map
-    const jsonString = JSON.stringify(map);
-    const size = new Blob([jsonString]).size;
-
-    let data: SerializedMap | string = map;
-    let compressed = false;
-
-    // Compress if enabled and map is large
-    if (this.config.enableCompression && size > 100 * 1024) { // > 100KB
-      try {
-        data = await this.compress(jsonString);
-        compressed = true;
-        console.log(`[MapStorage] Compressed map from ${size} to ${data.length} bytes`);
-      } catch (error) {
-        console.warn('[MapStorage] Compression failed, storing uncompressed:', error);
-      }
-    }
+  async save(id: string, name: string, map: SerializedMap): Promise<number> {
+    const bytes = await this.encode(map);
+    await this.saveEncoded(id, name, bytes);
+    return bytes.length;
+  }
 
+  /**
+   * Save a map already encoded with {@link encode}
+   */
+  async saveEncoded(id: string, name: string, bytes: Uint8Array): Promise<void> {
     const storedMap: StoredMap = {
       id,
       name,
       timestamp: Date.now(),
       version: this.CURRENT_VERSION,
-      size,
-      compressed,
-      data,
+      size: bytes.length,
+      compressed: readMapHeader(bytes)?.compressed ?? false,
+      data: bytes,
     };
 
-    // Store using IndexedDB or localStorage
-    if (this.db && this.config.preferIndexedDB) {
-      await this.saveToIndexedDB(storedMap);
-    } else {
-      await this.saveToLocalStorage(storedMap);
-    }
+    await this.backend.put(storedMap);
 
-    console.log(`[MapStorage] Saved map "${name}" (${id})`);
+    console.log(`[MapStorage] Saved map "${name}" (${id}), ${bytes.length} bytes`);
   }
 
   /**
    * Load map from storage
+   * Legacy JSON maps are migrated to the binary format.
    */
   async load(id: string): Promise<SerializedMap | null> {
-    let storedMap: StoredMap | null = null;
-
-    // Load from IndexedDB or localStorage
-    if (this.db && this.config.preferIndexedDB) {
-      storedMap = await this.loadFromIndexedDB(id);
-    } else {
-      storedMap = await this.loadFromLocalStorage(id);
-    }
+    const storedMap = await this.backend.get(id);
 
     if (!storedMap) {
       console.warn(`[MapStorage] Map not found: ${id}`);
       return null;
     }
 
-    // Validate version
-    if (storedMap.version !== this.CURRENT_VERSION) {
-      console.warn(`[MapStorage] Map version mismatch: ${storedMap.version} vs ${this.CURRENT_VERSION}`);
-      // TODO: Implement version migration
-    }
-
-    // Decompress if needed
     let map: SerializedMap;
-    if (storedMap.compressed && typeof storedMap.data === 'string') {
-      const jsonString = await this.decompress(storedMap.data);
-      map = JSON.parse(jsonString);
+    if (storedMap.version === this.LEGACY_VERSION) {
+      map = await this.readLegacyMap(storedMap);
+      await this.migrate(storedMap, map);
+    } else if (storedMap.version === this.CURRENT_VERSION && storedMap.data instanceof Uint8Array) {
+      map = await decodeMap(storedMap.data);
     } else {
-      map = storedMap.data as SerializedMap;
+      throw new Error(`Unsupported map version: ${storedMap.version}`);
     }
 
     console.log(`[MapStorage] Loaded map "${storedMap.name}" (${id})`);
@@ -150,11 +164,7 @@ export class MapStorage {
    * Delete map from storage
    */
   async delete(id: string): Promise<void> {
-    if (this.db && this.config.preferIndexedDB) {
-      await this.deleteFromIndexedDB(id);
-    } else {
-      await this.deleteFromLocalStorage(id);
-    }
+    await this.backend.delete(id);
 
     console.log(`[MapStorage] Deleted map: ${id}`);
   }
@@ -162,23 +172,15 @@ export class MapStorage {
   /**
    * List all stored maps
    */
-  async list(): Promise<Array<Omit<StoredMap, 'data'>>> {
-    if (this.db && this.config.preferIndexedDB) {
-      return await this.listFromIndexedDB();
-    } else {
-      return await this.listFromLocalStorage();
-    }
+  async list(): Promise<StoredMapInfo[]> {
+    return await this.backend.list();
   }
 
   /**
    * Clear all stored maps
    */
   async clear(): Promise<void> {
-    if (this.db && this.config.preferIndexedDB) {
-      await this.clearIndexedDB();
-    } else {
-      await this.clearLocalStorage();
-    }
+    await this.backend.clear();
 
     console.log('[MapStorage] Cleared all maps');
   }
@@ -189,7 +191,7 @@ export class MapStorage {
   async getStats(): Promise<{
     count: number;
     totalSize: number;
-    storageType: 'indexeddb' | 'localstorage';
+    storageType: string;
   }> {
     const maps = await this.list();
     const totalSize = maps.reduce((sum, map) => sum + map.size, 0);
@@ -197,7 +199,7 @@ export class MapStorage {
     return {
       count: maps.length,
       totalSize,
-      storageType: this.db && this.config.preferIndexedDB ? 'indexeddb' : 'localstorage',
+      storageType: this.backend.type,
     };
   }
 
@@ -205,249 +207,48 @@ export class MapStorage {
    * Close storage (cleanup)
    */
   close(): void {
-    if (this.db) {
-      this.db.close();
-      this.db = null;
-    }
+    this.backend.close?.();
   }
 
   // ==================== Private Methods ====================
 
   /**
-   * Open IndexedDB
+   * Create the localStorage backend from the storage config
    */
-  private openIndexedDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.config.dbName, 1);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create object store if it doesn't exist
-        if (!db.objectStoreNames.contains(this.config.storeName)) {
-          db.createObjectStore(this.config.storeName, { keyPath: 'id' });
-        }
-      };
-    });
+  private createLocalStorageBackend(): MapStorageBackend {
+    return new LocalStorageMapBackend({ maxSize: this.config.maxLocalStorageSize });
   }
 
   /**
-   * Save to IndexedDB
+   * Decode a map saved as JSON (version 1.0)
    */
-  private saveToIndexedDB(map: StoredMap): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('IndexedDB not initialized'));
-        return;
-      }
-
-      const transaction = this.db.transaction([this.config.storeName], 'readwrite');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.put(map);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-    });
-  }
-
-  /**
-   * Load from IndexedDB
-   */
-  private loadFromIndexedDB(id: string): Promise<StoredMap | null> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('IndexedDB not initialized'));
-        return;
-      }
-
-      const transaction = this.db.transaction([this.config.storeName], 'readonly');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.get(id);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result || null);
-    });
-  }
-
-  /**
-   * Delete from IndexedDB
-   */
-  private deleteFromIndexedDB(id: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('IndexedDB not initialized'));
-        return;
-      }
-
-      const transaction = this.db.transaction([this.config.storeName], 'readwrite');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.delete(id);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-    });
-  }
-
-  /**
-   * List from IndexedDB
-   */
-  private listFromIndexedDB(): Promise<Array<Omit<StoredMap, 'data'>>> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('IndexedDB not initialized'));
-        return;
-      }
-
-      const transaction = this.db.transaction([this.config.storeName], 'readonly');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.getAllKeys();
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = async () => {
-        const keys = request.result as string[];
-        const maps: Array<Omit<StoredMap, 'data'>> = [];
-
-        for (const key of keys) {
-          const map = await this.loadFromIndexedDB(key);
-          if (map) {
-            const { data, ...metadata } = map;
-            maps.push(metadata);
-          }
-        }
-
-        resolve(maps);
-      };
-    });
-  }
-
-  /**
-   * Clear IndexedDB
-   */
-  private clearIndexedDB(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('IndexedDB not initialized'));
-        return;
-      }
-
-      const transaction = this.db.transaction([this.config.storeName], 'readwrite');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.clear();
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-    });
-  }
-
-  /**
-   * Save to localStorage
-   */
-  private async saveToLocalStorage(map: StoredMap): Promise<void> {
-    const key = this.STORAGE_KEY_PREFIX + map.id;
-    const data = JSON.stringify(map);
-
-    if (data.length > this.config.maxLocalStorageSize) {
-      throw new Error(`Map too large for localStorage: ${data.length} bytes`);
-    }
-
-    try {
-      localStorage.setItem(key, data);
-    } catch (error) {
-      throw new Error(`Failed to save to localStorage: ${error}`);
+  private async readLegacyMap(storedMap: StoredMap): Promise<SerializedMap> {
+    if (storedMap.compressed && typeof storedMap.data === 'string') {
+      return JSON.parse(await this.decompressLegacy(storedMap.data));
     }
+    return storedMap.data as SerializedMap;
   }
 
   /**
-   * Load from localStorage
+   * Rewrite a legacy map in the binary format
+   * Failure only costs the space savings, so the loaded map is still returned.
    */
-  private async loadFromLocalStorage(id: string): Promise<StoredMap | null> {
-    const key = this.STORAGE_KEY_PREFIX + id;
-    const data = localStorage.getItem(key);
-
-    if (!data) {
-      return null;
-    }
-
+  private async migrate(storedMap: StoredMap, map: SerializedMap): Promise<void> {
     try {
-      return JSON.parse(data);
+      const size = await this.save(storedMap.id, storedMap.name, map);
+      console.log(
+        `[MapStorage] Migrated map "${storedMap.name}" to version ${this.CURRENT_VERSION} ` +
+          `(${storedMap.size} -> ${size} bytes)`
+      );
     } catch (error) {
-      console.error('[MapStorage] Failed to parse localStorage data:', error);
-      return null;
+      console.warn(`[MapStorage] Failed to migrate map "${storedMap.name}":`, error);
     }
   }
 
   /**
-   * Delete from localStorage
-   */
-  private async deleteFromLocalStorage(id: string): Promise<void> {
-    const key = this.STORAGE_KEY_PREFIX + id;
-    localStorage.removeItem(key);
-  }
-
-  /**
-   * List from localStorage
-   */
-  private async listFromLocalStorage(): Promise<Array<Omit<StoredMap, 'data'>>> {
-    const maps: Array<Omit<StoredMap, 'data'>> = [];
-
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith(this.STORAGE_KEY_PREFIX)) {
-        const id = key.substring(this.STORAGE_KEY_PREFIX.length);
-        const map = await this.loadFromLocalStorage(id);
-        if (map) {
-          const { data, ...metadata } = map;
-          maps.push(metadata);
-        }
-      }
-    }
-
-    return maps;
-  }
-
-  /**
-   * Clear localStorage
-   */
-  private async clearLocalStorage(): Promise<void> {
-    const keys: string[] = [];
-
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith(this.STORAGE_KEY_PREFIX)) {
-        keys.push(key);
-      }
-    }
-
-    for (const key of keys) {
-      localStorage.removeItem(key);
-    }
-  }
-
-  /**
-   * Compress data using gzip (CompressionStream API)
-   */
-  private async compress(data: string): Promise<string> {
-    // Check if CompressionStream is available
-    if (typeof CompressionStream === 'undefined') {
-      throw new Error('CompressionStream not supported');
-    }
-
-    const stream = new Blob([data]).stream();
-    const compressedStream = stream.pipeThrough(new CompressionStream('gzip'));
-    const compressedBlob = await new Response(compressedStream).blob();
-    const buffer = await compressedBlob.arrayBuffer();
-
-    // Convert to base64
-    return btoa(String.fromCharCode(...new Uint8Array(buffer)));
-  }
-
-  /**
-   * Decompress data using gzip (DecompressionStream API)
+   * Decompress legacy map data using gzip (DecompressionStream API)
    */
-  private async decompress(data: string): Promise<string> {
+  private async decompressLegacy(data: string): Promise<string> {
     // Check if DecompressionStream is available
     if (typeof DecompressionStream === 'undefined') {
       throw new Error('DecompressionStream not supported');
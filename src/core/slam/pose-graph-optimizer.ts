@@ -0,0 +1,495 @@
+/**
+ * Pose Graph Optimizer
+ * Distributes loop closure error over keyframe poses using
+ * Levenberg-Marquardt on Sim(3) (monocular) or SE(3) (fixed scale)
+ *
+ * Graph structure (ORB-SLAM style essential graph):
+ * - Spanning edges between consecutive keyframes
+ * - Covisibility edges between keyframes sharing map points
+ * - Loop edges from verified loop closures
+ *
+ * Edge Jacobians are analytic and the normal equations are kept in skyline
+ * storage, so an iteration costs about linear time in the keyframe count
+ * for the chain-like essential graph rather than a dense cubic solve.
+ */
+
+import type { LoopClosureCorrection } from './types';
+import type { SLAMMapManager } from './slam-map';
+import { Sim3 } from '../math/sim3';
+import { Vector3 } from '../math/vector';
+import { SkylineMatrix } from '../math/skyline-matrix';
+
+export interface PoseGraphOptimizerConfig {
+  // Maximum Levenberg-Marquardt iterations
+  maxIterations?: number;
+
+  // Optimize scale (Sim(3)); disable when scale is observable (e.g. VIO)
+  optimizeScale?: boolean;
+
+  // Stop when update norm falls below this value
+  convergenceThreshold?: number;
+
+  // Initial Levenberg-Marquardt damping
+  initialLambda?: number;
+
+  // Information weight of loop edges relative to odometry edges
+  loopEdgeWeight?: number;
+}
+
+export interface PoseGraphEdge {
+  from: number; // Keyframe ID
+  to: number; // Keyframe ID
+  measurement: Sim3; // Relative transform T_from^-1 * T_to
+  weight: number;
+  type: 'spanning' | 'covisibility' | 'loop';
+}
+
+export interface PoseGraph {
+  nodes: Map<number, Sim3>; // Keyframe ID -> camera-to-world transform
+  edges: PoseGraphEdge[];
+  fixed: Set<number>; // Gauge-fixed keyframe IDs
+}
+
+export interface PoseGraphResult {
+  nodes: Map<number, Sim3>;
+  iterations: number;
+  initialError: number;
+  finalError: number;
+  converged: boolean;
+}
+
+/**
+ * Loop constraint between two keyframes
+ */
+export interface LoopConstraint {
+  queryKeyframeId: number;
+  loopKeyframeId: number;
+  relative: Sim3; // Measured T_loop^-1 * T_query
+}
+
+export class PoseGraphOptimizer {
+  private config: Required<PoseGraphOptimizerConfig>;
+
+  constructor(config: PoseGraphOptimizerConfig = {}) {
+    this.config = {
+      maxIterations: config.maxIterations ?? 20,
+      optimizeScale: config.optimizeScale ?? true,
+      convergenceThreshold: config.convergenceThreshold ?? 1e-6,
+      initialLambda: config.initialLambda ?? 1e-4,
+      loopEdgeWeight: config.loopEdgeWeight ?? 10,
+    };
+  }
+
+  /**
+   * Optimize a pose graph
+   */
+  optimize(graph: PoseGraph): PoseGraphResult {
+    const dof = this.config.optimizeScale ? 7 : 6;
+
+    // Assign parameter blocks to free nodes
+    const nodes = new Map<number, Sim3>();
+    const blockIndex = new Map<number, number>();
+    for (const [id, pose] of graph.nodes) {
+      nodes.set(id, pose.clone());
+      if (!graph.fixed.has(id)) {
+        blockIndex.set(id, blockIndex.size);
+      }
+    }
+
+    const edges = graph.edges.filter(e => nodes.has(e.from) && nodes.has(e.to));
+    const initialError = this.computeError(nodes, edges);
+
+    if (blockIndex.size === 0 || edges.length === 0) {
+      return { nodes, iterations: 0, initialError, finalError: initialError, converged: true };
+    }
+
+    const firstColumn = this.computeEnvelope(edges, blockIndex, dof);
+    let lambda = this.config.initialLambda;
+    let currentError = initialError;
+    let iterations = 0;
+    let converged = false;
+
+    for (let iter = 0; iter < this.config.maxIterations; iter++) {
+      iterations++;
+
+      // Build normal equations H * dx = -g
+      const H = new SkylineMatrix(firstColumn);
+      const g = new Array(firstColumn.length).fill(0);
+
+      for (const edge of edges) {
+        this.accumulateEdge(edge, nodes, blockIndex, dof, H, g);
+      }
+
+      // Levenberg-Marquardt: retry with growing damping until the error drops
+      let accepted = false;
+      let stepNorm = 0;
+
+      for (let attempt = 0; attempt < 10 && !accepted; attempt++) {
+        const damped = H.clone();
+        for (let i = 0; i < damped.size; i++) {
+          const d = damped.diagonal(i);
+          damped.setDiagonal(i, d + lambda * Math.max(d, 1e-9));
+        }
+
+        let dx: number[];
+        try {
+          dx = damped.solveCholesky(g.map(v => -v));
+        } catch {
+          lambda *= 10;
+          continue;
+        }
+
+        const candidate = this.applyUpdate(nodes, blockIndex, dx, dof);
+        const candidateError = this.computeError(candidate, edges);
+
+        if (candidateError < currentError) {
+          for (const [id, pose] of candidate) {
+            nodes.set(id, pose);
+          }
+          stepNorm = Math.sqrt(dx.reduce((sum, v) => sum + v * v, 0));
+          currentError = candidateError;
+          lambda = Math.max(lambda / 10, 1e-12);
+          accepted = true;
+        } else {
+          lambda *= 10;
+        }
+      }
+
+      if (!accepted || stepNorm < this.config.convergenceThreshold) {
+        converged = true;
+        break;
+      }
+    }
+
+    return {
+      nodes,
+      iterations,
+      initialError,
+      finalError: currentError,
+      converged,
+    };
+  }
+
+  /**
+   * Build essential graph from map, add loop edges, optimize,
+   * and apply corrections to keyframes and map points
+   *
+   * @param anchorKeyframeId - Keyframe held fixed to remove gauge freedom
+   *   (default: the first loop's query keyframe, so the current camera does not jump)
+   */
+  correctLoop(
+    map: SLAMMapManager,
+    loops: LoopConstraint[],
+    anchorKeyframeId: number | undefined = loops[0]?.queryKeyframeId
+  ): LoopClosureCorrection | null {
+    const keyframes = map.getAllKeyframes().sort((a, b) => a.id - b.id);
+    if (keyframes.length < 2 || loops.length === 0 || anchorKeyframeId === undefined) {
+      return null;
+    }
+    if (!map.getKeyframe(anchorKeyframeId)) {
+      throw new Error(`Loop correction anchor keyframe ${anchorKeyframeId} is not in the map`);
+    }
+
+    const originalPoses = new Map<number, Sim3>();
+    for (const kf of keyframes) {
+      originalPoses.set(kf.id, Sim3.fromPose(kf.pose.position, kf.pose.rotation));
+    }
+
+    const edges: PoseGraphEdge[] = [];
+    const edgeKeys = new Set<string>();
+    const addOdometryEdge = (from: number, to: number, type: PoseGraphEdge['type']) => {
+      const key = from < to ? `${from}-${to}` : `${to}-${from}`;
+      if (edgeKeys.has(key)) {return;}
+      edgeKeys.add(key);
+
+      const Ti = originalPoses.get(from)!;
+      const Tj = originalPoses.get(to)!;
+      edges.push({ from, to, measurement: Ti.inverse().multiply(Tj), weight: 1, type });
+    };
+
+    // Spanning tree: consecutive keyframes
+    for (let i = 1; i < keyframes.length; i++) {
+      addOdometryEdge(keyframes[i - 1].id, keyframes[i].id, 'spanning');
+    }
+
+    // Covisibility edges
+    for (const kf of keyframes) {
+      for (const otherId of map.getCovisibleKeyframes(kf.id)) {
+        if (originalPoses.has(otherId)) {
+          addOdometryEdge(kf.id, otherId, 'covisibility');
+        }
+      }
+    }
+
+    // Loop edges
+    for (const loop of loops) {
+      if (!originalPoses.has(loop.loopKeyframeId) || !originalPoses.has(loop.queryKeyframeId)) {
+        continue;
+      }
+      edges.push({
+        from: loop.loopKeyframeId,
+        to: loop.queryKeyframeId,
+        measurement: loop.relative,
+        weight: this.config.loopEdgeWeight,
+        type: 'loop',
+      });
+    }
+
+    const result = this.optimize({
+      nodes: originalPoses,
+      edges,
+      fixed: new Set([anchorKeyframeId]),
+    });
+
+    // Per-keyframe correction: C = T_new * T_old^-1
+    const corrections = new Map<number, Sim3>();
+    for (const kf of keyframes) {
+      const oldPose = originalPoses.get(kf.id)!;
+      const newPose = result.nodes.get(kf.id)!;
+      corrections.set(kf.id, newPose.multiply(oldPose.inverse()));
+
+      // Keyframe poses stay rigid; scale only affects structure
+      map.updateKeyframePose(kf.id, newPose.translation, newPose.rotation);
+    }
+
+    // Move each map point with its reference (first observing) keyframe
+    let numMapPointsCorrected = 0;
+    for (const mapPoint of map.getAllMapPoints()) {
+      const referenceId = mapPoint.observations.find(id => corrections.has(id));
+      if (referenceId === undefined) {continue;}
+
+      const correction = corrections.get(referenceId)!;
+      map.updateMapPoint(mapPoint.id, {
+        position: correction.transformPoint(mapPoint.position),
+        normal: correction.rotation.rotateVector(mapPoint.normal),
+      });
+      numMapPointsCorrected++;
+    }
+
+    return {
+      queryKeyframeId: loops[0].queryKeyframeId,
+      loopKeyframeId: loops[0].loopKeyframeId,
+      corrections,
+      numMapPointsCorrected,
+      numEdges: edges.length,
+      iterations: result.iterations,
+      initialError: result.initialError,
+      finalError: result.finalError,
+    };
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Edge residual: r = log(Z^-1 * T_i^-1 * T_j)
+   */
+  private computeResidual(edge: PoseGraphEdge, Ti: Sim3, Tj: Sim3): number[] {
+    const error = edge.measurement.inverse().multiply(Ti.inverse().multiply(Tj));
+    const r = Sim3.log(error);
+    return this.config.optimizeScale ? r : r.slice(0, 6);
+  }
+
+  /**
+   * Total weighted squared error of the graph
+   */
+  private computeError(nodes: Map<number, Sim3>, edges: PoseGraphEdge[]): number {
+    let error = 0;
+    for (const edge of edges) {
+      const r = this.computeResidual(edge, nodes.get(edge.from)!, nodes.get(edge.to)!);
+      for (const v of r) {
+        error += edge.weight * v * v;
+      }
+    }
+    return error;
+  }
+
+  /**
+   * First nonzero column of each row of the normal equations
+   */
+  private computeEnvelope(
+    edges: PoseGraphEdge[],
+    blockIndex: Map<number, number>,
+    dof: number
+  ): Int32Array {
+    const firstBlock = Int32Array.from({ length: blockIndex.size }, (_, i) => i);
+    for (const edge of edges) {
+      const a = blockIndex.get(edge.from);
+      const b = blockIndex.get(edge.to);
+      if (a === undefined || b === undefined) {continue;}
+
+      const row = Math.max(a, b);
+      firstBlock[row] = Math.min(firstBlock[row], a, b);
+    }
+
+    return Int32Array.from({ length: blockIndex.size * dof }, (_, i) => firstBlock[Math.floor(i / dof)] * dof);
+  }
+
+  /**
+   * Add an edge's contribution to the normal equations
+   *
+   * With E = Z^-1 * T_i^-1 * T_j and right-multiplied increments:
+   * - dr/dδ_j = D(E)
+   * - dr/dδ_i = -D(E) * Ad(T_j^-1 * T_i)
+   * where D(E) = diag(Jr^-1(log R_E), s_E * R_E, 1) maps a right increment
+   * of E to its (decoupled) logarithm.
+   */
+  private accumulateEdge(
+    edge: PoseGraphEdge,
+    nodes: Map<number, Sim3>,
+    blockIndex: Map<number, number>,
+    dof: number,
+    H: SkylineMatrix,
+    g: number[]
+  ): void {
+    const Ti = nodes.get(edge.from)!;
+    const Tj = nodes.get(edge.to)!;
+    const error = edge.measurement.inverse().multiply(Ti.inverse().multiply(Tj));
+    const r0 = Sim3.log(error).slice(0, dof);
+
+    const D = errorJacobian(error);
+    const blocks: Array<{ offset: number; J: number[][] }> = [];
+
+    const from = blockIndex.get(edge.from);
+    if (from !== undefined) {
+      const J = multiply7(D, adjoint(Tj.inverse().multiply(Ti))).map(row => row.map(v => -v));
+      blocks.push({ offset: from * dof, J });
+    }
+
+    const to = blockIndex.get(edge.to);
+    if (to !== undefined) {
+      blocks.push({ offset: to * dof, J: D });
+    }
+
+    for (const a of blocks) {
+      for (let p = 0; p < dof; p++) {
+        let gp = 0;
+        for (let row = 0; row < dof; row++) {
+          gp += a.J[row][p] * r0[row];
+        }
+        g[a.offset + p] += edge.weight * gp;
+
+        for (const b of blocks) {
+          for (let q = 0; q < dof; q++) {
+            // Lower triangle only; the skyline mirrors it
+            if (b.offset + q > a.offset + p) {continue;}
+
+            let h = 0;
+            for (let row = 0; row < dof; row++) {
+              h += a.J[row][p] * b.J[row][q];
+            }
+            H.add(a.offset + p, b.offset + q, edge.weight * h);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply increment to all free nodes
+   */
+  private applyUpdate(
+    nodes: Map<number, Sim3>,
+    blockIndex: Map<number, number>,
+    dx: number[],
+    dof: number
+  ): Map<number, Sim3> {
+    const updated = new Map<number, Sim3>();
+
+    for (const [id, pose] of nodes) {
+      const block = blockIndex.get(id);
+      if (block === undefined) {
+        updated.set(id, pose);
+        continue;
+      }
+
+      const delta = new Array(7).fill(0);
+      for (let k = 0; k < dof; k++) {
+        delta[k] = dx[block * dof + k];
+      }
+      updated.set(id, pose.multiply(Sim3.exp(delta)));
+    }
+
+    return updated;
+  }
+}
+
+// ==================== Private Methods ====================
+
+function skew(v: Vector3): number[][] {
+  return [
+    [0, -v.z, v.y],
+    [v.z, 0, -v.x],
+    [-v.y, v.x, 0],
+  ];
+}
+
+function multiply3(A: number[][], B: number[][]): number[][] {
+  return A.map(row => [0, 1, 2].map(j => row[0] * B[0][j] + row[1] * B[1][j] + row[2] * B[2][j]));
+}
+
+function multiply7(A: number[][], B: number[][]): number[][] {
+  return A.map(row => B[0].map((_, j) => row.reduce((sum, v, k) => sum + v * B[k][j], 0)));
+}
+
+/**
+ * 3x3 rotation matrix from a quaternion (rows)
+ */
+function rotationMatrix(transform: Sim3): number[][] {
+  const R = transform.rotation.toRotationMatrix();
+  return [R.slice(0, 3), R.slice(3, 6), R.slice(6, 9)];
+}
+
+/**
+ * Inverse right Jacobian of SO(3): log(Exp(φ) * Exp(ω)) ≈ φ + Jr^-1(φ) * ω
+ */
+function rightJacobianInverse(phi: Vector3): number[][] {
+  const theta = phi.length();
+  const W = skew(phi);
+  const W2 = multiply3(W, W);
+  const c = theta < 1e-6
+    ? 1 / 12
+    : 1 / (theta * theta) - (1 + Math.cos(theta)) / (2 * theta * Math.sin(theta));
+
+  return [0, 1, 2].map(i => [0, 1, 2].map(j => (i === j ? 1 : 0) + 0.5 * W[i][j] + c * W2[i][j]));
+}
+
+/**
+ * Jacobian of the decoupled log of E * exp(δ) w.r.t. δ at δ = 0
+ */
+function errorJacobian(error: Sim3): number[][] {
+  const J = Array.from({ length: 7 }, () => new Array(7).fill(0));
+  const JrInv = rightJacobianInverse(error.rotation.toRotationVector());
+  const R = rotationMatrix(error);
+
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      J[i][j] = JrInv[i][j];
+      J[3 + i][3 + j] = error.scale * R[i][j];
+    }
+  }
+  J[6][6] = 1;
+  return J;
+}
+
+/**
+ * Adjoint of Sim(3) in [ω, t, σ] order: M * exp(δ) * M^-1 = exp(Ad(M) * δ)
+ */
+function adjoint(transform: Sim3): number[][] {
+  const Ad = Array.from({ length: 7 }, () => new Array(7).fill(0));
+  const R = rotationMatrix(transform);
+  const tR = multiply3(skew(transform.translation), R);
+  const t = transform.translation;
+
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      Ad[i][j] = R[i][j];
+      Ad[3 + i][j] = tR[i][j];
+      Ad[3 + i][3 + j] = transform.scale * R[i][j];
+    }
+  }
+  Ad[3][6] = -t.x;
+  Ad[4][6] = -t.y;
+  Ad[5][6] = -t.z;
+  Ad[6][6] = 1;
+  return Ad;
+}
@@ -13,6 +13,7 @@ import type {
 import { Vector3 } from '../math/vector';
 import { Quaternion } from '../math/quaternion';
 import { Matrix4 } from '../math/matrix';
+import type { Sim3 } from '../math/sim3';
 import { generateId } from '../../utils/id-generator';
 
 export class SLAMMapManager {
@@ -176,14 +177,247 @@ export class SLAMMapManager {
     this.map.lastUpdatedAt = Date.now();
   }
 
+  /**
+   * Update keyframe pose (e.g. after optimization)
+   * Recomputes the world-to-camera and camera-to-world matrices
+   */
+  updateKeyframePose(id: number, position: Vector3, rotation: Quaternion): void {
+    const keyframe = this.map.keyframes.get(id);
+    if (!keyframe) {return;}
+
+    const inverse = Matrix4.compose(position, rotation, new Vector3(1, 1, 1));
+    keyframe.pose = {
+      position,
+      rotation,
+      transform: inverse.inverse(),
+      inverse,
+    };
+    this.map.lastUpdatedAt = Date.now();
+  }
+
+  /**
+   * Apply a similarity transform to the whole map (re-express it in another frame)
+   */
+  transform(transform: Sim3): void {
+    for (const keyframe of this.map.keyframes.values()) {
+      this.updateKeyframePose(
+        keyframe.id,
+        transform.transformPoint(keyframe.pose.position),
+        transform.rotation.multiply(keyframe.pose.rotation).normalize()
+      );
+
+      if (keyframe.imu) {
+        keyframe.imu.velocity = transform.rotation.rotateVector(keyframe.imu.velocity).multiply(transform.scale);
+      }
+    }
+
+    for (const mapPoint of this.map.mapPoints.values()) {
+      mapPoint.position = transform.transformPoint(mapPoint.position);
+      mapPoint.normal = transform.rotation.rotateVector(mapPoint.normal);
+      mapPoint.minDistance *= transform.scale;
+      mapPoint.maxDistance *= transform.scale;
+    }
+
+    this.map.lastUpdatedAt = Date.now();
+  }
+
+  /**
+   * Import keyframes, map points and covisibility of another map
+   * expressed in the same frame
+   *
+   * Imported elements get new IDs. They are ordered before the existing
+   * keyframes, so the recent keyframe window stays on the live session.
+   *
+   * @returns Mapping from the other map's IDs to the new IDs
+   */
+  merge(other: SLAMMapManager): {
+    keyframeIds: Map<number, number>;
+    mapPointIds: Map<number, number>;
+  } {
+    const source = other.getRawMap();
+    const keyframeIds = new Map<number, number>();
+    const mapPointIds = new Map<number, number>();
+
+    for (const id of source.keyframes.keys()) {
+      keyframeIds.set(id, this.nextKeyframeId++);
+    }
+    for (const id of source.mapPoints.keys()) {
+      mapPointIds.set(id, this.nextMapPointId++);
+    }
+
+    const remap = (ids: number[], mapping: Map<number, number>) =>
+      ids.filter(id => mapping.has(id)).map(id => mapping.get(id)!);
+
+    for (const mapPoint of source.mapPoints.values()) {
+      const id = mapPointIds.get(mapPoint.id)!;
+      this.map.mapPoints.set(id, {
+        ...mapPoint,
+        id,
+        observations: remap(mapPoint.observations, keyframeIds),
+      });
+    }
+
+    const imported = new Map<number, Keyframe>();
+    for (const keyframe of source.keyframes.values()) {
+      const id = keyframeIds.get(keyframe.id)!;
+      imported.set(id, {
+        ...keyframe,
+        id,
+        features: keyframe.features.map(feature => ({
+          ...feature,
+          mapPointId: feature.mapPointId === null ? null : mapPointIds.get(feature.mapPointId) ?? null,
+        })),
+        covisibleKeyframes: remap(keyframe.covisibleKeyframes, keyframeIds),
+        mapPoints: remap(keyframe.mapPoints, mapPointIds),
+      });
+
+      const connections = source.covisibilityGraph.get(keyframe.id) ?? new Set<number>();
+      this.map.covisibilityGraph.set(id, new Set(remap(Array.from(connections), keyframeIds)));
+    }
+
+    this.map.keyframes = new Map([...imported, ...this.map.keyframes]);
+    this.map.lastUpdatedAt = Date.now();
+
+    console.log(`[SLAM Map] Merged ${imported.size} keyframes, ${mapPointIds.size} map points`);
+
+    return { keyframeIds, mapPointIds };
+  }
+
+  /**
+   * Copy a subset of keyframes with the map points they observe
+   * IDs are kept; links to elements outside the subset are dropped.
+   */
+  extract(keyframeIds: Iterable<number>, name: string = this.map.name): SLAMMapManager {
+    const subset = new SLAMMapManager(name);
+    const ids = new Set(keyframeIds);
+    const pointIds = new Set<number>();
+
+    for (const id of ids) {
+      const keyframe = this.map.keyframes.get(id);
+      if (!keyframe) {continue;}
+
+      for (const feature of keyframe.features) {
+        const mapPoint = feature.mapPointId === null ? undefined : this.map.mapPoints.get(feature.mapPointId);
+        if (mapPoint && mapPoint.trackingState !== 'bad') {
+          pointIds.add(mapPoint.id);
+        }
+      }
+    }
+
+    for (const id of pointIds) {
+      const mapPoint = this.map.mapPoints.get(id)!;
+      subset.map.mapPoints.set(id, {
+        ...mapPoint,
+        observations: mapPoint.observations.filter(kfId => ids.has(kfId)),
+      });
+    }
+
+    for (const id of ids) {
+      const keyframe = this.map.keyframes.get(id);
+      if (!keyframe) {continue;}
+
+      const covisible = Array.from(this.getCovisibleKeyframes(id)).filter(kfId => ids.has(kfId));
+      subset.map.keyframes.set(id, {
+        ...keyframe,
+        features: keyframe.features.map(feature => ({
+          ...feature,
+          mapPointId: feature.mapPointId !== null && pointIds.has(feature.mapPointId) ? feature.mapPointId : null,
+        })),
+        covisibleKeyframes: covisible,
+        mapPoints: keyframe.mapPoints.filter(mpId => pointIds.has(mpId)),
+      });
+      subset.map.covisibilityGraph.set(id, new Set(covisible));
+    }
+
+    subset.nextKeyframeId = this.nextKeyframeId;
+    subset.nextMapPointId = this.nextMapPointId;
+
+    return subset;
+  }
+
+  /**
+   * Replace a duplicate map point by another one
+   * Observations and feature associations move to the kept point.
+   * Covisibility is not updated; call {@link refreshCovisibility} afterwards.
+   */
+  fuseMapPoints(keepId: number, removeId: number): boolean {
+    const keep = this.map.mapPoints.get(keepId);
+    const remove = this.map.mapPoints.get(removeId);
+    if (!keep || !remove || keepId === removeId) {return false;}
+
+    for (const keyframeId of remove.observations) {
+      const keyframe = this.map.keyframes.get(keyframeId);
+      if (!keyframe) {continue;}
+
+      for (const feature of keyframe.features) {
+        if (feature.mapPointId === removeId) {
+          feature.mapPointId = keepId;
+        }
+      }
+      keyframe.mapPoints = Array.from(
+        new Set(keyframe.mapPoints.map(id => (id === removeId ? keepId : id)))
+      );
+
+      if (!keep.observations.includes(keyframeId)) {
+        keep.observations.push(keyframeId);
+      }
+    }
+
+    this.map.mapPoints.delete(removeId);
+    this.map.lastUpdatedAt = Date.now();
+    return true;
+  }
+
+  /**
+   * Associate a keyframe feature with a map point
+   */
+  addObservation(keyframeId: number, featureIndex: number, mapPointId: number): boolean {
+    const keyframe = this.map.keyframes.get(keyframeId);
+    const mapPoint = this.map.mapPoints.get(mapPointId);
+    const feature = keyframe?.features[featureIndex];
+    if (!keyframe || !mapPoint || !feature) {return false;}
+
+    feature.mapPointId = mapPointId;
+    if (!keyframe.mapPoints.includes(mapPointId)) {
+      keyframe.mapPoints.push(mapPointId);
+    }
+    if (!mapPoint.observations.includes(keyframeId)) {
+      mapPoint.observations.push(keyframeId);
+    }
+    this.map.lastUpdatedAt = Date.now();
+    return true;
+  }
+
+  /**
+   * Link a keyframe to every keyframe sharing enough map points with it
+   */
+  refreshCovisibility(keyframeId: number): void {
+    const keyframe = this.map.keyframes.get(keyframeId);
+    if (!keyframe) {return;}
+
+    if (!this.map.covisibilityGraph.has(keyframeId)) {
+      this.map.covisibilityGraph.set(keyframeId, new Set());
+    }
+    this.updateCovisibility(keyframe);
+  }
+
   /**
    * Remove bad map points
    */
   cullBadMapPoints(): number {
+    return this.removeBadMapPoints(Array.from(this.map.mapPoints.keys()));
+  }
+
+  /**
+   * Remove the given map points that are bad or no longer observed
+   * (e.g. culled on a snapshot of this map)
+   */
+  removeBadMapPoints(ids: Iterable<number>): number {
     let culled = 0;
 
-    for (const [id, mapPoint] of this.map.mapPoints) {
-      if (mapPoint.trackingState === 'bad' || mapPoint.observations.length === 0) {
+    for (const id of ids) {
+      const mapPoint = this.map.mapPoints.get(id);
+      if (mapPoint && (mapPoint.trackingState === 'bad' || mapPoint.observations.length === 0)) {
         this.map.mapPoints.delete(id);
         culled++;
       }
@@ -348,6 +582,12 @@ export class SLAMMapManager {
           kf.pose.rotation.w,
         ] as [number, number, number, number],
       },
+      intrinsics: {
+        fx: kf.intrinsics.fx,
+        fy: kf.intrinsics.fy,
+        cx: kf.intrinsics.cx,
+        cy: kf.intrinsics.cy,
+      },
       features: kf.features.map(f => ({
         x: f.x,
         y: f.y,
@@ -381,7 +621,7 @@ export class SLAMMapManager {
         mapPoints,
       },
       compressed: false,
-      checksum: '', // TODO: Add checksum
+      checksum: '', // Set by the binary map codec (CRC32)
     };
 
     return serialized;
@@ -421,8 +661,8 @@ export class SLAMMapManager {
         })),
         covisibleKeyframes: kfData.covisibleKeyframes,
         mapPoints: kfData.mapPoints,
-        intrinsics: {
-          fx: 800, fy: 800, cx: 640, cy: 360, // TODO: Store intrinsics
+        intrinsics: kfData.intrinsics ?? {
+          fx: 800, fy: 800, cx: 640, cy: 360, // Not stored before format version 2
         },
       };
 
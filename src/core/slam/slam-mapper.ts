@@ -1,6 +1,11 @@
 /**
  * SLAM Mapper
  * Handles map management, keyframe creation, and loop closure coordination
+ *
+ * Keyframes are inserted synchronously; local bundle adjustment runs as a job
+ * on the local mapping worker pool and its delta is merged when it returns.
+ * Each merged job is followed by a loop closing job on the same pool that
+ * culls bad map points, detects loops and corrects the pose graph.
  */
 
 import type {
@@ -10,10 +15,25 @@ import type {
   KeyframeFeature,
   CameraIntrinsics,
   CameraPose,
+  SLAMEvents,
 } from './types';
 import type { SLAMMapManager } from './slam-map';
 import { KeyframeManager, type KeyframeCandidate } from './keyframe-manager';
-import { LoopClosureDetector } from './loop-closure';
+import { MapInitializer } from './map-initializer';
+import {
+  LocalBundleAdjuster,
+  type LocalBundleAdjusterConfig,
+  type BundleAdjustmentResult,
+} from './local-bundle-adjuster';
+import { encodeLocalMappingJob, decodeLocalMappingDelta } from './local-mapping';
+import {
+  encodeLoopClosingJob,
+  applyLoopClosingDelta,
+  type LoopClosingConfig,
+  type LoopClosingResult,
+} from './loop-closing';
+import { LocalMappingWorkerPool } from './local-mapping-worker-pool';
+import { TypedEventEmitter } from '../events';
 import { Vector3 } from '../math/vector';
 import { Quaternion } from '../math/quaternion';
 import { Matrix4 } from '../math/matrix';
@@ -32,58 +52,156 @@ export interface KeyframeCreationContext {
  * SLAM Mapper
  * Responsible for map management and keyframe creation
  */
-export class SLAMMapper {
+export class SLAMMapper extends TypedEventEmitter<SLAMEvents> {
   private logger = Logger.create('SLAMMapper');
   private keyframeManager: KeyframeManager;
-  private loopClosureDetector: LoopClosureDetector | null = null;
+  private mapInitializer: MapInitializer;
+  private loopClosingConfig: LoopClosingConfig;
+  private lastLoopCheckFrame = 0;
+  private localBundleAdjuster: LocalBundleAdjuster;
+  private localBundleAdjusterConfig: LocalBundleAdjusterConfig;
+  private lastBundleAdjustment: BundleAdjustmentResult | null = null;
+  private gravity: Vector3 | null = null;
   private frameCount = 0;
 
+  // Local mapping jobs
+  private mappingPool: LocalMappingWorkerPool;
+  private mappingJobs = new Set<Promise<void>>();
+  private mappingRequested = false;
+  private loopQueue: Keyframe[] = [];
+
   constructor(
     private map: SLAMMapManager,
     private config: Required<SLAMConfig>,
-    private intrinsics: CameraIntrinsics
+    private intrinsics: CameraIntrinsics,
+    mappingPool?: LocalMappingWorkerPool
   ) {
+    super();
     this.keyframeManager = new KeyframeManager(config);
+    this.mappingPool = mappingPool ?? new LocalMappingWorkerPool({ threads: 0 });
+
+    // Initial map must hold enough points to start tracking
+    this.mapInitializer = new MapInitializer(intrinsics, {
+      minTriangulated: config.minFeatureTracked,
+    });
+
+    // Scale is observable with IMU, so only monocular needs Sim(3)
+    this.loopClosingConfig = {
+      loopClosure: { similarityThreshold: config.loopClosureThreshold },
+      poseGraph: { optimizeScale: !config.useIMU },
+    };
+
+    this.localBundleAdjusterConfig = {
+      outlierThreshold: config.maxReprojectionError,
+      maxTime: config.maxMappingTime,
+    };
+    this.localBundleAdjuster = new LocalBundleAdjuster(this.localBundleAdjusterConfig);
 
-    // Initialize loop closure if enabled
     if (config.enableLoopClosure) {
-      this.loopClosureDetector = new LoopClosureDetector(map, {
-        minInterval: config.loopClosureMinInterval,
-        similarityThreshold: config.loopClosureThreshold,
-      });
       this.logger.info(' Loop closure detection enabled');
     }
   }
 
   /**
-   * Initialize map with first keyframe
+   * Monocular map initialization from two views
+   *
+   * Frames are collected until one has enough parallax against the reference
+   * frame; then both become keyframes and the triangulated points seed the map.
+   * The reference camera defines the world frame.
    *
-   * @param context Initial frame data
-   * @returns First keyframe
+   * @param context Current frame data
+   * @returns Current keyframe once initialized, null while collecting frames
    */
-  initializeMap(context: KeyframeCreationContext): Keyframe {
-    const { timestamp, pose, keypoints, descriptors } = context;
-
-    this.logger.info(' Initializing map with first keyframe');
+  initializeMap(context: KeyframeCreationContext): Keyframe | null {
+    const { timestamp, keypoints, descriptors } = context;
 
-    // Create first keyframe
-    const keyframe = this.map.addKeyframe({
+    const result = this.mapInitializer.addFrame({
       timestamp,
-      pose: this.createKeyframePose(pose),
       features: this.createFeatures(keypoints, descriptors),
+    });
+    if (!result) {return null;}
+
+    const { reference, current, matches } = result;
+    const origin = new Vector3(0, 0, 0);
+
+    const referenceKeyframe = this.map.addKeyframe({
+      timestamp: reference.timestamp,
+      pose: this.createKeyframePose({
+        position: origin,
+        rotation: Quaternion.identity(),
+        velocity: new Vector3(0, 0, 0),
+        angularVelocity: new Vector3(0, 0, 0),
+        timestamp: reference.timestamp,
+      }),
+      features: reference.features,
       covisibleKeyframes: [],
       mapPoints: [],
       intrinsics: this.intrinsics,
     });
 
-    this.keyframeManager.registerKeyframe(keyframe);
+    // Seed map points observed by the reference keyframe
+    const mapPointIds: Array<number | null> = result.points.map((position, i) => {
+      if (!position) {return null;}
+
+      const referenceFeature = reference.features[matches[i].trainIdx];
+      const fromReference = position.subtract(origin);
+      const fromCurrent = position.subtract(result.position);
+      const distance = fromReference.length();
+
+      const mapPoint = this.map.addMapPoint({
+        position,
+        descriptor: referenceFeature.descriptor,
+        observations: [referenceKeyframe.id],
+        normal: fromReference.normalize().add(fromCurrent.normalize()).normalize(),
+        minDistance: distance * 0.5,
+        maxDistance: distance * 2,
+        trackingState: 'good',
+        createdAt: timestamp,
+      });
+      referenceFeature.mapPointId = mapPoint.id;
+      return mapPoint.id;
+    });
+
+    const seeded = mapPointIds.filter((id): id is number => id !== null);
+    referenceKeyframe.mapPoints = seeded;
+
+    matches.forEach((match, i) => {
+      const id = mapPointIds[i];
+      if (id !== null) {
+        current.features[match.queryIdx].mapPointId = id;
+      }
+    });
 
-    // Add to loop closure detector
-    if (this.loopClosureDetector) {
-      this.loopClosureDetector.addKeyframe(keyframe);
+    // Adding the second keyframe links both in the covisibility graph
+    const keyframe = this.map.addKeyframe({
+      timestamp: current.timestamp,
+      pose: this.createKeyframePose({
+        position: result.position,
+        rotation: result.rotation,
+        velocity: new Vector3(0, 0, 0),
+        angularVelocity: new Vector3(0, 0, 0),
+        timestamp: current.timestamp,
+      }),
+      features: current.features,
+      covisibleKeyframes: [],
+      mapPoints: seeded,
+      intrinsics: this.intrinsics,
+    });
+
+    for (const id of seeded) {
+      this.map.updateMapPoint(id, { observations: [referenceKeyframe.id, keyframe.id] });
     }
 
-    console.log(`[SLAMMapper] Map initialized with keyframe #${keyframe.id}`);
+    this.keyframeManager.registerKeyframe(referenceKeyframe);
+    this.keyframeManager.registerKeyframe(keyframe);
+
+    console.log(
+      `[SLAMMapper] Map initialized from keyframes #${referenceKeyframe.id} and #${keyframe.id} ` +
+        `(${result.model}, ${seeded.length} points, parallax ${result.parallax.toFixed(1)}°)`
+    );
+
+    // Refine the initial structure
+    this.requestLocalMapping();
 
     return keyframe;
   }
@@ -127,40 +245,166 @@ export class SLAMMapper {
       `[SLAMMapper] Created keyframe #${keyframe.id} (${numTrackedFeatures} features tracked)`
     );
 
-    // Loop closure detection
-    if (this.loopClosureDetector) {
-      this.detectLoopClosures(keyframe);
+    // Refine recent keyframes and their map points, then look for loops
+    if (this.config.enableLoopClosure) {
+      this.loopQueue.push(keyframe);
     }
+    this.requestLocalMapping();
 
     return keyframe;
   }
 
   /**
-   * Detect loop closures for a keyframe
+   * Wait until all queued local mapping work has been merged into the map
    */
-  private detectLoopClosures(keyframe: Keyframe): void {
-    if (!this.loopClosureDetector) {return;}
-
-    // Add keyframe to loop closure database
-    this.loopClosureDetector.addKeyframe(keyframe);
+  async flushLocalMapping(): Promise<void> {
+    while (this.mappingJobs.size > 0) {
+      await Promise.all(this.mappingJobs);
+    }
+  }
 
-    // Detect loop closures
-    const loopClosures = this.loopClosureDetector.detectLoopClosure(
-      keyframe,
-      this.frameCount
-    );
+  /**
+   * Enable visual-inertial local bundle adjustment (null disables it)
+   *
+   * @param gravity Gravity in the map frame (m/s²)
+   */
+  setGravity(gravity: Vector3 | null): void {
+    this.gravity = gravity ? gravity.clone() : null;
+  }
 
-    if (loopClosures.length > 0) {
-      console.log(`[SLAMMapper] Detected ${loopClosures.length} loop closure(s)`);
+  /**
+   * Whether local mapping jobs are queued or running
+   */
+  isMappingBusy(): boolean {
+    return this.mappingJobs.size > 0;
+  }
 
-      // TODO: Perform pose graph optimization
-      // For now, just log the detection
-      for (const loop of loopClosures) {
-        console.log(
-          `  - Keyframe ${loop.candidateKeyframeId}, similarity: ${loop.similarity.toFixed(3)}, matches: ${loop.matchCount}, inliers: ${loop.inliers}`
+  /**
+   * Start a local mapping job, or coalesce into the next one if all threads are busy
+   */
+  private requestLocalMapping(): void {
+    if (this.mappingJobs.size >= this.mappingPool.getThreadCount()) {
+      this.mappingRequested = true;
+      return;
+    }
+    this.mappingRequested = false;
+
+    const problem = this.localBundleAdjuster.buildProblem(this.map, this.gravity ?? undefined);
+    const job = encodeLocalMappingJob(problem, this.localBundleAdjusterConfig);
+
+    const task = this.mappingPool
+      .submit(job)
+      .then((delta) => {
+        const solution = decodeLocalMappingDelta(problem, delta);
+        solution.result.numOutliers = this.localBundleAdjuster.applySolution(
+          this.map,
+          problem,
+          solution
         );
+        this.onLocalBundleAdjustment(solution.result);
+      })
+      .catch((error) => {
+        this.logger.warn('Local mapping job failed', error);
+      })
+      .finally(() => {
+        this.mappingJobs.delete(task);
+        this.finishLocalMapping();
+      });
+
+    this.mappingJobs.add(task);
+  }
+
+  /**
+   * Cull and detect loops on the pool, then start coalesced work
+   */
+  private finishLocalMapping(): void {
+    const job = encodeLoopClosingJob(this.map, this.takeLoopQuery(), this.loopClosingConfig);
+
+    const task = this.mappingPool
+      .submit(job)
+      .then((delta) => {
+        this.onLoopClosing(applyLoopClosingDelta(this.map, delta));
+      })
+      .catch((error) => {
+        this.logger.warn('Loop closing job failed', error);
+      })
+      .finally(() => {
+        this.mappingJobs.delete(task);
+        if (this.mappingRequested) {
+          this.requestLocalMapping();
+        }
+      });
+
+    this.mappingJobs.add(task);
+
+    if (this.mappingRequested) {
+      this.requestLocalMapping();
+    }
+  }
+
+  /**
+   * Take the queued keyframe due for a loop check, dropping the rest
+   */
+  private takeLoopQuery(): number | null {
+    const pending = this.loopQueue;
+    this.loopQueue = [];
+
+    for (const keyframe of pending) {
+      if (!this.map.getKeyframe(keyframe.id)) {continue;}
+
+      if (this.frameCount - this.lastLoopCheckFrame >= this.config.loopClosureMinInterval) {
+        this.lastLoopCheckFrame = this.frameCount;
+        return keyframe.id;
       }
     }
+
+    return null;
+  }
+
+  /**
+   * Record a merged local bundle adjustment
+   */
+  private onLocalBundleAdjustment(result: BundleAdjustmentResult): void {
+    if (result.numObservations === 0) {return;}
+
+    this.lastBundleAdjustment = result;
+    this.logger.debug(
+      `Local BA: ${result.numKeyframes} keyframes, ${result.numMapPoints} points, ` +
+        `RMS ${result.initialError.toFixed(2)}px -> ${result.finalError.toFixed(2)}px ` +
+        `(${result.iterations} iterations, ${result.numOutliers} outliers${result.timedOut ? ', timed out' : ''})`
+    );
+  }
+
+  /**
+   * Get result of the most recent local bundle adjustment
+   */
+  getLastBundleAdjustment(): BundleAdjustmentResult | null {
+    return this.lastBundleAdjustment;
+  }
+
+  /**
+   * Announce a merged loop correction
+   */
+  private onLoopClosing(result: LoopClosingResult): void {
+    const { correction } = result;
+    if (!correction) {return;}
+
+    this.logger.info(
+      `Loop closed between keyframes ${correction.queryKeyframeId} and ${correction.loopKeyframeId} ` +
+        `(${result.inliers} inliers, error ${correction.initialError.toFixed(4)} -> ${correction.finalError.toFixed(4)})`
+    );
+
+    this.emit('slam:loop-closed', correction);
+  }
+
+  /**
+   * Refine the seam after a stored map was merged
+   * Loop closing jobs index the imported keyframes with the rest of the map.
+   * The live keyframe window stays the most recent, so keyframe selection
+   * is unaffected.
+   */
+  onMapMerged(): void {
+    this.requestLocalMapping();
   }
 
   /**
@@ -182,17 +426,14 @@ export class SLAMMapper {
    */
   reset(): void {
     this.keyframeManager.reset();
+    this.mapInitializer.reset();
     this.frameCount = 0;
+    this.lastLoopCheckFrame = 0;
 
     // Re-register all keyframes from map
     const keyframes = this.map.getAllKeyframes();
     for (const keyframe of keyframes) {
       this.keyframeManager.registerKeyframe(keyframe);
-
-      // Re-add to loop closure detector
-      if (this.loopClosureDetector) {
-        this.loopClosureDetector.addKeyframe(keyframe);
-      }
     }
 
     console.log(`[SLAMMapper] Reset complete (${keyframes.length} keyframes)`);
@@ -203,6 +444,7 @@ export class SLAMMapper {
    */
   updateIntrinsics(intrinsics: CameraIntrinsics): void {
     this.intrinsics = intrinsics;
+    this.mapInitializer.updateIntrinsics(intrinsics);
   }
 
   /**
@@ -18,16 +18,30 @@ import type {
   CameraPose,
   CameraIntrinsics,
   IMUMeasurement,
+  SLAMEvents,
+  LoopClosureCorrection,
+  MapMergeResult,
+  Keyframe,
+  SLAMAnchor,
+  InertialInitializationResult,
+  CameraIMUCalibration,
 } from './types';
 import { SLAMMapManager } from './slam-map';
 import { SLAMTracker, type TrackingContext } from './slam-tracker';
 import { SLAMMapper, type KeyframeCreationContext } from './slam-mapper';
+import { LocalMappingWorkerPool } from './local-mapping-worker-pool';
 import { VIOManager } from './vio-manager';
+import type { CameraIMUCalibratorConfig } from './camera-imu-calibration';
 import { MapPersistenceManager } from './map-persistence-manager';
+import type { MapStorageBackend } from './map-storage-backends';
+import { AnchorManager, type AnchorSerializer } from './anchor-manager';
 import { FeatureDetector } from '../detection/feature-detector';
 import { PoseEstimator } from '../tracking/pose-estimator';
+import { undistortKeypoints, withoutDistortion } from '../camera/camera-intrinsics';
+import { TypedEventEmitter } from '../events';
 import { Vector3 } from '../math/vector';
 import { Quaternion } from '../math/quaternion';
+import { Sim3 } from '../math/sim3';
 import { Logger } from '../../utils/logger';
 import {
   DEFAULT_MIN_KEYFRAME_TRANSLATION,
@@ -48,9 +62,10 @@ import {
   DEFAULT_MAX_MAPPING_TIME,
   DEFAULT_LOCAL_MAPPING_THREADS,
   DEFAULT_CAMERA_FOV_RADIANS,
+  INERTIAL_INIT_KEYFRAMES,
 } from '../constants';
 
-export class SLAMSystem {
+export class SLAMSystem extends TypedEventEmitter<SLAMEvents> {
   private logger = Logger.create('SLAM');
   private gpuContext: GPUContextManager;
   private config: Required<SLAMConfig>;
@@ -59,8 +74,10 @@ export class SLAMSystem {
   private map: SLAMMapManager;
   private tracker: SLAMTracker;
   private mapper: SLAMMapper;
+  private mappingPool: LocalMappingWorkerPool;
   private vio: VIOManager | null = null;
   private persistence: MapPersistenceManager | null = null;
+  private anchors: AnchorManager;
 
   // Feature detection (still part of main system)
   private featureDetector: FeatureDetector;
@@ -80,7 +97,15 @@ export class SLAMSystem {
   private lastTrackingTime = 0;
   private lastMappingTime = 0;
 
-  constructor(gpuContext: GPUContextManager, config: SLAMConfig = {}) {
+  /**
+   * @param storageBackend Where persisted maps are stored (defaults to IndexedDB)
+   */
+  constructor(
+    gpuContext: GPUContextManager,
+    config: SLAMConfig = {},
+    private storageBackend?: MapStorageBackend
+  ) {
+    super();
     this.gpuContext = gpuContext;
 
     // Default configuration
@@ -109,15 +134,19 @@ export class SLAMSystem {
 
     // Initialize map
     this.map = new SLAMMapManager('AR Session Map');
+    this.anchors = this.createAnchorManager();
 
     // Initialize tracker (handles feature matching and pose estimation)
     this.tracker = new SLAMTracker(this.map, this.config);
 
+    // Local mapping runs on workers so tracking never waits for it
+    this.mappingPool = new LocalMappingWorkerPool({
+      threads: this.config.localMappingThreads,
+    });
+
     // Initialize mapper (handles keyframe creation and loop closure)
     // Will be fully initialized after intrinsics are set
-    this.mapper = new SLAMMapper(
-      this.map,
-      this.config,
+    this.mapper = this.createMapper(
       { fx: 800, fy: 800, cx: 640, cy: 360 } // Placeholder
     );
 
@@ -156,6 +185,135 @@ export class SLAMSystem {
     }
   }
 
+  /**
+   * Create mapper for the current map and forward its events
+   * Keypoints are undistorted on entry, so the map uses a pinhole camera.
+   */
+  private createMapper(intrinsics: CameraIntrinsics): SLAMMapper {
+    const mapper = new SLAMMapper(this.map, this.config, withoutDistortion(intrinsics), this.mappingPool);
+    mapper.on('slam:loop-closed', (correction) => this.handleLoopClosed(correction));
+    return mapper;
+  }
+
+  /**
+   * Create anchor manager for the current map and forward its events
+   */
+  private createAnchorManager(): AnchorManager {
+    const anchors = new AnchorManager(this.map, {
+      similarityThreshold: this.config.loopClosureThreshold,
+    });
+    anchors.on('slam:anchor-resolved', (anchor) => this.emit('slam:anchor-resolved', anchor));
+    anchors.on('slam:anchor-updated', (anchor) => this.emit('slam:anchor-updated', anchor));
+    return anchors;
+  }
+
+  /**
+   * Apply loop correction to the live pose and notify listeners
+   */
+  private handleLoopClosed(correction: LoopClosureCorrection): void {
+    const pose = this.tracker.getCurrentPose();
+    const queryCorrection = correction.corrections.get(correction.queryKeyframeId);
+
+    if (pose && queryCorrection) {
+      this.tracker.updatePose({
+        ...pose,
+        position: queryCorrection.transformPoint(pose.position),
+        rotation: queryCorrection.rotation.multiply(pose.rotation).normalize(),
+        velocity: queryCorrection.rotation.rotateVector(pose.velocity),
+      });
+    }
+
+    this.anchors.applyLoopCorrection(correction);
+    this.emit('slam:loop-closed', correction);
+  }
+
+  /**
+   * Relocalize a new keyframe against a stored map waiting to be merged
+   *
+   * @returns Whether the maps were merged (the live pose moved frames)
+   */
+  private tryMergeMap(keyframe: Keyframe): boolean {
+    if (!this.persistence?.hasPendingMerge()) {return false;}
+
+    const result = this.persistence.tryMergeMap(keyframe);
+    if (!result) {return false;}
+
+    this.handleMapMerged(result);
+    return true;
+  }
+
+  /**
+   * Move the live pose into the merged map's frame and notify listeners
+   */
+  private handleMapMerged(result: MapMergeResult): void {
+    const { transform } = result;
+    const pose = this.tracker.getCurrentPose();
+
+    if (pose) {
+      this.tracker.updatePose({
+        ...pose,
+        position: transform.transformPoint(pose.position),
+        rotation: transform.rotation.multiply(pose.rotation).normalize(),
+        velocity: transform.rotation.rotateVector(pose.velocity).multiply(transform.scale),
+      });
+    }
+
+    this.mapper.onMapMerged();
+    this.anchors.applyTransform(transform);
+
+    this.logger.info(
+      `Merged stored map: ${result.numKeyframesMerged} keyframes, ` +
+        `${result.numMapPointsFused} map points fused`
+    );
+    this.emit('slam:map-merged', result);
+  }
+
+  /**
+   * Preintegrate IMU up to a new keyframe and try inertial initialization
+   *
+   * @returns Whether inertial initialization moved the map to metric scale
+   */
+  private handleVIOKeyframe(keyframe: Keyframe): boolean {
+    if (!this.vio) {return false;}
+
+    this.vio.addKeyframe(keyframe);
+    const result = this.vio.tryInitializeInertial(this.map.getRecentKeyframes(INERTIAL_INIT_KEYFRAMES));
+    if (!result) {return false;}
+
+    this.handleInertialInitialized(result);
+    return true;
+  }
+
+  /**
+   * Move the map to metric scale and enable visual-inertial bundle adjustment
+   */
+  private handleInertialInitialized(result: InertialInitializationResult): void {
+    const transform = new Sim3(Quaternion.identity(), new Vector3(0, 0, 0), result.scale);
+    this.map.transform(transform);
+
+    for (const keyframe of this.map.getAllKeyframes()) {
+      if (!keyframe.imu) {continue;}
+      keyframe.imu.velocity = result.velocities.get(keyframe.id) ?? keyframe.imu.velocity;
+      keyframe.imu.gyroBias = result.gyroBias.clone();
+      keyframe.imu.accelBias = result.accelBias.clone();
+    }
+
+    const pose = this.tracker.getCurrentPose();
+    if (pose) {
+      this.tracker.updatePose({
+        ...pose,
+        position: pose.position.multiply(result.scale),
+        velocity: pose.velocity.multiply(result.scale),
+      });
+    }
+
+    this.mapper.setGravity(result.gravity);
+    this.anchors.applyTransform(transform);
+
+    this.logger.info(`Inertial initialization: metric scale ${result.scale.toFixed(3)}`);
+    this.emit('slam:inertial-initialized', result);
+  }
+
   /**
    * Initialize Visual-Inertial Odometry
    */
@@ -175,7 +333,7 @@ export class SLAMSystem {
    */
   private async initializePersistence(): Promise<void> {
     try {
-      this.persistence = new MapPersistenceManager(this.map, this.config);
+      this.persistence = new MapPersistenceManager(this.map, this.config, this.storageBackend);
       await this.persistence.initialize();
       this.logger.info('Map persistence enabled');
     } catch (error) {
@@ -207,8 +365,8 @@ export class SLAMSystem {
     // Update pose estimator with intrinsics
     this.poseEstimator = new PoseEstimator(this.intrinsics);
 
-    // Update mapper with intrinsics
-    this.mapper.updateIntrinsics(this.intrinsics);
+    // Update mapper with intrinsics (keypoints are undistorted before mapping)
+    this.mapper.updateIntrinsics(withoutDistortion(this.intrinsics));
 
     // Set state to initializing
     this.state = 'initializing';
@@ -232,7 +390,8 @@ export class SLAMSystem {
 
     // Detect features
     await this.featureDetector.detectAndCompute(grayscaleTexture);
-    const keypoints = this.featureDetector.getKeypoints();
+    const detected = this.featureDetector.getKeypoints();
+    const keypoints = this.intrinsics ? undistortKeypoints(this.intrinsics, detected) : detected;
     const descriptors = this.featureDetector.getDescriptors();
 
     this.logger.debug(`Detected ${keypoints.length} features`);
@@ -276,12 +435,10 @@ export class SLAMSystem {
   }
 
   /**
-   * Initialize map with first keyframe
+   * Initialize map from two views with enough parallax
    */
   private async initializeMap(context: TrackingContext): Promise<TrackingResult> {
-    this.logger.info('Initializing map...');
-
-    // Create initial pose at origin
+    // Reference camera defines the world frame
     const initialPose: CameraPose = {
       position: new Vector3(0, 0, 0),
       rotation: Quaternion.identity(),
@@ -290,7 +447,7 @@ export class SLAMSystem {
       timestamp: context.timestamp,
     };
 
-    // Create first keyframe
+    // Collect frames until two views have enough parallax
     const keyframe = this.mapper.initializeMap({
       timestamp: context.timestamp,
       pose: initialPose,
@@ -299,19 +456,46 @@ export class SLAMSystem {
       numTrackedFeatures: context.keypoints.length,
     });
 
-    // Update tracker with initial pose
-    this.tracker.updatePose(initialPose);
+    if (!keyframe) {
+      return {
+        success: false,
+        pose: initialPose,
+        numTrackedFeatures: context.keypoints.length,
+        numInliers: 0,
+        reprojectionError: 0,
+        state: 'initializing',
+      };
+    }
+
+    // Update tracker with the pose of the second view
+    const pose: CameraPose = {
+      ...initialPose,
+      position: keyframe.pose.position,
+      rotation: keyframe.pose.rotation,
+    };
+    this.tracker.updatePose(pose);
 
     // Transition to tracking state
     this.state = 'tracking';
 
-    this.logger.info(`Map initialized with keyframe #${keyframe.id}`);
+    this.logger.info(
+      `Map initialized with keyframe #${keyframe.id} (${keyframe.mapPoints.length} map points)`
+    );
+
+    if (this.vio) {
+      for (const kf of this.map.getAllKeyframes()) {
+        this.handleVIOKeyframe(kf);
+      }
+    }
+
+    const merged = this.tryMergeMap(keyframe);
+    this.anchors.tryResolve(keyframe);
 
     return {
       success: true,
-      pose: initialPose,
-      numTrackedFeatures: context.keypoints.length,
-      numInliers: context.keypoints.length,
+      pose: merged ? this.tracker.getCurrentPose() ?? pose : pose,
+      numTrackedFeatures: keyframe.mapPoints.length,
+      numInliers: keyframe.mapPoints.length,
       reprojectionError: 0,
       state: 'tracking',
     };
@@ -330,6 +514,9 @@ export class SLAMSystem {
       return result;
     }
 
+    // Visual rotation before fusion for camera-IMU calibration
+    this.vio?.addCalibrationFrame(context.timestamp, result.pose.rotation);
+
     // Fuse with IMU if VIO enabled
     if (this.vio && this.vio.isInitialized()) {
       const fusedPose = this.vio.fusePose(result.pose);
@@ -337,7 +524,8 @@ export class SLAMSystem {
       this.tracker.updatePose(fusedPose);
     }
 
-    // Try to create keyframe
+    // Try to create keyframe (local mapping is queued, not awaited)
+    const mappingStart = performance.now();
     const keyframe = this.mapper.tryCreateKeyframe({
       timestamp: context.timestamp,
       pose: result.pose,
@@ -346,8 +534,20 @@ export class SLAMSystem {
       numTrackedFeatures: result.numTrackedFeatures,
     });
 
+    this.lastMappingTime = performance.now() - mappingStart;
+    this.stats.lastFrameMappingTime = this.lastMappingTime;
+
     if (keyframe) {
       this.logger.info(`Created keyframe #${keyframe.id}`);
+
+      if (this.vio && this.handleVIOKeyframe(keyframe)) {
+        result.pose = this.tracker.getCurrentPose() ?? result.pose;
+      }
+
+      if (this.tryMergeMap(keyframe)) {
+        result.pose = this.tracker.getCurrentPose() ?? result.pose;
+      }
+      this.anchors.tryResolve(keyframe);
     }
 
     return result;
@@ -376,6 +576,37 @@ export class SLAMSystem {
     this.vio.addIMUMeasurement(measurement);
   }
 
+  /**
+   * Start recording for camera-IMU calibration
+   * Rotate the device about all axes for a few seconds while tracking.
+   */
+  startCameraIMUCalibration(config?: CameraIMUCalibratorConfig): void {
+    if (!this.vio) {
+      throw new Error('VIO not enabled');
+    }
+
+    this.vio.startCalibration(config);
+  }
+
+  /**
+   * Estimate, apply and persist the camera-IMU calibration
+   * Returns null if the recorded motion was insufficient.
+   */
+  finishCameraIMUCalibration(): CameraIMUCalibration | null {
+    if (!this.vio) {
+      throw new Error('VIO not enabled');
+    }
+
+    const calibration = this.vio.finishCalibration();
+    if (calibration) {
+      this.logger.info(
+        `Camera-IMU calibration: time offset ${calibration.timeOffset.toFixed(1)} ms, ` +
+          `RMS ${calibration.rmsError.toFixed(4)} rad/s`
+      );
+    }
+    return calibration;
+  }
+
   /**
    * Get current pose
    */
@@ -430,11 +661,14 @@ export class SLAMSystem {
     // Load map
     const loadedMap = await this.persistence.loadMap(id);
 
-    // Replace current map
+    // Replace current map (anchors belong to the replaced map)
     this.map = loadedMap;
+    this.anchors.removeAllListeners();
+    this.anchors = this.createAnchorManager();
 
     // Reset mapper with new map
-    this.mapper = new SLAMMapper(this.map, this.config, this.intrinsics!);
+    this.mapper.removeAllListeners();
+    this.mapper = this.createMapper(this.intrinsics!);
     this.mapper.reset();
 
     // Reset tracker with new map
@@ -460,6 +694,67 @@ export class SLAMSystem {
     this.logger.info(`Map loaded: ${id} (${keyframes.length} keyframes)`);
   }
 
+  /**
+   * Load a stored map and merge it into the live map
+   *
+   * Tracking continues in the live map. Once a new keyframe relocalizes
+   * against the stored map, the live map is aligned to the stored map's
+   * frame and both are merged ('slam:map-merged' is emitted), so content
+   * placed in the stored session keeps its coordinates.
+   */
+  async mergeMap(id: string): Promise<void> {
+    if (!this.persistence) {
+      throw new Error('Map persistence not enabled');
+    }
+
+    await this.persistence.loadMapForMerge(id);
+
+    // The latest keyframe may already see the stored map
+    const latest = this.map.getRecentKeyframes(1)[0];
+    if (latest) {
+      this.tryMergeMap(latest);
+    }
+  }
+
+  /**
+   * Create an anchor at a world pose
+   * The anchor follows map corrections ('slam:anchor-updated').
+   */
+  createAnchor(position: Vector3, rotation: Quaternion): SLAMAnchor {
+    return this.anchors.createAnchor(position, rotation);
+  }
+
+  /**
+   * Serialize an anchor with its surrounding map fragment for sharing
+   */
+  async hostAnchor(id: string, serializer?: AnchorSerializer): Promise<Uint8Array> {
+    return await this.anchors.hostAnchor(id, serializer);
+  }
+
+  /**
+   * Resolve a hosted anchor in the live map
+   * 'slam:anchor-resolved' is emitted once a keyframe relocalizes against it.
+   *
+   * @returns Anchor ID
+   */
+  async resolveAnchor(data: Uint8Array, serializer?: AnchorSerializer): Promise<string> {
+    return await this.anchors.resolveAnchor(data, serializer);
+  }
+
+  /**
+   * Get all tracked anchors
+   */
+  getAnchors(): SLAMAnchor[] {
+    return this.anchors.getAnchors();
+  }
+
+  /**
+   * Remove an anchor or stop resolving it
+   */
+  removeAnchor(id: string): void {
+    this.anchors.removeAnchor(id);
+  }
+
   /**
    * Delete map from storage
    */
@@ -498,6 +793,18 @@ export class SLAMSystem {
     return await this.persistence.getStorageStats();
   }
 
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.mappingPool.destroy();
+    this.mapper.removeAllListeners();
+    this.anchors.removeAllListeners();
+    this.vio?.destroy();
+    this.persistence?.destroy();
+    this.removeAllListeners();
+  }
+
   /**
    * Update FPS counter
    */
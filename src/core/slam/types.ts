@@ -6,6 +6,8 @@
 import type { Matrix4 } from '../math/matrix';
 import type { Quaternion } from '../math/quaternion';
 import type { Vector3 } from '../math/vector';
+import type { Sim3 } from '../math/sim3';
+import type { CameraIntrinsics } from '../camera/camera-intrinsics';
 
 /**
  * 3D Point in the map
@@ -34,6 +36,18 @@ export interface Keyframe {
   covisibleKeyframes: number[]; // Keyframe IDs with shared map points
   mapPoints: number[]; // Map point IDs visible in this keyframe
   intrinsics: CameraIntrinsics;
+  imu?: KeyframeInertialData; // Set once visual-inertial tracking is initialized
+}
+
+/**
+ * Inertial state of a keyframe
+ */
+export interface KeyframeInertialData {
+  velocity: Vector3; // World frame (m/s)
+  gyroBias: Vector3;
+  accelBias: Vector3;
+  preintegration: PreintegratedIMU | null; // Motion since the previous keyframe
+  previousKeyframeId: number | null;
 }
 
 /**
@@ -61,13 +75,7 @@ export interface KeyframeFeature {
 /**
  * Camera intrinsics (compatible with PoseEstimator)
  */
-export interface CameraIntrinsics {
-  fx: number; // Focal length x
-  fy: number; // Focal length y
-  cx: number; // Principal point x
-  cy: number; // Principal point y
-  distortion?: number[]; // Distortion coefficients
-}
+export type { CameraIntrinsics };
 
 /**
  * IMU measurement
@@ -78,6 +86,52 @@ export interface IMUMeasurement {
   gyroscope: Vector3; // rad/s
 }
 
+/**
+ * Camera-IMU extrinsic rotation and clock offset
+ */
+export interface CameraIMUCalibration {
+  cameraFromIMU: Quaternion; // Rotation from IMU (device) frame to camera frame
+  timeOffset: number; // IMU clock minus camera clock (ms)
+  gyroBias: Vector3; // Residual gyroscope bias during the recording (IMU frame)
+  rmsError: number; // Angular rate residual (rad/s)
+  correlation: number; // Rate magnitude correlation at the offset
+  numSamples: number;
+  createdAt: number;
+}
+
+/**
+ * IMU readings preintegrated between two keyframes (camera frame)
+ * Plain data, so it can be stored on keyframes and posted to workers.
+ */
+export interface PreintegratedIMU {
+  dt: number; // Integration time (seconds)
+  deltaRotation: Quaternion; // ΔR_ij
+  deltaVelocity: Vector3; // Δv_ij
+  deltaPosition: Vector3; // Δp_ij
+  gyroBias: Vector3; // Bias the readings were integrated with
+  accelBias: Vector3;
+  // Bias Jacobians (3x3)
+  jacobians: {
+    rotationGyro: number[][];
+    velocityGyro: number[][];
+    velocityAccel: number[][];
+    positionGyro: number[][];
+    positionAccel: number[][];
+  };
+  covariance: number[][]; // 9x9, order [δφ, δv, δp]
+}
+
+/**
+ * Gravity and metric scale estimated by visual-inertial initialization
+ */
+export interface InertialInitializationResult {
+  gravity: Vector3; // World frame, |g| = 9.81 m/s²
+  scale: number; // Metric / visual
+  gyroBias: Vector3;
+  accelBias: Vector3;
+  velocities: Map<number, Vector3>; // Metric keyframe velocities by keyframe ID
+}
+
 /**
  * Camera pose with velocity (for VIO)
  */
@@ -100,6 +154,69 @@ export interface LoopClosureCandidate {
   inliers: number; // Number of RANSAC inliers (geometric verification)
 }
 
+/**
+ * Result of a loop closure correction (pose graph optimization)
+ */
+export interface LoopClosureCorrection {
+  queryKeyframeId: number;
+  loopKeyframeId: number;
+  corrections: Map<number, Sim3>; // Keyframe ID -> applied correction (T_new * T_old^-1)
+  numMapPointsCorrected: number;
+  numEdges: number;
+  iterations: number;
+  initialError: number;
+  finalError: number;
+}
+
+/**
+ * Result of merging a stored map into the live map
+ */
+export interface MapMergeResult {
+  queryKeyframeId: number; // Live keyframe that relocalized
+  matchedKeyframeId: number; // Matched keyframe in the stored map (stored ID)
+  transform: Sim3; // Applied to the live map (live frame -> stored frame)
+  inliers: number; // Sim(3) inliers
+  keyframeIds: Map<number, number>; // Stored keyframe ID -> merged ID
+  numKeyframesMerged: number;
+  numMapPointsMerged: number;
+  numMapPointsFused: number; // Live points replaced by stored duplicates
+}
+
+/**
+ * Anchor attached to the SLAM map
+ * The pose moves with the reference keyframe when the map is corrected.
+ */
+export interface SLAMAnchor {
+  id: string;
+  position: Vector3; // World position
+  rotation: Quaternion; // World orientation
+  keyframeId: number; // Reference keyframe
+  resolved: boolean; // Resolved from a hosted anchor
+  createdAt: number;
+}
+
+/**
+ * Anchor shared with other sessions or devices
+ */
+export interface HostedAnchor {
+  id: string;
+  fragment: SerializedMap; // Keyframes and map points around the anchor, in the anchor's frame
+}
+
+/**
+ * SLAM Events
+ */
+export interface SLAMEvents {
+  'slam:loop-closed': [correction: LoopClosureCorrection];
+  'slam:map-merged': [result: MapMergeResult];
+  'slam:anchor-resolved': [anchor: SLAMAnchor];
+  'slam:anchor-updated': [anchor: SLAMAnchor];
+  'slam:inertial-initialized': [result: InertialInitializationResult];
+
+  // Index signature for extensibility
+  [key: string]: unknown[];
+}
+
 /**
  * SLAM Map
  */
@@ -212,12 +329,13 @@ export interface SerializedMap {
         position: [number, number, number];
         rotation: [number, number, number, number]; // Quaternion (x, y, z, w)
       };
+      intrinsics?: CameraIntrinsics; // Missing in maps saved before format version 2
       features: Array<{
         x: number;
         y: number;
         octave: number;
         angle: number;
-        descriptor: number[]; // Base64 encoded in actual storage
+        descriptor: number[]; // Packed into a binary section in storage (see map-codec)
         mapPointId: number | null;
       }>;
       covisibleKeyframes: number[];
@@ -226,7 +344,7 @@ export interface SerializedMap {
     mapPoints: Array<{
       id: number;
       position: [number, number, number];
-      descriptor: number[]; // Base64 encoded
+      descriptor: number[]; // Packed into a binary section in storage
       observations: number[];
       normal: [number, number, number];
       minDistance: number;
@@ -1,11 +1,36 @@
 /**
  * VIO Manager
  * Handles Visual-Inertial Odometry: IMU integration and sensor fusion
+ *
+ * IMU readings drive the EKF prediction and are also preintegrated between
+ * keyframes. Once enough keyframes are collected, visual-inertial alignment
+ * recovers gravity and metric scale; from then on the preintegrated motion
+ * constrains local bundle adjustment.
+ *
+ * Readings are rotated into the camera frame and shifted onto the camera
+ * clock using the camera-IMU calibration, which is persisted after a
+ * calibration run (see startCalibration).
  */
 
-import type { SLAMConfig, CameraPose, IMUMeasurement } from './types';
+import type {
+  SLAMConfig,
+  CameraPose,
+  IMUMeasurement,
+  Keyframe,
+  InertialInitializationResult,
+  CameraIMUCalibration,
+} from './types';
 import { ExtendedKalmanFilter, type EKFState } from './extended-kalman-filter';
 import { IMUManager } from './imu-manager';
+import { IMUPreintegrator, type IMUPreintegratorConfig } from './imu-preintegration';
+import { InertialInitializer, type InertialInitializerConfig } from './inertial-initializer';
+import {
+  CameraIMUCalibrator,
+  saveCameraIMUCalibration,
+  loadCameraIMUCalibration,
+  type CameraIMUCalibratorConfig,
+  type CalibrationStorage,
+} from './camera-imu-calibration';
 import { Vector3 } from '../math/vector';
 import { Quaternion } from '../math/quaternion';
 import {
@@ -20,6 +45,25 @@ import {
   IMU_MAX_TIME_DELTA_SEC,
 } from '../constants';
 
+export interface VIOManagerOptions {
+  // Rotation from the IMU (device) frame to the camera frame.
+  // Default: rear camera, 180° about x (device y up / z to the user,
+  // camera y down / z into the scene). Ignored when a calibration is used.
+  cameraFromIMU?: Quaternion;
+
+  // Camera-IMU calibration (defaults to the persisted one, if any)
+  calibration?: CameraIMUCalibration;
+
+  // Where calibrations are persisted (localStorage by default)
+  calibrationStorage?: CalibrationStorage;
+
+  // Sensor noise for preintegration
+  preintegration?: IMUPreintegratorConfig;
+
+  // Visual-inertial alignment
+  initializer?: InertialInitializerConfig;
+}
+
 /**
  * VIO Manager
  * Responsible for fusing visual and inertial measurements
@@ -30,7 +74,38 @@ export class VIOManager {
   private initialized = false;
   private lastUpdateTime = 0;
 
-  constructor(private config: Required<SLAMConfig>) {
+  // Keyframe preintegration (camera frame, measurement timestamps in ms)
+  private cameraFromIMU: Quaternion;
+  private timeOffset = 0;
+  private calibration: CameraIMUCalibration | null = null;
+  private calibrationStorage?: CalibrationStorage;
+  private calibrator: CameraIMUCalibrator | null = null;
+  private preintegrationConfig: IMUPreintegratorConfig;
+  private inertialInitializer: InertialInitializer;
+  private measurements: IMUMeasurement[] = [];
+  private lastKeyframe: Keyframe | null = null;
+  private gravity: Vector3 | null = null;
+  private gyroBias = new Vector3(0, 0, 0);
+  private accelBias = new Vector3(0, 0, 0);
+
+  constructor(
+    private config: Required<SLAMConfig>,
+    options: VIOManagerOptions = {}
+  ) {
+    this.cameraFromIMU = (options.cameraFromIMU ?? Quaternion.fromAxisAngle(new Vector3(1, 0, 0), Math.PI)).normalize();
+    // Per-sample noise to noise density
+    this.preintegrationConfig = options.preintegration ?? {
+      gyroscopeNoise: config.gyroscopeNoise / Math.sqrt(config.imuFrequency),
+      accelerometerNoise: config.accelerometerNoise / Math.sqrt(config.imuFrequency),
+    };
+    this.inertialInitializer = new InertialInitializer(options.initializer);
+
+    this.calibrationStorage = options.calibrationStorage;
+    const calibration = options.calibration ?? loadCameraIMUCalibration(this.calibrationStorage);
+    if (calibration) {
+      this.setCalibration(calibration);
+    }
+
     // Create initial EKF state
     const initialState: EKFState = {
       position: new Vector3(0, 0, 0),
@@ -80,6 +155,7 @@ export class VIOManager {
       // Set up measurement callback
       this.imuManager.onMeasurement((measurement) => {
         this.handleIMUMeasurement(measurement);
+        this.bufferMeasurement(measurement);
       });
 
       this.initialized = true;
@@ -115,6 +191,19 @@ export class VIOManager {
     this.lastUpdateTime = now;
   }
 
+  /**
+   * Buffer a reading in the camera frame for keyframe preintegration
+   */
+  private bufferMeasurement(measurement: IMUMeasurement): void {
+    this.calibrator?.addIMUMeasurement(measurement);
+
+    this.measurements.push({
+      timestamp: measurement.timestamp - this.timeOffset,
+      gyroscope: this.cameraFromIMU.rotateVector(measurement.gyroscope),
+      accelerometer: this.cameraFromIMU.rotateVector(measurement.accelerometer),
+    });
+  }
+
   /**
    * Add IMU measurement to buffer (for external IMU data)
    *
@@ -125,6 +214,152 @@ export class VIOManager {
 
     // Process measurement directly
     this.handleIMUMeasurement(measurement);
+    this.bufferMeasurement(measurement);
+  }
+
+  /**
+   * Preintegrate the readings since the previous keyframe and attach them
+   *
+   * Keyframe timestamps must use the IMU measurement clock (ms). After
+   * inertial initialization the keyframe velocity is predicted from the
+   * previous keyframe.
+   */
+  addKeyframe(keyframe: Keyframe): void {
+    const previous = this.lastKeyframe;
+    this.lastKeyframe = keyframe;
+
+    if (!previous || keyframe.timestamp <= previous.timestamp) {
+      keyframe.imu = {
+        velocity: new Vector3(0, 0, 0),
+        gyroBias: this.gyroBias.clone(),
+        accelBias: this.accelBias.clone(),
+        preintegration: null,
+        previousKeyframeId: null,
+      };
+      this.measurements = this.measurements.filter(m => m.timestamp >= keyframe.timestamp);
+      return;
+    }
+
+    // Biases refined by visual-inertial bundle adjustment
+    if (this.gravity && previous.imu) {
+      this.gyroBias = previous.imu.gyroBias.clone();
+      this.accelBias = previous.imu.accelBias.clone();
+    }
+
+    const preintegrator = new IMUPreintegrator(this.preintegrationConfig, this.gyroBias, this.accelBias);
+    for (const measurement of this.measurements) {
+      if (measurement.timestamp < previous.timestamp) {continue;}
+      if (measurement.timestamp > keyframe.timestamp) {break;}
+      preintegrator.addMeasurement(measurement);
+    }
+    this.measurements = this.measurements.filter(m => m.timestamp >= keyframe.timestamp);
+
+    const preintegration = preintegrator.getMeasurementCount() > 0 ? preintegrator.getResult() : null;
+
+    // v_j = v_i + g dt + R_i Δv
+    let velocity = new Vector3(0, 0, 0);
+    if (this.gravity && preintegration && previous.imu) {
+      velocity = previous.imu.velocity
+        .add(this.gravity.multiply(preintegration.dt))
+        .add(previous.pose.rotation.rotateVector(preintegration.deltaVelocity));
+    }
+
+    keyframe.imu = {
+      velocity,
+      gyroBias: this.gyroBias.clone(),
+      accelBias: this.accelBias.clone(),
+      preintegration,
+      previousKeyframeId: preintegration ? previous.id : null,
+    };
+  }
+
+  /**
+   * Try visual-inertial alignment over keyframes in chronological order
+   *
+   * @returns Gravity, metric scale, velocities and gyroscope bias once
+   *          initialized; null while there is not enough motion
+   */
+  tryInitializeInertial(keyframes: Keyframe[]): InertialInitializationResult | null {
+    if (this.gravity) {return null;}
+
+    const result = this.inertialInitializer.initialize(keyframes);
+    if (!result) {return null;}
+
+    this.gravity = result.gravity.clone();
+    this.gyroBias = result.gyroBias.clone();
+    this.accelBias = result.accelBias.clone();
+    return result;
+  }
+
+  /**
+   * Use a camera-IMU calibration for subsequent readings
+   */
+  setCalibration(calibration: CameraIMUCalibration): void {
+    this.calibration = calibration;
+    this.cameraFromIMU = calibration.cameraFromIMU.clone().normalize();
+    this.timeOffset = calibration.timeOffset;
+  }
+
+  /**
+   * Current camera-IMU calibration (null if the default rotation is used)
+   */
+  getCalibration(): CameraIMUCalibration | null {
+    return this.calibration;
+  }
+
+  /**
+   * Start recording for camera-IMU calibration
+   * Feed tracked rotations with {@link addCalibrationFrame}; rotate the device
+   * about all axes for a few seconds, then call {@link finishCalibration}.
+   */
+  startCalibration(config?: CameraIMUCalibratorConfig): void {
+    this.calibrator = new CameraIMUCalibrator(config);
+  }
+
+  /**
+   * Record a visually tracked camera rotation while calibrating
+   *
+   * @param timestamp Camera clock (ms)
+   * @param rotation Camera-to-world rotation from visual tracking (not fused)
+   */
+  addCalibrationFrame(timestamp: number, rotation: Quaternion): void {
+    this.calibrator?.addVisualRotation(timestamp, rotation);
+  }
+
+  /**
+   * Whether a calibration recording is running
+   */
+  isCalibrating(): boolean {
+    return this.calibrator !== null;
+  }
+
+  /**
+   * Stop recording, then estimate, apply and persist the calibration
+   * Returns null (keeping the current calibration) if the motion was insufficient.
+   */
+  finishCalibration(): CameraIMUCalibration | null {
+    const calibrator = this.calibrator;
+    this.calibrator = null;
+    if (!calibrator) {return null;}
+
+    const calibration = calibrator.calibrate();
+    if (!calibration) {return null;}
+
+    this.setCalibration(calibration);
+    try {
+      saveCameraIMUCalibration(calibration, this.calibrationStorage);
+    } catch (error) {
+      console.warn('[VIOManager] Could not persist camera-IMU calibration:', error);
+    }
+
+    return calibration;
+  }
+
+  /**
+   * Gravity in the map frame (null until inertial initialization)
+   */
+  getGravity(): Vector3 | null {
+    return this.gravity ? this.gravity.clone() : null;
   }
 
   /**
@@ -197,6 +432,11 @@ export class VIOManager {
     });
 
     this.lastUpdateTime = performance.now();
+    this.measurements = [];
+    this.lastKeyframe = null;
+    this.gravity = null;
+    this.gyroBias = new Vector3(0, 0, 0);
+    this.accelBias = new Vector3(0, 0, 0);
 
     console.log('[VIOManager] VIO state reset');
   }
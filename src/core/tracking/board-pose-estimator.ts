@@ -0,0 +1,134 @@
+/**
+ * Board Pose Estimator
+ * Solves a single pose for a marker board from all of its visible markers
+ *
+ * Every corner of every detected board marker (plus interpolated chessboard
+ * corners on ChArUco boards) becomes a 2D-3D correspondence; RANSAC + EPnP
+ * over all of them is far more stable than any single-marker pose.
+ */
+
+import { Vector3 } from '../math/vector';
+import type { DetectedMarker } from '../detection/marker-detector';
+import {
+  interpolateCharucoCorners,
+  matchBoardMarkers,
+  type MarkerBoard,
+  type CharucoCorner,
+} from '../detection/marker-board';
+import { RANSACPose, type RANSACConfig } from './ransac-pose';
+import type { Pose } from './pose-estimator';
+import { undistortMarkerCorners, type CameraIntrinsics } from '../camera/camera-intrinsics';
+
+export interface BoardPoseEstimatorConfig {
+  // Minimum detected board markers to attempt a pose
+  minMarkers?: number;
+
+  // Max reprojection error for RANSAC inliers (pixels)
+  inlierThreshold?: number;
+
+  // Add interpolated chessboard corners on ChArUco boards
+  useCharucoCorners?: boolean;
+
+  // Detected neighbours required per interpolated chessboard corner (1 or 2)
+  minAdjacentMarkers?: number;
+
+  // Remaining RANSAC settings (inlierThreshold above takes precedence)
+  ransacConfig?: RANSACConfig;
+}
+
+export interface BoardPose extends Pose {
+  markerIds: number[]; // Board markers used for the pose
+  charucoCorners: CharucoCorner[]; // Interpolated chessboard corners, undistorted pixels (ChArUco only)
+  numCorrespondences: number;
+  inliers: number[]; // Indices into the correspondences (marker corners first)
+}
+
+export class BoardPoseEstimator {
+  private intrinsics: CameraIntrinsics;
+  private config: Required<Omit<BoardPoseEstimatorConfig, 'ransacConfig'>>;
+  private ransac: RANSACPose;
+
+  constructor(intrinsics: CameraIntrinsics, config: BoardPoseEstimatorConfig = {}) {
+    this.intrinsics = intrinsics;
+    this.config = {
+      minMarkers: config.minMarkers ?? 1,
+      inlierThreshold: config.inlierThreshold ?? 3.0,
+      useCharucoCorners: config.useCharucoCorners ?? true,
+      minAdjacentMarkers: config.minAdjacentMarkers ?? 1,
+    };
+
+    this.ransac = new RANSACPose({
+      maxIterations: 200,
+      ...config.ransacConfig,
+      inlierThreshold: this.config.inlierThreshold / intrinsics.fx,
+    });
+  }
+
+  /**
+   * Estimate the board pose (board-to-camera) from detected markers
+   *
+   * @returns Pose or null if too few board markers are visible
+   */
+  estimatePose(board: MarkerBoard, markers: DetectedMarker[]): BoardPose | null {
+    // Undistort first so ChArUco interpolation sees a pinhole image
+    const detected = markers.map(m => ({ ...m, corners: undistortMarkerCorners(this.intrinsics, m.corners) }));
+    const matches = matchBoardMarkers(board, detected);
+    if (matches.length === 0 || matches.length < this.config.minMarkers) {
+      return null;
+    }
+
+    const objectPoints: Vector3[] = [];
+    const imagePoints: Array<[number, number]> = [];
+
+    for (const { layout, detection } of matches) {
+      const { topLeft, topRight, bottomRight, bottomLeft } = detection.corners;
+      objectPoints.push(...layout.corners);
+      imagePoints.push(topLeft, topRight, bottomRight, bottomLeft);
+    }
+
+    let charucoCorners: CharucoCorner[] = [];
+    if (board.type === 'charuco') {
+      charucoCorners = interpolateCharucoCorners(board, detected, this.config.minAdjacentMarkers);
+      if (this.config.useCharucoCorners) {
+        for (const corner of charucoCorners) {
+          objectPoints.push(board.chessboardCorners[corner.id]);
+          imagePoints.push(corner.position);
+        }
+      }
+    }
+
+    const normalizedPoints = imagePoints.map(([x, y]) =>
+      new Vector3(
+        (x - this.intrinsics.cx) / this.intrinsics.fx,
+        (y - this.intrinsics.cy) / this.intrinsics.fy,
+        1.0
+      ).normalize()
+    );
+
+    const result = this.ransac.estimatePose(objectPoints, normalizedPoints);
+    if (!result) {
+      return null;
+    }
+
+    return {
+      position: result.position,
+      rotation: result.rotation,
+      matrix: result.matrix,
+      reprojectionError: result.reprojectionError * this.intrinsics.fx,
+      inlierRatio: result.inlierRatio,
+      refinementMethod: 'ransac',
+      markerIds: matches.map(m => m.layout.id),
+      charucoCorners,
+      numCorrespondences: objectPoints.length,
+      inliers: result.inliers,
+    };
+  }
+
+  /**
+   * Update camera intrinsics
+   */
+  updateIntrinsics(intrinsics: CameraIntrinsics): void {
+    this.intrinsics = intrinsics;
+    this.ransac.updateConfig({ inlierThreshold: this.config.inlierThreshold / intrinsics.fx });
+  }
+}
@@ -9,13 +9,14 @@
  * Key advantages:
  * - O(n) complexity (linear in number of points)
  * - Handles arbitrary number of points (minimum 4)
- * - No iterative optimization needed
- * - Numerically stable
+ * - Planar point sets use 3 control points
+ * - Closed-form solution, polished with a few Gauss-Newton steps
  */
 
 import { Vector3 } from '../math/vector';
 import { Matrix4 } from '../math/matrix';
 import { Quaternion } from '../math/quaternion';
+import { Matrix } from '../math/matrix-ops';
 
 export interface EPnPResult {
   position: Vector3;
@@ -24,6 +25,20 @@ export interface EPnPResult {
   reprojectionError: number;
 }
 
+/**
+ * Camera-from-object rigid transform (row-major rotation)
+ */
+interface RigidTransform {
+  R: number[][];
+  t: number[];
+}
+
+/** Relative eigenvalue below which the point set is treated as planar */
+const PLANAR_EIGENVALUE_RATIO = 1e-8;
+
+/** Gauss-Newton iterations for beta and pose refinement */
+const REFINEMENT_ITERATIONS = 10;
+
 export class EPnP {
   /**
    * Solve PnP problem using EPnP algorithm
@@ -41,572 +56,411 @@ export class EPnP {
       return null;
     }
 
-    // Step 1: Express 3D points as weighted sum of 4 control points
+    // Image points may be homogeneous or unit bearing vectors
+    const uv: Array<[number, number]> = [];
+    for (const p of imagePoints) {
+      if (Math.abs(p.z) < 1e-12) {return null;}
+      uv.push([p.x / p.z, p.y / p.z]);
+    }
+
+    // Step 1: Express 3D points as weighted sum of control points
     const controlPoints = this.chooseControlPoints(objectPoints);
+    if (!controlPoints) {return null;}
     const alphas = this.computeBarycentricCoordinates(objectPoints, controlPoints);
 
-    // Step 2: Compute M matrix (2n × 12)
-    const M = this.computeMMatrix(imagePoints, alphas);
+    // Step 2: Compute M matrix (2n × 3k)
+    const M = this.computeMMatrix(uv, alphas);
 
-    // Step 3: Find null space of M using SVD (last 4 right singular vectors)
-    const nullSpace = this.computeNullSpace(M);
+    // Step 3: Null space of M (eigenvectors of MᵀM with smallest eigenvalues)
+    const nullSpace = this.computeNullSpace(M, controlPoints.length);
 
-    // Step 4: Solve for beta coefficients (N=1,2,3,4 solutions)
-    // Try N=4 first (most accurate), fallback to N=3,2,1
-    let bestSolution: EPnPResult | null = null;
+    // Step 4: Solve for beta coefficients (N=1..k) and keep the best pose
+    let best: RigidTransform | null = null;
     let bestError = Infinity;
 
-    for (let N = 4; N >= 1; N--) {
-      const solution = this.solveForN(N, nullSpace, controlPoints, imagePoints, alphas);
-      if (solution && solution.reprojectionError < bestError) {
-        bestSolution = solution;
-        bestError = solution.reprojectionError;
+    for (let N = 1; N <= nullSpace.length; N++) {
+      const betas = this.solveBetas(N, nullSpace, controlPoints);
+      const transform = this.computeTransformation(objectPoints, alphas, nullSpace, betas);
+      if (!transform) {continue;}
+
+      const error = this.computeReprojectionError(objectPoints, uv, transform);
+      if (error < bestError) {
+        best = transform;
+        bestError = error;
       }
     }
 
-    return bestSolution;
+    if (!best) {
+      return null;
+    }
+
+    // Step 5: Minimize reprojection error
+    best = this.refinePose(objectPoints, uv, best);
+    return this.toResult(best, this.computeReprojectionError(objectPoints, uv, best));
   }
 
   /**
-   * Choose 4 control points from object points
-   * Control points form a tetrahedron that spans the point cloud
+   * Choose control points: centroid plus principal axes
+   * Planar point sets get 3 control points (the normal axis is unobservable).
    */
-  private static chooseControlPoints(objectPoints: Vector3[]): Vector3[] {
-    // Control point 0: centroid
+  private static chooseControlPoints(objectPoints: Vector3[]): Vector3[] | null {
+    const n = objectPoints.length;
     const centroid = this.computeCentroid(objectPoints);
 
-    // Control points 1-3: principal components (PCA)
-    // Simplified: use extreme points along principal axes
-    const points = objectPoints;
-    const n = points.length;
-
-    // Find point furthest from centroid (control point 1)
-    let maxDist1 = 0;
-    let cp1 = centroid;
-    for (const p of points) {
-      const dist = p.subtract(centroid).length();
-      if (dist > maxDist1) {
-        maxDist1 = dist;
-        cp1 = p;
+    const covariance = Matrix.zeros(3, 3);
+    for (const p of objectPoints) {
+      const d = p.subtract(centroid).toArray();
+      for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+          covariance[r][c] += d[r] * d[c];
+        }
       }
     }
 
-    // Find point furthest from line (centroid, cp1) (control point 2)
-    const axis1 = cp1.subtract(centroid).normalize();
-    let maxDist2 = 0;
-    let cp2 = centroid;
-    for (const p of points) {
-      const v = p.subtract(centroid);
-      const proj = axis1.multiply(v.dot(axis1));
-      const perp = v.subtract(proj);
-      const dist = perp.length();
-      if (dist > maxDist2) {
-        maxDist2 = dist;
-        cp2 = p;
-      }
-    }
+    // Eigenvalues ascending
+    const { values, vectors } = Matrix.symmetricEigen(covariance);
+    if (values[2] <= 0) {return null;}
+    if (values[1] / values[2] < PLANAR_EIGENVALUE_RATIO) {return null;}
 
-    // Find point furthest from plane (centroid, cp1, cp2) (control point 3)
-    const axis2 = cp2.subtract(centroid).normalize();
-    const normal = axis1.cross(axis2).normalize();
-    let maxDist3 = 0;
-    let cp3 = centroid;
-    for (const p of points) {
-      const v = p.subtract(centroid);
-      const dist = Math.abs(v.dot(normal));
-      if (dist > maxDist3) {
-        maxDist3 = dist;
-        cp3 = p;
-      }
-    }
+    const planar = values[0] / values[2] < PLANAR_EIGENVALUE_RATIO;
+    const axes = planar ? [2, 1] : [2, 1, 0];
 
-    return [centroid, cp1, cp2, cp3];
+    return [
+      centroid,
+      ...axes.map(k => {
+        const scale = Math.sqrt(values[k] / n);
+        return centroid.add(new Vector3(vectors[k][0], vectors[k][1], vectors[k][2]).multiply(scale));
+      }),
+    ];
   }
 
   /**
    * Express each 3D point as weighted sum of control points
-   * Returns barycentric coordinates [α0, α1, α2, α3] for each point
+   * Returns barycentric coordinates [α0, ..., αk-1] (summing to 1) for each point
    */
   private static computeBarycentricCoordinates(
     objectPoints: Vector3[],
     controlPoints: Vector3[]
   ): number[][] {
-    const alphas: number[][] = [];
-
-    for (const p of objectPoints) {
-      // Solve: p = α0*c0 + α1*c1 + α2*c2 + α3*c3
-      // with constraint: α0 + α1 + α2 + α3 = 1
-
-      // Use pseudo-inverse for overdetermined system
-      // Simplified: use geometric method
-      const alpha = this.solveBarycentricLS(p, controlPoints);
-      alphas.push(alpha);
-    }
-
-    return alphas;
-  }
-
-  /**
-   * Solve barycentric coordinates using least squares
-   */
-  private static solveBarycentricLS(
-    point: Vector3,
-    controlPoints: Vector3[]
-  ): number[] {
-    // Build 4×4 system with constraint
-    // [c0-c3  c1-c3  c2-c3  0] [α0]   [p-c3]
-    // [  1      1      1    0] [α1] = [  1 ]
-    //                          [α2]
-    //                          [α3]
-
     const c0 = controlPoints[0];
-    const c1 = controlPoints[1];
-    const c2 = controlPoints[2];
-    const c3 = controlPoints[3];
-
-    // Simplified approach: use inverse of control point matrix
-    // For production, use proper QR decomposition or SVD
-
-    // Build matrix A (3×3 + constraint)
-    const A = [
-      c0.x - c3.x, c1.x - c3.x, c2.x - c3.x,
-      c0.y - c3.y, c1.y - c3.y, c2.y - c3.y,
-      c0.z - c3.z, c1.z - c3.z, c2.z - c3.z,
-    ];
 
-    const b = [
-      point.x - c3.x,
-      point.y - c3.y,
-      point.z - c3.z,
-    ];
-
-    // Solve 3×3 system using Cramer's rule (simplified)
-    const det = this.det3x3(A);
-    if (Math.abs(det) < 1e-10) {
-      // Degenerate case: return equal weights
-      return [0.25, 0.25, 0.25, 0.25];
-    }
+    // Control point offsets are orthogonal, so each weight is a projection
+    const axes = controlPoints.slice(1).map(c => c.subtract(c0));
 
-    const alpha0 = this.det3x3([b[0], A[1], A[2], b[1], A[4], A[5], b[2], A[7], A[8]]) / det;
-    const alpha1 = this.det3x3([A[0], b[0], A[2], A[3], b[1], A[5], A[6], b[2], A[8]]) / det;
-    const alpha2 = this.det3x3([A[0], A[1], b[0], A[3], A[4], b[1], A[6], A[7], b[2]]) / det;
-    const alpha3 = 1 - alpha0 - alpha1 - alpha2;
-
-    return [alpha0, alpha1, alpha2, alpha3];
+    return objectPoints.map(p => {
+      const d = p.subtract(c0);
+      const weights = axes.map(axis => d.dot(axis) / axis.dot(axis));
+      return [1 - weights.reduce((s, w) => s + w, 0), ...weights];
+    });
   }
 
   /**
-   * Compute M matrix (2n × 12) for EPnP linear system
+   * Compute M matrix (2n × 3k) for EPnP linear system
    */
   private static computeMMatrix(
-    imagePoints: Vector3[],
+    uv: Array<[number, number]>,
     alphas: number[][]
   ): number[][] {
-    const n = imagePoints.length;
     const M: number[][] = [];
 
-    for (let i = 0; i < n; i++) {
-      const [u, v, _w] = [imagePoints[i].x, imagePoints[i].y, imagePoints[i].z];
-      const [a0, a1, a2, a3] = alphas[i];
+    for (let i = 0; i < uv.length; i++) {
+      const [u, v] = uv[i];
+      const rowU: number[] = [];
+      const rowV: number[] = [];
 
       // Two rows per point correspondence
-      M.push([
-        a0, 0, -a0 * u,  a1, 0, -a1 * u,  a2, 0, -a2 * u,  a3, 0, -a3 * u
-      ]);
-      M.push([
-        0, a0, -a0 * v,  0, a1, -a1 * v,  0, a2, -a2 * v,  0, a3, -a3 * v
-      ]);
+      for (const a of alphas[i]) {
+        rowU.push(a, 0, -a * u);
+        rowV.push(0, a, -a * v);
+      }
+
+      M.push(rowU, rowV);
     }
 
     return M;
   }
 
   /**
-   * Compute null space of M using inverse power iteration
-   * Returns 4 right singular vectors corresponding to smallest singular values
-   *
-   * Mathematical background:
-   * - We need vectors v such that M*v ≈ 0 (null space)
-   * - Equivalent to finding smallest eigenvalues of M^T*M
-   * - Uses inverse power iteration: more stable for small eigenvalues
-   *
-   * @param M - Input matrix (12×12 for EPnP)
-   * @returns Array of 4 null space basis vectors (each 12-dimensional)
+   * Right singular vectors of M with the smallest singular values
+   * (one per control point)
    */
-  private static computeNullSpace(M: number[][]): number[][] {
-    const rows = M.length;
-    const cols = M[0].length;
-
-    // Step 1: Compute M^T * M (symmetric positive semi-definite)
-    const MtM: number[][] = [];
-    for (let i = 0; i < cols; i++) {
-      MtM[i] = [];
-      for (let j = 0; j < cols; j++) {
-        let sum = 0;
-        for (let k = 0; k < rows; k++) {
-          sum += M[k][i] * M[k][j];
-        }
-        MtM[i][j] = sum;
-      }
-    }
-
-    // Step 2: Find 4 smallest eigenvectors using inverse power iteration
-    const nullVectors: number[][] = [];
-    const orthogonalized: number[][] = [];
-
-    for (let n = 0; n < 4; n++) {
-      // Start with random vector
-      let v = Array(cols).fill(0).map(() => Math.random() - 0.5);
+  private static computeNullSpace(M: number[][], count: number): number[][] {
+    const MtM = Matrix.multiply(Matrix.transpose(M), M);
+    const { vectors } = Matrix.symmetricEigen(MtM);
+    return vectors.slice(0, count);
+  }
 
-      // Orthogonalize against previously found vectors
-      for (const prev of orthogonalized) {
-        const dot = this.dotProduct(v, prev);
-        for (let i = 0; i < cols; i++) {
-          v[i] -= dot * prev[i];
-        }
+  /**
+   * Solve the betas for an N-dimensional null space combination
+   * N=1 is closed form; larger N refine it with Gauss-Newton on the
+   * control point distance constraints.
+   */
+  private static solveBetas(
+    N: number,
+    nullSpace: number[][],
+    controlPoints: Vector3[]
+  ): number[] {
+    const pairs: Array<[number, number]> = [];
+    for (let a = 0; a < controlPoints.length; a++) {
+      for (let b = a + 1; b < controlPoints.length; b++) {
+        pairs.push([a, b]);
       }
+    }
+    const distances = pairs.map(([a, b]) => controlPoints[a].distanceTo(controlPoints[b]));
 
-      // Normalize
-      v = this.normalizeVector(v);
-
-      // Inverse power iteration (find smallest eigenvalue)
-      const maxIterations = 50;
-      const tolerance = 1e-8;
-
-      for (let iter = 0; iter < maxIterations; iter++) {
-        // Solve (M^T*M + shift*I) * v_new = v
-        // Using shifted inverse to find smallest eigenvalue
-        const shift = 0.001; // Small shift for numerical stability
-        const shiftedMatrix = this.addShiftToMatrix(MtM, shift);
-
-        // Solve linear system using Gauss elimination
-        const vNew = this.solveLU(shiftedMatrix, v);
+    // Difference vectors of each basis vector for each control point pair
+    const differences = nullSpace.map(v =>
+      pairs.map(([a, b]) => [0, 1, 2].map(k => v[3 * a + k] - v[3 * b + k]))
+    );
 
-        // Orthogonalize against previous vectors
-        for (const prev of orthogonalized) {
-          const dot = this.dotProduct(vNew, prev);
-          for (let i = 0; i < cols; i++) {
-            vNew[i] -= dot * prev[i];
+    // N=1: least squares scale of the first basis vector
+    let numerator = 0;
+    let denominator = 0;
+    pairs.forEach((_, p) => {
+      const d = Math.hypot(...differences[0][p]);
+      numerator += d * distances[p];
+      denominator += d * d;
+    });
+    const betas = new Array(N).fill(0);
+    betas[0] = denominator > 0 ? numerator / denominator : 0;
+
+    for (let iter = 0; iter < REFINEMENT_ITERATIONS && N > 1; iter++) {
+      const JtJ = Matrix.zeros(N, N);
+      const Jtr = new Array(N).fill(0);
+
+      pairs.forEach((_, p) => {
+        // Residual ‖Σ βk dk‖² - d²
+        const diff = [0, 1, 2].map(k => betas.reduce((s, beta, j) => s + beta * differences[j][p][k], 0));
+        const residual = diff[0] ** 2 + diff[1] ** 2 + diff[2] ** 2 - distances[p] ** 2;
+        const J = differences.slice(0, N).map(dj => 2 * (diff[0] * dj[p][0] + diff[1] * dj[p][1] + diff[2] * dj[p][2]));
+
+        for (let r = 0; r < N; r++) {
+          Jtr[r] += J[r] * residual;
+          for (let c = 0; c < N; c++) {
+            JtJ[r][c] += J[r] * J[c];
           }
         }
+      });
 
-        // Normalize
-        const normalized = this.normalizeVector(vNew);
-
-        // Check convergence
-        let diff = 0;
-        for (let i = 0; i < cols; i++) {
-          diff += Math.abs(normalized[i] - v[i]);
-        }
-
-        v = normalized;
-
-        if (diff < tolerance) {
-          break;
-        }
+      for (let r = 0; r < N; r++) {
+        JtJ[r][r] += 1e-12;
+      }
+      let step: number[];
+      try {
+        step = Matrix.solveCholesky(JtJ, Jtr);
+      } catch {
+        break;
       }
+      if (!step.every(Number.isFinite)) {break;}
 
-      orthogonalized.push([...v]);
-      nullVectors.push(v);
+      for (let r = 0; r < N; r++) {
+        betas[r] -= step[r];
+      }
+      if (Math.hypot(...step) < 1e-12) {break;}
     }
 
-    return nullVectors;
+    return betas;
   }
 
   /**
-   * Solve linear system Ax = b using LU decomposition
+   * Recover camera-frame points from the betas and align the object points
+   * to them (Kabsch)
    */
-  private static solveLU(A: number[][], b: number[]): number[] {
-    const n = A.length;
-    const L: number[][] = Array(n).fill(0).map(() => Array(n).fill(0));
-    const U: number[][] = Array(n).fill(0).map(() => Array(n).fill(0));
-
-    // LU decomposition
-    for (let i = 0; i < n; i++) {
-      // Upper triangular
-      for (let k = i; k < n; k++) {
-        let sum = 0;
-        for (let j = 0; j < i; j++) {
-          sum += L[i][j] * U[j][k];
-        }
-        U[i][k] = A[i][k] - sum;
+  private static computeTransformation(
+    objectPoints: Vector3[],
+    alphas: number[][],
+    nullSpace: number[][],
+    betas: number[]
+  ): RigidTransform | null {
+    const k = alphas[0].length;
+    const control: number[] = new Array(3 * k).fill(0);
+    betas.forEach((beta, j) => {
+      for (let i = 0; i < 3 * k; i++) {
+        control[i] += beta * nullSpace[j][i];
       }
+    });
 
-      // Lower triangular
-      for (let k = i; k < n; k++) {
-        if (i === k) {
-          L[i][i] = 1;
-        } else {
-          let sum = 0;
-          for (let j = 0; j < i; j++) {
-            sum += L[k][j] * U[j][i];
-          }
-          if (Math.abs(U[i][i]) < 1e-10) {
-            L[k][i] = 0; // Avoid division by zero
-          } else {
-            L[k][i] = (A[k][i] - sum) / U[i][i];
-          }
+    let cameraPoints = alphas.map(a => {
+      const p = [0, 0, 0];
+      for (let j = 0; j < k; j++) {
+        for (let c = 0; c < 3; c++) {
+          p[c] += a[j] * control[3 * j + c];
         }
       }
-    }
+      return p;
+    });
 
-    // Forward substitution: Ly = b
-    const y: number[] = Array(n).fill(0);
-    for (let i = 0; i < n; i++) {
-      let sum = 0;
-      for (let j = 0; j < i; j++) {
-        sum += L[i][j] * y[j];
-      }
-      y[i] = b[i] - sum;
+    // Points must lie in front of the camera
+    if (cameraPoints.reduce((s, p) => s + p[2], 0) < 0) {
+      cameraPoints = cameraPoints.map(p => p.map(v => -v));
     }
 
-    // Back substitution: Ux = y
-    const x: number[] = Array(n).fill(0);
-    for (let i = n - 1; i >= 0; i--) {
-      let sum = 0;
-      for (let j = i + 1; j < n; j++) {
-        sum += U[i][j] * x[j];
-      }
-      if (Math.abs(U[i][i]) < 1e-10) {
-        x[i] = 0; // Singular matrix, set to zero
-      } else {
-        x[i] = (y[i] - sum) / U[i][i];
-      }
-    }
-
-    return x;
-  }
-
-  /**
-   * Add shift to diagonal of matrix (for inverse power iteration)
-   */
-  private static addShiftToMatrix(M: number[][], shift: number): number[][] {
-    const n = M.length;
-    const shifted: number[][] = [];
+    const n = objectPoints.length;
+    const objectCentroid = this.computeCentroid(objectPoints).toArray();
+    const cameraCentroid = [0, 1, 2].map(c => cameraPoints.reduce((s, p) => s + p[c], 0) / n);
 
+    // Cross-covariance Σ (pc - p̄c)(pw - p̄w)^T
+    const H = Matrix.zeros(3, 3);
     for (let i = 0; i < n; i++) {
-      shifted[i] = [];
-      for (let j = 0; j < n; j++) {
-        shifted[i][j] = M[i][j] + (i === j ? shift : 0);
+      const w = objectPoints[i].toArray();
+      for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+          H[r][c] += (cameraPoints[i][r] - cameraCentroid[r]) * (w[c] - objectCentroid[c]);
+        }
       }
     }
 
-    return shifted;
-  }
+    const { U, S, V } = Matrix.svd(H);
+    if (!(S[0] > 0)) {return null;}
 
-  /**
-   * Dot product of two vectors
-   */
-  private static dotProduct(a: number[], b: number[]): number {
-    let sum = 0;
-    for (let i = 0; i < a.length; i++) {
-      sum += a[i] * b[i];
-    }
-    return sum;
-  }
+    const d = Math.sign(Matrix.determinant(Matrix.multiply(U, Matrix.transpose(V)))) || 1;
+    const R = Matrix.multiply(Matrix.multiply(U, Matrix.diagonal([1, 1, d])), Matrix.transpose(V));
+    const Rc = Matrix.multiplyVector(R, objectCentroid);
+    const t = [0, 1, 2].map(c => cameraCentroid[c] - Rc[c]);
 
-  /**
-   * Normalize vector to unit length
-   */
-  private static normalizeVector(v: number[]): number[] {
-    const norm = Math.sqrt(this.dotProduct(v, v));
-    if (norm < 1e-10) {
-      return v; // Avoid division by zero
-    }
-    return v.map(x => x / norm);
+    if (!R.flat().every(Number.isFinite) || !t.every(Number.isFinite)) {return null;}
+    return { R, t };
   }
 
   /**
-   * Solve for N control point configurations
+   * Gauss-Newton on the normalized reprojection error
+   * Rotation is updated on the left: R ← exp(δφ) R
    */
-  private static solveForN(
-    N: number,
-    nullSpace: number[][],
-    controlPointsRef: Vector3[],
-    imagePoints: Vector3[],
-    alphas: number[][]
-  ): EPnPResult | null {
-    // Compute camera control points from null space
-    // This is the core of EPnP: find beta coefficients
-
-    // For now, use simplified solution (N=1: single null space vector)
-    if (N === 1) {
-      const v = nullSpace[0];
-      const cameraControlPoints = this.extractControlPoints(v);
-
-      // Compute transformation from reference to camera control points
-      const result = this.computeTransformation(controlPointsRef, cameraControlPoints);
-
-      if (result) {
-        // Compute reprojection error
-        const error = this.computeReprojectionError(
-          controlPointsRef,
-          imagePoints,
-          alphas,
-          result.matrix
-        );
-
-        return {
-          ...result,
-          reprojectionError: error,
-        };
+  private static refinePose(
+    objectPoints: Vector3[],
+    uv: Array<[number, number]>,
+    initial: RigidTransform
+  ): RigidTransform {
+    let current = initial;
+    let currentError = this.computeSquaredError(objectPoints, uv, current);
+
+    for (let iter = 0; iter < REFINEMENT_ITERATIONS; iter++) {
+      const JtJ = Matrix.zeros(6, 6);
+      const Jtr = new Array(6).fill(0);
+
+      for (let i = 0; i < objectPoints.length; i++) {
+        const [x, y, z] = this.transformPoint(current, objectPoints[i]);
+        if (z <= 1e-12) {continue;}
+
+        const ru = x / z - uv[i][0];
+        const rv = y / z - uv[i][1];
+        const iz = 1 / z;
+        const iz2 = iz * iz;
+
+        // d(u,v)/dP · dP/d[δφ, δt], with dP/d[δφ, δt] = [-[P]×, I]
+        const Ju = [-x * y * iz2, 1 + x * x * iz2, -y * iz, iz, 0, -x * iz2];
+        const Jv = [-(1 + y * y * iz2), x * y * iz2, x * iz, 0, iz, -y * iz2];
+
+        for (let r = 0; r < 6; r++) {
+          Jtr[r] += Ju[r] * ru + Jv[r] * rv;
+          for (let c = 0; c < 6; c++) {
+            JtJ[r][c] += Ju[r] * Ju[c] + Jv[r] * Jv[c];
+          }
+        }
       }
-    }
 
-    return null;
-  }
-
-  /**
-   * Extract 4 control points from null space vector (12 values)
-   */
-  private static extractControlPoints(v: number[]): Vector3[] {
-    return [
-      new Vector3(v[0], v[1], v[2]),
-      new Vector3(v[3], v[4], v[5]),
-      new Vector3(v[6], v[7], v[8]),
-      new Vector3(v[9], v[10], v[11]),
-    ];
-  }
+      for (let r = 0; r < 6; r++) {
+        JtJ[r][r] *= 1 + 1e-6;
+        JtJ[r][r] += 1e-12;
+      }
 
-  /**
-   * Compute transformation from reference control points to camera control points
-   * Using Kabsch algorithm (rigid body transformation)
-   */
-  private static computeTransformation(
-    refPoints: Vector3[],
-    camPoints: Vector3[]
-  ): { position: Vector3; rotation: Quaternion; matrix: Matrix4 } | null {
-    if (refPoints.length !== 4 || camPoints.length !== 4) {
-      return null;
+      let step: number[];
+      try {
+        step = Matrix.solveCholesky(JtJ, Jtr);
+      } catch {
+        break;
+      }
+      if (!step.every(Number.isFinite)) {break;}
+
+      const delta = Quaternion.fromRotationVector(new Vector3(-step[0], -step[1], -step[2]));
+      const dR = this.rowMajor3x3(delta.toRotationMatrix());
+      const candidate: RigidTransform = {
+        R: Matrix.multiply(dR, current.R),
+        t: Matrix.multiplyVector(dR, current.t).map((v, c) => v - step[3 + c]),
+      };
+
+      const candidateError = this.computeSquaredError(objectPoints, uv, candidate);
+      if (!(candidateError < currentError)) {break;}
+
+      const improvement = currentError - candidateError;
+      current = candidate;
+      currentError = candidateError;
+      if (improvement < 1e-14) {break;}
     }
 
-    // Use Kabsch algorithm (implemented in kabsch.ts)
-    // For now, simplified version
-
-    const refCentroid = this.computeCentroid(refPoints);
-    const camCentroid = this.computeCentroid(camPoints);
-
-    // Center points
-    const refCentered = refPoints.map(p => p.subtract(refCentroid));
-    const camCentered = camPoints.map(p => p.subtract(camCentroid));
-
-    // Compute rotation using SVD of covariance matrix
-    const rotation = this.computeRotationSVD(refCentered, camCentered);
-
-    // Translation: t = camCentroid - R * refCentroid
-    const rotatedRef = this.rotatePoint(refCentroid, rotation);
-    const position = camCentroid.subtract(rotatedRef);
-
-    // Build matrix
-    const matrix = this.buildTransformMatrix(position, rotation);
-
-    return { position, rotation, matrix };
-  }
-
-  /**
-   * Compute rotation using SVD (simplified Kabsch)
-   */
-  private static computeRotationSVD(
-    refPoints: Vector3[],
-    camPoints: Vector3[]
-  ): Quaternion {
-    // Simplified: return identity for now
-    // Full implementation in kabsch.ts
-    return Quaternion.identity();
+    return current;
   }
 
   /**
-   * Compute reprojection error
+   * Mean reprojection error in normalized image coordinates
    */
   private static computeReprojectionError(
     objectPoints: Vector3[],
-    imagePoints: Vector3[],
-    alphas: number[][],
-    transformMatrix: Matrix4
+    uv: Array<[number, number]>,
+    transform: RigidTransform
   ): number {
     let totalError = 0;
-    const n = objectPoints.length;
 
-    for (let i = 0; i < n; i++) {
-      const p3D = objectPoints[i];
-      const p2D = imagePoints[i];
-
-      // Project 3D point using transform
-      const projected = this.project3DPoint(p3D, transformMatrix);
-
-      // Compute error
-      const dx = projected.x - p2D.x;
-      const dy = projected.y - p2D.y;
-      totalError += Math.sqrt(dx * dx + dy * dy);
+    for (let i = 0; i < objectPoints.length; i++) {
+      const [x, y, z] = this.transformPoint(transform, objectPoints[i]);
+      if (z <= 0) {return Infinity;}
+      totalError += Math.hypot(x / z - uv[i][0], y / z - uv[i][1]);
     }
 
-    return totalError / n;
+    return totalError / objectPoints.length;
   }
 
   /**
-   * Project 3D point to 2D using transformation matrix
+   * Sum of squared reprojection errors (points behind the camera are rejected)
    */
-  private static project3DPoint(point: Vector3, matrix: Matrix4): Vector3 {
-    // Transform 3D point
-    const transformed = matrix.transformPoint(point);
-
-    // Perspective projection (assuming normalized coordinates)
-    if (transformed.z !== 0) {
-      return new Vector3(
-        transformed.x / transformed.z,
-        transformed.y / transformed.z,
-        1
-      );
+  private static computeSquaredError(
+    objectPoints: Vector3[],
+    uv: Array<[number, number]>,
+    transform: RigidTransform
+  ): number {
+    let sum = 0;
+
+    for (let i = 0; i < objectPoints.length; i++) {
+      const [x, y, z] = this.transformPoint(transform, objectPoints[i]);
+      if (z <= 0) {return Infinity;}
+      sum += (x / z - uv[i][0]) ** 2 + (y / z - uv[i][1]) ** 2;
     }
 
-    return transformed;
+    return sum;
   }
 
   // Helper functions
 
-  private static computeCentroid(points: Vector3[]): Vector3 {
-    let sum = new Vector3(0, 0, 0);
-    for (const p of points) {
-      sum = sum.add(p);
-    }
-    return sum.multiply(1.0 / points.length);
-  }
+  private static toResult(transform: RigidTransform, reprojectionError: number): EPnPResult {
+    const rotation = Quaternion.fromRotationMatrix(transform.R.flat()).normalize();
+    const position = new Vector3(transform.t[0], transform.t[1], transform.t[2]);
 
-  private static det3x3(m: number[]): number {
-    return (
-      m[0] * (m[4] * m[8] - m[5] * m[7]) -
-      m[1] * (m[3] * m[8] - m[5] * m[6]) +
-      m[2] * (m[3] * m[7] - m[4] * m[6])
-    );
+    return {
+      position,
+      rotation,
+      matrix: Matrix4.compose(position, rotation, new Vector3(1, 1, 1)),
+      reprojectionError,
+    };
   }
 
-  private static rotatePoint(point: Vector3, quaternion: Quaternion): Vector3 {
-    // q * p * q^-1
-    const qv = new Vector3(quaternion.x, quaternion.y, quaternion.z);
-    const uv = qv.cross(point);
-    const uuv = qv.cross(uv);
+  private static transformPoint(transform: RigidTransform, point: Vector3): number[] {
+    const p = Matrix.multiplyVector(transform.R, [point.x, point.y, point.z]);
+    return [p[0] + transform.t[0], p[1] + transform.t[1], p[2] + transform.t[2]];
+  }
 
-    return point.add(uv.multiply(2 * quaternion.w)).add(uuv.multiply(2));
+  private static rowMajor3x3(m: ArrayLike<number>): number[][] {
+    return [
+      [m[0], m[1], m[2]],
+      [m[3], m[4], m[5]],
+      [m[6], m[7], m[8]],
+    ];
   }
 
-  private static buildTransformMatrix(position: Vector3, rotation: Quaternion): Matrix4 {
-    const { x, y, z, w } = rotation;
-
-    const x2 = x * x;
-    const y2 = y * y;
-    const z2 = z * z;
-    const xy = x * y;
-    const xz = x * z;
-    const yz = y * z;
-    const wx = w * x;
-    const wy = w * y;
-    const wz = w * z;
-
-    return new Matrix4([
-      1 - 2 * (y2 + z2), 2 * (xy - wz), 2 * (xz + wy), 0,
-      2 * (xy + wz), 1 - 2 * (x2 + z2), 2 * (yz - wx), 0,
-      2 * (xz - wy), 2 * (yz + wx), 1 - 2 * (x2 + y2), 0,
-      position.x, position.y, position.z, 1,
-    ]);
+  private static computeCentroid(points: Vector3[]): Vector3 {
+    let sum = new Vector3(0, 0, 0);
+    for (const p of points) {
+      sum = sum.add(p);
+    }
+    return sum.multiply(1.0 / points.length);
   }
 }
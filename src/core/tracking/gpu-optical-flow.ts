@@ -0,0 +1,331 @@
+/**
+ * GPU Optical Flow
+ * Pyramidal Lucas-Kanade tracking in WebGPU compute shaders
+ *
+ * Keeps a mip-mapped pyramid of the previous and current grayscale frames.
+ * Call pushFrame() once per frame, then track points from the previous frame
+ * into the current one. Mirrors the CPU reference in optical-flow.ts,
+ * including the forward-backward check (a second, reversed dispatch).
+ */
+
+import type { GPUContextManager } from '../gpu/gpu-context';
+import { ComputePipeline, calculateWorkgroupCount } from '../gpu/compute-pipeline';
+import { pyramidDownsampleShader, lucasKanadeShader } from '../../shaders/index';
+import type { Keypoint } from '../detection/feature-detector';
+import type { MarkerCorners } from '../detection/marker-detector';
+import {
+  resolveOpticalFlowConfig,
+  cornersToPoints,
+  flowToCorners,
+  flowToKeypoints,
+  type OpticalFlowConfig,
+  type FlowPoint,
+} from './optical-flow';
+
+export class GPUOpticalFlow {
+  private gpuContext: GPUContextManager;
+  private config: Required<OpticalFlowConfig>;
+
+  // Pipelines
+  private pyramidPipeline: ComputePipeline | null = null;
+  private flowPipeline: ComputePipeline | null = null;
+
+  // Pyramids (mip chains) of the previous and current frame
+  private previousPyramid: GPUTexture | null = null;
+  private currentPyramid: GPUTexture | null = null;
+  private levels = 0;
+  private frameCount = 0;
+
+  // Buffers
+  private paramsBuffer: GPUBuffer | null = null;
+  private pointsBuffer: GPUBuffer | null = null;
+  private forwardBuffer: GPUBuffer | null = null;
+  private backwardBuffer: GPUBuffer | null = null;
+  private readbackBuffer: GPUBuffer | null = null;
+  private capacity = 0;
+
+  constructor(gpuContext: GPUContextManager, config: OpticalFlowConfig = {}) {
+    this.gpuContext = gpuContext;
+    this.config = resolveOpticalFlowConfig(config);
+  }
+
+  /**
+   * Initialize pipelines and pyramid textures
+   */
+  async initialize(width: number, height: number): Promise<void> {
+    const device = this.gpuContext.device;
+
+    this.pyramidPipeline = new ComputePipeline(this.gpuContext, {
+      label: 'Optical Flow Pyramid',
+      shaderCode: pyramidDownsampleShader,
+    });
+
+    this.flowPipeline = new ComputePipeline(this.gpuContext, {
+      label: 'Lucas-Kanade',
+      shaderCode: lucasKanadeShader,
+    });
+
+    // Stop before levels get smaller than the tracking window
+    const maxLevels = Math.floor(Math.log2(Math.min(width, height) / this.config.windowSize)) + 1;
+    this.levels = Math.max(1, Math.min(this.config.pyramidLevels, maxLevels));
+
+    const createPyramid = (label: string): GPUTexture => device.createTexture({
+      label,
+      size: { width, height },
+      format: 'r8unorm',
+      mipLevelCount: this.levels,
+      usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+    });
+
+    this.previousPyramid = createPyramid('Optical Flow Pyramid A');
+    this.currentPyramid = createPyramid('Optical Flow Pyramid B');
+
+    this.paramsBuffer = device.createBuffer({
+      label: 'Optical Flow Params',
+      size: 32,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+
+    this.frameCount = 0;
+    console.log(`[GPUOpticalFlow] Initialized (${this.levels} pyramid levels)`);
+  }
+
+  /**
+   * Build the pyramid of a new frame; the last one becomes the previous frame
+   */
+  pushFrame(grayscaleTexture: GPUTexture): void {
+    if (!this.pyramidPipeline || !this.previousPyramid || !this.currentPyramid) {
+      throw new Error('Optical flow not initialized');
+    }
+
+    [this.previousPyramid, this.currentPyramid] = [this.currentPyramid, this.previousPyramid];
+
+    const device = this.gpuContext.device;
+    const encoder = device.createCommandEncoder();
+    const pipeline = this.pyramidPipeline.getPipeline();
+
+    for (let level = 0; level < this.levels; level++) {
+      const input = level === 0
+        ? grayscaleTexture.createView()
+        : this.currentPyramid.createView({ baseMipLevel: level - 1, mipLevelCount: 1 });
+      const output = this.currentPyramid.createView({ baseMipLevel: level, mipLevelCount: 1 });
+
+      const bindGroup = this.pyramidPipeline.createBindGroup([
+        { binding: 0, resource: input },
+        { binding: 1, resource: output },
+      ]);
+
+      const workgroups = calculateWorkgroupCount(
+        Math.max(1, this.currentPyramid.width >> level),
+        Math.max(1, this.currentPyramid.height >> level),
+        { x: 8, y: 8 }
+      );
+
+      const pass = encoder.beginComputePass();
+      pass.setPipeline(pipeline);
+      pass.setBindGroup(0, bindGroup);
+      pass.dispatchWorkgroups(workgroups.x, workgroups.y);
+      pass.end();
+    }
+
+    device.queue.submit([encoder.finish()]);
+    this.frameCount++;
+  }
+
+  /**
+   * Whether a previous frame is available to track from
+   */
+  hasPreviousFrame(): boolean {
+    return this.frameCount >= 2;
+  }
+
+  /**
+   * Track points from the previous frame into the current one
+   *
+   * @param points - Pixel positions in the previous frame
+   * @returns Positions in the current frame with a status per point
+   */
+  async track(points: Array<{ x: number; y: number }>): Promise<FlowPoint[]> {
+    if (!this.flowPipeline || !this.previousPyramid || !this.currentPyramid) {
+      throw new Error('Optical flow not initialized');
+    }
+    if (points.length === 0) {
+      return [];
+    }
+    if (!this.hasPreviousFrame()) {
+      return points.map(p => ({ x: p.x, y: p.y, found: false, error: 0 }));
+    }
+
+    const device = this.gpuContext.device;
+    this.ensureCapacity(points.length);
+
+    const input = new Float32Array(points.length * 4);
+    points.forEach((p, i) => {
+      input[i * 4] = p.x;
+      input[i * 4 + 1] = p.y;
+    });
+    device.queue.writeBuffer(this.pointsBuffer!, 0, input);
+    this.updateParams(points.length);
+
+    const checkBackward = this.config.maxForwardBackwardError > 0;
+    const byteLength = points.length * 16;
+    const workgroups = Math.ceil(points.length / 64);
+
+    const encoder = device.createCommandEncoder();
+    this.encodeFlow(encoder, this.previousPyramid, this.currentPyramid, this.pointsBuffer!, this.forwardBuffer!, workgroups);
+    if (checkBackward) {
+      this.encodeFlow(encoder, this.currentPyramid, this.previousPyramid, this.forwardBuffer!, this.backwardBuffer!, workgroups);
+    }
+
+    encoder.copyBufferToBuffer(this.forwardBuffer!, 0, this.readbackBuffer!, 0, byteLength);
+    if (checkBackward) {
+      encoder.copyBufferToBuffer(this.backwardBuffer!, 0, this.readbackBuffer!, byteLength, byteLength);
+    }
+    device.queue.submit([encoder.finish()]);
+
+    await this.readbackBuffer!.mapAsync(GPUMapMode.READ, 0, byteLength * 2);
+    const data = new Float32Array(this.readbackBuffer!.getMappedRange(0, byteLength * 2).slice(0));
+    this.readbackBuffer!.unmap();
+
+    return points.map((p, i) => {
+      const result: FlowPoint = {
+        x: data[i * 4],
+        y: data[i * 4 + 1],
+        found: data[i * 4 + 2] > 0.5,
+        error: data[i * 4 + 3],
+      };
+
+      if (result.found && checkBackward) {
+        const back = points.length * 4 + i * 4;
+        const fbError = Math.hypot(data[back] - p.x, data[back + 1] - p.y);
+        result.found = data[back + 2] > 0.5 && fbError <= this.config.maxForwardBackwardError;
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Track the four corners of a marker
+   * @returns Propagated corners, or null if any corner was lost
+   */
+  async trackCorners(corners: MarkerCorners): Promise<MarkerCorners | null> {
+    return flowToCorners(await this.track(cornersToPoints(corners)));
+  }
+
+  /**
+   * Track keypoints, dropping the ones that were lost
+   */
+  async trackKeypoints(keypoints: Keypoint[]): Promise<Keypoint[]> {
+    return flowToKeypoints(keypoints, await this.track(keypoints));
+  }
+
+  /**
+   * Forget the previous frame (e.g. after a camera switch)
+   */
+  reset(): void {
+    this.frameCount = 0;
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.previousPyramid?.destroy();
+    this.currentPyramid?.destroy();
+    this.paramsBuffer?.destroy();
+    this.destroyPointBuffers();
+
+    this.previousPyramid = null;
+    this.currentPyramid = null;
+    this.paramsBuffer = null;
+    this.pyramidPipeline = null;
+    this.flowPipeline = null;
+  }
+
+  // ==================== Private Methods ====================
+
+  private encodeFlow(
+    encoder: GPUCommandEncoder,
+    prev: GPUTexture,
+    next: GPUTexture,
+    input: GPUBuffer,
+    output: GPUBuffer,
+    workgroups: number
+  ): void {
+    const bindGroup = this.flowPipeline!.createBindGroup([
+      { binding: 0, resource: prev.createView() },
+      { binding: 1, resource: next.createView() },
+      { binding: 2, resource: { buffer: input } },
+      { binding: 3, resource: { buffer: output } },
+      { binding: 4, resource: { buffer: this.paramsBuffer! } },
+    ]);
+
+    const pass = encoder.beginComputePass();
+    pass.setPipeline(this.flowPipeline!.getPipeline());
+    pass.setBindGroup(0, bindGroup);
+    pass.dispatchWorkgroups(workgroups);
+    pass.end();
+  }
+
+  private updateParams(pointCount: number): void {
+    // pointCount, levels, windowRadius, maxIterations, epsilon, minEigenvalue, padding ×2
+    const params = new ArrayBuffer(32);
+    const uints = new Uint32Array(params);
+    const floats = new Float32Array(params);
+    uints[0] = pointCount;
+    uints[1] = this.levels;
+    new Int32Array(params)[2] = Math.floor(this.config.windowSize / 2);
+    uints[3] = this.config.maxIterations;
+    floats[4] = this.config.epsilon;
+    floats[5] = this.config.minEigenvalue;
+
+    this.gpuContext.device.queue.writeBuffer(this.paramsBuffer!, 0, params);
+  }
+
+  /**
+   * Grow point buffers to hold at least `count` points
+   */
+  private ensureCapacity(count: number): void {
+    if (count <= this.capacity) {return;}
+
+    this.destroyPointBuffers();
+    const device = this.gpuContext.device;
+    this.capacity = Math.max(64, 1 << Math.ceil(Math.log2(count)));
+    const size = this.capacity * 16; // vec4<f32> per point
+
+    this.pointsBuffer = device.createBuffer({
+      label: 'Optical Flow Points',
+      size,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.forwardBuffer = device.createBuffer({
+      label: 'Optical Flow Forward',
+      size,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+    this.backwardBuffer = device.createBuffer({
+      label: 'Optical Flow Backward',
+      size,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+    this.readbackBuffer = device.createBuffer({
+      label: 'Optical Flow Readback',
+      size: size * 2,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+  }
+
+  private destroyPointBuffers(): void {
+    this.pointsBuffer?.destroy();
+    this.forwardBuffer?.destroy();
+    this.backwardBuffer?.destroy();
+    this.readbackBuffer?.destroy();
+
+    this.pointsBuffer = null;
+    this.forwardBuffer = null;
+    this.backwardBuffer = null;
+    this.readbackBuffer = null;
+    this.capacity = 0;
+  }
+}
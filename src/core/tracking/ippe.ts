@@ -0,0 +1,262 @@
+/**
+ * IPPE (Infinitesimal Plane-based Pose Estimation)
+ * Both pose solutions for planar targets such as square markers
+ *
+ * Based on:
+ * "Infinitesimal Plane-Based Pose Estimation"
+ * by Collins and Bartoli (2014)
+ *
+ * A plane seen under perspective has two poses that explain the image
+ * almost equally well when the target is small or far away (the "flip").
+ * IPPE recovers both in closed form from the homography's Jacobian at the
+ * target center, so callers can pick the one consistent over time.
+ */
+
+import { Vector3 } from '../math/vector';
+import { Matrix4 } from '../math/matrix';
+import { Quaternion } from '../math/quaternion';
+import { Matrix } from '../math/matrix-ops';
+import { Homography } from '../math/homography';
+import type { EPnPResult } from './epnp';
+
+export interface IPPEResult {
+  // Both solutions, lowest reprojection error first
+  poses: [EPnPResult, EPnPResult];
+
+  // Best error / second error: near 0 is unambiguous, near 1 is a coin flip
+  ambiguityRatio: number;
+}
+
+export class IPPE {
+  /**
+   * Solve pose of a planar target
+   *
+   * @param objectPoints - 3D points on the z = 0 plane of the target frame
+   * @param imagePoints - Normalized 2D points (homogeneous or unit bearing vectors)
+   * @returns Both candidate poses or null if the input is degenerate
+   */
+  static solve(objectPoints: Vector3[], imagePoints: Vector3[]): IPPEResult | null {
+    const n = objectPoints.length;
+    if (n < 4 || n !== imagePoints.length) {
+      return null;
+    }
+    if (objectPoints.some(p => Math.abs(p.z) > 1e-9)) {
+      return null;
+    }
+
+    const uv: Array<[number, number]> = [];
+    for (const p of imagePoints) {
+      if (p.z <= 1e-12) {return null;}
+      uv.push([p.x / p.z, p.y / p.z]);
+    }
+
+    // Center the target so the Jacobian is taken at its centroid
+    let cx = 0;
+    let cy = 0;
+    for (const p of objectPoints) {
+      cx += p.x / n;
+      cy += p.y / n;
+    }
+
+    const H = Homography.fit(
+      objectPoints.map(p => ({ x: p.x - cx, y: p.y - cy })),
+      uv.map(([x, y]) => ({ x, y }))
+    );
+    if (!H) {return null;}
+
+    const rotations = this.computeRotations(H);
+    if (!rotations) {return null;}
+
+    const solutions = rotations.map(R => {
+      const t = this.computeTranslation(objectPoints, uv, R);
+      if (!t) {return null;}
+      return this.toResult(R, t, this.computeReprojectionError(objectPoints, uv, R, t));
+    });
+
+    if (!solutions[0] || !solutions[1]) {
+      return null;
+    }
+
+    const [a, b] = solutions[0].reprojectionError <= solutions[1].reprojectionError
+      ? [solutions[0], solutions[1]]
+      : [solutions[1], solutions[0]];
+
+    return {
+      poses: [a, b],
+      ambiguityRatio: b.reprojectionError > 0 ? a.reprojectionError / b.reprojectionError : 1,
+    };
+  }
+
+  /**
+   * The two rotations compatible with the homography Jacobian at the origin
+   */
+  private static computeRotations(H: number[]): [number[][], number[][]] | null {
+    const s = H[8];
+    if (Math.abs(s) < 1e-12) {return null;}
+    const h = H.map(v => v / s);
+
+    // Image of the target origin and Jacobian of the homography there
+    const p = h[2];
+    const q = h[5];
+    const J = [
+      [h[0] - h[6] * p, h[1] - h[7] * p],
+      [h[3] - h[6] * q, h[4] - h[7] * q],
+    ];
+
+    // Rv rotates the optical axis onto the ray through (p, q)
+    const Rv = this.rotationToRay(p, q);
+
+    // B = [I | -v] Rv (first two columns); A = B⁻¹ J
+    const B = [
+      [Rv[0][0] - p * Rv[2][0], Rv[0][1] - p * Rv[2][1]],
+      [Rv[1][0] - q * Rv[2][0], Rv[1][1] - q * Rv[2][1]],
+    ];
+    const detB = B[0][0] * B[1][1] - B[0][1] * B[1][0];
+    if (Math.abs(detB) < 1e-12) {return null;}
+
+    const Binv = [
+      [B[1][1] / detB, -B[0][1] / detB],
+      [-B[1][0] / detB, B[0][0] / detB],
+    ];
+    const A = Matrix.multiply(Binv, J);
+
+    // γ = largest singular value of A (= 1 / depth)
+    const a = A[0][0] ** 2 + A[0][1] ** 2;
+    const b = A[0][0] * A[1][0] + A[0][1] * A[1][1];
+    const c = A[1][0] ** 2 + A[1][1] ** 2;
+    const gamma = Math.sqrt(0.5 * (a + c + Math.sqrt((a - c) ** 2 + 4 * b * b)));
+    if (!(gamma > 1e-12)) {return null;}
+
+    // Upper-left 2×2 block of the rotation in the ray-aligned frame
+    const r00 = A[0][0] / gamma;
+    const r01 = A[0][1] / gamma;
+    const r10 = A[1][0] / gamma;
+    const r11 = A[1][1] / gamma;
+
+    // Complete the first two columns to unit length, orthogonal to each other
+    const b0 = Math.sqrt(Math.max(0, 1 - r00 * r00 - r10 * r10));
+    let b1 = Math.sqrt(Math.max(0, 1 - r01 * r01 - r11 * r11));
+    if (r00 * r01 + r10 * r11 > 0) {
+      b1 = -b1;
+    }
+
+    return [
+      this.completeRotation(Rv, r00, r01, r10, r11, b0, b1),
+      this.completeRotation(Rv, r00, r01, r10, r11, -b0, -b1),
+    ];
+  }
+
+  /**
+   * Rotation taking the z axis onto the direction of (p, q, 1)
+   */
+  private static rotationToRay(p: number, q: number): number[][] {
+    const norm = Math.hypot(p, q, 1);
+    const axis = new Vector3(-q, p, 0);
+    const sinAngle = axis.length() / norm;
+    const angle = Math.atan2(sinAngle, 1 / norm);
+
+    if (sinAngle < 1e-12) {
+      return [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+    }
+
+    const m = Quaternion.fromAxisAngle(axis.normalize(), angle).toRotationMatrix();
+    return [
+      [m[0], m[1], m[2]],
+      [m[3], m[4], m[5]],
+      [m[6], m[7], m[8]],
+    ];
+  }
+
+  /**
+   * Rv · [c1 c2 c1×c2] with c1 = (r00, r10, b0), c2 = (r01, r11, b1)
+   */
+  private static completeRotation(
+    Rv: number[][],
+    r00: number, r01: number, r10: number, r11: number,
+    b0: number, b1: number
+  ): number[][] {
+    const c1 = new Vector3(r00, r10, b0);
+    const c2 = new Vector3(r01, r11, b1);
+    const c3 = c1.cross(c2);
+
+    const local = [
+      [c1.x, c2.x, c3.x],
+      [c1.y, c2.y, c3.y],
+      [c1.z, c2.z, c3.z],
+    ];
+
+    return Matrix.multiply(Rv, local);
+  }
+
+  /**
+   * Least-squares translation for a known rotation
+   * Linear in t: u (r3·X + tz) = r1·X + tx, v (r3·X + tz) = r2·X + ty
+   */
+  private static computeTranslation(
+    objectPoints: Vector3[],
+    uv: Array<[number, number]>,
+    R: number[][]
+  ): number[] | null {
+    const AtA = Matrix.zeros(3, 3);
+    const Atb = [0, 0, 0];
+
+    for (let i = 0; i < objectPoints.length; i++) {
+      const X = Matrix.multiplyVector(R, [objectPoints[i].x, objectPoints[i].y, objectPoints[i].z]);
+      const [u, v] = uv[i];
+
+      const rows: Array<[number[], number]> = [
+        [[1, 0, -u], u * X[2] - X[0]],
+        [[0, 1, -v], v * X[2] - X[1]],
+      ];
+
+      for (const [row, rhs] of rows) {
+        for (let r = 0; r < 3; r++) {
+          Atb[r] += row[r] * rhs;
+          for (let c = 0; c < 3; c++) {
+            AtA[r][c] += row[r] * row[c];
+          }
+        }
+      }
+    }
+
+    try {
+      const t = Matrix.solveCholesky(AtA, Atb);
+      return t.every(Number.isFinite) ? t : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Mean reprojection error in normalized image coordinates
+   */
+  private static computeReprojectionError(
+    objectPoints: Vector3[],
+    uv: Array<[number, number]>,
+    R: number[][],
+    t: number[]
+  ): number {
+    let total = 0;
+
+    for (let i = 0; i < objectPoints.length; i++) {
+      const X = Matrix.multiplyVector(R, [objectPoints[i].x, objectPoints[i].y, objectPoints[i].z]);
+      const z = X[2] + t[2];
+      if (z <= 0) {return Infinity;}
+      total += Math.hypot((X[0] + t[0]) / z - uv[i][0], (X[1] + t[1]) / z - uv[i][1]);
+    }
+
+    return total / objectPoints.length;
+  }
+
+  private static toResult(R: number[][], t: number[], reprojectionError: number): EPnPResult {
+    const rotation = Quaternion.fromRotationMatrix(R.flat()).normalize();
+    const position = new Vector3(t[0], t[1], t[2]);
+
+    return {
+      position,
+      rotation,
+      matrix: Matrix4.compose(position, rotation, new Vector3(1, 1, 1)),
+      reprojectionError,
+    };
+  }
+}
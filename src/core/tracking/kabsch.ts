@@ -108,6 +108,61 @@ export class Kabsch {
     };
   }
 
+  /**
+   * Compute optimal similarity transformation (rotation + translation + scale)
+   * Umeyama-style alignment: Q ≈ scale * R * P + translation
+   */
+  static computeSimilarityTransform(
+    P: Vector3[],
+    Q: Vector3[]
+  ): { rotation: Quaternion; translation: Vector3; scale: number; rmsd: number } | null {
+    const n = P.length;
+    if (n < 3 || n !== Q.length) {
+      return null;
+    }
+
+    const centroidP = this.computeCentroid(P);
+    const centroidQ = this.computeCentroid(Q);
+
+    const P_centered = P.map(p => p.subtract(centroidP));
+    const Q_centered = Q.map(q => q.subtract(centroidQ));
+
+    const result = this.computeRotation(P_centered, Q_centered);
+    if (!result) {return null;}
+
+    // Optimal scale given rotation: s = Σ q·(R p) / Σ |p|²
+    let numerator = 0;
+    let denominator = 0;
+    for (let i = 0; i < n; i++) {
+      const rotated = this.applyRotation(P_centered[i], result.rotation);
+      numerator += Q_centered[i].dot(rotated);
+      denominator += P_centered[i].dot(P_centered[i]);
+    }
+
+    if (denominator < 1e-12 || numerator <= 0) {
+      return null;
+    }
+
+    const scale = numerator / denominator;
+    const translation = centroidQ.subtract(
+      this.applyRotation(centroidP, result.rotation).multiply(scale)
+    );
+
+    // RMSD of the full similarity alignment
+    let sumSquaredDist = 0;
+    for (let i = 0; i < n; i++) {
+      const mapped = this.applyRotation(P[i], result.rotation).multiply(scale).add(translation);
+      sumSquaredDist += mapped.distanceToSquared(Q[i]);
+    }
+
+    return {
+      rotation: result.rotation,
+      translation,
+      scale,
+      rmsd: Math.sqrt(sumSquaredDist / n),
+    };
+  }
+
   /**
    * Compute covariance matrix H = P^T * Q
    */
@@ -182,6 +237,14 @@ export class Kabsch {
       }
     }
 
+    // Planar point sets have a zero third singular value; complete U with
+    // the cross product of the first two columns so it stays orthonormal
+    if (S[2] <= 1e-6 * S[0] && S[1] > 1e-6 * S[0]) {
+      U[2] = U[3] * U[7] - U[6] * U[4];
+      U[5] = U[6] * U[1] - U[0] * U[7];
+      U[8] = U[0] * U[4] - U[3] * U[1];
+    }
+
     return U;
   }
 
@@ -4,11 +4,14 @@
  *
  * Features:
  * - Fundamental matrix estimation (8-point algorithm)
+ * - Homography estimation for planar targets
  * - RANSAC for outlier rejection
  * - Epipolar constraint checking
  */
 
 import { Logger } from '../../../utils/logger';
+import { Matrix } from '../../math/matrix-ops';
+import { Homography } from '../../math/homography';
 import type { FeatureMatch } from '../../matching';
 import type { Keypoint } from '../../detection/feature-detector';
 
@@ -26,9 +29,16 @@ export interface GeometricVerificationResult {
   isValid: boolean;
 }
 
+export interface HomographyVerificationResult {
+  homography: Matrix3; // Maps query points to train points
+  inliers: FeatureMatch[];
+  inlierRatio: number;
+  isValid: boolean;
+}
+
 export interface RANSACConfig {
   maxIterations?: number;
-  threshold?: number; // Epipolar distance threshold
+  threshold?: number; // Epipolar distance / reprojection threshold in pixels
   minInliers?: number;
   confidence?: number;
 }
@@ -53,6 +63,19 @@ export class Matrix3 {
     return new Matrix3();
   }
 
+  static fromRows(rows: number[][]): Matrix3 {
+    return new Matrix3(rows.flat());
+  }
+
+  toRows(): number[][] {
+    const m = this.data;
+    return [
+      [m[0], m[1], m[2]],
+      [m[3], m[4], m[5]],
+      [m[6], m[7], m[8]],
+    ];
+  }
+
   // Multiply vector [x, y, 1]
   multiplyVector(x: number, y: number): [number, number, number] {
     const m = this.data;
@@ -154,6 +177,97 @@ export class GeometricVerifier {
     };
   }
 
+  /**
+   * Estimate homography using RANSAC
+   * The fundamental matrix is degenerate when all points lie on a plane,
+   * so planar targets (images, posters) are verified with a homography.
+   */
+  estimateHomography(
+    matches: FeatureMatch[],
+    queryKeypoints: Keypoint[],
+    trainKeypoints: Keypoint[]
+  ): HomographyVerificationResult | null {
+    if (matches.length < Math.max(4, this.config.minInliers)) {
+      log.warn(`Not enough matches: ${matches.length} < ${Math.max(4, this.config.minInliers)}`);
+      return null;
+    }
+
+    const toPoints = (subset: FeatureMatch[]) => ({
+      src: subset.map(m => ({ x: queryKeypoints[m.queryIdx].x, y: queryKeypoints[m.queryIdx].y })),
+      dst: subset.map(m => ({ x: trainKeypoints[m.trainIdx].x, y: trainKeypoints[m.trainIdx].y })),
+    });
+
+    let bestInliers: FeatureMatch[] = [];
+
+    const iterations = this.computeRANSACIterations(matches.length, 4, this.config.confidence);
+
+    for (let iter = 0; iter < Math.min(iterations, this.config.maxIterations); iter++) {
+      const { src, dst } = toPoints(this.randomSample(matches, 4));
+      const H = Homography.fit(src, dst);
+      if (!H) {
+        continue;
+      }
+
+      const inliers = this.homographyInliers(H, matches, queryKeypoints, trainKeypoints);
+      if (inliers.length > bestInliers.length) {
+        bestInliers = inliers;
+      }
+    }
+
+    if (bestInliers.length < Math.max(4, this.config.minInliers)) {
+      log.warn(`RANSAC failed: ${bestInliers.length} inliers`);
+      return null;
+    }
+
+    // Refit on all inliers, recount with the refined model and refit once more
+    const refined = Homography.fit(toPoints(bestInliers).src, toPoints(bestInliers).dst);
+    if (refined) {
+      const inliers = this.homographyInliers(refined, matches, queryKeypoints, trainKeypoints);
+      if (inliers.length >= bestInliers.length) {
+        bestInliers = inliers;
+      }
+    }
+
+    const { src, dst } = toPoints(bestInliers);
+    const final = Homography.fit(src, dst);
+    if (!final) {
+      return null;
+    }
+
+    const inlierRatio = bestInliers.length / matches.length;
+
+    log.debug(
+      `Homography RANSAC success: ${bestInliers.length}/${matches.length} inliers (${(inlierRatio * 100).toFixed(1)}%)`
+    );
+
+    return {
+      homography: new Matrix3(final),
+      inliers: bestInliers,
+      inlierRatio,
+      isValid: inlierRatio > 0.3,
+    };
+  }
+
+  /**
+   * Matches whose query point maps within the threshold of its train point
+   */
+  private homographyInliers(
+    H: number[],
+    matches: FeatureMatch[],
+    queryKeypoints: Keypoint[],
+    trainKeypoints: Keypoint[]
+  ): FeatureMatch[] {
+    const threshold2 = this.config.threshold * this.config.threshold;
+
+    return matches.filter(m => {
+      const q = queryKeypoints[m.queryIdx];
+      const t = trainKeypoints[m.trainIdx];
+      const p = Homography.apply(H, q);
+      const d2 = (p.x - t.x) ** 2 + (p.y - t.y) ** 2;
+      return Number.isFinite(d2) && d2 < threshold2;
+    });
+  }
+
   /**
    * 8-point algorithm for fundamental matrix estimation
    */
@@ -191,13 +305,19 @@ export class GeometricVerifier {
       ]);
     }
 
-    // Solve using SVD (simplified - we'll use a basic approach)
-    // In production, use a proper SVD library
-    const F = this.solveLinearSystem(A);
-    if (!F) {
+    // Solve A f = 0 in the least-squares sense
+    const f = Matrix.nullVector(A);
+    if (!f.every(Number.isFinite)) {
       return null;
     }
 
+    // Enforce rank 2 by zeroing the smallest singular value
+    const { U, S, V } = Matrix.svd([f.slice(0, 3), f.slice(3, 6), f.slice(6, 9)]);
+    const F = Matrix.multiply(
+      Matrix.multiply(U, [[S[0], 0, 0], [0, S[1], 0], [0, 0, 0]]),
+      Matrix.transpose(V)
+    );
+
     // Denormalize: F = T2^T * F_norm * T1
     return this.denormalizeFundamentalMatrix(F, T1, T2);
   }
@@ -275,50 +395,26 @@ export class GeometricVerifier {
     return { points1, points2, T1, T2 };
   }
 
-  /**
-   * Solve linear system Ax = 0 (simplified SVD)
-   */
-  private solveLinearSystem(A: number[][]): Matrix3 | null {
-    // Simplified: Use last row of V from SVD
-    // For production, use a proper linear algebra library
-    // Here we'll use a very basic approximation
-
-    // Find the eigenvector corresponding to the smallest eigenvalue
-    // This is a simplified approach - in production use proper SVD
-    const solution = new Float32Array(9);
-
-    // For now, use a basic least squares approximation
-    // This is not production-quality but demonstrates the concept
-    for (let i = 0; i < 9; i++) {
-      let sum = 0;
-      for (let j = 0; j < A.length; j++) {
-        sum += A[j][i];
-      }
-      solution[i] = sum / A.length;
-    }
-
-    // Normalize
-    const norm = Math.sqrt(solution.reduce((sum, v) => sum + v * v, 0));
-    if (norm === 0) {return null;}
-
-    for (let i = 0; i < 9; i++) {
-      solution[i] /= norm;
-    }
-
-    return new Matrix3(solution);
-  }
-
   /**
    * Denormalize fundamental matrix
    */
   private denormalizeFundamentalMatrix(
-    F: Matrix3,
+    F: number[][],
     T1: Matrix3,
     T2: Matrix3
   ): Matrix3 {
     // F = T2^T * F_norm * T1
-    // Simplified matrix multiplication
-    return F; // TODO: Implement proper denormalization
+    const denormalized = Matrix.multiply(
+      Matrix.multiply(Matrix.transpose(T2.toRows()), F),
+      T1.toRows()
+    );
+
+    // Scale to unit norm (F is only defined up to scale)
+    const norm = Math.sqrt(denormalized.flat().reduce((sum, v) => sum + v * v, 0));
+    if (!(norm > 0)) {
+      return Matrix3.fromRows(denormalized);
+    }
+    return Matrix3.fromRows(denormalized.map(row => row.map(v => v / norm)));
   }
 
   /**
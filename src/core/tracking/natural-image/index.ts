@@ -5,18 +5,38 @@
 
 export {
   ReferenceImageStore,
+  compileReferenceDatabase,
   type ReferenceImage,
+  type ImagePixels,
+  type CompileOptions,
+  type ReferenceImageStoreConfig,
   type StoredReferenceImage,
   type ImagePyramid,
   type MultiScaleFeatures,
   type ScaleLevelFeatures,
 } from './reference-image-store';
 
+export {
+  VocabularyIndex,
+  type VocabularyConfig,
+  type VocabularyData,
+  type ImageCandidate,
+} from './vocabulary-index';
+
+export {
+  encodeReferenceDatabase,
+  decodeReferenceDatabase,
+  isReferenceDatabase,
+  REFERENCE_DATABASE_VERSION,
+  type ReferenceDatabaseOptions,
+} from './reference-database';
+
 export {
   GeometricVerifier,
   Matrix3,
   type Point2D,
   type GeometricVerificationResult,
+  type HomographyVerificationResult,
   type RANSACConfig,
 } from './geometric-verifier';
 
@@ -24,4 +44,7 @@ export {
   NaturalImageTracker,
   type TrackedImage,
   type TrackingConfig,
-} from './natural-image-tracker-simple';
+  type FrameFeatures,
+  type PointTracker,
+  type NaturalImageEvents,
+} from './natural-image-tracker';
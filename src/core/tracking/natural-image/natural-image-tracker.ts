@@ -0,0 +1,479 @@
+/**
+ * Natural Image Tracker
+ * Track arbitrary planar images (posters, book covers) without markers
+ *
+ * Pipeline:
+ * - Retrieval: with more references than `maxCandidates`, a vocabulary tree
+ *   ranks them against the frame and only the best ones are verified
+ * - Detection: live ORB descriptors are matched against every pyramid level
+ *   of each candidate, verified with a RANSAC homography and turned into a
+ *   metric pose from the reference's physical size
+ * - Tracking: between detections the inlier points are propagated with
+ *   optical flow and the homography and pose are refit
+ * - Events: 'image:found', 'image:updated' and 'image:lost'
+ */
+
+import { Logger } from '../../../utils/logger';
+import { TypedEventEmitter } from '../../events';
+import { ReferenceImageStore, type ReferenceImage, type StoredReferenceImage } from './reference-image-store';
+import { GeometricVerifier } from './geometric-verifier';
+import { FeatureMatcher, type FeatureMatch } from '../../matching';
+import { descriptorsToBytes } from '../../detection/orb-extractor';
+import type { Keypoint } from '../../detection/feature-detector';
+import type { FlowPoint } from '../optical-flow';
+import type { CameraIntrinsics, Pose } from '../pose-estimator';
+import { pixelToNormalized } from '../../camera/camera-intrinsics';
+import { IPPE } from '../ippe';
+import { Homography } from '../../math/homography';
+import { Vector3 } from '../../math/vector';
+
+const log = Logger.create('NaturalImageTracker');
+
+export interface TrackedImage {
+  id: string;
+  pose: Pose;
+  confidence: number;
+  matchCount: number;
+  isTracking: boolean;
+  homography?: number[]; // Reference pixels to frame pixels (row-major 3x3)
+  corners?: Array<[number, number]>; // Reference corners in the frame (TL, TR, BR, BL)
+}
+
+export interface TrackingConfig {
+  maxImages?: number; // References accepted by addReferenceImage (default: 500)
+  maxCandidates?: number; // References verified per detection (default: 4)
+  detectionInterval?: number; // Frames between detections while tracking (default: 5)
+  minMatchCount?: number; // Verified matches needed to find an image (default: 15)
+  minTrackingPoints?: number; // Flow inliers needed to keep tracking (default: 10)
+  ransacThreshold?: number; // Homography reprojection threshold in pixels (default: 3)
+}
+
+/**
+ * Live frame features from FeatureDetector (detectKeypoints + computeDescriptors)
+ */
+export interface FrameFeatures {
+  keypoints: Keypoint[];
+  descriptors: Uint32Array; // 8 words per keypoint
+}
+
+/**
+ * Tracks points from the previous frame into the current one (e.g. GPUOpticalFlow)
+ */
+export interface PointTracker {
+  track(points: Array<{ x: number; y: number }>): Promise<FlowPoint[]>;
+}
+
+export interface NaturalImageEvents {
+  'image:found': [image: TrackedImage];
+  'image:updated': [image: TrackedImage];
+  'image:lost': [id: string];
+
+  // Index signature for extensibility
+  [key: string]: unknown[];
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Point correspondences of a tracked image
+ */
+interface ImageTrackingState {
+  referencePoints: Point[]; // Full-resolution reference pixels
+  framePoints: Point[]; // Pixels in the last frame
+}
+
+/**
+ * All pyramid levels of a reference, keypoints in full-resolution pixels
+ */
+interface ReferenceFeatures {
+  keypoints: Keypoint[];
+  descriptors: Uint8Array[];
+}
+
+export class NaturalImageTracker extends TypedEventEmitter<NaturalImageEvents> {
+  private referenceStore: ReferenceImageStore;
+  private config: Required<TrackingConfig>;
+  private matcher: FeatureMatcher;
+  private verifier: GeometricVerifier;
+  private trackedImages: Map<string, TrackedImage> = new Map();
+  private trackingStates: Map<string, ImageTrackingState> = new Map();
+  private referenceFeatures = new WeakMap<StoredReferenceImage, ReferenceFeatures>();
+  private framesSinceDetection = 0;
+
+  constructor(config: TrackingConfig = {}) {
+    super();
+
+    this.config = {
+      maxImages: config.maxImages ?? 500,
+      maxCandidates: config.maxCandidates ?? 4,
+      detectionInterval: config.detectionInterval ?? 5,
+      minMatchCount: config.minMatchCount ?? 15,
+      minTrackingPoints: config.minTrackingPoints ?? 10,
+      ransacThreshold: config.ransacThreshold ?? 3,
+    };
+
+    this.referenceStore = new ReferenceImageStore();
+    this.matcher = new FeatureMatcher();
+    this.verifier = new GeometricVerifier({
+      threshold: this.config.ransacThreshold,
+      minInliers: 4,
+    });
+    log.info('Natural image tracker initialized');
+  }
+
+  /**
+   * Add reference image
+   */
+  async addReferenceImage(image: ReferenceImage): Promise<void> {
+    if (this.referenceStore.getCount() >= this.config.maxImages) {
+      log.warn(`Maximum images reached (${this.config.maxImages})`);
+      return;
+    }
+
+    await this.referenceStore.addImage(image);
+    log.info(`Reference image added: ${image.id}`);
+  }
+
+  /**
+   * Load references compiled offline (see ReferenceImageStore.compile)
+   * Compiled databases are not limited by maxImages: their cost is paid offline.
+   */
+  async loadReferenceDatabase(bytes: Uint8Array): Promise<void> {
+    await this.referenceStore.load(bytes);
+    log.info(`Reference database loaded: ${this.referenceStore.getCount()} images`);
+  }
+
+  /**
+   * Remove reference image
+   */
+  removeReferenceImage(id: string): void {
+    this.referenceStore.removeImage(id);
+    this.trackedImages.delete(id);
+    this.trackingStates.delete(id);
+    log.info(`Reference image removed: ${id}`);
+  }
+
+  /**
+   * Get reference store (for advanced use)
+   */
+  getReferenceStore(): ReferenceImageStore {
+    return this.referenceStore;
+  }
+
+  /**
+   * Get tracked images
+   */
+  getTrackedImages(): TrackedImage[] {
+    return Array.from(this.trackedImages.values());
+  }
+
+  /**
+   * Get specific tracked image
+   */
+  getTrackedImage(id: string): TrackedImage | undefined {
+    return this.trackedImages.get(id);
+  }
+
+  /**
+   * Process a frame
+   *
+   * Tracked images are propagated with `flow` when given (push the current
+   * frame to the flow tracker first). Detection runs every frame while
+   * nothing is tracked or no flow tracker is available, otherwise every
+   * `detectionInterval` frames to recover lost images and correct drift.
+   * Without a built or loaded index, the first detection with more than
+   * `maxCandidates` references trains one (see ReferenceImageStore.buildIndex).
+   *
+   * @param frame - Keypoints and descriptors of the current frame
+   * @param cameraIntrinsics - Intrinsics of the current frame
+   * @param flow - Optional point tracker from the previous frame
+   * @returns Images tracked in this frame
+   */
+  async track(
+    frame: FrameFeatures,
+    cameraIntrinsics: CameraIntrinsics,
+    flow?: PointTracker
+  ): Promise<TrackedImage[]> {
+    const results = new Map<string, { tracked: TrackedImage; state: ImageTrackingState }>();
+
+    // Frame-to-frame tracking
+    if (flow) {
+      for (const [id, state] of this.trackingStates) {
+        const result = await this.propagateImage(id, state, flow, cameraIntrinsics);
+        if (result) {
+          results.set(id, result);
+        }
+      }
+    }
+
+    // Detection
+    this.framesSinceDetection++;
+    const shouldDetect = !flow || results.size === 0 ||
+      this.framesSinceDetection >= this.config.detectionInterval;
+
+    if (shouldDetect && frame.keypoints.length > 0) {
+      this.framesSinceDetection = 0;
+      const frameDescriptors = descriptorsToBytes(frame.descriptors);
+
+      // Retrieval only pays off once there are more references than candidates
+      const store = this.referenceStore;
+      if (!store.getIndex() && store.getCount() > this.config.maxCandidates) {
+        store.buildIndex();
+      }
+
+      for (const reference of store.selectCandidates(frameDescriptors, this.config.maxCandidates)) {
+        const result = this.detectImage(reference, frame.keypoints, frameDescriptors, cameraIntrinsics);
+        if (result) {
+          results.set(reference.id, result);
+        }
+      }
+    }
+
+    this.applyResults(results);
+    return this.getTrackedImages();
+  }
+
+  /**
+   * Update tracking state
+   */
+  updateTracking(imageId: string, tracked: TrackedImage): void {
+    this.trackedImages.set(imageId, tracked);
+  }
+
+  /**
+   * Clear tracking for an image
+   */
+  clearTracking(imageId: string): void {
+    this.trackedImages.delete(imageId);
+    this.trackingStates.delete(imageId);
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.referenceStore.clear();
+    this.trackedImages.clear();
+    this.trackingStates.clear();
+    this.removeAllListeners();
+    log.info('Tracker destroyed');
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Match the frame against one reference and estimate its pose
+   */
+  private detectImage(
+    reference: StoredReferenceImage,
+    frameKeypoints: Keypoint[],
+    frameDescriptors: Uint8Array[],
+    intrinsics: CameraIntrinsics
+  ): { tracked: TrackedImage; state: ImageTrackingState } | null {
+    const features = this.getReferenceFeatures(reference);
+    if (features.descriptors.length < this.config.minMatchCount) {
+      return null;
+    }
+
+    const matches = this.matcher.match(frameDescriptors, features.descriptors);
+    if (matches.length < this.config.minMatchCount) {
+      return null;
+    }
+
+    // Verify reference -> frame (query = reference, train = frame)
+    const swapped: FeatureMatch[] = matches.map(m => ({
+      queryIdx: m.trainIdx,
+      trainIdx: m.queryIdx,
+      distance: m.distance,
+    }));
+
+    const verification = this.verifier.estimateHomography(swapped, features.keypoints, frameKeypoints);
+    if (!verification || verification.inliers.length < this.config.minMatchCount) {
+      return null;
+    }
+
+    const state: ImageTrackingState = {
+      referencePoints: verification.inliers.map(m => toPoint(features.keypoints[m.queryIdx])),
+      framePoints: verification.inliers.map(m => toPoint(frameKeypoints[m.trainIdx])),
+    };
+
+    const tracked = this.buildTrackedImage(
+      reference,
+      state,
+      Array.from(verification.homography.data),
+      verification.inlierRatio,
+      intrinsics
+    );
+
+    return tracked ? { tracked, state } : null;
+  }
+
+  /**
+   * Follow a tracked image's points into the current frame
+   */
+  private async propagateImage(
+    id: string,
+    state: ImageTrackingState,
+    flow: PointTracker,
+    intrinsics: CameraIntrinsics
+  ): Promise<{ tracked: TrackedImage; state: ImageTrackingState } | null> {
+    const reference = this.referenceStore.getImage(id);
+    if (!reference) {
+      return null;
+    }
+
+    const flowed = await flow.track(state.framePoints);
+    const referenceKeypoints: Keypoint[] = [];
+    const frameKeypoints: Keypoint[] = [];
+    const matches: FeatureMatch[] = [];
+
+    flowed.forEach((p, i) => {
+      if (!p.found) {return;}
+      matches.push({ queryIdx: matches.length, trainIdx: matches.length, distance: 0 });
+      referenceKeypoints.push(toKeypoint(state.referencePoints[i]));
+      frameKeypoints.push(toKeypoint(p));
+    });
+
+    if (matches.length < this.config.minTrackingPoints) {
+      return null;
+    }
+
+    const verification = this.verifier.estimateHomography(matches, referenceKeypoints, frameKeypoints);
+    if (!verification || verification.inliers.length < this.config.minTrackingPoints) {
+      return null;
+    }
+
+    const next: ImageTrackingState = {
+      referencePoints: verification.inliers.map(m => toPoint(referenceKeypoints[m.queryIdx])),
+      framePoints: verification.inliers.map(m => toPoint(frameKeypoints[m.trainIdx])),
+    };
+
+    const tracked = this.buildTrackedImage(
+      reference,
+      next,
+      Array.from(verification.homography.data),
+      next.framePoints.length / state.framePoints.length,
+      intrinsics
+    );
+
+    return tracked ? { tracked, state: next } : null;
+  }
+
+  /**
+   * Metric pose of the reference plane from its point correspondences
+   */
+  private buildTrackedImage(
+    reference: StoredReferenceImage,
+    state: ImageTrackingState,
+    homography: number[],
+    confidence: number,
+    intrinsics: CameraIntrinsics
+  ): TrackedImage | null {
+    // Reference plane: centered, x right, y up, z = 0, in meters
+    const objectPoints = state.referencePoints.map(p => new Vector3(
+      (p.x / reference.width - 0.5) * reference.physicalWidth,
+      (0.5 - p.y / reference.height) * reference.physicalHeight,
+      0
+    ));
+
+    const bearings = state.framePoints.map(p => {
+      const [x, y] = pixelToNormalized(intrinsics, [p.x, p.y]);
+      return new Vector3(x, y, 1.0).normalize();
+    });
+
+    const solution = IPPE.solve(objectPoints, bearings);
+    if (!solution) {
+      return null;
+    }
+
+    const best = solution.poses[0];
+    const corners = ([[0, 0], [reference.width, 0], [reference.width, reference.height], [0, reference.height]] as const)
+      .map(([x, y]): [number, number] => {
+        const p = Homography.apply(homography, { x, y });
+        return [p.x, p.y];
+      });
+
+    return {
+      id: reference.id,
+      pose: {
+        position: best.position,
+        rotation: best.rotation,
+        matrix: best.matrix,
+        reprojectionError: best.reprojectionError * intrinsics.fx,
+        inlierRatio: confidence,
+        refinementMethod: 'ippe',
+      },
+      confidence: Math.min(1, Math.max(0, confidence)),
+      matchCount: state.framePoints.length,
+      isTracking: true,
+      homography,
+      corners,
+    };
+  }
+
+  /**
+   * Commit this frame's results and emit found/updated/lost events
+   */
+  private applyResults(results: Map<string, { tracked: TrackedImage; state: ImageTrackingState }>): void {
+    const previous = new Set(this.trackingStates.keys());
+
+    for (const [id, { tracked, state }] of results) {
+      this.trackedImages.set(id, tracked);
+      this.trackingStates.set(id, state);
+
+      if (previous.has(id)) {
+        this.emit('image:updated', tracked);
+      } else {
+        log.info(`Image found: ${id} (${tracked.matchCount} inliers)`);
+        this.emit('image:found', tracked);
+      }
+    }
+
+    for (const id of previous) {
+      if (!results.has(id)) {
+        this.trackedImages.delete(id);
+        this.trackingStates.delete(id);
+        log.info(`Image lost: ${id}`);
+        this.emit('image:lost', id);
+      }
+    }
+  }
+
+  /**
+   * Features of all pyramid levels mapped to full-resolution pixels
+   */
+  private getReferenceFeatures(reference: StoredReferenceImage): ReferenceFeatures {
+    const cached = this.referenceFeatures.get(reference);
+    if (cached) {
+      return cached;
+    }
+
+    const features: ReferenceFeatures = { keypoints: [], descriptors: [] };
+
+    for (const level of reference.features.levels) {
+      const sx = reference.width / level.width;
+      const sy = reference.height / level.height;
+
+      level.keypoints.forEach((kp, k) => {
+        features.keypoints.push({ ...kp, x: kp.x * sx, y: kp.y * sy });
+        features.descriptors.push(level.descriptors[k]);
+      });
+    }
+
+    this.referenceFeatures.set(reference, features);
+    return features;
+  }
+}
+
+// ==================== Private Methods ====================
+
+function toPoint(p: Point): Point {
+  return { x: p.x, y: p.y };
+}
+
+function toKeypoint(p: Point): Keypoint {
+  return { x: p.x, y: p.y, angle: 0, response: 0, octave: 0 };
+}
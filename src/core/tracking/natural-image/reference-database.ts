@@ -0,0 +1,249 @@
+/**
+ * Reference Database
+ * Versioned binary encoding of compiled reference images
+ *
+ * Layout (little-endian), same container as the SLAM map format:
+ *   magic "BARI" | u16 format version | u16 flags | u32 CRC32 | u32 payload size | payload
+ *
+ * The payload holds every image's per-level keypoints and descriptors, the
+ * physical sizes and the vocabulary tree with its inverted index. Pyramid
+ * pixels are not stored: a loaded image is ready for matching without any
+ * image processing.
+ *
+ * Version 1 databases (flat vocabulary) still load; their images are
+ * re-indexed on demand.
+ */
+
+import type { StoredReferenceImage, ScaleLevelFeatures } from './reference-image-store';
+import { VocabularyIndex } from './vocabulary-index';
+import {
+  crc32,
+  writeSections,
+  readSections,
+  getSection,
+  transformBytes,
+} from '../../../utils/binary-sections';
+
+export const REFERENCE_DATABASE_VERSION = 2;
+
+export interface ReferenceDatabaseOptions {
+  // Deflate the payload (skipped when CompressionStream is unavailable)
+  compress?: boolean;
+}
+
+const MAGIC = 0x49524142; // "BARI"
+const HEADER_BYTES = 16;
+const FLAG_DEFLATE = 1;
+
+// Keypoint: x, y, angle, response, octave
+const KEYPOINT_STRIDE = 5;
+
+const Section = {
+  META: 'META',
+  KEYPOINTS: 'KPTS',
+  DESCRIPTORS: 'DESC',
+  VOCABULARY_NODES: 'VNOD',
+  VOCABULARY_FIRST_CHILD: 'VFCH',
+  VOCABULARY_CHILD_COUNT: 'VCCH',
+  POSTING_OFFSETS: 'POFF',
+  POSTING_IMAGES: 'PIMG',
+  POSTING_FREQUENCIES: 'PTFQ',
+} as const;
+
+interface DatabaseMeta {
+  descriptorBytes: number;
+  images: Array<{
+    id: string;
+    width: number;
+    height: number;
+    physicalWidth: number;
+    physicalHeight: number;
+    levels: Array<{ scale: number; width: number; height: number; count: number }>;
+  }>;
+  vocabulary: { imageIds: string[] } | null;
+}
+
+/**
+ * Encode reference images and an optional vocabulary index
+ */
+export async function encodeReferenceDatabase(
+  images: StoredReferenceImage[],
+  vocabulary: VocabularyIndex | null,
+  options: ReferenceDatabaseOptions = {}
+): Promise<Uint8Array> {
+  const levels = images.flatMap(image => image.features.levels);
+  const descriptorBytes = levels.find(level => level.descriptors.length > 0)?.descriptors[0].length ?? 32;
+  const count = levels.reduce((sum, level) => sum + level.keypoints.length, 0);
+
+  const keypoints = new Float32Array(count * KEYPOINT_STRIDE);
+  const descriptors = new Uint8Array(count * descriptorBytes);
+
+  let k = 0;
+  for (const level of levels) {
+    level.keypoints.forEach((kp, i) => {
+      const descriptor = level.descriptors[i];
+      if (descriptor.length !== descriptorBytes) {
+        throw new Error(
+          `Descriptor length mismatch: expected ${descriptorBytes} bytes, got ${descriptor.length}`
+        );
+      }
+      keypoints.set([kp.x, kp.y, kp.angle, kp.response, kp.octave], k * KEYPOINT_STRIDE);
+      descriptors.set(descriptor, k * descriptorBytes);
+      k++;
+    });
+  }
+
+  const vocabularyData = vocabulary?.toData() ?? null;
+  const meta: DatabaseMeta = {
+    descriptorBytes,
+    images: images.map(image => ({
+      id: image.id,
+      width: image.width,
+      height: image.height,
+      physicalWidth: image.physicalWidth,
+      physicalHeight: image.physicalHeight,
+      levels: image.features.levels.map(level => ({
+        scale: level.scale,
+        width: level.width,
+        height: level.height,
+        count: level.keypoints.length,
+      })),
+    })),
+    vocabulary: vocabularyData ? { imageIds: vocabularyData.imageIds } : null,
+  };
+
+  const sections: Array<[string, ArrayBufferView]> = [
+    [Section.META, new TextEncoder().encode(JSON.stringify(meta))],
+    [Section.KEYPOINTS, keypoints],
+    [Section.DESCRIPTORS, descriptors],
+  ];
+
+  if (vocabularyData) {
+    sections.push(
+      [Section.VOCABULARY_NODES, vocabularyData.nodes],
+      [Section.VOCABULARY_FIRST_CHILD, vocabularyData.firstChild],
+      [Section.VOCABULARY_CHILD_COUNT, vocabularyData.childCount],
+      [Section.POSTING_OFFSETS, vocabularyData.postingOffsets],
+      [Section.POSTING_IMAGES, vocabularyData.postingImages],
+      [Section.POSTING_FREQUENCIES, vocabularyData.postingFrequencies]
+    );
+  }
+
+  const payload = writeSections(sections);
+
+  const compress = (options.compress ?? true) && typeof CompressionStream !== 'undefined';
+  const body = compress ? await transformBytes(payload, new CompressionStream('deflate')) : payload;
+
+  const bytes = new Uint8Array(HEADER_BYTES + body.length);
+  const header = new DataView(bytes.buffer);
+  header.setUint32(0, MAGIC, true);
+  header.setUint16(4, REFERENCE_DATABASE_VERSION, true);
+  header.setUint16(6, compress ? FLAG_DEFLATE : 0, true);
+  header.setUint32(8, crc32(payload), true);
+  header.setUint32(12, payload.length, true);
+  bytes.set(body, HEADER_BYTES);
+
+  return bytes;
+}
+
+/**
+ * Decode reference images and their vocabulary index
+ * Verifies the format version and checksum.
+ */
+export async function decodeReferenceDatabase(
+  bytes: Uint8Array
+): Promise<{ images: StoredReferenceImage[]; vocabulary: VocabularyIndex | null }> {
+  if (!isReferenceDatabase(bytes)) {
+    throw new Error('Invalid reference database: missing header');
+  }
+
+  const header = new DataView(bytes.buffer, bytes.byteOffset, HEADER_BYTES);
+  const version = header.getUint16(4, true);
+  const flags = header.getUint16(6, true);
+  const checksum = header.getUint32(8, true);
+  const payloadBytes = header.getUint32(12, true);
+
+  if (version > REFERENCE_DATABASE_VERSION) {
+    throw new Error(`Unsupported reference database version: ${version}`);
+  }
+
+  const body = bytes.subarray(HEADER_BYTES);
+  let payload: Uint8Array;
+  if (flags & FLAG_DEFLATE) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('DecompressionStream not supported');
+    }
+    payload = await transformBytes(body, new DecompressionStream('deflate'));
+  } else {
+    payload = body;
+  }
+
+  if (payload.length !== payloadBytes || crc32(payload) !== checksum) {
+    throw new Error('Reference database checksum mismatch: data is corrupted');
+  }
+
+  const sections = readSections(payload, 'reference database');
+  const section = (tag: string) => getSection(sections, tag, 'reference database');
+  const meta = JSON.parse(new TextDecoder().decode(section(Section.META))) as DatabaseMeta;
+  const { descriptorBytes } = meta;
+
+  const keypoints = new Float32Array(section(Section.KEYPOINTS).buffer);
+  const descriptors = section(Section.DESCRIPTORS);
+
+  let k = 0;
+  const images: StoredReferenceImage[] = meta.images.map(image => {
+    const levels: ScaleLevelFeatures[] = image.levels.map(level => {
+      const features: ScaleLevelFeatures = {
+        scale: level.scale,
+        width: level.width,
+        height: level.height,
+        keypoints: [],
+        descriptors: [],
+      };
+
+      for (let i = 0; i < level.count; i++, k++) {
+        const p = keypoints.subarray(k * KEYPOINT_STRIDE, (k + 1) * KEYPOINT_STRIDE);
+        features.keypoints.push({ x: p[0], y: p[1], angle: p[2], response: p[3], octave: p[4] });
+        features.descriptors.push(descriptors.subarray(k * descriptorBytes, (k + 1) * descriptorBytes));
+      }
+
+      return features;
+    });
+
+    return {
+      id: image.id,
+      width: image.width,
+      height: image.height,
+      physicalWidth: image.physicalWidth,
+      physicalHeight: image.physicalHeight,
+      pyramid: { levels: [], scales: image.levels.map(level => level.scale) },
+      features: { levels },
+    };
+  });
+
+  // Version 1 stored a flat vocabulary, which is not loaded
+  const vocabulary = meta.vocabulary && version >= 2
+    ? new VocabularyIndex({
+      descriptorBytes,
+      nodes: section(Section.VOCABULARY_NODES),
+      firstChild: new Uint32Array(section(Section.VOCABULARY_FIRST_CHILD).buffer),
+      childCount: new Uint32Array(section(Section.VOCABULARY_CHILD_COUNT).buffer),
+      imageIds: meta.vocabulary.imageIds,
+      postingOffsets: new Uint32Array(section(Section.POSTING_OFFSETS).buffer),
+      postingImages: new Uint32Array(section(Section.POSTING_IMAGES).buffer),
+      postingFrequencies: new Float32Array(section(Section.POSTING_FREQUENCIES).buffer),
+    })
+    : null;
+
+  return { images, vocabulary };
+}
+
+/**
+ * Whether bytes start with the reference database header
+ */
+export function isReferenceDatabase(bytes: Uint8Array): boolean {
+  if (bytes.length < HEADER_BYTES) {return false;}
+
+  const header = new DataView(bytes.buffer, bytes.byteOffset, HEADER_BYTES);
+  return header.getUint32(0, true) === MAGIC;
+}
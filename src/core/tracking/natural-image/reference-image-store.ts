@@ -4,18 +4,48 @@
  *
  * Features:
  * - Multi-scale pyramid (8 levels)
- * - Precomputed ORB descriptors at each scale
+ * - Precomputed ORB descriptors at each scale (CPU, same as the GPU detector)
  * - Efficient lookup and matching
+ * - Offline compilation into a binary database (runs without a GPU or DOM)
  */
 
 import { Logger } from '../../../utils/logger';
 import type { Keypoint } from '../../detection/feature-detector';
+import { extractORBFeatures, rgbaToGray, descriptorsToBytes } from '../../detection/orb-extractor';
+import { VocabularyIndex, type VocabularyConfig } from './vocabulary-index';
+import {
+  encodeReferenceDatabase,
+  decodeReferenceDatabase,
+  type ReferenceDatabaseOptions,
+} from './reference-database';
 
 const log = Logger.create('ReferenceImageStore');
 
+export interface ReferenceImageStoreConfig {
+  // ORB keypoints kept per pyramid level (default: 500)
+  maxFeaturesPerLevel?: number;
+
+  // FAST threshold in 0-255, same as the live FeatureDetector (default: 20)
+  fastThreshold?: number;
+}
+
+/**
+ * RGBA pixels (ImageData-compatible, usable without a DOM)
+ */
+export interface ImagePixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface CompileOptions extends ReferenceDatabaseOptions {
+  // Vocabulary for candidate selection
+  vocabulary?: VocabularyConfig;
+}
+
 export interface ReferenceImage {
   id: string;
-  imageData: ImageData | ImageBitmap;
+  imageData: ImageData | ImageBitmap | ImagePixels;
   physicalWidth?: number; // Real-world size in meters
   physicalHeight?: number;
 }
@@ -31,7 +61,7 @@ export interface StoredReferenceImage {
 }
 
 export interface ImagePyramid {
-  levels: ImageData[];
+  levels: ImagePixels[]; // Empty for images loaded from a compiled database
   scales: number[];
 }
 
@@ -41,14 +71,25 @@ export interface MultiScaleFeatures {
 
 export interface ScaleLevelFeatures {
   scale: number;
-  keypoints: Keypoint[];
+  width: number; // Level size in pixels
+  height: number;
+  keypoints: Keypoint[]; // In level pixels, octave = level index
   descriptors: Uint8Array[]; // ORB descriptors
 }
 
 export class ReferenceImageStore {
   private images: Map<string, StoredReferenceImage> = new Map();
+  private vocabulary: VocabularyIndex | null = null;
   private readonly pyramidLevels = 8;
   private readonly scaleFactor = 0.8; // Each level is 80% of previous
+  private config: Required<ReferenceImageStoreConfig>;
+
+  constructor(config: ReferenceImageStoreConfig = {}) {
+    this.config = {
+      maxFeaturesPerLevel: config.maxFeaturesPerLevel ?? 500,
+      fastThreshold: config.fastThreshold ?? 20,
+    };
+  }
 
   /**
    * Add reference image to store
@@ -56,14 +97,12 @@ export class ReferenceImageStore {
   async addImage(image: ReferenceImage): Promise<void> {
     log.info(`Adding reference image: ${image.id}`);
 
-    // Convert to ImageData if needed
-    const imageData = await this.toImageData(image.imageData);
+    // Convert to pixels if needed
+    const imageData = await this.toPixels(image.imageData);
 
     // Build multi-scale pyramid
     const pyramid = this.buildPyramid(imageData);
 
-    // For now, we'll store the pyramid without computing features
-    // Features will be computed on-demand during tracking
     const stored: StoredReferenceImage = {
       id: image.id,
       width: imageData.width,
@@ -73,17 +112,13 @@ export class ReferenceImageStore {
         image.physicalHeight ??
         (imageData.height / imageData.width) * (image.physicalWidth ?? 0.1),
       pyramid,
-      features: {
-        levels: pyramid.levels.map((level, i) => ({
-          scale: pyramid.scales[i],
-          keypoints: [],
-          descriptors: [],
-        })),
-      },
+      features: this.computeFeatures(pyramid),
     };
 
     this.images.set(image.id, stored);
-    log.info(`Reference image added: ${image.id} (${stored.width}x${stored.height})`);
+    this.vocabulary?.addImage(image.id, imageDescriptors(stored));
+    const featureCount = stored.features.levels.reduce((sum, level) => sum + level.keypoints.length, 0);
+    log.info(`Reference image added: ${image.id} (${stored.width}x${stored.height}, ${featureCount} features)`);
   }
 
   /**
@@ -91,6 +126,7 @@ export class ReferenceImageStore {
    */
   removeImage(id: string): boolean {
     const removed = this.images.delete(id);
+    this.vocabulary?.removeImage(id);
     if (removed) {
       log.info(`Reference image removed: ${id}`);
     }
@@ -123,14 +159,94 @@ export class ReferenceImageStore {
    */
   clear(): void {
     this.images.clear();
+    this.vocabulary = null;
     log.info('All reference images cleared');
   }
 
+  /**
+   * Train a vocabulary tree on the current images and index them
+   * Images added later are indexed with the same vocabulary.
+   */
+  buildIndex(config: VocabularyConfig = {}): VocabularyIndex {
+    const images = this.getAllImages().map(image => ({
+      id: image.id,
+      descriptors: imageDescriptors(image),
+    }));
+
+    this.vocabulary = VocabularyIndex.build(images, config);
+    log.info(`Vocabulary index built: ${this.vocabulary.getWordCount()} words, ${images.length} images`);
+    return this.vocabulary;
+  }
+
+  /**
+   * Get the vocabulary index, if built or loaded
+   */
+  getIndex(): VocabularyIndex | null {
+    return this.vocabulary;
+  }
+
+  /**
+   * Images worth matching against a frame, most promising first
+   * Without an index every image is a candidate.
+   *
+   * @param descriptors - Descriptors of the live frame
+   * @param maxCandidates - Number of best ranked images to return
+   */
+  selectCandidates(descriptors: Uint8Array[], maxCandidates = Infinity): StoredReferenceImage[] {
+    if (!this.vocabulary) {
+      return this.getAllImages();
+    }
+
+    return this.vocabulary
+      .query(descriptors, maxCandidates)
+      .map(candidate => this.images.get(candidate.id))
+      .filter((image): image is StoredReferenceImage => image !== undefined);
+  }
+
+  /**
+   * Serialize features, physical sizes and a vocabulary index into a binary database
+   * Pyramid pixels are not stored. Runs under Node/Bun (no GPU or DOM needed).
+   */
+  async compile(options: CompileOptions = {}): Promise<Uint8Array> {
+    const vocabulary = this.buildIndex(options.vocabulary);
+    const bytes = await encodeReferenceDatabase(this.getAllImages(), vocabulary, options);
+
+    log.info(`Compiled ${this.images.size} reference images (${bytes.length} bytes)`);
+    return bytes;
+  }
+
+  /**
+   * Load a compiled database, replacing images with the same id
+   */
+  async load(bytes: Uint8Array): Promise<void> {
+    const { images, vocabulary } = await decodeReferenceDatabase(bytes);
+
+    for (const image of images) {
+      this.images.set(image.id, image);
+    }
+
+    if (vocabulary) {
+      // Keep images added before loading retrievable
+      for (const image of this.images.values()) {
+        if (!vocabulary.hasImage(image.id)) {
+          vocabulary.addImage(image.id, imageDescriptors(image));
+        }
+      }
+      this.vocabulary = vocabulary;
+    } else {
+      for (const image of images) {
+        this.vocabulary?.addImage(image.id, imageDescriptors(image));
+      }
+    }
+
+    log.info(`Loaded ${images.length} reference images from database`);
+  }
+
   /**
    * Build multi-scale pyramid for image
    */
-  private buildPyramid(imageData: ImageData): ImagePyramid {
-    const levels: ImageData[] = [imageData];
+  private buildPyramid(imageData: ImagePixels): ImagePyramid {
+    const levels: ImagePixels[] = [imageData];
     const scales: number[] = [1.0];
 
     let currentLevel = imageData;
@@ -161,19 +277,45 @@ export class ReferenceImageStore {
     return { levels, scales };
   }
 
+  /**
+   * ORB features of every pyramid level
+   */
+  private computeFeatures(pyramid: ImagePyramid): MultiScaleFeatures {
+    return {
+      levels: pyramid.levels.map((level, i) => {
+        const { keypoints, descriptors } = extractORBFeatures(rgbaToGray(level), {
+          maxKeypoints: this.config.maxFeaturesPerLevel,
+          fastThreshold: this.config.fastThreshold,
+        });
+
+        return {
+          scale: pyramid.scales[i],
+          width: level.width,
+          height: level.height,
+          keypoints: keypoints.map(kp => ({ ...kp, octave: i })),
+          descriptors: descriptorsToBytes(descriptors),
+        };
+      }),
+    };
+  }
+
   /**
    * Resize image data (simple bilinear)
    */
   private resizeImageData(
-    source: ImageData,
+    source: ImagePixels,
     targetWidth: number,
     targetHeight: number
-  ): ImageData {
+  ): ImagePixels {
     const srcWidth = source.width;
     const srcHeight = source.height;
     const srcData = source.data;
 
-    const target = new ImageData(targetWidth, targetHeight);
+    const target: ImagePixels = {
+      data: new Uint8ClampedArray(targetWidth * targetHeight * 4),
+      width: targetWidth,
+      height: targetHeight,
+    };
     const targetData = target.data;
 
     const xRatio = srcWidth / targetWidth;
@@ -214,12 +356,12 @@ export class ReferenceImageStore {
   }
 
   /**
-   * Convert ImageBitmap to ImageData
+   * Convert ImageBitmap to pixels (ImageData and raw pixels pass through)
    */
-  private async toImageData(
-    source: ImageData | ImageBitmap
-  ): Promise<ImageData> {
-    if (source instanceof ImageData) {
+  private async toPixels(
+    source: ImageData | ImageBitmap | ImagePixels
+  ): Promise<ImagePixels> {
+    if ('data' in source) {
       return source;
     }
 
@@ -234,3 +376,33 @@ export class ReferenceImageStore {
     return ctx.getImageData(0, 0, source.width, source.height);
   }
 }
+
+/**
+ * Descriptors of all pyramid levels
+ */
+function imageDescriptors(image: StoredReferenceImage): Uint8Array[] {
+  return image.features.levels.flatMap(level => level.descriptors);
+}
+
+/**
+ * Compile reference images into a database in one step (offline tooling)
+ *
+ * @example
+ * ```typescript
+ * // build-targets.ts, run with `bun build-targets.ts`
+ * const bytes = await compileReferenceDatabase([
+ *   { id: 'poster', imageData: { data, width, height }, physicalWidth: 0.42 },
+ * ]);
+ * await Bun.write('targets.bari', bytes);
+ * ```
+ */
+export async function compileReferenceDatabase(
+  images: ReferenceImage[],
+  options: CompileOptions & ReferenceImageStoreConfig = {}
+): Promise<Uint8Array> {
+  const store = new ReferenceImageStore(options);
+  for (const image of images) {
+    await store.addImage(image);
+  }
+  return store.compile(options);
+}
@@ -0,0 +1,459 @@
+/**
+ * Vocabulary Index
+ * Vocabulary-tree retrieval over binary descriptors
+ *
+ * Reference descriptors are clustered into a hierarchical k-majority tree
+ * (k-means with Hamming distance and bitwise-majority centers, applied
+ * recursively); its leaves are the visual words. Quantizing a descriptor
+ * costs branching × depth distance computations, so vocabularies of
+ * thousands of words stay cheap. Images are scored against a frame with
+ * TF-IDF weights and the L1 score of DBoW2, using an inverted index so only
+ * images sharing words with the frame are touched.
+ */
+
+import { createRandom } from '../../../utils/random';
+
+export interface VocabularyConfig {
+  // Children per tree node (default: 10)
+  branching?: number;
+
+  // Tree depth, up to branching^depth words (default: 3)
+  depth?: number;
+
+  // k-majority iterations per node (default: 5)
+  iterations?: number;
+
+  // Seed for the initial centers (default: 1)
+  seed?: number;
+}
+
+export interface ImageCandidate {
+  id: string;
+  score: number; // L1 similarity of the TF-IDF vectors (0-1)
+}
+
+/**
+ * Flat arrays of an index, as stored in a reference database
+ */
+export interface VocabularyData {
+  descriptorBytes: number;
+  nodes: Uint8Array; // nodeCount × descriptorBytes centers (node 0 is the root)
+  firstChild: Uint32Array; // Id of the first child per node (children are contiguous)
+  childCount: Uint32Array; // 0 for leaves (words)
+  imageIds: string[];
+  postingOffsets: Uint32Array; // wordCount + 1 offsets into the posting arrays
+  postingImages: Uint32Array; // Image index per posting
+  postingFrequencies: Float32Array; // Term frequency of the word in that image
+}
+
+export class VocabularyIndex {
+  private descriptorBytes: number;
+  private stride: number;
+  private centers: Uint32Array;
+  private firstChild: Uint32Array;
+  private childCount: Uint32Array;
+  private nodeWords: Int32Array; // Word id per leaf node, -1 for inner nodes
+  private wordCount: number;
+
+  // Inverted index: word -> (image id -> term frequency)
+  private postings: Array<Map<string, number>>;
+  private imageIds: string[] = [];
+
+  // TF-IDF state, recomputed lazily after the image set changes
+  private idf: Float64Array;
+  private norms: Map<string, number> = new Map();
+  private dirty = true;
+
+  constructor(data: VocabularyData) {
+    if (data.descriptorBytes % 4 !== 0) {
+      throw new Error(`Descriptor size must be a multiple of 4 bytes, got ${data.descriptorBytes}`);
+    }
+
+    this.descriptorBytes = data.descriptorBytes;
+    this.stride = data.descriptorBytes / 4;
+    this.centers = packDescriptors(splitDescriptors(data.nodes, data.descriptorBytes), data.descriptorBytes);
+    this.firstChild = data.firstChild;
+    this.childCount = data.childCount;
+
+    this.nodeWords = new Int32Array(data.childCount.length);
+    let words = 0;
+    data.childCount.forEach((count, node) => {
+      this.nodeWords[node] = count === 0 ? words++ : -1;
+    });
+    this.wordCount = words;
+
+    this.postings = Array.from({ length: this.wordCount }, () => new Map<string, number>());
+    this.idf = new Float64Array(this.wordCount);
+    this.imageIds = [...data.imageIds];
+
+    for (let word = 0; word < this.wordCount; word++) {
+      for (let p = data.postingOffsets[word]; p < data.postingOffsets[word + 1]; p++) {
+        this.postings[word].set(data.imageIds[data.postingImages[p]], data.postingFrequencies[p]);
+      }
+    }
+  }
+
+  /**
+   * Learn a vocabulary tree from reference descriptors and index the images
+   */
+  static build(
+    images: Array<{ id: string; descriptors: Uint8Array[] }>,
+    config: VocabularyConfig = {}
+  ): VocabularyIndex {
+    const all = images.flatMap(image => image.descriptors);
+    const descriptorBytes = all[0]?.length ?? 32;
+    const branching = Math.max(2, config.branching ?? 10);
+    const depth = Math.max(1, config.depth ?? 3);
+    const iterations = config.iterations ?? 5;
+    const random = createRandom(config.seed ?? 1);
+
+    const stride = descriptorBytes / 4;
+    const packed = packDescriptors(all, descriptorBytes);
+
+    const centers: Uint32Array[] = [new Uint32Array(stride)];
+    const firstChild: number[] = [0];
+    const childCount: number[] = [0];
+
+    const stack = [{ node: 0, members: all.map((_, i) => i), level: 0 }];
+    while (stack.length > 0) {
+      const { node, members, level } = stack.pop()!;
+
+      // Few descriptors left: each becomes its own word
+      const clusters = members.length <= branching
+        ? members.map(i => ({ center: packed.slice(i * stride, (i + 1) * stride), members: [i] }))
+        : kMajority(packed, members, branching, iterations, stride, random);
+
+      firstChild[node] = centers.length;
+      childCount[node] = clusters.length;
+
+      for (const cluster of clusters) {
+        const child = centers.length;
+        centers.push(cluster.center);
+        firstChild.push(0);
+        childCount.push(0);
+
+        if (level + 1 < depth && cluster.members.length > 1) {
+          stack.push({ node: child, members: cluster.members, level: level + 1 });
+        }
+      }
+    }
+
+    const nodes = new Uint8Array(centers.length * descriptorBytes);
+    centers.forEach((center, i) => {
+      nodes.set(new Uint8Array(center.buffer, center.byteOffset, descriptorBytes), i * descriptorBytes);
+    });
+
+    const index = new VocabularyIndex({
+      descriptorBytes,
+      nodes,
+      firstChild: Uint32Array.from(firstChild),
+      childCount: Uint32Array.from(childCount),
+      imageIds: [],
+      postingOffsets: new Uint32Array(childCount.filter(count => count === 0).length + 1),
+      postingImages: new Uint32Array(0),
+      postingFrequencies: new Float32Array(0),
+    });
+
+    for (const image of images) {
+      index.addImage(image.id, image.descriptors);
+    }
+    return index;
+  }
+
+  /**
+   * Index an image with the existing vocabulary (replaces an image with the same id)
+   */
+  addImage(id: string, descriptors: Uint8Array[]): void {
+    this.removeImage(id);
+
+    const counts = this.countWords(descriptors);
+    counts.forEach((count, word) => {
+      this.postings[word].set(id, count / descriptors.length);
+    });
+
+    this.imageIds.push(id);
+    this.dirty = true;
+  }
+
+  /**
+   * Remove an image from the inverted index
+   */
+  removeImage(id: string): void {
+    const i = this.imageIds.indexOf(id);
+    if (i < 0) {return;}
+
+    this.imageIds.splice(i, 1);
+    for (const posting of this.postings) {
+      posting.delete(id);
+    }
+    this.dirty = true;
+  }
+
+  hasImage(id: string): boolean {
+    return this.imageIds.includes(id);
+  }
+
+  /**
+   * Rank indexed images by TF-IDF similarity to a frame
+   *
+   * @param descriptors - Descriptors of the live frame
+   * @param maxResults - Number of best images to return
+   * @returns Images sharing at least one informative word, best first
+   */
+  query(descriptors: Uint8Array[], maxResults = Infinity): ImageCandidate[] {
+    if (descriptors.length === 0 || this.imageIds.length === 0) {return [];}
+    this.updateWeights();
+
+    // Normalized query vector (L1)
+    const query = new Map<number, number>();
+    let queryNorm = 0;
+    this.countWords(descriptors).forEach((count, word) => {
+      const weight = (count / descriptors.length) * this.idf[word];
+      query.set(word, weight);
+      queryNorm += weight;
+    });
+    if (queryNorm === 0) {return [];}
+
+    // L1 score: sum over shared words of |q| + |v| - |q - v|, halved
+    const scores = new Map<string, number>();
+    query.forEach((weight, word) => {
+      const q = weight / queryNorm;
+      for (const [id, frequency] of this.postings[word]) {
+        const v = (frequency * this.idf[word]) / this.norms.get(id)!;
+        scores.set(id, (scores.get(id) ?? 0) + q + v - Math.abs(q - v));
+      }
+    });
+
+    const candidates: ImageCandidate[] = [];
+    scores.forEach((score, id) => {
+      if (score > 0) {
+        candidates.push({ id, score: score / 2 });
+      }
+    });
+
+    return candidates.sort((a, b) => b.score - a.score).slice(0, maxResults);
+  }
+
+  /**
+   * Visual word of a descriptor (leaf reached by descending the tree)
+   */
+  quantize(descriptor: Uint8Array): number {
+    return this.quantizePacked(packDescriptors([descriptor], this.descriptorBytes), 0);
+  }
+
+  getWordCount(): number {
+    return this.wordCount;
+  }
+
+  getImageIds(): string[] {
+    return [...this.imageIds];
+  }
+
+  /**
+   * Flat arrays for serialization
+   */
+  toData(): VocabularyData {
+    const imageIndex = new Map(this.imageIds.map((id, i) => [id, i]));
+    const total = this.postings.reduce((sum, posting) => sum + posting.size, 0);
+    const postingOffsets = new Uint32Array(this.wordCount + 1);
+    const postingImages = new Uint32Array(total);
+    const postingFrequencies = new Float32Array(total);
+
+    let p = 0;
+    this.postings.forEach((posting, word) => {
+      postingOffsets[word] = p;
+      for (const [id, frequency] of posting) {
+        postingImages[p] = imageIndex.get(id)!;
+        postingFrequencies[p] = frequency;
+        p++;
+      }
+    });
+    postingOffsets[this.wordCount] = p;
+
+    return {
+      descriptorBytes: this.descriptorBytes,
+      nodes: new Uint8Array(this.centers.buffer, this.centers.byteOffset, this.centers.byteLength),
+      firstChild: this.firstChild,
+      childCount: this.childCount,
+      imageIds: [...this.imageIds],
+      postingOffsets,
+      postingImages,
+      postingFrequencies,
+    };
+  }
+
+  // ==================== Private Methods ====================
+
+  private quantizePacked(packed: Uint32Array, i: number): number {
+    let node = 0;
+    while (this.childCount[node] > 0) {
+      const first = this.firstChild[node];
+      const children = this.centers.subarray(first * this.stride, (first + this.childCount[node]) * this.stride);
+      node = first + nearest(packed, i, children, this.childCount[node], this.stride);
+    }
+    return this.nodeWords[node];
+  }
+
+  /**
+   * Word histogram of a descriptor set
+   */
+  private countWords(descriptors: Uint8Array[]): Map<number, number> {
+    const packed = packDescriptors(descriptors, this.descriptorBytes);
+    const counts = new Map<number, number>();
+
+    for (let i = 0; i < descriptors.length; i++) {
+      const word = this.quantizePacked(packed, i);
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+
+    return counts;
+  }
+
+  /**
+   * Inverse document frequencies and L1 norms of the image vectors
+   * Smoothed IDF, log(1 + N / n), so words seen in every image still count
+   * (e.g. single-image sets).
+   */
+  private updateWeights(): void {
+    if (!this.dirty) {return;}
+
+    const imageCount = this.imageIds.length;
+    this.postings.forEach((posting, word) => {
+      this.idf[word] = posting.size > 0 ? Math.log(1 + imageCount / posting.size) : 0;
+    });
+
+    this.norms.clear();
+    this.postings.forEach((posting, word) => {
+      for (const [id, frequency] of posting) {
+        this.norms.set(id, (this.norms.get(id) ?? 0) + frequency * this.idf[word]);
+      }
+    });
+
+    this.dirty = false;
+  }
+}
+
+// ==================== Private Methods ====================
+
+/**
+ * Copy descriptors into one aligned word array
+ */
+function packDescriptors(descriptors: Uint8Array[], descriptorBytes: number): Uint32Array {
+  const bytes = new Uint8Array(descriptors.length * descriptorBytes);
+  descriptors.forEach((d, i) => bytes.set(d.subarray(0, descriptorBytes), i * descriptorBytes));
+  return new Uint32Array(bytes.buffer);
+}
+
+function splitDescriptors(bytes: Uint8Array, descriptorBytes: number): Uint8Array[] {
+  const result: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length; offset += descriptorBytes) {
+    result.push(bytes.subarray(offset, offset + descriptorBytes));
+  }
+  return result;
+}
+
+/**
+ * Cluster a subset of descriptors into at most k non-empty groups
+ */
+function kMajority(
+  packed: Uint32Array,
+  members: number[],
+  k: number,
+  iterations: number,
+  stride: number,
+  random: () => number
+): Array<{ center: Uint32Array; members: number[] }> {
+  const centers = new Uint32Array(k * stride);
+
+  // Initial centers: distinct random members (partial Fisher-Yates)
+  const order = [...members];
+  for (let c = 0; c < k; c++) {
+    const j = c + Math.floor(random() * (order.length - c));
+    [order[c], order[j]] = [order[j], order[c]];
+    centers.set(packed.subarray(order[c] * stride, (order[c] + 1) * stride), c * stride);
+  }
+
+  const assignments = new Uint32Array(members.length);
+  const assign = () => members.forEach((i, m) => {
+    assignments[m] = nearest(packed, i, centers, k, stride);
+  });
+
+  for (let iter = 0; iter < iterations; iter++) {
+    assign();
+    updateCenters(packed, members, assignments, centers, k, stride);
+  }
+  assign();
+
+  const groups: number[][] = Array.from({ length: k }, () => []);
+  members.forEach((i, m) => groups[assignments[m]].push(i));
+
+  return groups
+    .map((group, c) => ({ center: centers.slice(c * stride, (c + 1) * stride), members: group }))
+    .filter(cluster => cluster.members.length > 0);
+}
+
+/**
+ * Index of the center closest to descriptor i (Hamming distance)
+ */
+function nearest(packed: Uint32Array, i: number, centers: Uint32Array, count: number, stride: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+
+  for (let c = 0; c < count; c++) {
+    let distance = 0;
+    for (let k = 0; k < stride && distance < bestDistance; k++) {
+      distance += popcount(packed[i * stride + k] ^ centers[c * stride + k]);
+    }
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = c;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Bitwise majority of each cluster; empty clusters keep their center
+ */
+function updateCenters(
+  packed: Uint32Array,
+  members: number[],
+  assignments: Uint32Array,
+  centers: Uint32Array,
+  count: number,
+  stride: number
+): void {
+  const bits = stride * 32;
+  const ones = new Uint32Array(count * bits);
+  const sizes = new Uint32Array(count);
+
+  members.forEach((i, m) => {
+    const c = assignments[m];
+    sizes[c]++;
+    for (let b = 0; b < bits; b++) {
+      if (packed[i * stride + (b >> 5)] & (1 << (b & 31))) {
+        ones[c * bits + b]++;
+      }
+    }
+  });
+
+  for (let c = 0; c < count; c++) {
+    if (sizes[c] === 0) {continue;}
+    for (let k = 0; k < stride; k++) {
+      let word = 0;
+      for (let b = 0; b < 32; b++) {
+        if (ones[c * bits + k * 32 + b] * 2 > sizes[c]) {
+          word |= 1 << b;
+        }
+      }
+      centers[c * stride + k] = word >>> 0;
+    }
+  }
+}
+
+function popcount(v: number): number {
+  v = v - ((v >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
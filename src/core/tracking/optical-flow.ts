@@ -0,0 +1,349 @@
+/**
+ * Optical Flow
+ * Pyramidal Lucas-Kanade (KLT) point tracking between consecutive frames
+ *
+ * Based on:
+ * "Pyramidal Implementation of the Lucas Kanade Feature Tracker"
+ * by Bouguet (2000)
+ *
+ * CPU reference implementation; GPUOpticalFlow runs the same algorithm in a
+ * compute shader. Points are tracked coarse to fine: the flow found at each
+ * pyramid level seeds the next finer one, so motions far larger than the
+ * window are recovered. A forward-backward check rejects drifting points.
+ */
+
+import type { Keypoint } from '../detection/feature-detector';
+import type { MarkerCorners } from '../detection/marker-detector';
+
+export interface OpticalFlowConfig {
+  // Side of the square integration window in pixels (default: 21)
+  windowSize?: number;
+
+  // Pyramid levels including full resolution (default: 3)
+  pyramidLevels?: number;
+
+  // Gauss-Newton iterations per level (default: 20)
+  maxIterations?: number;
+
+  // Stop iterating once the update is below this many pixels (default: 0.01)
+  epsilon?: number;
+
+  // Smallest eigenvalue of the normalized structure tensor (default: 1e-4)
+  minEigenvalue?: number;
+
+  // Forward-backward error in pixels before a point is rejected, 0 disables (default: 1)
+  maxForwardBackwardError?: number;
+}
+
+/**
+ * Grayscale image (one byte per pixel)
+ */
+export interface GrayImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface PyramidLevel {
+  data: Float32Array; // Intensities in [0, 1]
+  width: number;
+  height: number;
+}
+
+export type ImagePyramid = PyramidLevel[];
+
+export interface FlowPoint {
+  x: number;
+  y: number;
+  found: boolean;
+  error: number; // Mean absolute intensity difference over the window (0-255)
+}
+
+/**
+ * Build a Gaussian image pyramid (5-tap binomial filter, factor 2)
+ */
+export function buildImagePyramid(image: GrayImage, levels: number): ImagePyramid {
+  const base = new Float32Array(image.width * image.height);
+  for (let i = 0; i < base.length; i++) {
+    base[i] = image.data[i] / 255;
+  }
+
+  const pyramid: ImagePyramid = [{ data: base, width: image.width, height: image.height }];
+
+  for (let l = 1; l < levels; l++) {
+    const prev = pyramid[l - 1];
+    if (prev.width < 2 || prev.height < 2) {break;}
+
+    const width = Math.floor(prev.width / 2);
+    const height = Math.floor(prev.height / 2);
+
+    pyramid.push({ data: downsample(prev, width, height), width, height });
+  }
+
+  return pyramid;
+}
+
+export class OpticalFlow {
+  private config: Required<OpticalFlowConfig>;
+
+  constructor(config: OpticalFlowConfig = {}) {
+    this.config = resolveOpticalFlowConfig(config);
+  }
+
+  /**
+   * Build a pyramid with this tracker's level count
+   */
+  buildPyramid(image: GrayImage): ImagePyramid {
+    return buildImagePyramid(image, this.config.pyramidLevels);
+  }
+
+  /**
+   * Track points from the previous frame into the next one
+   *
+   * @param prev - Pyramid of the previous frame
+   * @param next - Pyramid of the current frame
+   * @param points - Pixel positions in the previous frame
+   * @returns Positions in the current frame with a status per point
+   */
+  track(prev: ImagePyramid, next: ImagePyramid, points: Array<{ x: number; y: number }>): FlowPoint[] {
+    const forward = points.map(p => this.trackPoint(prev, next, p.x, p.y));
+
+    if (this.config.maxForwardBackwardError <= 0) {
+      return forward;
+    }
+
+    return forward.map((result, i) => {
+      if (!result.found) {return result;}
+
+      const back = this.trackPoint(next, prev, result.x, result.y);
+      const fbError = Math.hypot(back.x - points[i].x, back.y - points[i].y);
+
+      return back.found && fbError <= this.config.maxForwardBackwardError
+        ? result
+        : { ...result, found: false };
+    });
+  }
+
+  /**
+   * Track the four corners of a marker
+   * @returns Propagated corners, or null if any corner was lost
+   */
+  trackCorners(prev: ImagePyramid, next: ImagePyramid, corners: MarkerCorners): MarkerCorners | null {
+    return flowToCorners(this.track(prev, next, cornersToPoints(corners)));
+  }
+
+  /**
+   * Track keypoints, dropping the ones that were lost
+   */
+  trackKeypoints(prev: ImagePyramid, next: ImagePyramid, keypoints: Keypoint[]): Keypoint[] {
+    return flowToKeypoints(keypoints, this.track(prev, next, keypoints));
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Coarse-to-fine Lucas-Kanade for one point
+   */
+  private trackPoint(prev: ImagePyramid, next: ImagePyramid, x: number, y: number): FlowPoint {
+    const levels = Math.min(prev.length, next.length);
+    const radius = Math.floor(this.config.windowSize / 2);
+    const count = (2 * radius + 1) * (2 * radius + 1);
+
+    // Flow accumulated from coarser levels (gx, gy) and refined at this level (vx, vy)
+    let gx = 0;
+    let gy = 0;
+    let vx = 0;
+    let vy = 0;
+    let error = 0;
+
+    for (let level = levels - 1; level >= 0; level--) {
+      const I = prev[level];
+      const J = next[level];
+      const scale = 1 / (1 << level);
+      const px = x * scale;
+      const py = y * scale;
+
+      // Windows may overlap the border (samples are clamped); the point may not
+      if (px < 0 || py < 0 || px > I.width - 1 || py > I.height - 1) {
+        return { x, y, found: false, error: 0 };
+      }
+
+      // Template and gradients over the window in the previous frame
+      const template = new Float32Array(count);
+      const ix = new Float32Array(count);
+      const iy = new Float32Array(count);
+      let gxx = 0;
+      let gxy = 0;
+      let gyy = 0;
+
+      let k = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++, k++) {
+          const sx = px + dx;
+          const sy = py + dy;
+          template[k] = sample(I, sx, sy);
+          ix[k] = (sample(I, sx + 1, sy) - sample(I, sx - 1, sy)) * 0.5;
+          iy[k] = (sample(I, sx, sy + 1) - sample(I, sx, sy - 1)) * 0.5;
+          gxx += ix[k] * ix[k];
+          gxy += ix[k] * iy[k];
+          gyy += iy[k] * iy[k];
+        }
+      }
+
+      const det = gxx * gyy - gxy * gxy;
+      const minEigenvalue = (gxx + gyy - Math.sqrt((gxx - gyy) ** 2 + 4 * gxy * gxy)) / (2 * count);
+      if (minEigenvalue < this.config.minEigenvalue || Math.abs(det) < 1e-12) {
+        return { x, y, found: false, error: 0 };
+      }
+
+      vx = 0;
+      vy = 0;
+
+      for (let iter = 0; iter < this.config.maxIterations; iter++) {
+        const nx = px + gx + vx;
+        const ny = py + gy + vy;
+        if (nx < 0 || ny < 0 || nx > J.width - 1 || ny > J.height - 1) {
+          return { x, y, found: false, error: 0 };
+        }
+
+        let bx = 0;
+        let by = 0;
+        k = 0;
+        for (let dy = -radius; dy <= radius; dy++) {
+          for (let dx = -radius; dx <= radius; dx++, k++) {
+            const diff = template[k] - sample(J, nx + dx, ny + dy);
+            bx += diff * ix[k];
+            by += diff * iy[k];
+          }
+        }
+
+        const deltaX = (gyy * bx - gxy * by) / det;
+        const deltaY = (gxx * by - gxy * bx) / det;
+        vx += deltaX;
+        vy += deltaY;
+
+        if (deltaX * deltaX + deltaY * deltaY < this.config.epsilon * this.config.epsilon) {
+          break;
+        }
+      }
+
+      if (level === 0) {
+        const nx = px + gx + vx;
+        const ny = py + gy + vy;
+        if (nx < 0 || ny < 0 || nx > J.width - 1 || ny > J.height - 1) {
+          return { x, y, found: false, error: 0 };
+        }
+
+        error = 0;
+        k = 0;
+        for (let dy = -radius; dy <= radius; dy++) {
+          for (let dx = -radius; dx <= radius; dx++, k++) {
+            error += Math.abs(template[k] - sample(J, nx + dx, ny + dy));
+          }
+        }
+        error = (error / count) * 255;
+      } else {
+        gx = 2 * (gx + vx);
+        gy = 2 * (gy + vy);
+      }
+    }
+
+    return { x: x + gx + vx, y: y + gy + vy, found: true, error };
+  }
+}
+
+/**
+ * Fill in optical flow defaults (shared by the CPU and GPU trackers)
+ */
+export function resolveOpticalFlowConfig(config: OpticalFlowConfig): Required<OpticalFlowConfig> {
+  return {
+    windowSize: config.windowSize ?? 21,
+    pyramidLevels: config.pyramidLevels ?? 3,
+    maxIterations: config.maxIterations ?? 20,
+    epsilon: config.epsilon ?? 0.01,
+    minEigenvalue: config.minEigenvalue ?? 1e-4,
+    maxForwardBackwardError: config.maxForwardBackwardError ?? 1,
+  };
+}
+
+/**
+ * Marker corners as points (TL, TR, BR, BL)
+ */
+export function cornersToPoints(corners: MarkerCorners): Array<{ x: number; y: number }> {
+  return [corners.topLeft, corners.topRight, corners.bottomRight, corners.bottomLeft]
+    .map(([x, y]) => ({ x, y }));
+}
+
+/**
+ * Marker corners from tracked points, or null if any corner was lost
+ */
+export function flowToCorners(flow: FlowPoint[]): MarkerCorners | null {
+  if (flow.length !== 4 || flow.some(p => !p.found)) {
+    return null;
+  }
+
+  return {
+    topLeft: [flow[0].x, flow[0].y],
+    topRight: [flow[1].x, flow[1].y],
+    bottomRight: [flow[2].x, flow[2].y],
+    bottomLeft: [flow[3].x, flow[3].y],
+  };
+}
+
+/**
+ * Move keypoints to their tracked positions, dropping lost ones
+ */
+export function flowToKeypoints(keypoints: Keypoint[], flow: FlowPoint[]): Keypoint[] {
+  const result: Keypoint[] = [];
+  for (let i = 0; i < keypoints.length; i++) {
+    if (flow[i]?.found) {
+      result.push({ ...keypoints[i], x: flow[i].x, y: flow[i].y });
+    }
+  }
+  return result;
+}
+
+// ==================== Private Methods ====================
+
+/**
+ * Bilinear sample with clamped borders
+ */
+function sample(level: PyramidLevel, x: number, y: number): number {
+  const { data, width, height } = level;
+  const cx = Math.min(Math.max(x, 0), width - 1);
+  const cy = Math.min(Math.max(y, 0), height - 1);
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Blur with [1 4 6 4 1] / 16 and keep every other pixel
+ */
+function downsample(level: PyramidLevel, width: number, height: number): Float32Array {
+  const weights = [1, 4, 6, 4, 1];
+  const out = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let j = -2; j <= 2; j++) {
+        const sy = Math.min(Math.max(2 * y + j, 0), level.height - 1);
+        for (let i = -2; i <= 2; i++) {
+          const sx = Math.min(Math.max(2 * x + i, 0), level.width - 1);
+          sum += level.data[sy * level.width + sx] * weights[i + 2] * weights[j + 2];
+        }
+      }
+      out[y * width + x] = sum / 256;
+    }
+  }
+
+  return out;
+}
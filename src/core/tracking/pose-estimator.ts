@@ -6,6 +6,7 @@
  * - EPnP (Efficient Perspective-n-Point) for fast, accurate pose estimation
  * - Kabsch algorithm for optimal rotation computation
  * - RANSAC for outlier rejection
+ * - IPPE for both solutions of the planar pose ambiguity
  * - Sub-pixel corner refinement for 2-3× better accuracy
  *
  * Accuracy: Sub-millimeter (competitive with ARCore/ARKit)
@@ -15,18 +16,14 @@ import { Matrix4 } from '../math/matrix';
 import { Vector3 } from '../math/vector';
 import { Quaternion } from '../math/quaternion';
 import type { MarkerCorners } from '../detection/marker-detector';
-import { EPnP } from './epnp';
+import { EPnP, type EPnPResult } from './epnp';
+import { IPPE } from './ippe';
 import { Kabsch } from './kabsch';
 import { RANSACPose, type RANSACConfig } from './ransac-pose';
 import { SubPixelRefine, type SubPixelConfig } from './subpixel-refine';
+import { pixelToNormalized, type CameraIntrinsics } from '../camera/camera-intrinsics';
 
-export interface CameraIntrinsics {
-  fx: number; // Focal length X
-  fy: number; // Focal length Y
-  cx: number; // Principal point X
-  cy: number; // Principal point Y
-  distortion?: number[]; // Distortion coefficients (k1, k2, p1, p2, k3)
-}
+export type { CameraIntrinsics };
 
 export interface Pose {
   position: Vector3;
@@ -34,7 +31,16 @@ export interface Pose {
   matrix: Matrix4;
   reprojectionError?: number; // Average reprojection error in pixels
   inlierRatio?: number; // Ratio of inliers (RANSAC)
-  refinementMethod?: 'epnp' | 'ransac' | 'kabsch'; // Method used
+  refinementMethod?: 'epnp' | 'ransac' | 'kabsch' | 'ippe'; // Method used
+}
+
+/**
+ * Both poses explaining a square marker's corners
+ * Small or distant markers can flip between the two from frame to frame.
+ */
+export interface PoseCandidates {
+  poses: [Pose, Pose]; // Lowest reprojection error first
+  ambiguityRatio: number; // Best / second error (near 1 = ambiguous)
 }
 
 export interface PoseEstimatorConfig {
@@ -81,46 +87,13 @@ export class PoseEstimator {
     imageWidth?: number,
     imageHeight?: number
   ): Pose | null {
-    // Step 1: Sub-pixel corner refinement (2-3× accuracy improvement)
-    let refinedCorners = corners;
-    if (this.config.useSubPixel && imageData && imageWidth && imageHeight) {
-      refinedCorners = this.subPixelRefiner.refineCorners(
-        corners,
-        imageData,
-        imageWidth,
-        imageHeight
-      );
-    }
-
-    // Step 2: Define 3D marker corners in marker coordinate system
-    // Marker is in XY plane with center at origin
-    const half = markerSize / 2;
-    const objectPoints: Vector3[] = [
-      new Vector3(-half, half, 0),   // Top left
-      new Vector3(half, half, 0),    // Top right
-      new Vector3(half, -half, 0),   // Bottom right
-      new Vector3(-half, -half, 0),  // Bottom left
-    ];
-
-    // Step 3: Prepare image points (pixel coordinates)
-    const imagePoints: [number, number][] = [
-      refinedCorners.topLeft,
-      refinedCorners.topRight,
-      refinedCorners.bottomRight,
-      refinedCorners.bottomLeft,
-    ];
-
-    // Step 4: Undistort image points if distortion coefficients provided
-    const undistortedPoints = imagePoints.map(p => this.undistortPoint(p));
-
-    // Step 5: Normalize image coordinates
-    const normalizedPoints = undistortedPoints.map(([x, y]) => {
-      return new Vector3(
-        (x - this.intrinsics.cx) / this.intrinsics.fx,
-        (y - this.intrinsics.cy) / this.intrinsics.fy,
-        1.0
-      ).normalize();
-    });
+    const { objectPoints, normalizedPoints } = this.prepareCorrespondences(
+      corners,
+      markerSize,
+      imageData,
+      imageWidth,
+      imageHeight
+    );
 
     // Step 6: Solve PnP using EPnP or RANSAC+EPnP
     let result;
@@ -156,40 +129,97 @@ export class PoseEstimator {
   }
 
   /**
-   * Undistort image point using camera distortion coefficients
+   * Estimate both candidate poses of a marker with IPPE
+   * Reprojection errors are in pixels; callers resolve the ambiguity
+   * (e.g. against a predicted pose) when the ratio is close to 1.
+   *
+   * @param corners - Marker corners (pixel coordinates)
+   * @param markerSize - Physical marker size in meters
+   * @param imageData - Optional grayscale image for sub-pixel refinement
+   * @param imageWidth - Image width for sub-pixel refinement
+   * @param imageHeight - Image height for sub-pixel refinement
+   * @returns Both poses or null if estimation failed
    */
-  private undistortPoint(point: [number, number]): [number, number] {
-    if (!this.intrinsics.distortion || this.intrinsics.distortion.length === 0) {
-      return point;
+  estimatePoseCandidates(
+    corners: MarkerCorners,
+    markerSize: number,
+    imageData?: Uint8Array,
+    imageWidth?: number,
+    imageHeight?: number
+  ): PoseCandidates | null {
+    const { objectPoints, normalizedPoints } = this.prepareCorrespondences(
+      corners,
+      markerSize,
+      imageData,
+      imageWidth,
+      imageHeight
+    );
+
+    const result = IPPE.solve(objectPoints, normalizedPoints);
+    if (!result) {
+      return null;
     }
 
-    const [x, y] = point;
-    const [k1, k2, p1, p2, k3 = 0] = this.intrinsics.distortion;
+    const toPose = (pose: EPnPResult): Pose => ({
+      position: pose.position,
+      rotation: pose.rotation,
+      matrix: pose.matrix,
+      reprojectionError: pose.reprojectionError * this.intrinsics.fx,
+      refinementMethod: 'ippe',
+    });
 
-    // Convert to normalized coordinates
-    const xNorm = (x - this.intrinsics.cx) / this.intrinsics.fx;
-    const yNorm = (y - this.intrinsics.cy) / this.intrinsics.fy;
+    return {
+      poses: [toPose(result.poses[0]), toPose(result.poses[1])],
+      ambiguityRatio: result.ambiguityRatio,
+    };
+  }
 
-    // Radial distortion
-    const r2 = xNorm * xNorm + yNorm * yNorm;
-    const r4 = r2 * r2;
-    const r6 = r4 * r2;
+  /**
+   * Marker corner correspondences: 3D corners and normalized bearings
+   */
+  private prepareCorrespondences(
+    corners: MarkerCorners,
+    markerSize: number,
+    imageData?: Uint8Array,
+    imageWidth?: number,
+    imageHeight?: number
+  ): { objectPoints: Vector3[]; normalizedPoints: Vector3[] } {
+    // Step 1: Sub-pixel corner refinement (2-3× accuracy improvement)
+    let refinedCorners = corners;
+    if (this.config.useSubPixel && imageData && imageWidth && imageHeight) {
+      refinedCorners = this.subPixelRefiner.refineCorners(
+        corners,
+        imageData,
+        imageWidth,
+        imageHeight
+      );
+    }
 
-    const radialDistortion = 1 + k1 * r2 + k2 * r4 + k3 * r6;
+    // Step 2: Define 3D marker corners in marker coordinate system
+    // Marker is in XY plane with center at origin
+    const half = markerSize / 2;
+    const objectPoints: Vector3[] = [
+      new Vector3(-half, half, 0),   // Top left
+      new Vector3(half, half, 0),    // Top right
+      new Vector3(half, -half, 0),   // Bottom right
+      new Vector3(-half, -half, 0),  // Bottom left
+    ];
 
-    // Tangential distortion
-    const tangentialX = 2 * p1 * xNorm * yNorm + p2 * (r2 + 2 * xNorm * xNorm);
-    const tangentialY = p1 * (r2 + 2 * yNorm * yNorm) + 2 * p2 * xNorm * yNorm;
+    // Step 3: Prepare image points (pixel coordinates)
+    const imagePoints: [number, number][] = [
+      refinedCorners.topLeft,
+      refinedCorners.topRight,
+      refinedCorners.bottomRight,
+      refinedCorners.bottomLeft,
+    ];
 
-    // Apply distortion
-    const xDistorted = xNorm * radialDistortion + tangentialX;
-    const yDistorted = yNorm * radialDistortion + tangentialY;
+    // Step 4-5: Undistort and normalize image coordinates
+    const normalizedPoints = imagePoints.map(p => {
+      const [x, y] = pixelToNormalized(this.intrinsics, p);
+      return new Vector3(x, y, 1.0).normalize();
+    });
 
-    // Convert back to pixel coordinates
-    return [
-      xDistorted * this.intrinsics.fx + this.intrinsics.cx,
-      yDistorted * this.intrinsics.fy + this.intrinsics.cy,
-    ];
+    return { objectPoints, normalizedPoints };
   }
 
   /**
@@ -204,9 +204,9 @@ export class RANSACPose {
       projected = transformed;
     }
 
-    // Compute Euclidean distance
-    const dx = projected.x - imagePoint.x;
-    const dy = projected.y - imagePoint.y;
+    // Compute Euclidean distance (image points may be unit bearing vectors)
+    const dx = projected.x - imagePoint.x / imagePoint.z;
+    const dy = projected.y - imagePoint.y / imagePoint.z;
 
     return Math.sqrt(dx * dx + dy * dy);
   }
@@ -227,12 +227,17 @@ export class RANSACPose {
     // Re-estimate pose using all inliers
     const refinedPose = EPnP.solve(inlierObjectPoints, inlierImagePoints);
 
-    // Return refined pose if better, otherwise return initial
-    if (refinedPose && refinedPose.reprojectionError < initialPose.reprojectionError) {
+    // Return refined pose if better over the same inliers, otherwise return initial
+    const initialError = inlierIndices.reduce(
+      (sum, i) => sum + this.computeReprojectionError(objectPoints[i], imagePoints[i], initialPose.matrix),
+      0
+    ) / inlierIndices.length;
+
+    if (refinedPose && refinedPose.reprojectionError < initialError) {
       return refinedPose;
     }
 
-    return initialPose;
+    return { ...initialPose, reprojectionError: initialError };
   }
 
   /**
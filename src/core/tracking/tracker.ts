@@ -1,12 +1,19 @@
 /**
  * AR Tracker
  * Coordinates marker detection, pose estimation, and filtering
+ *
+ * Between full detections, marker corners are carried to the next frame
+ * with optical flow; detection runs every few frames or when flow fails.
  */
 
 import type { GPUContextManager } from '../gpu/gpu-context';
 import { MarkerDetector, type DetectedMarker, type MarkerDetectorConfig } from '../detection/marker-detector';
-import { PoseEstimator, type CameraIntrinsics, type Pose } from './pose-estimator';
+import { PoseEstimator, type CameraIntrinsics, type Pose, type PoseCandidates } from './pose-estimator';
 import { KalmanFilter } from './kalman-filter';
+import { GPUOpticalFlow } from './gpu-optical-flow';
+import { cornersToPoints, flowToCorners, type OpticalFlowConfig } from './optical-flow';
+import { BoardPoseEstimator, type BoardPose, type BoardPoseEstimatorConfig } from './board-pose-estimator';
+import type { MarkerBoard } from '../detection/marker-board';
 
 export interface TrackedMarker {
   id: number;
@@ -14,6 +21,7 @@ export interface TrackedMarker {
   confidence: number;
   lastSeen: number;
   trackingState: 'tracking' | 'lost';
+  ambiguityRatio: number; // Planar pose ambiguity of the last detection (near 1 = ambiguous)
 }
 
 export interface TrackerConfig {
@@ -22,12 +30,21 @@ export interface TrackerConfig {
   kalmanProcessNoise?: number;
   kalmanMeasurementNoise?: number;
   lostTrackingTimeout?: number; // ms
+  ambiguityThreshold?: number; // Ratio above which the pose closest to the prediction wins
+  opticalFlow?: boolean; // Propagate markers with KLT between detections (default: true)
+  detectionInterval?: number; // Frames per full detection while flow holds (default: 5)
+  opticalFlowConfig?: OpticalFlowConfig;
+  boardPoseConfig?: BoardPoseEstimatorConfig;
 }
 
 export class Tracker {
   private gpuContext: GPUContextManager;
   private markerDetector: MarkerDetector;
   private poseEstimator: PoseEstimator;
+  private boardPoseEstimator: BoardPoseEstimator;
+  private opticalFlow: GPUOpticalFlow | null;
+  private lastDetections: DetectedMarker[] = [];
+  private framesSinceDetection = Infinity;
 
   // Tracked markers with Kalman filters
   private trackedMarkers: Map<number, {
@@ -35,8 +52,12 @@ export class Tracker {
     filter: KalmanFilter;
   }>;
 
-  private config: Required<Omit<TrackerConfig, 'markerDetectorConfig' | 'cameraIntrinsics'>>;
+  private config: Required<Omit<
+    TrackerConfig,
+    'markerDetectorConfig' | 'cameraIntrinsics' | 'boardPoseConfig' | 'opticalFlowConfig'
+  >>;
   private isInitialized = false;
+  private hasConfiguredIntrinsics: boolean;
 
   constructor(gpuContext: GPUContextManager, config: TrackerConfig = {}) {
     this.gpuContext = gpuContext;
@@ -51,14 +72,23 @@ export class Tracker {
     const intrinsics = config.cameraIntrinsics ??
       PoseEstimator.estimateIntrinsics(1280, 720); // Default resolution
     this.poseEstimator = new PoseEstimator(intrinsics);
+    this.boardPoseEstimator = new BoardPoseEstimator(intrinsics, config.boardPoseConfig);
+    this.hasConfiguredIntrinsics = config.cameraIntrinsics !== undefined;
 
     // Configuration
     this.config = {
       kalmanProcessNoise: config.kalmanProcessNoise ?? 0.01,
       kalmanMeasurementNoise: config.kalmanMeasurementNoise ?? 0.1,
       lostTrackingTimeout: config.lostTrackingTimeout ?? 500,
+      ambiguityThreshold: config.ambiguityThreshold ?? 0.5,
+      opticalFlow: config.opticalFlow ?? true,
+      detectionInterval: config.detectionInterval ?? 5,
     };
 
+    this.opticalFlow = this.config.opticalFlow
+      ? new GPUOpticalFlow(gpuContext, config.opticalFlowConfig)
+      : null;
+
     this.trackedMarkers = new Map();
   }
 
@@ -71,10 +101,14 @@ export class Tracker {
     }
 
     await this.markerDetector.initialize(width, height);
+    await this.opticalFlow?.initialize(width, height);
 
-    // Update camera intrinsics for actual resolution
-    const intrinsics = PoseEstimator.estimateIntrinsics(width, height);
-    this.poseEstimator.updateIntrinsics(intrinsics);
+    // Estimate camera intrinsics for actual resolution unless calibrated ones were given
+    if (!this.hasConfiguredIntrinsics) {
+      const intrinsics = PoseEstimator.estimateIntrinsics(width, height);
+      this.poseEstimator.updateIntrinsics(intrinsics);
+      this.boardPoseEstimator.updateIntrinsics(intrinsics);
+    }
 
     this.isInitialized = true;
     console.log('[Tracker] Initialized');
@@ -100,8 +134,10 @@ export class Tracker {
       }
     }
 
-    // Detect markers in current frame
-    const detectedMarkers = await this.markerDetector.detect(grayscaleTexture);
+    // Follow last frame's markers with optical flow, or detect from scratch
+    const detectedMarkers = await this.propagateMarkers(grayscaleTexture) ??
+      await this.detectMarkers(grayscaleTexture);
+    this.lastDetections = detectedMarkers;
 
     // Update tracked markers with detections
     for (const detected of detectedMarkers) {
@@ -125,22 +161,72 @@ export class Tracker {
       }));
   }
 
+  /**
+   * Full marker detection
+   */
+  private async detectMarkers(grayscaleTexture: GPUTexture): Promise<DetectedMarker[]> {
+    this.framesSinceDetection = 0;
+    return this.markerDetector.detect(grayscaleTexture);
+  }
+
+  /**
+   * Carry the last detections into this frame with optical flow
+   * @returns Moved markers, or null when a full detection is due
+   */
+  private async propagateMarkers(grayscaleTexture: GPUTexture): Promise<DetectedMarker[] | null> {
+    if (!this.opticalFlow) {
+      return null;
+    }
+
+    this.opticalFlow.pushFrame(grayscaleTexture);
+    this.framesSinceDetection++;
+
+    if (
+      this.framesSinceDetection >= this.config.detectionInterval ||
+      this.lastDetections.length === 0 ||
+      !this.opticalFlow.hasPreviousFrame()
+    ) {
+      return null;
+    }
+
+    // One dispatch for all corners
+    const points = this.lastDetections.flatMap(marker => cornersToPoints(marker.corners));
+    const flow = await this.opticalFlow.track(points);
+
+    const markers: DetectedMarker[] = [];
+    for (let i = 0; i < this.lastDetections.length; i++) {
+      const corners = flowToCorners(flow.slice(i * 4, i * 4 + 4));
+      if (!corners) {
+        // Any lost marker forces re-detection so it is not silently dropped
+        return null;
+      }
+      markers.push({ ...this.lastDetections[i], corners });
+    }
+
+    return markers;
+  }
+
   /**
    * Update tracking for detected marker
    */
   private updateTracking(detected: DetectedMarker, timestamp: number): void {
     const markerSize = 0.1; // 10cm - should come from config
-    const estimatedPose = this.poseEstimator.estimatePose(
+    const candidates = this.poseEstimator.estimatePoseCandidates(
       detected.corners,
       markerSize
     );
 
+    let tracked = this.trackedMarkers.get(detected.id);
+
+    const estimatedPose = candidates
+      ? this.selectPose(candidates, tracked?.filter)
+      : this.poseEstimator.estimatePose(detected.corners, markerSize);
+    const ambiguityRatio = candidates?.ambiguityRatio ?? 0;
+
     if (!estimatedPose) {
       return;
     }
 
-    let tracked = this.trackedMarkers.get(detected.id);
-
     if (!tracked) {
       // New marker - initialize tracking
       const filter = new KalmanFilter(
@@ -156,6 +242,7 @@ export class Tracker {
           confidence: detected.confidence,
           lastSeen: timestamp,
           trackingState: 'tracking',
+          ambiguityRatio,
         },
         filter,
       };
@@ -169,9 +256,29 @@ export class Tracker {
       tracked.marker.confidence = detected.confidence;
       tracked.marker.lastSeen = timestamp;
       tracked.marker.trackingState = 'tracking';
+      tracked.marker.ambiguityRatio = ambiguityRatio;
     }
   }
 
+  /**
+   * Pick one of the two planar pose solutions
+   * Clear-cut detections take the lower reprojection error; ambiguous ones
+   * take the rotation closest to the filter's prediction so the marker does
+   * not flip between frames.
+   */
+  private selectPose(candidates: PoseCandidates, filter?: KalmanFilter): Pose {
+    const [best, second] = candidates.poses;
+    if (!filter || candidates.ambiguityRatio < this.config.ambiguityThreshold) {
+      return best;
+    }
+
+    const predicted = filter.getPose().rotation;
+    const angleTo = (pose: Pose): number =>
+      predicted.conjugate().multiply(pose.rotation).toRotationVector().length();
+
+    return angleTo(second) < angleTo(best) ? second : best;
+  }
+
   /**
    * Get specific tracked marker
    */
@@ -187,6 +294,13 @@ export class Tracker {
     };
   }
 
+  /**
+   * Estimate a board pose from the markers detected in the last frame
+   */
+  estimateBoardPose(board: MarkerBoard): BoardPose | null {
+    return this.boardPoseEstimator.estimatePose(board, this.lastDetections);
+  }
+
   /**
    * Get all tracked marker IDs
    */
@@ -199,6 +313,7 @@ export class Tracker {
    */
   updateCameraIntrinsics(intrinsics: CameraIntrinsics): void {
     this.poseEstimator.updateIntrinsics(intrinsics);
+    this.boardPoseEstimator.updateIntrinsics(intrinsics);
   }
 
   /**
@@ -206,6 +321,9 @@ export class Tracker {
    */
   reset(): void {
     this.trackedMarkers.clear();
+    this.lastDetections = [];
+    this.framesSinceDetection = Infinity;
+    this.opticalFlow?.reset();
     console.log('[Tracker] Reset all tracking');
   }
 
@@ -214,6 +332,7 @@ export class Tracker {
    */
   destroy(): void {
     this.markerDetector.destroy();
+    this.opticalFlow?.destroy();
     this.trackedMarkers.clear();
     this.isInitialized = false;
   }
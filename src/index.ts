@@ -22,6 +22,7 @@ export type {
   ErrorCode,
   ErrorContext,
   RecoverySuggestion,
+  ModelLoadFailureReason,
 } from './core/errors';
 
 // Event System
@@ -89,6 +90,25 @@ export {
   HybridCameraManager,
   type HybridCameraConfig,
 } from './core/camera/hybrid-camera-manager';
+export {
+  CameraCalibrator,
+  scaleCalibratedIntrinsics,
+  type CameraCalibratorConfig,
+  type CalibrationView,
+  type CameraCalibrationResult,
+} from './core/camera/camera-calibrator';
+export {
+  hasDistortion,
+  withoutDistortion,
+  distortNormalized,
+  undistortNormalized,
+  pixelToNormalized,
+  projectToPixel,
+  undistortPixel,
+  undistortMarkerCorners,
+  undistortKeypoints,
+  type DistortionModel,
+} from './core/camera/camera-intrinsics';
 
 // WebXR Integration
 export {
@@ -117,14 +137,30 @@ export {
 export {
   NaturalImageTracker,
   ReferenceImageStore,
+  compileReferenceDatabase,
+  VocabularyIndex,
+  encodeReferenceDatabase,
+  decodeReferenceDatabase,
+  isReferenceDatabase,
+  REFERENCE_DATABASE_VERSION,
   GeometricVerifier,
   Matrix3,
   type TrackedImage,
   type TrackingConfig,
+  type FrameFeatures,
+  type PointTracker,
+  type NaturalImageEvents,
   type ReferenceImage,
+  type ReferenceImageStoreConfig,
+  type ImagePixels,
+  type CompileOptions,
+  type VocabularyConfig,
+  type ImageCandidate,
+  type ReferenceDatabaseOptions,
   type StoredReferenceImage,
   type Point2D,
   type GeometricVerificationResult,
+  type HomographyVerificationResult,
 } from './core/tracking/natural-image';
 
 // Performance Monitoring (Mobile Optimization)
@@ -150,15 +186,55 @@ export {
 export {
   DepthEstimator,
   DepthMap,
+  upsampleDepth,
+  fillDepthHoles,
+  toMetricDepth,
+  NO_DEPTH,
+  GPUDepthUpsampler,
+  DepthAligner,
+  samplesFromCameraPoints,
+  samplesFromWorldPoints,
+  samplesFromPose,
+  samplesFromPlane,
   ModelLoader,
   globalModelLoader,
   MODEL_REGISTRY,
+  registerDepthModel,
+  unregisterDepthModel,
+  getModelInfo,
+  OnnxRuntimeBackend,
+  CPUInferenceBackend,
+  parseOnnxModel,
   ImagePreprocessor,
   GPUImagePreprocessor,
   type DepthEstimatorConfig,
   type DepthQuality,
+  type DepthUpsamplingConfig,
+  type DepthUpsamplingMethod,
+  type DepthUpsamplingResult,
+  type GuideImage,
+  type DepthAlignmentConfig,
+  type DepthAlignmentSpace,
+  type DepthAlignment,
+  type DepthAlignmentResult,
+  type MetricDepthSample,
   type DepthModel,
   type ModelInfo,
+  type DepthModelSpec,
+  type NormalizationSpec,
+  type TensorLayout,
+  type ColorOrder,
+  type DepthOutputKind,
+  type ResizeMode,
+  type ModelLoaderConfig,
+  type ModelLoadProgress,
+  type ModelSource,
+  type ModelBundle,
+  type InferenceBackend,
+  type ONNXSession,
+  type OnnxRuntimeBackendConfig,
+  type ExecutionProvider,
+  type TensorInfo,
 } from './core/depth';
 
 // Mesh Reconstruction
@@ -187,13 +263,30 @@ export {
 export {
   PoseEstimator,
   type Pose,
+  type PoseCandidates,
   type PoseEstimatorConfig,
 } from './core/tracking/pose-estimator';
+export {
+  BoardPoseEstimator,
+  type BoardPose,
+  type BoardPoseEstimatorConfig,
+} from './core/tracking/board-pose-estimator';
 export { KalmanFilter } from './core/tracking/kalman-filter';
 export { EPnP, type EPnPResult } from './core/tracking/epnp';
+export { IPPE, type IPPEResult } from './core/tracking/ippe';
 export { Kabsch, type KabschResult } from './core/tracking/kabsch';
 export { RANSACPose, estimatePoseRANSAC, type RANSACConfig, type RANSACResult } from './core/tracking/ransac-pose';
 export { SubPixelRefine, refineCorners, type SubPixelConfig } from './core/tracking/subpixel-refine';
+export {
+  OpticalFlow,
+  buildImagePyramid,
+  type OpticalFlowConfig,
+  type GrayImage,
+  type ImagePyramid,
+  type PyramidLevel,
+  type FlowPoint,
+} from './core/tracking/optical-flow';
+export { GPUOpticalFlow } from './core/tracking/gpu-optical-flow';
 
 // Feature matching
 export {
@@ -207,17 +300,58 @@ export { Matrix4 } from './core/math/matrix';
 export { Vector3 } from './core/math/vector';
 export { Quaternion } from './core/math/quaternion';
 export { Homography } from './core/math/homography';
+export { Sim3 } from './core/math/sim3';
 
 // Detection utilities
 export { ContourProcessor, type Point, type Contour, type Quad } from './core/detection/contour-processor';
 export { ArucoDecoder, type DictionarySize, type MarkerBits, type DecodedMarker } from './core/detection/aruco-decoder';
+export {
+  createGridBoard,
+  createCharucoBoard,
+  createCustomBoard,
+  matchBoardMarkers,
+  interpolateCharucoCorners,
+  type MarkerBoard,
+  type BoardMarker,
+  type GridBoard,
+  type CharucoBoard,
+  type CustomBoard,
+  type GridBoardConfig,
+  type CharucoBoardConfig,
+  type CharucoCorner,
+} from './core/detection/marker-board';
 export { getArucoDictionary, getDictionarySize, validateMarkerPattern, ARUCO_4X4_50, ARUCO_5X5_100, ARUCO_6X6_250 } from './core/detection/aruco-dictionaries';
+export { APRILTAG_16H5, APRILTAG_25H9, APRILTAG_36H11 } from './core/detection/apriltag-dictionaries';
+export {
+  createMarkerDictionary,
+  getMarkerDictionary,
+  resolveMarkerDictionary,
+  codeToPattern,
+  patternToCode,
+  type MarkerFamily,
+  type MarkerDictionary,
+  type MarkerDictionaryConfig,
+} from './core/detection/marker-dictionary';
+export { generateMarkerDictionary, rotatePattern, type MarkerGeneratorConfig } from './core/detection/marker-generator';
+export {
+  renderMarkerSVG,
+  renderMarkerPixels,
+  type MarkerRenderOptions,
+  type MarkerImage,
+} from './core/detection/marker-renderer';
 export {
   FeatureDetector,
   type FeatureDetectorConfig,
   type Keypoint,
   type FeatureMatch,
 } from './core/detection/feature-detector';
+export {
+  extractORBFeatures,
+  rgbaToGray,
+  descriptorsToBytes,
+  type ORBExtractorConfig,
+  type ORBFeatures,
+} from './core/detection/orb-extractor';
 export {
   PlaneDetector,
   type PlaneConfig,
@@ -295,7 +429,24 @@ export {
   ExtendedKalmanFilter,
   IMUManager,
   MapStorage,
+  IndexedDBMapBackend,
+  LocalStorageMapBackend,
+  MemoryMapBackend,
+  FileSystemMapBackend,
+  HTTPMapBackend,
+  encodeMap,
+  decodeMap,
   LoopClosureDetector,
+  PoseGraphOptimizer,
+  LocalBundleAdjuster,
+  IMUPreintegrator,
+  InertialInitializer,
+  CameraIMUCalibrator,
+  LocalMappingWorkerPool,
+  MapInitializer,
+  MapMerger,
+  AnchorManager,
+  binaryAnchorSerializer,
   type SLAMConfig,
   type SLAMState,
   type SLAMStats,
@@ -309,8 +460,31 @@ export {
   type IMUManagerConfig,
   type StorageConfig,
   type StoredMap,
+  type MapStorageBackend,
+  type FileSystemMapBackendConfig,
+  type HTTPMapBackendConfig,
   type LoopClosureConfig,
   type LoopClosureCandidate,
+  type LoopClosureCorrection,
+  type MapMergeResult,
+  type SLAMAnchor,
+  type HostedAnchor,
+  type PreintegratedIMU,
+  type InertialInitializationResult,
+  type CameraIMUCalibration,
+  type SLAMEvents,
+  type PoseGraphOptimizerConfig,
+  type LoopConstraint,
+  type LocalBundleAdjusterConfig,
+  type BundleAdjustmentResult,
+  type IMUPreintegratorConfig,
+  type InertialInitializerConfig,
+  type CameraIMUCalibratorConfig,
+  type LocalMappingWorkerPoolConfig,
+  type MapInitializerConfig,
+  type MapMergerConfig,
+  type AnchorManagerConfig,
+  type AnchorSerializer,
 } from './core/slam';
 
 // Framework Adapters
@@ -6,6 +6,7 @@
 import { BaseARPlugin, type ARContext } from '../core/plugin-system';
 import { type ARFrame } from '../core/engine';
 import { Tracker, type TrackerConfig } from '../core/tracking/tracker';
+import type { MarkerFamily } from '../core/detection/marker-dictionary';
 import { ARError, ErrorCodes } from '../core/errors';
 import { Logger } from '../utils/logger';
 
@@ -15,8 +16,8 @@ const log = Logger.create('MarkerTrackingPlugin');
  * Marker tracking plugin configuration
  */
 export interface MarkerTrackingConfig {
-  /** ArUco dictionary to use */
-  dictionary?: 'ARUCO_4X4_50' | 'ARUCO_5X5_100' | 'ARUCO_6X6_250';
+  /** Marker family to use (ArUco or AprilTag) */
+  dictionary?: MarkerFamily;
 
   /** Marker size in meters (for pose estimation) */
   markerSize?: number;
@@ -29,6 +30,9 @@ export interface MarkerTrackingConfig {
 
   /** Maximum number of markers to track */
   maxMarkers?: number;
+
+  /** Frames per full detection; markers follow optical flow in between (1 = every frame) */
+  detectionInterval?: number;
 }
 
 /**
@@ -51,6 +55,7 @@ export class MarkerTrackingPlugin extends BaseARPlugin {
       enableFiltering: config.enableFiltering ?? true,
       minConfidence: config.minConfidence ?? 0.7,
       maxMarkers: config.maxMarkers ?? 10,
+      detectionInterval: config.detectionInterval ?? 5,
     };
   }
 
@@ -59,15 +64,13 @@ export class MarkerTrackingPlugin extends BaseARPlugin {
 
     try {
       // Create tracker with configuration
-      // Map dictionary name to size (e.g., ARUCO_4X4_50 -> 4)
-      const dictionarySize = this.config.dictionary?.includes('4X4') ? 4 :
-        this.config.dictionary?.includes('5X5') ? 5 : 6;
-
       const trackerConfig: TrackerConfig = {
         markerDetectorConfig: {
-          dictionarySize: dictionarySize as 4 | 5 | 6,
+          dictionary: this.config.dictionary,
           markerSize: this.config.markerSize,
         },
+        cameraIntrinsics: context.camera.getIntrinsics(),
+        detectionInterval: this.config.detectionInterval,
       };
 
       this.tracker = new Tracker(context.gpuContext || context.gpu, trackerConfig);
@@ -5,10 +5,12 @@
 
 import stereoMatchingShader from './depth/stereo-matching.wgsl';
 import depthRefinementShader from './depth/depth-refinement.wgsl';
+import depthUpsamplingShader from './depth/depth-upsampling.wgsl';
 
 export const depthShaders = {
   stereoMatching: stereoMatchingShader,
   depthRefinement: depthRefinementShader,
+  depthUpsampling: depthUpsamplingShader,
 };
 
-export { stereoMatchingShader, depthRefinementShader };
+export { stereoMatchingShader, depthRefinementShader, depthUpsamplingShader };
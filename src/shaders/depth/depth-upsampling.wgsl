@@ -0,0 +1,274 @@
+// Depth Upsampling Shader
+// Edge-aware upsampling of low-resolution depth to camera resolution,
+// guided by the camera frame, plus confidence-weighted hole filling.
+// Mirrors the CPU reference in core/depth/depth-upsampling.ts.
+//
+// Depth is in meters; confidence 0 marks a hole. Output depth is
+// params.noDepth where holes remain, which the occlusion pass treats as invalid.
+
+@group(0) @binding(0) var depthInput: texture_2d<f32>;     // r = depth (m), g = confidence
+@group(0) @binding(1) var colorGuide: texture_2d<f32>;     // Camera frame at output resolution
+@group(0) @binding(2) var<uniform> params: UpsamplingParams;
+@group(0) @binding(3) var holeOutput: texture_storage_2d<rg32float, write>;
+@group(0) @binding(4) var depthOutput: texture_storage_2d<r32float, write>;
+@group(0) @binding(5) var coefficientsOutput: texture_storage_2d<rgba32float, write>;
+@group(0) @binding(6) var coefficients: texture_2d<f32>;   // a, b, coverage
+
+struct UpsamplingParams {
+  inputWidth: u32,
+  inputHeight: u32,
+  outputWidth: u32,
+  outputHeight: u32,
+  radius: i32,
+  guidedRadius: i32,
+  holeFillRadius: i32,
+  _padding: u32,
+  spatialSigma: f32,
+  colorSigma: f32,
+  epsilon: f32,
+  noDepth: f32,     // Depth of pixels without depth (NO_DEPTH)
+}
+
+// Source coordinate of a destination pixel center
+fn mapCoordinate(x: f32, fromSize: f32, toSize: f32) -> f32 {
+  return (x + 0.5) * toSize / fromSize - 0.5;
+}
+
+fn luminance(color: vec3<f32>) -> f32 {
+  return dot(color, vec3<f32>(0.299, 0.587, 0.114));
+}
+
+// One hole filling pass: holes take the confidence- and distance-weighted
+// mean of non-hole neighbors; run repeatedly, ping-ponging textures
+@compute @workgroup_size(8, 8)
+fn fillHoles(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  if (global_id.x >= params.inputWidth || global_id.y >= params.inputHeight) {
+    return;
+  }
+
+  let coord = vec2<i32>(global_id.xy);
+  let center = textureLoad(depthInput, coord, 0).rg;
+
+  if (center.g > 0.0) {
+    textureStore(holeOutput, coord, vec4<f32>(center, 0.0, 0.0));
+    return;
+  }
+
+  let radius = params.holeFillRadius;
+  let sigma = max(0.5, f32(radius) / 2.0);
+  var sum = 0.0;
+  var weightSum = 0.0;
+  var spatialSum = 0.0;
+
+  for (var dy = -radius; dy <= radius; dy++) {
+    for (var dx = -radius; dx <= radius; dx++) {
+      let sampleCoord = coord + vec2<i32>(dx, dy);
+      if (sampleCoord.x < 0 || sampleCoord.x >= i32(params.inputWidth) ||
+          sampleCoord.y < 0 || sampleCoord.y >= i32(params.inputHeight)) {
+        continue;
+      }
+
+      let neighbor = textureLoad(depthInput, sampleCoord, 0).rg;
+      let spatial = exp(-f32(dx * dx + dy * dy) / (2.0 * sigma * sigma));
+      let weight = spatial * neighbor.g;
+
+      sum += neighbor.r * weight;
+      weightSum += weight;
+      spatialSum += spatial;
+    }
+  }
+
+  var result = center;
+  if (weightSum > 0.0) {
+    result = vec2<f32>(sum / weightSum, weightSum / spatialSum);
+  }
+  textureStore(holeOutput, coord, vec4<f32>(result, 0.0, 0.0));
+}
+
+// Joint bilateral upsampling: depth samples weighted by distance in depth
+// pixels, guide color similarity and confidence
+@compute @workgroup_size(16, 16)
+fn jointBilateralUpsample(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  if (global_id.x >= params.outputWidth || global_id.y >= params.outputHeight) {
+    return;
+  }
+
+  let outCoord = vec2<i32>(global_id.xy);
+  let inSize = vec2<f32>(f32(params.inputWidth), f32(params.inputHeight));
+  let outSize = vec2<f32>(f32(params.outputWidth), f32(params.outputHeight));
+  let sourcePos = vec2<f32>(
+    mapCoordinate(f32(global_id.x), outSize.x, inSize.x),
+    mapCoordinate(f32(global_id.y), outSize.y, inSize.y)
+  );
+  let center = vec2<i32>(round(sourcePos));
+  let centerColor = textureLoad(colorGuide, outCoord, 0).rgb;
+
+  let radius = params.radius;
+  let spatialDenominator = 2.0 * params.spatialSigma * params.spatialSigma;
+  let colorDenominator = 2.0 * params.colorSigma * params.colorSigma;
+
+  var sum = 0.0;
+  var weightSum = 0.0;
+  var fallbackSum = 0.0;
+  var fallbackWeight = 0.0;
+
+  for (var dy = -radius; dy <= radius; dy++) {
+    for (var dx = -radius; dx <= radius; dx++) {
+      let q = center + vec2<i32>(dx, dy);
+      if (q.x < 0 || q.x >= i32(params.inputWidth) || q.y < 0 || q.y >= i32(params.inputHeight)) {
+        continue;
+      }
+
+      let offset = vec2<f32>(q) - sourcePos;
+      let spatial = exp(-dot(offset, offset) / spatialDenominator);
+
+      let neighbor = textureLoad(depthInput, q, 0).rg;
+      if (neighbor.g <= 0.0) {
+        continue;
+      }
+
+      // Guide color where this depth sample lands at output resolution
+      let guidePos = vec2<i32>(round(vec2<f32>(
+        mapCoordinate(f32(q.x), inSize.x, outSize.x),
+        mapCoordinate(f32(q.y), inSize.y, outSize.y)
+      )));
+      let guideCoord = clamp(guidePos, vec2<i32>(0), vec2<i32>(outSize) - 1);
+      let colorDiff = centerColor - textureLoad(colorGuide, guideCoord, 0).rgb;
+      let colorWeight = exp(-dot(colorDiff, colorDiff) / colorDenominator);
+
+      let weight = spatial * colorWeight * neighbor.g;
+      sum += neighbor.r * weight;
+      weightSum += weight;
+      fallbackSum += neighbor.r * spatial * neighbor.g;
+      fallbackWeight += spatial * neighbor.g;
+    }
+  }
+
+  var depth = params.noDepth;
+  if (weightSum > 1e-6) {
+    depth = sum / weightSum;
+  } else if (fallbackWeight > 0.0) {
+    // No sample shares the pixel's color: plain spatial interpolation
+    depth = fallbackSum / fallbackWeight;
+  }
+
+  textureStore(depthOutput, outCoord, vec4<f32>(depth, 0.0, 0.0, 0.0));
+}
+
+// Confidence-weighted bilinear depth at an output pixel: (depth, weight)
+fn sampleBilinear(coord: vec2<i32>) -> vec2<f32> {
+  let inSize = vec2<f32>(f32(params.inputWidth), f32(params.inputHeight));
+  let outSize = vec2<f32>(f32(params.outputWidth), f32(params.outputHeight));
+  let pos = clamp(
+    vec2<f32>(mapCoordinate(f32(coord.x), outSize.x, inSize.x), mapCoordinate(f32(coord.y), outSize.y, inSize.y)),
+    vec2<f32>(0.0),
+    inSize - 1.0
+  );
+
+  let p0 = vec2<i32>(floor(pos));
+  let p1 = min(p0 + 1, vec2<i32>(inSize) - 1);
+  let f = pos - vec2<f32>(p0);
+
+  let s00 = textureLoad(depthInput, p0, 0).rg;
+  let s10 = textureLoad(depthInput, vec2<i32>(p1.x, p0.y), 0).rg;
+  let s01 = textureLoad(depthInput, vec2<i32>(p0.x, p1.y), 0).rg;
+  let s11 = textureLoad(depthInput, p1, 0).rg;
+
+  let w00 = (1.0 - f.x) * (1.0 - f.y) * s00.g;
+  let w10 = f.x * (1.0 - f.y) * s10.g;
+  let w01 = (1.0 - f.x) * f.y * s01.g;
+  let w11 = f.x * f.y * s11.g;
+  let weight = w00 + w10 + w01 + w11;
+
+  if (weight <= 0.0) {
+    return vec2<f32>(0.0);
+  }
+  return vec2<f32>((s00.r * w00 + s10.r * w10 + s01.r * w01 + s11.r * w11) / weight, weight);
+}
+
+// Guided filter, pass 1: per-window linear model depth ≈ a × luma + b,
+// with confidence as sample weight
+@compute @workgroup_size(16, 16)
+fn guidedCoefficients(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  if (global_id.x >= params.outputWidth || global_id.y >= params.outputHeight) {
+    return;
+  }
+
+  let coord = vec2<i32>(global_id.xy);
+  let radius = params.guidedRadius;
+
+  var sumC = 0.0;
+  var sumCI = 0.0;
+  var sumCP = 0.0;
+  var sumCIP = 0.0;
+  var sumCII = 0.0;
+  var count = 0.0;
+
+  for (var dy = -radius; dy <= radius; dy++) {
+    for (var dx = -radius; dx <= radius; dx++) {
+      let sampleCoord = coord + vec2<i32>(dx, dy);
+      if (sampleCoord.x < 0 || sampleCoord.x >= i32(params.outputWidth) ||
+          sampleCoord.y < 0 || sampleCoord.y >= i32(params.outputHeight)) {
+        continue;
+      }
+
+      let sampled = sampleBilinear(sampleCoord);
+      let luma = luminance(textureLoad(colorGuide, sampleCoord, 0).rgb);
+      let c = sampled.g;
+
+      sumC += c;
+      sumCI += c * luma;
+      sumCP += c * sampled.r;
+      sumCIP += c * luma * sampled.r;
+      sumCII += c * luma * luma;
+      count += 1.0;
+    }
+  }
+
+  var a = 0.0;
+  var b = sampleBilinear(coord).r;
+  if (sumC / count > 1e-6) {
+    let meanI = sumCI / sumC;
+    let meanP = sumCP / sumC;
+    let variance = sumCII / sumC - meanI * meanI;
+    let covariance = sumCIP / sumC - meanI * meanP;
+
+    a = covariance / (max(0.0, variance) + params.epsilon);
+    b = meanP - a * meanI;
+  }
+
+  textureStore(coefficientsOutput, coord, vec4<f32>(a, b, sumC / count, 0.0));
+}
+
+// Guided filter, pass 2: average the models covering each pixel and apply
+@compute @workgroup_size(16, 16)
+fn guidedApply(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  if (global_id.x >= params.outputWidth || global_id.y >= params.outputHeight) {
+    return;
+  }
+
+  let coord = vec2<i32>(global_id.xy);
+  let radius = params.guidedRadius;
+  var sum = vec2<f32>(0.0);
+  var count = 0.0;
+
+  for (var dy = -radius; dy <= radius; dy++) {
+    for (var dx = -radius; dx <= radius; dx++) {
+      let sampleCoord = coord + vec2<i32>(dx, dy);
+      if (sampleCoord.x < 0 || sampleCoord.x >= i32(params.outputWidth) ||
+          sampleCoord.y < 0 || sampleCoord.y >= i32(params.outputHeight)) {
+        continue;
+      }
+
+      sum += textureLoad(coefficients, sampleCoord, 0).rg;
+      count += 1.0;
+    }
+  }
+
+  let center = textureLoad(coefficients, coord, 0);
+  let mean = sum / count;
+  let luma = luminance(textureLoad(colorGuide, coord, 0).rgb);
+  let depth = select(params.noDepth, mean.x * luma + mean.y, center.b > 0.0);
+
+  textureStore(depthOutput, coord, vec4<f32>(depth, 0.0, 0.0, 0.0));
+}
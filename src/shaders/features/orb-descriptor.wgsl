@@ -3,9 +3,10 @@
 // Rotation invariant using intensity centroid
 
 @group(0) @binding(0) var inputTexture: texture_2d<f32>;
-@group(0) @binding(1) var keypointsBuffer: array<vec4<f32>>; // x, y, angle, response
-@group(0) @binding(2) var descriptorsBuffer: array<u32>; // 256 bits = 8 u32s per descriptor
-@group(0) @binding(3) var<uniform> params: ORBParams;
+@group(0) @binding(1) var<storage, read> keypointsBuffer: array<vec4<f32>>; // x, y, angle, response
+@group(0) @binding(2) var<storage, read_write> descriptorsBuffer: array<u32>; // 256 bits = 8 u32s per descriptor
+@group(0) @binding(3) var<storage, read> patternBuffer: array<vec4<i32>>; // (x1, y1, x2, y2) per pair
+@group(0) @binding(4) var<uniform> params: ORBParams;
 
 struct ORBParams {
   numKeypoints: u32,
@@ -13,25 +14,9 @@ struct ORBParams {
   _padding: vec2<f32>,
 }
 
-// ORB sampling pattern (256 pairs, pre-rotated)
-// Simplified subset for demonstration
+// ORB sampling pattern (256 pairs, see orb-pattern.ts)
 const numPairs = 256u;
 
-// Generate test pattern (normally loaded from precomputed)
-fn getTestPair(idx: u32) -> vec4<i32> {
-  // Returns (x1, y1, x2, y2) for pair comparison
-  // This would normally be a large pre-computed array
-  let angle = f32(idx) * 6.2831853 / 256.0;
-  let radius = 15.0;
-
-  let x1 = i32(cos(angle) * radius);
-  let y1 = i32(sin(angle) * radius);
-  let x2 = i32(cos(angle + 3.14159) * radius);
-  let y2 = i32(sin(angle + 3.14159) * radius);
-
-  return vec4<i32>(x1, y1, x2, y2);
-}
-
 // Rotate point around origin
 fn rotatePoint(p: vec2<i32>, angle: f32) -> vec2<i32> {
   let c = cos(angle);
@@ -73,7 +58,7 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
   var descriptor: array<u32, 8>;
 
   for (var pairIdx = 0u; pairIdx < numPairs; pairIdx++) {
-    let pair = getTestPair(pairIdx);
+    let pair = patternBuffer[pairIdx];
 
     // Rotate sampling points
     let p1 = rotatePoint(vec2<i32>(pair.x, pair.y), angle);
@@ -6,6 +6,17 @@
 // Re-export marker shaders
 export * from './marker-shaders';
 
+// Lens undistortion remap (grayscale → pinhole grayscale)
+import undistortShader from './preprocessing/undistort.wgsl';
+
+export { undistortShader };
+
+// Pyramidal Lucas-Kanade optical flow
+import pyramidDownsampleShader from './tracking/pyramid-downsample.wgsl';
+import lucasKanadeShader from './tracking/lucas-kanade.wgsl';
+
+export { pyramidDownsampleShader, lucasKanadeShader };
+
 // Preprocessing shaders
 export const grayscaleShader = `
 // Grayscale Conversion Shader
@@ -21,6 +21,10 @@ struct DecodeParams {
   markerSize: u32,      // Size of marker (e.g., 4 for 4x4)
   dictionarySize: u32,  // Number of markers in dictionary
   borderBits: u32,      // Number of border bits (usually 1)
+  maxCorrectionBits: u32, // Bit errors corrected (per dictionary family)
+  _padding0: u32,
+  _padding1: u32,
+  _padding2: u32,
 }
 
 // Extract bit grid from warped texture
@@ -187,8 +191,8 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
       break;
     }
 
-    // Try with error correction (1 bit error)
-    let correctedId = matchDictionaryWithCorrection(code, 1u);
+    // Try with error correction up to the family's limit
+    let correctedId = matchDictionaryWithCorrection(code, params.maxCorrectionBits);
 
     if (correctedId >= 0) {
       foundId = correctedId;
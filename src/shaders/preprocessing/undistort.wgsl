@@ -0,0 +1,87 @@
+// Undistortion Remap Shader
+// Resamples the grayscale image into an ideal pinhole image
+// For each output pixel: normalize, apply the lens model, sample the source bilinearly
+// Models: 0 = Brown-Conrady [k1, k2, p1, p2, k3], 1 = fisheye [k1, k2, k3, k4]
+
+struct UndistortParams {
+  fx: f32,
+  fy: f32,
+  cx: f32,
+  cy: f32,
+  model: u32,
+  _padding0: u32,
+  _padding1: u32,
+  _padding2: u32,
+  k0: vec4<f32>, // k[0..3]
+  k1: vec4<f32>, // k[4], unused
+}
+
+@group(0) @binding(0) var inputTexture: texture_2d<f32>;
+@group(0) @binding(1) var outputTexture: texture_storage_2d<r8unorm, write>;
+@group(0) @binding(2) var<uniform> params: UndistortParams;
+
+fn distort(p: vec2<f32>) -> vec2<f32> {
+  if (params.model == 1u) {
+    let r = length(p);
+    if (r < 1e-8) {
+      return p;
+    }
+    let theta = atan(r);
+    let t2 = theta * theta;
+    let thetaD = theta * (1.0 + t2 * (params.k0.x + t2 * (params.k0.y + t2 * (params.k0.z + t2 * params.k0.w))));
+    return p * (thetaD / r);
+  }
+
+  let k1 = params.k0.x;
+  let k2 = params.k0.y;
+  let p1 = params.k0.z;
+  let p2 = params.k0.w;
+  let k3 = params.k1.x;
+  let r2 = dot(p, p);
+  let radial = 1.0 + r2 * (k1 + r2 * (k2 + r2 * k3));
+  return vec2<f32>(
+    p.x * radial + 2.0 * p1 * p.x * p.y + p2 * (r2 + 2.0 * p.x * p.x),
+    p.y * radial + p1 * (r2 + 2.0 * p.y * p.y) + 2.0 * p2 * p.x * p.y
+  );
+}
+
+fn loadClamped(coord: vec2<i32>, dims: vec2<i32>) -> f32 {
+  return textureLoad(inputTexture, clamp(coord, vec2<i32>(0), dims - 1), 0).r;
+}
+
+@compute @workgroup_size(8, 8)
+fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  let dims = textureDimensions(outputTexture);
+
+  // Bounds check
+  if (global_id.x >= dims.x || global_id.y >= dims.y) {
+    return;
+  }
+
+  // Ideal normalized coordinates of this output pixel
+  let ideal = vec2<f32>(
+    (f32(global_id.x) - params.cx) / params.fx,
+    (f32(global_id.y) - params.cy) / params.fy
+  );
+
+  // Where the lens imaged that ray in the source
+  let d = distort(ideal);
+  let src = vec2<f32>(d.x * params.fx + params.cx, d.y * params.fy + params.cy);
+
+  let size = vec2<i32>(dims);
+  var value = 0.0;
+
+  if (src.x >= 0.0 && src.y >= 0.0 && src.x <= f32(size.x - 1) && src.y <= f32(size.y - 1)) {
+    let base = vec2<i32>(floor(src));
+    let f = src - floor(src);
+
+    let v00 = loadClamped(base, size);
+    let v10 = loadClamped(base + vec2<i32>(1, 0), size);
+    let v01 = loadClamped(base + vec2<i32>(0, 1), size);
+    let v11 = loadClamped(base + vec2<i32>(1, 1), size);
+
+    value = mix(mix(v00, v10, f.x), mix(v01, v11, f.x), f.y);
+  }
+
+  textureStore(outputTexture, vec2<i32>(global_id.xy), vec4<f32>(value, 0.0, 0.0, 0.0));
+}
@@ -0,0 +1,153 @@
+// Pyramidal Lucas-Kanade Shader
+// Tracks points from the previous frame's pyramid into the current one
+// One invocation per point; coarse-to-fine Gauss-Newton on the window SSD
+// Pyramids are mip chains, so every level is reachable through textureLoad
+
+struct FlowParams {
+  pointCount: u32,
+  levels: u32,
+  windowRadius: i32,
+  maxIterations: u32,
+  epsilon: f32,
+  minEigenvalue: f32,
+  _padding0: u32,
+  _padding1: u32,
+}
+
+@group(0) @binding(0) var prevPyramid: texture_2d<f32>;
+@group(0) @binding(1) var nextPyramid: texture_2d<f32>;
+@group(0) @binding(2) var<storage, read> inputPoints: array<vec4<f32>>; // xy = position
+@group(0) @binding(3) var<storage, read_write> outputPoints: array<vec4<f32>>; // xy = position, z = found, w = error
+@group(0) @binding(4) var<uniform> params: FlowParams;
+
+// Bilinear sample with clamped borders
+fn samplePrev(p: vec2<f32>, level: u32) -> f32 {
+  let dims = vec2<i32>(textureDimensions(prevPyramid, level));
+  let c = clamp(p, vec2<f32>(0.0), vec2<f32>(dims - 1));
+  let base = vec2<i32>(floor(c));
+  let next = min(base + 1, dims - 1);
+  let f = c - floor(c);
+
+  let top = mix(textureLoad(prevPyramid, base, level).r, textureLoad(prevPyramid, vec2<i32>(next.x, base.y), level).r, f.x);
+  let bottom = mix(textureLoad(prevPyramid, vec2<i32>(base.x, next.y), level).r, textureLoad(prevPyramid, next, level).r, f.x);
+  return mix(top, bottom, f.y);
+}
+
+fn sampleNext(p: vec2<f32>, level: u32) -> f32 {
+  let dims = vec2<i32>(textureDimensions(nextPyramid, level));
+  let c = clamp(p, vec2<f32>(0.0), vec2<f32>(dims - 1));
+  let base = vec2<i32>(floor(c));
+  let next = min(base + 1, dims - 1);
+  let f = c - floor(c);
+
+  let top = mix(textureLoad(nextPyramid, base, level).r, textureLoad(nextPyramid, vec2<i32>(next.x, base.y), level).r, f.x);
+  let bottom = mix(textureLoad(nextPyramid, vec2<i32>(base.x, next.y), level).r, textureLoad(nextPyramid, next, level).r, f.x);
+  return mix(top, bottom, f.y);
+}
+
+// Central-difference gradient of the previous frame
+fn gradient(p: vec2<f32>, level: u32) -> vec2<f32> {
+  return vec2<f32>(
+    samplePrev(p + vec2<f32>(1.0, 0.0), level) - samplePrev(p - vec2<f32>(1.0, 0.0), level),
+    samplePrev(p + vec2<f32>(0.0, 1.0), level) - samplePrev(p - vec2<f32>(0.0, 1.0), level)
+  ) * 0.5;
+}
+
+fn inside(p: vec2<f32>, level: u32) -> bool {
+  let dims = vec2<f32>(textureDimensions(nextPyramid, level));
+  return p.x >= 0.0 && p.y >= 0.0 && p.x <= dims.x - 1.0 && p.y <= dims.y - 1.0;
+}
+
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  let index = global_id.x;
+  if (index >= params.pointCount) {
+    return;
+  }
+
+  let start = inputPoints[index].xy;
+  let r = params.windowRadius;
+  let count = f32((2 * r + 1) * (2 * r + 1));
+
+  // Flow from coarser levels (g) and refined at the current level (v)
+  var g = vec2<f32>(0.0);
+  var v = vec2<f32>(0.0);
+  var found = true;
+
+  for (var l = i32(params.levels) - 1; l >= 0 && found; l--) {
+    let level = u32(l);
+    let p = start / f32(1u << level);
+
+    if (!inside(p, level)) {
+      found = false;
+      break;
+    }
+
+    // Structure tensor over the window
+    var gxx = 0.0;
+    var gxy = 0.0;
+    var gyy = 0.0;
+    for (var dy = -r; dy <= r; dy++) {
+      for (var dx = -r; dx <= r; dx++) {
+        let d = gradient(p + vec2<f32>(f32(dx), f32(dy)), level);
+        gxx += d.x * d.x;
+        gxy += d.x * d.y;
+        gyy += d.y * d.y;
+      }
+    }
+
+    let det = gxx * gyy - gxy * gxy;
+    let minEigenvalue = (gxx + gyy - sqrt((gxx - gyy) * (gxx - gyy) + 4.0 * gxy * gxy)) / (2.0 * count);
+    if (minEigenvalue < params.minEigenvalue || abs(det) < 1e-12) {
+      found = false;
+      break;
+    }
+
+    v = vec2<f32>(0.0);
+
+    for (var iter = 0u; iter < params.maxIterations; iter++) {
+      let n = p + g + v;
+      if (!inside(n, level)) {
+        found = false;
+        break;
+      }
+
+      var b = vec2<f32>(0.0);
+      for (var dy = -r; dy <= r; dy++) {
+        for (var dx = -r; dx <= r; dx++) {
+          let offset = vec2<f32>(f32(dx), f32(dy));
+          let diff = samplePrev(p + offset, level) - sampleNext(n + offset, level);
+          b += diff * gradient(p + offset, level);
+        }
+      }
+
+      let delta = vec2<f32>(gyy * b.x - gxy * b.y, gxx * b.y - gxy * b.x) / det;
+      v += delta;
+
+      if (dot(delta, delta) < params.epsilon * params.epsilon) {
+        break;
+      }
+    }
+
+    if (found && level > 0u) {
+      g = 2.0 * (g + v);
+    }
+  }
+
+  let end = start + g + v;
+  if (!found || !inside(end, 0u)) {
+    outputPoints[index] = vec4<f32>(start, 0.0, 0.0);
+    return;
+  }
+
+  // Mean absolute difference over the final window (0-255)
+  var error = 0.0;
+  for (var dy = -r; dy <= r; dy++) {
+    for (var dx = -r; dx <= r; dx++) {
+      let offset = vec2<f32>(f32(dx), f32(dy));
+      error += abs(samplePrev(start + offset, 0u) - sampleNext(end + offset, 0u));
+    }
+  }
+
+  outputPoints[index] = vec4<f32>(end, 1.0, error / count * 255.0);
+}
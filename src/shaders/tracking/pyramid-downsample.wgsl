@@ -0,0 +1,42 @@
+// Image Pyramid Shader
+// Builds one level of a Gaussian pyramid for optical flow
+// Same-size output copies the input (level 0); half-size output applies a
+// 5x5 binomial filter [1 4 6 4 1]^2 / 256 and keeps every other pixel
+
+@group(0) @binding(0) var inputTexture: texture_2d<f32>;
+@group(0) @binding(1) var outputTexture: texture_storage_2d<r8unorm, write>;
+
+fn loadClamped(coord: vec2<i32>, dims: vec2<i32>) -> f32 {
+  return textureLoad(inputTexture, clamp(coord, vec2<i32>(0), dims - 1), 0).r;
+}
+
+@compute @workgroup_size(8, 8)
+fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+  let dims = textureDimensions(outputTexture);
+
+  // Bounds check
+  if (global_id.x >= dims.x || global_id.y >= dims.y) {
+    return;
+  }
+
+  let inputDims = vec2<i32>(textureDimensions(inputTexture));
+  let coord = vec2<i32>(global_id.xy);
+
+  // Level 0: plain copy of the grayscale frame
+  if (inputDims.x == i32(dims.x) && inputDims.y == i32(dims.y)) {
+    textureStore(outputTexture, coord, vec4<f32>(loadClamped(coord, inputDims), 0.0, 0.0, 0.0));
+    return;
+  }
+
+  var weights = array<f32, 5>(1.0, 4.0, 6.0, 4.0, 1.0);
+  let center = coord * 2;
+  var sum = 0.0;
+
+  for (var j = -2; j <= 2; j++) {
+    for (var i = -2; i <= 2; i++) {
+      sum += loadClamped(center + vec2<i32>(i, j), inputDims) * weights[i + 2] * weights[j + 2];
+    }
+  }
+
+  textureStore(outputTexture, coord, vec4<f32>(sum / 256.0, 0.0, 0.0, 0.0));
+}
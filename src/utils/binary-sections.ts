@@ -0,0 +1,100 @@
+/**
+ * Binary Sections
+ * Shared building blocks of the library's binary formats (maps, image databases)
+ *
+ * A payload is a sequence of sections (u32 tag, u32 byte length, bytes),
+ * each holding one typed array. Tags are four ASCII characters.
+ */
+
+/**
+ * CRC-32 (IEEE 802.3) checksum
+ */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Concatenate typed arrays as tagged sections
+ */
+export function writeSections(sections: Array<[string, ArrayBufferView]>): Uint8Array {
+  const size = sections.reduce((sum, [, data]) => sum + 8 + data.byteLength, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+
+  let offset = 0;
+  for (const [tag, data] of sections) {
+    view.setUint32(offset, tagToUint32(tag), true);
+    view.setUint32(offset + 4, data.byteLength, true);
+    bytes.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), offset + 8);
+    offset += 8 + data.byteLength;
+  }
+
+  return bytes;
+}
+
+/**
+ * Split a payload into sections; each section is copied so typed array
+ * views on it are aligned
+ *
+ * @param label - Name of the format for error messages (e.g. 'map')
+ */
+export function readSections(payload: Uint8Array, label: string): Map<number, Uint8Array> {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const sections = new Map<number, Uint8Array>();
+
+  let offset = 0;
+  while (offset + 8 <= payload.length) {
+    const tag = view.getUint32(offset, true);
+    const length = view.getUint32(offset + 4, true);
+    if (offset + 8 + length > payload.length) {
+      throw new Error(`Invalid ${label} data: truncated section`);
+    }
+    sections.set(tag, payload.slice(offset + 8, offset + 8 + length));
+    offset += 8 + length;
+  }
+
+  return sections;
+}
+
+export function getSection(sections: Map<number, Uint8Array>, tag: string, label: string): Uint8Array {
+  const section = sections.get(tagToUint32(tag));
+  if (!section) {
+    throw new Error(`Invalid ${label} data: missing section ${tag}`);
+  }
+  return section;
+}
+
+export function tagToUint32(tag: string): number {
+  let value = 0;
+  for (let i = 0; i < 4; i++) {
+    value |= tag.charCodeAt(i) << (8 * i);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Pipe bytes through a compression or decompression stream
+ */
+export async function transformBytes(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
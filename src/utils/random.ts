@@ -0,0 +1,15 @@
+/**
+ * Random Utilities
+ */
+
+/**
+ * Seeded linear congruential generator in [0, 1)
+ * Same seed, same sequence, so sampling stays reproducible across runs.
+ */
+export function createRandom(seed: number): () => number {
+  let state = Math.floor(seed) % 4294967296;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Camera Calibrator Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { CameraCalibrator, scaleCalibratedIntrinsics } from '../../src/core/camera/camera-calibrator';
+import { createCharucoBoard, createGridBoard } from '../../src/core/detection/marker-board';
+import type { DetectedMarker } from '../../src/core/detection/marker-detector';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { createRandom } from '../../src/utils/random';
+
+const K = { fx: 900, fy: 905, cx: 650, cy: 355 };
+const distortion = [-0.2, 0.05, 0.001, -0.0005, 0];
+
+/**
+ * Board pose of view v: tilted in a different direction each time
+ */
+function viewPose(v: number): { rotation: Quaternion; translation: Vector3 } {
+  const axis = new Vector3(Math.cos(v * 0.9), Math.sin(v * 0.9), 0.2 * Math.sin(v)).normalize();
+  return {
+    rotation: Quaternion.fromAxisAngle(axis, 0.35 + 0.1 * Math.sin(v * 2.3)),
+    translation: new Vector3(0.04 * Math.sin(v * 1.7), 0.03 * Math.cos(v * 1.1), 0.35 + 0.05 * Math.sin(v * 0.5)),
+  };
+}
+
+function project(v: number, p: Vector3): [number, number] {
+  const { rotation, translation } = viewPose(v);
+  const c = rotation.rotateVector(p).add(translation);
+  const x = c.x / c.z;
+  const y = c.y / c.z;
+  const [k1, k2, p1, p2, k3] = distortion;
+  const r2 = x * x + y * y;
+  const radial = 1 + k1 * r2 + k2 * r2 * r2 + k3 * r2 * r2 * r2;
+  const xd = x * radial + 2 * p1 * x * y + p2 * (r2 + 2 * x * x);
+  const yd = y * radial + p1 * (r2 + 2 * y * y) + 2 * p2 * x * y;
+  return [K.fx * xd + K.cx, K.fy * yd + K.cy];
+}
+
+const board = createCharucoBoard({ squaresX: 9, squaresY: 7, squareLength: 0.03, markerLength: 0.022 });
+
+describe('CameraCalibrator', () => {
+  it('should recover intrinsics and distortion exactly from clean views', () => {
+    const calibrator = new CameraCalibrator(1280, 720);
+    for (let v = 0; v < 10; v++) {
+      expect(calibrator.addView(board.chessboardCorners, board.chessboardCorners.map(p => project(v, p)))).toBe(true);
+    }
+
+    const result = calibrator.calibrate()!;
+
+    expect(result.numViews).toBe(10);
+    expect(result.numPoints).toBe(480);
+    expect(result.rmsError).toBeLessThan(1e-6);
+    expect(Math.abs(result.intrinsics.fx - K.fx)).toBeLessThan(1e-3);
+    expect(Math.abs(result.intrinsics.fy - K.fy)).toBeLessThan(1e-3);
+    expect(Math.abs(result.intrinsics.cx - K.cx)).toBeLessThan(1e-3);
+    expect(Math.abs(result.intrinsics.cy - K.cy)).toBeLessThan(1e-3);
+    result.intrinsics.distortion!.forEach((d, i) => expect(Math.abs(d - distortion[i])).toBeLessThan(1e-6));
+
+    const pose = viewPose(3);
+    expect(result.views[3].position.distanceTo(pose.translation)).toBeLessThan(1e-6);
+  });
+
+  it('should report the reprojection error of noisy corners', () => {
+    const random = createRandom(7);
+    const calibrator = new CameraCalibrator(1280, 720);
+    for (let v = 0; v < 12; v++) {
+      calibrator.addView(
+        board.chessboardCorners,
+        board.chessboardCorners.map(p => {
+          const [x, y] = project(v, p);
+          return [x + (random() - 0.5), y + (random() - 0.5)];
+        })
+      );
+    }
+
+    const result = calibrator.calibrate()!;
+
+    // Uniform noise in [-0.5, 0.5] has 0.29 px RMS per axis
+    expect(result.rmsError).toBeGreaterThan(0.3);
+    expect(result.rmsError).toBeLessThan(0.45);
+    expect(result.perViewErrors).toHaveLength(12);
+    expect(Math.abs(result.intrinsics.fx - K.fx) / K.fx).toBeLessThan(0.01);
+    expect(Math.abs(result.intrinsics.cx - K.cx)).toBeLessThan(5);
+    expect(Math.abs(result.intrinsics.distortion![0] - distortion[0])).toBeLessThan(0.02);
+  });
+
+  it('should collect views from detected board markers', () => {
+    const grid = createGridBoard({ columns: 5, rows: 4, markerLength: 0.03, markerSeparation: 0.01 });
+    const calibrator = new CameraCalibrator(1280, 720);
+
+    for (let v = 0; v < 8; v++) {
+      const detected: DetectedMarker[] = grid.markers.map(m => {
+        const [topLeft, topRight, bottomRight, bottomLeft] = m.corners.map(p => project(v, p));
+        return { id: m.id, corners: { topLeft, topRight, bottomRight, bottomLeft }, confidence: 1 };
+      });
+      expect(calibrator.addBoardView(grid, detected)).toBe(true);
+    }
+
+    const result = calibrator.calibrate()!;
+    expect(result.numPoints).toBe(8 * 80);
+    expect(Math.abs(result.intrinsics.fx - K.fx)).toBeLessThan(1e-3);
+  });
+
+  it('should reject unusable input', () => {
+    const calibrator = new CameraCalibrator(1280, 720);
+
+    expect(() => calibrator.addView([new Vector3(0, 0, 0.1)], [[0, 0]])).toThrow();
+    expect(calibrator.addView(board.chessboardCorners.slice(0, 4), board.chessboardCorners.slice(0, 4).map(p => project(0, p)))).toBe(false);
+
+    calibrator.addView(board.chessboardCorners, board.chessboardCorners.map(p => project(0, p)));
+    expect(calibrator.calibrate()).toBeNull();
+
+    calibrator.reset();
+    expect(calibrator.getViewCount()).toBe(0);
+  });
+
+  it('should rescale intrinsics to another resolution', () => {
+    const calibrator = new CameraCalibrator(1280, 720);
+    for (let v = 0; v < 4; v++) {
+      calibrator.addView(board.chessboardCorners, board.chessboardCorners.map(p => project(v, p)));
+    }
+    const result = calibrator.calibrate()!;
+
+    const scaled = scaleCalibratedIntrinsics(result, 640, 360);
+    expect(scaled.fx).toBeCloseTo(result.intrinsics.fx / 2, 6);
+    expect(scaled.cy).toBeCloseTo(result.intrinsics.cy / 2, 6);
+    expect(scaled.distortion).toEqual(result.intrinsics.distortion);
+  });
+});
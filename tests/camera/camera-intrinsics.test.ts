@@ -0,0 +1,102 @@
+/**
+ * Camera Intrinsics Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  distortNormalized,
+  undistortNormalized,
+  projectToPixel,
+  pixelToNormalized,
+  undistortMarkerCorners,
+  undistortKeypoints,
+  withoutDistortion,
+  hasDistortion,
+  type CameraIntrinsics,
+} from '../../src/core/camera/camera-intrinsics';
+import { BoardPoseEstimator } from '../../src/core/tracking/board-pose-estimator';
+import { createGridBoard } from '../../src/core/detection/marker-board';
+import type { DetectedMarker } from '../../src/core/detection/marker-detector';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+
+const brown: CameraIntrinsics = {
+  fx: 800, fy: 790, cx: 640, cy: 360,
+  distortion: [-0.28, 0.09, 0.001, -0.0008, -0.01],
+};
+
+const fisheye: CameraIntrinsics = {
+  fx: 400, fy: 400, cx: 640, cy: 360,
+  distortion: [0.05, -0.01, 0.002, -0.0005],
+  distortionModel: 'fisheye',
+};
+
+describe('Camera intrinsics', () => {
+  it('should invert Brown-Conrady distortion', () => {
+    for (const [x, y] of [[0, 0], [0.3, -0.2], [-0.5, 0.35], [0.6, 0.4]]) {
+      const [xd, yd] = distortNormalized(brown, x, y);
+      const [ux, uy] = undistortNormalized(brown, xd, yd);
+
+      expect(Math.abs(ux - x)).toBeLessThan(1e-9);
+      expect(Math.abs(uy - y)).toBeLessThan(1e-9);
+    }
+  });
+
+  it('should invert fisheye distortion', () => {
+    for (const [x, y] of [[0.1, 0.05], [-0.8, 0.6], [1.5, -1.2]]) {
+      const [xd, yd] = distortNormalized(fisheye, x, y);
+      const [ux, uy] = undistortNormalized(fisheye, xd, yd);
+
+      expect(Math.abs(ux - x)).toBeLessThan(1e-9);
+      expect(Math.abs(uy - y)).toBeLessThan(1e-9);
+    }
+  });
+
+  it('should round-trip projection and pixel normalization', () => {
+    const point = new Vector3(0.12, -0.08, 0.5);
+    const pixel = projectToPixel(brown, point)!;
+    const [x, y] = pixelToNormalized(brown, pixel);
+
+    expect(Math.abs(x - point.x / point.z)).toBeLessThan(1e-9);
+    expect(Math.abs(y - point.y / point.z)).toBeLessThan(1e-9);
+    expect(projectToPixel(brown, new Vector3(0, 0, -1))).toBeNull();
+  });
+
+  it('should undistort corners and keypoints to pinhole pixels', () => {
+    const pinhole = withoutDistortion(brown);
+    expect(hasDistortion(pinhole)).toBe(false);
+    expect(pinhole.fx).toBe(brown.fx);
+
+    const point = new Vector3(-0.2, 0.15, 0.6);
+    const distorted = projectToPixel(brown, point)!;
+    const ideal = projectToPixel(pinhole, point)!;
+
+    const corners = undistortMarkerCorners(brown, {
+      topLeft: distorted, topRight: distorted, bottomRight: distorted, bottomLeft: distorted,
+    });
+    expect(Math.abs(corners.bottomRight[0] - ideal[0])).toBeLessThan(1e-6);
+    expect(Math.abs(corners.bottomRight[1] - ideal[1])).toBeLessThan(1e-6);
+
+    const [keypoint] = undistortKeypoints(brown, [{ x: distorted[0], y: distorted[1], score: 7 }]);
+    expect(Math.abs(keypoint.x - ideal[0])).toBeLessThan(1e-6);
+    expect(keypoint.score).toBe(7);
+  });
+
+  it('should recover board pose from distorted corners', () => {
+    const board = createGridBoard({ columns: 3, rows: 3, markerLength: 0.04, markerSeparation: 0.01 });
+    const rotation = Quaternion.fromAxisAngle(new Vector3(1, 0.3, 0).normalize(), 0.5);
+    const translation = new Vector3(0.08, -0.05, 0.3);
+
+    const detected: DetectedMarker[] = board.markers.map(m => {
+      const [topLeft, topRight, bottomRight, bottomLeft] = m.corners.map(
+        p => projectToPixel(brown, rotation.rotateVector(p).add(translation))!
+      );
+      return { id: m.id, corners: { topLeft, topRight, bottomRight, bottomLeft }, confidence: 1 };
+    });
+
+    const pose = new BoardPoseEstimator(brown).estimatePose(board, detected)!;
+
+    expect(pose.inliers).toHaveLength(36);
+    expect(pose.position.distanceTo(translation)).toBeLessThan(1e-6);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Depth Alignment Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  DepthAligner,
+  DepthMap,
+  samplesFromCameraPoints,
+  samplesFromWorldPoints,
+  samplesFromPose,
+  samplesFromPlane,
+  type MetricDepthSample,
+} from '../../src/core/depth';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Vector3 } from '../../src/core/math/vector';
+import { createRandom } from '../../src/utils/random';
+
+const WIDTH = 64;
+const HEIGHT = 48;
+const intrinsics = { fx: 60, fy: 60, cx: 32, cy: 24 };
+
+/**
+ * Metric depth of a slanted wall with a box in front of it
+ */
+function sceneDepth(x: number, y: number): number {
+  const wall = 1.5 + 0.03 * x;
+  const inBox = x > 20 && x < 40 && y > 15 && y < 35;
+  return inBox ? 0.8 + 0.005 * y : wall;
+}
+
+/**
+ * Relative depth as DepthEstimator produces it: normalized, inverted disparity
+ */
+function relativeDepthMap(depthAt: (x: number, y: number) => number = sceneDepth): DepthMap {
+  const disparity = new Float32Array(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      disparity[y * WIDTH + x] = 1 / depthAt(x, y);
+    }
+  }
+
+  const min = Math.min(...disparity);
+  const max = Math.max(...disparity);
+  return new DepthMap(WIDTH, HEIGHT, disparity.map(v => 1 - (v - min) / (max - min)), {
+    minDepth: 0.1,
+    maxDepth: 10,
+  });
+}
+
+/**
+ * Samples at integer pixels with relative noise and a share of outliers
+ */
+function createSamples(count: number, noise: number, outliers: number, seed: number): MetricDepthSample[] {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => {
+    const x = Math.floor(random() * WIDTH);
+    const y = Math.floor(random() * HEIGHT);
+    const depth = random() < outliers
+      ? 0.2 + random() * 5
+      : sceneDepth(x, y) * (1 + (random() * 2 - 1) * noise);
+    return { x, y, depth };
+  });
+}
+
+function maxRelativeError(depthMap: DepthMap): number {
+  let worst = 0;
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const depth = depthMap.getDepthMeters(x, y)!;
+      worst = Math.max(worst, Math.abs(depth - sceneDepth(x, y)) / sceneDepth(x, y));
+    }
+  }
+  return worst;
+}
+
+describe('DepthAligner', () => {
+  it('should recover metric depth despite outliers', () => {
+    const aligner = new DepthAligner();
+    const result = aligner.align(relativeDepthMap(), createSamples(60, 0.01, 0.3, 1))!;
+
+    expect(result).not.toBeNull();
+    expect(result.alignment.space).toBe('inverse');
+    expect(result.inlierCount).toBeGreaterThanOrEqual(35);
+    expect(result.inlierCount).toBeLessThan(60);
+    expect(maxRelativeError(result.depthMap)).toBeLessThan(0.02);
+    expect(result.fitResidual).toBeLessThan(0.03); // Noise and outliers that fall within the threshold
+    expect(result.residual).toBeGreaterThan(result.fitResidual); // Outliers count in the frame residual
+  });
+
+  it('should fit affine relative depth', () => {
+    const depthAt = (x: number) => 1 + 0.05 * x;
+    const depthMap = new DepthMap(WIDTH, HEIGHT, new Float32Array(WIDTH * HEIGHT).map((_, i) => (i % WIDTH) / WIDTH));
+    const samples = [3, 10, 22, 35, 47, 60].map(x => ({ x, y: 5, depth: depthAt(x) }));
+
+    const fit = new DepthAligner({ space: 'depth' }).fit(depthMap, samples)!;
+
+    expect(fit.alignment.scale).toBeCloseTo(0.05 * WIDTH, 4);
+    expect(fit.alignment.shift).toBeCloseTo(1, 4);
+    expect(fit.inliers).toHaveLength(6);
+  });
+
+  it('should not fit without enough samples', () => {
+    const aligner = new DepthAligner({ minSamples: 6 });
+
+    expect(aligner.align(relativeDepthMap(), createSamples(5, 0, 0, 2))).toBeNull();
+    expect(aligner.getAlignment()).toBeNull();
+  });
+
+  it('should keep the previous alignment when a frame cannot be fit', () => {
+    const aligner = new DepthAligner();
+    const first = aligner.align(relativeDepthMap(), createSamples(40, 0.01, 0, 3))!;
+    const second = aligner.align(relativeDepthMap(), createSamples(3, 0.01, 0, 4))!;
+
+    expect(second.frameAlignment).toBeNull();
+    expect(second.alignment).toEqual(first.alignment);
+    expect(second.inlierCount).toBe(0);
+    expect(maxRelativeError(second.depthMap)).toBeLessThan(0.02);
+  });
+
+  it('should smooth small changes and reset on large ones', () => {
+    const aligner = new DepthAligner({ temporalSmoothing: 0.5 });
+    const depthMap = relativeDepthMap();
+    const scaled = (samples: MetricDepthSample[], factor: number) =>
+      samples.map(sample => ({ ...sample, depth: sample.depth * factor }));
+
+    const first = aligner.align(depthMap, createSamples(40, 0, 0, 5))!;
+
+    // 10% larger: filtered alignment lands in between
+    const second = aligner.align(depthMap, scaled(createSamples(40, 0, 0, 6), 1.1))!;
+    const center = (result: typeof first) => result.depthMap.getDepthMeters(10, 10)!;
+    expect(center(second)).toBeGreaterThan(center(first) * 1.02);
+    expect(center(second)).toBeLessThan(center(first) * 1.08);
+    expect(second.residual).toBeGreaterThan(0.01);
+    expect(second.fitResidual).toBeLessThan(1e-4);
+
+    // Twice as large: the filter restarts from the new fit
+    const third = aligner.align(depthMap, scaled(createSamples(40, 0, 0, 7), 2))!;
+    expect(center(third)).toBeCloseTo(sceneDepth(10, 10) * 2, 3);
+    expect(third.alignment).toEqual(third.frameAlignment!);
+  });
+
+  it('should reset its filter', () => {
+    const aligner = new DepthAligner();
+    aligner.align(relativeDepthMap(), createSamples(40, 0, 0, 8));
+    aligner.reset();
+
+    expect(aligner.getAlignment()).toBeNull();
+  });
+});
+
+describe('metric depth samples', () => {
+  const depthMap = { width: WIDTH, height: HEIGHT };
+
+  it('should project camera points into the depth map', () => {
+    const samples = samplesFromCameraPoints(
+      [new Vector3(0, 0, 2), new Vector3(0.5, -0.2, 1), new Vector3(0, 0, -1), new Vector3(10, 0, 1)],
+      intrinsics,
+      depthMap
+    );
+
+    expect(samples).toEqual([
+      { x: 32, y: 24, depth: 2 },
+      { x: 62, y: 12, depth: 1 },
+    ]);
+  });
+
+  it('should scale camera image pixels to the depth map', () => {
+    const camera = { fx: 120, fy: 120, cx: 64, cy: 48 };
+    const [sample] = samplesFromCameraPoints([new Vector3(0.5, -0.2, 1)], camera, depthMap, { width: 128, height: 96 });
+
+    expect(sample.x).toBeCloseTo(62, 6);
+    expect(sample.y).toBeCloseTo(12, 6);
+  });
+
+  it('should transform world points into the camera', () => {
+    const worldToCamera = Matrix4.translation(0, 0, 1);
+    const [sample] = samplesFromWorldPoints([new Vector3(0, 0, 1)], worldToCamera, intrinsics, depthMap);
+
+    expect(sample).toEqual({ x: 32, y: 24, depth: 2 });
+  });
+
+  it('should place object points with a pose', () => {
+    const pose = {
+      position: new Vector3(0, 0, 1),
+      rotation: Quaternion.fromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2),
+    };
+    const [sample] = samplesFromPose(pose, [new Vector3(-0.5, 0, 0)], intrinsics, depthMap);
+
+    expect(sample.depth).toBeCloseTo(1.5, 6);
+    expect(sample.x).toBeCloseTo(32, 6);
+  });
+
+  it('should intersect pixel rays with a plane', () => {
+    // Floor 1 m below the camera (y down): 0·x + 1·y + 0·z - 1 = 0
+    const plane = { normal: new Vector3(0, 1, 0), distance: -1 };
+    const samples = samplesFromPlane(plane, [{ x: 32, y: 44 }, { x: 10, y: 34 }, { x: 32, y: 10 }], intrinsics, depthMap);
+
+    expect(samples).toHaveLength(2); // The last pixel looks above the horizon
+    expect(samples[0].depth).toBeCloseTo(3, 6);
+    expect(samples[1].depth).toBeCloseTo(6, 6);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Depth Upsampling Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  DepthMap,
+  upsampleDepth,
+  fillDepthHoles,
+  toMetricDepth,
+  NO_DEPTH,
+  type GuideImage,
+} from '../../src/core/depth';
+
+const WIDTH = 64;
+const HEIGHT = 48;
+const SCALE = 4;
+
+/**
+ * Foreground box whose edges fall between depth pixels
+ */
+function inBox(x: number, y: number): boolean {
+  return x >= 21 && x < 45 && y >= 13 && y < 35;
+}
+
+function createTruth(): Float32Array {
+  const data = new Float32Array(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      data[y * WIDTH + x] = inBox(x, y) ? 0.2 : 0.8;
+    }
+  }
+  return data;
+}
+
+/**
+ * Camera frame: dark box on a bright background
+ */
+function createGuide(): GuideImage {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const value = inBox(x, y) ? 40 : 210;
+      const i = (y * WIDTH + x) * 4;
+      data[i] = value;
+      data[i + 1] = value * 0.9;
+      data[i + 2] = value * 0.8;
+      data[i + 3] = 255;
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+}
+
+/**
+ * Low-resolution depth, area-averaged from the truth (blurs the box edges)
+ */
+function createLowRes(): DepthMap {
+  const truth = createTruth();
+  const width = WIDTH / SCALE;
+  const height = HEIGHT / SCALE;
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < SCALE; dy++) {
+        for (let dx = 0; dx < SCALE; dx++) {
+          sum += truth[(y * SCALE + dy) * WIDTH + x * SCALE + dx];
+        }
+      }
+      data[y * width + x] = sum / (SCALE * SCALE);
+    }
+  }
+
+  return new DepthMap(width, height, data, { minDepth: 0.5, maxDepth: 4, timestamp: 0 });
+}
+
+function meanError(data: Float32Array): number {
+  const truth = createTruth();
+  let sum = 0;
+  for (let i = 0; i < truth.length; i++) {
+    sum += Math.abs(data[i] - truth[i]);
+  }
+  return sum / truth.length;
+}
+
+describe('Depth Upsampling', () => {
+  it('should upsample to the guide resolution', () => {
+    const depthMap = createLowRes();
+    const { depth, confidence } = upsampleDepth(depthMap, createGuide());
+
+    expect(depth.width).toBe(WIDTH);
+    expect(depth.height).toBe(HEIGHT);
+    expect(depth.minDepth).toBe(0.5);
+    expect(depth.maxDepth).toBe(4);
+    expect(confidence.length).toBe(WIDTH * HEIGHT);
+    expect(Math.min(...confidence)).toBeGreaterThan(0);
+  });
+
+  it('should snap joint bilateral edges to the guide', () => {
+    const depthMap = createLowRes();
+    const bilinear = meanError(depthMap.resize(WIDTH, HEIGHT).data);
+    const { depth } = upsampleDepth(depthMap, createGuide());
+
+    expect(meanError(depth.data)).toBeLessThan(bilinear * 0.5);
+
+    // Depth steps across the left and top box edges in one pixel
+    const blurry = depthMap.resize(WIDTH, HEIGHT);
+    const stepX = depth.getDepth(20, 24)! - depth.getDepth(21, 24)!;
+    const stepY = depth.getDepth(32, 12)! - depth.getDepth(32, 13)!;
+    expect(stepX).toBeGreaterThan(0.4);
+    expect(stepY).toBeGreaterThan(0.4);
+    expect(blurry.getDepth(20, 24)! - blurry.getDepth(21, 24)!).toBeLessThan(0.2);
+  });
+
+  it('should sharpen edges with the guided filter', () => {
+    const depthMap = createLowRes();
+    const bilinear = meanError(depthMap.resize(WIDTH, HEIGHT).data);
+    const { depth } = upsampleDepth(depthMap, createGuide(), { method: 'guided' });
+
+    expect(meanError(depth.data)).toBeLessThan(bilinear);
+    expect(depth.getDepth(32, 24)!).toBeCloseTo(0.2, 1);
+    expect(depth.getDepth(4, 4)!).toBeCloseTo(0.8, 1);
+  });
+
+  it('should fill low-confidence holes from confident neighbors', () => {
+    const width = 16;
+    const height = 12;
+    const data = new Float32Array(width * height).fill(0.5);
+    const confidence = new Float32Array(width * height).fill(1);
+    for (let y = 4; y < 8; y++) {
+      for (let x = 6; x < 10; x++) {
+        data[y * width + x] = 0;
+        confidence[y * width + x] = 0.3; // Below the default threshold
+      }
+    }
+
+    const guide = createGuide();
+    const { depth, confidence: output } = upsampleDepth(
+      new DepthMap(width, height, data),
+      guide,
+      {},
+      confidence
+    );
+
+    for (let i = 0; i < depth.data.length; i++) {
+      expect(depth.data[i]).toBeCloseTo(0.5, 5);
+      expect(output[i]).toBeGreaterThan(0);
+    }
+    // Filled pixels are less certain than measured ones
+    expect(output[HEIGHT / 2 * WIDTH + WIDTH / 2]).toBeLessThan(output[0]);
+  });
+
+  it('should weight hole filling by confidence', () => {
+    const filled = fillDepthHoles(
+      Float32Array.from([0.2, 0, 0.8]),
+      Float32Array.from([1, 0, 0.6]),
+      3,
+      1,
+      1,
+      1
+    );
+
+    expect(filled.data[1]).toBeCloseTo((0.2 + 0.8 * 0.6) / 1.6, 6);
+    expect(filled.confidence[1]).toBeGreaterThan(0);
+    expect(filled.confidence[1]).toBeLessThan(1);
+    expect(Array.from(filled.confidence.subarray(0, 1))).toEqual([1]);
+  });
+
+  it('should leave unfilled holes without depth', () => {
+    const data = new Float32Array(16).fill(0.3);
+    data[5] = NaN;
+    const { depth, confidence } = upsampleDepth(
+      new DepthMap(4, 4, data, { minDepth: 0.5, maxDepth: 4, timestamp: 0 }),
+      { width: 4, height: 4, data: new Uint8ClampedArray(64).fill(128) },
+      { holeFillIterations: 0, radius: 0 }
+    );
+
+    expect(confidence[5]).toBe(0);
+    expect(depth.data[5]).toBeNaN();
+    expect(depth.data[0]).toBeCloseTo(0.3, 6);
+
+    const meters = toMetricDepth(depth);
+    expect(meters[5]).toBe(NO_DEPTH);
+    expect(meters[0]).toBeCloseTo(0.5 + 0.3 * 3.5, 5);
+  });
+
+  it('should reject mismatched inputs', () => {
+    const depthMap = createLowRes();
+    expect(() => upsampleDepth(depthMap, { width: 4, height: 4, data: new Uint8ClampedArray(8) }))
+      .toThrow('Guide size mismatch');
+    expect(() => upsampleDepth(depthMap, createGuide(), {}, new Float32Array(3)))
+      .toThrow('Confidence size mismatch');
+  });
+});
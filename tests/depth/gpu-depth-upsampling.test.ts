@@ -0,0 +1,114 @@
+/**
+ * GPU Depth Upsampling Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  DepthMap,
+  GPUDepthUpsampler,
+  upsampleDepth,
+  resolvePixelConfidence,
+  toMetricDepth,
+  NO_DEPTH,
+} from '../../src/core/depth';
+import { createFakeGPU, boundTexture, type FakeGPU } from '../helpers/fake-gpu';
+
+const WIDTH = 8;
+const HEIGHT = 8;
+
+/**
+ * 4×4 depth with a NaN and a low-confidence hole
+ */
+function createHoledDepth(): { depthMap: DepthMap; confidence: Float32Array } {
+  const data = new Float32Array(16).fill(0.3);
+  const confidence = new Float32Array(16).fill(0.9);
+  data[5] = NaN;
+  confidence[10] = 0.2;
+  return {
+    depthMap: new DepthMap(4, 4, data, { minDepth: 0.5, maxDepth: 4, timestamp: 0 }),
+    confidence,
+  };
+}
+
+function createGuideTexture(gpu: FakeGPU): GPUTexture {
+  return gpu.context.device.createTexture({
+    label: 'Camera',
+    size: { width: WIDTH, height: HEIGHT },
+    format: 'rgba8unorm',
+    usage: GPUTextureUsage.TEXTURE_BINDING,
+  });
+}
+
+describe('GPUDepthUpsampler', () => {
+  it('should upload holes and confidence like the CPU reference', async () => {
+    const gpu = createFakeGPU();
+    const upsampler = new GPUDepthUpsampler(gpu.context);
+    await upsampler.initialize(WIDTH, HEIGHT);
+
+    const { depthMap, confidence } = createHoledDepth();
+    upsampler.upsample(depthMap, createGuideTexture(gpu), confidence);
+
+    const expectedConfidence = resolvePixelConfidence(depthMap, confidence, 0.5);
+    const expectedDepth = toMetricDepth(depthMap);
+    const samples = gpu.textureWrites[0].data;
+    for (let i = 0; i < 16; i++) {
+      expect(samples[i * 2 + 1]).toBeCloseTo(expectedConfidence[i], 6);
+      expect(samples[i * 2]).toBeCloseTo(expectedConfidence[i] > 0 ? expectedDepth[i] : NO_DEPTH, 5);
+    }
+    expect(samples[5 * 2]).toBe(NO_DEPTH);
+    expect(samples[10 * 2]).toBe(NO_DEPTH);
+  });
+
+  it('should write unfilled holes with the CPU hole depth', async () => {
+    const config = { holeFillIterations: 0, radius: 0 };
+    const { depthMap, confidence } = createHoledDepth();
+
+    const cpu = upsampleDepth(
+      depthMap,
+      { width: WIDTH, height: HEIGHT, data: new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(128) },
+      config,
+      confidence
+    );
+    const hole = cpu.confidence.indexOf(0);
+    expect(hole).toBeGreaterThanOrEqual(0);
+
+    for (const method of ['joint-bilateral', 'guided'] as const) {
+      const gpu = createFakeGPU();
+      const upsampler = new GPUDepthUpsampler(gpu.context, { ...config, method });
+      await upsampler.initialize(WIDTH, HEIGHT);
+      upsampler.upsample(depthMap, createGuideTexture(gpu), confidence);
+
+      // Shader uses params.noDepth for pixels it leaves unfilled
+      const params = new Float32Array(gpu.bufferWrites[gpu.bufferWrites.length - 1].data);
+      expect(params[11]).toBe(toMetricDepth(cpu.depth)[hole]);
+    }
+  });
+
+  it('should chain hole filling into the upsampling pass', async () => {
+    const gpu = createFakeGPU();
+    const upsampler = new GPUDepthUpsampler(gpu.context, { holeFillIterations: 3 });
+    await upsampler.initialize(WIDTH, HEIGHT);
+
+    const { depthMap, confidence } = createHoledDepth();
+    const output = upsampler.upsample(depthMap, createGuideTexture(gpu), confidence);
+
+    expect(gpu.passes.map(pass => pass.entryPoint)).toEqual([
+      'fillHoles', 'fillHoles', 'fillHoles', 'jointBilateralUpsample',
+    ]);
+    // Each pass reads what the previous one wrote
+    for (let i = 1; i < 3; i++) {
+      expect(boundTexture(gpu.passes[i], 0)).toBe(boundTexture(gpu.passes[i - 1], 3));
+    }
+    expect(boundTexture(gpu.passes[3], 0)).toBe(boundTexture(gpu.passes[2], 3));
+    expect(boundTexture(gpu.passes[3], 4) as unknown).toBe(output);
+  });
+
+  it('should reject a guide of the wrong size', async () => {
+    const gpu = createFakeGPU();
+    const upsampler = new GPUDepthUpsampler(gpu.context);
+    await upsampler.initialize(WIDTH * 2, HEIGHT);
+
+    const { depthMap } = createHoledDepth();
+    expect(() => upsampler.upsample(depthMap, createGuideTexture(gpu))).toThrow('Guide size mismatch');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Inference Backend Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  CPUInferenceBackend,
+  OnnxRuntimeBackend,
+  MODEL_REGISTRY,
+  parseOnnxModel,
+  resolveInputDims,
+  type OrtModule,
+} from '../../src/core/depth';
+import { buildOnnxModel } from '../helpers/onnx-builder';
+
+const info = { ...MODEL_REGISTRY.custom, inputSize: [4, 3] as [number, number] };
+
+/**
+ * 1x1 convolution mixing RGB into one channel, then ReLU
+ */
+const convModel = buildOnnxModel({
+  inputs: [{ name: 'image', dims: ['batch', 3, 'height', 'width'] }],
+  outputs: [{ name: 'depth', dims: ['batch', 'height', 'width'] }],
+  nodes: [
+    { opType: 'Conv', inputs: ['image', 'weight', 'bias'], outputs: ['conv'], attributes: { kernel_shape: [1, 1] } },
+    { opType: 'Relu', inputs: ['conv'], outputs: ['relu'] },
+    { opType: 'Squeeze', inputs: ['relu', 'axes'], outputs: ['depth'] },
+  ],
+  initializers: {
+    weight: { dims: [1, 3, 1, 1], data: [1, -1, 0.5], raw: true },
+    bias: { dims: [1], data: [0.25] },
+    axes: { dims: [1], data: [1] },
+  },
+  initializersAsInputs: true,
+});
+
+function createInput(length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => Math.sin(i * 1.7) * 2);
+}
+
+describe('ONNX Model Reader', () => {
+  it('should discover inputs and outputs without initializers', () => {
+    const graph = parseOnnxModel(convModel, { weights: false });
+
+    expect(graph.inputs).toEqual([{ name: 'image', dims: ['batch', 3, 'height', 'width'] }]);
+    expect(graph.outputs).toEqual([{ name: 'depth', dims: ['batch', 'height', 'width'] }]);
+    expect(graph.nodes).toHaveLength(0);
+    expect(graph.opsetVersion).toBe(13);
+  });
+
+  it('should decode nodes, attributes and weights', () => {
+    const graph = parseOnnxModel(convModel);
+
+    expect(graph.nodes.map(node => node.opType)).toEqual(['Conv', 'Relu', 'Squeeze']);
+    expect(graph.nodes[0].attributes.get('kernel_shape')).toEqual([1, 1]);
+    expect(Array.from(graph.initializers.get('weight')!.data)).toEqual([1, -1, 0.5]);
+    expect(graph.initializers.get('bias')!.dims).toEqual([1]);
+  });
+
+  it('should decode negative integer attributes', () => {
+    const graph = parseOnnxModel(buildOnnxModel({
+      inputs: [{ name: 'x', dims: [2, 3] }],
+      outputs: [{ name: 'y', dims: [2, 3, 1] }],
+      nodes: [{ opType: 'Unsqueeze', inputs: ['x'], outputs: ['y'], attributes: { axes: [-1] } }],
+      opset: 11,
+    }));
+
+    expect(graph.nodes[0].attributes.get('axes')).toEqual([-1]);
+  });
+
+  it('should reject data that is not a model', () => {
+    expect(() => parseOnnxModel(new Uint8Array([0x08, 0x01]))).toThrow('missing graph');
+  });
+
+  it('should resolve dynamic input dimensions from the model info', () => {
+    expect(resolveInputDims({ name: 'x', dims: ['batch', 3, 'h', 'w'] }, info)).toEqual([1, 3, 3, 4]);
+    expect(resolveInputDims({ name: 'x', dims: [null, 'h', 'w', 3] }, info)).toEqual([1, 3, 4, 3]);
+    expect(resolveInputDims({ name: 'x', dims: [1, 3, 256, 256] }, info)).toEqual([1, 3, 256, 256]);
+  });
+});
+
+describe('CPU Inference Backend', () => {
+  it('should run a convolution graph', async () => {
+    const session = await new CPUInferenceBackend().createSession(convModel, info);
+    const input = createInput(3 * 12);
+
+    const { depth } = await session.run({ image: input });
+
+    expect(session.inputNames).toEqual(['image']);
+    expect(session.outputNames).toEqual(['depth']);
+    expect(session.backend).toBe('cpu');
+    expect(depth).toHaveLength(12);
+    for (let i = 0; i < 12; i++) {
+      const expected = Math.max(0, input[i] - input[12 + i] + 0.5 * input[24 + i] + 0.25);
+      expect(depth[i]).toBeCloseTo(expected, 5);
+    }
+  });
+
+  it('should match a direct 3x3 strided convolution', async () => {
+    const weights = Array.from({ length: 2 * 2 * 9 }, (_, i) => ((i * 7) % 5) - 2);
+    const model = buildOnnxModel({
+      inputs: [{ name: 'x', dims: [1, 2, 5, 6] }],
+      outputs: [{ name: 'y', dims: [1, 2, 3, 3] }],
+      nodes: [{
+        opType: 'Conv',
+        inputs: ['x', 'w'],
+        outputs: ['y'],
+        attributes: { strides: [2, 2], pads: [1, 1, 1, 1] },
+      }],
+      initializers: { w: { dims: [2, 2, 3, 3], data: weights } },
+    });
+    const session = await new CPUInferenceBackend().createSession(model, info);
+    const x = createInput(60);
+
+    const { y } = await session.run({ x });
+
+    expect(y).toHaveLength(18);
+    for (let m = 0; m < 2; m++) {
+      for (let oy = 0; oy < 3; oy++) {
+        for (let ox = 0; ox < 3; ox++) {
+          let sum = 0;
+          for (let c = 0; c < 2; c++) {
+            for (let ky = 0; ky < 3; ky++) {
+              for (let kx = 0; kx < 3; kx++) {
+                const iy = oy * 2 - 1 + ky;
+                const ix = ox * 2 - 1 + kx;
+                if (iy < 0 || iy >= 5 || ix < 0 || ix >= 6) {continue;}
+                sum += x[c * 30 + iy * 6 + ix] * weights[((m * 2 + c) * 3 + ky) * 3 + kx];
+              }
+            }
+          }
+          expect(y[(m * 3 + oy) * 3 + ox]).toBeCloseTo(sum, 4);
+        }
+      }
+    }
+  });
+
+  it('should broadcast and reduce', async () => {
+    const model = buildOnnxModel({
+      inputs: [{ name: 'x', dims: [1, 2, 3] }],
+      outputs: [{ name: 'y', dims: [1, 3] }],
+      nodes: [
+        { opType: 'Constant', inputs: [], outputs: ['scale'], attributes: { value: { dims: [2, 1], data: [2, -1] } } },
+        { opType: 'Mul', inputs: ['x', 'scale'], outputs: ['scaled'] },
+        { opType: 'Sigmoid', inputs: ['scaled'], outputs: ['sigmoid'] },
+        { opType: 'ReduceMean', inputs: ['sigmoid'], outputs: ['y'], attributes: { axes: [1], keepdims: 0 } },
+      ],
+    });
+    const session = await new CPUInferenceBackend().createSession(model, info);
+
+    const { y } = await session.run({ x: Float32Array.from([0, 1, 2, 3, 4, 5]) });
+
+    const sigmoid = (v: number) => 1 / (1 + Math.exp(-v));
+    expect(y).toHaveLength(3);
+    for (let i = 0; i < 3; i++) {
+      expect(y[i]).toBeCloseTo((sigmoid(2 * i) + sigmoid(-(i + 3))) / 2, 5);
+    }
+  });
+
+  it('should reshape and transpose', async () => {
+    const model = buildOnnxModel({
+      inputs: [{ name: 'x', dims: [1, 2, 2, 3] }],
+      outputs: [{ name: 'y', dims: [3, 4] }],
+      nodes: [
+        { opType: 'Transpose', inputs: ['x'], outputs: ['nchw'], attributes: { perm: [0, 3, 1, 2] } },
+        { opType: 'Reshape', inputs: ['nchw', 'shape'], outputs: ['y'] },
+      ],
+      initializers: { shape: { dims: [2], data: [3, -1] } },
+    });
+    const session = await new CPUInferenceBackend().createSession(model, info);
+
+    const { y } = await session.run({ x: Float32Array.from({ length: 12 }, (_, i) => i) });
+
+    expect(Array.from(y)).toEqual([0, 3, 6, 9, 1, 4, 7, 10, 2, 5, 8, 11]);
+  });
+
+  it('should reject unsupported operators and mis-sized inputs', async () => {
+    const backend = new CPUInferenceBackend();
+    const unsupported = buildOnnxModel({
+      inputs: [{ name: 'x', dims: [1] }],
+      outputs: [{ name: 'y', dims: [1] }],
+      nodes: [{ opType: 'LSTM', inputs: ['x'], outputs: ['y'] }],
+    });
+
+    await expect(backend.createSession(unsupported, info)).rejects.toThrow('LSTM');
+
+    const session = await backend.createSession(convModel, info);
+    await expect(session.run({ image: new Float32Array(5) })).rejects.toThrow('expected [1, 3, 3, 4]');
+  });
+});
+
+describe('ONNX Runtime Backend', () => {
+  /**
+   * Minimal onnxruntime-web stand-in recording session options
+   */
+  function createRuntime(failing: string[] = []) {
+    const created: string[] = [];
+    const runtime: OrtModule = {
+      InferenceSession: {
+        create: async (_model, options) => {
+          const provider = options!.executionProviders![0];
+          if (failing.includes(provider)) {
+            throw new Error(`${provider} unavailable`);
+          }
+          created.push(provider);
+          return {
+            inputNames: ['image'],
+            outputNames: ['depth'],
+            run: async feeds => ({ depth: { data: Float64Array.from([feeds.image.dims.length]), dims: [1] } }),
+            release: async () => {},
+          };
+        },
+      },
+      Tensor: class {
+        constructor(public type: 'float32', public data: Float32Array, public dims: readonly number[]) {}
+      },
+      env: { wasm: {} },
+    };
+    return { runtime, created };
+  }
+
+  it('should fall back to WASM without WebGPU', async () => {
+    const { runtime, created } = createRuntime();
+    const backend = new OnnxRuntimeBackend({ runtime: async () => runtime, wasmPaths: '/ort/' });
+
+    const session = await backend.createSession(convModel, info);
+    const { depth } = await session.run({ image: new Float32Array(36) });
+
+    expect(created).toEqual(['wasm']);
+    expect(runtime.env.wasm.wasmPaths).toBe('/ort/');
+    expect(session.backend).toBe('onnxruntime-web/wasm');
+    expect(session.inputs[0].dims).toEqual(['batch', 3, 'height', 'width']);
+    expect(depth).toBeInstanceOf(Float32Array);
+    expect(depth[0]).toBe(4);
+  });
+
+  it('should try execution providers in order', async () => {
+    const { runtime, created } = createRuntime(['webgl']);
+    const backend = new OnnxRuntimeBackend({ runtime: async () => runtime, executionProviders: ['webgl', 'wasm'] });
+
+    const session = await backend.createSession(convModel, info);
+
+    expect(created).toEqual(['wasm']);
+    expect(session.backend).toBe('onnxruntime-web/wasm');
+  });
+
+  it('should report unavailability when the runtime does not load', async () => {
+    const backend = new OnnxRuntimeBackend({ runtime: () => Promise.reject(new Error('not installed')) });
+
+    expect(await backend.isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Model Loader Tests
+ */
+
+import { describe, it, expect, afterEach, spyOn } from 'bun:test';
+import {
+  ModelLoader,
+  CPUInferenceBackend,
+  registerDepthModel,
+  unregisterDepthModel,
+  MODEL_REGISTRY,
+  type InferenceBackend,
+  type ModelLoadProgress,
+} from '../../src/core/depth';
+import { ARError, ErrorCodes } from '../../src/core/errors';
+import { buildOnnxModel } from '../helpers/onnx-builder';
+
+const model = buildOnnxModel({
+  inputs: [{ name: 'input', dims: [1, 3, 'h', 'w'] }],
+  outputs: [{ name: 'output', dims: [1, 1, 'h', 'w'] }],
+  nodes: [{ opType: 'ReduceMean', inputs: ['input'], outputs: ['output'], attributes: { axes: [1] } }],
+});
+
+const MODEL_URL = 'https://models.example/model.onnx';
+
+/**
+ * Fetch returning the model in chunks, counting requests
+ */
+function createFetch(bytes: Uint8Array = model, chunkSize = 16) {
+  const requests: string[] = [];
+  const fetch = async (url: string) => {
+    requests.push(url);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += chunkSize) {
+          controller.enqueue(bytes.slice(i, i + chunkSize));
+        }
+        controller.close();
+      },
+    });
+    return new Response(stream, { headers: { 'content-length': String(bytes.length) } });
+  };
+  return { fetch, requests };
+}
+
+interface CachedEntry {
+  bytes: Uint8Array;
+  headers: Headers;
+}
+
+/**
+ * In-memory Cache Storage
+ */
+function installCaches(): Map<string, Map<string, CachedEntry>> {
+  const buckets = new Map<string, Map<string, CachedEntry>>();
+  (globalThis as { caches?: unknown }).caches = {
+    open: async (name: string) => {
+      const bucket = buckets.get(name) ?? new Map<string, CachedEntry>();
+      buckets.set(name, bucket);
+      return {
+        match: async (url: string) => {
+          const entry = bucket.get(url);
+          return entry ? new Response(entry.bytes, { headers: entry.headers }) : undefined;
+        },
+        put: async (url: string, response: Response) => {
+          bucket.set(url, { bytes: new Uint8Array(await response.arrayBuffer()), headers: response.headers });
+        },
+        delete: async (url: string) => bucket.delete(url),
+      };
+    },
+    delete: async (name: string) => buckets.delete(name),
+  };
+  return buckets;
+}
+
+async function sha256(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('ModelLoader', () => {
+  afterEach(() => {
+    delete (globalThis as { caches?: unknown }).caches;
+  });
+
+  it('should load a model with discovered input and output names', async () => {
+    const { fetch } = createFetch();
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], fetch });
+
+    const { session, info } = await loader.loadModel('custom', MODEL_URL);
+    const plane = 256 * 256;
+    const input = Float32Array.from({ length: 3 * plane }, (_, i) => (i % 7) * 3);
+    const outputs = await session.run({ [session.inputNames[0]]: input });
+
+    expect(session.inputNames).toEqual(['input']);
+    expect(session.outputNames).toEqual(['output']);
+    expect(info.name).toBe('custom');
+    expect(outputs.output).toHaveLength(plane);
+    expect(outputs.output[1]).toBeCloseTo((input[1] + input[plane + 1] + input[2 * plane + 1]) / 3, 5);
+    expect(loader.isModelLoaded('custom', MODEL_URL)).toBe(true);
+  });
+
+  it('should report download progress', async () => {
+    const { fetch } = createFetch(model, 10);
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], fetch });
+    const events: ModelLoadProgress[] = [];
+    loader.on('model:progress', progress => events.push(progress));
+
+    await loader.loadModel('custom', MODEL_URL);
+
+    expect(events.length).toBe(Math.ceil(model.length / 10) + 1);
+    expect(events.every(event => event.total === model.length && !event.fromCache)).toBe(true);
+    expect(events.map(event => event.loaded)).toEqual([...events.map(event => event.loaded)].sort((a, b) => a - b));
+    expect(events[0].progress).toBeCloseTo(10 / model.length, 6);
+    expect(events[events.length - 1].progress).toBe(1);
+  });
+
+  it('should reuse models from Cache Storage', async () => {
+    const buckets = installCaches();
+    const { fetch, requests } = createFetch();
+
+    await new ModelLoader({ backends: [new CPUInferenceBackend()], fetch }).loadModel('custom', MODEL_URL);
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], fetch });
+    const events: ModelLoadProgress[] = [];
+    loader.on('model:progress', progress => events.push(progress));
+    const { session } = await loader.loadModel('custom', MODEL_URL);
+
+    expect(requests).toEqual([MODEL_URL]);
+    expect(buckets.get('babylonjs-ar-models')!.get(MODEL_URL)!.bytes).toEqual(model);
+    expect(events).toEqual([{
+      model: 'custom',
+      url: MODEL_URL,
+      loaded: model.length,
+      total: model.length,
+      progress: 1,
+      source: 'cache',
+      fromCache: true,
+    }]);
+    expect(session.outputNames).toEqual(['output']);
+
+    expect(await loader.deleteCachedModels()).toBe(true);
+    expect(buckets.size).toBe(0);
+  });
+
+  it('should skip Cache Storage when disabled', async () => {
+    const buckets = installCaches();
+    const { fetch, requests } = createFetch();
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], fetch, cacheName: null });
+
+    await loader.loadModel('custom', MODEL_URL);
+    loader.clearCache();
+    await loader.loadModel('custom', MODEL_URL);
+
+    expect(requests).toHaveLength(2);
+    expect(buckets.size).toBe(0);
+  });
+
+  it('should share concurrent loads and fall back between backends', async () => {
+    const { fetch, requests } = createFetch();
+    const tried: string[] = [];
+    const unavailable: InferenceBackend = {
+      name: 'unavailable',
+      isAvailable: async () => false,
+      createSession: () => Promise.reject(new Error('not called')),
+    };
+    const failing: InferenceBackend = {
+      name: 'failing',
+      isAvailable: async () => true,
+      createSession: async () => {
+        tried.push('failing');
+        throw new Error('unsupported model');
+      },
+    };
+    const loader = new ModelLoader({ backends: [unavailable, failing, new CPUInferenceBackend()], fetch });
+
+    const [first, second] = await Promise.all([
+      loader.loadModel('custom', MODEL_URL),
+      loader.loadModel('custom', MODEL_URL),
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(tried).toEqual(['failing']);
+    expect(first.session).toBe(second.session);
+    expect(first.session.backend).toBe('cpu');
+  });
+
+  it('should release sessions on unload', async () => {
+    let released = 0;
+    const backend = new CPUInferenceBackend();
+    const counting: InferenceBackend = {
+      name: 'counting',
+      isAvailable: async () => true,
+      createSession: async (bytes, info) => ({
+        ...(await backend.createSession(bytes, info)),
+        release: async () => {
+          released++;
+        },
+      }),
+    };
+    const loader = new ModelLoader({ backends: [counting], fetch: createFetch().fetch });
+
+    await loader.loadModel('custom', MODEL_URL);
+    loader.unloadModel('custom', MODEL_URL);
+
+    expect(released).toBe(1);
+    expect(loader.isModelLoaded('custom', MODEL_URL)).toBe(false);
+  });
+
+  it('should surface failures as model load errors', async () => {
+    const loader = new ModelLoader({
+      backends: [new CPUInferenceBackend()],
+      fetch: async () => new Response('missing', { status: 404, statusText: 'Not Found' }),
+    });
+
+    const error = await loader.loadModel('custom', MODEL_URL).catch(e => e);
+
+    expect(error).toBeInstanceOf(ARError);
+    expect(error.code).toBe(ErrorCodes.MODEL_LOAD_FAILED);
+    expect(error.context.reason).toBe('network');
+    expect(error.cause.message).toContain('404');
+    expect(loader.isModelLoaded('custom', MODEL_URL)).toBe(false);
+  });
+
+  it('should report backend failures', async () => {
+    const unsupported = buildOnnxModel({
+      inputs: [{ name: 'x', dims: [1] }],
+      outputs: [{ name: 'y', dims: [1] }],
+      nodes: [{ opType: 'LSTM', inputs: ['x'], outputs: ['y'] }],
+    });
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], fetch: createFetch(unsupported).fetch });
+
+    const error = await loader.loadModel('custom', MODEL_URL).catch(e => e);
+
+    expect(error.context.reason).toBe('backend');
+    expect(error.recoverable).toBe(true);
+  });
+});
+
+describe('ModelLoader integrity', () => {
+  afterEach(() => {
+    delete (globalThis as { caches?: unknown }).caches;
+    unregisterDepthModel('pinned');
+  });
+
+  it('should accept a model matching its pinned hash', async () => {
+    registerDepthModel({ name: 'pinned', url: MODEL_URL, inputSize: [4, 4], sha256: (await sha256(model)).toUpperCase() });
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], fetch: createFetch().fetch });
+
+    const { session } = await loader.loadModel('pinned');
+
+    expect(session.inputNames).toEqual(['input']);
+  });
+
+  it('should reject and not cache a tampered model', async () => {
+    const buckets = installCaches();
+    registerDepthModel({ name: 'pinned', url: MODEL_URL, inputSize: [4, 4], sha256: await sha256(model) });
+    const tampered = model.slice();
+    tampered[tampered.length - 1] ^= 1;
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], fetch: createFetch(tampered).fetch });
+
+    const error = await loader.loadModel('pinned').catch(e => e);
+
+    expect(error).toBeInstanceOf(ARError);
+    expect(error.context.reason).toBe('integrity');
+    expect(error.recoverable).toBe(false);
+    expect(error.cause.message).toContain('SHA-256 mismatch');
+    expect(buckets.get('babylonjs-ar-models')!.size).toBe(0);
+  });
+
+  it('should reject and not cache a tampered built-in model', async () => {
+    const buckets = installCaches();
+    const builtin = MODEL_REGISTRY['midas-tiny'];
+    const pinned = builtin.sha256;
+    builtin.sha256 = await sha256(model);
+    const tampered = model.slice();
+    tampered[0] ^= 1;
+    const { fetch, requests } = createFetch(tampered);
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], fetch });
+
+    try {
+      const error = await loader.loadModel('midas-tiny').catch(e => e);
+
+      expect(requests).toEqual([builtin.url]);
+      expect(error).toBeInstanceOf(ARError);
+      expect(error.code).toBe(ErrorCodes.MODEL_LOAD_FAILED);
+      expect(error.context.reason).toBe('integrity');
+      expect(buckets.get('babylonjs-ar-models')!.size).toBe(0);
+      expect(loader.isModelLoaded('midas-tiny')).toBe(false);
+    } finally {
+      builtin.sha256 = pinned;
+    }
+  });
+
+  it('should hash each model copy once', async () => {
+    installCaches();
+    registerDepthModel({ name: 'pinned', url: MODEL_URL, inputSize: [4, 4], sha256: await sha256(model) });
+    const digest = spyOn(crypto.subtle, 'digest');
+
+    try {
+      await new ModelLoader({ backends: [new CPUInferenceBackend()], fetch: createFetch().fetch }).loadModel('pinned');
+      expect(digest).toHaveBeenCalledTimes(1);
+
+      await new ModelLoader({ backends: [new CPUInferenceBackend()], fetch: createFetch().fetch }).loadModel('pinned');
+      expect(digest).toHaveBeenCalledTimes(2);
+    } finally {
+      digest.mockRestore();
+    }
+  });
+
+  it('should skip verification when disabled', async () => {
+    registerDepthModel({ name: 'pinned', url: MODEL_URL, inputSize: [4, 4], sha256: '0'.repeat(64) });
+    const loader = new ModelLoader({
+      backends: [new CPUInferenceBackend()],
+      fetch: createFetch().fetch,
+      verifyIntegrity: false,
+    });
+
+    await expect(loader.loadModel('pinned')).resolves.toBeDefined();
+  });
+
+  it('should invalidate cached models from another version', async () => {
+    installCaches();
+    const { fetch, requests } = createFetch();
+    const load = (version: string, cacheVersion?: string) => {
+      registerDepthModel({ name: 'pinned', url: MODEL_URL, inputSize: [4, 4], version });
+      return new ModelLoader({ backends: [new CPUInferenceBackend()], fetch, cacheVersion }).loadModel('pinned');
+    };
+
+    await load('1.0');
+    await load('1.0');
+    expect(requests).toHaveLength(1);
+
+    await load('1.1');
+    expect(requests).toHaveLength(2);
+    await load('1.1');
+    expect(requests).toHaveLength(2);
+
+    await load('1.1', '2');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should download again when a cached copy is corrupted', async () => {
+    const buckets = installCaches();
+    const { fetch, requests } = createFetch();
+    registerDepthModel({ name: 'pinned', url: MODEL_URL, inputSize: [4, 4], sha256: await sha256(model) });
+
+    await new ModelLoader({ backends: [new CPUInferenceBackend()], fetch }).loadModel('pinned');
+    buckets.get('babylonjs-ar-models')!.get(MODEL_URL)!.bytes[0] ^= 1;
+    await new ModelLoader({ backends: [new CPUInferenceBackend()], fetch }).loadModel('pinned');
+
+    expect(requests).toHaveLength(2);
+    expect(buckets.get('babylonjs-ar-models')!.get(MODEL_URL)!.bytes).toEqual(model);
+  });
+});
+
+describe('ModelLoader bundle mode', () => {
+  afterEach(() => {
+    unregisterDepthModel('pinned');
+  });
+
+  it('should load inline bytes without the network', async () => {
+    const { fetch, requests } = createFetch();
+    const loader = new ModelLoader({
+      backends: [new CPUInferenceBackend()],
+      fetch,
+      bundle: { 'custom': model.buffer as ArrayBuffer },
+    });
+    const events: ModelLoadProgress[] = [];
+    loader.on('model:progress', progress => events.push(progress));
+
+    const { session } = await loader.loadModel('custom', MODEL_URL);
+
+    expect(requests).toHaveLength(0);
+    expect(session.outputNames).toEqual(['output']);
+    expect(events.map(event => event.source)).toEqual(['bundle']);
+  });
+
+  it('should load from local URLs returned by a provider', async () => {
+    const { fetch, requests } = createFetch();
+    registerDepthModel({ name: 'pinned', url: MODEL_URL, inputSize: [4, 4], sha256: await sha256(model) });
+    const loader = new ModelLoader({
+      backends: [new CPUInferenceBackend()],
+      fetch,
+      bundle: info => (info.name === 'pinned' ? `/offline/${info.name}.onnx` : null),
+    });
+
+    await loader.loadModel('pinned');
+    const error = await loader.loadModel('custom', 'https://models.example/other.onnx').catch(e => e);
+
+    expect(requests).toEqual(['/offline/pinned.onnx']);
+    expect(error.context.reason).toBe('unavailable');
+  });
+
+  it('should verify bundled models', async () => {
+    registerDepthModel({ name: 'pinned', url: MODEL_URL, inputSize: [4, 4], sha256: '0'.repeat(64) });
+    const loader = new ModelLoader({ backends: [new CPUInferenceBackend()], bundle: { pinned: model } });
+
+    const error = await loader.loadModel('pinned').catch(e => e);
+
+    expect(error.context.reason).toBe('integrity');
+  });
+});
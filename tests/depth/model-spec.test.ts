@@ -0,0 +1,162 @@
+/**
+ * Depth Model Spec Tests
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import {
+  MODEL_REGISTRY,
+  ModelLoader,
+  CPUInferenceBackend,
+  registerDepthModel,
+  unregisterDepthModel,
+  getModelInfo,
+  computeContentRect,
+  computeOutputCrop,
+  pixelsToTensor,
+  normalizeDepthOutput,
+  cropDepth,
+} from '../../src/core/depth';
+import { buildOnnxModel } from '../helpers/onnx-builder';
+
+/**
+ * 2×1 RGBA image: a red and a blue pixel
+ */
+const pixels = Uint8Array.from([255, 0, 0, 255, 0, 0, 255, 255]);
+
+const plain = { scale: 1 / 255, mean: [0, 0, 0] as [number, number, number], std: [1, 1, 1] as [number, number, number] };
+
+describe('Depth Model Specs', () => {
+  afterEach(() => {
+    unregisterDepthModel('test-model');
+  });
+
+  it('should register a model with defaults', () => {
+    const info = registerDepthModel({ name: 'test-model', url: '/models/test.onnx', inputSize: [518, 392] });
+
+    expect(getModelInfo('test-model')).toBe(info);
+    expect(MODEL_REGISTRY['test-model']).toBe(info);
+    expect(info.outputSize).toEqual([518, 392]);
+    expect(info.layout).toBe('NCHW');
+    expect(info.colorOrder).toBe('RGB');
+    expect(info.output).toBe('inverse-depth');
+    expect(info.resize).toBe('stretch');
+    expect(info.mean).toEqual(MODEL_REGISTRY['midas-tiny'].mean);
+
+    expect(unregisterDepthModel('test-model')).toBe(true);
+    expect(() => getModelInfo('test-model')).toThrow('Unknown depth model');
+  });
+
+  it('should reject invalid specs and built-in names', () => {
+    expect(() => registerDepthModel({ name: 'midas-tiny', url: '/m.onnx', inputSize: [256, 256] })).toThrow('built-in');
+    expect(() => registerDepthModel({ name: 'test-model', url: '', inputSize: [256, 256] })).toThrow('URL');
+    expect(() => registerDepthModel({ name: 'test-model', url: '/m.onnx', inputSize: [0, 256] })).toThrow('inputSize');
+    expect(() => registerDepthModel({
+      name: 'test-model',
+      url: '/m.onnx',
+      inputSize: [256, 256],
+      output: 'metric-depth',
+      outputScale: -1,
+    })).toThrow('outputScale');
+    expect(unregisterDepthModel('custom')).toBe(false);
+  });
+
+  it('should lay out tensors as NCHW or NHWC in either color order', () => {
+    const nchw = registerDepthModel({ name: 'test-model', url: '/m.onnx', inputSize: [2, 1], normalization: plain });
+    expect(Array.from(pixelsToTensor(pixels, 2, 1, nchw))).toEqual([1, 0, 0, 0, 0, 1]);
+
+    const nhwcBgr = registerDepthModel({
+      name: 'test-model',
+      url: '/m.onnx',
+      inputSize: [2, 1],
+      layout: 'NHWC',
+      colorOrder: 'BGR',
+      normalization: plain,
+    });
+    expect(Array.from(pixelsToTensor(pixels, 2, 1, nhwcBgr))).toEqual([0, 0, 1, 1, 0, 0]);
+  });
+
+  it('should normalize with scale, mean and std', () => {
+    const info = registerDepthModel({
+      name: 'test-model',
+      url: '/m.onnx',
+      inputSize: [2, 1],
+      normalization: { scale: 1, mean: [127.5, 127.5, 127.5], std: [127.5, 127.5, 127.5] },
+    });
+
+    expect(Array.from(pixelsToTensor(pixels, 2, 1, info))).toEqual([1, -1, -1, -1, -1, 1]);
+  });
+
+  it('should letterbox and crop frames into the input', () => {
+    const base = { name: 'test-model', url: '/m.onnx', inputSize: [256, 256] as [number, number] };
+
+    expect(computeContentRect(640, 480, registerDepthModel(base))).toEqual({ x: 0, y: 0, width: 256, height: 256 });
+    expect(computeContentRect(640, 480, registerDepthModel({ ...base, resize: 'letterbox' })))
+      .toEqual({ x: 0, y: 32, width: 256, height: 192 });
+    expect(computeContentRect(640, 480, registerDepthModel({ ...base, resize: 'crop' })))
+      .toEqual({ x: -(341 + 1 / 3 - 256) / 2, y: 0, width: 341 + 1 / 3, height: 256 });
+  });
+
+  it('should crop letterbox padding from the output', () => {
+    const info = registerDepthModel({
+      name: 'test-model',
+      url: '/m.onnx',
+      inputSize: [256, 256],
+      outputSize: [128, 128],
+      resize: 'letterbox',
+    });
+
+    expect(computeOutputCrop(640, 480, info)).toEqual({ x: 0, y: 16, width: 128, height: 96 });
+
+    const explicit = registerDepthModel({ ...info, outputCrop: { x: 100, y: -5, width: 50, height: 20 } });
+    expect(computeOutputCrop(640, 480, explicit)).toEqual({ x: 100, y: 0, width: 28, height: 15 });
+
+    const data = Float32Array.from({ length: 12 }, (_, i) => i);
+    expect(Array.from(cropDepth(data, 4, { x: 1, y: 1, width: 2, height: 2 }))).toEqual([5, 6, 9, 10]);
+  });
+
+  it('should convert each output kind to normalized depth', () => {
+    const range = { minDepth: 1, maxDepth: 5 };
+    const base = { name: 'test-model', url: '/m.onnx', inputSize: [2, 1] as [number, number] };
+
+    const relative = normalizeDepthOutput(Float32Array.from([4, 2, 0]), registerDepthModel(base), range);
+    expect(Array.from(relative)).toEqual([0, 0.5, 1]);
+
+    const metric = registerDepthModel({ ...base, output: 'metric-depth', outputScale: 0.001 });
+    expect(Array.from(normalizeDepthOutput(Float32Array.from([1000, 3000, 9000]), metric, range)))
+      .toEqual([0, 0.5, 1]);
+
+    const disparity = registerDepthModel({ ...base, output: 'disparity', outputScale: 6 });
+    expect(Array.from(normalizeDepthOutput(Float32Array.from([6, 2, 0]), disparity, range))).toEqual([0, 0.5, 1]);
+
+    const relativeDisparity = registerDepthModel({ ...base, output: 'disparity' });
+    const relativeDepth = normalizeDepthOutput(Float32Array.from([6, 2, 0]), relativeDisparity, range);
+    expect(relativeDepth[0]).toBe(0);
+    expect(relativeDepth[1]).toBeCloseTo(1 - 2 / 6, 6);
+    expect(relativeDepth[2]).toBe(1);
+  });
+
+  it('should load a registered model by name', async () => {
+    const model = buildOnnxModel({
+      inputs: [{ name: 'pixel_values', dims: [1, 'h', 'w', 3] }],
+      outputs: [{ name: 'predicted_depth', dims: [1, 'h', 'w'] }],
+      nodes: [{
+        opType: 'ReduceMean',
+        inputs: ['pixel_values'],
+        outputs: ['predicted_depth'],
+        attributes: { axes: [3], keepdims: 0 },
+      }],
+    });
+    registerDepthModel({ name: 'test-model', url: '/models/test.onnx', inputSize: [4, 2], layout: 'NHWC' });
+    const loader = new ModelLoader({
+      backends: [new CPUInferenceBackend()],
+      fetch: async () => new Response(model),
+    });
+
+    const { session, info } = await loader.loadModel('test-model');
+    const { predicted_depth: depth } = await session.run({ pixel_values: new Float32Array(24).fill(3) });
+
+    expect(info.layout).toBe('NHWC');
+    expect(session.inputNames).toEqual(['pixel_values']);
+    expect(Array.from(depth)).toEqual(new Array(8).fill(3));
+  });
+});
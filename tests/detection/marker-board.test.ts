@@ -0,0 +1,91 @@
+/**
+ * Marker Board Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  createGridBoard,
+  createCharucoBoard,
+  createCustomBoard,
+  matchBoardMarkers,
+  interpolateCharucoCorners,
+} from '../../src/core/detection/marker-board';
+import type { DetectedMarker } from '../../src/core/detection/marker-detector';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+
+const rotation = Quaternion.fromAxisAngle(new Vector3(1, 0.4, 0).normalize(), 0.5);
+const translation = new Vector3(0.02, 0.01, 0.6);
+
+function toPixel(p: Vector3): [number, number] {
+  const c = rotation.rotateVector(p).add(translation);
+  return [800 * c.x / c.z + 640, 800 * c.y / c.z + 360];
+}
+
+function observe(markers: Array<{ id: number; corners: Vector3[] }>): DetectedMarker[] {
+  return markers.map(m => {
+    const [topLeft, topRight, bottomRight, bottomLeft] = m.corners.map(toPixel);
+    return { id: m.id, corners: { topLeft, topRight, bottomRight, bottomLeft }, confidence: 1 };
+  });
+}
+
+describe('Marker boards', () => {
+  it('should lay out a centered grid board', () => {
+    const board = createGridBoard({ columns: 3, rows: 2, markerLength: 0.04, markerSeparation: 0.01, firstMarkerId: 10 });
+
+    expect(board.markers.map(m => m.id)).toEqual([10, 11, 12, 13, 14, 15]);
+    expect(board.markers[0].corners[0].distanceTo(new Vector3(-0.07, 0.045, 0))).toBeLessThan(1e-12);
+    expect(board.markers[5].corners[2].distanceTo(new Vector3(0.07, -0.045, 0))).toBeLessThan(1e-12);
+    expect(() => createGridBoard({ columns: 2, rows: 2, markerLength: 0.04, markerSeparation: 0.01, ids: [1, 2] })).toThrow();
+  });
+
+  it('should place ChArUco markers in the white squares', () => {
+    const board = createCharucoBoard({ squaresX: 5, squaresY: 4, squareLength: 0.04, markerLength: 0.03 });
+
+    expect(board.markers).toHaveLength(10);
+    expect(board.chessboardCorners).toHaveLength(12);
+
+    // First white square is (row 0, col 1)
+    const first = board.markers[0].corners[0];
+    expect(first.x).toBeCloseTo(-0.1 + 0.04 + 0.005, 10);
+    expect(first.y).toBeCloseTo(0.08 - 0.005, 10);
+    expect(board.chessboardCorners[0].x).toBeCloseTo(-0.06, 10);
+    expect(board.chessboardCorners[0].y).toBeCloseTo(0.04, 10);
+  });
+
+  it('should validate custom boards', () => {
+    const corners = [new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(1, -1, 0), new Vector3(0, -1, 0)];
+
+    expect(createCustomBoard([{ id: 4, corners }]).markers[0].corners[1].equals(corners[1])).toBe(true);
+    expect(() => createCustomBoard([{ id: 4, corners }, { id: 4, corners }])).toThrow();
+    expect(() => createCustomBoard([{ id: 4, corners: corners.slice(0, 3) }])).toThrow();
+  });
+
+  it('should keep the most confident detection of each board marker', () => {
+    const board = createGridBoard({ columns: 2, rows: 1, markerLength: 0.04, markerSeparation: 0.01 });
+    const detected = observe(board.markers);
+    const duplicate = { ...detected[1], confidence: 0.5 };
+
+    const matches = matchBoardMarkers(board, [...detected, duplicate, { ...detected[0], id: 99 }]);
+
+    expect(matches.map(m => m.layout.id)).toEqual([0, 1]);
+    expect(matches[1].detection.confidence).toBe(1);
+  });
+
+  it('should interpolate ChArUco corners from nearby markers', () => {
+    const board = createCharucoBoard({ squaresX: 5, squaresY: 4, squareLength: 0.04, markerLength: 0.03 });
+
+    // Hide two markers
+    const detected = observe(board.markers.filter(m => m.id !== 0 && m.id !== 7));
+    const corners = interpolateCharucoCorners(board, detected);
+
+    expect(corners.length).toBe(12);
+    for (const corner of corners) {
+      const [x, y] = toPixel(board.chessboardCorners[corner.id]);
+      expect(Math.hypot(corner.position[0] - x, corner.position[1] - y)).toBeLessThan(1e-6);
+    }
+
+    // Requiring both neighbours drops corners next to hidden markers
+    expect(interpolateCharucoCorners(board, detected, 2).length).toBeLessThan(12);
+  });
+});
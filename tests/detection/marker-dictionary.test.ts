@@ -0,0 +1,118 @@
+/**
+ * Marker Dictionary Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  getMarkerDictionary,
+  createMarkerDictionary,
+  codeToPattern,
+  patternToCode,
+  type MarkerFamily,
+} from '../../src/core/detection/marker-dictionary';
+import { ArucoDecoder } from '../../src/core/detection/aruco-decoder';
+import { APRILTAG_36H11 } from '../../src/core/detection/apriltag-dictionaries';
+
+function rotate(pattern: number[], size: number): number[] {
+  const rotated = new Array(pattern.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      rotated[x * size + (size - 1 - y)] = pattern[y * size + x];
+    }
+  }
+  return rotated;
+}
+
+function distance(a: number[], b: number[]): number {
+  return a.reduce((sum, bit, i) => sum + (bit !== b[i] ? 1 : 0), 0);
+}
+
+describe('Marker dictionaries', () => {
+  it('should describe the AprilTag families', () => {
+    const families: Array<[MarkerFamily, number, number]> = [
+      ['APRILTAG_16H5', 4, 30],
+      ['APRILTAG_25H9', 5, 35],
+      ['APRILTAG_36H11', 6, 587],
+    ];
+
+    for (const [family, size, count] of families) {
+      const dictionary = getMarkerDictionary(family);
+      expect(dictionary.markerSize).toBe(size);
+      expect(dictionary.patterns).toHaveLength(count);
+      expect(dictionary.maxCorrectionBits).toBeLessThan(dictionary.minHammingDistance / 2);
+    }
+  });
+
+  it('should bundle the full published tag36h11 table', () => {
+    expect(APRILTAG_36H11).toHaveLength(587);
+    expect(APRILTAG_36H11[0]).toBe(0xd5d628584);
+    expect(APRILTAG_36H11[100]).toBe(0x50f1d3251);
+    expect(APRILTAG_36H11[300]).toBe(0x248affc29);
+    expect(APRILTAG_36H11[500]).toBe(0xd5b2c31ae);
+    expect(APRILTAG_36H11[586]).toBe(0xe83be4b73);
+  });
+
+  it('should keep the minimum Hamming distance over all rotations', () => {
+    for (const family of ['APRILTAG_16H5', 'APRILTAG_25H9', 'APRILTAG_36H11'] as MarkerFamily[]) {
+      const { patterns, markerSize, minHammingDistance } = getMarkerDictionary(family);
+      let minDistance = Infinity;
+
+      patterns.forEach((pattern, i) => {
+        const rotations = [pattern];
+        for (let r = 1; r < 4; r++) {
+          rotations.push(rotate(rotations[r - 1], markerSize));
+        }
+
+        for (let r = 1; r < 4; r++) {
+          minDistance = Math.min(minDistance, distance(pattern, rotations[r]));
+        }
+        for (let j = 0; j < i; j++) {
+          for (const rotated of rotations) {
+            minDistance = Math.min(minDistance, distance(rotated, patterns[j]));
+          }
+        }
+      });
+
+      expect(minDistance).toBe(minHammingDistance);
+    }
+  });
+
+  it('should convert between codes and patterns', () => {
+    const code = 0xd5d628584;
+    const pattern = codeToPattern(code, 6);
+
+    expect(pattern).toHaveLength(36);
+    expect(pattern.slice(0, 4)).toEqual([1, 1, 0, 1]);
+    expect(patternToCode(pattern)).toBe(code);
+  });
+
+  it('should decode rotated AprilTags within the correction limit', () => {
+    const decoder = new ArucoDecoder('APRILTAG_36H11');
+    const pattern = getMarkerDictionary('APRILTAG_36H11').patterns[7];
+
+    const rotated = rotate(rotate(pattern, 6), 6);
+    for (const i of [0, 14, 29]) {
+      rotated[i] = 1 - rotated[i];
+    }
+
+    const decoded = decoder.decode({ size: 6, bits: rotated })!;
+    expect(decoded.id).toBe(7);
+    expect(decoded.hamming).toBe(3);
+
+    rotated[35] = 1 - rotated[35];
+    expect(decoder.decode({ size: 6, bits: rotated })).toBeNull();
+  });
+
+  it('should accept custom dictionaries', () => {
+    const dictionary = createMarkerDictionary({
+      name: 'custom',
+      markerSize: 4,
+      codes: [0x231b, [0, 0, 1, 0, 1, 1, 1, 0, 1, 0, 1, 0, 0, 1, 0, 1]],
+      minHammingDistance: 5,
+    });
+
+    expect(dictionary.maxCorrectionBits).toBe(2);
+    expect(new ArucoDecoder(dictionary).decode({ size: 4, bits: codeToPattern(0x231b, 4) })!.id).toBe(0);
+    expect(() => createMarkerDictionary({ name: 'bad', markerSize: 4, codes: [[1, 0]], minHammingDistance: 3 })).toThrow();
+  });
+});
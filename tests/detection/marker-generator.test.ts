@@ -0,0 +1,61 @@
+/**
+ * Marker Generator Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { generateMarkerDictionary, rotatePattern } from '../../src/core/detection/marker-generator';
+import { ArucoDecoder } from '../../src/core/detection/aruco-decoder';
+
+function distance(a: number[], b: number[]): number {
+  return a.reduce((sum, bit, i) => sum + (bit !== b[i] ? 1 : 0), 0);
+}
+
+describe('generateMarkerDictionary', () => {
+  it('should generate markers with the reported rotation-aware distance', () => {
+    const dictionary = generateMarkerDictionary({ markerSize: 5, count: 24, seed: 3 });
+
+    expect(dictionary.patterns).toHaveLength(24);
+    expect(dictionary.minHammingDistance).toBeGreaterThanOrEqual(6);
+
+    let minDistance = Infinity;
+    dictionary.patterns.forEach((pattern, i) => {
+      let rotated = pattern;
+      for (let r = 0; r < 4; r++) {
+        if (r > 0) {
+          minDistance = Math.min(minDistance, distance(pattern, rotated));
+        }
+        for (let j = 0; j < i; j++) {
+          minDistance = Math.min(minDistance, distance(rotated, dictionary.patterns[j]));
+        }
+        rotated = rotatePattern(rotated, 5);
+      }
+    });
+
+    expect(minDistance).toBe(dictionary.minHammingDistance);
+  });
+
+  it('should be reproducible for a seed', () => {
+    const a = generateMarkerDictionary({ markerSize: 4, count: 10, seed: 42 });
+    const b = generateMarkerDictionary({ markerSize: 4, count: 10, seed: 42 });
+
+    expect(a.patterns).toEqual(b.patterns);
+    expect(a.name).toBe('CUSTOM_4X4_10');
+  });
+
+  it('should decode its own markers in every orientation', () => {
+    const dictionary = generateMarkerDictionary({ markerSize: 4, count: 12, seed: 7 });
+    const decoder = new ArucoDecoder(dictionary);
+
+    dictionary.patterns.forEach((pattern, id) => {
+      const decoded = decoder.decode({ size: 4, bits: rotatePattern(pattern, 4) })!;
+      expect(decoded.id).toBe(id);
+      expect(decoded.hamming).toBe(0);
+    });
+  });
+
+  it('should fail when the distance floor cannot be met', () => {
+    expect(() =>
+      generateMarkerDictionary({ markerSize: 3, count: 40, minHammingDistance: 4, maxAttempts: 200, seed: 1 })
+    ).toThrow();
+  });
+});
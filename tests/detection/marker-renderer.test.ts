@@ -0,0 +1,47 @@
+/**
+ * Marker Renderer Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { renderMarkerSVG, renderMarkerPixels } from '../../src/core/detection/marker-renderer';
+import { getMarkerDictionary } from '../../src/core/detection/marker-dictionary';
+import { ArucoDecoder } from '../../src/core/detection/aruco-decoder';
+
+describe('Marker renderer', () => {
+  const dictionary = getMarkerDictionary('APRILTAG_25H9');
+
+  it('should render pixels the decoder reads back', () => {
+    const image = renderMarkerPixels(dictionary, 17, { cellSize: 8, quietZone: 2 });
+    const quiet = 2 * 8;
+    const markerPixels = (5 + 2) * 8;
+
+    expect(image.width).toBe(markerPixels + 2 * quiet);
+    expect(image.data).toHaveLength(image.width * image.height * 4);
+    expect(image.data[0]).toBe(255); // Quiet zone is white
+
+    // Crop the marker (border included) to a grayscale square
+    const gray = new Uint8Array(markerPixels * markerPixels);
+    for (let y = 0; y < markerPixels; y++) {
+      for (let x = 0; x < markerPixels; x++) {
+        gray[y * markerPixels + x] = image.data[((y + quiet) * image.width + x + quiet) * 4];
+      }
+    }
+
+    const decoder = new ArucoDecoder('APRILTAG_25H9');
+    expect(ArucoDecoder.verifyBorder(gray, markerPixels, 5)).toBe(true);
+    expect(decoder.decode(decoder.extractBits(gray, markerPixels, 5))!.id).toBe(17);
+  });
+
+  it('should render a print-sized SVG', () => {
+    const svg = renderMarkerSVG(dictionary, 3, { size: '50mm', quietZone: 1 });
+
+    expect(svg.startsWith('<svg')).toBe(true);
+    expect(svg).toContain('width="50mm"');
+    expect(svg).toContain('viewBox="0 0 9 9"');
+    expect(svg).toContain('APRILTAG_25H9 #3');
+  });
+
+  it('should reject unknown marker IDs', () => {
+    expect(() => renderMarkerPixels(dictionary, 99)).toThrow();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * ORB Extractor Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  extractORBFeatures,
+  rgbaToGray,
+  descriptorsToBytes,
+} from '../../src/core/detection/orb-extractor';
+import { getORBPattern } from '../../src/core/detection/orb-pattern';
+import type { GrayImage } from '../../src/core/tracking/optical-flow';
+import { createRandom } from '../../src/utils/random';
+
+/**
+ * Square image of small Gaussian blobs (FAST responds to blob centers)
+ */
+function createImage(size = 128): GrayImage {
+  const random = createRandom(3);
+  const blobs = Array.from({ length: 60 }, () => ({
+    x: random() * size,
+    y: random() * size,
+    sigma: 1.5 + random() * 2,
+    amplitude: (random() < 0.5 ? -1 : 1) * (60 + random() * 60),
+  }));
+
+  const data = new Uint8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let value = 128;
+      for (const b of blobs) {
+        const d2 = (x - b.x) ** 2 + (y - b.y) ** 2;
+        value += b.amplitude * Math.exp(-d2 / (2 * b.sigma * b.sigma));
+      }
+      data[y * size + x] = Math.max(0, Math.min(255, Math.round(value)));
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+/**
+ * Rotate a square image by 90° clockwise: (x, y) -> (size - 1 - y, x)
+ */
+function rotate90(image: GrayImage): GrayImage {
+  const size = image.width;
+  const data = new Uint8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      data[x * size + (size - 1 - y)] = image.data[y * size + x];
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+function hamming(a: Uint8Array, b: Uint8Array): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let v = a[i] ^ b[i];
+    while (v) {
+      distance += v & 1;
+      v >>= 1;
+    }
+  }
+  return distance;
+}
+
+describe('ORB Extractor', () => {
+  const image = createImage();
+  const features = extractORBFeatures(image);
+
+  it('should use a deterministic sampling pattern', () => {
+    expect(getORBPattern()).toEqual(getORBPattern());
+    expect(getORBPattern()).toHaveLength(256);
+  });
+
+  it('should detect keypoints sorted by response', () => {
+    expect(features.keypoints.length).toBeGreaterThan(20);
+    expect(features.descriptors.length).toBe(features.keypoints.length * 8);
+
+    for (let i = 1; i < features.keypoints.length; i++) {
+      expect(features.keypoints[i].response).toBeLessThanOrEqual(features.keypoints[i - 1].response);
+    }
+
+    const limited = extractORBFeatures(image, { maxKeypoints: 10 });
+    expect(limited.keypoints).toHaveLength(10);
+    expect(limited.keypoints[0]).toEqual(features.keypoints[0]);
+  });
+
+  it('should find nothing in a flat image', () => {
+    const flat = { data: new Uint8Array(64 * 64).fill(90), width: 64, height: 64 };
+    const result = extractORBFeatures(flat);
+    expect(result.keypoints).toHaveLength(0);
+    expect(result.descriptors).toHaveLength(0);
+  });
+
+  it('should produce rotation invariant descriptors', () => {
+    const rotated = extractORBFeatures(rotate90(image));
+    const bytes = descriptorsToBytes(features.descriptors);
+    const rotatedBytes = descriptorsToBytes(rotated.descriptors);
+    const size = image.width;
+
+    let compared = 0;
+    let matched = 0;
+
+    features.keypoints.forEach((kp, i) => {
+      // Away from the border so the full patch is described in both images
+      if (kp.x < 20 || kp.y < 20 || kp.x > size - 21 || kp.y > size - 21) {return;}
+
+      const j = rotated.keypoints.findIndex(r => r.x === size - 1 - kp.y && r.y === kp.x);
+      if (j < 0) {return;}
+
+      compared++;
+      const angleDiff = Math.atan2(
+        Math.sin(rotated.keypoints[j].angle - kp.angle - Math.PI / 2),
+        Math.cos(rotated.keypoints[j].angle - kp.angle - Math.PI / 2)
+      );
+      expect(Math.abs(angleDiff)).toBeLessThan(1e-3);
+
+      if (hamming(bytes[i], rotatedBytes[j]) < 40) {
+        matched++;
+      }
+    });
+
+    expect(compared).toBeGreaterThan(5);
+    expect(matched / compared).toBeGreaterThan(0.8);
+  });
+
+  it('should split descriptors into 32-byte views', () => {
+    const bytes = descriptorsToBytes(features.descriptors);
+    expect(bytes).toHaveLength(features.keypoints.length);
+    expect(bytes[0]).toHaveLength(32);
+    expect(bytes[1][0]).toBe(features.descriptors[8] & 0xff);
+  });
+
+  it('should convert RGBA to grayscale', () => {
+    const rgba = { data: new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 255, 10, 10, 10, 255]), width: 3, height: 1 };
+    expect(Array.from(rgbaToGray(rgba).data)).toEqual([76, 150, 10]);
+  });
+});
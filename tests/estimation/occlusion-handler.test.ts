@@ -0,0 +1,71 @@
+/**
+ * Occlusion Handler Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { OcclusionHandler } from '../../src/core/estimation/occlusion-handler';
+import { DepthMap } from '../../src/core/depth';
+import { createFakeGPU, boundTexture } from '../helpers/fake-gpu';
+
+const WIDTH = 16;
+const HEIGHT = 12;
+
+describe('OcclusionHandler', () => {
+  it('should upsample low-resolution depth before generating occlusion', async () => {
+    const gpu = createFakeGPU();
+    const handler = new OcclusionHandler(gpu.context, { upsampling: { holeFillIterations: 2 } });
+    await handler.initialize(WIDTH, HEIGHT);
+
+    const camera = gpu.context.device.createTexture({
+      label: 'Camera',
+      size: { width: WIDTH, height: HEIGHT },
+      format: 'rgba8unorm',
+      usage: GPUTextureUsage.TEXTURE_BINDING,
+    });
+    const depthMap = new DepthMap(4, 3, new Float32Array(12).fill(0.5), { minDepth: 0.5, maxDepth: 4, timestamp: 0 });
+    const mask = await handler.generateOcclusionFromDepthMap(depthMap, camera);
+
+    expect(gpu.passes.map(pass => pass.pipeline)).toEqual([
+      'Depth Hole Fill',
+      'Depth Hole Fill',
+      'Joint Bilateral Upsample',
+      'Occlusion Generation',
+      'Occlusion Blur',
+    ]);
+
+    // Occlusion reads the camera-resolution upsampled depth
+    const [, , upsample, occlusion, blur] = gpu.passes;
+    const depth = boundTexture(upsample, 4)!;
+    expect(boundTexture(upsample, 1) as unknown).toBe(camera);
+    expect(depth.width).toBe(WIDTH);
+    expect(depth.height).toBe(HEIGHT);
+    expect(boundTexture(occlusion, 0)).toBe(depth);
+    expect(boundTexture(blur, 1) as unknown).toBe(mask);
+    expect(handler.getOcclusionTexture()).toBe(mask);
+  });
+
+  it('should apply upsampling config updates', async () => {
+    const gpu = createFakeGPU();
+    const handler = new OcclusionHandler(gpu.context);
+    await handler.initialize(WIDTH, HEIGHT);
+    handler.updateConfig({ upsampling: { method: 'guided', holeFillIterations: 0 } });
+
+    const camera = gpu.context.device.createTexture({
+      label: 'Camera',
+      size: { width: WIDTH, height: HEIGHT },
+      format: 'rgba8unorm',
+      usage: GPUTextureUsage.TEXTURE_BINDING,
+    });
+    await handler.generateOcclusionFromDepthMap(new DepthMap(4, 3, new Float32Array(12).fill(0.5)), camera);
+
+    expect(gpu.passes.map(pass => pass.entryPoint)).toEqual(['guidedCoefficients', 'guidedApply', 'main', 'main']);
+  });
+
+  it('should require initialization', async () => {
+    const handler = new OcclusionHandler(createFakeGPU().context);
+    const depthMap = new DepthMap(4, 3, new Float32Array(12));
+
+    await expect(handler.generateOcclusionFromDepthMap(depthMap, {} as GPUTexture))
+      .rejects.toThrow('Occlusion handler not initialized');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Fake GPU
+ * Recording WebGPU device for testing pipeline wiring without a GPU
+ *
+ * Nothing executes: textures, uploads and dispatched passes are logged so
+ * tests can check what reaches the GPU and how passes are chained.
+ */
+
+import type { GPUContextManager } from '../../src/core/gpu/gpu-context';
+
+export interface FakeTexture {
+  label: string;
+  width: number;
+  height: number;
+  format: string;
+  destroyed: boolean;
+  createView(): FakeTextureView;
+  destroy(): void;
+}
+
+export interface FakeTextureView {
+  texture: FakeTexture;
+}
+
+export interface FakeBuffer {
+  label: string;
+  size: number;
+  destroy(): void;
+}
+
+export interface RecordedPass {
+  pipeline: string;
+  entryPoint: string;
+  bindings: Map<number, unknown>;
+  workgroups: number[];
+}
+
+export interface FakeGPU {
+  context: GPUContextManager;
+  textures: FakeTexture[];
+  textureWrites: { texture: FakeTexture; data: Float32Array }[];
+  bufferWrites: { buffer: FakeBuffer; data: ArrayBuffer }[];
+  passes: RecordedPass[];
+}
+
+/**
+ * Usage flags, missing outside the browser
+ */
+function installGPUConstants(): void {
+  const flags = (names: string[]): Record<string, number> =>
+    Object.fromEntries(names.map((name, i) => [name, 1 << i]));
+
+  const scope = globalThis as Record<string, unknown>;
+  scope.GPUTextureUsage ??= flags(['COPY_SRC', 'COPY_DST', 'TEXTURE_BINDING', 'STORAGE_BINDING', 'RENDER_ATTACHMENT']);
+  scope.GPUBufferUsage ??= flags([
+    'MAP_READ', 'MAP_WRITE', 'COPY_SRC', 'COPY_DST', 'INDEX', 'VERTEX', 'UNIFORM', 'STORAGE', 'INDIRECT', 'QUERY_RESOLVE',
+  ]);
+}
+
+function copyBytes(data: ArrayBuffer | ArrayBufferView): ArrayBuffer {
+  return ArrayBuffer.isView(data)
+    ? data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer
+    : data.slice(0);
+}
+
+/**
+ * Create a GPU context backed by a recording device
+ */
+export function createFakeGPU(): FakeGPU {
+  installGPUConstants();
+
+  const gpu: Omit<FakeGPU, 'context'> = {
+    textures: [],
+    textureWrites: [],
+    bufferWrites: [],
+    passes: [],
+  };
+
+  const device = {
+    createShaderModule: (descriptor: { code: string }) => ({ code: descriptor.code }),
+
+    createComputePipeline: (descriptor: { label?: string; compute: { entryPoint: string } }) => ({
+      label: descriptor.label ?? '',
+      entryPoint: descriptor.compute.entryPoint,
+      getBindGroupLayout: () => ({}),
+    }),
+
+    createBindGroup: (descriptor: { entries: { binding: number; resource: unknown }[] }) => ({
+      entries: descriptor.entries,
+    }),
+
+    createTexture: (descriptor: { label?: string; size: { width: number; height: number }; format: string }) => {
+      const texture: FakeTexture = {
+        label: descriptor.label ?? '',
+        width: descriptor.size.width,
+        height: descriptor.size.height,
+        format: descriptor.format,
+        destroyed: false,
+        createView: () => ({ texture }),
+        destroy: () => {
+          texture.destroyed = true;
+        },
+      };
+      gpu.textures.push(texture);
+      return texture;
+    },
+
+    createBuffer: (descriptor: { label?: string; size: number }): FakeBuffer => ({
+      label: descriptor.label ?? '',
+      size: descriptor.size,
+      destroy: () => {},
+    }),
+
+    createCommandEncoder: () => ({
+      beginComputePass: () => {
+        const pass: RecordedPass = { pipeline: '', entryPoint: '', bindings: new Map(), workgroups: [] };
+        return {
+          setPipeline: (pipeline: { label: string; entryPoint: string }) => {
+            pass.pipeline = pipeline.label;
+            pass.entryPoint = pipeline.entryPoint;
+          },
+          setBindGroup: (_index: number, group: { entries: { binding: number; resource: unknown }[] }) => {
+            group.entries.forEach(entry => pass.bindings.set(entry.binding, entry.resource));
+          },
+          dispatchWorkgroups: (...workgroups: number[]) => {
+            pass.workgroups = workgroups;
+          },
+          end: () => {
+            gpu.passes.push(pass);
+          },
+        };
+      },
+      finish: () => ({}),
+    }),
+
+    queue: {
+      writeTexture: (destination: { texture: FakeTexture }, data: ArrayBuffer | ArrayBufferView) => {
+        gpu.textureWrites.push({ texture: destination.texture, data: new Float32Array(copyBytes(data)) });
+      },
+      writeBuffer: (buffer: FakeBuffer, _offset: number, data: ArrayBuffer | ArrayBufferView) => {
+        gpu.bufferWrites.push({ buffer, data: copyBytes(data) });
+      },
+      submit: () => {},
+    },
+  };
+
+  return { ...gpu, context: { device } as unknown as GPUContextManager };
+}
+
+/**
+ * Texture sampled by a recorded pass binding
+ */
+export function boundTexture(pass: RecordedPass, binding: number): FakeTexture | undefined {
+  return (pass.bindings.get(binding) as FakeTextureView | undefined)?.texture;
+}
@@ -0,0 +1,130 @@
+/**
+ * ONNX Builder
+ * Encodes tiny ONNX models (protobuf) for backend tests
+ */
+
+export interface TestNode {
+  opType: string;
+  inputs: string[];
+  outputs: string[];
+  attributes?: Record<string, number | number[] | string | { dims: number[]; data: number[] }>;
+}
+
+export interface TestModel {
+  inputs: Array<{ name: string; dims: Array<number | string> }>;
+  outputs: Array<{ name: string; dims: Array<number | string> }>;
+  nodes: TestNode[];
+  initializers?: Record<string, { dims: number[]; data: number[]; raw?: boolean }>;
+  opset?: number;
+  // List initializers as graph inputs too (older exporters)
+  initializersAsInputs?: boolean;
+}
+
+/**
+ * Encode a model as ONNX ModelProto bytes
+ */
+export function buildOnnxModel(model: TestModel): Uint8Array {
+  const graph: number[][] = [];
+
+  model.nodes.forEach((node, i) => {
+    graph.push(field(1, encodeNode(node, i)));
+  });
+
+  const initializers = Object.entries(model.initializers ?? {});
+  for (const [name, tensor] of initializers) {
+    graph.push(field(5, encodeTensor(name, tensor.dims, tensor.data, tensor.raw)));
+  }
+
+  for (const input of model.inputs) {
+    graph.push(field(11, encodeValueInfo(input.name, input.dims)));
+  }
+  if (model.initializersAsInputs) {
+    for (const [name, tensor] of initializers) {
+      graph.push(field(11, encodeValueInfo(name, tensor.dims)));
+    }
+  }
+  for (const output of model.outputs) {
+    graph.push(field(12, encodeValueInfo(output.name, output.dims)));
+  }
+
+  const opset = [...field(1, text('')), ...varintField(2, model.opset ?? 13)];
+  return new Uint8Array([
+    ...varintField(1, 8), // ir_version
+    ...field(8, opset),
+    ...field(7, graph.flat()),
+  ]);
+}
+
+// ==================== Private Methods ====================
+
+function varint(value: number): number[] {
+  // Negative int64 values use ten bytes of two's complement
+  let big = BigInt.asUintN(64, BigInt(value));
+  const bytes: number[] = [];
+  do {
+    let byte = Number(big & 0x7fn);
+    big >>= 7n;
+    if (big > 0n) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (big > 0n);
+  return bytes;
+}
+
+function varintField(number: number, value: number): number[] {
+  return [...varint(number * 8), ...varint(value)];
+}
+
+function field(number: number, bytes: number[]): number[] {
+  return [...varint(number * 8 + 2), ...varint(bytes.length), ...bytes];
+}
+
+function text(value: string): number[] {
+  return Array.from(new TextEncoder().encode(value));
+}
+
+function floatBytes(values: number[]): number[] {
+  return Array.from(new Uint8Array(new Float32Array(values).buffer));
+}
+
+function encodeValueInfo(name: string, dims: Array<number | string>): number[] {
+  const shape = dims.flatMap(dim => field(1, typeof dim === 'number' ? varintField(1, dim) : field(2, text(dim))));
+  const tensorType = [...varintField(1, 1), ...field(2, shape)];
+  return [...field(1, text(name)), ...field(2, field(1, tensorType))];
+}
+
+function encodeTensor(name: string, dims: number[], data: number[], raw = false): number[] {
+  return [
+    ...dims.flatMap(dim => varintField(1, dim)),
+    ...varintField(2, 1), // FLOAT
+    ...(raw ? field(9, floatBytes(data)) : field(4, floatBytes(data))),
+    ...field(8, text(name)),
+  ];
+}
+
+function encodeNode(node: TestNode, index: number): number[] {
+  const attributes = Object.entries(node.attributes ?? {}).map(([name, value]) => {
+    const header = field(1, text(name));
+    if (typeof value === 'number') {
+      return Number.isInteger(value)
+        ? [...header, ...varintField(3, value), ...varintField(20, 2)]
+        : [...header, ...varint(2 * 8 + 5), ...floatBytes([value]), ...varintField(20, 1)];
+    }
+    if (typeof value === 'string') {
+      return [...header, ...field(4, text(value)), ...varintField(20, 3)];
+    }
+    if (Array.isArray(value)) {
+      return [...header, ...field(8, value.flatMap(varint)), ...varintField(20, 7)];
+    }
+    return [...header, ...field(5, encodeTensor('', value.dims, value.data)), ...varintField(20, 4)];
+  });
+
+  return [
+    ...node.inputs.flatMap(input => field(1, text(input))),
+    ...node.outputs.flatMap(output => field(2, text(output))),
+    ...field(3, text(`${node.opType}_${index}`)),
+    ...field(4, text(node.opType)),
+    ...attributes.flatMap(attribute => field(5, attribute)),
+  ];
+}
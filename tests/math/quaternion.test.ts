@@ -239,4 +239,22 @@ describe('Quaternion', () => {
       expect(arr).toEqual([1, 2, 3, 4]);
     });
   });
+
+  describe('rotation vector', () => {
+    test('round-trips through rotation vector', () => {
+      const v = new Vector3(0.3, -0.5, 1.2);
+      const result = Quaternion.fromRotationVector(v).toRotationVector();
+      expect(result.x).toBeCloseTo(v.x, 10);
+      expect(result.y).toBeCloseTo(v.y, 10);
+      expect(result.z).toBeCloseTo(v.z, 10);
+    });
+
+    test('rotates vectors like the axis-angle rotation', () => {
+      const q = Quaternion.fromAxisAngle(new Vector3(0, 0, 1), Math.PI / 2);
+      const rotated = q.rotateVector(new Vector3(1, 0, 0));
+      expect(rotated.x).toBeCloseTo(0, 10);
+      expect(rotated.y).toBeCloseTo(1, 10);
+      expect(rotated.z).toBeCloseTo(0, 10);
+    });
+  });
 });
@@ -0,0 +1,61 @@
+/**
+ * Skyline Matrix Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { SkylineMatrix } from '../../src/core/math/skyline-matrix';
+import { Matrix } from '../../src/core/math/matrix-ops';
+
+describe('SkylineMatrix', () => {
+  it('should match a dense Cholesky solve for a banded matrix with a long-range entry', () => {
+    const n = 12;
+    const dense = Matrix.zeros(n, n);
+    const firstColumn = Array.from({ length: n }, (_, i) => Math.max(0, i - 2));
+    firstColumn[n - 1] = 0;
+    const skyline = new SkylineMatrix(firstColumn);
+
+    const set = (i: number, j: number, v: number) => {
+      dense[i][j] += v;
+      if (i !== j) {dense[j][i] += v;}
+      skyline.add(i, j, v);
+    };
+    for (let i = 0; i < n; i++) {
+      set(i, i, 6 + i * 0.1);
+      if (i > 0) {set(i, i - 1, -1);}
+      if (i > 1) {set(i - 2, i, 0.5);}
+    }
+    set(n - 1, 0, -1.5);
+
+    const b = Array.from({ length: n }, (_, i) => Math.sin(i + 1));
+    const expected = Matrix.solveCholesky(dense, b);
+    const actual = skyline.solveCholesky(b);
+
+    actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 10));
+    expect(skyline.get(0, n - 1)).toBe(-1.5);
+    expect(skyline.get(n - 2, 0)).toBe(0);
+  });
+
+  it('should leave the matrix unchanged and copy on clone', () => {
+    const skyline = new SkylineMatrix([0, 0]);
+    skyline.add(0, 0, 4);
+    skyline.add(1, 1, 3);
+    skyline.add(0, 1, 1);
+
+    const copy = skyline.clone();
+    copy.setDiagonal(0, 10);
+
+    expect(skyline.solveCholesky([1, 2])).toEqual(Matrix.solveCholesky([[4, 1], [1, 3]], [1, 2]));
+    expect(skyline.diagonal(0)).toBe(4);
+    expect(copy.diagonal(0)).toBe(10);
+  });
+
+  it('should reject entries outside the envelope and indefinite matrices', () => {
+    const skyline = new SkylineMatrix([0, 1, 1]);
+    expect(() => skyline.add(2, 0, 1)).toThrow('envelope');
+
+    skyline.add(0, 0, 1);
+    skyline.add(1, 1, -1);
+    skyline.add(2, 2, 1);
+    expect(() => skyline.solveCholesky([1, 1, 1])).toThrow('not positive definite');
+  });
+});
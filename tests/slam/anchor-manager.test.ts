@@ -0,0 +1,229 @@
+/**
+ * Anchor Manager Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { AnchorManager, binaryAnchorSerializer } from '../../src/core/slam/anchor-manager';
+import { SLAMMapManager } from '../../src/core/slam/slam-map';
+import type {
+  CameraIntrinsics,
+  KeyframeFeature,
+  LoopClosureCorrection,
+  SLAMAnchor,
+} from '../../src/core/slam/types';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { Sim3 } from '../../src/core/math/sim3';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics: CameraIntrinsics = { fx: 500, fy: 500, cx: 320, cy: 240 };
+
+interface Pose {
+  position: Vector3;
+  rotation: Quaternion;
+}
+
+interface Landmark {
+  position: Vector3;
+  descriptor: Uint8Array;
+}
+
+/**
+ * Map whose keyframes all observe every landmark
+ */
+function createMap(name: string, poses: Pose[], landmarks: Landmark[]): SLAMMapManager {
+  const map = new SLAMMapManager(name);
+
+  const pointIds = landmarks.map(landmark =>
+    map.addMapPoint({
+      position: landmark.position,
+      descriptor: landmark.descriptor,
+      observations: poses.map((_, i) => i),
+      normal: new Vector3(0, 0, -1),
+      minDistance: 0.1,
+      maxDistance: 20,
+      trackingState: 'good',
+      createdAt: 0,
+    }).id
+  );
+
+  poses.forEach((pose, i) => {
+    const features: KeyframeFeature[] = landmarks.map((landmark, j) => {
+      const pc = pose.rotation.conjugate().rotateVector(landmark.position.subtract(pose.position));
+      return {
+        x: (intrinsics.fx * pc.x) / pc.z + intrinsics.cx,
+        y: (intrinsics.fy * pc.y) / pc.z + intrinsics.cy,
+        octave: 0,
+        angle: 0,
+        descriptor: landmark.descriptor,
+        mapPointId: pointIds[j],
+      };
+    });
+
+    map.addKeyframe({
+      timestamp: i * 100,
+      pose: {
+        position: pose.position,
+        rotation: pose.rotation,
+        transform: Matrix4.identity(),
+        inverse: Matrix4.identity(),
+      },
+      features,
+      covisibleKeyframes: [],
+      mapPoints: pointIds,
+      intrinsics,
+    });
+  });
+
+  return map;
+}
+
+// Hosting device frame -> resolving device frame
+const hostToResolver = new Sim3(
+  Quaternion.fromAxisAngle(new Vector3(0, 1, 0), -0.4),
+  new Vector3(-2, 0.5, 1),
+  0.5
+);
+
+/**
+ * Hosting device map and a resolving device map of the same place in its own frame
+ */
+function createDevices() {
+  const random = createRandom(5);
+  const landmarks: Landmark[] = Array.from({ length: 60 }, () => ({
+    position: new Vector3(random() * 4 - 2, random() * 3 - 1.5, 6 + random() * 4),
+    descriptor: Uint8Array.from({ length: 32 }, () => Math.floor(random() * 256)),
+  }));
+
+  const hostPoses: Pose[] = Array.from({ length: 8 }, (_, i) => ({
+    position: new Vector3(i * 0.3, 0, 0),
+    rotation: Quaternion.fromAxisAngle(new Vector3(0, 1, 0), -i * 0.02),
+  }));
+  const host = createMap('Host', hostPoses, landmarks);
+
+  const resolverPoses: Pose[] = [0, 1].map(i => ({
+    position: hostToResolver.transformPoint(new Vector3(0.4 + i * 0.2, 0.1, -0.2)),
+    rotation: hostToResolver.rotation.multiply(
+      Quaternion.fromAxisAngle(new Vector3(0, 1, 0), 0.03 * i)
+    ).normalize(),
+  }));
+  const resolver = createMap(
+    'Resolver',
+    resolverPoses,
+    landmarks.slice(10, 50).map(l => ({ ...l, position: hostToResolver.transformPoint(l.position) }))
+  );
+
+  return { host, resolver };
+}
+
+const anchorPosition = new Vector3(0.5, -0.3, 7);
+const anchorRotation = Quaternion.fromAxisAngle(new Vector3(1, 0, 0), 0.7);
+
+describe('AnchorManager', () => {
+  it('should attach anchors to the nearest keyframe', () => {
+    const { host } = createDevices();
+    const anchors = new AnchorManager(host);
+
+    const anchor = anchors.createAnchor(new Vector3(1.25, 0, 0.5), Quaternion.identity());
+
+    expect(anchor.keyframeId).toBe(4);
+    expect(anchor.resolved).toBe(false);
+    expect(anchors.getAnchor(anchor.id)).toBe(anchor);
+    expect(() => new AnchorManager(new SLAMMapManager()).createAnchor(anchorPosition, anchorRotation)).toThrow(
+      'no keyframes'
+    );
+  });
+
+  it('should host an anchor with a compact fragment in the anchor frame', async () => {
+    const { host } = createDevices();
+    const anchors = new AnchorManager(host, { maxFragmentKeyframes: 3 });
+    const anchor = anchors.createAnchor(anchorPosition, anchorRotation);
+
+    const hosted = await binaryAnchorSerializer.deserialize(await anchors.hostAnchor(anchor.id));
+    const fragment = SLAMMapManager.deserialize(hosted.fragment);
+
+    expect(hosted.id).toBe(anchor.id);
+    expect(fragment.getAllKeyframes().length).toBe(3);
+    expect(fragment.getAllMapPoints().length).toBe(60);
+
+    // Points are expressed relative to the anchor
+    const toAnchor = Sim3.fromPose(anchorPosition, anchorRotation).inverse();
+    const [point] = fragment.getAllMapPoints();
+    expect(point.position.distanceTo(toAnchor.transformPoint(host.getMapPoint(point.id)!.position))).toBeLessThan(1e-9);
+  });
+
+  it('should resolve a hosted anchor on another device', async () => {
+    const { host, resolver } = createDevices();
+    const hosting = new AnchorManager(host);
+    const anchor = hosting.createAnchor(anchorPosition, anchorRotation);
+    const data = await hosting.hostAnchor(anchor.id);
+
+    const resolving = new AnchorManager(resolver);
+    const events: SLAMAnchor[] = [];
+    resolving.on('slam:anchor-resolved', a => events.push(a));
+
+    const id = await resolving.resolveAnchor(data);
+    const resolved = resolving.getAnchor(id)!;
+
+    expect(id).toBe(anchor.id);
+    expect(events).toEqual([resolved]);
+    expect(resolved.resolved).toBe(true);
+    expect(resolving.isResolving(id)).toBe(false);
+
+    const expected = hostToResolver.transformPoint(anchorPosition);
+    const expectedRotation = hostToResolver.rotation.multiply(anchorRotation);
+    expect(resolved.position.distanceTo(expected)).toBeLessThan(1e-6);
+    expect(resolved.rotation.toRotationVector().distanceTo(expectedRotation.toRotationVector())).toBeLessThan(1e-6);
+  });
+
+  it('should keep resolving until a keyframe sees the fragment', async () => {
+    const { host } = createDevices();
+    const hosting = new AnchorManager(host);
+    const data = await hosting.hostAnchor(hosting.createAnchor(anchorPosition, anchorRotation).id);
+
+    const elsewhere = createMap('Elsewhere', [{ position: new Vector3(0, 0, 0), rotation: Quaternion.identity() }], [
+      { position: new Vector3(0, 0, 5), descriptor: new Uint8Array(32) },
+    ]);
+    const resolving = new AnchorManager(elsewhere);
+    const id = await resolving.resolveAnchor(data);
+
+    expect(resolving.isResolving(id)).toBe(true);
+    expect(resolving.getAnchors()).toEqual([]);
+    expect(resolving.tryResolve(elsewhere.getKeyframe(0)!)).toEqual([]);
+
+    resolving.removeAnchor(id);
+    expect(resolving.isResolving(id)).toBe(false);
+  });
+
+  it('should move anchors with their keyframe after loop closure', () => {
+    const { host } = createDevices();
+    const anchors = new AnchorManager(host);
+    const anchor = anchors.createAnchor(new Vector3(0.3, 0, 1), Quaternion.identity());
+    const other = anchors.createAnchor(new Vector3(2.1, 0, 1), Quaternion.identity());
+    const updates: SLAMAnchor[] = [];
+    anchors.on('slam:anchor-updated', a => updates.push(a));
+
+    const correction = new Sim3(Quaternion.fromAxisAngle(new Vector3(0, 0, 1), 0.1), new Vector3(0, 0.2, 0), 1.1);
+    const loop: LoopClosureCorrection = {
+      queryKeyframeId: 1,
+      loopKeyframeId: 0,
+      corrections: new Map([[anchor.keyframeId, correction]]),
+      numMapPointsCorrected: 0,
+      numEdges: 1,
+      iterations: 1,
+      initialError: 0,
+      finalError: 0,
+    };
+    anchors.applyLoopCorrection(loop);
+
+    expect(updates).toEqual([anchor]);
+    expect(anchor.position.distanceTo(correction.transformPoint(new Vector3(0.3, 0, 1)))).toBeLessThan(1e-9);
+    expect(other.position.equals(new Vector3(2.1, 0, 1))).toBe(true);
+
+    // Merging moves every anchor with the map
+    anchors.applyTransform(new Sim3(Quaternion.identity(), new Vector3(1, 0, 0), 1));
+    expect(updates.length).toBe(3);
+    expect(other.position.x).toBeCloseTo(3.1, 9);
+  });
+});
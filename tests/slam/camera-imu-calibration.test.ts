@@ -0,0 +1,121 @@
+/**
+ * Camera-IMU Calibration Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  CameraIMUCalibrator,
+  saveCameraIMUCalibration,
+  loadCameraIMUCalibration,
+  CAMERA_IMU_CALIBRATION_KEY,
+  type CalibrationStorage,
+} from '../../src/core/slam/camera-imu-calibration';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { createRandom } from '../../src/utils/random';
+
+const cameraFromIMU = Quaternion.fromAxisAngle(new Vector3(1, 0.2, -0.1).normalize(), 2.9);
+const gyroBias = new Vector3(0.01, -0.02, 0.005);
+
+/**
+ * Camera-frame angular rate exciting all axes
+ */
+function cameraRate(t: number, amplitude: number): Vector3 {
+  return new Vector3(
+    Math.sin(2.1 * t) + 0.4 * Math.sin(7.3 * t),
+    Math.cos(1.7 * t) * Math.sin(3.1 * t + 0.5),
+    0.8 * Math.sin(2.9 * t + 1.0)
+  ).multiply(amplitude);
+}
+
+/**
+ * Record tracked rotations (30 Hz) and gyroscope readings (200 Hz) whose
+ * clock runs timeOffset ms ahead of the camera clock
+ */
+function record(calibrator: CameraIMUCalibrator, timeOffset: number, amplitude = 1, duration = 4): void {
+  const random = createRandom(9);
+  let rotation = Quaternion.identity();
+
+  for (let ms = 0; ms <= duration * 1000; ms++) {
+    const t = ms / 1000;
+    if (ms % 33 === 0) {
+      calibrator.addVisualRotation(ms, rotation);
+    }
+    if (ms % 5 === 0) {
+      const noise = new Vector3(random() - 0.5, random() - 0.5, random() - 0.5).multiply(0.01);
+      calibrator.addIMUMeasurement({
+        timestamp: ms + timeOffset,
+        gyroscope: cameraFromIMU.conjugate().rotateVector(cameraRate(t, amplitude)).add(gyroBias).add(noise),
+        accelerometer: new Vector3(0, 0, 9.81),
+      });
+    }
+
+    // Integrate the camera rotation at 1 kHz (midpoint rate)
+    rotation = rotation.multiply(Quaternion.fromRotationVector(cameraRate(t + 0.0005, amplitude).multiply(0.001))).normalize();
+  }
+}
+
+function createStorage(): CalibrationStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+describe('CameraIMUCalibrator', () => {
+  it('should recover the camera-IMU rotation and clock offset', () => {
+    const calibrator = new CameraIMUCalibrator();
+    record(calibrator, 37);
+
+    const calibration = calibrator.calibrate()!;
+
+    expect(calibration).not.toBeNull();
+    expect(Math.abs(calibration.timeOffset - 37)).toBeLessThan(2);
+    expect(calibration.correlation).toBeGreaterThan(0.95);
+
+    const error = calibration.cameraFromIMU.conjugate().multiply(cameraFromIMU).toRotationVector().length();
+    expect(error).toBeLessThan(0.01);
+    expect(calibration.gyroBias.distanceTo(gyroBias)).toBeLessThan(0.01);
+    expect(calibration.rmsError).toBeLessThan(0.05);
+  });
+
+  it('should handle an IMU clock behind the camera clock', () => {
+    const calibrator = new CameraIMUCalibrator();
+    record(calibrator, -62);
+
+    expect(Math.abs(calibrator.calibrate()!.timeOffset + 62)).toBeLessThan(2);
+  });
+
+  it('should reject recordings without enough rotation', () => {
+    const calibrator = new CameraIMUCalibrator();
+    record(calibrator, 10, 0.05);
+
+    expect(calibrator.calibrate()).toBeNull();
+
+    calibrator.reset();
+    expect(calibrator.getSampleCount()).toEqual({ rotations: 0, measurements: 0 });
+    expect(calibrator.calibrate()).toBeNull();
+  });
+
+  it('should persist calibrations', () => {
+    const calibrator = new CameraIMUCalibrator();
+    record(calibrator, 20, 1, 2);
+    const calibration = calibrator.calibrate()!;
+    const storage = createStorage();
+
+    expect(loadCameraIMUCalibration(storage)).toBeNull();
+    saveCameraIMUCalibration(calibration, storage);
+    const loaded = loadCameraIMUCalibration(storage)!;
+
+    expect(loaded.cameraFromIMU.equals(calibration.cameraFromIMU)).toBe(true);
+    expect(loaded.gyroBias.equals(calibration.gyroBias)).toBe(true);
+    expect(loaded.timeOffset).toBe(calibration.timeOffset);
+
+    storage.items.set(CAMERA_IMU_CALIBRATION_KEY, '{not json');
+    expect(loadCameraIMUCalibration(storage)).toBeNull();
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * IMU Preintegration Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  IMUPreintegrator,
+  correctPreintegration,
+  evaluateInertialResidual,
+  type InertialState,
+} from '../../src/core/slam/imu-preintegration';
+import { InertialInitializer } from '../../src/core/slam/inertial-initializer';
+import {
+  LocalBundleAdjuster,
+  type BundleAdjustmentProblem,
+} from '../../src/core/slam/local-bundle-adjuster';
+import {
+  encodeLocalMappingJob,
+  decodeLocalMappingDelta,
+  runLocalMappingJob,
+} from '../../src/core/slam/local-mapping';
+import type { CameraIntrinsics, Keyframe, PreintegratedIMU } from '../../src/core/slam/types';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics: CameraIntrinsics = { fx: 500, fy: 500, cx: 320, cy: 240 };
+const gravity = new Vector3(0.5, 9.7, 1.2).normalize().multiply(9.81);
+const omega = new Vector3(0.05, 0.2, -0.03);
+
+/**
+ * Smooth camera trajectory with constant body rate
+ */
+function trajectory(t: number): { rotation: Quaternion; position: Vector3; velocity: Vector3; acceleration: Vector3 } {
+  return {
+    rotation: Quaternion.fromRotationVector(omega.multiply(t)),
+    position: new Vector3(Math.sin(1.5 * t), 0.5 * Math.cos(t) - 0.5, 0.3 * Math.sin(2 * t)),
+    velocity: new Vector3(1.5 * Math.cos(1.5 * t), -0.5 * Math.sin(t), 0.6 * Math.cos(2 * t)),
+    acceleration: new Vector3(-2.25 * Math.sin(1.5 * t), -0.5 * Math.cos(t), -1.2 * Math.sin(2 * t)),
+  };
+}
+
+/**
+ * Preintegrate simulated readings over [t0, t1]
+ */
+function preintegrate(
+  t0: number,
+  t1: number,
+  options: { rate?: number; gyroBias?: Vector3; accelBias?: Vector3; readingBias?: Vector3 } = {}
+): PreintegratedIMU {
+  const rate = options.rate ?? 1000;
+  const preintegrator = new IMUPreintegrator({}, options.gyroBias, options.accelBias);
+  const steps = Math.round((t1 - t0) * rate);
+
+  for (let k = 0; k < steps; k++) {
+    // Midpoint sample for the interval
+    const state = trajectory(t0 + (k + 0.5) / rate);
+    const accelerometer = state.rotation.conjugate().rotateVector(state.acceleration.subtract(gravity));
+    preintegrator.integrate(omega.add(options.readingBias ?? new Vector3(0, 0, 0)), accelerometer, 1 / rate);
+  }
+
+  return preintegrator.getResult();
+}
+
+function stateAt(t: number): InertialState {
+  const { rotation, position, velocity } = trajectory(t);
+  return { rotation, position, velocity, gyroBias: new Vector3(0, 0, 0), accelBias: new Vector3(0, 0, 0) };
+}
+
+/**
+ * Apply a 15-dim increment [δφ, δp, δv, δbg, δba]
+ */
+function perturb(state: InertialState, index: number, eps: number): InertialState {
+  const delta = [0, 0, 0];
+  delta[index % 3] = eps;
+  const d = new Vector3(delta[0], delta[1], delta[2]);
+
+  switch (Math.floor(index / 3)) {
+    case 0: return { ...state, rotation: state.rotation.multiply(Quaternion.fromRotationVector(d)).normalize() };
+    case 1: return { ...state, position: state.position.add(state.rotation.rotateVector(d)) };
+    case 2: return { ...state, velocity: state.velocity.add(d) };
+    case 3: return { ...state, gyroBias: state.gyroBias.add(d) };
+    default: return { ...state, accelBias: state.accelBias.add(d) };
+  }
+}
+
+function createKeyframe(id: number, t: number, scale: number, previous: PreintegratedIMU | null): Keyframe {
+  const { rotation, position } = trajectory(t);
+  return {
+    id,
+    timestamp: t * 1000,
+    pose: {
+      position: position.multiply(1 / scale),
+      rotation,
+      transform: Matrix4.identity(),
+      inverse: Matrix4.identity(),
+    },
+    features: [],
+    covisibleKeyframes: [],
+    mapPoints: [],
+    intrinsics,
+    imu: {
+      velocity: new Vector3(0, 0, 0),
+      gyroBias: new Vector3(0, 0, 0),
+      accelBias: new Vector3(0, 0, 0),
+      preintegration: previous,
+      previousKeyframeId: previous ? id - 1 : null,
+    },
+  };
+}
+
+describe('IMUPreintegrator', () => {
+  it('should match the true relative motion', () => {
+    const pre = preintegrate(0.2, 0.7);
+    const { residual } = evaluateInertialResidual(pre, stateAt(0.2), stateAt(0.7), gravity);
+
+    expect(pre.dt).toBeCloseTo(0.5, 9);
+    expect(Math.hypot(...residual.slice(0, 3))).toBeLessThan(1e-6);
+    expect(Math.hypot(...residual.slice(3, 6))).toBeLessThan(1e-3);
+    expect(Math.hypot(...residual.slice(6, 9))).toBeLessThan(1e-3);
+  });
+
+  it('should integrate timestamped measurements', () => {
+    const preintegrator = new IMUPreintegrator();
+    for (let k = 0; k <= 100; k++) {
+      preintegrator.addMeasurement({
+        timestamp: k * 5,
+        gyroscope: new Vector3(0, 0, 1),
+        accelerometer: new Vector3(1, 0, 0),
+      });
+    }
+    const pre = preintegrator.getResult();
+
+    expect(preintegrator.getMeasurementCount()).toBe(100);
+    expect(pre.dt).toBeCloseTo(0.5, 9);
+    expect(pre.deltaRotation.toRotationVector().z).toBeCloseTo(0.5, 9);
+    expect(pre.covariance[0][0]).toBeGreaterThan(0);
+  });
+
+  it('should have Jacobians matching numeric differentiation', () => {
+    const random = createRandom(3);
+    const pre = preintegrate(0, 0.4, { rate: 200, gyroBias: new Vector3(0.01, -0.02, 0.005) });
+    const i = { ...stateAt(0), gyroBias: new Vector3(0.03, 0, -0.01), accelBias: new Vector3(0.1, -0.2, 0.05) };
+    const j = {
+      ...stateAt(0.4),
+      velocity: stateAt(0.4).velocity.add(new Vector3(random() - 0.5, random() - 0.5, random() - 0.5)),
+    };
+
+    const analytic = evaluateInertialResidual(pre, i, j, gravity);
+    const eps = 1e-6;
+
+    for (const [which, jacobian] of [[0, analytic.jacobianI], [1, analytic.jacobianJ]] as const) {
+      for (let c = 0; c < 15; c++) {
+        const plus = evaluateInertialResidual(pre, which === 0 ? perturb(i, c, eps) : i, which === 1 ? perturb(j, c, eps) : j, gravity);
+        const minus = evaluateInertialResidual(pre, which === 0 ? perturb(i, c, -eps) : i, which === 1 ? perturb(j, c, -eps) : j, gravity);
+        for (let r = 0; r < 9; r++) {
+          const numeric = (plus.residual[r] - minus.residual[r]) / (2 * eps);
+          expect(Math.abs(numeric - jacobian[r][c])).toBeLessThan(1e-5);
+        }
+      }
+    }
+  });
+
+  it('should correct for a bias change to first order', () => {
+    const original = preintegrate(0, 0.5, { rate: 200 });
+    const gyroBias = new Vector3(0.01, -0.005, 0.008);
+    const accelBias = new Vector3(0.05, 0.02, -0.04);
+    const reintegrated = preintegrate(0, 0.5, { rate: 200, gyroBias, accelBias });
+    const corrected = correctPreintegration(original, gyroBias, accelBias);
+
+    const rotationError = corrected.deltaRotation.conjugate().multiply(reintegrated.deltaRotation).toRotationVector();
+    expect(rotationError.length()).toBeLessThan(1e-5);
+    expect(corrected.deltaVelocity.distanceTo(reintegrated.deltaVelocity)).toBeLessThan(1e-3);
+    expect(corrected.deltaPosition.distanceTo(reintegrated.deltaPosition)).toBeLessThan(1e-3);
+
+    // Without correction the increments are clearly off
+    expect(original.deltaVelocity.distanceTo(reintegrated.deltaVelocity)).toBeGreaterThan(1e-2);
+  });
+});
+
+describe('InertialInitializer', () => {
+  it('should recover gravity, metric scale, velocities and gyroscope bias', () => {
+    const scale = 2.5;
+    const readingBias = new Vector3(0.02, -0.01, 0.015);
+    const keyframes: Keyframe[] = [];
+
+    for (let k = 0; k <= 12; k++) {
+      const t = k * 0.25;
+      const pre = k === 0 ? null : preintegrate(t - 0.25, t, { rate: 400, readingBias });
+      keyframes.push(createKeyframe(k, t, scale, pre));
+    }
+
+    const result = new InertialInitializer().initialize(keyframes)!;
+
+    expect(result).not.toBeNull();
+    expect(Math.abs(result.scale - scale) / scale).toBeLessThan(0.01);
+    expect(result.gravity.length()).toBeCloseTo(9.81, 6);
+    expect(result.gravity.normalize().dot(gravity.normalize())).toBeGreaterThan(Math.cos(0.01));
+    expect(result.gyroBias.distanceTo(readingBias)).toBeLessThan(1e-3);
+    expect(result.velocities.get(6)!.distanceTo(trajectory(1.5).velocity)).toBeLessThan(0.05);
+  });
+
+  it('should wait for enough keyframes', () => {
+    const keyframes = [0, 1, 2].map(k =>
+      createKeyframe(k, k * 0.25, 1, k === 0 ? null : preintegrate((k - 1) * 0.25, k * 0.25, { rate: 100 }))
+    );
+
+    expect(new InertialInitializer().initialize(keyframes)).toBeNull();
+  });
+});
+
+describe('Visual-inertial bundle adjustment', () => {
+  /**
+   * Exact window of keyframes along the trajectory with wrong velocities
+   */
+  function createProblem(): { problem: BundleAdjustmentProblem; times: number[] } {
+    const random = createRandom(11);
+    const times = [0, 0.2, 0.4, 0.6, 0.8];
+    const points = Array.from({ length: 40 }, (_, i) => ({
+      mapPointId: i,
+      position: new Vector3(random() * 4 - 2, random() * 3 - 1.5, 5 + random() * 3),
+    }));
+
+    const problem: BundleAdjustmentProblem = {
+      poses: times.map((t, i) => {
+        const { position, rotation, velocity } = trajectory(t);
+        return {
+          keyframeId: i,
+          position,
+          rotation,
+          intrinsics,
+          fixed: i === 0,
+          inertial: {
+            velocity: i === 0 ? velocity : velocity.add(new Vector3(0.3, -0.2, 0.25)),
+            gyroBias: new Vector3(0, 0, 0),
+            accelBias: new Vector3(0, 0, 0),
+          },
+        };
+      }),
+      points,
+      observations: [],
+      inertial: {
+        gravity,
+        edges: times.slice(1).map((t, i) => ({
+          from: i,
+          to: i + 1,
+          preintegration: preintegrate(times[i], t, { rate: 500 }),
+        })),
+      },
+    };
+
+    problem.poses.forEach((pose, p) => {
+      points.forEach((point, l) => {
+        const pc = pose.rotation.conjugate().rotateVector(point.position.subtract(pose.position));
+        problem.observations.push({
+          pose: p,
+          point: l,
+          x: (intrinsics.fx * pc.x) / pc.z + intrinsics.cx,
+          y: (intrinsics.fy * pc.y) / pc.z + intrinsics.cy,
+          featureIndex: l,
+        });
+      });
+    });
+
+    return { problem, times };
+  }
+
+  it('should refine keyframe velocities from inertial residuals', () => {
+    const { problem, times } = createProblem();
+    const solution = new LocalBundleAdjuster({ maxTime: 10000 }).solve(problem);
+
+    expect(solution.result.numInertialEdges).toBe(4);
+    expect(solution.result.finalError).toBeLessThan(0.1);
+    solution.poses.forEach((pose, i) => {
+      expect(pose.inertial!.velocity.distanceTo(trajectory(times[i]).velocity)).toBeLessThan(0.02);
+      expect(pose.position.distanceTo(trajectory(times[i]).position)).toBeLessThan(1e-3);
+    });
+  });
+
+  it('should solve inertial jobs through the local mapping wire format', () => {
+    const { problem } = createProblem();
+    const config = { maxTime: 10000 };
+
+    const job = encodeLocalMappingJob(problem, config);
+    const solution = decodeLocalMappingDelta(problem, runLocalMappingJob(job));
+    const direct = new LocalBundleAdjuster(config).solve(problem);
+
+    expect(job.inertial!.edges.length).toBe(4 * 145);
+    solution.poses.forEach((pose, i) => {
+      expect(pose.inertial!.velocity.distanceTo(direct.poses[i].inertial!.velocity)).toBeLessThan(1e-9);
+      expect(pose.inertial!.accelBias.distanceTo(direct.poses[i].inertial!.accelBias)).toBeLessThan(1e-9);
+    });
+  });
+});
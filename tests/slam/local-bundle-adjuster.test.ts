@@ -0,0 +1,138 @@
+/**
+ * Local Bundle Adjuster Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { LocalBundleAdjuster } from '../../src/core/slam/local-bundle-adjuster';
+import { SLAMMapManager } from '../../src/core/slam/slam-map';
+import type { CameraIntrinsics, KeyframeFeature } from '../../src/core/slam/types';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics: CameraIntrinsics = { fx: 500, fy: 500, cx: 320, cy: 240 };
+
+function project(point: Vector3, position: Vector3, rotation: Quaternion): [number, number] {
+  const pc = rotation.conjugate().rotateVector(point.subtract(position));
+  return [
+    (intrinsics.fx * pc.x) / pc.z + intrinsics.cx,
+    (intrinsics.fy * pc.y) / pc.z + intrinsics.cy,
+  ];
+}
+
+/**
+ * Build a map with keyframes observing points in front of them,
+ * then perturb the poses and points
+ */
+function createScene(noise: number) {
+  const random = createRandom(42);
+  const map = new SLAMMapManager('ba-test');
+
+  const truePoses = [0, 1, 2, 3, 4].map(i => ({
+    position: new Vector3(i * 0.2, 0, 0),
+    rotation: Quaternion.fromAxisAngle(new Vector3(0, 1, 0), -i * 0.05),
+  }));
+  const truePoints = Array.from({ length: 40 }, () =>
+    new Vector3(random() * 2 - 0.6, random() * 1.5 - 0.75, 3 + random() * 2)
+  );
+
+  const pointIds = truePoints.map((p) =>
+    map.addMapPoint({
+      position: p.add(new Vector3(random() - 0.5, random() - 0.5, random() - 0.5).multiply(noise)),
+      descriptor: new Uint8Array(32),
+      observations: truePoses.map((_, i) => i),
+      normal: new Vector3(0, 0, -1),
+      minDistance: 0.1,
+      maxDistance: 10,
+      trackingState: 'good',
+      createdAt: 0,
+    }).id
+  );
+
+  truePoses.forEach((pose, i) => {
+    const features: KeyframeFeature[] = truePoints.map((p, j) => {
+      const [x, y] = project(p, pose.position, pose.rotation);
+      return { x, y, octave: 0, angle: 0, descriptor: new Uint8Array(32), mapPointId: pointIds[j] };
+    });
+
+    const perturb = i === 0 ? 0 : noise;
+    map.addKeyframe({
+      timestamp: i * 100,
+      pose: {
+        position: pose.position.add(new Vector3(random() - 0.5, random() - 0.5, random() - 0.5).multiply(perturb)),
+        rotation: pose.rotation.multiply(
+          Quaternion.fromRotationVector(new Vector3(random() - 0.5, random() - 0.5, random() - 0.5).multiply(perturb * 0.1))
+        ).normalize(),
+        transform: Matrix4.identity(),
+        inverse: Matrix4.identity(),
+      },
+      features,
+      covisibleKeyframes: [],
+      mapPoints: pointIds,
+      intrinsics,
+    });
+  });
+
+  return { map, truePoses, truePoints, pointIds };
+}
+
+describe('LocalBundleAdjuster', () => {
+  it('should reduce reprojection error of a perturbed map', () => {
+    const { map } = createScene(0.05);
+    const adjuster = new LocalBundleAdjuster({ windowSize: 5, maxIterations: 20, maxTime: 10000 });
+
+    const result = adjuster.optimize(map);
+
+    expect(result.numObservations).toBe(200);
+    expect(result.numMapPoints).toBe(40);
+    expect(result.numFixedKeyframes).toBe(1);
+    expect(result.initialError).toBeGreaterThan(1);
+    expect(result.finalError).toBeLessThan(result.initialError * 0.05);
+    expect(result.numOutliers).toBe(0);
+  });
+
+  it('should hold keyframes outside the window fixed', () => {
+    const { map } = createScene(0.02);
+    const before = map.getKeyframe(0)!.pose.position.clone();
+    const adjuster = new LocalBundleAdjuster({ windowSize: 3, maxTime: 10000 });
+
+    const result = adjuster.optimize(map);
+
+    expect(result.numKeyframes).toBe(3);
+    expect(result.numFixedKeyframes).toBe(2);
+    expect(map.getKeyframe(0)!.pose.position.distanceTo(before)).toBe(0);
+  });
+
+  it('should unlink gross outlier observations', () => {
+    const { map, pointIds } = createScene(0);
+    const keyframe = map.getKeyframe(4)!;
+    keyframe.features[0].x += 80;
+
+    const adjuster = new LocalBundleAdjuster({ windowSize: 5, maxTime: 10000 });
+    const result = adjuster.optimize(map);
+
+    expect(result.numOutliers).toBe(1);
+    expect(keyframe.features[0].mapPointId).toBeNull();
+    expect(map.getMapPoint(pointIds[0])!.observations).not.toContain(4);
+    expect(result.finalError).toBeLessThan(result.initialError);
+  });
+
+  it('should stop when the time budget is exhausted', () => {
+    const { map } = createScene(0.05);
+    const adjuster = new LocalBundleAdjuster({ windowSize: 5, maxTime: 0 });
+
+    const result = adjuster.optimize(map);
+
+    expect(result.timedOut).toBe(true);
+    expect(result.iterations).toBe(0);
+  });
+
+  it('should do nothing for a map without observations', () => {
+    const adjuster = new LocalBundleAdjuster();
+    const result = adjuster.optimize(new SLAMMapManager('empty'));
+
+    expect(result.numObservations).toBe(0);
+    expect(result.iterations).toBe(0);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Local Mapping Worker Pool Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { LocalBundleAdjuster } from '../../src/core/slam/local-bundle-adjuster';
+import {
+  encodeLocalMappingJob,
+  decodeLocalMappingJob,
+  encodeLocalMappingDelta,
+  decodeLocalMappingDelta,
+  runMappingJob,
+  type LocalMappingRequest,
+} from '../../src/core/slam/local-mapping';
+import {
+  LocalMappingWorkerPool,
+  resolveLocalMappingWorkerURL,
+} from '../../src/core/slam/local-mapping-worker-pool';
+import { SLAMMapper } from '../../src/core/slam/slam-mapper';
+import { SLAMMapManager } from '../../src/core/slam/slam-map';
+import type { CameraIntrinsics, KeyframeFeature, SLAMConfig } from '../../src/core/slam/types';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics: CameraIntrinsics = { fx: 500, fy: 500, cx: 320, cy: 240 };
+
+/**
+ * Keyframes observing points in front of them, with perturbed poses
+ */
+function createScene(noise: number): SLAMMapManager {
+  const random = createRandom(7);
+  const map = new SLAMMapManager('local-mapping-test');
+
+  const truePoses = [0, 1, 2, 3].map(i => ({
+    position: new Vector3(i * 0.2, 0, 0),
+    rotation: Quaternion.fromAxisAngle(new Vector3(0, 1, 0), -i * 0.05),
+  }));
+  const truePoints = Array.from({ length: 30 }, () =>
+    new Vector3(random() * 2 - 0.6, random() * 1.5 - 0.75, 3 + random() * 2)
+  );
+
+  const pointIds = truePoints.map(p =>
+    map.addMapPoint({
+      position: p.add(new Vector3(random() - 0.5, random() - 0.5, random() - 0.5).multiply(noise)),
+      descriptor: new Uint8Array(32),
+      observations: truePoses.map((_, i) => i),
+      normal: new Vector3(0, 0, -1),
+      minDistance: 0.1,
+      maxDistance: 10,
+      trackingState: 'good',
+      createdAt: 0,
+    }).id
+  );
+
+  truePoses.forEach((pose, i) => {
+    const features: KeyframeFeature[] = truePoints.map((p, j) => {
+      const pc = pose.rotation.conjugate().rotateVector(p.subtract(pose.position));
+      return {
+        x: (intrinsics.fx * pc.x) / pc.z + intrinsics.cx,
+        y: (intrinsics.fy * pc.y) / pc.z + intrinsics.cy,
+        octave: 0,
+        angle: 0,
+        descriptor: new Uint8Array(32),
+        mapPointId: pointIds[j],
+      };
+    });
+
+    const perturb = i === 0 ? 0 : noise;
+    map.addKeyframe({
+      timestamp: i * 100,
+      pose: {
+        position: pose.position.add(
+          new Vector3(random() - 0.5, random() - 0.5, random() - 0.5).multiply(perturb)
+        ),
+        rotation: pose.rotation,
+        transform: Matrix4.identity(),
+        inverse: Matrix4.identity(),
+      },
+      features,
+      covisibleKeyframes: [],
+      mapPoints: pointIds,
+      intrinsics,
+    });
+  });
+
+  return map;
+}
+
+/**
+ * In-memory stand-in for a Web Worker running local-mapping-worker.ts
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  transfers: Transferable[][] = [];
+  jobs = 0;
+  private listeners: Array<(event: MessageEvent) => void> = [];
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    if (type === 'message') {
+      this.listeners.push(listener);
+    }
+  }
+
+  postMessage(request: LocalMappingRequest, transfer: Transferable[]): void {
+    this.jobs++;
+    this.transfers.push(transfer);
+    setTimeout(() => {
+      const delta = runMappingJob(request.job);
+      for (const listener of this.listeners) {
+        listener({ data: { jobId: request.jobId, delta } } as MessageEvent);
+      }
+    }, 0);
+  }
+
+  terminate(): void {}
+}
+
+function createConfig(): Required<SLAMConfig> {
+  return {
+    minKeyframeTranslation: 0.1,
+    minKeyframeRotation: 0.2,
+    minKeyframeInterval: 0,
+    maxKeyframes: 100,
+    maxFeatures: 500,
+    minFeatureTracked: 10,
+    minObservations: 2,
+    maxReprojectionError: 5,
+    useIMU: false,
+    imuFrequency: 100,
+    accelerometerNoise: 0.01,
+    gyroscopeNoise: 0.001,
+    enableLoopClosure: false,
+    loopClosureMinInterval: 30,
+    loopClosureThreshold: 0.7,
+    enablePersistence: false,
+    autosaveInterval: 30000,
+    maxMapSize: 50,
+    maxMappingTime: 10000,
+    localMappingThreads: 0,
+  };
+}
+
+describe('Local mapping jobs', () => {
+  it('should round-trip a problem through typed arrays', () => {
+    const adjuster = new LocalBundleAdjuster();
+    const problem = adjuster.buildProblem(createScene(0.02));
+    const job = encodeLocalMappingJob(problem, { maxIterations: 3 });
+
+    expect(job.poses).toBeInstanceOf(Float64Array);
+    expect(job.config.maxIterations).toBe(3);
+
+    const decoded = decodeLocalMappingJob(job);
+    expect(decoded.poses.length).toBe(problem.poses.length);
+    expect(decoded.observations).toEqual(problem.observations);
+    decoded.poses.forEach((pose, i) => {
+      expect(pose.keyframeId).toBe(problem.poses[i].keyframeId);
+      expect(pose.fixed).toBe(problem.poses[i].fixed);
+      expect(pose.position.equals(problem.poses[i].position)).toBe(true);
+      expect(pose.rotation.equals(problem.poses[i].rotation)).toBe(true);
+    });
+
+    const solution = adjuster.solve(problem);
+    const roundTrip = decodeLocalMappingDelta(problem, encodeLocalMappingDelta(solution));
+    expect(roundTrip.points.map(p => p.position.toArray())).toEqual(
+      solution.points.map(p => p.position.toArray())
+    );
+    expect(roundTrip.result.finalError).toBe(solution.result.finalError);
+  });
+
+  it('should reject a delta from a different job', () => {
+    const adjuster = new LocalBundleAdjuster();
+    const problem = adjuster.buildProblem(createScene(0.02));
+    const other = adjuster.buildProblem(new SLAMMapManager('empty'));
+    const delta = encodeLocalMappingDelta(adjuster.solve(other));
+
+    expect(() => decodeLocalMappingDelta(problem, delta)).toThrow();
+  });
+});
+
+describe('LocalMappingWorkerPool', () => {
+  it('should load the worker entry next to the source or the bundle', () => {
+    expect(resolveLocalMappingWorkerURL('file:///repo/src/core/slam/local-mapping-worker-pool.ts').href).toBe(
+      'file:///repo/src/core/slam/local-mapping-worker.ts'
+    );
+    expect(resolveLocalMappingWorkerURL('https://cdn.example/lib/dist/index.js').href).toBe(
+      'https://cdn.example/lib/dist/local-mapping-worker.js'
+    );
+  });
+
+  it('should run in-process jobs asynchronously and match synchronous optimization', async () => {
+    const expected = createScene(0.05);
+    new LocalBundleAdjuster({ maxTime: 10000 }).optimize(expected);
+
+    const map = createScene(0.05);
+    const adjuster = new LocalBundleAdjuster({ maxTime: 10000 });
+    const problem = adjuster.buildProblem(map);
+    const before = map.getKeyframe(3)!.pose.position.clone();
+
+    const pool = new LocalMappingWorkerPool({ threads: 0 });
+    const pending = pool.submit(encodeLocalMappingJob(problem, { maxTime: 10000 }));
+
+    // Nothing runs until the caller yields
+    expect(pool.isParallel()).toBe(false);
+    expect(pool.getPendingCount()).toBe(1);
+    expect(map.getKeyframe(3)!.pose.position.equals(before)).toBe(true);
+
+    const solution = decodeLocalMappingDelta(problem, await pending);
+    adjuster.applySolution(map, problem, solution);
+
+    expect(pool.getPendingCount()).toBe(0);
+    for (const keyframe of expected.getAllKeyframes()) {
+      expect(map.getKeyframe(keyframe.id)!.pose.position.toArray()).toEqual(
+        keyframe.pose.position.toArray()
+      );
+    }
+  });
+
+  it('should not overwrite keyframes changed while the job ran', async () => {
+    const map = createScene(0.05);
+    const adjuster = new LocalBundleAdjuster({ maxTime: 10000 });
+    const problem = adjuster.buildProblem(map);
+
+    const pool = new LocalMappingWorkerPool();
+    const pending = pool.submit(encodeLocalMappingJob(problem, { maxTime: 10000 }));
+
+    const moved = new Vector3(5, 5, 5);
+    map.updateKeyframePose(2, moved, Quaternion.identity());
+
+    adjuster.applySolution(map, problem, decodeLocalMappingDelta(problem, await pending));
+
+    expect(map.getKeyframe(2)!.pose.position.equals(moved)).toBe(true);
+    expect(map.getKeyframe(3)!.pose.position.equals(problem.poses[3].position)).toBe(false);
+  });
+
+  it('should transfer job buffers to workers', async () => {
+    FakeWorker.instances = [];
+    const pool = new LocalMappingWorkerPool({
+      threads: 2,
+      workerFactory: () => new FakeWorker() as unknown as Worker,
+    });
+    expect(pool.isParallel()).toBe(true);
+    expect(pool.getThreadCount()).toBe(2);
+
+    const adjuster = new LocalBundleAdjuster();
+    const jobs = [createScene(0.02), createScene(0.03), createScene(0.04)].map(map =>
+      encodeLocalMappingJob(adjuster.buildProblem(map), {})
+    );
+    const results = await Promise.all(jobs.map(job => pool.submit(job)));
+
+    expect(results.length).toBe(3);
+    expect(FakeWorker.instances[0].jobs + FakeWorker.instances[1].jobs).toBe(3);
+    expect(FakeWorker.instances[1].jobs).toBeGreaterThan(0);
+    expect(FakeWorker.instances[0].transfers[0]).toContain(jobs[0].poses.buffer);
+    expect(FakeWorker.instances[0].transfers[0]).toContain(jobs[0].observations.buffer);
+  });
+
+  it('should reject outstanding jobs when destroyed', async () => {
+    const pool = new LocalMappingWorkerPool();
+    const job = encodeLocalMappingJob(new LocalBundleAdjuster().buildProblem(createScene(0)), {});
+    const pending = pool.submit(job);
+
+    pool.destroy();
+
+    await expect(pending).rejects.toThrow();
+    await expect(pool.submit(job)).rejects.toThrow();
+  });
+});
+
+describe('SLAMMapper local mapping', () => {
+  it('should return new keyframes before local mapping runs', async () => {
+    const map = createScene(0.05);
+    const mapper = new SLAMMapper(map, createConfig(), intrinsics);
+    mapper.reset();
+
+    const before = map.getKeyframe(3)!.pose.position.clone();
+    const keyframe = mapper.tryCreateKeyframe({
+      timestamp: 1000,
+      pose: {
+        position: new Vector3(2, 0, 0),
+        rotation: Quaternion.identity(),
+        velocity: new Vector3(0, 0, 0),
+        angularVelocity: new Vector3(0, 0, 0),
+        timestamp: 1000,
+      },
+      keypoints: [],
+      descriptors: null,
+      numTrackedFeatures: 0,
+    });
+
+    expect(keyframe).not.toBeNull();
+    expect(mapper.isMappingBusy()).toBe(true);
+    expect(mapper.getLastBundleAdjustment()).toBeNull();
+    expect(map.getKeyframe(3)!.pose.position.equals(before)).toBe(true);
+
+    await mapper.flushLocalMapping();
+
+    const result = mapper.getLastBundleAdjustment();
+    expect(mapper.isMappingBusy()).toBe(false);
+    expect(result).not.toBeNull();
+    expect(result!.finalError).toBeLessThan(result!.initialError);
+    expect(map.getKeyframe(3)!.pose.position.equals(before)).toBe(false);
+  });
+});
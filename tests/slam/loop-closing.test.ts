@@ -0,0 +1,295 @@
+/**
+ * Loop Closing Job Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  encodeLoopClosingJob,
+  decodeLoopClosingJob,
+  runLoopClosingJob,
+  applyLoopClosingDelta,
+} from '../../src/core/slam/loop-closing';
+import { LocalMappingWorkerPool } from '../../src/core/slam/local-mapping-worker-pool';
+import { SLAMMapper } from '../../src/core/slam/slam-mapper';
+import { SLAMMapManager } from '../../src/core/slam/slam-map';
+import type {
+  CameraIntrinsics,
+  KeyframeFeature,
+  LoopClosureCorrection,
+  SLAMConfig,
+} from '../../src/core/slam/types';
+import { Sim3 } from '../../src/core/math/sim3';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics: CameraIntrinsics = { fx: 500, fy: 500, cx: 320, cy: 240 };
+const NUM_LANDMARKS = 30;
+const config = { loopClosure: { similarityThreshold: 0.7 }, poseGraph: { optimizeScale: false } };
+
+/**
+ * Drifted estimate of a circular trajectory; keyframe 9 revisits keyframe 0
+ */
+function createTrajectory(): Sim3[] {
+  return Array.from({ length: 10 }, (_, i) => {
+    const angle = ((i % 9) / 9) * Math.PI * 2;
+    return new Sim3(
+      Quaternion.fromAxisAngle(new Vector3(0, 1, 0), angle + i * 0.01),
+      new Vector3(2 * Math.cos(angle) + i * 0.05, 0, 2 * Math.sin(angle))
+    );
+  });
+}
+
+/**
+ * Landmarks in front of the camera, with descriptors and their pixels
+ */
+function createLandmarks(): { local: Vector3[]; descriptors: Uint8Array; features: KeyframeFeature[] } {
+  const random = createRandom(11);
+  const local = Array.from({ length: NUM_LANDMARKS }, () =>
+    new Vector3(random() * 2 - 1, random() * 1.5 - 0.75, 3 + random() * 2)
+  );
+  const descriptors = Uint8Array.from({ length: NUM_LANDMARKS * 32 }, () => Math.floor(random() * 256));
+
+  const features = local.map((p, j) => ({
+    x: (intrinsics.fx * p.x) / p.z + intrinsics.cx,
+    y: (intrinsics.fy * p.y) / p.z + intrinsics.cy,
+    octave: 0,
+    angle: 0,
+    descriptor: descriptors.subarray(j * 32, (j + 1) * 32),
+    mapPointId: null,
+  }));
+
+  return { local, descriptors, features };
+}
+
+function addKeyframe(map: SLAMMapManager, pose: Sim3, timestamp: number, features: KeyframeFeature[] = []) {
+  return map.addKeyframe({
+    timestamp,
+    pose: {
+      position: pose.translation,
+      rotation: pose.rotation,
+      transform: Matrix4.identity(),
+      inverse: Matrix4.identity(),
+    },
+    features,
+    covisibleKeyframes: [],
+    mapPoints: [],
+    intrinsics,
+  });
+}
+
+/**
+ * Give a keyframe its own map points for the landmarks it sees
+ */
+function observeLandmarks(map: SLAMMapManager, keyframeId: number, pose: Sim3, local: Vector3[]): void {
+  const keyframe = map.getKeyframe(keyframeId)!;
+  keyframe.mapPoints = local.map((p, j) => {
+    const id = map.addMapPoint({
+      position: pose.transformPoint(p),
+      descriptor: keyframe.features[j].descriptor,
+      observations: [keyframeId],
+      normal: pose.rotation.rotateVector(new Vector3(0, 0, -1)),
+      minDistance: 0.1,
+      maxDistance: 10,
+      trackingState: 'good',
+      createdAt: 0,
+    }).id;
+    keyframe.features[j].mapPointId = id;
+    return id;
+  });
+}
+
+/**
+ * Trajectory whose first and last keyframe see the same landmarks
+ */
+function createLoopScene(): SLAMMapManager {
+  const poses = createTrajectory();
+  const { local, features } = createLandmarks();
+  const map = new SLAMMapManager('loop-closing-test');
+
+  poses.forEach((pose, i) => {
+    const seesLandmarks = i === 0 || i === poses.length - 1;
+    addKeyframe(map, pose, i * 1000, seesLandmarks ? features.map(f => ({ ...f })) : []);
+  });
+  observeLandmarks(map, 0, poses[0], local);
+  observeLandmarks(map, poses.length - 1, poses[poses.length - 1], local);
+
+  return map;
+}
+
+function createConfig(): Required<SLAMConfig> {
+  return {
+    minKeyframeTranslation: 0.1,
+    minKeyframeRotation: 0.2,
+    minKeyframeInterval: 0,
+    maxKeyframes: 100,
+    maxFeatures: 500,
+    minFeatureTracked: 10,
+    minObservations: 2,
+    maxReprojectionError: 5,
+    useIMU: false,
+    imuFrequency: 100,
+    accelerometerNoise: 0.01,
+    gyroscopeNoise: 0.001,
+    enableLoopClosure: true,
+    loopClosureMinInterval: 0,
+    loopClosureThreshold: 0.7,
+    enablePersistence: false,
+    autosaveInterval: 30000,
+    maxMapSize: 50,
+    maxMappingTime: 10000,
+    localMappingThreads: 0,
+  };
+}
+
+function loopGap(map: SLAMMapManager): number {
+  return map.getKeyframe(0)!.pose.position.distanceTo(map.getKeyframe(9)!.pose.position);
+}
+
+describe('Loop closing jobs', () => {
+  it('should round-trip a map snapshot through typed arrays', () => {
+    const map = createLoopScene();
+    map.refreshCovisibility(0);
+    const snapshot = decodeLoopClosingJob(encodeLoopClosingJob(map, 9, config));
+
+    expect(snapshot.getAllKeyframes().map(kf => kf.id)).toEqual(map.getAllKeyframes().map(kf => kf.id));
+    for (const keyframe of map.getAllKeyframes()) {
+      const copy = snapshot.getKeyframe(keyframe.id)!;
+      expect(copy.timestamp).toBe(keyframe.timestamp);
+      expect(copy.pose.position.equals(keyframe.pose.position)).toBe(true);
+      expect(copy.pose.rotation.equals(keyframe.pose.rotation)).toBe(true);
+      expect(copy.features.map(f => f.mapPointId)).toEqual(keyframe.features.map(f => f.mapPointId));
+      expect(copy.features.map(f => Array.from(f.descriptor))).toEqual(
+        keyframe.features.map(f => Array.from(f.descriptor))
+      );
+      expect(snapshot.getCovisibleKeyframes(keyframe.id)).toEqual(map.getCovisibleKeyframes(keyframe.id));
+    }
+    for (const mapPoint of map.getAllMapPoints()) {
+      const copy = snapshot.getMapPoint(mapPoint.id)!;
+      expect(copy.position.equals(mapPoint.position)).toBe(true);
+      expect(copy.observations).toEqual(mapPoint.observations);
+      expect(copy.trackingState).toBe(mapPoint.trackingState);
+    }
+
+    // Culling alone needs no keyframes
+    const cullOnly = encodeLoopClosingJob(map, null, config);
+    expect(cullOnly.keyframes.length).toBe(0);
+    expect(cullOnly.points.length).toBeGreaterThan(0);
+  });
+
+  it('should cull only points that are still bad when merged', () => {
+    const map = createLoopScene();
+    const [revived, culled] = map.getKeyframe(0)!.mapPoints;
+    map.updateMapPoint(revived, { trackingState: 'bad' });
+    map.updateMapPoint(culled, { observations: [] });
+
+    const delta = runLoopClosingJob(encodeLoopClosingJob(map, null, config));
+    expect(Array.from(delta.culled).sort()).toEqual([revived, culled].sort());
+    expect(delta.loop).toBeNull();
+
+    // Re-observed while the job ran
+    map.updateMapPoint(revived, { trackingState: 'good' });
+    const result = applyLoopClosingDelta(map, delta);
+
+    expect(result.numCulled).toBe(1);
+    expect(result.correction).toBeNull();
+    expect(map.getMapPoint(revived)).toBeDefined();
+    expect(map.getMapPoint(culled)).toBeUndefined();
+  });
+
+  it('should detect and correct a loop without touching the map until merged', () => {
+    const map = createLoopScene();
+    const gap = loopGap(map);
+    const job = encodeLoopClosingJob(map, 9, config);
+
+    const delta = runLoopClosingJob(job);
+    expect(delta.loop).not.toBeNull();
+    expect(delta.loop!.loopKeyframeId).toBe(0);
+    expect(delta.loop!.inliers).toBe(NUM_LANDMARKS);
+    expect(loopGap(map)).toBe(gap);
+
+    const anchor = map.getKeyframe(9)!.pose.position.clone();
+    const result = applyLoopClosingDelta(map, delta);
+
+    expect(result.correction!.queryKeyframeId).toBe(9);
+    expect(result.correction!.corrections.size).toBe(10);
+    expect(result.correction!.numMapPointsCorrected).toBeGreaterThan(0);
+    expect(loopGap(map)).toBeLessThan(gap * 0.1);
+    expect(map.getKeyframe(9)!.pose.position.distanceTo(anchor)).toBeLessThan(1e-9);
+  });
+
+  it('should not overwrite keyframes and points changed while the job ran', () => {
+    const map = createLoopScene();
+    const delta = runLoopClosingJob(encodeLoopClosingJob(map, 9, config));
+
+    const moved = new Vector3(5, 5, 5);
+    map.updateKeyframePose(4, moved, Quaternion.identity());
+    const pointId = map.getKeyframe(0)!.mapPoints[0];
+    map.updateMapPoint(pointId, { position: moved });
+
+    const result = applyLoopClosingDelta(map, delta);
+
+    expect(map.getKeyframe(4)!.pose.position.equals(moved)).toBe(true);
+    expect(map.getMapPoint(pointId)!.position.equals(moved)).toBe(true);
+    expect(result.correction!.corrections.has(4)).toBe(false);
+    expect(result.correction!.corrections.size).toBe(9);
+  });
+
+  it('should run loop closing jobs on the worker pool', async () => {
+    const map = createLoopScene();
+    const pool = new LocalMappingWorkerPool({ threads: 0 });
+    const job = encodeLoopClosingJob(map, 9, config);
+
+    const pending = pool.submit(job);
+    expect(pool.getPendingCount()).toBe(1);
+
+    const result = applyLoopClosingDelta(map, await pending);
+    expect(result.correction).not.toBeNull();
+    expect(pool.getPendingCount()).toBe(0);
+  });
+});
+
+describe('SLAMMapper loop closing', () => {
+  it('should close loops after tracking returns', async () => {
+    const poses = createTrajectory();
+    const { local, descriptors, features } = createLandmarks();
+    const map = new SLAMMapManager('loop-closing-test');
+    poses.slice(0, 9).forEach((pose, i) => {
+      addKeyframe(map, pose, i * 1000, i === 0 ? features.map(f => ({ ...f })) : []);
+    });
+    observeLandmarks(map, 0, poses[0], local);
+
+    const mapper = new SLAMMapper(map, createConfig(), intrinsics);
+    mapper.reset();
+    const closed: LoopClosureCorrection[] = [];
+    mapper.on('slam:loop-closed', correction => closed.push(correction));
+
+    const pose = poses[9];
+    const keyframe = mapper.tryCreateKeyframe({
+      timestamp: 9000,
+      pose: {
+        position: pose.translation,
+        rotation: pose.rotation,
+        velocity: new Vector3(0, 0, 0),
+        angularVelocity: new Vector3(0, 0, 0),
+        timestamp: 9000,
+      },
+      keypoints: features.map(f => ({ x: f.x, y: f.y })),
+      descriptors: new Uint32Array(descriptors.buffer),
+      numTrackedFeatures: NUM_LANDMARKS,
+    })!;
+    observeLandmarks(map, keyframe.id, pose, local);
+
+    const gap = loopGap(map);
+    expect(closed.length).toBe(0);
+
+    await mapper.flushLocalMapping();
+
+    expect(closed.length).toBe(1);
+    expect(closed[0].queryKeyframeId).toBe(keyframe.id);
+    expect(closed[0].loopKeyframeId).toBe(0);
+    expect(loopGap(map)).toBeLessThan(gap * 0.1);
+    expect(mapper.isMappingBusy()).toBe(false);
+  });
+});
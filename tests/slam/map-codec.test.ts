@@ -0,0 +1,199 @@
+/**
+ * Map Codec Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { encodeMap, decodeMap, crc32, readMapHeader } from '../../src/core/slam/map-codec';
+import { MapStorage } from '../../src/core/slam/map-storage';
+import { SLAMMapManager } from '../../src/core/slam/slam-map';
+import type { CameraIntrinsics, KeyframeFeature, SerializedMap } from '../../src/core/slam/types';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics: CameraIntrinsics = { fx: 520, fy: 515, cx: 318, cy: 242 };
+
+/**
+ * Map with keyframes observing shared points plus unmatched features
+ */
+function createMap(): SerializedMap {
+  const random = createRandom(21);
+  const map = new SLAMMapManager('Codec test');
+
+  const pointIds = Array.from({ length: 40 }, () =>
+    map.addMapPoint({
+      position: new Vector3(random() * 4 - 2, random() * 2 - 1, 3 + random() * 3),
+      descriptor: Uint8Array.from({ length: 32 }, () => Math.floor(random() * 256)),
+      observations: [0, 1, 2],
+      normal: new Vector3(0, 0, -1),
+      minDistance: 0.5,
+      maxDistance: 8,
+      trackingState: random() > 0.2 ? 'good' : 'tentative',
+      createdAt: 0,
+    }).id
+  );
+
+  for (let i = 0; i < 3; i++) {
+    const features: KeyframeFeature[] = Array.from({ length: 60 }, (_, j) => ({
+      x: random() * 640,
+      y: random() * 480,
+      octave: j % 4,
+      angle: random() * Math.PI,
+      descriptor: Uint8Array.from({ length: 32 }, () => Math.floor(random() * 256)),
+      mapPointId: j < pointIds.length ? pointIds[j] : null,
+    }));
+
+    map.addKeyframe({
+      timestamp: 1000 + i * 33,
+      pose: {
+        position: new Vector3(i * 0.1, 0.02 * i, 0),
+        rotation: Quaternion.fromAxisAngle(new Vector3(0, 1, 0), i * 0.05),
+        transform: Matrix4.identity(),
+        inverse: Matrix4.identity(),
+      },
+      features,
+      covisibleKeyframes: [],
+      mapPoints: pointIds,
+      intrinsics,
+    });
+  }
+
+  return map.serialize();
+}
+
+/**
+ * In-memory stand-in for window.localStorage
+ */
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+describe('Map codec', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should round-trip a map', async () => {
+    const map = createMap();
+    const decoded = await decodeMap(await encodeMap(map));
+
+    expect(decoded.map.id).toBe(map.map.id);
+    expect(decoded.map.name).toBe(map.map.name);
+    expect(decoded.map.metadata).toEqual(map.map.metadata);
+    expect(decoded.map.mapPoints).toEqual(map.map.mapPoints);
+    expect(decoded.checksum).toMatch(/^[0-9a-f]{8}$/);
+
+    decoded.map.keyframes.forEach((kf, i) => {
+      const original = map.map.keyframes[i];
+      expect(kf.id).toBe(original.id);
+      expect(kf.timestamp).toBe(original.timestamp);
+      expect(kf.pose).toEqual(original.pose);
+      expect(kf.intrinsics).toEqual(intrinsics);
+      expect(kf.mapPoints).toEqual(original.mapPoints);
+      expect(kf.covisibleKeyframes).toEqual(original.covisibleKeyframes);
+
+      kf.features.forEach((feature, j) => {
+        const expected = original.features[j];
+        expect(feature.x).toBeCloseTo(expected.x, 3);
+        expect(feature.y).toBeCloseTo(expected.y, 3);
+        expect(feature.octave).toBe(expected.octave);
+        expect(feature.descriptor).toEqual(expected.descriptor);
+        expect(feature.mapPointId).toBe(expected.mapPointId);
+      });
+    });
+  });
+
+  it('should be much smaller than JSON', async () => {
+    const map = createMap();
+    const json = new TextEncoder().encode(JSON.stringify(map)).length;
+
+    const compressed = await encodeMap(map);
+    const uncompressed = await encodeMap(map, { compress: false });
+
+    expect(readMapHeader(compressed)!.compressed).toBe(true);
+    expect(readMapHeader(uncompressed)!.compressed).toBe(false);
+    expect(uncompressed.length).toBeLessThan(json / 3);
+  });
+
+  it('should detect corrupted data', async () => {
+    const bytes = await encodeMap(createMap(), { compress: false });
+    bytes[bytes.length - 100] ^= 0xff;
+
+    await expect(decodeMap(bytes)).rejects.toThrow('checksum');
+    await expect(decodeMap(new Uint8Array(64))).rejects.toThrow('header');
+  });
+});
+
+describe('MapStorage', () => {
+  let originalLocalStorage: unknown;
+
+  beforeEach(() => {
+    originalLocalStorage = (globalThis as any).localStorage;
+    (globalThis as any).localStorage = new MemoryStorage();
+  });
+
+  afterEach(() => {
+    (globalThis as any).localStorage = originalLocalStorage;
+  });
+
+  it('should store maps in the binary format', async () => {
+    const storage = new MapStorage({ preferIndexedDB: false });
+    const map = createMap();
+
+    const size = await storage.save('map-1', 'Binary', map);
+    const [stored] = await storage.list();
+
+    expect(stored.version).toBe('2.0');
+    expect(stored.size).toBe(size);
+    expect((await storage.load('map-1'))!.map.mapPoints).toEqual(map.map.mapPoints);
+  });
+
+  it('should migrate legacy JSON maps on load', async () => {
+    const storage = new MapStorage({ preferIndexedDB: false });
+    const map = createMap();
+    const json = JSON.stringify(map);
+
+    localStorage.setItem(
+      'babylonjs-ar-map-legacy',
+      JSON.stringify({
+        id: 'legacy',
+        name: 'Legacy',
+        timestamp: 0,
+        version: '1.0',
+        size: json.length,
+        compressed: false,
+        data: map,
+      })
+    );
+
+    const loaded = await storage.load('legacy');
+    expect(loaded!.map.keyframes.length).toBe(3);
+    expect(loaded!.map.mapPoints).toEqual(map.map.mapPoints);
+
+    const [migrated] = await storage.list();
+    expect(migrated.version).toBe('2.0');
+    expect(migrated.size).toBeLessThan(json.length);
+    expect((await storage.load('legacy'))!.map.mapPoints).toEqual(map.map.mapPoints);
+  });
+});
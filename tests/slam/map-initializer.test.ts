@@ -0,0 +1,198 @@
+/**
+ * Map Initializer Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { MapInitializer, type Point2D } from '../../src/core/slam/map-initializer';
+import type { CameraIntrinsics, KeyframeFeature } from '../../src/core/slam/types';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics: CameraIntrinsics = { fx: 500, fy: 500, cx: 320, cy: 240 };
+
+function project(point: Vector3, position: Vector3, rotation: Quaternion): Point2D {
+  const pc = rotation.conjugate().rotateVector(point.subtract(position));
+  return {
+    x: (intrinsics.fx * pc.x) / pc.z + intrinsics.cx,
+    y: (intrinsics.fy * pc.y) / pc.z + intrinsics.cy,
+  };
+}
+
+// Second camera: sideways baseline with a slight rotation
+const position = new Vector3(0.3, 0.05, 0.02);
+const rotation = Quaternion.fromAxisAngle(new Vector3(0, 1, 0), -0.05);
+
+function createScene(planar: boolean, count: number = 150) {
+  const random = createRandom(planar ? 11 : 5);
+  const points = Array.from({ length: count }, () =>
+    planar
+      ? new Vector3(random() * 3 - 1.5, random() * 2 - 1, 4)
+      : new Vector3(random() * 3 - 1.5, random() * 2 - 1, 3 + random() * 3)
+  );
+
+  const noise = () => (random() - 0.5) * 0.5;
+  const reference = points.map(p => {
+    const uv = project(p, new Vector3(0, 0, 0), Quaternion.identity());
+    return { x: uv.x + noise(), y: uv.y + noise() };
+  });
+  const current = points.map(p => {
+    const uv = project(p, position, rotation);
+    return { x: uv.x + noise(), y: uv.y + noise() };
+  });
+
+  return { points, reference, current };
+}
+
+/**
+ * Random descriptor that survives cross-checked matching
+ */
+function createDescriptor(random: () => number): Uint8Array {
+  return Uint8Array.from({ length: 32 }, () => Math.floor(random() * 256));
+}
+
+function toFeatures(points: Point2D[], descriptors: Uint8Array[]): KeyframeFeature[] {
+  return points.map((p, i) => ({
+    x: p.x,
+    y: p.y,
+    octave: 0,
+    angle: 0,
+    descriptor: descriptors[i],
+    mapPointId: null,
+  }));
+}
+
+describe('MapInitializer', () => {
+  it('should select the fundamental matrix for a general scene', () => {
+    const { points, reference, current } = createScene(false);
+    const initializer = new MapInitializer(intrinsics);
+
+    const result = initializer.initialize(reference, current);
+
+    expect(result).not.toBeNull();
+    expect(result!.model).toBe('fundamental');
+    expect(result!.scoreRatio).toBeLessThan(0.45);
+    expect(result!.numTriangulated).toBeGreaterThan(130);
+    expect(result!.parallax).toBeGreaterThan(1);
+
+    // Rotation is recovered exactly; translation up to scale
+    expect(result!.rotation.toRotationVector().distanceTo(rotation.toRotationVector())).toBeLessThan(0.01);
+    expect(result!.position.normalize().dot(position.normalize())).toBeGreaterThan(0.99);
+
+    // Structure matches ground truth after removing the scale
+    const scale = result!.position.length() / position.length();
+    let maxError = 0;
+    result!.points.forEach((p, i) => {
+      if (!p) {return;}
+      maxError = Math.max(maxError, p.multiply(1 / scale).distanceTo(points[i]) / points[i].z);
+    });
+    expect(maxError).toBeLessThan(0.05);
+  });
+
+  it('should select the homography for a planar scene', () => {
+    const { reference, current } = createScene(true);
+    const initializer = new MapInitializer(intrinsics);
+
+    const result = initializer.initialize(reference, current);
+
+    expect(result).not.toBeNull();
+    expect(result!.model).toBe('homography');
+    expect(result!.scoreRatio).toBeGreaterThan(0.45);
+    expect(result!.rotation.toRotationVector().distanceTo(rotation.toRotationVector())).toBeLessThan(0.01);
+    expect(result!.position.normalize().dot(position.normalize())).toBeGreaterThan(0.99);
+  });
+
+  it('should normalize the map to the configured median depth', () => {
+    const { reference, current } = createScene(false);
+    const initializer = new MapInitializer(intrinsics, { medianDepth: 2 });
+
+    const result = initializer.initialize(reference, current)!;
+    const depths = result.points
+      .filter((p): p is Vector3 => p !== null)
+      .map(p => p.z)
+      .sort((a, b) => a - b);
+
+    expect(depths[Math.floor(depths.length / 2)]).toBeCloseTo(2, 6);
+  });
+
+  it('should triangulate points in front of both cameras only', () => {
+    const { reference, current } = createScene(false);
+    const result = new MapInitializer(intrinsics).initialize(reference, current)!;
+
+    for (const p of result.points) {
+      if (!p) {continue;}
+      expect(p.z).toBeGreaterThan(0);
+      expect(result.rotation.conjugate().rotateVector(p.subtract(result.position)).z).toBeGreaterThan(0);
+    }
+  });
+
+  it('should fall back to the only model found when it has no score', () => {
+    const { reference, current } = createScene(true);
+    const initializer = new MapInitializer(intrinsics);
+
+    // Homography found with zero score, no fundamental matrix
+    const internals = initializer as unknown as {
+      findHomography: (...args: unknown[]) => { score: number } | null;
+      findFundamental: () => null;
+    };
+    const findHomography = internals.findHomography.bind(initializer);
+    internals.findHomography = (...args) => {
+      const model = findHomography(...args);
+      return model && { ...model, score: 0 };
+    };
+    internals.findFundamental = () => null;
+
+    const result = initializer.initialize(reference, current);
+
+    expect(result).not.toBeNull();
+    expect(result!.model).toBe('homography');
+    expect(result!.scoreRatio).toBe(1);
+  });
+
+  it('should refuse to initialize without parallax', () => {
+    const { reference } = createScene(false);
+    const initializer = new MapInitializer(intrinsics);
+
+    // Pure rotation: no baseline
+    const rotated = reference.map(p => ({ x: p.x + 15, y: p.y }));
+    expect(initializer.initialize(reference, rotated)).toBeNull();
+  });
+
+  it('should collect frames until there is enough motion', () => {
+    const random = createRandom(3);
+    const { reference, current } = createScene(false);
+    const descriptors = reference.map(() => createDescriptor(random));
+
+    // Intermediate frame barely moved
+    const still = reference.map(p => ({ x: p.x + 1, y: p.y }));
+
+    const initializer = new MapInitializer(intrinsics);
+    expect(initializer.addFrame({ timestamp: 0, features: toFeatures(reference, descriptors) })).toBeNull();
+    expect(initializer.hasReference()).toBe(true);
+    expect(initializer.addFrame({ timestamp: 33, features: toFeatures(still, descriptors) })).toBeNull();
+    expect(initializer.hasReference()).toBe(true);
+
+    const result = initializer.addFrame({ timestamp: 66, features: toFeatures(current, descriptors) });
+
+    expect(result).not.toBeNull();
+    expect(result!.reference.timestamp).toBe(0);
+    expect(result!.current.timestamp).toBe(66);
+    expect(result!.matches.length).toBe(reference.length);
+    expect(result!.points.length).toBe(result!.matches.length);
+    expect(initializer.hasReference()).toBe(false);
+  });
+
+  it('should replace the reference when matching fails', () => {
+    const random = createRandom(9);
+    const { reference } = createScene(false);
+    const initializer = new MapInitializer(intrinsics);
+
+    initializer.addFrame({
+      timestamp: 0,
+      features: toFeatures(reference, reference.map(() => createDescriptor(random))),
+    });
+    const unrelated = toFeatures(reference, reference.map(() => createDescriptor(random)));
+    expect(initializer.addFrame({ timestamp: 33, features: unrelated })).toBeNull();
+    expect(initializer.hasReference()).toBe(true);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Map Merger Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { MapPersistenceManager } from '../../src/core/slam/map-persistence-manager';
+import { SLAMMapManager } from '../../src/core/slam/slam-map';
+import type { CameraIntrinsics, KeyframeFeature, SLAMConfig } from '../../src/core/slam/types';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { Sim3 } from '../../src/core/math/sim3';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics: CameraIntrinsics = { fx: 500, fy: 500, cx: 320, cy: 240 };
+
+interface Pose {
+  position: Vector3;
+  rotation: Quaternion;
+}
+
+interface Landmark {
+  position: Vector3;
+  descriptor: Uint8Array;
+}
+
+/**
+ * Map whose keyframes all observe every landmark
+ */
+function createMap(name: string, poses: Pose[], landmarks: Landmark[]): SLAMMapManager {
+  const map = new SLAMMapManager(name);
+
+  const pointIds = landmarks.map(landmark =>
+    map.addMapPoint({
+      position: landmark.position,
+      descriptor: landmark.descriptor,
+      observations: poses.map((_, i) => i),
+      normal: new Vector3(0, 0, -1),
+      minDistance: 0.1,
+      maxDistance: 20,
+      trackingState: 'good',
+      createdAt: 0,
+    }).id
+  );
+
+  poses.forEach((pose, i) => {
+    const features: KeyframeFeature[] = landmarks.map((landmark, j) => {
+      const pc = pose.rotation.conjugate().rotateVector(landmark.position.subtract(pose.position));
+      return {
+        x: (intrinsics.fx * pc.x) / pc.z + intrinsics.cx,
+        y: (intrinsics.fy * pc.y) / pc.z + intrinsics.cy,
+        octave: 0,
+        angle: 0,
+        descriptor: landmark.descriptor,
+        mapPointId: pointIds[j],
+      };
+    });
+
+    map.addKeyframe({
+      timestamp: i * 100,
+      pose: {
+        position: pose.position,
+        rotation: pose.rotation,
+        transform: Matrix4.identity(),
+        inverse: Matrix4.identity(),
+      },
+      features,
+      covisibleKeyframes: [],
+      mapPoints: pointIds,
+      intrinsics,
+    });
+  });
+
+  return map;
+}
+
+// Live frame -> stored frame
+const liveToStored = new Sim3(
+  Quaternion.fromAxisAngle(new Vector3(0, 1, 0), 0.3),
+  new Vector3(1, 0, -0.5),
+  2
+);
+const storedToLive = liveToStored.inverse();
+
+function toLive(pose: Pose): Pose {
+  return {
+    position: storedToLive.transformPoint(pose.position),
+    rotation: storedToLive.rotation.multiply(pose.rotation).normalize(),
+  };
+}
+
+/**
+ * Stored session and a live session revisiting part of it in its own frame
+ */
+function createSessions(seed: number) {
+  const random = createRandom(seed);
+  const descriptor = () => Uint8Array.from({ length: 32 }, () => Math.floor(random() * 256));
+  const landmarks: Landmark[] = Array.from({ length: 60 }, () => ({
+    position: new Vector3(random() * 4 - 2, random() * 3 - 1.5, 6 + random() * 4),
+    descriptor: descriptor(),
+  }));
+
+  const storedPoses: Pose[] = [0, 1, 2].map(i => ({
+    position: new Vector3(i * 0.4, 0, 0),
+    rotation: Quaternion.fromAxisAngle(new Vector3(0, 1, 0), -i * 0.03),
+  }));
+  const stored = createMap('Stored session', storedPoses, landmarks);
+
+  // Live session sees 40 stored landmarks plus 5 new ones
+  const livePosesInStored: Pose[] = [0, 1].map(i => ({
+    position: new Vector3(0.2 + i * 0.3, 0.1, 0.2),
+    rotation: Quaternion.fromAxisAngle(new Vector3(0, 1, 0), 0.02 * i),
+  }));
+  const newLandmarks: Landmark[] = Array.from({ length: 5 }, () => ({
+    position: new Vector3(random() * 4 - 2, random() * 3 - 1.5, 6 + random() * 4),
+    descriptor: descriptor(),
+  }));
+  const live = createMap(
+    'Live session',
+    livePosesInStored.map(toLive),
+    [...landmarks.slice(0, 40), ...newLandmarks].map(l => ({
+      ...l,
+      position: storedToLive.transformPoint(l.position),
+    }))
+  );
+
+  return { stored, live, livePosesInStored };
+}
+
+function createConfig(): Required<SLAMConfig> {
+  return {
+    minKeyframeTranslation: 0.1,
+    minKeyframeRotation: 0.2,
+    minKeyframeInterval: 0,
+    maxKeyframes: 100,
+    maxFeatures: 500,
+    minFeatureTracked: 10,
+    minObservations: 2,
+    maxReprojectionError: 5,
+    useIMU: false,
+    imuFrequency: 100,
+    accelerometerNoise: 0.01,
+    gyroscopeNoise: 0.001,
+    enableLoopClosure: false,
+    loopClosureMinInterval: 30,
+    loopClosureThreshold: 0.7,
+    enablePersistence: true,
+    autosaveInterval: 0,
+    maxMapSize: 10 * 1024 * 1024,
+    maxMappingTime: 10000,
+    localMappingThreads: 0,
+  };
+}
+
+describe('MapPersistenceManager map merging', () => {
+  it('should relocalize against a stored map and align the live map to it', () => {
+    const { stored, live, livePosesInStored } = createSessions(3);
+    const persistence = new MapPersistenceManager(live, createConfig());
+
+    persistence.beginMerge(stored, 'stored-map');
+    expect(persistence.hasPendingMerge()).toBe(true);
+
+    const result = persistence.tryMergeMap(live.getKeyframe(1)!);
+
+    expect(result).not.toBeNull();
+    expect(result!.queryKeyframeId).toBe(1);
+    expect(result!.inliers).toBe(40);
+    expect(result!.transform.scale).toBeCloseTo(2, 6);
+    expect(persistence.hasPendingMerge()).toBe(false);
+    expect(persistence.getCurrentMapId()).toBe('stored-map');
+
+    // Live keyframes now live in the stored frame
+    livePosesInStored.forEach((pose, i) => {
+      const keyframe = live.getKeyframe(i)!;
+      expect(keyframe.pose.position.distanceTo(pose.position)).toBeLessThan(1e-6);
+      expect(keyframe.pose.rotation.toRotationVector().distanceTo(pose.rotation.toRotationVector())).toBeLessThan(1e-6);
+    });
+  });
+
+  it('should fuse duplicate map points and union the covisibility graphs', () => {
+    const { stored, live } = createSessions(3);
+    const persistence = new MapPersistenceManager(live, createConfig());
+
+    persistence.beginMerge(stored);
+    const result = persistence.tryMergeMap(live.getKeyframe(0)!)!;
+
+    expect(result.numKeyframesMerged).toBe(3);
+    expect(result.numMapPointsMerged).toBe(60);
+    expect(result.numMapPointsFused).toBe(40);
+    expect(live.getAllKeyframes().length).toBe(5);
+    expect(live.getAllMapPoints().length).toBe(65);
+
+    // Imported keyframes come first so the live window stays recent
+    expect(live.getRecentKeyframes(2).map(kf => kf.id)).toEqual([0, 1]);
+
+    // Live features now reference the stored points, which record both sessions
+    const importedKeyframeIds = Array.from(result.keyframeIds.values());
+    const liveKeyframe = live.getKeyframe(0)!;
+    for (const feature of liveKeyframe.features.slice(0, 40)) {
+      const mapPoint = live.getMapPoint(feature.mapPointId!)!;
+      expect(mapPoint.observations).toEqual(expect.arrayContaining([0, 1, ...importedKeyframeIds]));
+    }
+
+    // Stored covisibility is kept and the sessions are connected
+    const storedCovisible = live.getCovisibleKeyframes(result.keyframeIds.get(0)!);
+    expect(storedCovisible.has(result.keyframeIds.get(1)!)).toBe(true);
+    expect(storedCovisible.has(0)).toBe(true);
+    expect(live.getCovisibleKeyframes(1).has(result.keyframeIds.get(2)!)).toBe(true);
+  });
+
+  it('should keep waiting when the live keyframe does not see the stored map', () => {
+    const { stored } = createSessions(3);
+    const { live } = createSessions(8);
+    const persistence = new MapPersistenceManager(live, createConfig());
+
+    persistence.beginMerge(stored);
+    const before = live.getKeyframe(0)!.pose.position.clone();
+
+    expect(persistence.tryMergeMap(live.getKeyframe(0)!)).toBeNull();
+    expect(persistence.hasPendingMerge()).toBe(true);
+    expect(live.getAllKeyframes().length).toBe(2);
+    expect(live.getKeyframe(0)!.pose.position.equals(before)).toBe(true);
+
+    persistence.cancelMerge();
+    expect(persistence.hasPendingMerge()).toBe(false);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Map Storage Backend Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, readdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  MemoryMapBackend,
+  FileSystemMapBackend,
+  HTTPMapBackend,
+  type MapStorageBackend,
+} from '../../src/core/slam/map-storage-backends';
+import { MapStorage, type StoredMap } from '../../src/core/slam/map-storage';
+import { MapPersistenceManager } from '../../src/core/slam/map-persistence-manager';
+import { SLAMMapManager } from '../../src/core/slam/slam-map';
+import type { SLAMConfig } from '../../src/core/slam/types';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+
+function createMap(): SLAMMapManager {
+  const map = new SLAMMapManager('Backend test');
+
+  const point = map.addMapPoint({
+    position: new Vector3(0.5, -0.2, 4),
+    descriptor: new Uint8Array(32).fill(7),
+    observations: [0],
+    normal: new Vector3(0, 0, -1),
+    minDistance: 0.5,
+    maxDistance: 8,
+    trackingState: 'good',
+    createdAt: 0,
+  });
+
+  map.addKeyframe({
+    timestamp: 1000,
+    pose: {
+      position: new Vector3(0.1, 0, 0),
+      rotation: Quaternion.identity(),
+      transform: Matrix4.identity(),
+      inverse: Matrix4.identity(),
+    },
+    features: [
+      { x: 380, y: 215, octave: 0, angle: 0, descriptor: point.descriptor, mapPointId: point.id },
+    ],
+    covisibleKeyframes: [],
+    mapPoints: [point.id],
+    intrinsics: { fx: 500, fy: 500, cx: 320, cy: 240 },
+  });
+
+  return map;
+}
+
+function createStoredMap(id: string): StoredMap {
+  return {
+    id,
+    name: `Map ${id}`,
+    timestamp: 1234,
+    version: '2.0',
+    size: 4,
+    compressed: true,
+    data: new Uint8Array([1, 2, 3, 4]),
+  };
+}
+
+function createConfig(): Required<SLAMConfig> {
+  return {
+    minKeyframeTranslation: 0.1,
+    minKeyframeRotation: 0.2,
+    minKeyframeInterval: 0,
+    maxKeyframes: 100,
+    maxFeatures: 500,
+    minFeatureTracked: 10,
+    minObservations: 2,
+    maxReprojectionError: 5,
+    useIMU: false,
+    imuFrequency: 100,
+    accelerometerNoise: 0.01,
+    gyroscopeNoise: 0.001,
+    enableLoopClosure: false,
+    loopClosureMinInterval: 30,
+    loopClosureThreshold: 0.7,
+    enablePersistence: true,
+    autosaveInterval: 0,
+    maxMapSize: 10 * 1024 * 1024,
+    maxMappingTime: 10000,
+    localMappingThreads: 0,
+  };
+}
+
+/**
+ * In-memory map server implementing the HTTP backend protocol
+ */
+function createMapServer() {
+  const maps = new Map<string, { body: Uint8Array; headers: Headers }>();
+  const requests: string[] = [];
+
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init?.method ?? 'GET';
+    const headers = new Headers(init?.headers);
+    const id = decodeURIComponent(url.pathname.replace(/^\/maps\/?/, ''));
+    requests.push(`${method} ${url.pathname} ${headers.get('Authorization')}`);
+
+    if (!id) {
+      const list = Array.from(maps, ([mapId, map]) => ({
+        id: mapId,
+        name: decodeURIComponent(map.headers.get('X-Map-Name')!),
+        timestamp: Number(map.headers.get('X-Map-Timestamp')),
+        version: map.headers.get('X-Map-Version'),
+        size: map.body.length,
+        compressed: map.headers.get('X-Map-Compressed') === 'true',
+      }));
+      return Response.json(list);
+    }
+
+    switch (method) {
+      case 'PUT':
+        maps.set(id, { body: new Uint8Array(init!.body as Uint8Array), headers });
+        return new Response(null, { status: 201 });
+      case 'GET': {
+        const map = maps.get(id);
+        return map
+          ? new Response(map.body, { headers: map.headers })
+          : new Response(null, { status: 404 });
+      }
+      case 'DELETE':
+        return new Response(null, { status: maps.delete(id) ? 204 : 404 });
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+
+  return { fetch: fetch as typeof globalThis.fetch, maps, requests };
+}
+
+/**
+ * Shared backend contract
+ */
+async function exerciseBackend(backend: MapStorageBackend): Promise<void> {
+  await backend.initialize();
+
+  await backend.put(createStoredMap('a'));
+  await backend.put(createStoredMap('b/c'));
+
+  const loaded = await backend.get('b/c');
+  expect(loaded).toEqual(createStoredMap('b/c'));
+  expect(await backend.get('missing')).toBeNull();
+
+  const listed = (await backend.list()).sort((x, y) => x.id.localeCompare(y.id));
+  expect(listed.map(map => map.id)).toEqual(['a', 'b/c']);
+  expect(listed[0]).not.toHaveProperty('data');
+  expect(listed[0].name).toBe('Map a');
+  expect(listed[0].size).toBe(4);
+
+  await backend.delete('a');
+  expect(await backend.get('a')).toBeNull();
+
+  await backend.clear();
+  expect(await backend.list()).toEqual([]);
+}
+
+describe('MemoryMapBackend', () => {
+  it('should implement the backend contract', async () => {
+    await exerciseBackend(new MemoryMapBackend());
+  });
+
+  it('should not share data with callers', async () => {
+    const backend = new MemoryMapBackend();
+    const map = createStoredMap('a');
+    await backend.put(map);
+
+    (map.data as Uint8Array)[0] = 99;
+    expect((await backend.get('a'))!.data).toEqual(new Uint8Array([1, 2, 3, 4]));
+  });
+});
+
+describe('FileSystemMapBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'ar-maps-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should implement the backend contract', async () => {
+    await exerciseBackend(new FileSystemMapBackend({ directory: join(directory, 'maps') }));
+  });
+
+  it('should keep maps across backend instances', async () => {
+    const writer = new MapStorage({ backend: new FileSystemMapBackend({ directory }) });
+    await writer.initialize();
+    await writer.save('session', 'Session', createMap().serialize());
+
+    expect((await readdir(directory)).sort()).toEqual(['session.map', 'session.map.json']);
+
+    const reader = new MapStorage({ backend: new FileSystemMapBackend({ directory }) });
+    await reader.initialize();
+    const loaded = await reader.load('session');
+
+    expect(loaded!.map.keyframes.length).toBe(1);
+    expect((await reader.getStats()).storageType).toBe('filesystem');
+  });
+
+  it('should only list its own metadata files', async () => {
+    await writeFile(join(directory, 'package.json'), '{"name":"other"}');
+    await writeFile(join(directory, 'notes.json'), 'not json');
+
+    const backend = new FileSystemMapBackend({ directory });
+    await backend.initialize();
+    await backend.put(createStoredMap('a'));
+
+    expect((await backend.list()).map(info => info.id)).toEqual(['a']);
+  });
+
+  it('should reject non-binary maps', async () => {
+    const backend = new FileSystemMapBackend({ directory });
+    await backend.initialize();
+
+    await expect(backend.put({ ...createStoredMap('a'), data: 'legacy' })).rejects.toThrow(
+      'binary'
+    );
+  });
+});
+
+describe('HTTPMapBackend', () => {
+  it('should implement the backend contract', async () => {
+    const server = createMapServer();
+    await exerciseBackend(
+      new HTTPMapBackend({ endpoint: 'https://maps.example.com/maps/', fetch: server.fetch })
+    );
+  });
+
+  it('should send configured headers and fail on server errors', async () => {
+    const server = createMapServer();
+    const backend = new HTTPMapBackend({
+      endpoint: 'https://maps.example.com/maps',
+      headers: { Authorization: 'Bearer token' },
+      fetch: server.fetch,
+    });
+
+    await backend.put(createStoredMap('a'));
+    expect(server.requests).toEqual(['PUT /maps/a Bearer token']);
+
+    const failing = new HTTPMapBackend({
+      endpoint: 'https://maps.example.com/maps',
+      fetch: (async () => new Response(null, { status: 500 })) as unknown as typeof fetch,
+    });
+    await expect(failing.get('a')).rejects.toThrow('(500)');
+  });
+
+  it('should share maps between devices through the server', async () => {
+    const server = createMapServer();
+    const endpoint = 'https://maps.example.com/maps';
+
+    const device1 = new MapPersistenceManager(
+      createMap(),
+      createConfig(),
+      new HTTPMapBackend({ endpoint, fetch: server.fetch })
+    );
+    await device1.initialize();
+    const id = await device1.saveMap('Shared');
+
+    const device2Map = new SLAMMapManager('Device 2');
+    const device2 = new MapPersistenceManager(
+      device2Map,
+      createConfig(),
+      new HTTPMapBackend({ endpoint, fetch: server.fetch })
+    );
+    await device2.initialize();
+
+    expect((await device2.listMaps()).map(map => map.name)).toEqual(['Shared']);
+    expect(await device2.loadMap(id)).not.toBeNull();
+
+    device1.destroy();
+    device2.destroy();
+  });
+});
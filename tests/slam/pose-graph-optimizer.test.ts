@@ -0,0 +1,283 @@
+/**
+ * Pose Graph Optimizer Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { PoseGraphOptimizer, type PoseGraphEdge } from '../../src/core/slam/pose-graph-optimizer';
+import { SLAMMapManager } from '../../src/core/slam/slam-map';
+import { Sim3 } from '../../src/core/math/sim3';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Matrix4 } from '../../src/core/math/matrix';
+
+/**
+ * Ground-truth camera poses on a closed circular trajectory
+ */
+function createCircle(count: number, radius: number = 2): Sim3[] {
+  const poses: Sim3[] = [];
+  for (let i = 0; i < count; i++) {
+    const angle = (i / count) * Math.PI * 2;
+    poses.push(
+      new Sim3(
+        Quaternion.fromAxisAngle(new Vector3(0, 1, 0), angle),
+        new Vector3(radius * Math.cos(angle), 0, radius * Math.sin(angle))
+      )
+    );
+  }
+  return poses;
+}
+
+/**
+ * Integrate relative motions with a small rotation and scale bias
+ */
+function addDrift(truth: Sim3[], yawBias: number, scaleBias: number): Sim3[] {
+  const drifted: Sim3[] = [truth[0].clone()];
+  const bias = new Sim3(Quaternion.fromAxisAngle(new Vector3(0, 1, 0), yawBias));
+
+  for (let i = 1; i < truth.length; i++) {
+    const relative = truth[i - 1].inverse().multiply(truth[i]);
+    relative.translation = relative.translation.multiply(scaleBias);
+    drifted.push(drifted[i - 1].multiply(relative).multiply(bias));
+  }
+  return drifted;
+}
+
+/**
+ * Map with one keyframe per pose and no map points
+ */
+function createMap(poses: Sim3[]): SLAMMapManager {
+  const map = new SLAMMapManager('test');
+  for (const pose of poses) {
+    map.addKeyframe({
+      timestamp: 0,
+      pose: {
+        position: pose.translation,
+        rotation: pose.rotation,
+        transform: Matrix4.identity(),
+        inverse: Matrix4.identity(),
+      },
+      features: [],
+      covisibleKeyframes: [],
+      mapPoints: [],
+      intrinsics: { fx: 500, fy: 500, cx: 320, cy: 240 },
+    });
+  }
+  return map;
+}
+
+describe('PoseGraphOptimizer', () => {
+  describe('optimize', () => {
+    it('should leave a consistent graph unchanged', () => {
+      const poses = createCircle(6);
+      const nodes = new Map(poses.map((p, i) => [i, p]));
+      const edges: PoseGraphEdge[] = [];
+      for (let i = 1; i < poses.length; i++) {
+        edges.push({
+          from: i - 1,
+          to: i,
+          measurement: poses[i - 1].inverse().multiply(poses[i]),
+          weight: 1,
+          type: 'spanning',
+        });
+      }
+
+      const optimizer = new PoseGraphOptimizer();
+      const result = optimizer.optimize({ nodes, edges, fixed: new Set([0]) });
+
+      expect(result.initialError).toBeCloseTo(0, 8);
+      for (let i = 0; i < poses.length; i++) {
+        expect(result.nodes.get(i)!.translation.distanceTo(poses[i].translation)).toBeLessThan(1e-6);
+      }
+    });
+
+    it('should distribute loop closure error along the trajectory', () => {
+      const truth = createCircle(12);
+      const drifted = addDrift(truth, 0.02, 1.05);
+      const n = truth.length;
+
+      const nodes = new Map(drifted.map((p, i) => [i, p]));
+      const edges: PoseGraphEdge[] = [];
+      for (let i = 1; i < n; i++) {
+        edges.push({
+          from: i - 1,
+          to: i,
+          measurement: drifted[i - 1].inverse().multiply(drifted[i]),
+          weight: 1,
+          type: 'spanning',
+        });
+      }
+
+      // Loop: last keyframe observed from the first one with true relative pose
+      edges.push({
+        from: 0,
+        to: n - 1,
+        measurement: truth[0].inverse().multiply(truth[n - 1]),
+        weight: 10,
+        type: 'loop',
+      });
+
+      const optimizer = new PoseGraphOptimizer();
+      const result = optimizer.optimize({ nodes, edges, fixed: new Set([0]) });
+
+      expect(result.finalError).toBeLessThan(result.initialError * 0.1);
+
+      const driftBefore = drifted[n - 1].translation.distanceTo(truth[n - 1].translation);
+      const driftAfter = result.nodes.get(n - 1)!.translation.distanceTo(truth[n - 1].translation);
+      expect(driftAfter).toBeLessThan(driftBefore * 0.2);
+
+      // Fixed node must not move
+      expect(result.nodes.get(0)!.translation.distanceTo(drifted[0].translation)).toBe(0);
+    });
+
+    it('should keep scale fixed when scale optimization is disabled', () => {
+      const truth = createCircle(8);
+      const drifted = addDrift(truth, 0.03, 1.0);
+      const nodes = new Map(drifted.map((p, i) => [i, p]));
+      const edges: PoseGraphEdge[] = [
+        {
+          from: 0,
+          to: 7,
+          measurement: truth[0].inverse().multiply(truth[7]),
+          weight: 10,
+          type: 'loop',
+        },
+      ];
+      for (let i = 1; i < 8; i++) {
+        edges.push({
+          from: i - 1,
+          to: i,
+          measurement: drifted[i - 1].inverse().multiply(drifted[i]),
+          weight: 1,
+          type: 'spanning',
+        });
+      }
+
+      const optimizer = new PoseGraphOptimizer({ optimizeScale: false });
+      const result = optimizer.optimize({ nodes, edges, fixed: new Set([0]) });
+
+      for (const pose of result.nodes.values()) {
+        expect(pose.scale).toBeCloseTo(1, 10);
+      }
+      expect(result.finalError).toBeLessThan(result.initialError);
+    });
+  });
+
+  describe('correctLoop', () => {
+    it('should correct keyframe poses and map points in the map', () => {
+      const truth = createCircle(10);
+      const drifted = addDrift(truth, 0.03, 1.0);
+      const map = new SLAMMapManager('test');
+
+      for (const pose of drifted) {
+        map.addKeyframe({
+          timestamp: 0,
+          pose: {
+            position: pose.translation,
+            rotation: pose.rotation,
+            transform: Matrix4.identity(),
+            inverse: Matrix4.identity(),
+          },
+          features: [],
+          covisibleKeyframes: [],
+          mapPoints: [],
+          intrinsics: { fx: 500, fy: 500, cx: 320, cy: 240 },
+        });
+      }
+
+      // Point observed by the last keyframe, 1m in front of it
+      const lastId = drifted.length - 1;
+      const local = new Vector3(0, 0, -1);
+      const mapPoint = map.addMapPoint({
+        position: drifted[lastId].transformPoint(local),
+        descriptor: new Uint8Array(32),
+        observations: [lastId],
+        normal: new Vector3(0, 0, 1),
+        minDistance: 0.1,
+        maxDistance: 10,
+        trackingState: 'good',
+        createdAt: 0,
+      });
+
+      const optimizer = new PoseGraphOptimizer({ optimizeScale: false });
+      const correction = optimizer.correctLoop(map, [
+        {
+          queryKeyframeId: lastId,
+          loopKeyframeId: 0,
+          relative: truth[0].inverse().multiply(truth[lastId]),
+        },
+      ]);
+
+      expect(correction).not.toBeNull();
+      expect(correction!.corrections.size).toBe(drifted.length);
+      expect(correction!.numMapPointsCorrected).toBe(1);
+
+      // The query keyframe anchors the gauge; the loop side moves to meet it
+      const corrected = map.getKeyframe(lastId)!;
+      expect(corrected.pose.position.distanceTo(drifted[lastId].translation)).toBeLessThan(1e-9);
+
+      const loopSide = map.getKeyframe(0)!;
+      const relative = Sim3.fromPose(loopSide.pose.position, loopSide.pose.rotation)
+        .inverse()
+        .multiply(Sim3.fromPose(corrected.pose.position, corrected.pose.rotation));
+      const expectedRelative = truth[0].inverse().multiply(truth[lastId]);
+      const before = drifted[0].inverse().multiply(drifted[lastId]).translation.distanceTo(expectedRelative.translation);
+      const after = relative.translation.distanceTo(expectedRelative.translation);
+      expect(after).toBeLessThan(before);
+
+      // Map point keeps its position relative to the corrected keyframe
+      const expected = Sim3.fromPose(corrected.pose.position, corrected.pose.rotation).transformPoint(local);
+      expect(map.getMapPoint(mapPoint.id)!.position.distanceTo(expected)).toBeLessThan(1e-6);
+
+      // Pose matrices are recomputed
+      const [tx, ty, tz] = corrected.pose.inverse.getTranslation();
+      expect(tx).toBeCloseTo(corrected.pose.position.x, 4);
+      expect(ty).toBeCloseTo(corrected.pose.position.y, 4);
+      expect(tz).toBeCloseTo(corrected.pose.position.z, 4);
+    });
+
+    it('should hold the given anchor keyframe instead of the smallest id', () => {
+      const truth = createCircle(10);
+      const drifted = addDrift(truth, 0.03, 1.0);
+      const map = createMap(drifted);
+      const lastId = drifted.length - 1;
+
+      const optimizer = new PoseGraphOptimizer({ optimizeScale: false });
+      optimizer.correctLoop(
+        map,
+        [{ queryKeyframeId: lastId, loopKeyframeId: 0, relative: truth[0].inverse().multiply(truth[lastId]) }],
+        4
+      );
+
+      expect(map.getKeyframe(4)!.pose.position.distanceTo(drifted[4].translation)).toBeLessThan(1e-9);
+      expect(map.getKeyframe(0)!.pose.position.distanceTo(drifted[0].translation)).toBeGreaterThan(1e-3);
+
+      expect(() => optimizer.correctLoop(
+        map,
+        [{ queryKeyframeId: lastId, loopKeyframeId: 0, relative: Sim3.identity() }],
+        99
+      )).toThrow('anchor');
+    });
+
+    it('should close a loop over hundreds of keyframes', () => {
+      const count = 300;
+      const truth = createCircle(count, 20);
+      const drifted = addDrift(truth, 0.001, 1.01);
+      const map = createMap(drifted);
+      const lastId = count - 1;
+
+      const optimizer = new PoseGraphOptimizer();
+      const correction = optimizer.correctLoop(map, [
+        { queryKeyframeId: lastId, loopKeyframeId: 0, relative: truth[0].inverse().multiply(truth[lastId]) },
+      ]);
+
+      expect(correction!.corrections.size).toBe(count);
+      expect(correction!.finalError).toBeLessThan(correction!.initialError * 0.1);
+    });
+
+    it('should return null without loop constraints', () => {
+      const map = new SLAMMapManager('empty');
+      const optimizer = new PoseGraphOptimizer();
+      expect(optimizer.correctLoop(map, [])).toBeNull();
+    });
+  });
+});
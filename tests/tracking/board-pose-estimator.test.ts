@@ -0,0 +1,82 @@
+/**
+ * Board Pose Estimator Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { BoardPoseEstimator } from '../../src/core/tracking/board-pose-estimator';
+import { createGridBoard, createCharucoBoard } from '../../src/core/detection/marker-board';
+import type { DetectedMarker } from '../../src/core/detection/marker-detector';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { createRandom } from '../../src/utils/random';
+
+const intrinsics = { fx: 800, fy: 800, cx: 640, cy: 360 };
+const rotation = Quaternion.fromAxisAngle(new Vector3(0.2, 1, 0.1).normalize(), 0.7);
+const translation = new Vector3(-0.03, 0.02, 0.5);
+
+function observe(markers: Array<{ id: number; corners: Vector3[] }>, noise = 0): DetectedMarker[] {
+  const random = createRandom(5);
+  const toPixel = (p: Vector3): [number, number] => {
+    const c = rotation.rotateVector(p).add(translation);
+    return [
+      intrinsics.fx * c.x / c.z + intrinsics.cx + noise * (random() - 0.5),
+      intrinsics.fy * c.y / c.z + intrinsics.cy + noise * (random() - 0.5),
+    ];
+  };
+
+  return markers.map(m => {
+    const [topLeft, topRight, bottomRight, bottomLeft] = m.corners.map(toPixel);
+    return { id: m.id, corners: { topLeft, topRight, bottomRight, bottomLeft }, confidence: 1 };
+  });
+}
+
+function rotationError(q: Quaternion): number {
+  return q.conjugate().multiply(rotation).toRotationVector().length();
+}
+
+describe('BoardPoseEstimator', () => {
+  const grid = createGridBoard({ columns: 4, rows: 3, markerLength: 0.03, markerSeparation: 0.01 });
+
+  it('should solve one pose over all visible grid markers', () => {
+    const estimator = new BoardPoseEstimator(intrinsics);
+    const detected = observe(grid.markers.filter(m => m.id % 3 !== 0), 0.5);
+
+    const pose = estimator.estimatePose(grid, detected)!;
+
+    expect(pose.markerIds).toHaveLength(8);
+    expect(pose.numCorrespondences).toBe(32);
+    expect(pose.position.distanceTo(translation)).toBeLessThan(0.002);
+    expect(rotationError(pose.rotation)).toBeLessThan(0.01);
+    expect(pose.reprojectionError!).toBeLessThan(1);
+  });
+
+  it('should reject a misplaced marker as outliers', () => {
+    const estimator = new BoardPoseEstimator(intrinsics);
+    const detected = observe(grid.markers);
+    const { topLeft, topRight, bottomRight, bottomLeft } = detected[5].corners;
+    detected[5].corners = { topLeft: topRight, topRight: bottomRight, bottomRight: bottomLeft, bottomLeft: topLeft };
+
+    const pose = estimator.estimatePose(grid, detected)!;
+
+    expect(pose.inliers).toHaveLength(44);
+    expect(pose.position.distanceTo(translation)).toBeLessThan(1e-6);
+  });
+
+  it('should add interpolated corners on ChArUco boards', () => {
+    const board = createCharucoBoard({ squaresX: 5, squaresY: 4, squareLength: 0.04, markerLength: 0.03 });
+    const estimator = new BoardPoseEstimator(intrinsics);
+
+    const pose = estimator.estimatePose(board, observe(board.markers))!;
+
+    expect(pose.charucoCorners).toHaveLength(12);
+    expect(pose.numCorrespondences).toBe(40 + 12);
+    expect(pose.position.distanceTo(translation)).toBeLessThan(1e-6);
+  });
+
+  it('should require enough board markers', () => {
+    const estimator = new BoardPoseEstimator(intrinsics, { minMarkers: 3 });
+
+    expect(estimator.estimatePose(grid, observe(grid.markers.slice(0, 2)))).toBeNull();
+    expect(estimator.estimatePose(grid, [])).toBeNull();
+  });
+});
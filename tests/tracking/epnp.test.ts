@@ -0,0 +1,101 @@
+/**
+ * EPnP Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { EPnP } from '../../src/core/tracking/epnp';
+import { RANSACPose } from '../../src/core/tracking/ransac-pose';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { createRandom } from '../../src/utils/random';
+
+const rotation = Quaternion.fromAxisAngle(new Vector3(0.3, 1, 0.2).normalize(), 0.6);
+const translation = new Vector3(0.1, -0.05, 0.8);
+
+/**
+ * Unit bearing vectors of object points seen from the test pose
+ */
+function project(points: Vector3[], noise = 0, random = createRandom(3)): Vector3[] {
+  return points.map(p => {
+    const c = rotation.rotateVector(p).add(translation);
+    return new Vector3(
+      c.x / c.z + noise * (random() - 0.5),
+      c.y / c.z + noise * (random() - 0.5),
+      1
+    ).normalize();
+  });
+}
+
+function rotationError(q: Quaternion): number {
+  return q.conjugate().multiply(rotation).toRotationVector().length();
+}
+
+const volume = Array.from({ length: 10 }, (_, i) =>
+  new Vector3(Math.sin(i * 1.3) * 0.2, Math.cos(i * 2.1) * 0.2, Math.sin(i * 0.7) * 0.1)
+);
+const plane = Array.from({ length: 12 }, (_, i) =>
+  new Vector3(Math.sin(i * 1.3) * 0.2, Math.cos(i * 2.1) * 0.2, 0)
+);
+
+describe('EPnP', () => {
+  it('should recover the pose of non-planar points', () => {
+    const result = EPnP.solve(volume, project(volume))!;
+
+    expect(result.position.distanceTo(translation)).toBeLessThan(1e-6);
+    expect(rotationError(result.rotation)).toBeLessThan(1e-6);
+    expect(result.reprojectionError).toBeLessThan(1e-9);
+  });
+
+  it('should recover the pose of planar points', () => {
+    const square = [
+      new Vector3(-0.05, 0.05, 0),
+      new Vector3(0.05, 0.05, 0),
+      new Vector3(0.05, -0.05, 0),
+      new Vector3(-0.05, -0.05, 0),
+    ];
+
+    for (const points of [square, plane]) {
+      const result = EPnP.solve(points, project(points))!;
+      expect(result.position.distanceTo(translation)).toBeLessThan(1e-6);
+      expect(rotationError(result.rotation)).toBeLessThan(1e-6);
+    }
+  });
+
+  it('should produce a matrix mapping object points into the camera frame', () => {
+    const result = EPnP.solve(volume, project(volume))!;
+
+    for (const p of volume) {
+      const expected = rotation.rotateVector(p).add(translation);
+      expect(result.matrix.transformPoint(p).distanceTo(expected)).toBeLessThan(1e-5);
+    }
+  });
+
+  it('should tolerate image noise', () => {
+    const result = EPnP.solve(plane, project(plane, 0.002))!;
+
+    expect(result.position.distanceTo(translation)).toBeLessThan(0.005);
+    expect(rotationError(result.rotation)).toBeLessThan(0.01);
+  });
+
+  it('should reject degenerate input', () => {
+    const line = [0, 1, 2, 3].map(i => new Vector3(i * 0.1, 0, 0));
+
+    expect(EPnP.solve(volume.slice(0, 3), project(volume.slice(0, 3)))).toBeNull();
+    expect(EPnP.solve(line, project(line))).toBeNull();
+  });
+});
+
+describe('RANSACPose', () => {
+  it('should reject outliers given unit bearing vectors', () => {
+    const imagePoints = project(plane);
+    imagePoints[3] = new Vector3(0.5, 0.2, 1).normalize();
+    imagePoints[7] = new Vector3(-0.3, 0.1, 1).normalize();
+
+    const result = new RANSACPose({ inlierThreshold: 0.005 }).estimatePose(plane, imagePoints)!;
+
+    expect(result.inliers).toHaveLength(10);
+    expect(result.inliers).not.toContain(3);
+    expect(result.inliers).not.toContain(7);
+    expect(result.position.distanceTo(translation)).toBeLessThan(1e-6);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * IPPE Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { IPPE } from '../../src/core/tracking/ippe';
+import { PoseEstimator } from '../../src/core/tracking/pose-estimator';
+import { Vector3 } from '../../src/core/math/vector';
+import { Quaternion } from '../../src/core/math/quaternion';
+
+const rotation = Quaternion.fromAxisAngle(new Vector3(0.3, 1, 0.2).normalize(), 0.6);
+
+const square = [
+  new Vector3(-0.05, 0.05, 0),
+  new Vector3(0.05, 0.05, 0),
+  new Vector3(0.05, -0.05, 0),
+  new Vector3(-0.05, -0.05, 0),
+];
+
+/**
+ * Unit bearing vectors of the square seen from the given pose
+ */
+function project(points: Vector3[], translation: Vector3, q = rotation): Vector3[] {
+  return points.map(p => {
+    const c = q.rotateVector(p).add(translation);
+    return new Vector3(c.x / c.z, c.y / c.z, 1).normalize();
+  });
+}
+
+function rotationError(a: Quaternion, b: Quaternion): number {
+  return a.conjugate().multiply(b).toRotationVector().length();
+}
+
+describe('IPPE', () => {
+  it('should recover the pose of a square as the best solution', () => {
+    const translation = new Vector3(0.1, -0.05, 0.8);
+    const result = IPPE.solve(square, project(square, translation))!;
+    const [best, second] = result.poses;
+
+    expect(best.position.distanceTo(translation)).toBeLessThan(1e-9);
+    expect(rotationError(best.rotation, rotation)).toBeLessThan(1e-9);
+    expect(best.reprojectionError).toBeLessThan(1e-12);
+
+    // The flipped solution is a genuinely different pose
+    expect(rotationError(second.rotation, rotation)).toBeGreaterThan(0.1);
+    expect(second.reprojectionError).toBeGreaterThan(best.reprojectionError);
+    expect(result.ambiguityRatio).toBeLessThan(1e-6);
+  });
+
+  it('should recover poses from more than four planar points', () => {
+    const plane = Array.from({ length: 12 }, (_, i) =>
+      new Vector3(Math.sin(i * 1.3) * 0.2 + 0.3, Math.cos(i * 2.1) * 0.2, 0)
+    );
+    const translation = new Vector3(-0.2, 0.1, 1.5);
+    const result = IPPE.solve(plane, project(plane, translation))!;
+
+    expect(result.poses[0].position.distanceTo(translation)).toBeLessThan(1e-8);
+    expect(rotationError(result.poses[0].rotation, rotation)).toBeLessThan(1e-8);
+  });
+
+  it('should report a larger ambiguity for small, distant markers', () => {
+    const tilt = Quaternion.fromAxisAngle(new Vector3(1, 0, 0), 0.3);
+    const perturb = (points: Vector3[]): Vector3[] =>
+      points.map((p, i) => new Vector3(p.x + (i % 2 ? 2e-4 : -2e-4), p.y + (i < 2 ? 2e-4 : -2e-4), p.z));
+
+    const near = IPPE.solve(square, perturb(project(square, new Vector3(0, 0, 0.3), tilt)))!;
+    const far = IPPE.solve(square, perturb(project(square, new Vector3(0, 0, 4), tilt)))!;
+
+    expect(far.ambiguityRatio).toBeGreaterThan(near.ambiguityRatio);
+    expect(far.ambiguityRatio).toBeLessThanOrEqual(1);
+  });
+
+  it('should reject degenerate input', () => {
+    const lifted = square.map(p => new Vector3(p.x, p.y, 0.1));
+
+    expect(IPPE.solve(square.slice(0, 3), project(square.slice(0, 3), new Vector3(0, 0, 1)))).toBeNull();
+    expect(IPPE.solve(lifted, project(square, new Vector3(0, 0, 1)))).toBeNull();
+  });
+
+  it('should give both marker poses in pixels from PoseEstimator', () => {
+    const intrinsics = { fx: 800, fy: 800, cx: 640, cy: 360 };
+    const estimator = new PoseEstimator(intrinsics);
+    const translation = new Vector3(0.05, 0.02, 0.6);
+
+    const [tl, tr, br, bl] = project(square, translation).map(b => [
+      (b.x / b.z) * intrinsics.fx + intrinsics.cx,
+      (b.y / b.z) * intrinsics.fy + intrinsics.cy,
+    ] as [number, number]);
+
+    const candidates = estimator.estimatePoseCandidates(
+      { topLeft: tl, topRight: tr, bottomRight: br, bottomLeft: bl },
+      0.1
+    )!;
+
+    expect(candidates.poses[0].refinementMethod).toBe('ippe');
+    expect(candidates.poses[0].position.distanceTo(translation)).toBeLessThan(1e-6);
+    expect(candidates.poses[1].reprojectionError!).toBeGreaterThan(0.01);
+  });
+});
@@ -7,9 +7,136 @@ import {
   NaturalImageTracker,
   ReferenceImageStore,
   GeometricVerifier,
+  type TrackedImage,
 } from '../../src/core/tracking/natural-image';
 import type { FeatureMatch } from '../../src/core/matching';
 import type { Keypoint } from '../../src/core/detection/feature-detector';
+import { extractORBFeatures } from '../../src/core/detection/orb-extractor';
+import { OpticalFlow, type GrayImage } from '../../src/core/tracking/optical-flow';
+import { Homography } from '../../src/core/math/homography';
+import { Quaternion } from '../../src/core/math/quaternion';
+import { Vector3 } from '../../src/core/math/vector';
+import { Matrix4 } from '../../src/core/math/matrix';
+import { createRandom } from '../../src/utils/random';
+
+// Bun has no ImageData
+globalThis.ImageData ??= class {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+} as unknown as typeof ImageData;
+
+const REF_WIDTH = 240;
+const REF_HEIGHT = 180;
+const PHYSICAL_WIDTH = 0.24;
+const PHYSICAL_HEIGHT = 0.18;
+const intrinsics = { fx: 400, fy: 400, cx: 160, cy: 120 };
+
+/**
+ * Reference texture: Gaussian blobs on a smooth gradient
+ */
+function createReference(): Uint8Array {
+  const random = createRandom(11);
+  const blobs = Array.from({ length: 220 }, () => ({
+    x: random() * REF_WIDTH,
+    y: random() * REF_HEIGHT,
+    sigma: 1.5 + random() * 2,
+    amplitude: (random() < 0.5 ? -1 : 1) * (60 + random() * 60),
+  }));
+
+  const data = new Uint8Array(REF_WIDTH * REF_HEIGHT);
+  for (let y = 0; y < REF_HEIGHT; y++) {
+    for (let x = 0; x < REF_WIDTH; x++) {
+      let value = 128 + 40 * Math.sin(x / 17) * Math.cos(y / 23);
+      for (const b of blobs) {
+        const d2 = (x - b.x) ** 2 + (y - b.y) ** 2;
+        if (d2 < 16 * b.sigma * b.sigma) {
+          value += b.amplitude * Math.exp(-d2 / (2 * b.sigma * b.sigma));
+        }
+      }
+      data[y * REF_WIDTH + x] = Math.max(0, Math.min(255, Math.round(value)));
+    }
+  }
+  return data;
+}
+
+const reference = createReference();
+
+function referenceImageData(): ImageData {
+  const image = new ImageData(REF_WIDTH, REF_HEIGHT);
+  for (let i = 0; i < reference.length; i++) {
+    image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = reference[i];
+    image.data[i * 4 + 3] = 255;
+  }
+  return image;
+}
+
+function createTrackedImage(id: string): TrackedImage {
+  const position = new Vector3(0, 0, 1);
+  const rotation = Quaternion.identity();
+  return {
+    id,
+    pose: { position, rotation, matrix: Matrix4.compose(position, rotation, new Vector3(1, 1, 1)) },
+    confidence: 0.85,
+    matchCount: 50,
+    isTracking: true,
+  };
+}
+
+/**
+ * Camera rotation for an image facing the camera, turned by (yaw, roll)
+ */
+function facingRotation(yaw: number, roll: number): Quaternion {
+  return Quaternion.fromAxisAngle(new Vector3(0, 1, 0), yaw)
+    .multiply(Quaternion.fromAxisAngle(new Vector3(0, 0, 1), roll))
+    .multiply(Quaternion.fromAxisAngle(new Vector3(1, 0, 0), Math.PI));
+}
+
+/**
+ * Render the reference plane seen from a pose (bilinear, dark background)
+ */
+function renderFrame(rotation: Quaternion, position: Vector3, width = 320, height = 240): GrayImage {
+  const R = rotation.toRotationMatrix();
+  const toPlane = (u: number, v: number) => ({
+    x: (u / REF_WIDTH - 0.5) * PHYSICAL_WIDTH,
+    y: (0.5 - v / REF_HEIGHT) * PHYSICAL_HEIGHT,
+  });
+  const project = (u: number, v: number) => {
+    const p = toPlane(u, v);
+    const X = R[0] * p.x + R[1] * p.y + position.x;
+    const Y = R[3] * p.x + R[4] * p.y + position.y;
+    const Z = R[6] * p.x + R[7] * p.y + position.z;
+    return { x: intrinsics.fx * X / Z + intrinsics.cx, y: intrinsics.fy * Y / Z + intrinsics.cy };
+  };
+
+  // Frame pixels -> reference pixels
+  const corners = [[0, 0], [REF_WIDTH, 0], [REF_WIDTH, REF_HEIGHT], [0, REF_HEIGHT]];
+  const H = Homography.fit(corners.map(([u, v]) => project(u, v)), corners.map(([x, y]) => ({ x, y })))!;
+
+  const data = new Uint8Array(width * height).fill(60);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { x: u, y: v } = Homography.apply(H, { x, y });
+      const u0 = Math.floor(u);
+      const v0 = Math.floor(v);
+      if (u0 < 0 || v0 < 0 || u0 >= REF_WIDTH - 1 || v0 >= REF_HEIGHT - 1) {continue;}
+
+      const fu = u - u0;
+      const fv = v - v0;
+      const i = v0 * REF_WIDTH + u0;
+      const top = reference[i] * (1 - fu) + reference[i + 1] * fu;
+      const bottom = reference[i + REF_WIDTH] * (1 - fu) + reference[i + REF_WIDTH + 1] * fu;
+      data[y * width + x] = Math.round(top * (1 - fv) + bottom * fv);
+    }
+  }
+  return { data, width, height };
+}
 
 describe('ReferenceImageStore', () => {
   let store: ReferenceImageStore;
@@ -292,6 +419,38 @@ describe('GeometricVerifier', () => {
   });
 });
 
+describe('GeometricVerifier homography', () => {
+  it('should recover a homography and reject outliers', () => {
+    const verifier = new GeometricVerifier({ threshold: 2, minInliers: 8 });
+    const random = createRandom(5);
+    const H = [1.1, 0.2, 15, -0.1, 0.9, 30, 0.0005, -0.0003, 1];
+
+    const matches: FeatureMatch[] = [];
+    const queryKeypoints: Keypoint[] = [];
+    const trainKeypoints: Keypoint[] = [];
+
+    for (let i = 0; i < 40; i++) {
+      const q = { x: random() * 300, y: random() * 200 };
+      const t = i < 30 ? Homography.apply(H, q) : { x: random() * 300, y: random() * 200 };
+
+      matches.push({ queryIdx: i, trainIdx: i, distance: 10 });
+      queryKeypoints.push({ ...q, angle: 0, response: 1, octave: 0 });
+      trainKeypoints.push({ ...t, angle: 0, response: 1, octave: 0 });
+    }
+
+    const result = verifier.estimateHomography(matches, queryKeypoints, trainKeypoints);
+    expect(result).not.toBeNull();
+    expect(result!.inliers.length).toBeGreaterThanOrEqual(30);
+    expect(result!.inliers.length).toBeLessThan(33);
+    expect(result!.isValid).toBe(true);
+
+    const p = result!.homography.multiplyVector(100, 50);
+    const expected = Homography.apply(H, { x: 100, y: 50 });
+    expect(p[0] / p[2]).toBeCloseTo(expected.x, 2);
+    expect(p[1] / p[2]).toBeCloseTo(expected.y, 2);
+  });
+});
+
 describe('NaturalImageTracker', () => {
   let tracker: NaturalImageTracker;
 
@@ -382,34 +541,10 @@ describe('NaturalImageTracker', () => {
       expect(image).toBeUndefined(); // Not tracking yet
     });
 
-    it('should create mock tracked image', () => {
-      const mockImage = tracker.createMockTrackedImage('track-test', {
-        fx: 500,
-        fy: 500,
-        cx: 320,
-        cy: 240,
-      });
-
-      expect(mockImage).toBeDefined();
-      expect(mockImage.id).toBe('track-test');
-      expect(mockImage.pose).toBeDefined();
-      expect(mockImage.pose.position).toBeDefined();
-      expect(mockImage.pose.rotation).toBeDefined();
-      expect(mockImage.pose.matrix).toBeDefined();
-      expect(mockImage.confidence).toBeGreaterThan(0);
-      expect(mockImage.confidence).toBeLessThanOrEqual(1);
-      expect(mockImage.isTracking).toBe(true);
-    });
-
     it('should update tracking state', () => {
-      const mockImage = tracker.createMockTrackedImage('track-test', {
-        fx: 500,
-        fy: 500,
-        cx: 320,
-        cy: 240,
-      });
+      const trackedImage = createTrackedImage('track-test');
 
-      tracker.updateTracking('track-test', mockImage);
+      tracker.updateTracking('track-test', trackedImage);
 
       const tracked = tracker.getTrackedImage('track-test');
       expect(tracked).toBeDefined();
@@ -417,14 +552,9 @@ describe('NaturalImageTracker', () => {
     });
 
     it('should clear tracking', () => {
-      const mockImage = tracker.createMockTrackedImage('track-test', {
-        fx: 500,
-        fy: 500,
-        cx: 320,
-        cy: 240,
-      });
+      const trackedImage = createTrackedImage('track-test');
 
-      tracker.updateTracking('track-test', mockImage);
+      tracker.updateTracking('track-test', trackedImage);
       tracker.clearTracking('track-test');
 
       const tracked = tracker.getTrackedImage('track-test');
@@ -446,4 +576,90 @@ describe('NaturalImageTracker', () => {
       expect(tracker.getTrackedImages()).toHaveLength(0);
     });
   });
+
+  describe('feature tracking', () => {
+    beforeEach(async () => {
+      await tracker.addReferenceImage({
+        id: 'poster',
+        imageData: referenceImageData(),
+        physicalWidth: PHYSICAL_WIDTH,
+      });
+    });
+
+    it('should compute reference features for every pyramid level', () => {
+      const image = tracker.getReferenceStore().getImage('poster')!;
+
+      expect(image.physicalHeight).toBeCloseTo(PHYSICAL_HEIGHT, 6);
+      expect(image.features.levels).toHaveLength(image.pyramid.levels.length);
+      for (const level of image.features.levels) {
+        expect(level.descriptors).toHaveLength(level.keypoints.length);
+      }
+      expect(image.features.levels[0].keypoints.length).toBeGreaterThan(50);
+    });
+
+    it('should find an image and estimate its metric pose', async () => {
+      const rotation = facingRotation(0.3, 0.4);
+      const position = new Vector3(0.02, -0.01, 0.35);
+      const found: string[] = [];
+      tracker.on('image:found', image => found.push(image.id));
+
+      const result = await tracker.track(extractORBFeatures(renderFrame(rotation, position)), intrinsics);
+
+      expect(found).toEqual(['poster']);
+      expect(result).toHaveLength(1);
+
+      const pose = result[0].pose;
+      expect(pose.position.x).toBeCloseTo(0.02, 2);
+      expect(pose.position.y).toBeCloseTo(-0.01, 2);
+      expect(pose.position.z).toBeCloseTo(0.35, 1);
+      const dot = pose.rotation.x * rotation.x + pose.rotation.y * rotation.y +
+        pose.rotation.z * rotation.z + pose.rotation.w * rotation.w;
+      expect(Math.abs(dot)).toBeGreaterThan(0.999);
+      expect(result[0].matchCount).toBeGreaterThanOrEqual(15);
+      expect(result[0].corners).toHaveLength(4);
+    });
+
+    it('should not find an image in an unrelated frame', async () => {
+      const random = createRandom(21);
+      const noise = new Uint8Array(320 * 240).map(() => Math.floor(random() * 256));
+      const result = await tracker.track(extractORBFeatures({ data: noise, width: 320, height: 240 }), intrinsics);
+
+      expect(result).toHaveLength(0);
+    });
+
+    it('should follow the image with optical flow and report loss', async () => {
+      const flow = new OpticalFlow();
+      const events: string[] = [];
+      tracker.on('image:found', () => events.push('found'));
+      tracker.on('image:updated', () => events.push('updated'));
+      tracker.on('image:lost', () => events.push('lost'));
+
+      const rotation = facingRotation(0.2, 0.1);
+      const first = renderFrame(rotation, new Vector3(0, 0, 0.4));
+      const second = renderFrame(rotation, new Vector3(0.01, 0.005, 0.4));
+
+      await tracker.track(extractORBFeatures(first), intrinsics);
+      expect(events).toEqual(['found']);
+
+      // Propagate into the next frame without any keypoints: flow alone keeps tracking
+      let previous = flow.buildPyramid(first);
+      let current = flow.buildPyramid(second);
+      const pointTracker = {
+        track: async (points: Array<{ x: number; y: number }>) => flow.track(previous, current, points),
+      };
+
+      const result = await tracker.track({ keypoints: [], descriptors: new Uint32Array(0) }, intrinsics, pointTracker);
+      expect(events).toEqual(['found', 'updated']);
+      expect(result[0].pose.position.x).toBeCloseTo(0.01, 2);
+      expect(result[0].pose.position.y).toBeCloseTo(0.005, 2);
+
+      // The image leaves the view
+      previous = current;
+      current = flow.buildPyramid({ data: new Uint8Array(320 * 240).fill(60), width: 320, height: 240 });
+
+      await tracker.track({ keypoints: [], descriptors: new Uint32Array(0) }, intrinsics, pointTracker);
+      expect(events).toEqual(['found', 'updated', 'lost']);
+      expect(tracker.getTrackedImages()).toHaveLength(0);
+    });
+  });
 });
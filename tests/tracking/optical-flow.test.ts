@@ -0,0 +1,97 @@
+/**
+ * Optical Flow Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { OpticalFlow, buildImagePyramid, type GrayImage } from '../../src/core/tracking/optical-flow';
+import { createRandom } from '../../src/utils/random';
+
+const random = createRandom(7);
+const blobs = Array.from({ length: 120 }, () => ({
+  x: random() * 200 - 20,
+  y: random() * 160 - 20,
+  sigma: 3 + random() * 5,
+  sign: random() < 0.5 ? -1 : 1,
+}));
+
+/**
+ * Textured image of Gaussian blobs, shifted by (dx, dy)
+ */
+function createImage(dx = 0, dy = 0, width = 160, height = 120): GrayImage {
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 128;
+      for (const b of blobs) {
+        const d2 = (x - dx - b.x) ** 2 + (y - dy - b.y) ** 2;
+        if (d2 < 9 * b.sigma * b.sigma) {
+          value += b.sign * 90 * Math.exp(-d2 / (2 * b.sigma * b.sigma));
+        }
+      }
+      data[y * width + x] = Math.max(0, Math.min(255, Math.round(value)));
+    }
+  }
+  return { data, width, height };
+}
+
+const grid: Array<{ x: number; y: number }> = [];
+for (let y = 30; y <= 90; y += 20) {
+  for (let x = 30; x <= 130; x += 20) {
+    grid.push({ x, y });
+  }
+}
+
+describe('OpticalFlow', () => {
+  const flow = new OpticalFlow();
+  const reference = flow.buildPyramid(createImage());
+
+  it('should build a halving pyramid', () => {
+    const pyramid = buildImagePyramid(createImage(), 4);
+
+    expect(pyramid.map(l => [l.width, l.height])).toEqual([[160, 120], [80, 60], [40, 30], [20, 15]]);
+    expect(pyramid[3].data.every(v => v >= 0 && v <= 1)).toBe(true);
+  });
+
+  it('should track sub-pixel and large motions', () => {
+    for (const [dx, dy] of [[1.3, -0.7], [12.6, -9.3]]) {
+      const result = flow.track(reference, flow.buildPyramid(createImage(dx, dy)), grid);
+      const found = result.filter(p => p.found);
+
+      expect(found.length).toBeGreaterThan(grid.length * 0.8);
+      result.forEach((p, i) => {
+        if (!p.found) {return;}
+        expect(Math.hypot(p.x - grid[i].x - dx, p.y - grid[i].y - dy)).toBeLessThan(0.1);
+        expect(p.error).toBeLessThan(2);
+      });
+    }
+  });
+
+  it('should lose points without texture or outside the image', () => {
+    const flat = flow.buildPyramid({ data: new Uint8Array(160 * 120).fill(90), width: 160, height: 120 });
+
+    expect(flow.track(flat, flat, [{ x: 50, y: 50 }])[0].found).toBe(false);
+    expect(flow.track(reference, reference, [{ x: -5, y: 50 }])[0].found).toBe(false);
+  });
+
+  it('should propagate marker corners and keypoints', () => {
+    const next = flow.buildPyramid(createImage(4.5, 2.25));
+    const [a, b, c, d] = grid.filter((_, i) => [7, 10, 16, 13].includes(i));
+    const corners = flow.trackCorners(reference, next, {
+      topLeft: [a.x, a.y],
+      topRight: [b.x, b.y],
+      bottomRight: [c.x, c.y],
+      bottomLeft: [d.x, d.y],
+    })!;
+
+    expect(corners.topLeft[0]).toBeCloseTo(a.x + 4.5, 1);
+    expect(corners.bottomRight[1]).toBeCloseTo(c.y + 2.25, 1);
+
+    const keypoints = flow.trackKeypoints(
+      reference,
+      next,
+      grid.map(p => ({ ...p, angle: 0.5, response: 1, octave: 0 }))
+    );
+    expect(keypoints.length).toBeGreaterThan(grid.length * 0.8);
+    expect(keypoints[0].angle).toBe(0.5);
+  });
+});
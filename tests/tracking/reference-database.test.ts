@@ -0,0 +1,194 @@
+/**
+ * Reference Database Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  NaturalImageTracker,
+  ReferenceImageStore,
+  compileReferenceDatabase,
+  decodeReferenceDatabase,
+  isReferenceDatabase,
+  type ImagePixels,
+} from '../../src/core/tracking/natural-image';
+import { extractORBFeatures, descriptorsToBytes } from '../../src/core/detection/orb-extractor';
+import type { GrayImage } from '../../src/core/tracking/optical-flow';
+import { createRandom } from '../../src/utils/random';
+
+const WIDTH = 200;
+const HEIGHT = 150;
+const intrinsics = { fx: 400, fy: 400, cx: 160, cy: 120 };
+
+/**
+ * Gray texture of Gaussian blobs, different for every seed
+ */
+function createTexture(seed: number): GrayImage {
+  const random = createRandom(seed);
+  const blobs = Array.from({ length: 160 }, () => ({
+    x: random() * WIDTH,
+    y: random() * HEIGHT,
+    sigma: 1.5 + random() * 2,
+    amplitude: (random() < 0.5 ? -1 : 1) * (60 + random() * 60),
+  }));
+
+  const data = new Uint8Array(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      let value = 128;
+      for (const b of blobs) {
+        const d2 = (x - b.x) ** 2 + (y - b.y) ** 2;
+        if (d2 < 16 * b.sigma * b.sigma) {
+          value += b.amplitude * Math.exp(-d2 / (2 * b.sigma * b.sigma));
+        }
+      }
+      data[y * WIDTH + x] = Math.max(0, Math.min(255, Math.round(value)));
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+function toPixels(image: GrayImage): ImagePixels {
+  const data = new Uint8ClampedArray(image.width * image.height * 4);
+  for (let i = 0; i < image.data.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = image.data[i];
+    data[i * 4 + 3] = 255;
+  }
+  return { data, width: image.width, height: image.height };
+}
+
+/**
+ * Place a texture in a 320×240 frame at an offset (fronto-parallel view)
+ */
+function embed(texture: GrayImage, offsetX: number, offsetY: number): GrayImage {
+  const width = 320;
+  const height = 240;
+  const data = new Uint8Array(width * height).fill(60);
+  for (let y = 0; y < texture.height; y++) {
+    for (let x = 0; x < texture.width; x++) {
+      data[(y + offsetY) * width + x + offsetX] = texture.data[y * texture.width + x];
+    }
+  }
+  return { data, width, height };
+}
+
+const textures = [3, 5, 7].map(createTexture);
+const images = textures.map((texture, i) => ({
+  id: `target-${i}`,
+  imageData: toPixels(texture),
+  physicalWidth: 0.2,
+}));
+
+describe('Reference Database', () => {
+  it('should compile raw pixels without a DOM', async () => {
+    const bytes = await compileReferenceDatabase(images);
+
+    expect(isReferenceDatabase(bytes)).toBe(true);
+    expect(isReferenceDatabase(new Uint8Array(32))).toBe(false);
+  });
+
+  it('should round-trip features, sizes and the vocabulary', async () => {
+    const store = new ReferenceImageStore();
+    for (const image of images) {
+      await store.addImage(image);
+    }
+    const bytes = await store.compile({ vocabulary: { branching: 8, depth: 2 } });
+
+    const loaded = new ReferenceImageStore();
+    await loaded.load(bytes);
+
+    expect(loaded.getCount()).toBe(3);
+    for (const original of store.getAllImages()) {
+      const image = loaded.getImage(original.id)!;
+      expect(image.width).toBe(original.width);
+      expect(image.height).toBe(original.height);
+      expect(image.physicalWidth).toBeCloseTo(0.2, 6);
+      expect(image.physicalHeight).toBeCloseTo(0.15, 6);
+      expect(image.pyramid.levels).toHaveLength(0);
+      expect(image.pyramid.scales).toEqual(original.pyramid.scales);
+
+      image.features.levels.forEach((level, i) => {
+        const expected = original.features.levels[i];
+        expect(level.width).toBe(expected.width);
+        expect(level.height).toBe(expected.height);
+        expect(level.keypoints).toHaveLength(expected.keypoints.length);
+        expect(level.keypoints[0]?.x).toBeCloseTo(expected.keypoints[0]?.x ?? 0, 4);
+        expect(level.keypoints[0]?.octave).toBe(expected.keypoints[0]?.octave);
+        expect(Array.from(level.descriptors[0] ?? [])).toEqual(Array.from(expected.descriptors[0] ?? []));
+      });
+    }
+
+    const index = loaded.getIndex()!;
+    const original = store.getIndex()!;
+    expect(index.getWordCount()).toBe(original.getWordCount());
+    expect(index.getWordCount()).toBeLessThanOrEqual(64);
+    expect(index.getImageIds()).toEqual(['target-0', 'target-1', 'target-2']);
+    expect(Array.from(index.toData().nodes)).toEqual(Array.from(original.toData().nodes));
+    expect(Array.from(index.toData().postingFrequencies)).toEqual(Array.from(original.toData().postingFrequencies));
+  });
+
+  it('should store uncompressed payloads', async () => {
+    const compressed = await compileReferenceDatabase(images);
+    const raw = await compileReferenceDatabase(images, { compress: false });
+
+    expect(raw.length).toBeGreaterThan(compressed.length);
+    const { images: decoded } = await decodeReferenceDatabase(raw);
+    expect(decoded.map(image => image.id)).toEqual(['target-0', 'target-1', 'target-2']);
+  });
+
+  it('should reject corrupted data', async () => {
+    const bytes = await compileReferenceDatabase(images, { compress: false });
+    bytes[bytes.length - 10] ^= 0xff;
+
+    await expect(decodeReferenceDatabase(bytes)).rejects.toThrow('checksum');
+  });
+
+  it('should rank the imaged reference first', async () => {
+    const store = new ReferenceImageStore();
+    await store.load(await compileReferenceDatabase(images));
+
+    for (let i = 0; i < textures.length; i++) {
+      const frame = extractORBFeatures(embed(textures[i], 60, 45));
+      const candidates = store.selectCandidates(descriptorsToBytes(frame.descriptors));
+      expect(candidates[0].id).toBe(`target-${i}`);
+    }
+  });
+
+  it('should index images added after loading', async () => {
+    const store = new ReferenceImageStore();
+    await store.load(await compileReferenceDatabase(images.slice(0, 2)));
+    await store.addImage(images[2]);
+
+    const frame = extractORBFeatures(embed(textures[2], 60, 45));
+    const candidates = store.selectCandidates(descriptorsToBytes(frame.descriptors), 1);
+
+    expect(store.getIndex()!.getImageIds()).toEqual(['target-0', 'target-1', 'target-2']);
+    expect(candidates.map(image => image.id)).toEqual(['target-2']);
+  });
+
+  it('should detect an image from a loaded database', async () => {
+    const tracker = new NaturalImageTracker({ maxImages: 1, maxCandidates: 1 });
+    await tracker.loadReferenceDatabase(await compileReferenceDatabase(images));
+
+    const result = await tracker.track(extractORBFeatures(embed(textures[1], 100, 50)), intrinsics);
+
+    expect(result.map(image => image.id)).toEqual(['target-1']);
+    // Image center at pixel (200, 125): 0.2 m wide image spans 200 px at Z = 0.4 m
+    const { position } = result[0].pose;
+    expect(position.z).toBeCloseTo(0.4, 1);
+    expect(position.x).toBeCloseTo((200 - 160) * 0.4 / 400, 2);
+    expect(position.y).toBeCloseTo((125 - 120) * 0.4 / 400, 2);
+  });
+
+  it('should retrieve one of many references before verification', async () => {
+    const tracker = new NaturalImageTracker({ maxCandidates: 2 });
+    const many = [11, 13, 17, 19, 23, 29, 31, 37].map(createTexture);
+    for (let i = 0; i < many.length; i++) {
+      await tracker.addReferenceImage({ id: `poster-${i}`, imageData: toPixels(many[i]), physicalWidth: 0.2 });
+    }
+
+    const result = await tracker.track(extractORBFeatures(embed(many[5], 60, 45)), intrinsics);
+
+    expect(tracker.getReferenceStore().getIndex()!.getImageIds()).toHaveLength(8);
+    expect(result.map(image => image.id)).toEqual(['poster-5']);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Vocabulary Index Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { VocabularyIndex } from '../../src/core/tracking/natural-image';
+import { createRandom } from '../../src/utils/random';
+
+function randomDescriptor(random: () => number): Uint8Array {
+  return Uint8Array.from({ length: 32 }, () => Math.floor(random() * 256));
+}
+
+/**
+ * Copy of a descriptor with a few bits flipped (same feature, new view)
+ */
+function perturb(descriptor: Uint8Array, random: () => number, bits = 8): Uint8Array {
+  const result = descriptor.slice();
+  for (let i = 0; i < bits; i++) {
+    const bit = Math.floor(random() * 256);
+    result[bit >> 3] ^= 1 << (bit & 7);
+  }
+  return result;
+}
+
+/**
+ * Images with their own random descriptors
+ */
+function createImages(count: number, featuresPerImage: number, seed: number) {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    id: `image-${i}`,
+    descriptors: Array.from({ length: featuresPerImage }, () => randomDescriptor(random)),
+  }));
+}
+
+describe('VocabularyIndex', () => {
+  it('should quantize a descriptor to its own word', () => {
+    const [image] = createImages(1, 8, 9);
+    const index = VocabularyIndex.build([image], { branching: 10 });
+
+    const words = new Set(image.descriptors.map(d => index.quantize(d)));
+    expect(words.size).toBe(8);
+    expect(index.getWordCount()).toBe(8);
+  });
+
+  it('should build a tree of at most branching^depth words', () => {
+    const images = createImages(4, 200, 3);
+    const index = VocabularyIndex.build(images, { branching: 6, depth: 3 });
+
+    expect(index.getWordCount()).toBeGreaterThan(36);
+    expect(index.getWordCount()).toBeLessThanOrEqual(216);
+    for (const descriptor of images[0].descriptors.slice(0, 20)) {
+      const word = index.quantize(descriptor);
+      expect(word).toBeGreaterThanOrEqual(0);
+      expect(word).toBeLessThan(index.getWordCount());
+    }
+  });
+
+  it('should retrieve the right image among many', () => {
+    const random = createRandom(17);
+    const images = createImages(100, 60, 5);
+    const index = VocabularyIndex.build(images, { branching: 8, depth: 3 });
+
+    for (const i of [0, 13, 57, 99]) {
+      // Half of the image's features seen again, mixed with clutter
+      const frame = [
+        ...images[i].descriptors.slice(0, 30).map(d => perturb(d, random)),
+        ...Array.from({ length: 30 }, () => randomDescriptor(random)),
+      ];
+
+      const candidates = index.query(frame, 3);
+      expect(candidates).toHaveLength(3);
+      expect(candidates[0].id).toBe(`image-${i}`);
+      expect(candidates[0].score).toBeGreaterThan(candidates[1].score);
+      expect(candidates[0].score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should score an identical image as 1', () => {
+    const images = createImages(5, 40, 7);
+    const index = VocabularyIndex.build(images);
+
+    const [best] = index.query(images[2].descriptors);
+    expect(best.id).toBe('image-2');
+    expect(best.score).toBeCloseTo(1, 6);
+  });
+
+  it('should add and remove images with a trained vocabulary', () => {
+    const images = createImages(6, 50, 11);
+    const index = VocabularyIndex.build(images.slice(0, 5));
+
+    index.addImage(images[5].id, images[5].descriptors);
+    expect(index.query(images[5].descriptors, 1)[0].id).toBe('image-5');
+
+    index.removeImage('image-5');
+    expect(index.hasImage('image-5')).toBe(false);
+    expect(index.query(images[5].descriptors).map(c => c.id)).not.toContain('image-5');
+    expect(index.getImageIds()).toHaveLength(5);
+  });
+
+  it('should rank the same after a round trip through its data', () => {
+    const images = createImages(10, 50, 13);
+    const index = VocabularyIndex.build(images, { branching: 5, depth: 2 });
+    const restored = new VocabularyIndex(index.toData());
+
+    const frame = images[4].descriptors.slice(0, 25);
+    expect(restored.getWordCount()).toBe(index.getWordCount());
+    expect(restored.query(frame).map(c => c.id)).toEqual(index.query(frame).map(c => c.id));
+  });
+
+  it('should handle an empty image set', () => {
+    const index = VocabularyIndex.build([]);
+
+    expect(index.getWordCount()).toBe(1);
+    expect(index.query([])).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Build Verification Script
+ * Checks the output of `bun run build` in dist/
+ */
+
+const failures: string[] = [];
+const check = (ok: boolean, message: string): void => {
+  console.log(`  ${ok ? '✅' : '❌'} ${message}`);
+  if (!ok) {
+    failures.push(message);
+  }
+};
+
+console.log('🔍 Verifying build output...\n');
+
+const bundle = Bun.file('dist/index.js');
+const worker = Bun.file('dist/local-mapping-worker.js');
+
+check(await bundle.exists(), 'dist/index.js exists');
+check(await worker.exists(), 'dist/local-mapping-worker.js exists');
+
+if (await bundle.exists()) {
+  // The pool loads the worker relative to the bundle
+  const source = await bundle.text();
+  check(
+    source.includes('"./local-mapping-worker.js"'),
+    'bundle resolves the local mapping worker next to itself'
+  );
+}
+
+if (await worker.exists()) {
+  // Loaded with { type: 'module' } but without an import map: nothing left to resolve
+  const source = await worker.text();
+  check(!/^import /m.test(source), 'worker bundle is self-contained');
+  check(source.includes('onmessage'), 'worker bundle installs its message handler');
+}
+
+if (failures.length > 0) {
+  console.log(`\n❌ Build verification failed (${failures.length})`);
+  process.exit(1);
+}
+
+console.log('\n🎉 Build verification complete!');